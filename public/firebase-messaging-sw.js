@@ -20,49 +20,58 @@ const firebaseConfig = {
   appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID || "1:000000000000:web:0000000000000000"
 };
 
-// Initialize Firebase
-firebase.initializeApp(firebaseConfig);
-
-// Get Firebase Messaging instance
-const messaging = firebase.messaging();
-
 // ============================================================================
 // PUSH NOTIFICATION HANDLER
 // ============================================================================
+// Web Push messages from our server (lib/pushNotificationService.ts) are
+// marked with source "routine-tracker". Registered before Firebase Messaging
+// so it can stop Firebase from also handling them; FCM messages fall through.
+
+self.addEventListener("push", (event) => {
+  let payload;
+  try {
+    payload = event.data ? event.data.json() : null;
+  } catch {
+    payload = null;
+  }
+  if (!payload || payload.source !== "routine-tracker") return;
 
-messaging.onPush((payload) => {
-  console.log("[FCM] Push received:", payload);
+  event.stopImmediatePropagation();
+  console.log("[Push] Push received:", payload);
 
-  const data = payload.data || {};
-  
-  // Check if it's a silent push (for background sync)
-  if (data.type === "silent") {
-    handleSilentPush(payload);
+  // Silent push (for background sync)
+  if (payload.type === "silent") {
+    event.waitUntil(handleSilentPush({ data: { ...payload.data, syncType: payload.syncType } }));
     return;
   }
 
-  // Regular push notification
-  const title = data.title || "Routine Tracker";
+  const data = payload.data || {};
+  const title = payload.title || "Routine Tracker";
   const options = {
-    body: data.body || "",
+    body: payload.body || "",
     icon: data.icon || "/logo.jpg",
     badge: data.badge || "/icon-192.png",
-    tag: data.tag || "default",
+    tag: payload.tag || "default",
     data: {
       url: data.url || "/",
       type: data.type || "info",
       ...data
     },
-    actions: parseActions(data.actions),
+    actions: payload.actions || [],
     requireInteraction: data.priority === "urgent",
     vibrate: [200, 100, 200],
     renotify: true
   };
 
-  // Show notification
-  self.registration.showNotification(title, options);
+  event.waitUntil(self.registration.showNotification(title, options));
 });
 
+// Initialize Firebase
+firebase.initializeApp(firebaseConfig);
+
+// Get Firebase Messaging instance
+const messaging = firebase.messaging();
+
 // ============================================================================
 // SILENT PUSH HANDLER (Background Sync)
 // ============================================================================
@@ -128,7 +137,7 @@ async function syncAchievements(data) {
 // NOTIFICATION CLICK HANDLER
 // ============================================================================
 
-messaging.onNotificationClick((event) => {
+self.addEventListener("notificationclick", (event) => {
   console.log("[FCM] Notification clicked:", event);
   
   const data = event.notification.data || {};
@@ -218,16 +227,6 @@ messaging.onBackgroundMessage((payload) => {
 // UTILITY FUNCTIONS
 // ============================================================================
 
-function parseActions(actionsData) {
-  if (!actionsData) return [];
-  
-  try {
-    return JSON.parse(actionsData);
-  } catch {
-    return [];
-  }
-}
-
 function sendMessageToClient(message) {
   // Send message to all open clients
   clients.matchAll({ type: "window", includeUncontrolled: true }).then((clientList) => {
@@ -251,10 +250,6 @@ self.addEventListener("activate", (event) => {
   event.waitUntil(clients.claim());
 });
 
-self.addEventListener("push event", (event) => {
-  console.log("[FCM] Push event received");
-});
-
 // Handle notification close
 self.addEventListener("notificationclose", (event) => {
   console.log("[FCM] Notification closed:", event.notification.tag);
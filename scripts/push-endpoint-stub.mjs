@@ -0,0 +1,55 @@
+// Local stand-in for a Web Push service, for exercising pushNotificationService
+// without a browser. The server only sends to it with
+// WEB_PUSH_ALLOW_LOCAL_ENDPOINTS=true (never in production), and the
+// subscription has to be written with the admin SDK, since the rules only
+// accept https:// endpoints. Point its endpoint at it, e.g.
+//   http://localhost:8787/push/<anything>      -> 201 Created (delivered)
+//   http://localhost:8787/gone/<anything>      -> 410 Gone (subscription is pruned)
+//   http://localhost:8787/missing/<anything>   -> 404 Not Found (subscription is pruned)
+//
+// Usage: node scripts/push-endpoint-stub.mjs [port]
+// Tests start it with startPushEndpointStub (see pushNotificationService.test.ts).
+
+import http from 'node:http';
+import { fileURLToPath } from 'node:url';
+
+function statusFor(req) {
+    if (req.url.startsWith('/gone/')) return 410;
+    if (req.url.startsWith('/missing/')) return 404;
+    return req.method === 'POST' ? 201 : 405;
+}
+
+function logRequest(received) {
+    console.log(`${received.method} ${received.url} -> ${received.status}`);
+    console.log('  Authorization:', received.headers.authorization?.slice(0, 40) + '...');
+    console.log('  Content-Encoding:', received.headers['content-encoding']);
+    console.log('  TTL:', received.headers.ttl, ' Urgency:', received.headers.urgency);
+    console.log('  Encrypted payload:', received.body.length, 'bytes');
+}
+
+/**
+ * Start the stand-in. Resolves once it's listening; port 0 picks a free one
+ * (read it from server.address().port). Each request is passed to
+ * `onRequest` as { method, url, headers, body, status }.
+ */
+export function startPushEndpointStub(port, { onRequest = logRequest } = {}) {
+    const server = http.createServer((req, res) => {
+        const chunks = [];
+        req.on('data', (chunk) => chunks.push(chunk));
+        req.on('end', () => {
+            const status = statusFor(req);
+            onRequest({ method: req.method, url: req.url, headers: req.headers, body: Buffer.concat(chunks), status });
+
+            res.writeHead(status);
+            res.end();
+        });
+    });
+
+    return new Promise((resolve) => server.listen(port, () => resolve(server)));
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    const port = Number(process.argv[2] || process.env.PORT || 8787);
+    const server = await startPushEndpointStub(port);
+    console.log(`Push endpoint stand-in listening on http://localhost:${server.address().port}`);
+}
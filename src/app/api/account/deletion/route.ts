@@ -0,0 +1,63 @@
+// ============================================================================
+// ACCOUNT API - DELETION
+// ============================================================================
+// GET    /api/account/deletion - The caller's scheduled deletion, if any
+// POST   /api/account/deletion - Schedule the caller's account for deletion
+// DELETE /api/account/deletion - Undo a scheduled deletion
+//
+// The account and everything stored about it is deleted once the grace period
+// runs out (see the account-deletions cron)
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth } from "@/lib/apiHelpers";
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  cancelAccountDeletion,
+  getAccountDeletion,
+  scheduleAccountDeletion
+} from "@/lib/accountService";
+
+/**
+ * GET /api/account/deletion
+ * Returns { deletion }, null when none is scheduled
+ */
+export const GET = withErrorHandling(
+  withRateLimit(
+    withAuth(async (_request: NextRequest, auth) => {
+      const deletion = await getAccountDeletion(auth.uid);
+      return NextResponse.json({ success: true, deletion, graceDays: ACCOUNT_DELETION_GRACE_DAYS });
+    }),
+    { maxRequests: 30, windowMs: 60000, identifier: "account_deletion_status" }
+  ),
+  { endpoint: "/api/account/deletion", method: "GET" }
+);
+
+/**
+ * POST /api/account/deletion
+ * Schedules the caller's account for deletion
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (_request: NextRequest, auth) => {
+      const deletion = await scheduleAccountDeletion(auth.uid);
+      return NextResponse.json({ success: true, deletion });
+    }),
+    { maxRequests: 5, windowMs: 60000, identifier: "account_deletion" }
+  ),
+  { endpoint: "/api/account/deletion", method: "POST" }
+);
+
+/**
+ * DELETE /api/account/deletion
+ * Cancels the caller's scheduled deletion
+ */
+export const DELETE = withErrorHandling(
+  withRateLimit(
+    withAuth(async (_request: NextRequest, auth) => {
+      await cancelAccountDeletion(auth.uid);
+      return NextResponse.json({ success: true });
+    }),
+    { maxRequests: 5, windowMs: 60000, identifier: "account_deletion" }
+  ),
+  { endpoint: "/api/account/deletion", method: "DELETE" }
+);
@@ -0,0 +1,40 @@
+// ============================================================================
+// ACCOUNT API - EXPORT
+// ============================================================================
+// GET /api/account/export
+// Everything stored about the caller as one JSON download: their Auth record,
+// profile, every users/{uid} subcollection, groups, shared routines, invite
+// codes and any score review or scheduled deletion
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth } from "@/lib/apiHelpers";
+import { exportAccountData } from "@/lib/accountService";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/account/export
+ * Returns the caller's data as an attachment
+ */
+export const GET = withErrorHandling(
+  withRateLimit(
+    withAuth(async (_request: NextRequest, auth) => {
+      const data = await exportAccountData(auth.uid);
+
+      logger.info("Account data exported via API", {
+        action: "GET /api/account/export",
+        metadata: { userId: auth.uid }
+      });
+
+      return new NextResponse(JSON.stringify(data, null, 2), {
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Disposition": `attachment; filename="routine-tracker-data-${data.exportedAt.slice(0, 10)}.json"`,
+          "Cache-Control": "no-store"
+        }
+      });
+    }),
+    // Reads every document the user has, so keep it rare
+    { maxRequests: 3, windowMs: 60000, identifier: "account_export" }
+  ),
+  { endpoint: "/api/account/export", method: "GET" }
+);
@@ -0,0 +1,33 @@
+// ============================================================================
+// ACCOUNT API - MERGE
+// ============================================================================
+// POST /api/account/merge
+// Moves the data of another account the caller just signed into
+// ({ sourceIdToken }) into the caller's account, then deletes that account
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth } from "@/lib/apiHelpers";
+import { mergeAccountInto } from "@/lib/accountService";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/account/merge
+ * Merges the account behind sourceIdToken into the caller's
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const body = await request.json().catch(() => ({}));
+      const result = await mergeAccountInto(auth.uid, body.sourceIdToken);
+
+      logger.info("Account merged via API", {
+        action: "POST /api/account/merge",
+        metadata: { userId: auth.uid }
+      });
+
+      return NextResponse.json({ success: true, ...result });
+    }),
+    { maxRequests: 3, windowMs: 60000, identifier: "account_merge" }
+  ),
+  { endpoint: "/api/account/merge", method: "POST" }
+);
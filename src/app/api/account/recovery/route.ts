@@ -0,0 +1,29 @@
+// ============================================================================
+// ACCOUNT API - RECOVERY
+// ============================================================================
+// POST /api/account/recovery
+// For a signed-out user who registered with a username and has since
+// attached a real email: sends a password reset link to that email. The
+// response is the same whether or not the username exists or has an email,
+// so it can't be used to look up accounts.
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling } from "@/lib/apiHelpers";
+import { sendRecoveryEmail } from "@/lib/accountService";
+
+/**
+ * POST /api/account/recovery
+ * Body: { username }. Always returns { success: true } for a valid username.
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    async (request: NextRequest) => {
+      const body = await request.json().catch(() => ({}));
+      await sendRecoveryEmail(body.username);
+      return NextResponse.json({ success: true });
+    },
+    // Keyed by IP, callers aren't signed in
+    { maxRequests: 5, windowMs: 60000, identifier: "account_recovery" }
+  ),
+  { endpoint: "/api/account/recovery", method: "POST" }
+);
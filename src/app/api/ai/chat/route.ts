@@ -1,8 +1,17 @@
-import { GoogleGenAI } from "@google/genai";
+import { Content, FunctionCallingConfigMode, GoogleGenAI, Part } from "@google/genai";
 import { NextRequest, NextResponse } from "next/server";
-import { withRateLimit } from "@/lib/rateLimit";
+import { rateLimitRequest } from "@/lib/apiHelpers";
 import { sanitizePlainText } from "@/lib/sanitize";
 import { logger } from "@/lib/logger";
+import {
+    MAX_TOOL_ROUNDS,
+    formatToolResult,
+    getAssistantTools,
+    getToolSchema,
+    parseToolTurns,
+    validateToolCall,
+} from "@/lib/agent/toolCalling";
+import { ToolCall } from "@/lib/agent/types";
 
 // Initialize the Gemini AI client
 const getAIClient = () => {
@@ -22,109 +31,16 @@ const SYSTEM_PROMPT = `You are "Routine AI", an optimistic and professional prod
    - **Proactive**: anticipating user needs based on their context.
    - **Concise**: Don't ramble. Get straight to the point or the action.
 
-   You have full control over the application. Use it wisely to assist the user.
-   
-   ## CORE ACTIONS (respond with JSON blocks):
-
-### 1. CREATE TASK (Recurring or Date-Specific)
-
-**For RECURRING tasks** (e.g., "every Monday", "twice a week"):
-\`\`\`json
-{"action": "CREATE_TASK", "task": {"title": "Task name", "icon": "emoji", "startTime": "HH:MM", "endTime": "HH:MM", "timeBlock": "Dawn|Morning|Noon|Afternoon|Evening|Night", "days": ["MON","TUE","WED","THU","FRI","SAT","SUN"]}}
-\`\`\`
-
-**For DATE-SPECIFIC tasks** (e.g., "on January 15th", "next Monday", "tomorrow"):
-\`\`\`json
-{"action": "CREATE_TASK", "task": {"title": "Task name", "icon": "emoji", "startTime": "HH:MM", "endTime": "HH:MM", "timeBlock": "Dawn|Morning|Noon|Afternoon|Evening|Night", "specificDate": "YYYY-MM-DD", "days": []}}
-\`\`\`
-
-### 2. CREATE GOAL  
-\`\`\`json
-{"action": "CREATE_GOAL", "goal": {"title": "Goal name", "description": "Description", "targetDate": "YYYY-MM-DD", "category": "Fitness|Health|Career|Personal|Education"}}
-\`\`\`
-
-### 3. COMPLETE TASK
-\`\`\`json
-{"action": "COMPLETE_TASK", "taskId": "the-task-id", "taskTitle": "Task name"}
-\`\`\`
-
-### 4. DELETE TASK (by ID or by date)
-\`\`\`json
-{"action": "DELETE_TASK", "taskId": "the-task-id", "taskTitle": "Task name"}
-\`\`\`
-
-### 5. EDIT TASK (change time, title, days, or date)
-
-**To change to a specific date** (e.g., "move to January 20th"):
-\`\`\`json
-{"action": "EDIT_TASK", "taskId": "the-task-id", "updates": {"specificDate": "YYYY-MM-DD", "days": []}}
-\`\`\`
-
-**To change time or other properties**:
-\`\`\`json
-{"action": "EDIT_TASK", "taskId": "the-task-id", "updates": {"title": "New title", "startTime": "HH:MM", "endTime": "HH:MM"}}
-\`\`\`
-
-**To convert from date-specific to recurring**:
-\`\`\`json
-{"action": "EDIT_TASK", "taskId": "the-task-id", "updates": {"days": ["MON","WED","FRI"], "specificDate": null}}
-\`\`\`
-
-### 6. GOAL MANAGEMENT
-\`\`\`json
-{"action": "DELETE_GOAL", "goalId": "goal-id-here", "title": "Goal Title"}
-\`\`\`
-\`\`\`json
-{"action": "EDIT_GOAL", "goalId": "goal-id-here", "updates": {"title": "New Title", "progress": 50}}
-\`\`\`
-
-### 7. FOCUS TIMER CONTROL
-\`\`\`json
-{"action": "START_TIMER", "focusMinutes": 25, "taskTitle": "Optional task to link"}
-\`\`\`
-\`\`\`json
-{"action": "STOP_TIMER"}
-\`\`\`
-### 8. RESET TIMER
-\`\`\`json
-{ "action": "RESET_TIMER" }
-\`\`\`
-### 9. UI CONTROL
-\`\`\`json
-{"action": "UI_CONTROL", "target": "sidebar", "value": "toggle"}
-{"action": "UI_CONTROL", "target": "settings", "value": "open"}
-{"action": "UI_CONTROL", "target": "task_modal", "value": "open"}
-{"action": "UI_CONTROL", "target": "theme", "value": "dark"}
-\`\`\`
-(Targets: sidebar, settings, task_modal, theme)
-(Values: toggle/open/close for UI; light/dark/system for theme)
-
-### 10. NOTIFICATION MANAGEMENT
-\`\`\`json
-{"action": "MANAGE_NOTIFICATIONS", "command": "mark_all_read"}
-{"action": "MANAGE_NOTIFICATIONS", "command": "clear_all"}
-\`\`\`
-
-### 11. AUTHENTICATION (USE WITH CAUTION)
-\`\`\`json
-{"action": "AUTH_CONTROL", "command": "logout"}
-\`\`\`
-
-### 12. UPDATE SETTINGS
-\`\`\`json
-{"action": "UPDATE_SETTINGS", "settings": {"theme": "light|dark|system", "notifications": true|false, "sound": true|false}}
-\`\`\`
-
-### 13. GET ANALYTICS
-\`\`\`json
-{"action": "GET_ANALYTICS", "metric": "productivity_score|streak|heatmap|insights", "period": "week|month|all"}
-\`\`\`
-
-### 14. NAVIGATION
-\`\`\`json
-{"action": "NAVIGATE", "path": "/goals"}
-\`\`\`
-(Valid paths: "/", "/calendar", "/focus", "/goals", "/analytics", "/achievements", "/leaderboard", "/marketplace", "/settings")
+   You have full control over the application through your tools. Use them wisely to assist the user.
+
+## TOOLS:
+
+- Call a tool whenever the user asks you to change something (tasks, goals, focus timer, pages, settings). Never just describe the change.
+- Use the task and goal IDs listed below; never invent IDs.
+- For **recurring** tasks (e.g. "every Monday", "weekdays"), pass \`days\`. For **date-specific** tasks (e.g. "tomorrow", "on January 15th"), pass \`date\` and no days.
+- You may call several tools in one turn, or call \`get_insights\` first and act on the result.
+- After the tools run you'll receive their results. If one failed, explain why and how to fix it; otherwise confirm what you did in one or two sentences.
+- Some tools (deleting, signing out, starting a focus session) ask the user to confirm first, so a result may say the user declined.
 
 ## DATE PARSING INTELLIGENCE:
 
@@ -135,13 +51,13 @@ When users mention dates, intelligently parse them:
 - **Time expressions**: "morning" → 09:00, "afternoon" → 14:00, "evening" → 18:00
 
 **IMPORTANT DATE RULES**:
-1. **Always use YYYY-MM-DD format** for specificDate in JSON
+1. **Always use YYYY-MM-DD format** for dates in tool arguments
 2. **When user says "Monday"** without qualifier:
    - If it's unclear, ask: "Do you mean next Monday (specific date) or every Monday (recurring)?"
    - If context suggests one-time event (e.g., "dentist", "appointment"), default to next Monday (date-specific)
    - If context suggests routine (e.g., "workout", "meditation"), ask for clarification
 3. **Validate dates**: Don't create tasks in the past (warn user first)
-4. **Date-specific tasks use empty days array**: \`"days": []\` when specificDate is set
+4. **Date-specific tasks have no days**: pass \`date\` instead
 
 ## SMART FEATURES:
 
@@ -155,22 +71,13 @@ When users mention dates, intelligently parse them:
 ## EXAMPLES:
 
 **User**: "Create a dentist appointment on January 15th at 2pm"
-**You**: \`\`\`json
-{"action": "CREATE_TASK", "task": {"title": "Dentist Appointment", "icon": "🦷", "startTime": "14:00", "endTime": "15:00", "timeBlock": "Afternoon", "specificDate": "2026-01-15", "days": []}}
-\`\`\`
-*Response*: "Got it! I've scheduled your dentist appointment for January 15th, 2026 at 2:00 PM. 🦷"
+**You**: call \`create_task\` with name "Dentist Appointment", icon "🦷", time "14:00", endTime "15:00", timeBlock "Afternoon", date "2026-01-15", then reply "Got it! Your dentist appointment is set for January 15th at 2:00 PM. 🦷"
 
 **User**: "Add workout every Monday morning"
-**You**: \`\`\`json
-{"action": "CREATE_TASK", "task": {"title": "Workout", "icon": "💪", "startTime": "07:00", "endTime": "08:00", "timeBlock": "Morning", "days": ["MON"]}}
-\`\`\`
-*Response*: "Perfect! I've added a weekly workout routine for Monday mornings at 7:00 AM. 💪"
+**You**: call \`create_task\` with name "Workout", icon "💪", time "07:00", endTime "08:00", timeBlock "Morning", days ["MON"], then reply "Perfect! Workout is on your Monday mornings at 7:00 AM. 💪"
 
 **User**: "Move my meeting to January 20th"
-**You**: First find the task ID, then: \`\`\`json
-{"action": "EDIT_TASK", "taskId": "task-id-here", "updates": {"specificDate": "2026-01-20", "days": []}}
-\`\`\`
-*Response*: "Done! I've rescheduled your meeting to January 20th, 2026. 📅"
+**You**: call \`update_task\` with the meeting's ID and date "2026-01-20", then reply "Done! Your meeting is now on January 20th. 📅"
 
 ## PERSONALITY:
 - Be warm, encouraging, and concise
@@ -180,14 +87,11 @@ When users mention dates, intelligently parse them:
 - Remember context from the current conversation
 
 ## IMPORTANT:
-- Only include ONE JSON block per response if an action is needed
-- Always confirm what you did after an action
-- If unsure which task the user means, ask for clarification
+- If unsure which task the user means, ask for clarification instead of guessing
 - For time conflicts, show both tasks and ask how to proceed
-- When creating date-specific tasks, ALWAYS include specificDate in YYYY-MM-DD format
-- Use \`DELETE_GOAL\` only when explicitly asked.
-- \`NAVIGATE\` to relevant pages when user asks (e.g., "Take me to my goals").
-- \`START_TIMER\` for focus sessions (default 25 min).
+- Use \`delete_goal\` and \`sign_out\` only when explicitly asked.
+- \`navigate\` to relevant pages when user asks (e.g., "Take me to my goals").
+- \`start_focus\` for focus sessions (default 25 min).
 `;
 
 export async function POST(request: NextRequest) {
@@ -195,10 +99,12 @@ export async function POST(request: NextRequest) {
     console.log("Chat API Request received");
     console.log("GEMINI_API_KEY present:", !!process.env.GEMINI_API_KEY);
 
-    const rateLimitResponse = withRateLimit(request, {
+    const rateLimitResponse = await rateLimitRequest(request, {
         maxRequests: 20,
         windowMs: 60 * 1000,
-        message: "Too many chat requests. Please wait a moment."
+        message: "Too many chat requests. Please wait a moment.",
+        identifier: "ai_chat",
+        algorithm: "token-bucket"
     });
     if (rateLimitResponse) {
         logger.warn("Rate limit exceeded for AI chat", undefined, { action: "POST /api/ai/chat" });
@@ -213,6 +119,7 @@ export async function POST(request: NextRequest) {
         const context = body.context;
         const conversationHistory = body.conversationHistory;
         const currentDate = body.currentDate; // Real-time date from browser
+        const toolTurns = parseToolTurns(body.toolTurns); // Tool calls already run for this message
 
         if (!message) {
             return NextResponse.json({ error: "Message is required" }, { status: 400 });
@@ -237,12 +144,12 @@ export async function POST(request: NextRequest) {
         }
 
         if (context?.goals?.length) {
-            const goalList = context.goals.map((g: any) => `- "${sanitizePlainText(g.title)}" (${g.category || "Personal"})`).join("\n");
+            const goalList = context.goals.map((g: any) => `- [ID: ${g.id}] "${sanitizePlainText(g.title)}" (${g.category || "Personal"})`).join("\n");
             contextMessage += `\n\n## USER'S GOALS:\n${goalList}`;
         }
 
         // Build conversation with history for context memory
-        const contents: any[] = [
+        const contents: Content[] = [
             { role: "user", parts: [{ text: contextMessage }] },
             { role: "model", parts: [{ text: "I understand! I'm Routine AI with full task management capabilities. I can create, edit, delete, and complete tasks, set goals, detect conflicts, and keep you motivated. How can I help you today?" }] },
         ];
@@ -261,29 +168,67 @@ export async function POST(request: NextRequest) {
         // Add current message
         contents.push({ role: "user", parts: [{ text: message }] });
 
+        // Replay the tool calls made so far and what they returned
+        for (const turn of toolTurns) {
+            contents.push({
+                role: "model",
+                parts: turn.calls.map((call): Part => ({
+                    functionCall: { id: call.id, name: call.name, args: call.arguments },
+                    thoughtSignature: call.signature,
+                })),
+            });
+            contents.push({
+                role: "user",
+                parts: turn.results.map((result): Part => ({
+                    functionResponse: { id: result.id, name: result.name, response: formatToolResult(result) },
+                })),
+            });
+        }
+
         const response = await ai.models.generateContent({
             model: "gemini-3-flash-preview",
             contents,
+            config: {
+                tools: [{
+                    functionDeclarations: getAssistantTools().map(tool => ({
+                        name: tool.id,
+                        description: tool.description,
+                        parametersJsonSchema: getToolSchema(tool),
+                    })),
+                }],
+                // Out of rounds: the model has to answer with what it has
+                toolConfig: {
+                    functionCallingConfig: {
+                        mode: toolTurns.length >= MAX_TOOL_ROUNDS ? FunctionCallingConfigMode.NONE : FunctionCallingConfigMode.AUTO,
+                    },
+                },
+            },
         });
 
-        const text = response.text || "";
+        const parts = response.candidates?.[0]?.content?.parts || [];
+        const text = parts.filter(part => part.text && !part.thought).map(part => part.text).join("");
 
-        // Parse for actions (support multiple JSON blocks for complex operations)
-        let action = null;
-        const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/);
-        if (jsonMatch) {
-            try {
-                action = JSON.parse(jsonMatch[1]);
-            } catch (e) {
-                // JSON parsing failed, no action
-            }
-        }
+        const toolCalls: ToolCall[] = parts
+            .filter(part => part.functionCall?.name)
+            .map((part, index) => validateToolCall(
+                part.functionCall!.id || `call-${toolTurns.length}-${index}`,
+                part.functionCall!.name!,
+                part.functionCall!.args,
+                part.thoughtSignature
+            ));
 
-        logger.info("AI chat response generated", { action: "POST /api/ai/chat" });
+        toolCalls.filter(call => call.error).forEach(call => {
+            logger.warn(`Model sent invalid arguments for ${call.name}: ${call.error}`, undefined, { action: "POST /api/ai/chat" });
+        });
+
+        logger.info("AI chat response generated", {
+            action: "POST /api/ai/chat",
+            metadata: { toolCalls: toolCalls.length, round: toolTurns.length },
+        });
 
         return NextResponse.json({
             message: text,
-            action,
+            toolCalls,
         });
     } catch (error: any) {
         logger.apiError("/api/ai/chat", "POST", error, 500);
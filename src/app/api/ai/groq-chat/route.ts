@@ -1,41 +1,43 @@
 import Groq from "groq-sdk";
+import type { ChatCompletionMessageParam } from "groq-sdk/resources/chat/completions";
 import { NextRequest, NextResponse } from "next/server";
-import { withRateLimit } from "@/lib/rateLimit";
+import { rateLimitRequest } from "@/lib/apiHelpers";
 import { sanitizePlainText } from "@/lib/sanitize";
 import { logger } from "@/lib/logger";
+import {
+    MAX_TOOL_ROUNDS,
+    formatToolResult,
+    getAssistantTools,
+    getToolSchema,
+    parseToolArguments,
+    parseToolTurns,
+    validateToolCall,
+} from "@/lib/agent/toolCalling";
+import { ToolCall } from "@/lib/agent/types";
 
 // System prompt for the AI assistant (same as Gemini)
 const SYSTEM_PROMPT = `You are "Routine AI", a helpful assistant for a routine tracking app. You help users:
-1. Create new tasks with titles, times, and schedules
-2. Create goals with targets and deadlines
-3. Mark tasks as complete
+1. Create, edit, complete and delete tasks with titles, times, and schedules
+2. Create and update goals with targets and deadlines
+3. Control the focus timer and move around the app
 4. Provide motivation and productivity tips
 5. Answer questions about habits and routines
 
-When a user asks to create a task, respond with a JSON block like this:
-\`\`\`json
-{"action": "CREATE_TASK", "task": {"title": "Task name", "icon": "emoji", "startTime": "HH:MM", "endTime": "HH:MM", "timeBlock": "Morning|Afternoon|Evening|Night", "days": ["MON","TUE","WED","THU","FRI","SAT","SUN"]}}
-\`\`\`
-
-When a user asks to create a goal, respond with a JSON block like this:
-\`\`\`json
-{"action": "CREATE_GOAL", "goal": {"title": "Goal name", "description": "Description", "targetDate": "YYYY-MM-DD", "category": "Fitness|Health|Career|Personal|Education"}}
-\`\`\`
-
-When a user asks to complete/check/mark a task as done, find the matching task from their list and respond with:
-\`\`\`json
-{"action": "COMPLETE_TASK", "taskId": "the-task-id", "taskTitle": "Task name"}
-\`\`\`
+Use your tools to make any change the user asks for, rather than describing it. Use the task and goal IDs listed below and never invent them.
+Pass \`days\` for a recurring task and \`date\` (YYYY-MM-DD, no days) for a one-time task.
+When tool results come back, confirm what was done in a sentence or two, or explain what went wrong. Some tools ask the user to confirm first, so a result may say the user declined.
 
 When providing motivation, be encouraging, specific to their tasks, and concise.
 Always be friendly, professional, and supportive.`;
 
 export async function POST(request: NextRequest) {
     // Rate limiting: 20 requests per minute
-    const rateLimitResponse = withRateLimit(request, {
+    const rateLimitResponse = await rateLimitRequest(request, {
         maxRequests: 20,
         windowMs: 60 * 1000,
-        message: "Too many chat requests. Please wait a moment."
+        message: "Too many chat requests. Please wait a moment.",
+        identifier: "ai_groq_chat",
+        algorithm: "token-bucket"
     });
     if (rateLimitResponse) {
         logger.warn("Rate limit exceeded for Groq chat", undefined, { action: "POST /api/ai/groq-chat" });
@@ -47,6 +49,7 @@ export async function POST(request: NextRequest) {
         const message = sanitizePlainText(body.message);
         const context = body.context;
         const currentDate = body.currentDate; // Real-time date from browser
+        const toolTurns = parseToolTurns(body.toolTurns); // Tool calls already run for this message
 
         if (!message) {
             return NextResponse.json({ error: "Message is required" }, { status: 400 });
@@ -70,36 +73,64 @@ export async function POST(request: NextRequest) {
             contextMessage += `\n\nUser's current tasks (with IDs for completion):\n${context.tasks.map((t: any) => `- [ID: ${t.id}] ${t.title} (${t.startTime}-${t.endTime})${t.isCompleted ? " ✅ DONE" : ""}`).join("\n")}`;
         }
         if (context?.goals?.length) {
-            contextMessage += `\n\nUser's current goals:\n${context.goals.map((g: any) => `- ${g.title}`).join("\n")}`;
+            contextMessage += `\n\nUser's current goals (with IDs for editing):\n${context.goals.map((g: any) => `- [ID: ${g.id}] ${g.title}`).join("\n")}`;
+        }
+
+        const messages: ChatCompletionMessageParam[] = [
+            { role: "system", content: contextMessage },
+            { role: "user", content: message }
+        ];
+
+        // Replay the tool calls made so far and what they returned
+        for (const turn of toolTurns) {
+            messages.push({
+                role: "assistant",
+                content: null,
+                tool_calls: turn.calls.map(call => ({
+                    id: call.id,
+                    type: "function",
+                    function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+                })),
+            });
+            turn.results.forEach(result => messages.push({
+                role: "tool",
+                tool_call_id: result.id,
+                content: JSON.stringify(formatToolResult(result)),
+            }));
         }
 
         const chatCompletion = await groq.chat.completions.create({
-            messages: [
-                { role: "system", content: contextMessage },
-                { role: "user", content: message }
-            ],
+            messages,
             model: "meta-llama/llama-4-scout-17b-16e-instruct",
             temperature: 0.7,
             max_completion_tokens: 1024,
             top_p: 1,
+            tools: getAssistantTools().map(tool => ({
+                type: "function",
+                function: {
+                    name: tool.id,
+                    description: tool.description,
+                    parameters: getToolSchema(tool),
+                },
+            })),
+            // Out of rounds: the model has to answer with what it has
+            tool_choice: toolTurns.length >= MAX_TOOL_ROUNDS ? "none" : "auto",
         });
 
-        const text = chatCompletion.choices[0]?.message?.content || "";
-
-        // Parse for actions
-        let action = null;
-        const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/);
-        if (jsonMatch) {
-            try {
-                action = JSON.parse(jsonMatch[1]);
-            } catch (e) {
-                // JSON parsing failed, no action
-            }
-        }
+        const reply = chatCompletion.choices[0]?.message;
+        const text = reply?.content || "";
+
+        const toolCalls: ToolCall[] = (reply?.tool_calls || []).map(call =>
+            validateToolCall(call.id, call.function.name, parseToolArguments(call.function.arguments))
+        );
+
+        toolCalls.filter(call => call.error).forEach(call => {
+            logger.warn(`Model sent invalid arguments for ${call.name}: ${call.error}`, undefined, { action: "POST /api/ai/groq-chat" });
+        });
 
         return NextResponse.json({
             message: text,
-            action,
+            toolCalls,
         });
     } catch (error: any) {
         logger.apiError("/api/ai/groq-chat", "POST", error, 500);
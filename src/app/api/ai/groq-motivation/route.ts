@@ -1,12 +1,17 @@
 import Groq from "groq-sdk";
 import { NextRequest, NextResponse } from "next/server";
-import { withRateLimit } from "@/lib/rateLimit";
+import { rateLimitRequest } from "@/lib/apiHelpers";
 import { sanitizePlainText } from "@/lib/sanitize";
 import { logger } from "@/lib/logger";
 
 export async function POST(request: NextRequest) {
     // Rate limiting: 30 requests per minute
-    const rateLimitResponse = withRateLimit(request, { maxRequests: 30, windowMs: 60 * 1000 });
+    const rateLimitResponse = await rateLimitRequest(request, {
+        maxRequests: 30,
+        windowMs: 60 * 1000,
+        identifier: "ai_groq_motivation",
+        algorithm: "token-bucket"
+    });
     if (rateLimitResponse) return rateLimitResponse;
 
     try {
@@ -1,7 +1,7 @@
 import { GoogleGenAI } from "@google/genai";
 import Groq from "groq-sdk";
 import { NextRequest, NextResponse } from "next/server";
-import { withRateLimit } from "@/lib/rateLimit";
+import { rateLimitRequest } from "@/lib/apiHelpers";
 import { logger } from "@/lib/logger";
 
 // Initialize the Gemini AI client
@@ -31,10 +31,12 @@ Example response:
 
 export async function POST(request: NextRequest) {
     // Rate limiting: 10 requests per minute (image processing is expensive)
-    const rateLimitResponse = withRateLimit(request, {
+    const rateLimitResponse = await rateLimitRequest(request, {
         maxRequests: 10,
         windowMs: 60 * 1000,
-        message: "Too many schedule parsing requests. Please wait a moment."
+        message: "Too many schedule parsing requests. Please wait a moment.",
+        identifier: "ai_parse_schedule",
+        algorithm: "token-bucket"
     });
     if (rateLimitResponse) {
         logger.warn("Rate limit exceeded for schedule parsing", undefined, { action: "POST /api/ai/parse-schedule" });
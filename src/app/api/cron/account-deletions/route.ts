@@ -0,0 +1,46 @@
+// ============================================================================
+// ACCOUNT DELETIONS CRON JOB
+// ============================================================================
+// Runs daily to delete the accounts whose deletion grace period has run out.
+// Schedule: 0 3 * * * (Every day at 03:00 UTC)
+//
+// Failed deletions stay scheduled and are retried on the next run.
+
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { processDueAccountDeletions } from "@/lib/accountService";
+
+// Verify Vercel Cron request
+function verifyCronRequest(request: Request): boolean {
+    const authHeader = request.headers.get("authorization");
+    return authHeader === `Bearer ${process.env.CRON_SECRET}`;
+}
+
+export async function GET(request: Request) {
+    if (process.env.NODE_ENV === "production") {
+        if (!verifyCronRequest(request)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+    }
+
+    try {
+        logger.info("Account deletions cron started", { action: "cron/account-deletions" });
+
+        const { deleted, errors } = await processDueAccountDeletions();
+
+        logger.info(`Account deletions completed: ${deleted} deleted, ${errors} errors`, {
+            action: "cron/account-deletions",
+            metadata: { deleted, errors },
+        });
+
+        return NextResponse.json({
+            success: true,
+            deleted,
+            errors,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        logger.error("Account deletions cron failed", error, { action: "cron/account-deletions" });
+        return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+    }
+}
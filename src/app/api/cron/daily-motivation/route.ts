@@ -2,14 +2,23 @@
 // DAILY MOTIVATION CRON JOB
 // ============================================================================
 // GET /api/cron/daily-motivation
-// Runs at 6 AM daily to prepare daily motivation messages for all users.
+// Runs at 6 AM daily to prepare daily motivation messages for all users
+// and deliver them as Web Push notifications to subscribed devices.
 // Schedule: 0 6 * * * (Every day at 6:00 AM UTC)
+//
+// With ?schedule=hourly (Schedule: 0 * * * *) each run only handles the users
+// for whom it is 6 AM in their own timezone (settings.timezone).
 
 import { NextResponse } from "next/server";
 import { db } from "@/lib/firebase";
 import { collection, getDocs, doc, setDoc } from "firebase/firestore";
 import { withErrorHandling } from "@/lib/apiHelpers";
 import { logger } from "@/lib/logger";
+import { sendPushNotification } from "@/lib/pushNotificationService";
+import { isLocalRunTime, resolveUserTimezone } from "@/lib/timezoneUtils";
+
+// Local hour at which users get their message in hourly mode
+const LOCAL_RUN_HOUR = 6;
 
 // Verify the request is from Vercel Cron
 function verifyCronRequest(request: Request): boolean {
@@ -35,8 +44,12 @@ export const GET = withErrorHandling(
 
     logger.info("Daily motivation cron job started", { action: "cron/daily-motivation" });
 
+    const hourly = new URL(_request.url).searchParams.get("schedule") === "hourly";
+    const now = new Date();
+
     const usersSnapshot = await getDocs(collection(db, "users"));
     let notificationsCreated = 0;
+    let pushesSent = 0;
     let errors = 0;
 
     const motivationalMessages = [
@@ -53,6 +66,8 @@ export const GET = withErrorHandling(
     for (const userDoc of usersSnapshot.docs) {
       try {
         const userId = userDoc.id;
+        if (hourly && !isLocalRunTime(resolveUserTimezone(userDoc.data()), { hour: LOCAL_RUN_HOUR }, now)) continue;
+
         const randomMessage = motivationalMessages[Math.floor(Math.random() * motivationalMessages.length)];
 
         // Create notification in Firestore
@@ -66,21 +81,34 @@ export const GET = withErrorHandling(
         });
 
         notificationsCreated++;
+
+        const push = await sendPushNotification(
+          userId,
+          {
+            title: "Daily Motivation ✨",
+            body: randomMessage,
+            tag: "daily-motivation",
+            data: { type: "motivation", url: "/" },
+          },
+          { ttl: 6 * 60 * 60, urgency: "low" }
+        );
+        if (push.success) pushesSent++;
       } catch (userError) {
         errors++;
         logger.warn(`Failed to create notification for user`, userError);
       }
     }
 
-    logger.info(`Daily motivation completed: ${notificationsCreated} notifications created, ${errors} errors`, {
+    logger.info(`Daily motivation completed: ${notificationsCreated} notifications created, ${pushesSent} pushed, ${errors} errors`, {
       action: "cron/daily-motivation",
-      metadata: { notificationsCreated, errors },
+      metadata: { notificationsCreated, pushesSent, errors },
     });
 
     return NextResponse.json({
       success: true,
       message: `Daily motivation job completed`,
       notificationsCreated,
+      pushesSent,
       errors,
       timestamp: new Date().toISOString(),
     });
@@ -0,0 +1,78 @@
+// ============================================================================
+// SHARED ROUTINES CRON JOB
+// ============================================================================
+// Runs daily to tell shared routine members who missed yesterday's check-in
+// and to bring each routine's group streak up to date.
+// Schedule: 0 0 * * * (Every day at 00:00 UTC)
+//
+// "Yesterday" is in each routine's own timezone. With ?schedule=hourly
+// (Schedule: 0 * * * *) each run only handles the routines whose local
+// midnight it is. Members are told at most once per routine and day, so
+// extra runs are harmless.
+
+import { NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { logger } from "@/lib/logger";
+import { DEFAULT_TIMEZONE, isLocalRunTime, isValidTimezone } from "@/lib/timezoneUtils";
+import { processMissedCheckIns } from "@/lib/sharedRoutineService";
+
+// Local hour at which a routine's previous day is checked in hourly mode
+const LOCAL_RUN_HOUR = 0;
+
+// Verify Vercel Cron request
+function verifyCronRequest(request: Request): boolean {
+    const authHeader = request.headers.get("authorization");
+    return authHeader === `Bearer ${process.env.CRON_SECRET}`;
+}
+
+export async function GET(request: Request) {
+    if (process.env.NODE_ENV === "production") {
+        if (!verifyCronRequest(request)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+    }
+
+    try {
+        logger.info("Shared routines cron started", { action: "cron/shared-routines" });
+
+        const hourly = new URL(request.url).searchParams.get("schedule") === "hourly";
+        const now = new Date();
+
+        const routinesSnapshot = await getAdminDb().collection("sharedRoutines").get();
+        let routinesChecked = 0;
+        let missedCheckIns = 0;
+        let errors = 0;
+
+        for (const routineDoc of routinesSnapshot.docs) {
+            try {
+                const stored = routineDoc.data().timezone;
+                const timezone = isValidTimezone(stored) ? stored : DEFAULT_TIMEZONE;
+                if (hourly && !isLocalRunTime(timezone, { hour: LOCAL_RUN_HOUR }, now)) continue;
+
+                missedCheckIns += await processMissedCheckIns(routineDoc.id, routineDoc.data(), now);
+                routinesChecked++;
+            } catch (routineError) {
+                errors++;
+                logger.warn(`Failed to check shared routine`, routineError, { metadata: { routineId: routineDoc.id } });
+            }
+        }
+
+        logger.info(`Shared routines completed: ${routinesChecked} routines checked, ${missedCheckIns} missed check-ins, ${errors} errors`, {
+            action: "cron/shared-routines",
+            metadata: { routinesChecked, missedCheckIns, errors },
+        });
+
+        return NextResponse.json({
+            success: true,
+            routinesChecked,
+            missedCheckIns,
+            errors,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        logger.error("Shared routines cron failed", error, { action: "cron/shared-routines" });
+        return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+}
+
+export const dynamic = "force-dynamic";
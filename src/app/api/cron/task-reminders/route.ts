@@ -5,13 +5,31 @@
 // Schedule: 0 5 * * * (Once daily at 5:00 AM UTC)
 //
 // This job prepares notifications in Firestore that the client-side
-// NotificationManager can check and deliver throughout the day.
+// NotificationManager can check and deliver throughout the day, and sends a
+// Web Push for every reminder that is due when it runs. It is safe to run
+// repeatedly (e.g. every few minutes on plans that allow it) for on-time
+// pushes: reminders already delivered by either side are not sent again.
+//
+// "Today" is each user's own (settings.timezone), so a single run serves
+// every timezone: a user's schedule rolls over at their local midnight.
+// Reminders are absolute instants (reminderAt), so one for an early-morning
+// task that falls on the evening before is scheduled, and pushed, that evening.
+// A reminder is due from its reminderAt until the task starts, so runs don't
+// have to land on the exact minute.
 
 import { NextResponse } from "next/server";
-import { db } from "@/lib/firebase";
-import { collection, getDocs, doc, setDoc, deleteDoc } from "firebase/firestore";
-import { format, addMinutes, parse } from "date-fns";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { format, addDays, addMinutes, parseISO } from "date-fns";
 import { logger } from "@/lib/logger";
+import { isTaskPausedOn, parseVacations } from "@/lib/vacationUtils";
+import { TaskRecurrence, isTaskScheduledOn } from "@/lib/recurrenceUtils";
+import { sendPushNotification } from "@/lib/pushNotificationService";
+import {
+    getInstantForLocalTime,
+    getLocalDateString,
+    getLocalTimeString,
+    resolveUserTimezone,
+} from "@/lib/timezoneUtils";
 
 // Verify Vercel Cron request
 function verifyCronRequest(request: Request): boolean {
@@ -24,6 +42,8 @@ interface Task {
     title: string;
     startTime: string;
     days: string[];
+    specificDate?: string;
+    recurrence?: TaskRecurrence;
     reminder?: string;
     icon?: string;
 }
@@ -33,7 +53,8 @@ interface ScheduledReminder {
     taskTitle: string;
     taskIcon: string;
     startTime: string;
-    reminderTime: string;
+    reminderTime: string; // HH:mm in the user's timezone, for display
+    reminderAt: string; // ISO instant
     delivered: boolean;
 }
 
@@ -47,72 +68,115 @@ export async function GET(request: Request) {
     try {
         logger.info("Daily reminder preparation started", { action: "cron/task-reminders" });
 
-        const today = new Date();
-        const todayStr = format(today, "yyyy-MM-dd");
-        const dayName = format(today, "EEE").toUpperCase();
+        const now = new Date();
+        const db = getAdminDb();
 
-        const usersSnapshot = await getDocs(collection(db, "users"));
+        const usersSnapshot = await db.collection("users").get();
         let usersProcessed = 0;
         let remindersScheduled = 0;
+        let remindersPushed = 0;
 
         for (const userDoc of usersSnapshot.docs) {
             try {
                 const userId = userDoc.id;
+                const userRef = db.collection("users").doc(userId);
+                const vacations = parseVacations(userDoc.data().vacations);
+
+                // The user's local day, and the next one for reminders that fall before its midnight
+                const timezone = resolveUserTimezone(userDoc.data());
+                const todayStr = getLocalDateString(timezone, now);
+                const tomorrowStr = format(addDays(parseISO(todayStr), 1), "yyyy-MM-dd");
+                const endOfToday = getInstantForLocalTime(timezone, tomorrowStr, "00:00");
 
                 // Get user's tasks
-                const tasksSnapshot = await getDocs(collection(db, "users", userId, "tasks"));
+                const tasksSnapshot = await userRef.collection("tasks").get();
                 const tasks: Task[] = tasksSnapshot.docs.map(d => ({
                     id: d.id,
                     ...d.data()
                 } as Task));
 
-                // Clear old scheduled reminders
-                const oldRemindersSnapshot = await getDocs(
-                    collection(db, "users", userId, "scheduledReminders")
-                );
-                for (const oldDoc of oldRemindersSnapshot.docs) {
-                    await deleteDoc(doc(db, "users", userId, "scheduledReminders", oldDoc.id));
+                // Clear reminders for past days, keeping today's and tomorrow's delivery state
+                const existingRemindersSnapshot = await userRef.collection("scheduledReminders").get();
+                const existingReminders = new Map<string, ScheduledReminder>();
+                for (const existingDoc of existingRemindersSnapshot.docs) {
+                    const date = existingDoc.data().date;
+                    if (date === todayStr || date === tomorrowStr) {
+                        existingReminders.set(existingDoc.id, existingDoc.data() as ScheduledReminder);
+                    } else {
+                        await existingDoc.ref.delete();
+                    }
                 }
 
-                // Filter today's tasks with reminders
-                const todaysTasks = tasks.filter(t =>
-                    t.days?.includes(dayName) && t.reminder && t.startTime
-                );
-
-                // Schedule reminders for today
-                const scheduledReminders: ScheduledReminder[] = [];
-
-                for (const task of todaysTasks) {
-                    const reminderMinutes = parseReminderToMinutes(task.reminder || "15m");
-
-                    // Parse task start time and calculate reminder time
-                    const [hours, minutes] = task.startTime.split(":").map(Number);
-                    const taskStart = new Date(today);
-                    taskStart.setHours(hours, minutes, 0, 0);
-
-                    const reminderTime = addMinutes(taskStart, -reminderMinutes);
-
-                    const reminder: ScheduledReminder = {
-                        taskId: task.id,
-                        taskTitle: task.title,
-                        taskIcon: task.icon || "📝",
-                        startTime: task.startTime,
-                        reminderTime: format(reminderTime, "HH:mm"),
-                        delivered: false,
-                    };
-
-                    // Save to Firestore for client to check
-                    await setDoc(
-                        doc(db, "users", userId, "scheduledReminders", `${todayStr}-${task.id}`),
-                        {
-                            ...reminder,
-                            date: todayStr,
-                            createdAt: new Date().toISOString(),
-                        }
+                for (const dateStr of [todayStr, tomorrowStr]) {
+                    // Tasks on that day with reminders (recurring tasks are paused during vacations)
+                    const tasksWithReminders = tasks.filter(t =>
+                        isTaskScheduledOn(t, dateStr) &&
+                        !isTaskPausedOn(t, dateStr, vacations) &&
+                        t.reminder && t.startTime
                     );
 
-                    scheduledReminders.push(reminder);
-                    remindersScheduled++;
+                    for (const task of tasksWithReminders) {
+                        const reminderId = `${dateStr}-${task.id}`;
+                        const reminderMinutes = parseReminderToMinutes(task.reminder || "15m");
+
+                        const taskStart = getInstantForLocalTime(timezone, dateStr, task.startTime);
+                        const reminderAt = addMinutes(taskStart, -reminderMinutes);
+
+                        // Tomorrow's tasks are only today's business if their reminder is
+                        if (dateStr === tomorrowStr && reminderAt >= endOfToday) continue;
+
+                        // Keep the delivery state unless the task was moved since
+                        const existing = existingReminders.get(reminderId);
+                        const isUnchanged = !!existing && existing.reminderAt === reminderAt.toISOString() && existing.startTime === task.startTime;
+
+                        const reminder: ScheduledReminder = {
+                            taskId: task.id,
+                            taskTitle: task.title,
+                            taskIcon: task.icon || "📝",
+                            startTime: task.startTime,
+                            reminderTime: getLocalTimeString(timezone, reminderAt),
+                            reminderAt: reminderAt.toISOString(),
+                            delivered: isUnchanged ? existing.delivered : false,
+                        };
+
+                        // Save to Firestore for client to check
+                        if (!isUnchanged) {
+                            await userRef.collection("scheduledReminders").doc(reminderId).set({
+                                ...reminder,
+                                date: dateStr,
+                                createdAt: new Date().toISOString(),
+                            });
+                            if (!existing) remindersScheduled++;
+                        }
+
+                        // Push reminders that are due and whose task hasn't started yet
+                        const isDue = reminderAt <= now && now < taskStart;
+                        if (!reminder.delivered && isDue) {
+                            const result = await sendPushNotification(
+                                userId,
+                                {
+                                    title: `⏰ Upcoming: ${task.title}`,
+                                    body: `${reminder.taskIcon} Starting at ${task.startTime}`,
+                                    tag: `reminder-${reminderId}`,
+                                    data: { type: "reminder", taskId: task.id, url: "/" },
+                                    actions: [
+                                        { action: "complete", title: "Done" },
+                                        { action: "snooze", title: "Snooze 5m" },
+                                    ],
+                                },
+                                // Pointless once the task has started
+                                { ttl: Math.ceil((taskStart.getTime() - now.getTime()) / 1000), urgency: "high" }
+                            );
+
+                            if (result.success) {
+                                await userRef.collection("scheduledReminders").doc(reminderId).update({
+                                    delivered: true,
+                                    deliveredAt: new Date().toISOString(),
+                                });
+                                remindersPushed++;
+                            }
+                        }
+                    }
                 }
 
                 usersProcessed++;
@@ -121,17 +185,17 @@ export async function GET(request: Request) {
             }
         }
 
-        logger.info(`Daily reminders prepared: ${remindersScheduled} for ${usersProcessed} users`, {
+        logger.info(`Daily reminders prepared: ${remindersScheduled} for ${usersProcessed} users, ${remindersPushed} pushed`, {
             action: "cron/task-reminders",
-            metadata: { usersProcessed, remindersScheduled },
+            metadata: { usersProcessed, remindersScheduled, remindersPushed },
         });
 
         return NextResponse.json({
             success: true,
             usersProcessed,
             remindersScheduled,
-            date: todayStr,
-            timestamp: today.toISOString(),
+            remindersPushed,
+            timestamp: now.toISOString(),
         });
     } catch (error: any) {
         logger.error("Task reminder cron failed", error, { action: "cron/task-reminders" });
@@ -142,6 +206,7 @@ export async function GET(request: Request) {
 function parseReminderToMinutes(reminder: string): number {
     switch (reminder) {
         case "5m": return 5;
+        case "10m": return 10;
         case "15m": return 15;
         case "30m": return 30;
         case "1h": return 60;
@@ -0,0 +1,48 @@
+// ============================================================================
+// WEBHOOK DELIVERIES CRON JOB
+// ============================================================================
+// Runs every 5 minutes to retry the webhook deliveries that are due.
+// Schedule: */5 * * * * (Every 5 minutes)
+//
+// Each delivery backs off between attempts and is marked failed after its
+// last one (see webhookService).
+
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { processDueWebhookDeliveries } from "@/lib/webhookService";
+
+// Verify Vercel Cron request
+function verifyCronRequest(request: Request): boolean {
+    const authHeader = request.headers.get("authorization");
+    return authHeader === `Bearer ${process.env.CRON_SECRET}`;
+}
+
+export async function GET(request: Request) {
+    if (process.env.NODE_ENV === "production") {
+        if (!verifyCronRequest(request)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+    }
+
+    try {
+        logger.info("Webhook deliveries cron started", { action: "cron/webhook-deliveries" });
+
+        const { delivered, pending, failed } = await processDueWebhookDeliveries();
+
+        logger.info(`Webhook retries completed: ${delivered} delivered, ${pending} rescheduled, ${failed} failed`, {
+            action: "cron/webhook-deliveries",
+            metadata: { delivered, pending, failed },
+        });
+
+        return NextResponse.json({
+            success: true,
+            delivered,
+            rescheduled: pending,
+            failed,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        logger.error("Webhook deliveries cron failed", error, { action: "cron/webhook-deliveries" });
+        return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+    }
+}
@@ -3,12 +3,21 @@
 // ============================================================================
 // Runs every Sunday at 9 AM to generate weekly analytics summaries.
 // Schedule: 0 9 * * 0 (Every Sunday at 9:00 AM UTC)
+//
+// The week is the 7 days up to each user's local today (settings.timezone).
+// With ?schedule=hourly (Schedule: 0 * * * *) each run only summarizes the
+// users for whom it is Sunday 9 AM locally.
 
 import { NextResponse } from "next/server";
 import { db } from "@/lib/firebase";
 import { collection, getDocs, doc, setDoc } from "firebase/firestore";
 import { format, subDays, startOfWeek, endOfWeek } from "date-fns";
 import { logger } from "@/lib/logger";
+import { TaskRecurrence, isTaskScheduledOn } from "@/lib/recurrenceUtils";
+import { getZonedDate, isLocalRunTime, resolveUserTimezone } from "@/lib/timezoneUtils";
+
+// Local time at which users get their summary in hourly mode (Sunday 9 AM)
+const LOCAL_RUN_TIME = { hour: 9, weekday: 0 };
 
 // Verify Vercel Cron request
 function verifyCronRequest(request: Request): boolean {
@@ -21,6 +30,8 @@ interface Task {
     title: string;
     completionHistory: string[];
     days: string[];
+    specificDate?: string;
+    recurrence?: TaskRecurrence;
 }
 
 export async function GET(request: Request) {
@@ -33,15 +44,21 @@ export async function GET(request: Request) {
     try {
         logger.info("Weekly summary cron started", { action: "cron/weekly-summary" });
 
+        const hourly = new URL(request.url).searchParams.get("schedule") === "hourly";
+        const now = new Date();
+
         const usersSnapshot = await getDocs(collection(db, "users"));
         let summariesGenerated = 0;
 
-        const weekEnd = new Date();
-        const weekStart = subDays(weekEnd, 7);
-
         for (const userDoc of usersSnapshot.docs) {
             try {
                 const userId = userDoc.id;
+                const timezone = resolveUserTimezone(userDoc.data());
+                if (hourly && !isLocalRunTime(timezone, LOCAL_RUN_TIME, now)) continue;
+
+                // The user's local week
+                const weekEnd = getZonedDate(timezone, now);
+                const weekStart = subDays(weekEnd, 7);
 
                 // Get user's tasks
                 const tasksSnapshot = await getDocs(collection(db, "users", userId, "tasks"));
@@ -58,8 +75,9 @@ export async function GET(request: Request) {
                 // Store weekly summary
                 const summaryId = format(weekEnd, "yyyy-ww"); // e.g., "2026-02"
                 await setDoc(doc(db, "users", userId, "weeklySummaries", summaryId), {
-                    weekStart: weekStart.toISOString(),
-                    weekEnd: weekEnd.toISOString(),
+                    weekStart: format(weekStart, "yyyy-MM-dd"),
+                    weekEnd: format(weekEnd, "yyyy-MM-dd"),
+                    timezone,
                     ...weeklyStats,
                     generatedAt: new Date().toISOString(),
                 });
@@ -78,9 +96,7 @@ export async function GET(request: Request) {
         return NextResponse.json({
             success: true,
             summariesGenerated,
-            weekStart: weekStart.toISOString(),
-            weekEnd: weekEnd.toISOString(),
-            timestamp: new Date().toISOString(),
+            timestamp: now.toISOString(),
         });
     } catch (error: any) {
         logger.error("Weekly summary cron failed", error, { action: "cron/weekly-summary" });
@@ -95,12 +111,10 @@ function calculateWeeklyStats(tasks: Task[], weekStart: Date, weekEnd: Date) {
 
     // Check each day of the week
     for (let i = 0; i < 7; i++) {
-        const dateToCheck = subDays(weekEnd, i);
-        const dateStr = format(dateToCheck, "yyyy-MM-dd");
-        const dayName = format(dateToCheck, "EEE").toUpperCase();
+        const dateStr = format(subDays(weekEnd, i), "yyyy-MM-dd");
 
         tasks.forEach(t => {
-            const isScheduled = t.days?.includes(dayName);
+            const isScheduled = isTaskScheduledOn(t, dateStr);
             const wasCompleted = t.completionHistory?.includes(dateStr);
 
             if (isScheduled) {
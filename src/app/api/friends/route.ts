@@ -0,0 +1,79 @@
+// ============================================================================
+// FRIENDS API
+// ============================================================================
+// GET    /api/friends              - The caller's friends and their own friend code
+// POST   /api/friends              - Add a friend by their friend code ({ code })
+// DELETE /api/friends?friendId=... - Remove a friend
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth, ValidationError } from "@/lib/apiHelpers";
+import { addFriend, getFriendCode, listFriends, removeFriend } from "@/lib/socialService";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/friends
+ * Returns the caller's friends and friend code
+ */
+export const GET = withErrorHandling(
+  withRateLimit(
+    withAuth(async (_request: NextRequest, auth) => {
+      const [friendCode, friends] = await Promise.all([
+        getFriendCode(auth.uid),
+        listFriends(auth.uid),
+      ]);
+
+      return NextResponse.json({ success: true, friendCode, friends });
+    }),
+    { maxRequests: 30, windowMs: 60000, identifier: "friends_list" }
+  ),
+  { endpoint: "/api/friends", method: "GET" }
+);
+
+/**
+ * POST /api/friends
+ * Adds the owner of a friend code as a friend
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const body = await request.json().catch(() => ({}));
+      const friend = await addFriend(auth.uid, body.code);
+
+      logger.info("Friend added via API", {
+        action: "POST /api/friends",
+        metadata: { userId: auth.uid, friendId: friend.id }
+      });
+
+      return NextResponse.json({ success: true, friend });
+    }),
+    // Low limit, friend codes shouldn't be guessable by brute force
+    { maxRequests: 10, windowMs: 60000, identifier: "friends_add" }
+  ),
+  { endpoint: "/api/friends", method: "POST" }
+);
+
+/**
+ * DELETE /api/friends?friendId=...
+ * Removes a friend
+ */
+export const DELETE = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const friendId = request.nextUrl.searchParams.get("friendId");
+      if (!friendId) {
+        throw new ValidationError("friendId is required");
+      }
+
+      await removeFriend(auth.uid, friendId);
+
+      logger.info("Friend removed via API", {
+        action: "DELETE /api/friends",
+        metadata: { userId: auth.uid, friendId }
+      });
+
+      return NextResponse.json({ success: true });
+    }),
+    { maxRequests: 10, windowMs: 60000, identifier: "friends_remove" }
+  ),
+  { endpoint: "/api/friends", method: "DELETE" }
+);
@@ -0,0 +1,33 @@
+// ============================================================================
+// GROUPS API - JOIN
+// ============================================================================
+// POST /api/groups/join
+// Adds the caller to the group an invite code ({ code }) belongs to
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth } from "@/lib/apiHelpers";
+import { joinGroup } from "@/lib/socialService";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/groups/join
+ * Joins a group by invite code
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const body = await request.json().catch(() => ({}));
+      const group = await joinGroup(auth.uid, body.code);
+
+      logger.info("Group joined via API", {
+        action: "POST /api/groups/join",
+        metadata: { userId: auth.uid, groupId: group.id }
+      });
+
+      return NextResponse.json({ success: true, group });
+    }),
+    // Low limit, invite codes shouldn't be guessable by brute force
+    { maxRequests: 10, windowMs: 60000, identifier: "groups_join" }
+  ),
+  { endpoint: "/api/groups/join", method: "POST" }
+);
@@ -0,0 +1,36 @@
+// ============================================================================
+// GROUPS API - LEAVE
+// ============================================================================
+// POST /api/groups/leave
+// Removes the caller from a group ({ groupId })
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth, ValidationError } from "@/lib/apiHelpers";
+import { leaveGroup } from "@/lib/socialService";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/groups/leave
+ * Leaves a group
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const body = await request.json().catch(() => ({}));
+      if (typeof body.groupId !== "string" || !body.groupId) {
+        throw new ValidationError("groupId is required");
+      }
+
+      await leaveGroup(auth.uid, body.groupId);
+
+      logger.info("Group left via API", {
+        action: "POST /api/groups/leave",
+        metadata: { userId: auth.uid, groupId: body.groupId }
+      });
+
+      return NextResponse.json({ success: true });
+    }),
+    { maxRequests: 10, windowMs: 60000, identifier: "groups_leave" }
+  ),
+  { endpoint: "/api/groups/leave", method: "POST" }
+);
@@ -0,0 +1,49 @@
+// ============================================================================
+// GROUPS API - LIST & CREATE
+// ============================================================================
+// GET  /api/groups  - Groups the caller belongs to
+// POST /api/groups  - Create a group ({ name }); the caller becomes its owner
+// Members join with the group's invite code via /api/groups/join
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth } from "@/lib/apiHelpers";
+import { createGroup, listGroups } from "@/lib/socialService";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/groups
+ * Returns the caller's groups
+ */
+export const GET = withErrorHandling(
+  withRateLimit(
+    withAuth(async (_request: NextRequest, auth) => {
+      const groups = await listGroups(auth.uid);
+
+      return NextResponse.json({ success: true, groups });
+    }),
+    { maxRequests: 30, windowMs: 60000, identifier: "groups_list" }
+  ),
+  { endpoint: "/api/groups", method: "GET" }
+);
+
+/**
+ * POST /api/groups
+ * Creates a group with a fresh invite code
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const body = await request.json().catch(() => ({}));
+      const group = await createGroup(auth.uid, body.name);
+
+      logger.info("Group created via API", {
+        action: "POST /api/groups",
+        metadata: { userId: auth.uid, groupId: group.id }
+      });
+
+      return NextResponse.json({ success: true, group }, { status: 201 });
+    }),
+    { maxRequests: 5, windowMs: 60000, identifier: "groups_create" }
+  ),
+  { endpoint: "/api/groups", method: "POST" }
+);
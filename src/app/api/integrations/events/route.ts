@@ -0,0 +1,29 @@
+// ============================================================================
+// INTEGRATIONS API - EVENTS
+// ============================================================================
+// POST /api/integrations/events
+// The app reports an event ({ event, data }) for the caller's webhooks: a
+// task checked off, a goal completed, a streak milestone or a finished focus
+// session
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth } from "@/lib/apiHelpers";
+import { buildReportedEventData, emitWebhookEvent } from "@/lib/webhookService";
+
+/**
+ * POST /api/integrations/events
+ * Returns { deliveries }, how many webhooks the event was sent to
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const body = await request.json().catch(() => ({}));
+      const { event, data } = await buildReportedEventData(auth.uid, body.event, body.data);
+      const deliveries = await emitWebhookEvent(auth.uid, event, data);
+
+      return NextResponse.json({ success: true, deliveries });
+    }),
+    { maxRequests: 60, windowMs: 60000, identifier: "integration_events" }
+  ),
+  { endpoint: "/api/integrations/events", method: "POST" }
+);
@@ -0,0 +1,72 @@
+// ============================================================================
+// INTEGRATIONS API - PERSONAL ACCESS TOKENS
+// ============================================================================
+// GET    /api/integrations/tokens         - The caller's tokens (never the tokens themselves)
+// POST   /api/integrations/tokens         - Create one ({ name, scopes, expiresInDays? })
+// DELETE /api/integrations/tokens?id=...  - Revoke one
+//
+// Managing tokens needs a signed-in session; a personal access token can't
+// create or revoke tokens.
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth } from "@/lib/apiHelpers";
+import { createApiToken, listApiTokens, revokeApiToken } from "@/lib/apiTokenService";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/integrations/tokens
+ * Returns { tokens }
+ */
+export const GET = withErrorHandling(
+  withRateLimit(
+    withAuth(async (_request: NextRequest, auth) => {
+      const tokens = await listApiTokens(auth.uid);
+      return NextResponse.json({ success: true, tokens });
+    }),
+    { maxRequests: 30, windowMs: 60000, identifier: "api_tokens_list" }
+  ),
+  { endpoint: "/api/integrations/tokens", method: "GET" }
+);
+
+/**
+ * POST /api/integrations/tokens
+ * Returns { token, info }; the token is only ever returned here
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const body = await request.json().catch(() => ({}));
+      const { token, info } = await createApiToken(auth.uid, body);
+
+      logger.info("API token created via API", {
+        action: "POST /api/integrations/tokens",
+        metadata: { userId: auth.uid, scopes: info.scopes }
+      });
+
+      return NextResponse.json({ success: true, token, info }, { status: 201 });
+    }),
+    { maxRequests: 5, windowMs: 60000, identifier: "api_tokens_write" }
+  ),
+  { endpoint: "/api/integrations/tokens", method: "POST" }
+);
+
+/**
+ * DELETE /api/integrations/tokens?id=...
+ * Revokes a token
+ */
+export const DELETE = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      await revokeApiToken(auth.uid, request.nextUrl.searchParams.get("id"));
+
+      logger.info("API token revoked via API", {
+        action: "DELETE /api/integrations/tokens",
+        metadata: { userId: auth.uid }
+      });
+
+      return NextResponse.json({ success: true });
+    }),
+    { maxRequests: 10, windowMs: 60000, identifier: "api_tokens_write" }
+  ),
+  { endpoint: "/api/integrations/tokens", method: "DELETE" }
+);
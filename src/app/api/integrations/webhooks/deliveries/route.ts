@@ -0,0 +1,24 @@
+// ============================================================================
+// INTEGRATIONS API - WEBHOOK DELIVERY LOG
+// ============================================================================
+// GET /api/integrations/webhooks/deliveries?webhookId=...
+// The latest deliveries to one of the caller's webhooks, newest first
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth } from "@/lib/apiHelpers";
+import { listWebhookDeliveries } from "@/lib/webhookService";
+
+/**
+ * GET /api/integrations/webhooks/deliveries?webhookId=...
+ * Returns { deliveries }
+ */
+export const GET = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const deliveries = await listWebhookDeliveries(auth.uid, request.nextUrl.searchParams.get("webhookId"));
+      return NextResponse.json({ success: true, deliveries });
+    }),
+    { maxRequests: 30, windowMs: 60000, identifier: "webhook_deliveries" }
+  ),
+  { endpoint: "/api/integrations/webhooks/deliveries", method: "GET" }
+);
@@ -0,0 +1,93 @@
+// ============================================================================
+// INTEGRATIONS API - WEBHOOKS
+// ============================================================================
+// GET    /api/integrations/webhooks         - The caller's webhooks
+// POST   /api/integrations/webhooks         - Register one ({ url, events })
+// PATCH  /api/integrations/webhooks         - Change one ({ id, url?, events?, active? })
+// DELETE /api/integrations/webhooks?id=...  - Delete one and its delivery log
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth } from "@/lib/apiHelpers";
+import { createWebhook, deleteWebhook, listWebhooks, updateWebhook } from "@/lib/webhookService";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/integrations/webhooks
+ * Returns { webhooks }
+ */
+export const GET = withErrorHandling(
+  withRateLimit(
+    withAuth(async (_request: NextRequest, auth) => {
+      const webhooks = await listWebhooks(auth.uid);
+      return NextResponse.json({ success: true, webhooks });
+    }),
+    { maxRequests: 30, windowMs: 60000, identifier: "webhooks_list" }
+  ),
+  { endpoint: "/api/integrations/webhooks", method: "GET" }
+);
+
+/**
+ * POST /api/integrations/webhooks
+ * Returns { webhook, secret }; the signing secret is only ever returned here
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const body = await request.json().catch(() => ({}));
+      const { webhook, secret } = await createWebhook(auth.uid, body);
+
+      logger.info("Webhook created via API", {
+        action: "POST /api/integrations/webhooks",
+        metadata: { userId: auth.uid, webhookId: webhook.id }
+      });
+
+      return NextResponse.json({ success: true, webhook, secret }, { status: 201 });
+    }),
+    { maxRequests: 5, windowMs: 60000, identifier: "webhooks_write" }
+  ),
+  { endpoint: "/api/integrations/webhooks", method: "POST" }
+);
+
+/**
+ * PATCH /api/integrations/webhooks
+ * Returns the updated { webhook }
+ */
+export const PATCH = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const body = await request.json().catch(() => ({}));
+      const webhook = await updateWebhook(auth.uid, body.id, body);
+
+      logger.info("Webhook updated via API", {
+        action: "PATCH /api/integrations/webhooks",
+        metadata: { userId: auth.uid, webhookId: webhook.id }
+      });
+
+      return NextResponse.json({ success: true, webhook });
+    }),
+    { maxRequests: 20, windowMs: 60000, identifier: "webhooks_write" }
+  ),
+  { endpoint: "/api/integrations/webhooks", method: "PATCH" }
+);
+
+/**
+ * DELETE /api/integrations/webhooks?id=...
+ * Deletes a webhook
+ */
+export const DELETE = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const webhookId = request.nextUrl.searchParams.get("id");
+      await deleteWebhook(auth.uid, webhookId);
+
+      logger.info("Webhook deleted via API", {
+        action: "DELETE /api/integrations/webhooks",
+        metadata: { userId: auth.uid, webhookId }
+      });
+
+      return NextResponse.json({ success: true });
+    }),
+    { maxRequests: 10, windowMs: 60000, identifier: "webhooks_write" }
+  ),
+  { endpoint: "/api/integrations/webhooks", method: "DELETE" }
+);
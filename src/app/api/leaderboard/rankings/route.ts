@@ -1,91 +1,66 @@
 // ============================================================================
 // LEADERBOARD API - GET RANKINGS
 // ============================================================================
-// GET /api/leaderboard/rankings
-// Returns top users sorted by score
+// GET /api/leaderboard/rankings?scope=global|friends|group&groupId=&period=all|week|month&page=&limit=
+// Returns one page of a leaderboard plus the caller's own position on it
 // Uses standardized API wrapper with validation, rate limiting, and error handling
 
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/firebase";
-import { collection, getDocs, query, orderBy, limit } from "firebase/firestore";
-import { withRateLimit, withErrorHandling } from "@/lib/apiHelpers";
+import {
+  withRateLimit,
+  withErrorHandling,
+  withAuth,
+  parsePagination,
+  paginateResponse,
+  ValidationError,
+} from "@/lib/apiHelpers";
+import { getRankings, LeaderboardScope, LEADERBOARD_SCOPES, SCORE_PERIODS } from "@/lib/leaderboardService";
+import { ScorePeriod } from "@/lib/statsUtils";
 import { logger } from "@/lib/logger";
 
-interface LeaderboardUser {
-  id: string;
-  displayName: string;
-  photoURL?: string;
-  score: number;
-  streak: number;
-  completionRate: number;
-  totalCompleted: number;
-  rank: number;
-  isCurrentUser: boolean;
-}
-
-interface RankingsResponse {
-  rankings: LeaderboardUser[];
-  currentUserRank: number | null;
-  total: number;
-}
-
 /**
  * GET /api/leaderboard/rankings
- * Returns top users sorted by score
+ * Returns users sorted by their score for the period
  */
 export const GET = withErrorHandling(
   withRateLimit(
-    async (request: NextRequest) => {
-      const { searchParams } = new URL(request.url);
-      const limitCount = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
-      const currentUserId = searchParams.get("userId");
-
-      // Get top users by score
-      const usersQuery = query(
-        collection(db, "users"),
-        orderBy("score", "desc"),
-        limit(limitCount)
-      );
-
-      const usersSnapshot = await getDocs(usersQuery);
-
-      const rankings: LeaderboardUser[] = usersSnapshot.docs.map((doc, index) => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          rank: index + 1,
-          displayName: data.displayName || data.email?.split('@')[0] || 'Anonymous',
-          photoURL: data.photoURL || null,
-          score: data.score || 0,
-          streak: data.streak || 0,
-          completionRate: data.completionRate || 0,
-          totalCompleted: data.totalCompleted || 0,
-          isCurrentUser: doc.id === currentUserId,
-        };
-      });
+    withAuth(async (request: NextRequest, auth) => {
+      const { searchParams } = request.nextUrl;
+      const scope = (searchParams.get("scope") || "global") as LeaderboardScope;
+      const period = (searchParams.get("period") || "all") as ScorePeriod;
+      const groupId = searchParams.get("groupId") || undefined;
 
-      // Find current user's rank if not in top list
-      let currentUserRank = null;
-      if (currentUserId) {
-        const userInList = rankings.find(u => u.id === currentUserId);
-        if (userInList) {
-          currentUserRank = rankings.indexOf(userInList) + 1;
-        }
+      if (!LEADERBOARD_SCOPES.includes(scope)) {
+        throw new ValidationError(`scope must be one of: ${LEADERBOARD_SCOPES.join(", ")}`);
+      }
+      if (!SCORE_PERIODS.includes(period)) {
+        throw new ValidationError(`period must be one of: ${SCORE_PERIODS.join(", ")}`);
+      }
+      if (scope === "group" && !groupId) {
+        throw new ValidationError("groupId is required for group rankings");
       }
 
+      const rankings = await getRankings({ scope, period, groupId, viewerId: auth.uid });
+      const page = paginateResponse(rankings, parsePagination(request), rankings.length);
+      const currentUser = rankings.find(u => u.isCurrentUser) || null;
+
       logger.info("Leaderboard fetched via API", {
         action: "GET /api/leaderboard/rankings",
-        metadata: { count: rankings.length }
+        metadata: { scope, period, count: page.data.length }
       });
 
       return NextResponse.json({
         success: true,
-        rankings,
-        currentUserRank,
+        scope,
+        period,
+        rankings: page.data,
+        pagination: page.pagination,
+        currentUser,
+        currentUserRank: currentUser?.rank ?? null,
         total: rankings.length
-      } as RankingsResponse);
+      });
 
-    },
+    }),
     { maxRequests: 30, windowMs: 60000, identifier: "leaderboard_rankings" }
   ),
   { endpoint: "/api/leaderboard/rankings", method: "GET" }
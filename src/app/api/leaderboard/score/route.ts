@@ -0,0 +1,41 @@
+// ============================================================================
+// LEADERBOARD API - RECALCULATE SCORE
+// ============================================================================
+// POST /api/leaderboard/score
+// Recalculates the caller's score, streak and totals from their tasks
+// Scores are only ever written here and by the streak-recalculation cron
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth, NotFoundError } from "@/lib/apiHelpers";
+import { recalculateUserScore } from "@/lib/scoringService";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/leaderboard/score
+ * Recalculates and returns the caller's leaderboard stats
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (_request: NextRequest, auth) => {
+      const result = await recalculateUserScore(auth.uid);
+      if (!result) {
+        throw new NotFoundError("User");
+      }
+
+      logger.info("Score recalculated via API", {
+        action: "POST /api/leaderboard/score",
+        metadata: { userId: auth.uid, status: result.status }
+      });
+
+      return NextResponse.json({
+        success: true,
+        status: result.status,
+        ...result.stats,
+        calculatedAt: new Date().toISOString()
+      });
+
+    }),
+    { maxRequests: 10, windowMs: 60000, identifier: "leaderboard_score" }
+  ),
+  { endpoint: "/api/leaderboard/score", method: "POST" }
+);
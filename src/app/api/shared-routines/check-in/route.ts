@@ -0,0 +1,40 @@
+// ============================================================================
+// SHARED ROUTINES API - CHECK IN
+// ============================================================================
+// POST /api/shared-routines/check-in
+// Records or undoes the caller's check-in ({ routineId, completed, date? })
+// for today or yesterday, and notifies the other members
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth, ValidationError } from "@/lib/apiHelpers";
+import { checkInSharedRoutine } from "@/lib/sharedRoutineService";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/shared-routines/check-in
+ * Checks in to a shared routine
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const body = await request.json().catch(() => ({}));
+      if (typeof body.routineId !== "string" || !body.routineId) {
+        throw new ValidationError("routineId is required");
+      }
+
+      const result = await checkInSharedRoutine(auth.uid, body.routineId, {
+        completed: body.completed !== false,
+        date: body.date,
+      });
+
+      logger.info("Shared routine check-in via API", {
+        action: "POST /api/shared-routines/check-in",
+        metadata: { userId: auth.uid, routineId: body.routineId, completed: body.completed !== false }
+      });
+
+      return NextResponse.json({ success: true, groupStreak: result.groupStreak });
+    }),
+    { maxRequests: 30, windowMs: 60000, identifier: "shared_routines_check_in" }
+  ),
+  { endpoint: "/api/shared-routines/check-in", method: "POST" }
+);
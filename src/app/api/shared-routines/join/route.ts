@@ -0,0 +1,33 @@
+// ============================================================================
+// SHARED ROUTINES API - JOIN
+// ============================================================================
+// POST /api/shared-routines/join
+// Adds the caller to the shared routine an invite code ({ code }) belongs to
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth } from "@/lib/apiHelpers";
+import { joinSharedRoutine } from "@/lib/sharedRoutineService";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/shared-routines/join
+ * Joins a shared routine by invite code
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const body = await request.json().catch(() => ({}));
+      const routine = await joinSharedRoutine(auth.uid, body.code);
+
+      logger.info("Shared routine joined via API", {
+        action: "POST /api/shared-routines/join",
+        metadata: { userId: auth.uid, routineId: routine.id }
+      });
+
+      return NextResponse.json({ success: true, routine });
+    }),
+    // Low limit, invite codes shouldn't be guessable by brute force
+    { maxRequests: 10, windowMs: 60000, identifier: "shared_routines_join" }
+  ),
+  { endpoint: "/api/shared-routines/join", method: "POST" }
+);
@@ -0,0 +1,36 @@
+// ============================================================================
+// SHARED ROUTINES API - LEAVE
+// ============================================================================
+// POST /api/shared-routines/leave
+// Removes the caller (and their check-ins) from a shared routine ({ routineId })
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth, ValidationError } from "@/lib/apiHelpers";
+import { leaveSharedRoutine } from "@/lib/sharedRoutineService";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/shared-routines/leave
+ * Leaves a shared routine
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const body = await request.json().catch(() => ({}));
+      if (typeof body.routineId !== "string" || !body.routineId) {
+        throw new ValidationError("routineId is required");
+      }
+
+      await leaveSharedRoutine(auth.uid, body.routineId);
+
+      logger.info("Shared routine left via API", {
+        action: "POST /api/shared-routines/leave",
+        metadata: { userId: auth.uid, routineId: body.routineId }
+      });
+
+      return NextResponse.json({ success: true });
+    }),
+    { maxRequests: 10, windowMs: 60000, identifier: "shared_routines_leave" }
+  ),
+  { endpoint: "/api/shared-routines/leave", method: "POST" }
+);
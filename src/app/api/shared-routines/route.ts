@@ -0,0 +1,34 @@
+// ============================================================================
+// SHARED ROUTINES API - CREATE
+// ============================================================================
+// POST /api/shared-routines
+// Creates a shared routine ({ title, days, icon?, timeBlock? }) with the
+// caller as its first member. Partners join with its invite code.
+// Members read routines and check-ins directly from Firestore.
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRateLimit, withErrorHandling, withAuth } from "@/lib/apiHelpers";
+import { createSharedRoutine } from "@/lib/sharedRoutineService";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/shared-routines
+ * Creates a shared routine with a fresh invite code
+ */
+export const POST = withErrorHandling(
+  withRateLimit(
+    withAuth(async (request: NextRequest, auth) => {
+      const body = await request.json().catch(() => ({}));
+      const routine = await createSharedRoutine(auth.uid, body);
+
+      logger.info("Shared routine created via API", {
+        action: "POST /api/shared-routines",
+        metadata: { userId: auth.uid, routineId: routine.id }
+      });
+
+      return NextResponse.json({ success: true, routine }, { status: 201 });
+    }),
+    { maxRequests: 5, windowMs: 60000, identifier: "shared_routines_create" }
+  ),
+  { endpoint: "/api/shared-routines", method: "POST" }
+);
@@ -7,20 +7,15 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/firebase";
-import { collection, getDocs } from "firebase/firestore";
-import { withRateLimit, withErrorHandling } from "@/lib/apiHelpers";
+import { collection, doc, getDoc, getDocs } from "firebase/firestore";
+import { withRateLimit, withErrorHandling, withAuth, assertSameUser } from "@/lib/apiHelpers";
 import { logger } from "@/lib/logger";
-import { format, subDays } from "date-fns";
-
-interface Task {
-  id: string;
-  completionHistory: string[];
-  days: string[];
-  specificDate?: string;
-}
+import { parseVacations } from "@/lib/vacationUtils";
+import { getZonedDate, resolveUserTimezone } from "@/lib/timezoneUtils";
+import { StatsTask, calculateUserStats } from "@/lib/statsUtils";
 
 interface CalculateStatsParams {
-  userId: string;
+  userId?: string;
 }
 
 /**
@@ -29,26 +24,27 @@ interface CalculateStatsParams {
  */
 export const GET = withErrorHandling(
   withRateLimit(
-    async (request: NextRequest) => {
+    withAuth(async (request: NextRequest, auth) => {
       const { searchParams } = new URL(request.url);
-      const userId = searchParams.get("userId") as CalculateStatsParams["userId"];
+      const requestedUserId = searchParams.get("userId") as CalculateStatsParams["userId"];
 
-      // Validate required fields
-      if (!userId) {
-        return NextResponse.json(
-          { error: "User ID is required", code: "MISSING_USER_ID" },
-          { status: 400 }
-        );
-      }
+      // Stats are only ever calculated for the verified caller
+      assertSameUser(auth, requestedUserId);
+      const userId = auth.uid;
 
       // Get user's tasks
       const tasksSnapshot = await getDocs(collection(db, "users", userId, "tasks"));
-      const tasks: Task[] = tasksSnapshot.docs.map(d => ({
+      const tasks: StatsTask[] = tasksSnapshot.docs.map(d => ({
         id: d.id,
         ...d.data()
-      } as Task));
+      } as StatsTask));
+
+      const userSnap = await getDoc(doc(db, "users", userId));
+      const vacations = parseVacations(userSnap.data()?.vacations);
+      const today = getZonedDate(resolveUserTimezone(userSnap.data()));
 
-      const stats = calculateStats(tasks);
+      // Same math the leaderboard score is calculated with
+      const stats = calculateUserStats(tasks, vacations, today);
 
       logger.info("Stats calculated via API", {
         action: "GET /api/stats/calculate",
@@ -57,117 +53,12 @@ export const GET = withErrorHandling(
 
       return NextResponse.json({
         success: true,
-        ...stats
+        ...stats,
+        calculatedAt: new Date().toISOString()
       });
 
-    },
+    }),
     { maxRequests: 30, windowMs: 60000, identifier: "stats_calculate" }
   ),
   { endpoint: "/api/stats/calculate", method: "GET" }
 );
-
-/**
- * Calculate user statistics from tasks
- */
-function calculateStats(tasks: Task[]) {
-  const today = new Date();
-  const todayStr = format(today, "yyyy-MM-dd");
-  const dayName = format(today, "EEE").toUpperCase();
-
-  // Total completed (all time)
-  const totalCompleted = tasks.reduce((acc, t) => acc + (t.completionHistory?.length || 0), 0);
-
-  // Tasks for today
-  const tasksToday = tasks.filter(t =>
-    t.specificDate ? t.specificDate === todayStr : t.days?.includes(dayName)
-  );
-  const totalTasksToday = tasksToday.length;
-  const completedTasksToday = tasksToday.filter(t =>
-    t.completionHistory?.includes(todayStr)
-  ).length;
-
-  // Daily progress
-  const dailyProgress = totalTasksToday > 0
-    ? Math.round((completedTasksToday / totalTasksToday) * 100)
-    : 0;
-
-  // Completion rate (last 7 days)
-  let scheduled = 0;
-  let completed = 0;
-
-  for (let i = 0; i < 7; i++) {
-    const dateToCheck = subDays(today, i);
-    const dateStr = format(dateToCheck, "yyyy-MM-dd");
-    const dayStr = format(dateToCheck, "EEE").toUpperCase();
-
-    tasks.forEach(t => {
-      const isScheduled = t.specificDate
-        ? t.specificDate === dateStr
-        : t.days?.includes(dayStr);
-
-      if (isScheduled) {
-        scheduled++;
-        if (t.completionHistory?.includes(dateStr)) completed++;
-      }
-    });
-  }
-  const completionRate = scheduled === 0 ? 0 : Math.round((completed / scheduled) * 100);
-
-  // Streak calculation
-  let streak = 0;
-  let longestStreak = 0;
-  let currentStreak = 0;
-
-  for (let i = 0; i < 365; i++) {
-    const dateToCheck = subDays(today, i);
-    const dateStr = format(dateToCheck, "yyyy-MM-dd");
-    const dayStr = format(dateToCheck, "EEE").toUpperCase();
-
-    // Check if any task was scheduled for this day
-    const isScheduledDay = tasks.some(t =>
-      t.specificDate
-        ? t.specificDate === dateStr
-        : t.days?.includes(dayStr)
-    );
-
-    const anyTaskDone = tasks.some(t => t.completionHistory?.includes(dateStr));
-
-    if (isScheduledDay) {
-      if (anyTaskDone) {
-        currentStreak++;
-        if (currentStreak > longestStreak) {
-          longestStreak = currentStreak;
-        }
-      } else {
-        currentStreak = 0;
-      }
-
-      // Only count streak if this is a scheduled day
-      if (i === 0) continue; // Don't break on today if not completed yet
-    }
-
-    // Count consecutive completed days
-    if (anyTaskDone) {
-      if (i === 0 || currentStreak > 0) {
-        streak++;
-      }
-    } else if (isScheduledDay) {
-      // Reset streak if there was a scheduled day but no completion
-      if (i < 30) { // Only reset for recent days
-        streak = 0;
-      }
-    }
-  }
-
-  return {
-    totalCompleted,
-    totalTasksToday,
-    completedTasksToday,
-    dailyProgress,
-    completionRate,
-    streak,
-    longestStreak,
-    totalTasks: tasks.length,
-    calculatedAt: new Date().toISOString()
-  };
-}
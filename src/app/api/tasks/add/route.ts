@@ -8,7 +8,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/firebase";
 import { doc, setDoc, type Firestore, type DocumentReference } from "firebase/firestore";
-import { withRateLimit, withErrorHandling } from "@/lib/apiHelpers";
+import { withRateLimit, withErrorHandling, withAuth, assertSameUser } from "@/lib/apiHelpers";
 import { validateTask, sanitizeForFirestore } from "@/lib/validationSchemas";
 import { logger } from "@/lib/logger";
 import { v4 as uuidv4 } from "uuid";
@@ -17,7 +17,7 @@ import { v4 as uuidv4 } from "uuid";
 const firestoreDb: Firestore = db as unknown as Firestore;
 
 interface AddTaskBody {
-  userId: string;
+  userId?: string;
   taskData: Record<string, unknown>;
 }
 
@@ -27,17 +27,13 @@ interface AddTaskBody {
  */
 export const POST = withErrorHandling(
   withRateLimit(
-    async (request: NextRequest) => {
+    withAuth(async (request: NextRequest, auth) => {
       const body: AddTaskBody = await request.json();
-      const { userId, taskData } = body;
+      const { taskData } = body;
 
-      // Validate required fields
-      if (!userId) {
-        return NextResponse.json(
-          { error: "User ID is required", code: "MISSING_USER_ID" },
-          { status: 400 }
-        );
-      }
+      // The verified token decides whose data is written; a body userId may only confirm it
+      assertSameUser(auth, body.userId);
+      const userId = auth.uid;
 
       if (!taskData) {
         return NextResponse.json(
@@ -80,7 +76,7 @@ export const POST = withErrorHandling(
         message: "Task created successfully"
       }, { status: 201 });
 
-    },
+    }),
     { maxRequests: 30, windowMs: 60000, identifier: "tasks_add" }
   ),
   { endpoint: "/api/tasks/add", method: "POST" }
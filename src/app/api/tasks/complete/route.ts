@@ -2,15 +2,16 @@
 // TASKS API - TOGGLE COMPLETION
 // ============================================================================
 // POST /api/tasks/complete
-// Toggles task completion status and updates user stats
+// Toggles task completion status and recalculates the user's score
 // Uses standardized API wrapper with validation, rate limiting, and error handling
 
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/firebase";
-import { doc, getDoc, writeBatch, increment } from "firebase/firestore";
-import { withRateLimit, withErrorHandling } from "@/lib/apiHelpers";
+import { doc, getDoc, writeBatch } from "firebase/firestore";
+import { withRateLimit, withErrorHandling, withAuth, assertSameUser } from "@/lib/apiHelpers";
 import { logger } from "@/lib/logger";
-import { format } from "date-fns";
+import { getLocalDateString, resolveUserTimezone } from "@/lib/timezoneUtils";
+import { recalculateUserScore } from "@/lib/scoringService";
 
 interface Task {
   id: string;
@@ -20,7 +21,7 @@ interface Task {
 }
 
 interface CompleteTaskBody {
-  userId: string;
+  userId?: string;
   taskId: string;
   userInfo?: {
     email?: string;
@@ -31,18 +32,21 @@ interface CompleteTaskBody {
 
 /**
  * POST /api/tasks/complete
- * Toggles task completion status and updates user stats
+ * Toggles task completion status and recalculates the user's score
  */
 export const POST = withErrorHandling(
   withRateLimit(
-    async (request: NextRequest) => {
+    withAuth(async (request: NextRequest, auth) => {
       const body: CompleteTaskBody = await request.json();
-      const { userId, taskId, userInfo } = body;
+      const { taskId, userInfo } = body;
+
+      assertSameUser(auth, body.userId);
+      const userId = auth.uid;
 
       // Validate required fields
-      if (!userId || !taskId) {
+      if (!taskId) {
         return NextResponse.json(
-          { error: "User ID and Task ID are required", code: "MISSING_IDS" },
+          { error: "Task ID is required", code: "MISSING_TASK_ID" },
           { status: 400 }
         );
       }
@@ -59,7 +63,8 @@ export const POST = withErrorHandling(
       }
 
       const task = taskSnap.data() as Task;
-      const todayStr = format(new Date(), "yyyy-MM-dd");
+      const userRef = doc(db, "users", userId);
+      const todayStr = getLocalDateString(resolveUserTimezone((await getDoc(userRef)).data()));
       const isCurrentlyCompleted = task.completionHistory?.includes(todayStr) ?? false;
 
       // Calculate new history
@@ -73,17 +78,12 @@ export const POST = withErrorHandling(
         lastCompletedDate: !isCurrentlyCompleted ? new Date().toISOString() : null,
       };
 
-      // Batch update task and user stats
+      // Batch update task and user profile
       const batch = writeBatch(db);
 
       batch.update(taskRef, updates);
 
-      // Update user stats
-      const userRef = doc(db, "users", userId);
-      const scoreChange = !isCurrentlyCompleted ? 10 : -10;
-
       batch.set(userRef, {
-        score: increment(scoreChange),
         email: userInfo?.email,
         displayName: userInfo?.displayName || userInfo?.email?.split('@')[0] || 'User',
         photoURL: userInfo?.photoURL || null,
@@ -92,6 +92,9 @@ export const POST = withErrorHandling(
 
       await batch.commit();
 
+      // Score, streak and totals are recalculated from the tasks, never incremented
+      const scoring = await recalculateUserScore(userId);
+
       logger.info("Task completion toggled via API", {
         action: "POST /api/tasks/complete",
         metadata: { userId, taskId, completed: !isCurrentlyCompleted }
@@ -102,11 +105,12 @@ export const POST = withErrorHandling(
         taskId,
         completed: !isCurrentlyCompleted,
         newHistory,
-        scoreChange: !isCurrentlyCompleted ? 10 : -10,
+        score: scoring?.stats.score,
+        streak: scoring?.stats.streak,
         message: `Task ${!isCurrentlyCompleted ? 'completed' : 'uncompleted'} successfully`
       });
 
-    },
+    }),
     { maxRequests: 60, windowMs: 60000, identifier: "tasks_complete" }
   ),
   { endpoint: "/api/tasks/complete", method: "POST" }
@@ -8,11 +8,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/firebase";
 import { doc, deleteDoc } from "firebase/firestore";
-import { withRateLimit, withErrorHandling } from "@/lib/apiHelpers";
+import { withRateLimit, withErrorHandling, withAuth, assertSameUser } from "@/lib/apiHelpers";
 import { logger } from "@/lib/logger";
 
 interface DeleteTaskBody {
-  userId: string;
+  userId?: string;
   taskId: string;
 }
 
@@ -22,14 +22,17 @@ interface DeleteTaskBody {
  */
 export const DELETE = withErrorHandling(
   withRateLimit(
-    async (request: NextRequest) => {
+    withAuth(async (request: NextRequest, auth) => {
       const body: DeleteTaskBody = await request.json();
-      const { userId, taskId } = body;
+      const { taskId } = body;
+
+      assertSameUser(auth, body.userId);
+      const userId = auth.uid;
 
       // Validate required fields
-      if (!userId || !taskId) {
+      if (!taskId) {
         return NextResponse.json(
-          { error: "User ID and Task ID are required", code: "MISSING_IDS" },
+          { error: "Task ID is required", code: "MISSING_TASK_ID" },
           { status: 400 }
         );
       }
@@ -48,7 +51,7 @@ export const DELETE = withErrorHandling(
         message: "Task deleted successfully"
       });
 
-    },
+    }),
     { maxRequests: 30, windowMs: 60000, identifier: "tasks_delete" }
   ),
   { endpoint: "/api/tasks/delete", method: "DELETE" }
@@ -8,12 +8,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/firebase";
 import { doc, updateDoc } from "firebase/firestore";
-import { withRateLimit, withErrorHandling } from "@/lib/apiHelpers";
+import { withRateLimit, withErrorHandling, withAuth, assertSameUser } from "@/lib/apiHelpers";
 import { validateTask, sanitizeForFirestore } from "@/lib/validationSchemas";
 import { logger } from "@/lib/logger";
 
 interface UpdateTaskBody {
-  userId: string;
+  userId?: string;
   taskId: string;
   updates: Record<string, unknown>;
 }
@@ -24,14 +24,17 @@ interface UpdateTaskBody {
  */
 export const PUT = withErrorHandling(
   withRateLimit(
-    async (request: NextRequest) => {
+    withAuth(async (request: NextRequest, auth) => {
       const body: UpdateTaskBody = await request.json();
-      const { userId, taskId, updates } = body;
+      const { taskId, updates } = body;
+
+      assertSameUser(auth, body.userId);
+      const userId = auth.uid;
 
       // Validate required fields
-      if (!userId || !taskId) {
+      if (!taskId) {
         return NextResponse.json(
-          { error: "User ID and Task ID are required", code: "MISSING_IDS" },
+          { error: "Task ID is required", code: "MISSING_TASK_ID" },
           { status: 400 }
         );
       }
@@ -80,7 +83,7 @@ export const PUT = withErrorHandling(
         message: "Task updated successfully"
       });
 
-    },
+    }),
     { maxRequests: 30, windowMs: 60000, identifier: "tasks_update" }
   ),
   { endpoint: "/api/tasks/update", method: "PUT" }
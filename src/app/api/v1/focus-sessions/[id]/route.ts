@@ -0,0 +1,10 @@
+// ============================================================================
+// API V1 - FOCUS SESSIONS
+// ============================================================================
+// GET    /api/v1/focus-sessions/{id} - One focus session
+// PATCH  /api/v1/focus-sessions/{id} - Update some of its fields
+// DELETE /api/v1/focus-sessions/{id} - Delete it
+
+import { FOCUS_SESSIONS, itemRoutes } from "@/lib/v1Resources";
+
+export const { GET, PATCH, DELETE } = itemRoutes(FOCUS_SESSIONS, "/api/v1/focus-sessions/[id]");
@@ -0,0 +1,9 @@
+// ============================================================================
+// API V1 - FOCUS SESSIONS
+// ============================================================================
+// GET  /api/v1/focus-sessions - List the caller's focus sessions, newest first (?cursor=, ?limit=)
+// POST /api/v1/focus-sessions - Create one
+
+import { FOCUS_SESSIONS, collectionRoutes } from "@/lib/v1Resources";
+
+export const { GET, POST } = collectionRoutes(FOCUS_SESSIONS, "/api/v1/focus-sessions");
@@ -0,0 +1,10 @@
+// ============================================================================
+// API V1 - GOALS
+// ============================================================================
+// GET    /api/v1/goals/{id} - One goal
+// PATCH  /api/v1/goals/{id} - Update some of its fields
+// DELETE /api/v1/goals/{id} - Delete it
+
+import { GOALS, itemRoutes } from "@/lib/v1Resources";
+
+export const { GET, PATCH, DELETE } = itemRoutes(GOALS, "/api/v1/goals/[id]");
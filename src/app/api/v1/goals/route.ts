@@ -0,0 +1,9 @@
+// ============================================================================
+// API V1 - GOALS
+// ============================================================================
+// GET  /api/v1/goals - List the caller's goals by ID (?cursor=, ?limit=)
+// POST /api/v1/goals - Create one
+
+import { GOALS, collectionRoutes } from "@/lib/v1Resources";
+
+export const { GET, POST } = collectionRoutes(GOALS, "/api/v1/goals");
@@ -0,0 +1,10 @@
+// ============================================================================
+// API V1 - MOODS
+// ============================================================================
+// GET    /api/v1/moods/{id} - The mood entry for a date (YYYY-MM-DD)
+// PATCH  /api/v1/moods/{id} - Update some of its fields
+// DELETE /api/v1/moods/{id} - Delete it
+
+import { MOODS, itemRoutes } from "@/lib/v1Resources";
+
+export const { GET, PATCH, DELETE } = itemRoutes(MOODS, "/api/v1/moods/[id]");
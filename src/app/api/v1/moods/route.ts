@@ -0,0 +1,9 @@
+// ============================================================================
+// API V1 - MOODS
+// ============================================================================
+// GET  /api/v1/moods - List the caller's mood entries, newest first (?cursor=, ?limit=)
+// POST /api/v1/moods - Create one
+
+import { MOODS, collectionRoutes } from "@/lib/v1Resources";
+
+export const { GET, POST } = collectionRoutes(MOODS, "/api/v1/moods");
@@ -0,0 +1,20 @@
+// ============================================================================
+// API V1 - OPENAPI DOCUMENT
+// ============================================================================
+// GET /api/v1/openapi.json - The OpenAPI 3.1 description of /api/v1
+//
+// Public, so API clients and code generators can fetch it without a token
+
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/apiHelpers";
+import { buildOpenApiDocument } from "@/lib/openApi";
+
+/**
+ * GET /api/v1/openapi.json
+ */
+export const GET = withErrorHandling(
+  async () => NextResponse.json(buildOpenApiDocument(), {
+    headers: { "Cache-Control": "public, max-age=3600" }
+  }),
+  { endpoint: "/api/v1/openapi.json", method: "GET" }
+);
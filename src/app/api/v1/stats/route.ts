@@ -0,0 +1,17 @@
+// ============================================================================
+// API V1 - STATS
+// ============================================================================
+// GET /api/v1/stats - The caller's score, streaks and completion rates
+
+import { NextResponse } from "next/server";
+import { v1Route } from "@/lib/apiV1";
+import { getUserStats } from "@/lib/v1Resources";
+
+/**
+ * GET /api/v1/stats
+ * Calculated from the caller's tasks on every request
+ */
+export const GET = v1Route(async (_request, auth) => {
+  const data = await getUserStats(auth.uid);
+  return NextResponse.json({ success: true, data });
+}, { endpoint: "/api/v1/stats", method: "GET", identifier: "v1_stats", maxRequests: 30, scope: "stats:read" });
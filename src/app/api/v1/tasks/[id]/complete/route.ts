@@ -0,0 +1,29 @@
+// ============================================================================
+// API V1 - TASK COMPLETION
+// ============================================================================
+// POST /api/v1/tasks/{id}/complete - Mark a task done or not done on a date
+//
+// Body (optional): { date?: "YYYY-MM-DD", completed?: boolean }. The date
+// defaults to today in the caller's timezone, and completed to true. The
+// score and streak are recalculated afterwards.
+
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { readBody, v1Route } from "@/lib/apiV1";
+import { setTaskCompletion } from "@/lib/v1Resources";
+
+/**
+ * POST /api/v1/tasks/{id}/complete
+ * Returns the updated task
+ */
+export const POST = v1Route<{ id: string }>(async (request: NextRequest, auth, { id }) => {
+  const body = await readBody(request, { optional: true });
+  const data = await setTaskCompletion(auth.uid, id, { completed: body.completed, date: body.date });
+
+  logger.info("Task completion set via API", {
+    action: "POST /api/v1/tasks/[id]/complete",
+    metadata: { userId: auth.uid, taskId: id, completed: body.completed ?? true, date: body.date }
+  });
+
+  return NextResponse.json({ success: true, data });
+}, { endpoint: "/api/v1/tasks/[id]/complete", method: "POST", identifier: "v1_tasks_complete", maxRequests: 60, scope: "tasks:write" });
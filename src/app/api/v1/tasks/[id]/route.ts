@@ -0,0 +1,10 @@
+// ============================================================================
+// API V1 - TASKS
+// ============================================================================
+// GET    /api/v1/tasks/{id} - One task
+// PATCH  /api/v1/tasks/{id} - Update some of its fields
+// DELETE /api/v1/tasks/{id} - Delete it
+
+import { TASKS, itemRoutes } from "@/lib/v1Resources";
+
+export const { GET, PATCH, DELETE } = itemRoutes(TASKS, "/api/v1/tasks/[id]");
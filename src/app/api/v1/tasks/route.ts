@@ -0,0 +1,9 @@
+// ============================================================================
+// API V1 - TASKS
+// ============================================================================
+// GET  /api/v1/tasks - List the caller's routine tasks by ID (?cursor=, ?limit=)
+// POST /api/v1/tasks - Create one
+
+import { TASKS, collectionRoutes } from "@/lib/v1Resources";
+
+export const { GET, POST } = collectionRoutes(TASKS, "/api/v1/tasks");
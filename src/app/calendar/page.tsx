@@ -5,6 +5,7 @@ import { Header } from "@/components/Header";
 import { MonthView } from "@/components/calendar/MonthView";
 import { TaskModal } from "@/components/TaskModal";
 import { useTask } from "@/context/TaskContext";
+import { isTaskScheduledOn } from "@/lib/recurrenceUtils";
 import { format, addMonths, subMonths } from "date-fns";
 import { Button } from "@/components/ui/Button";
 import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Clock, Plus } from "lucide-react";
@@ -21,15 +22,8 @@ export default function CalendarPage() {
     const selectedDayName = format(selectedDate, "EEE").toUpperCase();
     const selectedDayString = format(selectedDate, "yyyy-MM-dd");
 
-    // Filter tasks:
-    // 1. If specificDate is set: match exact date only
-    // 2. If specificDate is NOT set: match recurring day name
-    const selectedDayTasks = tasks.filter(t => {
-        if (t.specificDate) {
-            return t.specificDate === selectedDayString;
-        }
-        return t.days.includes(selectedDayName);
-    });
+    // Specific dates, recurrence rules and weekday lists all resolve here
+    const selectedDayTasks = tasks.filter(t => isTaskScheduledOn(t, selectedDayString));
 
     return (
         <div className="min-h-screen bg-background pb-20">
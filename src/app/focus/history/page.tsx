@@ -0,0 +1,32 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { ArrowLeft, History } from "lucide-react";
+import { Header } from "@/components/Header";
+import { FocusSessionHistory } from "@/components/focus/FocusSessionHistory";
+
+export default function FocusHistoryPage() {
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <Header />
+      <main className="container mx-auto max-w-4xl px-4 sm:px-6 pt-6 sm:pt-12 space-y-8">
+        <div className="space-y-1">
+          <Link
+            href="/focus"
+            className="inline-flex items-center gap-1 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" /> Focus
+          </Link>
+          <h2 className="text-4xl font-bold tracking-tighter text-foreground flex items-center gap-3">
+            <History className="h-10 w-10 text-purple-400" />
+            Session History
+          </h2>
+          <p className="text-muted-foreground font-medium">Review, correct and export your focus sessions</p>
+        </div>
+
+        <FocusSessionHistory />
+      </main>
+    </div>
+  );
+}
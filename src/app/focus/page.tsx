@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useMemo, useState, useEffect } from "react";
+import Link from "next/link";
 import { Header } from "@/components/Header";
 import { useFocusTimer } from "@/hooks/useFocusTimer";
 import { TimerDisplay } from "@/components/focus/TimerDisplay";
@@ -18,14 +19,17 @@ import { ModeToggle } from "@/components/focus/ModeToggle";
 import { ThemeSelector } from "@/components/focus/ThemeSelector";
 import { IntentionModal } from "@/components/focus/IntentionModal";
 import { DistractionLogger } from "@/components/focus/DistractionLogger";
+import { StrictFocusSettingsPanel } from "@/components/focus/StrictFocusSettingsPanel";
+import { FocusPresetEditor } from "@/components/focus/FocusPresetEditor";
+import { LiveSessionCard } from "@/components/focus/LiveSessionCard";
 import { AchievementToast } from "@/components/focus/AchievementToast";
 import { FocusStreakCalendar } from "@/components/focus/FocusStreakCalendar";
 import { PhysicalBreakGuidance } from "@/components/focus/PhysicalBreakGuidance";
 import { ZenBackground } from "@/components/focus/ZenBackground";
-import { Timer, Zap, Coffee, Target, Eye, Maximize2, Settings, ChevronDown } from "lucide-react";
+import { Timer, Zap, Coffee, Target, Eye, Maximize2, Settings, ChevronDown, History } from "lucide-react";
 import { useTask } from "@/context/TaskContext";
 import { useAuth } from "@/context/AuthContext";
-import { getEnergyPatterns } from "@/lib/focusSessionUtils";
+import { FocusPreset, getEnergyPatterns } from "@/lib/focusSessionUtils";
 import { cn } from "@/components/ui/Button";
 import { motion, AnimatePresence } from "framer-motion";
 
@@ -42,7 +46,12 @@ export default function FocusPage() {
     totalSeconds,
     todayStats,
     currentPreset,
+    presets,
     changePreset,
+    saveCustomPreset,
+    deleteCustomPreset,
+    programSteps,
+    currentProgramStep,
     linkTask,
     unlinkTask,
     linkedTaskId,
@@ -57,6 +66,8 @@ export default function FocusPage() {
     incompleteSession,
     resumeSession,
     discardIncompleteSession,
+    remoteSession,
+    controlRemoteSession,
     // New features
     timerMode,
     isOvertime,
@@ -71,6 +82,8 @@ export default function FocusPage() {
     setIntention,
     distractionReasons,
     logDistraction,
+    strictFocus,
+    updateStrictFocus,
     achievements,
     newAchievement,
     setNewAchievement,
@@ -84,6 +97,8 @@ export default function FocusPage() {
   const [showIntentionModal, setShowIntentionModal] = useState(false);
   const [showDistractionLogger, setShowDistractionLogger] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  // undefined: editor closed, null: creating a new preset
+  const [editingPreset, setEditingPreset] = useState<FocusPreset | null | undefined>(undefined);
 
   // Load energy patterns
   useEffect(() => {
@@ -248,8 +263,11 @@ export default function FocusPage() {
                 <div className="flex gap-4">
                   <div className="flex-1">
                     <PresetSelector
+                      presets={presets}
                       currentPreset={currentPreset}
                       onSelectPreset={changePreset}
+                      onCreatePreset={() => setEditingPreset(null)}
+                      onEditPreset={setEditingPreset}
                       disabled={isActive}
                     />
                   </div>
@@ -288,11 +306,21 @@ export default function FocusPage() {
                           onSelect={changeTheme}
                           disabled={isActive}
                         />
+                        <StrictFocusSettingsPanel
+                          settings={strictFocus}
+                          onChange={updateStrictFocus}
+                          disabled={isActive}
+                        />
                       </div>
                     </motion.div>
                   )}
                 </AnimatePresence>
 
+                {/* Another device's running timer */}
+                {remoteSession && !isActive && (
+                  <LiveSessionCard session={remoteSession} onControl={controlRemoteSession} />
+                )}
+
                 {/* Timer Card */}
                 <div className="relative group">
                   {isActive && !isPaused && !isOvertime && (
@@ -301,6 +329,13 @@ export default function FocusPage() {
 
                   <div className="rounded-[3rem] bg-card border border-border shadow-xl p-8 md:p-12">
                     <div className="flex flex-col items-center space-y-8">
+                      {currentProgramStep && (
+                        <div className="px-4 py-1.5 rounded-full bg-white/5 border border-white/10 text-xs font-bold text-muted-foreground">
+                          Step {currentProgramStep.index + 1} of {programSteps.length} · {currentProgramStep.label}
+                          {programSteps[programSteps.length - 1].round > 1 && ` · Round ${currentProgramStep.round}`}
+                        </div>
+                      )}
+
                       <TimerDisplay
                         minutes={minutes}
                         seconds={seconds}
@@ -387,6 +422,13 @@ export default function FocusPage() {
 
                 <FocusStats todayMinutes={todayStats.minutes} todaySessions={todayStats.sessions} />
 
+                <Link
+                  href="/focus/history"
+                  className="flex items-center justify-center gap-2 rounded-xl bg-white/5 border border-white/10 p-3 text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-white/10 transition-colors"
+                >
+                  <History className="h-4 w-4" /> Session history
+                </Link>
+
                 <FocusStreakCalendar
                   weeklyData={weeklyData}
                   currentStreak={0}
@@ -529,6 +571,17 @@ export default function FocusPage() {
         onSave={handleIntentionSave}
       />
 
+      {/* Custom Preset Editor */}
+      {editingPreset !== undefined && (
+        <FocusPresetEditor
+          key={editingPreset?.id || "new"}
+          preset={editingPreset}
+          onClose={() => setEditingPreset(undefined)}
+          onSave={saveCustomPreset}
+          onDelete={deleteCustomPreset}
+        />
+      )}
+
       {/* Distraction Logger */}
       <DistractionLogger
         isOpen={showDistractionLogger}
@@ -1,87 +1,41 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { Header } from "@/components/Header";
-import { Button } from "@/components/ui/Button";
-import { GoalCard, Goal, Milestone } from "@/components/goals/GoalCard";
+import { Button, cn } from "@/components/ui/Button";
+import { GoalCard } from "@/components/goals/GoalCard";
 import { GoalModal } from "@/components/goals/GoalModal";
 import { GoalTimeline } from "@/components/goals/GoalTimeline";
 import { Plus, Target, LayoutGrid, CalendarDays } from "lucide-react";
-import { v4 as uuidv4 } from "uuid";
-import { useAuth } from "@/context/AuthContext";
-import { db } from "@/lib/firebase";
-import { handleFirestoreError, withRetry } from "@/lib/firestoreUtils";
+import { useGoal, Goal, NewGoal } from "@/context/GoalContext";
+import { useTask } from "@/context/TaskContext";
+import { getLinkedTasks } from "@/lib/goalUtils";
 import { useConfirm } from "@/components/ui/ConfirmDialog";
-import {
-  collection,
-  onSnapshot,
-  doc,
-  setDoc,
-  updateDoc,
-  deleteDoc,
-} from "firebase/firestore";
+
+type GoalsView = "grid" | "timeline";
 
 export default function GoalsPage() {
-  const { user } = useAuth();
+  const { goals: unsortedGoals, addGoal, updateGoal, deleteGoal, toggleGoalCompletion, toggleMilestone, loading } = useGoal();
+  const { tasks } = useTask();
   const { confirm, ConfirmDialogComponent } = useConfirm();
-  const [goals, setGoals] = useState<Goal[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [goalToEdit, setGoalToEdit] = useState<Goal | undefined>(undefined);
-  const [loading, setLoading] = useState(true);
-
-  // Firestore listener for goals
-  useEffect(() => {
-    if (!user) {
-      setGoals([]);
-      setLoading(false);
-      return;
-    }
-
-    const goalsRef = collection(db, "users", user.uid, "goals");
-    const unsubscribe = onSnapshot(goalsRef, (snapshot) => {
-      const fetchedGoals = snapshot.docs.map(
-        (doc) => ({ id: doc.id, ...doc.data() } as Goal)
-      );
-      // Sort by target date
-      fetchedGoals.sort((a, b) =>
-        new Date(a.targetDate).getTime() - new Date(b.targetDate).getTime()
-      );
-      setGoals(fetchedGoals);
-      setLoading(false);
-    });
-
-    return () => unsubscribe();
-  }, [user]);
+  const [view, setView] = useState<GoalsView>("grid");
 
-  const handleSaveGoal = async (
-    goalData: Omit<Goal, "id" | "createdAt" | "isCompleted"> | Goal
-  ) => {
-    if (!user) return;
+  // Sort by target date
+  const goals = [...unsortedGoals].sort((a, b) =>
+    new Date(a.targetDate).getTime() - new Date(b.targetDate).getTime()
+  );
 
-    try {
-      if ("id" in goalData) {
-        // Update existing goal
-        await updateDoc(doc(db, "users", user.uid, "goals", goalData.id), {
-          ...goalData,
-        });
-      } else {
-        // Create new goal
-        const newGoal: Goal = {
-          ...goalData,
-          id: uuidv4(),
-          createdAt: new Date().toISOString(),
-          isCompleted: false,
-        };
-        await setDoc(doc(db, "users", user.uid, "goals", newGoal.id), newGoal);
-      }
-    } catch (error: any) {
-      handleFirestoreError(error, "Save goal");
+  const handleSaveGoal = async (goalData: NewGoal | Goal) => {
+    if ("id" in goalData) {
+      await updateGoal(goalData);
+    } else {
+      await addGoal(goalData);
     }
   };
 
   const handleDeleteGoal = async (id: string) => {
-    if (!user) return;
-
     const confirmed = await confirm({
       title: "Delete this goal?",
       description: "This will permanently delete this goal and all its milestones. This action cannot be undone.",
@@ -91,33 +45,10 @@ export default function GoalsPage() {
     });
 
     if (confirmed) {
-      await deleteDoc(doc(db, "users", user.uid, "goals", id));
+      await deleteGoal(id);
     }
   };
 
-  const handleToggleComplete = async (id: string) => {
-    if (!user) return;
-    const goal = goals.find((g) => g.id === id);
-    if (!goal) return;
-    await updateDoc(doc(db, "users", user.uid, "goals", id), {
-      isCompleted: !goal.isCompleted,
-    });
-  };
-
-  const handleToggleMilestone = async (goalId: string, milestoneId: string) => {
-    if (!user) return;
-    const goal = goals.find((g) => g.id === goalId);
-    if (!goal) return;
-
-    const updatedMilestones = goal.milestones.map((m) =>
-      m.id === milestoneId ? { ...m, isCompleted: !m.isCompleted } : m
-    );
-
-    await updateDoc(doc(db, "users", user.uid, "goals", goalId), {
-      milestones: updatedMilestones,
-    });
-  };
-
   const handleEditGoal = (goal: Goal) => {
     setGoalToEdit(goal);
     setIsModalOpen(true);
@@ -146,13 +77,37 @@ export default function GoalsPage() {
               Track your long-term goals and milestones
             </p>
           </div>
-          <Button
-            onClick={handleAddGoal}
-            className="bg-gradient-to-r from-purple-500 to-pink-500 text-white font-bold px-6 h-12 rounded-2xl border-0 shadow-lg shadow-purple-500/20 hover:scale-105 transition-transform"
-          >
-            <Plus className="mr-2 h-5 w-5" />
-            New Goal
-          </Button>
+          <div className="flex items-center gap-3">
+            <div className="flex rounded-2xl bg-white/5 p-1 border border-white/10">
+              <button
+                onClick={() => setView("grid")}
+                className={cn(
+                  "h-10 w-10 rounded-xl flex items-center justify-center transition-all",
+                  view === "grid" ? "bg-purple-500 text-white" : "text-muted-foreground hover:text-foreground"
+                )}
+                title="Card view"
+              >
+                <LayoutGrid className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setView("timeline")}
+                className={cn(
+                  "h-10 w-10 rounded-xl flex items-center justify-center transition-all",
+                  view === "timeline" ? "bg-purple-500 text-white" : "text-muted-foreground hover:text-foreground"
+                )}
+                title="Timeline view"
+              >
+                <CalendarDays className="h-4 w-4" />
+              </button>
+            </div>
+            <Button
+              onClick={handleAddGoal}
+              className="bg-gradient-to-r from-purple-500 to-pink-500 text-white font-bold px-6 h-12 rounded-2xl border-0 shadow-lg shadow-purple-500/20 hover:scale-105 transition-transform"
+            >
+              <Plus className="mr-2 h-5 w-5" />
+              New Goal
+            </Button>
+          </div>
         </div>
 
         {loading ? (
@@ -178,6 +133,8 @@ export default function GoalsPage() {
               Create Your First Goal
             </Button>
           </div>
+        ) : view === "timeline" ? (
+          <GoalTimeline goals={goals} onGoalClick={handleEditGoal} />
         ) : (
           <div className="space-y-8">
             {/* Active Goals */}
@@ -191,10 +148,11 @@ export default function GoalsPage() {
                     <GoalCard
                       key={goal.id}
                       goal={goal}
+                      linkedTasks={getLinkedTasks(goal.id, tasks)}
                       onEdit={handleEditGoal}
                       onDelete={handleDeleteGoal}
-                      onToggleComplete={handleToggleComplete}
-                      onToggleMilestone={handleToggleMilestone}
+                      onToggleComplete={toggleGoalCompletion}
+                      onToggleMilestone={toggleMilestone}
                     />
                   ))}
                 </div>
@@ -212,10 +170,11 @@ export default function GoalsPage() {
                     <GoalCard
                       key={goal.id}
                       goal={goal}
+                      linkedTasks={getLinkedTasks(goal.id, tasks)}
                       onEdit={handleEditGoal}
                       onDelete={handleDeleteGoal}
-                      onToggleComplete={handleToggleComplete}
-                      onToggleMilestone={handleToggleMilestone}
+                      onToggleComplete={toggleGoalCompletion}
+                      onToggleMilestone={toggleMilestone}
                     />
                   ))}
                 </div>
@@ -14,6 +14,7 @@ import { SyncStatusIndicator, OfflineBanner } from "@/components/SyncStatusIndic
 import { Toaster } from "sonner";
 import { NotificationQueueManager } from "@/components/ActionableNotifications";
 import { PushNotificationManager } from "@/components/PushNotificationManager";
+import { StrictFocusGuard } from "@/components/focus/StrictFocusGuard";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -125,6 +126,7 @@ export default function RootLayout({
           <AIChat />
           <PWAInstallPrompt />
           <KeyboardShortcuts />
+          <StrictFocusGuard />
           {/* Legacy Offline Indicator (can be removed after migration) */}
           <OfflineIndicator />
           <Toaster richColors position="top-right" />
@@ -1,84 +1,127 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { Header } from "@/components/Header";
 import { BadgeList } from "@/components/achievements/BadgeList";
 import { LeaderboardList, LeaderboardUser } from "@/components/leaderboard/LeaderboardList";
 import { UserRankCard } from "@/components/leaderboard/UserRankCard";
-import { Trophy, Medal, Award } from "lucide-react";
-import { collection, getDocs, query, orderBy, limit } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { GroupsPanel } from "@/components/leaderboard/GroupsPanel";
+import { FriendsPanel } from "@/components/leaderboard/FriendsPanel";
+import { Button, cn } from "@/components/ui/Button";
+import { Trophy, Medal, Award, Users } from "lucide-react";
 import { useAuth } from "@/context/AuthContext";
+import { fetchGroups, fetchRankings, refreshLeaderboardScore } from "@/lib/apiClient";
+import type { LeaderboardScope } from "@/lib/leaderboardService";
+import type { Group } from "@/lib/socialService";
+import type { ScorePeriod } from "@/lib/statsUtils";
 
+const PAGE_SIZE = 20;
+
+const PERIOD_LABELS: Record<ScorePeriod, string> = {
+  all: "All Time",
+  week: "This Week",
+  month: "This Month",
+};
+
+interface Board {
+  scope: LeaderboardScope;
+  groupId?: string;
+}
 
 export default function LeaderboardPage() {
   const { user } = useAuth();
   const [leaderboardData, setLeaderboardData] = useState<LeaderboardUser[]>([]);
+  const [currentUserData, setCurrentUserData] = useState<LeaderboardUser | null>(null);
+  const [totalUsers, setTotalUsers] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const [board, setBoard] = useState<Board>({ scope: "global" });
+  const [period, setPeriod] = useState<ScorePeriod>("all");
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const scoreRefreshedRef = useRef(false);
+
+  // Fetch the user's groups
+  useEffect(() => {
+    if (!user) return;
+
+    fetchGroups()
+      .then(setGroups)
+      .catch(error => console.warn("Failed to load groups:", error));
+  }, [user]);
 
   // Fetch Leaderboard Data
   useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
     const fetchLeaderboard = async () => {
+      setLoading(true);
       try {
-        const usersRef = collection(db, "users");
-        // Create a query against the collection.
-        // NOTE: This requires an index in Firestore?
-        // Simple query: Order by score descending, limit 50
-        const q = query(usersRef, orderBy("score", "desc"), limit(50));
-        const querySnapshot = await getDocs(q);
-
-        const users: LeaderboardUser[] = [];
-        let rank = 1;
-
-        querySnapshot.forEach((doc) => {
-          const data = doc.data() as {
-            displayName?: string;
-            username?: string;
-            photoURL?: string;
-            score?: number;
-            streak?: number;
-            completionRate?: number;
-            totalCompleted?: number;
-            isPublic?: boolean;
-          };
-
-          const isPublic = data.isPublic ?? true; // Default to public
-
-          // Only include if public
-          if (isPublic) {
-            users.push({
-              name: data.displayName || "Anonymous",
-              username: data.username || "User",
-              avatar: data.photoURL,
-              rank: 0, // rank assigned after sort
-              isCurrentUser: user?.uid === doc.id,
-              streak: data.streak || 0,
-              completionRate: data.completionRate || 0,
-              totalCompleted: data.totalCompleted || 0,
-              score: data.score || 0,
-            });
-          }
-        });
-
-        // Re-sort and assign ranks (client-side sort ensures correctness after filter)
-        users.sort((a, b) => (b.score || 0) - (a.score || 0));
-        users.forEach((u, index) => u.rank = index + 1);
-
-        setLeaderboardData(users);
-      } catch (error: any) {
-        console.error("Error fetching leaderboard:", error);
-        if (error?.code === 'permission-denied') {
-          console.error("Check your Firestore Security Rules. You might need to deploy them: firebase deploy --only firestore");
+        // Bring the user's own score up to date first (scores are only written server-side)
+        if (!scoreRefreshedRef.current) {
+          scoreRefreshedRef.current = true;
+          await refreshLeaderboardScore().catch(error => {
+            console.warn("Leaderboard score refresh failed:", error);
+          });
         }
+
+        const result = await fetchRankings({ ...board, period, page: 1, limit: PAGE_SIZE });
+        if (cancelled) return;
+
+        setLeaderboardData(result.rankings);
+        setCurrentUserData(result.currentUser);
+        setTotalUsers(result.pagination.total);
+        setHasMore(result.pagination.hasMore);
+        setPage(1);
+      } catch (error) {
+        console.error("Error fetching leaderboard:", error);
+        if (!cancelled) setLeaderboardData([]);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     fetchLeaderboard();
-  }, [user]);
+    return () => {
+      cancelled = true;
+    };
+  }, [user, board, period, reloadKey]);
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const result = await fetchRankings({ ...board, period, page: page + 1, limit: PAGE_SIZE });
+      setLeaderboardData(prev => [...prev, ...result.rankings]);
+      setHasMore(result.pagination.hasMore);
+      setPage(page + 1);
+    } catch (error) {
+      console.error("Error fetching leaderboard:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleGroupsChange = (next: Group[]) => {
+    setGroups(next);
+    // Leaving the group on screen falls back to the global board
+    if (board.scope === "group" && !next.some(g => g.id === board.groupId)) {
+      setBoard({ scope: "global" });
+    }
+  };
+
+  const boardOptions: { key: string; label: string; board: Board }[] = [
+    { key: "global", label: "Global", board: { scope: "global" } },
+    { key: "friends", label: "Friends", board: { scope: "friends" } },
+    ...groups.map(group => ({ key: group.id, label: group.name, board: { scope: "group" as const, groupId: group.id } })),
+  ];
+  const activeKey = board.scope === "group" ? board.groupId : board.scope;
+  const boardName = boardOptions.find(option => option.key === activeKey)?.label || "Global";
+  const boardLabel = `${boardName} · ${PERIOD_LABELS[period]}`;
 
-  const currentUserData = leaderboardData.find(u => u.isCurrentUser);
   const currentUserRank = currentUserData?.rank || 0;
 
   return (
@@ -94,7 +137,7 @@ export default function LeaderboardPage() {
             <div>
               <h2 className="text-3xl font-bold tracking-tight text-foreground mb-1">Leaderboard</h2>
               <p className="text-muted-foreground">
-                Compete with other productivity enthusiasts
+                Compete with everyone, your friends or your groups, all time or this week
               </p>
             </div>
           </div>
@@ -103,7 +146,7 @@ export default function LeaderboardPage() {
         {/* User Rank Card */}
         {user && (
           <div className="mb-8">
-            <UserRankCard rank={currentUserRank || 0} totalUsers={leaderboardData.length || 0} />
+            <UserRankCard rank={currentUserRank} totalUsers={totalUsers} boardLabel={boardLabel} />
           </div>
         )}
 
@@ -116,13 +159,84 @@ export default function LeaderboardPage() {
             </h3>
           </div>
 
+          {/* Board & Period */}
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+            <div className="flex flex-wrap gap-2">
+              {boardOptions.map(option => (
+                <button
+                  key={option.key}
+                  onClick={() => setBoard(option.board)}
+                  className={cn(
+                    "px-4 py-1.5 rounded-full text-sm font-medium transition-colors max-w-[12rem] truncate",
+                    option.key === activeKey
+                      ? "bg-purple-500 text-white"
+                      : "bg-white/5 text-muted-foreground hover:bg-white/10"
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1 rounded-full bg-white/5 p-1 self-start">
+              {(Object.keys(PERIOD_LABELS) as ScorePeriod[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setPeriod(option)}
+                  className={cn(
+                    "px-3 py-1 rounded-full text-xs font-semibold transition-colors",
+                    option === period ? "bg-white/15 text-white" : "text-muted-foreground hover:text-white"
+                  )}
+                >
+                  {PERIOD_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {loading ? (
             <div className="text-center py-10 text-muted-foreground animate-pulse">Loading rankings...</div>
           ) : (
-            <LeaderboardList users={leaderboardData} currentUserRank={currentUserRank} />
+            <>
+              <LeaderboardList
+                users={leaderboardData}
+                currentUserRank={currentUserRank}
+                emptyMessage={board.scope === "friends"
+                  ? "Add friends with their friend code to compete with them"
+                  : "No one is ranked here yet"}
+              />
+              {hasMore && (
+                <div className="mt-4 flex justify-center">
+                  <Button variant="secondary" onClick={loadMore} disabled={loadingMore}>
+                    {loadingMore ? "Loading..." : "Show more"}
+                  </Button>
+                </div>
+              )}
+            </>
           )}
         </div>
 
+        {/* Friends & Groups */}
+        {user && (
+          <div className="mb-8">
+            <div className="flex items-center gap-2 mb-4">
+              <Users className="h-4 w-4 text-purple-400" />
+              <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest">
+                Friends & Groups
+              </h3>
+            </div>
+            <div className="grid gap-4 lg:grid-cols-2">
+              <FriendsPanel
+                onFriendsChange={() => board.scope === "friends" && setReloadKey(key => key + 1)}
+              />
+              <GroupsPanel
+                groups={groups}
+                onGroupsChange={handleGroupsChange}
+                onOpenGroup={(groupId) => setBoard({ scope: "group", groupId })}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Achievements Section */}
         <div className="mt-12">
           <div className="flex items-center gap-2 mb-4">
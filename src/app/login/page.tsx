@@ -9,6 +9,7 @@ import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { PublicHeader } from "@/components/PublicHeader";
 import { PublicFooter } from "@/components/PublicFooter";
+import { IS_DEMO_MODE } from "@/lib/demoMode";
 import { Mail, Lock, Chrome, ArrowRight, Loader2, AlertCircle } from "lucide-react";
 
 export default function LoginPage() {
@@ -17,7 +18,8 @@ export default function LoginPage() {
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { login, register, loginWithGoogle } = useAuth();
+  const [notice, setNotice] = useState<string | null>(null);
+  const { login, register, loginWithGoogle, sendPasswordReset } = useAuth();
   const router = useRouter();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -54,9 +56,29 @@ export default function LoginPage() {
     }
   };
 
+  const handleForgotPassword = async () => {
+    setError(null);
+    setNotice(null);
+    if (!email.trim()) {
+      setError("Enter your email or username first.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await sendPasswordReset(email);
+      setNotice(`If ${email.trim()} has an account, a reset link is on its way.`);
+    } catch (err) {
+      setError((err as Error).message || "Couldn't send a reset link. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const toggleMode = () => {
     setIsLogin(!isLogin);
     setError(null);
+    setNotice(null);
     setEmail("");
     setPassword("");
   };
@@ -92,16 +114,21 @@ export default function LoginPage() {
                   ? "Enter your credentials to access your account"
                   : "Join thousands of users mastering their routines"}
               </p>
+              {IS_DEMO_MODE && (
+                <p className="mt-4 rounded-xl bg-purple-500/10 border border-purple-500/20 px-4 py-2 text-sm text-purple-400">
+                  Demo mode: any username and password opens the sample account. Changes reset when you reload.
+                </p>
+              )}
             </div>
 
             <form onSubmit={handleSubmit} className="space-y-6">
               <div className="space-y-4">
                 <div className="space-y-2">
-                  <label className="text-sm font-medium text-muted-foreground ml-1">Email</label>
+                  <label className="text-sm font-medium text-muted-foreground ml-1">{isLogin ? "Email or username" : "Email"}</label>
                   <div className="relative">
                     <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground/50" />
                     <Input
-                      type="email"
+                      type={isLogin ? "text" : "email"}
                       placeholder="hello@example.com"
                       value={email}
                       onChange={(e) => setEmail(e.target.value)}
@@ -124,9 +151,23 @@ export default function LoginPage() {
                       required
                     />
                   </div>
+                  {isLogin && !IS_DEMO_MODE && (
+                    <button
+                      type="button"
+                      onClick={handleForgotPassword}
+                      disabled={loading}
+                      className="ml-1 text-xs font-medium text-purple-500 hover:text-purple-400 hover:underline"
+                    >
+                      Forgot password?
+                    </button>
+                  )}
                 </div>
               </div>
 
+              {notice && !error && (
+                <p className="p-3 text-sm text-green-500 bg-green-500/10 rounded-xl border border-green-500/20">{notice}</p>
+              )}
+
               <AnimatePresence>
                 {error && (
                   <motion.div
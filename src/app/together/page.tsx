@@ -0,0 +1,54 @@
+"use client";
+
+import React from "react";
+import { Header } from "@/components/Header";
+import { Handshake } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { useSharedRoutines } from "@/hooks/useSharedRoutines";
+import { SharedRoutineCard } from "@/components/together/SharedRoutineCard";
+import { SharedRoutineForm } from "@/components/together/SharedRoutineForm";
+
+export default function TogetherPage() {
+  const { user } = useAuth();
+  const { routines, loading } = useSharedRoutines();
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <Header />
+      <main className="container mx-auto max-w-4xl px-4 pt-6">
+        {/* Header Section */}
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <div className="p-3 bg-purple-500/10 rounded-2xl">
+              <Handshake className="h-8 w-8 text-purple-400" />
+            </div>
+            <div>
+              <h2 className="text-3xl font-bold tracking-tight text-foreground mb-1">Together</h2>
+              <p className="text-muted-foreground">
+                Share a routine with a partner, see each other&apos;s check-ins and keep a group streak
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_20rem]">
+          <div className="space-y-4">
+            {loading && user ? (
+              <div className="text-center py-10 text-muted-foreground animate-pulse">Loading shared routines...</div>
+            ) : routines.length === 0 ? (
+              <div className="rounded-3xl border border-dashed border-white/10 bg-white/[0.02] p-10 text-center text-muted-foreground">
+                No shared routines yet. Start one and send the invite code to your partner.
+              </div>
+            ) : (
+              routines.map(routine => (
+                <SharedRoutineCard key={routine.id} routine={routine} currentUserId={user?.uid || ""} />
+              ))
+            )}
+          </div>
+
+          {user && <SharedRoutineForm />}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { FileDown, ShieldCheck, Trash2, Undo2 } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { Button } from "@/components/ui/Button";
+import { useConfirm } from "@/components/ui/ConfirmDialog";
+import { ExportService } from "@/lib/ExportService";
+import { IS_DEMO_MODE } from "@/lib/demoMode";
+import type { AccountDeletion } from "@/lib/accountService";
+import {
+    cancelAccountDeletion,
+    fetchAccountDeletion,
+    fetchAccountExport,
+    scheduleAccountDeletion,
+} from "@/lib/apiClient";
+
+/**
+ * Download everything stored about the account, or delete it after a grace
+ * period that can be undone
+ */
+export const AccountPrivacy: React.FC = () => {
+    const { user } = useAuth();
+    const { confirm, ConfirmDialogComponent } = useConfirm();
+    const [deletion, setDeletion] = useState<AccountDeletion | null>(null);
+    const [graceDays, setGraceDays] = useState<number | null>(null);
+    const [pending, setPending] = useState<"export" | "delete" | "undo" | null>(null);
+
+    useEffect(() => {
+        if (IS_DEMO_MODE || !user) return;
+        let cancelled = false;
+        fetchAccountDeletion()
+            .then(result => {
+                if (cancelled) return;
+                setDeletion(result.deletion);
+                setGraceDays(result.graceDays);
+            })
+            .catch(error => console.error("Failed to load account deletion:", error));
+        return () => { cancelled = true; };
+    }, [user]);
+
+    if (IS_DEMO_MODE || !user) return null;
+
+    const handleExport = async () => {
+        setPending("export");
+        try {
+            const { json, filename } = await fetchAccountExport();
+            ExportService.downloadFile(json, filename, "application/json");
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't export your data");
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handleDelete = async () => {
+        const confirmed = await confirm({
+            title: "Delete your account?",
+            description: `Your account and everything in it (routines, goals, focus sessions, achievements, friends and group memberships) will be permanently deleted ${graceDays ? `after ${graceDays} days` : "after a grace period"}. Until then you can sign in and undo this.`,
+            confirmText: "Delete my account",
+            cancelText: "Keep my account",
+            type: "danger",
+        });
+        if (!confirmed) return;
+
+        setPending("delete");
+        try {
+            const scheduled = await scheduleAccountDeletion();
+            setDeletion(scheduled);
+            toast.success(`Your account will be deleted on ${format(parseISO(scheduled.deleteAfter), "MMMM d")}`);
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't schedule the deletion");
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handleUndo = async () => {
+        setPending("undo");
+        try {
+            await cancelAccountDeletion();
+            setDeletion(null);
+            toast.success("Your account won't be deleted");
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't cancel the deletion");
+        } finally {
+            setPending(null);
+        }
+    };
+
+    return (
+        <div className="rounded-3xl bg-card border border-border p-6">
+            {ConfirmDialogComponent}
+
+            {/* Header */}
+            <div className="flex items-center gap-3 mb-6">
+                <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-slate-500 to-slate-700 flex items-center justify-center">
+                    <ShieldCheck className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                    <h3 className="text-lg font-bold text-foreground">Your Data</h3>
+                    <p className="text-sm text-muted-foreground">Download everything we store about you, or delete your account</p>
+                </div>
+            </div>
+
+            {deletion && (
+                <div className="mb-4 rounded-2xl bg-red-500/10 border border-red-500/20 p-4">
+                    <p className="text-sm font-bold text-red-400">
+                        Your account will be deleted on {format(parseISO(deletion.deleteAfter), "EEEE, MMMM d")}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                        Everything in it goes with it. Changed your mind? Keep your account below.
+                    </p>
+                </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+                <Button variant="secondary" size="sm" onClick={handleExport} disabled={pending !== null} className="gap-2">
+                    <FileDown className="h-4 w-4" /> {pending === "export" ? "Preparing..." : "Download all my data"}
+                </Button>
+                {deletion ? (
+                    <Button variant="primary" size="sm" onClick={handleUndo} disabled={pending !== null} className="gap-2">
+                        <Undo2 className="h-4 w-4" /> {pending === "undo" ? "Restoring..." : "Keep my account"}
+                    </Button>
+                ) : (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleDelete}
+                        disabled={pending !== null}
+                        className="gap-2 text-red-400 hover:bg-red-500/10"
+                    >
+                        <Trash2 className="h-4 w-4" /> {pending === "delete" ? "Scheduling..." : "Delete account"}
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,163 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Chrome, KeyRound, LifeBuoy, Mail } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { Button } from "@/components/ui/Button";
+import { useConfirm } from "@/components/ui/ConfirmDialog";
+import { IS_DEMO_MODE } from "@/lib/demoMode";
+import { isUsernameEmail } from "@/lib/usernameAccounts";
+
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+    "auth/invalid-credential": "That password isn't right.",
+    "auth/wrong-password": "That password isn't right.",
+    "auth/invalid-email": "That doesn't look like an email address.",
+    "auth/email-already-in-use": "That email already belongs to another account.",
+    "auth/requires-recent-login": "Sign out and back in, then try again.",
+    "auth/provider-already-linked": "A Google account is already linked.",
+};
+
+const describeError = (error: unknown, fallback: string) => {
+    const { code, message } = error as { code?: string; message?: string };
+    return (code && AUTH_ERROR_MESSAGES[code]) || message || fallback;
+};
+
+/**
+ * Ways back into the account: a real email for username accounts, a linked
+ * Google sign-in, and password reset
+ */
+export const AccountRecovery: React.FC = () => {
+    const { user, linkEmail, linkGoogle, sendPasswordReset } = useAuth();
+    const { confirm, ConfirmDialogComponent } = useConfirm();
+    const [email, setEmail] = useState("");
+    const [password, setPassword] = useState("");
+    const [pending, setPending] = useState<"email" | "google" | "reset" | null>(null);
+    const [googleLinked, setGoogleLinked] = useState(
+        () => user?.providerData.some(p => p.providerId === "google.com") ?? false
+    );
+
+    if (IS_DEMO_MODE || !user) return null;
+
+    const hasRealEmail = !isUsernameEmail(user.email);
+    const hasPassword = user.providerData.some(p => p.providerId === "password");
+
+    const handleLinkEmail = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setPending("email");
+        try {
+            await linkEmail(email, password);
+            toast.success(`Check ${email.trim()} for a link to confirm it. You'll sign in with that email afterwards.`);
+            setEmail("");
+            setPassword("");
+        } catch (error) {
+            toast.error(describeError(error, "Couldn't attach that email"));
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handleLinkGoogle = async () => {
+        setPending("google");
+        try {
+            const result = await linkGoogle(() => confirm({
+                title: "Merge the Google account?",
+                description: "That Google account already has its own Routine Tracker account. Its routines, goals and history will move into this account, and the other account will be deleted.",
+                confirmText: "Merge accounts",
+                type: "danger",
+            }));
+            if (result === "cancelled") return;
+
+            setGoogleLinked(true);
+            toast.success(result === "merged"
+                ? "Accounts merged. You can now sign in with Google."
+                : "Google linked. You can now sign in with Google.");
+        } catch (error) {
+            if ((error as { code?: string }).code !== "auth/popup-closed-by-user") {
+                toast.error(describeError(error, "Couldn't link Google"));
+            }
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handlePasswordReset = async () => {
+        if (!user.email) return;
+        setPending("reset");
+        try {
+            await sendPasswordReset(user.email);
+            toast.success(`Password reset link sent to ${user.email}`);
+        } catch (error) {
+            toast.error(describeError(error, "Couldn't send the reset email"));
+        } finally {
+            setPending(null);
+        }
+    };
+
+    return (
+        <div className="rounded-3xl bg-card border border-border p-6">
+            {ConfirmDialogComponent}
+
+            {/* Header */}
+            <div className="flex items-center gap-3 mb-6">
+                <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-emerald-500 to-teal-500 flex items-center justify-center">
+                    <LifeBuoy className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                    <h3 className="text-lg font-bold text-foreground">Account Recovery</h3>
+                    <p className="text-sm text-muted-foreground">
+                        {hasRealEmail
+                            ? <>You sign in as <span className="font-semibold text-foreground">{user.email}</span></>
+                            : "Your account has no email, so a forgotten password can't be reset"}
+                    </p>
+                </div>
+            </div>
+
+            <div className="space-y-4">
+                {!hasRealEmail && hasPassword && (
+                    <form onSubmit={handleLinkEmail} className="space-y-2">
+                        <input
+                            type="email"
+                            required
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            placeholder="you@example.com"
+                            className="w-full rounded-xl bg-muted border border-border px-4 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                        />
+                        <input
+                            type="password"
+                            required
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            placeholder="Current password"
+                            className="w-full rounded-xl bg-muted border border-border px-4 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                        />
+                        <Button type="submit" variant="secondary" size="sm" disabled={pending !== null} className="gap-2">
+                            <Mail className="h-4 w-4" /> {pending === "email" ? "Sending link..." : "Attach email"}
+                        </Button>
+                        <p className="text-xs text-muted-foreground">
+                            Once you confirm it, sign in with this email instead of your username.
+                        </p>
+                    </form>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                    {googleLinked ? (
+                        <span className="inline-flex items-center gap-2 rounded-xl bg-muted px-3 py-2 text-xs font-medium text-muted-foreground">
+                            <Chrome className="h-4 w-4" /> Google linked
+                        </span>
+                    ) : (
+                        <Button variant="outline" size="sm" onClick={handleLinkGoogle} disabled={pending !== null} className="gap-2">
+                            <Chrome className="h-4 w-4" /> {pending === "google" ? "Linking..." : "Link Google account"}
+                        </Button>
+                    )}
+                    {hasRealEmail && hasPassword && (
+                        <Button variant="ghost" size="sm" onClick={handlePasswordReset} disabled={pending !== null} className="gap-2">
+                            <KeyRound className="h-4 w-4" /> {pending === "reset" ? "Sending..." : "Email me a password reset link"}
+                        </Button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,194 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { Copy, KeyRound, Plus, Trash2 } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { Button } from "@/components/ui/Button";
+import { useConfirm } from "@/components/ui/ConfirmDialog";
+import { IS_DEMO_MODE } from "@/lib/demoMode";
+import { API_TOKEN_EXPIRY_DAYS, API_TOKEN_SCOPES, ApiScope, ApiTokenInfo } from "@/lib/integrations";
+import { createApiToken, fetchApiTokens, revokeApiToken } from "@/lib/apiClient";
+
+const SCOPES = Object.entries(API_TOKEN_SCOPES) as [ApiScope, string][];
+
+/**
+ * Personal access tokens, for letting other tools read and check off tasks
+ * through /api/v1
+ */
+export const ApiTokens: React.FC = () => {
+    const { user } = useAuth();
+    const { confirm, ConfirmDialogComponent } = useConfirm();
+    const [tokens, setTokens] = useState<ApiTokenInfo[] | null>(null);
+    const [name, setName] = useState("");
+    const [scopes, setScopes] = useState<Set<ApiScope>>(() => new Set(["tasks:read"]));
+    const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+    const [newToken, setNewToken] = useState<string | null>(null);
+    const [pending, setPending] = useState(false);
+
+    useEffect(() => {
+        if (IS_DEMO_MODE || !user) return;
+        let cancelled = false;
+        fetchApiTokens()
+            .then(result => { if (!cancelled) setTokens(result); })
+            .catch(error => console.error("Failed to load API tokens:", error));
+        return () => { cancelled = true; };
+    }, [user]);
+
+    if (IS_DEMO_MODE || !user) return null;
+
+    const toggleScope = (scope: ApiScope) => {
+        setScopes(prev => {
+            const next = new Set(prev);
+            if (next.has(scope)) next.delete(scope);
+            else next.add(scope);
+            return next;
+        });
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setPending(true);
+        try {
+            const { token, info } = await createApiToken({ name, scopes: Array.from(scopes), expiresInDays });
+            setTokens(prev => [info, ...(prev ?? [])]);
+            setNewToken(token);
+            setName("");
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't create the token");
+        } finally {
+            setPending(false);
+        }
+    };
+
+    const handleRevoke = async (token: ApiTokenInfo) => {
+        const confirmed = await confirm({
+            title: `Revoke "${token.name}"?`,
+            description: "Anything using this token stops working straight away.",
+            confirmText: "Revoke",
+            type: "danger",
+        });
+        if (!confirmed) return;
+
+        try {
+            await revokeApiToken(token.id);
+            setTokens(prev => prev?.filter(t => t.id !== token.id) ?? null);
+            toast.success("Token revoked");
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't revoke the token");
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!newToken) return;
+        await navigator.clipboard.writeText(newToken);
+        toast.success("Token copied");
+    };
+
+    return (
+        <div className="rounded-3xl bg-card border border-border p-6">
+            {ConfirmDialogComponent}
+
+            {/* Header */}
+            <div className="flex items-center gap-3 mb-6">
+                <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-amber-500 to-orange-500 flex items-center justify-center">
+                    <KeyRound className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                    <h3 className="text-lg font-bold text-foreground">API Tokens</h3>
+                    <p className="text-sm text-muted-foreground">Let other apps read and check off your tasks</p>
+                </div>
+            </div>
+
+            {newToken && (
+                <div className="mb-4 rounded-2xl bg-amber-500/10 border border-amber-500/20 p-4 space-y-2">
+                    <p className="text-sm font-bold text-amber-400">Copy your token now. It won&apos;t be shown again.</p>
+                    <div className="flex items-center gap-2">
+                        <code className="flex-1 min-w-0 truncate rounded-lg bg-muted px-3 py-2 text-xs text-foreground">{newToken}</code>
+                        <Button variant="secondary" size="sm" onClick={handleCopy} className="gap-2">
+                            <Copy className="h-4 w-4" /> Copy
+                        </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        Send it as <code>Authorization: Bearer &lt;token&gt;</code> to the routes under /api/v1.
+                    </p>
+                    <Button variant="ghost" size="sm" onClick={() => setNewToken(null)}>Done</Button>
+                </div>
+            )}
+
+            <div className="space-y-4">
+                {tokens && tokens.length > 0 && (
+                    <ul className="space-y-2">
+                        {tokens.map(token => (
+                            <li key={token.id} className="flex items-center gap-3 rounded-xl bg-muted/50 border border-border px-3 py-2.5">
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-sm font-medium text-foreground truncate">
+                                        {token.name} <span className="text-xs text-muted-foreground font-mono">{token.hint}…</span>
+                                    </p>
+                                    <p className="text-[11px] text-muted-foreground truncate">
+                                        {token.scopes.join(", ")}
+                                        {" · "}
+                                        {token.lastUsedAt ? `used ${formatDistanceToNow(parseISO(token.lastUsedAt), { addSuffix: true })}` : "never used"}
+                                        {" · "}
+                                        {token.expiresAt ? `expires ${formatDistanceToNow(parseISO(token.expiresAt), { addSuffix: true })}` : "never expires"}
+                                    </p>
+                                </div>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleRevoke(token)}
+                                    aria-label={`Revoke ${token.name}`}
+                                    className="text-red-400 hover:bg-red-500/10"
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <form onSubmit={handleCreate} className="space-y-3">
+                    <input
+                        type="text"
+                        required
+                        maxLength={50}
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Token name, e.g. Fitness app"
+                        className="w-full rounded-xl bg-muted border border-border px-4 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                    />
+                    <div className="space-y-1.5">
+                        {SCOPES.map(([scope, description]) => (
+                            <label key={scope} className="flex items-center gap-3 text-sm text-foreground cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={scopes.has(scope)}
+                                    onChange={() => toggleScope(scope)}
+                                    className="accent-purple-500"
+                                />
+                                <span className="font-mono text-xs">{scope}</span>
+                                <span className="text-xs text-muted-foreground">{description}</span>
+                            </label>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <select
+                            value={expiresInDays ?? "never"}
+                            onChange={(e) => setExpiresInDays(e.target.value === "never" ? null : Number(e.target.value))}
+                            className="rounded-xl bg-muted border border-border px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                        >
+                            {API_TOKEN_EXPIRY_DAYS.map(days => (
+                                <option key={days} value={days}>Expires in {days} days</option>
+                            ))}
+                            <option value="never">Never expires</option>
+                        </select>
+                        <Button type="submit" variant="secondary" size="sm" disabled={pending || scopes.size === 0} className="gap-2">
+                            <Plus className="h-4 w-4" /> {pending ? "Creating..." : "Create token"}
+                        </Button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
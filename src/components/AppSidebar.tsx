@@ -15,7 +15,8 @@ import {
   LogOut,
   Award,
   LayoutTemplate,
-  Download
+  Download,
+  Handshake
 } from "lucide-react";
 import { Button } from "./ui/Button";
 import { clsx, type ClassValue } from "clsx";
@@ -53,6 +54,7 @@ const ITEMS = [
   { name: "Goals", href: "/goals", icon: Target },
   { name: "Analytics", href: "/analytics", icon: BarChart2 },
   { name: "Achievements", href: "/achievements", icon: Award },
+  { name: "Together", href: "/together", icon: Handshake },
   { name: "Leaderboard", href: "/leaderboard", icon: Trophy },
   { name: "Templates", href: "/marketplace", icon: LayoutTemplate },
 ];
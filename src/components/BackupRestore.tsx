@@ -0,0 +1,243 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useSync } from "@/context/SyncContext";
+import {
+    AccountBackup,
+    BackupData,
+    BackupService,
+    RestoreCollection,
+    RestoreIssue,
+    RestoreMode,
+} from "@/lib/BackupService";
+import { useConfirm } from "@/components/ui/ConfirmDialog";
+import { Button } from "@/components/ui/Button";
+import { ArchiveRestore, Upload, AlertTriangle, GitMerge, Replace, Loader2, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+
+const COLLECTION_LABELS: Record<RestoreCollection, string> = {
+    tasks: "Routines",
+    templates: "Templates",
+    goals: "Goals",
+    moods: "Mood entries",
+    focusSessions: "Focus sessions",
+};
+
+export const BackupRestore: React.FC = () => {
+    const { user } = useAuth();
+    const { addOperation } = useSync();
+    const { confirm, ConfirmDialogComponent } = useConfirm();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [fileName, setFileName] = useState("");
+    const [backup, setBackup] = useState<AccountBackup | null>(null);
+    const [invalid, setInvalid] = useState<RestoreIssue[]>([]);
+    const [current, setCurrent] = useState<BackupData | null>(null);
+    const [mode, setMode] = useState<RestoreMode>("merge");
+    const [isLoading, setIsLoading] = useState(false);
+
+    const plan = useMemo(
+        () => backup && current ? BackupService.planRestore(backup, current, mode) : null,
+        [backup, current, mode]
+    );
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = "";
+        if (!file || !user) return;
+
+        setIsLoading(true);
+        try {
+            const parsed = BackupService.parseBackup(await file.text());
+            // Compare against what's in the account right now, not the cached UI state
+            const snapshot = await BackupService.createBackup(user.uid);
+
+            setFileName(file.name);
+            setBackup(parsed.backup);
+            setInvalid(parsed.invalid);
+            setCurrent(snapshot.data);
+            setMode("merge");
+        } catch (error) {
+            console.error("Backup restore failed:", error);
+            toast.error(error instanceof Error ? error.message : "Couldn't read this backup");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const clearPreview = () => {
+        setBackup(null);
+        setCurrent(null);
+        setInvalid([]);
+        setFileName("");
+    };
+
+    const handleRestore = async () => {
+        if (!plan) return;
+
+        if (plan.mode === "replace") {
+            const removed = Object.values(plan.report.counts).reduce((sum, c) => sum + c.removed, 0);
+            const confirmed = await confirm({
+                title: "Replace your data with this backup?",
+                description: removed > 0
+                    ? `${removed} items that aren't in the backup will be deleted, and anything that differs will be overwritten.`
+                    : "Anything that differs from the backup will be overwritten.",
+                confirmText: "Replace",
+                cancelText: "Cancel",
+                type: "danger"
+            });
+            if (!confirmed) return;
+        }
+
+        plan.operations.forEach(op => addOperation(op.type, op.collection, op.documentId, op.data));
+        BackupService.applyLocalSettings(plan.localSettings);
+
+        toast.success(plan.operations.length > 0
+            ? `Restoring ${plan.operations.length} changes from ${fileName}`
+            : "Your account already matches this backup");
+        clearPreview();
+    };
+
+    return (
+        <div className="space-y-3">
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleFile}
+                className="hidden"
+            />
+
+            {!backup || !plan ? (
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isLoading}
+                    className="w-full flex items-center gap-4 p-4 rounded-2xl border bg-white/[0.02] border-white/10 hover:bg-white/5 hover:border-purple-500/30 transition-all"
+                >
+                    <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center shrink-0">
+                        {isLoading ? (
+                            <Loader2 className="h-5 w-5 text-white animate-spin" />
+                        ) : (
+                            <ArchiveRestore className="h-5 w-5 text-white" />
+                        )}
+                    </div>
+                    <div className="flex-1 text-left">
+                        <h4 className="font-bold text-foreground">Restore Backup</h4>
+                        <p className="text-xs text-muted-foreground">Bring back data from a JSON backup</p>
+                    </div>
+                    <Upload className="h-4 w-4 text-muted-foreground" />
+                </button>
+            ) : (
+                <div className="rounded-2xl border border-white/10 bg-white/[0.02] p-4 space-y-3">
+                    <div className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                            <h4 className="font-bold text-foreground truncate">{fileName}</h4>
+                            {backup.exportedAt && !isNaN(parseISO(backup.exportedAt).getTime()) && (
+                                <p className="text-xs text-muted-foreground">
+                                    Backed up {format(parseISO(backup.exportedAt), "MMM d, yyyy 'at' HH:mm")}
+                                </p>
+                            )}
+                        </div>
+                        <Button variant="ghost" size="icon" onClick={clearPreview} className="h-8 w-8 shrink-0">
+                            <X className="h-4 w-4" />
+                        </Button>
+                    </div>
+
+                    {/* Mode */}
+                    <div className="grid grid-cols-2 gap-2">
+                        {([
+                            { value: "merge", label: "Merge", hint: "Add what's missing", icon: GitMerge },
+                            { value: "replace", label: "Replace", hint: "Match the backup exactly", icon: Replace },
+                        ] as const).map(option => {
+                            const Icon = option.icon;
+                            return (
+                                <button
+                                    key={option.value}
+                                    onClick={() => setMode(option.value)}
+                                    className={`flex items-center gap-2 p-2.5 rounded-xl border text-left transition-all ${mode === option.value
+                                        ? "bg-purple-500/10 border-purple-500/30"
+                                        : "bg-white/[0.03] border-white/5 hover:bg-white/5"
+                                        }`}
+                                >
+                                    <Icon className={`h-4 w-4 shrink-0 ${mode === option.value ? "text-purple-400" : "text-muted-foreground"}`} />
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-foreground">{option.label}</p>
+                                        <p className="text-[11px] text-muted-foreground truncate">{option.hint}</p>
+                                    </div>
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    {/* Summary */}
+                    <div className="space-y-1.5">
+                        {(Object.keys(COLLECTION_LABELS) as RestoreCollection[]).map(name => {
+                            const counts = plan.report.counts[name];
+                            const parts = [
+                                counts.added > 0 && `+${counts.added} new`,
+                                counts.updated > 0 && `${counts.updated} updated`,
+                                counts.removed > 0 && `−${counts.removed} removed`,
+                            ].filter(Boolean);
+
+                            return (
+                                <div key={name} className="flex items-center justify-between text-xs">
+                                    <span className="text-muted-foreground">{COLLECTION_LABELS[name]}</span>
+                                    <span className={parts.length > 0 ? "text-foreground font-medium" : "text-muted-foreground"}>
+                                        {parts.length > 0 ? parts.join(" · ") : "No changes"}
+                                    </span>
+                                </div>
+                            );
+                        })}
+                        {plan.report.restoresAchievements && (
+                            <p className="text-xs text-muted-foreground">Level, XP and achievements will be restored</p>
+                        )}
+                        {plan.report.restoresSettings && (
+                            <p className="text-xs text-muted-foreground">Settings will be restored</p>
+                        )}
+                    </div>
+
+                    {/* Conflicts and skipped items */}
+                    {(plan.report.conflicts.length > 0 || invalid.length > 0) && (
+                        <div className="max-h-48 overflow-y-auto space-y-2 pr-1">
+                            {plan.report.conflicts.map(issue => (
+                                <div
+                                    key={`${issue.collection}-${issue.id}`}
+                                    className="p-2.5 rounded-xl bg-white/[0.03] border border-white/5"
+                                >
+                                    <p className="text-sm font-medium text-foreground truncate">{issue.label}</p>
+                                    <p className="text-[11px] text-muted-foreground">
+                                        {COLLECTION_LABELS[issue.collection]} · {issue.detail}
+                                    </p>
+                                </div>
+                            ))}
+
+                            {invalid.map((issue, index) => (
+                                <div
+                                    key={`invalid-${index}`}
+                                    className="flex items-center gap-3 p-2.5 rounded-xl bg-amber-500/5 border border-amber-500/10"
+                                >
+                                    <AlertTriangle className="h-4 w-4 text-amber-400 shrink-0" />
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-muted-foreground truncate">{issue.label}</p>
+                                        <p className="text-[11px] text-amber-400/80">Skipped: {issue.detail}</p>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <Button
+                        onClick={handleRestore}
+                        className={`w-full border-0 text-white ${mode === "replace" ? "bg-red-500 hover:bg-red-600" : "bg-purple-500 hover:bg-purple-600"}`}
+                    >
+                        {mode === "replace" ? "Replace with backup" : "Merge backup"}
+                    </Button>
+                </div>
+            )}
+
+            {ConfirmDialogComponent}
+        </div>
+    );
+};
@@ -3,9 +3,13 @@
 import React, { useState } from "react";
 import { useTask } from "@/context/TaskContext";
 import { useGoal } from "@/context/GoalContext";
+import { useAuth } from "@/context/AuthContext";
 import { ExportService } from "@/lib/ExportService";
-import { Download, FileText, FileSpreadsheet, FileJson, Calendar, Loader2, CheckCircle } from "lucide-react";
+import { BackupService } from "@/lib/BackupService";
+import { Download, FileText, FileSpreadsheet, FileJson, Calendar, CalendarDays, Loader2, CheckCircle } from "lucide-react";
 import { Button } from "@/components/ui/Button";
+import { CalendarImport } from "@/components/tasks/CalendarImport";
+import { BackupRestore } from "@/components/BackupRestore";
 
 interface ExportModalProps {
     isOpen: boolean;
@@ -13,13 +17,14 @@ interface ExportModalProps {
 }
 
 export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
+    const { user } = useAuth();
     const { tasks } = useTask();
     const { goals } = useGoal();
     const [periodDays, setPeriodDays] = useState(30);
     const [isExporting, setIsExporting] = useState<string | null>(null);
     const [exportSuccess, setExportSuccess] = useState<string | null>(null);
 
-    const handleExport = async (type: "csv" | "text" | "json") => {
+    const handleExport = async (type: "csv" | "text" | "json" | "ics") => {
         setIsExporting(type);
 
         try {
@@ -34,7 +39,10 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
                     ExportService.downloadText(tasks, goals, periodDays);
                     break;
                 case "json":
-                    ExportService.downloadJSON(tasks, goals);
+                    if (user) await BackupService.downloadBackup(user.uid);
+                    break;
+                case "ics":
+                    ExportService.downloadICS(tasks);
                     break;
             }
 
@@ -67,9 +75,16 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
         {
             id: "json",
             label: "JSON Backup",
-            description: "Full data backup for restoration",
+            description: "Everything in your account, restorable later",
             icon: FileJson,
             color: "from-purple-500 to-pink-500"
+        },
+        {
+            id: "ics",
+            label: "Calendar (.ics)",
+            description: "Subscribe to your routines in any calendar app",
+            icon: CalendarDays,
+            color: "from-amber-500 to-orange-500"
         }
     ];
 
@@ -82,7 +97,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
             />
 
             {/* Modal */}
-            <div className="relative z-10 w-full max-w-md mx-4 rounded-3xl bg-card border border-border shadow-2xl overflow-hidden">
+            <div className="relative z-10 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto rounded-3xl bg-card border border-border shadow-2xl">
                 {/* Header */}
                 <div className="p-6 border-b border-border">
                     <div className="flex items-center gap-3">
@@ -152,6 +167,12 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
                     })}
                 </div>
 
+                {/* Imports */}
+                <div className="px-6 pb-6 space-y-3">
+                    <CalendarImport />
+                    <BackupRestore />
+                </div>
+
                 {/* Stats Preview */}
                 <div className="p-4 border-t border-border bg-white/[0.02]">
                     <div className="grid grid-cols-3 gap-4 text-center">
@@ -225,7 +225,13 @@ export const NotificationManager: React.FC = () => {
 
                     if (reminder.delivered) continue;
 
-                    if (reminder.reminderTime <= currentTime && !notifiedTasks.current.has(reminderDoc.id)) {
+                    // reminderAt is absolute, so reminders that fall the evening before still fire;
+                    // older schedules only have the HH:mm time
+                    const isDue = reminder.reminderAt
+                        ? new Date(reminder.reminderAt) <= now
+                        : reminder.reminderTime <= currentTime;
+
+                    if (isDue && !notifiedTasks.current.has(reminderDoc.id)) {
                         showNotification(
                             `⏰ Upcoming: ${reminder.taskTitle}`,
                             `${reminder.taskIcon} Starting at ${reminder.startTime}`,
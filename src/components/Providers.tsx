@@ -20,8 +20,8 @@ export const Providers: React.FC<{ children: React.ReactNode }> = ({ children })
       <AuthProvider>
         <SyncProvider>
           <UIProvider>
-            <GoalProvider>
-              <TaskProvider>
+            <TaskProvider>
+              <GoalProvider>
                 <AnalyticsProvider>
                   <AchievementsProvider>
                     <FocusProvider>
@@ -35,8 +35,8 @@ export const Providers: React.FC<{ children: React.ReactNode }> = ({ children })
                     </FocusProvider>
                   </AchievementsProvider>
                 </AnalyticsProvider>
-              </TaskProvider>
-            </GoalProvider>
+              </GoalProvider>
+            </TaskProvider>
           </UIProvider>
         </SyncProvider>
       </AuthProvider>
@@ -1,15 +1,21 @@
 "use client";
 
-import React, { useRef, useState, useEffect } from "react";
+import React, { useState, useEffect } from "react";
 import { Modal } from "./ui/Modal";
 import { Button } from "./ui/Button";
-import { useTask } from "@/context/TaskContext";
 import { useAuth } from "@/context/AuthContext";
 import { useAI, AIPlatform } from "@/context/AIContext";
-import { Bell, Download, Upload, Trash2, LogOut, ShieldAlert, Database, Bot, Sparkles } from "lucide-react";
+import { Bell, Download, LogOut, ShieldAlert, Database, Bot, Sparkles } from "lucide-react";
 import { db } from "@/lib/firebase";
-import { doc, writeBatch, getDoc, updateDoc } from "firebase/firestore";
-import { useConfirm } from "./ui/ConfirmDialog";
+import { doc, getDoc, updateDoc } from "firebase/firestore";
+import { VacationMode } from "./tasks/VacationMode";
+import { TimezoneSettings } from "./TimezoneSettings";
+import { AccountRecovery } from "./AccountRecovery";
+import { AccountPrivacy } from "./AccountPrivacy";
+import { ApiTokens } from "./ApiTokens";
+import { Webhooks } from "./Webhooks";
+import { BackupRestore } from "./BackupRestore";
+import { BackupService } from "@/lib/BackupService";
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -17,11 +23,8 @@ interface SettingsModalProps {
 }
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
-  const { tasks, templates, replaceAllTasks } = useTask();
   const { user, logout } = useAuth();
   const { aiEnabled, setAiEnabled, aiPlatform, setAiPlatform } = useAI();
-  const { confirm, ConfirmDialogComponent } = useConfirm();
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const [isPublic, setIsPublic] = React.useState(true);
 
   React.useEffect(() => {
@@ -41,92 +44,14 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
     }
   };
 
-  const handleBackup = () => {
-    const data = {
-      tasks,
-      templates,
-      version: 1,
-      exportedAt: new Date().toISOString(),
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `rt-backup-${new Date().toISOString().split("T")[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
-
-  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file || !user) return;
-
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      try {
-        const data = JSON.parse(event.target?.result as string);
-        if (data.tasks || data.templates) {
-          const confirmed = await confirm({
-            title: "Restore backup data?",
-            description: "This will overwrite all your current cloud data with the data from this backup file. This action cannot be undone.",
-            confirmText: "Restore Data",
-            cancelText: "Cancel",
-            type: "warning"
-          });
-
-          if (confirmed) {
-            if (Array.isArray(data.tasks)) {
-              await replaceAllTasks(data.tasks);
-            }
-
-            if (data.templates && typeof data.templates === 'object') {
-              const batch = writeBatch(db);
-              Object.entries(data.templates).forEach(([name, tList]) => {
-                const ref = doc(db, "users", user.uid, "templates", name);
-                batch.set(ref, { tasks: tList });
-              });
-              await batch.commit();
-            }
-            onClose();
-          }
-        }
-      } catch (err) {
-        console.error(err);
-      }
-    };
-    reader.readAsText(file);
-    if (fileInputRef.current) fileInputRef.current.value = "";
-  };
-
-  const handleClearData = async () => {
+  const handleBackup = async () => {
     if (!user) return;
-
-    const confirmed = await confirm({
-      title: "Clear ALL cloud data?",
-      description: "This will permanently delete all your tasks and templates from the cloud. This action cannot be undone and your data will be lost forever.",
-      confirmText: "Delete Everything",
-      cancelText: "Keep My Data",
-      type: "danger"
-    });
-
-    if (confirmed) {
-      try {
-        const batch = writeBatch(db);
-        tasks.forEach(t => {
-          batch.delete(doc(db, "users", user.uid, "tasks", t.id));
-        });
-        Object.keys(templates).forEach(name => {
-          batch.delete(doc(db, "users", user.uid, "templates", name));
-        });
-        await batch.commit();
-        onClose();
-      } catch (error) {
-        console.error(error);
-      }
+    try {
+      await BackupService.downloadBackup(user.uid);
+    } catch (error) {
+      console.error("Backup failed:", error);
     }
-  }
+  };
 
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>("default");
   const [areNotificationsEnabled, setAreNotificationsEnabled] = useState(false);
@@ -277,10 +202,22 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
           </SettingSection>
         </SettingSection>
 
+        <VacationMode />
+
+        <TimezoneSettings />
+
+        <AccountRecovery />
+
+        <ApiTokens />
+
+        <Webhooks />
+
+        <AccountPrivacy />
+
         <SettingSection
           icon={Database}
           title="Data Management"
-          description="Manage your routine data. Export for backup or restore from a previous save."
+          description="Back up everything in your account, or restore from a previous backup."
         >
           <Button
             className="rounded-2xl bg-muted hover:bg-muted-foreground/20 text-foreground border-0 px-6 gap-2"
@@ -288,25 +225,15 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
           >
             <Download className="h-4 w-4" /> Export
           </Button>
-          <Button
-            className="rounded-2xl bg-muted hover:bg-muted-foreground/20 text-foreground border-0 px-6 gap-2"
-            onClick={() => fileInputRef.current?.click()}
-          >
-            <Upload className="h-4 w-4" /> Import
-          </Button>
-          <input
-            type="file"
-            accept=".json"
-            className="hidden"
-            ref={fileInputRef}
-            onChange={handleRestore}
-          />
+          <div className="w-full">
+            <BackupRestore />
+          </div>
         </SettingSection>
 
         <SettingSection
           icon={ShieldAlert}
           title="Account & Safety"
-          description="Manage your account session and sensitive data. Actions here may be permanent."
+          description="Manage your profile visibility and your account session."
         >
           {/* Public Profile Toggle */}
           <div className="w-full flex items-center justify-between p-2 rounded-xl bg-purple-500/5 mb-2">
@@ -317,12 +244,6 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
             <ToggleSwitch enabled={isPublic} onChange={togglePublicProfile} />
           </div>
 
-          <Button
-            className="rounded-2xl bg-red-500/10 hover:bg-red-500/20 text-red-400 border-0 px-6 gap-2 font-bold"
-            onClick={handleClearData}
-          >
-            <Trash2 className="h-4 w-4" /> Clear Cloud Data
-          </Button>
           <Button
             className="rounded-2xl bg-muted hover:bg-muted-foreground/20 text-foreground border-0 px-6 gap-2"
             onClick={() => logout()}
@@ -337,7 +258,6 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
           </p>
         </div>
       </div>
-      {ConfirmDialogComponent}
     </Modal>
   );
 };
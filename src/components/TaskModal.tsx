@@ -5,8 +5,16 @@ import { Modal } from "./ui/Modal";
 import { Button } from "./ui/Button";
 import { Input } from "./ui/Input";
 import { Task, TimeBlock as TimeBlockType, useTask } from "@/context/TaskContext";
-import { Trash2, Clock, Calendar, Bell, Smile, Copy, Check } from "lucide-react";
+import { useGoal } from "@/context/GoalContext";
+import { Trash2, Clock, Calendar, Bell, Smile, Copy, Check, Target } from "lucide-react";
 import { format } from "date-fns";
+import {
+  RecurrenceFrequency,
+  TaskRecurrence,
+  WeekdayCode,
+  describeRecurrence,
+  getRecurrenceWeekdays
+} from "@/lib/recurrenceUtils";
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
 
@@ -33,6 +41,20 @@ const REMINDERS = [
   { label: "1h before", value: "1h" },
 ];
 
+const FREQUENCIES: { label: string; value: RecurrenceFrequency; unit: string }[] = [
+  { label: "Daily", value: "daily", unit: "days" },
+  { label: "Weekly", value: "weekly", unit: "weeks" },
+  { label: "Monthly", value: "monthly", unit: "months" },
+  { label: "Yearly", value: "yearly", unit: "years" },
+];
+const WEEK_POSITIONS = [
+  { label: "1st", value: 1 },
+  { label: "2nd", value: 2 },
+  { label: "3rd", value: 3 },
+  { label: "4th", value: 4 },
+  { label: "Last", value: -1 },
+];
+
 // Emoji icons for quick selection
 const TASK_ICONS = [
   "📝", "💼", "💻", "📚", "🏃", "🧘", "💪", "🍽️", "☕", "🛏️",
@@ -59,6 +81,7 @@ function getCurrentDayAbbr(): string {
 
 const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, taskToEdit, defaultDay, specificDate }) => {
   const { addTask, updateTask, deleteTask } = useTask();
+  const { goals } = useGoal();
 
   const [title, setTitle] = useState("");
   const [icon, setIcon] = useState("📝");
@@ -67,8 +90,25 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, taskToEdit, defa
   const [timeBlock, setTimeBlock] = useState<TimeBlockType>("Morning");
   const [selectedDays, setSelectedDays] = useState<string[]>([]);
   const [reminder, setReminder] = useState("");
+  const [goalId, setGoalId] = useState("");
   const [showIconPicker, setShowIconPicker] = useState(false);
 
+  // Custom recurrence (RRULE-style); "days" keeps the plain weekday picker
+  const [repeatMode, setRepeatMode] = useState<"days" | "custom">("days");
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>("weekly");
+  const [repeatInterval, setRepeatInterval] = useState(1);
+  const [recurrenceStart, setRecurrenceStart] = useState("");
+  const [monthlyMode, setMonthlyMode] = useState<"dayOfMonth" | "weekday">("dayOfMonth");
+  const [dayOfMonth, setDayOfMonth] = useState(1);
+  const [nthWeek, setNthWeek] = useState(1);
+  const [nthDay, setNthDay] = useState<WeekdayCode>("MON");
+  const [endMode, setEndMode] = useState<"never" | "until" | "count">("never");
+  const [until, setUntil] = useState("");
+  const [count, setCount] = useState(10);
+
+  // Completed goals can't be linked anymore, but an existing link stays visible
+  const linkableGoals = goals.filter(g => !g.isCompleted || g.id === goalId);
+
   const resetForm = () => {
     setTitle("");
     setIcon("📝");
@@ -82,9 +122,25 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, taskToEdit, defa
     setTimeBlock(getTimeBlockFromTime(defaultStartTime));
     setSelectedDays([getCurrentDayAbbr()]); // Default to current day only
     setReminder("");
+    setGoalId("");
     setShowIconPicker(false);
   };
 
+  function loadRecurrence(rule: TaskRecurrence | undefined) {
+    const today = new Date();
+    setRepeatMode(rule ? "custom" : "days");
+    setFrequency(rule?.frequency ?? "weekly");
+    setRepeatInterval(rule?.interval ?? 1);
+    setRecurrenceStart(rule?.startDate ?? format(today, "yyyy-MM-dd"));
+    setMonthlyMode(rule?.weekdayOfMonth ? "weekday" : "dayOfMonth");
+    setDayOfMonth(rule?.dayOfMonth ?? today.getDate());
+    setNthWeek(rule?.weekdayOfMonth?.week ?? 1);
+    setNthDay(rule?.weekdayOfMonth?.day ?? (getCurrentDayAbbr() as WeekdayCode));
+    setEndMode(rule?.until ? "until" : rule?.count ? "count" : "never");
+    setUntil(rule?.until ?? "");
+    setCount(rule?.count ?? 10);
+  }
+
   useEffect(() => {
     if (taskToEdit) {
       setTitle(taskToEdit.title);
@@ -94,6 +150,8 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, taskToEdit, defa
       setTimeBlock(taskToEdit.timeBlock);
       setSelectedDays(taskToEdit.days);
       setReminder(taskToEdit.reminder || "");
+      setGoalId(taskToEdit.goalId || "");
+      loadRecurrence(taskToEdit.recurrence);
     } else {
       // Reset form and use defaultDay if provided
       setTitle("");
@@ -107,7 +165,9 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, taskToEdit, defa
       setTimeBlock(getTimeBlockFromTime(defaultStartTime));
       setSelectedDays(defaultDay ? [defaultDay] : [getCurrentDayAbbr()]);
       setReminder("");
+      setGoalId("");
       setShowIconPicker(false);
+      loadRecurrence(undefined);
     }
   }, [taskToEdit, isOpen, defaultDay]);
 
@@ -118,6 +178,29 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, taskToEdit, defa
     }
   }, [startTime, taskToEdit]);
 
+  const buildRecurrence = (): TaskRecurrence | undefined => {
+    if (repeatMode !== "custom") return undefined;
+
+    const rule: TaskRecurrence = {
+      frequency,
+      interval: Math.max(1, Math.round(repeatInterval) || 1),
+      startDate: recurrenceStart || format(new Date(), "yyyy-MM-dd"),
+    };
+    if (frequency === "weekly" && selectedDays.length > 0) {
+      rule.byDay = selectedDays as WeekdayCode[];
+    }
+    if (frequency === "monthly") {
+      if (monthlyMode === "weekday") rule.weekdayOfMonth = { day: nthDay, week: nthWeek };
+      else rule.dayOfMonth = dayOfMonth;
+    }
+    if (endMode === "until" && until) rule.until = until;
+    if (endMode === "count") rule.count = Math.max(1, Math.round(count) || 1);
+
+    return rule;
+  };
+
+  const recurrence = buildRecurrence();
+
   const handleSave = () => {
     if (!title || !startTime) return;
 
@@ -135,9 +218,14 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, taskToEdit, defa
       startTime,
       endTime: finalEndTime,
       timeBlock,
-      days: selectedDays.length > 0 ? selectedDays : [getCurrentDayAbbr()],
+      days: recurrence
+        ? getRecurrenceWeekdays(recurrence)
+        : selectedDays.length > 0 ? selectedDays : [getCurrentDayAbbr()],
+      recurrence,
       reminder: reminder || undefined,
-      specificDate: specificDate || undefined // Save specific date if provided
+      goalId: goalId || undefined,
+      // Save specific date if provided (editing keeps the task's own date)
+      specificDate: specificDate || taskToEdit?.specificDate || undefined
     };
 
     if (taskToEdit) {
@@ -312,7 +400,7 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, taskToEdit, defa
         </div>
 
         {/* Days Selection - HIDDEN if specificDate is set */}
-        {!specificDate && (
+        {!specificDate && !taskToEdit?.specificDate && (
           <div className="neu-convex p-6 rounded-[2rem] bg-white/[0.02] space-y-4">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3 text-purple-400">
@@ -321,11 +409,171 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, taskToEdit, defa
                 </div>
                 <span className="text-xs font-bold uppercase tracking-widest">Repeat On</span>
               </div>
-              <span className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
-                Today: <span className="text-purple-400">{getCurrentDayAbbr()}</span>
-              </span>
+              <div className="flex gap-1">
+                {(["days", "custom"] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setRepeatMode(mode)}
+                    className={cn(
+                      "px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all",
+                      repeatMode === mode
+                        ? "neu-concave text-purple-400"
+                        : "neu-flat text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    {mode === "days" ? "Weekdays" : "Custom"}
+                  </button>
+                ))}
+              </div>
             </div>
 
+            {repeatMode === "custom" && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-sm text-muted-foreground">Every</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={repeatInterval}
+                    onChange={(e) => setRepeatInterval(Number(e.target.value))}
+                    className="h-11 w-20 rounded-xl neu-concave border-0 bg-transparent text-center"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {FREQUENCIES.map((f) => (
+                      <button
+                        key={f.value}
+                        type="button"
+                        onClick={() => setFrequency(f.value)}
+                        className={cn(
+                          "px-3 py-2 rounded-xl text-xs font-bold transition-all",
+                          frequency === f.value
+                            ? "neu-concave text-purple-500"
+                            : "neu-flat text-muted-foreground hover:text-purple-400"
+                        )}
+                      >
+                        {repeatInterval > 1 ? f.unit : f.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-muted-foreground w-16">Starting</span>
+                  <Input
+                    type="date"
+                    value={recurrenceStart}
+                    onChange={(e) => setRecurrenceStart(e.target.value)}
+                    className="h-11 rounded-xl neu-concave border-0 bg-transparent"
+                  />
+                </div>
+
+                {frequency === "monthly" && (
+                  <div className="space-y-3">
+                    <div className="flex gap-2">
+                      {(["dayOfMonth", "weekday"] as const).map((mode) => (
+                        <button
+                          key={mode}
+                          type="button"
+                          onClick={() => setMonthlyMode(mode)}
+                          className={cn(
+                            "flex-1 py-2 rounded-xl text-xs font-bold transition-all",
+                            monthlyMode === mode
+                              ? "neu-concave text-purple-500"
+                              : "neu-flat text-muted-foreground hover:text-purple-400"
+                          )}
+                        >
+                          {mode === "dayOfMonth" ? "Day of month" : "Weekday of month"}
+                        </button>
+                      ))}
+                    </div>
+                    {monthlyMode === "dayOfMonth" ? (
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm text-muted-foreground">On day</span>
+                        <select
+                          value={dayOfMonth}
+                          onChange={(e) => setDayOfMonth(Number(e.target.value))}
+                          className="h-11 rounded-xl neu-concave border-0 bg-transparent px-3 text-sm"
+                        >
+                          {Array.from({ length: 31 }, (_, i) => i + 1).map((d) => (
+                            <option key={d} value={d}>{d}</option>
+                          ))}
+                          <option value={-1}>Last day</option>
+                        </select>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm text-muted-foreground">On the</span>
+                        <select
+                          value={nthWeek}
+                          onChange={(e) => setNthWeek(Number(e.target.value))}
+                          className="h-11 rounded-xl neu-concave border-0 bg-transparent px-3 text-sm"
+                        >
+                          {WEEK_POSITIONS.map((p) => (
+                            <option key={p.value} value={p.value}>{p.label}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={nthDay}
+                          onChange={(e) => setNthDay(e.target.value as WeekdayCode)}
+                          className="h-11 rounded-xl neu-concave border-0 bg-transparent px-3 text-sm"
+                        >
+                          {DAYS.map((d) => (
+                            <option key={d} value={d}>{d}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-sm text-muted-foreground w-16">Ends</span>
+                  {(["never", "until", "count"] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setEndMode(mode)}
+                      className={cn(
+                        "px-3 py-2 rounded-xl text-xs font-bold transition-all",
+                        endMode === mode
+                          ? "neu-concave text-purple-500"
+                          : "neu-flat text-muted-foreground hover:text-purple-400"
+                      )}
+                    >
+                      {mode === "never" ? "Never" : mode === "until" ? "On date" : "After"}
+                    </button>
+                  ))}
+                  {endMode === "until" && (
+                    <Input
+                      type="date"
+                      value={until}
+                      min={recurrenceStart || undefined}
+                      onChange={(e) => setUntil(e.target.value)}
+                      className="h-11 rounded-xl neu-concave border-0 bg-transparent"
+                    />
+                  )}
+                  {endMode === "count" && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        value={count}
+                        onChange={(e) => setCount(Number(e.target.value))}
+                        className="h-11 w-20 rounded-xl neu-concave border-0 bg-transparent text-center"
+                      />
+                      <span className="text-sm text-muted-foreground">times</span>
+                    </div>
+                  )}
+                </div>
+
+                {recurrence && (
+                  <p className="text-xs font-bold text-purple-400">{describeRecurrence(recurrence)}</p>
+                )}
+              </div>
+            )}
+
+            {(repeatMode === "days" || frequency === "weekly") && (
             <div className="flex flex-wrap gap-2">
               {DAYS.map((day) => (
                 <button
@@ -343,6 +591,49 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, taskToEdit, defa
                 </button>
               ))}
             </div>
+            )}
+          </div>
+        )}
+
+        {/* Goal Link */}
+        {linkableGoals.length > 0 && (
+          <div className="neu-convex p-6 rounded-[2rem] bg-white/[0.02] space-y-4">
+            <div className="flex items-center gap-3 text-emerald-400">
+              <div className="h-8 w-8 rounded-lg bg-emerald-500/20 flex items-center justify-center">
+                 <Target className="w-4 h-4" />
+              </div>
+              <span className="text-xs font-bold uppercase tracking-widest">Contributes To Goal</span>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => setGoalId("")}
+                className={cn(
+                  "px-4 py-2.5 rounded-xl text-xs font-bold transition-all",
+                  goalId === ""
+                    ? "neu-concave text-emerald-500"
+                    : "neu-flat hover:neu-convex text-muted-foreground hover:text-emerald-400"
+                )}
+              >
+                None
+              </button>
+              {linkableGoals.map(goal => (
+                <button
+                  key={goal.id}
+                  type="button"
+                  onClick={() => setGoalId(goal.id)}
+                  className={cn(
+                    "px-4 py-2.5 rounded-xl text-xs font-bold transition-all",
+                    goalId === goal.id
+                      ? "neu-concave text-emerald-500"
+                      : "neu-flat hover:neu-convex text-muted-foreground hover:text-emerald-400"
+                  )}
+                >
+                  {goal.icon || "🎯"} {goal.title}
+                </button>
+              ))}
+            </div>
           </div>
         )}
 
@@ -381,7 +672,8 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, taskToEdit, defa
                    startTime,
                    endTime,
                    timeBlock,
-                   days: selectedDays,
+                   days: recurrence ? getRecurrenceWeekdays(recurrence) : selectedDays,
+                   recurrence,
                    reminder: reminder || undefined
                  };
                  addTask(copiedData);
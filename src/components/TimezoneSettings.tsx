@@ -0,0 +1,61 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { useTask } from "@/context/TaskContext";
+import { Globe, LocateFixed } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { getLocalTimeString, getSystemTimezone } from "@/lib/timezoneUtils";
+
+export const TimezoneSettings: React.FC = () => {
+    const { timezone, setTimezone } = useTask();
+
+    const deviceTimezone = useMemo(() => getSystemTimezone(), []);
+    const timezoneOptions = useMemo(() => {
+        const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+        // Keep the saved zone selectable even if this browser doesn't list it (e.g. "UTC")
+        return Array.from(new Set([timezone, deviceTimezone, ...zones])).sort();
+    }, [timezone, deviceTimezone]);
+
+    return (
+        <div className="rounded-3xl bg-card border border-border p-6">
+            {/* Header */}
+            <div className="flex items-center gap-3 mb-6">
+                <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-indigo-500 to-purple-500 flex items-center justify-center">
+                    <Globe className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                    <h3 className="text-lg font-bold text-foreground">Timezone</h3>
+                    <p className="text-sm text-muted-foreground">Reminders, streaks and weekly summaries follow your local day</p>
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                <select
+                    value={timezone}
+                    onChange={(e) => setTimezone(e.target.value)}
+                    className="w-full rounded-xl bg-muted border border-border px-4 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                >
+                    {timezoneOptions.map(zone => (
+                        <option key={zone} value={zone}>{zone.replace(/_/g, " ")}</option>
+                    ))}
+                </select>
+
+                <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs text-muted-foreground">
+                        It&apos;s {getLocalTimeString(timezone)} there now
+                    </p>
+                    {timezone !== deviceTimezone && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setTimezone(deviceTimezone)}
+                            className="gap-2 text-purple-400"
+                        >
+                            <LocateFixed className="h-4 w-4" /> Use device timezone
+                        </Button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,265 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { Copy, History, Pause, Play, Plus, Trash2, Webhook } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { Button } from "@/components/ui/Button";
+import { useConfirm } from "@/components/ui/ConfirmDialog";
+import { IS_DEMO_MODE } from "@/lib/demoMode";
+import {
+    WEBHOOK_EVENTS,
+    WEBHOOK_HEADERS,
+    WebhookDeliveryInfo,
+    WebhookEvent,
+    WebhookInfo,
+} from "@/lib/integrations";
+import {
+    createWebhook,
+    deleteWebhook,
+    fetchWebhookDeliveries,
+    fetchWebhooks,
+    updateWebhook,
+} from "@/lib/apiClient";
+
+const EVENTS = Object.entries(WEBHOOK_EVENTS) as [WebhookEvent, string][];
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDeliveryInfo["status"], string> = {
+    delivered: "text-emerald-400",
+    pending: "text-amber-400",
+    failed: "text-red-400",
+};
+
+const ago = (iso: string) => formatDistanceToNow(parseISO(iso), { addSuffix: true });
+
+/**
+ * The latest deliveries to one webhook
+ */
+const DeliveryLog: React.FC<{ webhookId: string }> = ({ webhookId }) => {
+    const [deliveries, setDeliveries] = useState<WebhookDeliveryInfo[] | null>(null);
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetchWebhookDeliveries(webhookId)
+            .then(result => { if (!cancelled) setDeliveries(result); })
+            .catch(error => {
+                console.error("Failed to load webhook deliveries:", error);
+                if (!cancelled) setFailed(true);
+            });
+        return () => { cancelled = true; };
+    }, [webhookId]);
+
+    if (failed) return <p className="text-xs text-red-400">Couldn&apos;t load the delivery log</p>;
+    if (!deliveries) return <p className="text-xs text-muted-foreground">Loading...</p>;
+    if (deliveries.length === 0) return <p className="text-xs text-muted-foreground">Nothing sent yet</p>;
+
+    return (
+        <ul className="space-y-1">
+            {deliveries.map(delivery => (
+                <li key={delivery.id} className="text-[11px] text-muted-foreground">
+                    <span className={`font-semibold ${DELIVERY_STATUS_STYLES[delivery.status]}`}>{delivery.status}</span>
+                    {" · "}{delivery.event}{" · "}{ago(delivery.createdAt)}
+                    {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+                    {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+                    {delivery.error && delivery.status !== "delivered" && ` · ${delivery.error}`}
+                    {delivery.nextAttemptAt && delivery.status === "pending" && ` · retrying ${ago(delivery.nextAttemptAt)}`}
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+/**
+ * Webhooks: POST signed events to the user's own URL when tasks, goals,
+ * streaks and focus sessions hit a milestone
+ */
+export const Webhooks: React.FC = () => {
+    const { user } = useAuth();
+    const { confirm, ConfirmDialogComponent } = useConfirm();
+    const [webhooks, setWebhooks] = useState<WebhookInfo[] | null>(null);
+    const [url, setUrl] = useState("");
+    const [events, setEvents] = useState<Set<WebhookEvent>>(() => new Set(["task.completed"]));
+    const [newSecret, setNewSecret] = useState<string | null>(null);
+    const [openLog, setOpenLog] = useState<string | null>(null);
+    const [pending, setPending] = useState(false);
+
+    useEffect(() => {
+        if (IS_DEMO_MODE || !user) return;
+        let cancelled = false;
+        fetchWebhooks()
+            .then(result => { if (!cancelled) setWebhooks(result); })
+            .catch(error => console.error("Failed to load webhooks:", error));
+        return () => { cancelled = true; };
+    }, [user]);
+
+    if (IS_DEMO_MODE || !user) return null;
+
+    const toggleEvent = (event: WebhookEvent) => {
+        setEvents(prev => {
+            const next = new Set(prev);
+            if (next.has(event)) next.delete(event);
+            else next.add(event);
+            return next;
+        });
+    };
+
+    const replaceWebhook = (webhook: WebhookInfo) => {
+        setWebhooks(prev => prev?.map(w => w.id === webhook.id ? webhook : w) ?? null);
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setPending(true);
+        try {
+            const { webhook, secret } = await createWebhook({ url, events: Array.from(events) });
+            setWebhooks(prev => [webhook, ...(prev ?? [])]);
+            setNewSecret(secret);
+            setUrl("");
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't add the webhook");
+        } finally {
+            setPending(false);
+        }
+    };
+
+    const handleToggleActive = async (webhook: WebhookInfo) => {
+        try {
+            replaceWebhook(await updateWebhook(webhook.id, { active: !webhook.active }));
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't update the webhook");
+        }
+    };
+
+    const handleDelete = async (webhook: WebhookInfo) => {
+        const confirmed = await confirm({
+            title: "Delete this webhook?",
+            description: `Events will no longer be sent to ${webhook.url}, and its delivery log is deleted.`,
+            confirmText: "Delete",
+            type: "danger",
+        });
+        if (!confirmed) return;
+
+        try {
+            await deleteWebhook(webhook.id);
+            setWebhooks(prev => prev?.filter(w => w.id !== webhook.id) ?? null);
+            toast.success("Webhook deleted");
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't delete the webhook");
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!newSecret) return;
+        await navigator.clipboard.writeText(newSecret);
+        toast.success("Secret copied");
+    };
+
+    return (
+        <div className="rounded-3xl bg-card border border-border p-6">
+            {ConfirmDialogComponent}
+
+            {/* Header */}
+            <div className="flex items-center gap-3 mb-6">
+                <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-sky-500 to-indigo-500 flex items-center justify-center">
+                    <Webhook className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                    <h3 className="text-lg font-bold text-foreground">Webhooks</h3>
+                    <p className="text-sm text-muted-foreground">Notify another app when you check off tasks or hit milestones</p>
+                </div>
+            </div>
+
+            {newSecret && (
+                <div className="mb-4 rounded-2xl bg-sky-500/10 border border-sky-500/20 p-4 space-y-2">
+                    <p className="text-sm font-bold text-sky-400">Copy the signing secret now. It won&apos;t be shown again.</p>
+                    <div className="flex items-center gap-2">
+                        <code className="flex-1 min-w-0 truncate rounded-lg bg-muted px-3 py-2 text-xs text-foreground">{newSecret}</code>
+                        <Button variant="secondary" size="sm" onClick={handleCopy} className="gap-2">
+                            <Copy className="h-4 w-4" /> Copy
+                        </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        Each request carries a <code>{WEBHOOK_HEADERS.signature}</code> header: t=timestamp,v1=HMAC-SHA256 of
+                        &quot;timestamp.body&quot; with this secret.
+                    </p>
+                    <Button variant="ghost" size="sm" onClick={() => setNewSecret(null)}>Done</Button>
+                </div>
+            )}
+
+            <div className="space-y-4">
+                {webhooks && webhooks.length > 0 && (
+                    <ul className="space-y-2">
+                        {webhooks.map(webhook => (
+                            <li key={webhook.id} className="rounded-xl bg-muted/50 border border-border px-3 py-2.5 space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <div className="min-w-0 flex-1">
+                                        <p className={`text-sm font-medium truncate ${webhook.active ? "text-foreground" : "text-muted-foreground line-through"}`}>
+                                            {webhook.url}
+                                        </p>
+                                        <p className="text-[11px] text-muted-foreground truncate">{webhook.events.join(", ")}</p>
+                                    </div>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => setOpenLog(openLog === webhook.id ? null : webhook.id)}
+                                        aria-label="Delivery log"
+                                    >
+                                        <History className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => handleToggleActive(webhook)}
+                                        aria-label={webhook.active ? "Pause" : "Resume"}
+                                    >
+                                        {webhook.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => handleDelete(webhook)}
+                                        aria-label="Delete"
+                                        className="text-red-400 hover:bg-red-500/10"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                                {openLog === webhook.id && <DeliveryLog webhookId={webhook.id} />}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <form onSubmit={handleCreate} className="space-y-3">
+                    <input
+                        type="url"
+                        required
+                        value={url}
+                        onChange={(e) => setUrl(e.target.value)}
+                        placeholder="https://example.com/hooks/routine-tracker"
+                        className="w-full rounded-xl bg-muted border border-border px-4 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                    />
+                    <div className="space-y-1.5">
+                        {EVENTS.map(([event, description]) => (
+                            <label key={event} className="flex items-center gap-3 text-sm text-foreground cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={events.has(event)}
+                                    onChange={() => toggleEvent(event)}
+                                    className="accent-purple-500"
+                                />
+                                <span className="font-mono text-xs">{event}</span>
+                                <span className="text-xs text-muted-foreground">{description}</span>
+                            </label>
+                        ))}
+                    </div>
+                    <Button type="submit" variant="secondary" size="sm" disabled={pending || events.size === 0} className="gap-2">
+                        <Plus className="h-4 w-4" /> {pending ? "Adding..." : "Add webhook"}
+                    </Button>
+                </form>
+            </div>
+        </div>
+    );
+};
@@ -1,7 +1,8 @@
 "use client";
 
 import React, { useState, useCallback, useEffect, useRef } from "react";
-import { parseTaskInput, ParsedTask, formatParsedTask } from "@/lib/nlpUtils";
+import { parseTaskInput, parseRecurrence, ParsedTask, formatParsedTask } from "@/lib/nlpUtils";
+import { fromParsedRecurrence, getRecurrenceWeekdays } from "@/lib/recurrenceUtils";
 import { agentService } from "@/lib/agent/AgentService";
 import { useTask } from "@/context/TaskContext";
 import { useAI } from "@/context/AIContext";
@@ -163,14 +164,23 @@ export function SmartTaskInput({
         // Smart scheduling disabled for now
         let scheduledData: any = null;
 
+        // Rich rules ("every 2 weeks", "last friday") are stored as a recurrence
+        const today = new Date().toISOString().split("T")[0];
+        const recurrence = parsed.isRecurring
+            ? fromParsedRecurrence(parseRecurrence(parsed.raw) ?? { frequency: null, interval: 1 }, parsed.date || today)
+            : undefined;
+
         const taskData = {
             title: parsed.name,
             icon: "📝",
             startTime: parsed.time || "09:00",
             endTime: "10:00", // default 1 hour
             timeBlock: "Morning" as const, // default
-            days: parsed.isRecurring ? ["MON", "TUE", "WED", "THU", "FRI"] : [],
-            specificDate: parsed.date || (parsed.isRecurring ? undefined : new Date().toISOString().split("T")[0]),
+            days: recurrence
+                ? getRecurrenceWeekdays(recurrence)
+                : parsed.isRecurring ? ["MON", "TUE", "WED", "THU", "FRI"] : [],
+            recurrence,
+            specificDate: recurrence ? undefined : parsed.date || (parsed.isRecurring ? undefined : today),
         };
 
         await addTask(taskData);
@@ -199,12 +209,10 @@ export function SmartTaskInput({
             taskName = "General focus session";
         }
 
-        changePreset("custom", {
-            id: "custom", // Added required field
+        changePreset({
+            id: "custom",
             name: "Custom Focus",
-            icon: "⚡", // Added required field
-            description: "Custom duration", // Added required field
-            color: "blue", // Added required field
+            description: "Custom duration",
             focusMinutes: durationMinutes,
             shortBreakMinutes: 5,
             longBreakMinutes: 15,
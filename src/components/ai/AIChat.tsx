@@ -82,13 +82,16 @@ export const AIChat: React.FC = () => {
     };
 
     // Get action label
-    const getActionLabel = (action: any) => {
-        switch (action?.action) {
-            case "CREATE_TASK": return "✅ Task created!";
-            case "CREATE_GOAL": return "🎯 Goal created!";
-            case "DELETE_TASK": return "🗑️ Task deleted!";
-            case "EDIT_TASK": return "✏️ Task updated!";
-            case "COMPLETE_TASK": return "☑️ Task completed!";
+    const getToolLabel = (toolName: string) => {
+        switch (toolName) {
+            case "create_task": return "✅ Task created!";
+            case "create_goal": return "🎯 Goal created!";
+            case "delete_task": return "🗑️ Task deleted!";
+            case "update_task": return "✏️ Task updated!";
+            case "complete_task": return "☑️ Task completed!";
+            case "update_goal": return "✏️ Goal updated!";
+            case "delete_goal": return "🗑️ Goal deleted!";
+            case "start_focus": return "⏱️ Focus session started!";
             default: return "✨ Action completed!";
         }
     };
@@ -239,10 +242,14 @@ export const AIChat: React.FC = () => {
                                         className="whitespace-pre-wrap leading-relaxed"
                                         dangerouslySetInnerHTML={{ __html: renderMarkdown(msg.content) }}
                                     />
-                                    {msg.action && (
-                                        <div className="mt-3 pt-3 border-t border-white/10 text-xs text-purple-500 font-bold flex items-center gap-1.5">
-                                            <Sparkles className="w-3 h-3" />
-                                            {getActionLabel(msg.action)}
+                                    {msg.toolResults?.some(result => result.success) && (
+                                        <div className="mt-3 pt-3 border-t border-white/10 space-y-1">
+                                            {msg.toolResults.filter(result => result.success).map(result => (
+                                                <div key={result.id} className="text-xs text-purple-500 font-bold flex items-center gap-1.5">
+                                                    <Sparkles className="w-3 h-3" />
+                                                    {getToolLabel(result.name)}
+                                                </div>
+                                            ))}
                                         </div>
                                     )}
                                 </div>
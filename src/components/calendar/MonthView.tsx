@@ -2,6 +2,7 @@ import React from "react";
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, startOfWeek, endOfWeek } from "date-fns";
 import { cn } from "@/components/ui/Button";
 import { Task } from "@/context/TaskContext";
+import { isTaskScheduledOn } from "@/lib/recurrenceUtils";
 
 interface MonthViewProps {
   currentDate: Date;
@@ -25,16 +26,10 @@ const MonthView: React.FC<MonthViewProps> = ({ currentDate, tasks, onSelectDate,
 
   // FIX: Get task status based on completionHistory for the specific date
   const getTaskStatus = (day: Date) => {
-    const dayName = format(day, "EEE").toUpperCase();
     const dateStr = format(day, "yyyy-MM-dd");
 
-    // FIX: Check both recurring days and specific dates
-    const dayTasks = tasks.filter(t => {
-      if (t.specificDate) {
-        return t.specificDate === dateStr;
-      }
-      return t.days.includes(dayName);
-    });
+    // Expands weekday lists, recurrence rules and specific dates
+    const dayTasks = tasks.filter(t => isTaskScheduledOn(t, dateStr));
 
     if (dayTasks.length === 0) return { hasTasks: false, allCompleted: false };
 
@@ -1,84 +1,99 @@
 "use client";
 
-import React, { useState, useRef, useEffect } from "react";
-import { Volume2, VolumeX, CloudRain, Wind, Coffee, Music, Waves, Flame, Headphones, Moon, Play, Pause, Settings2 } from "lucide-react";
+import React, { useState, useEffect, useSyncExternalStore } from "react";
+import { Volume2, CloudRain, Wind, Waves, Headphones, Brain, Timer, Music, Play, Pause, Settings2, Save, X } from "lucide-react";
+import { toast } from "sonner";
 import { cn } from "@/components/ui/Button";
+import { useAuth } from "@/context/AuthContext";
+import {
+    ambientStore,
+    AmbientMixPreset,
+    AmbientSoundId,
+    AMBIENT_PRESET_LIMITS,
+    AMBIENT_SOUNDS,
+    BUILT_IN_AMBIENT_PRESETS,
+    playAmbient,
+    setAmbientFollowSessions,
+    setAmbientMix,
+    stopAmbient,
+} from "@/lib/ambientSound";
+import { deleteAmbientPreset, saveAmbientPreset, subscribeToAmbientPresets } from "@/lib/focusSessionUtils";
 
-// Enhanced sounds library with more options
-const SOUNDS = [
-    { id: "rain", label: "Rain", icon: CloudRain, src: "https://assets.mixkit.co/active_storage/sfx/2498/2498-preview.mp3", color: "from-blue-500 to-cyan-500" },
-    { id: "forest", label: "Forest", icon: Wind, src: "https://assets.mixkit.co/active_storage/sfx/2485/2485-preview.mp3", color: "from-green-500 to-emerald-500" },
-    { id: "cafe", label: "Café", icon: Coffee, src: "https://assets.mixkit.co/active_storage/sfx/2475/2475-preview.mp3", color: "from-amber-500 to-orange-500" },
-    { id: "lofi", label: "Lo-Fi", icon: Music, src: "https://assets.mixkit.co/active_storage/sfx/274/274-preview.mp3", color: "from-purple-500 to-pink-500" },
-    { id: "ocean", label: "Ocean", icon: Waves, src: "https://assets.mixkit.co/active_storage/sfx/2497/2497-preview.mp3", color: "from-sky-500 to-blue-500" },
-    { id: "fire", label: "Fireplace", icon: Flame, src: "https://assets.mixkit.co/active_storage/sfx/2493/2493-preview.mp3", color: "from-orange-500 to-red-500" },
-    { id: "white", label: "White Noise", icon: Headphones, src: "https://assets.mixkit.co/active_storage/sfx/2512/2512-preview.mp3", color: "from-gray-400 to-gray-500" },
-    { id: "night", label: "Night", icon: Moon, src: "https://assets.mixkit.co/active_storage/sfx/2488/2488-preview.mp3", color: "from-indigo-500 to-purple-500" },
-];
+const SOUND_STYLES: Record<AmbientSoundId, { icon: typeof CloudRain; color: string }> = {
+    white: { icon: Headphones, color: "from-gray-400 to-gray-500" },
+    pink: { icon: Wind, color: "from-pink-500 to-rose-500" },
+    brown: { icon: Waves, color: "from-amber-600 to-orange-700" },
+    rain: { icon: CloudRain, color: "from-blue-500 to-cyan-500" },
+    binaural: { icon: Brain, color: "from-purple-500 to-indigo-500" },
+    metronome: { icon: Timer, color: "from-emerald-500 to-green-500" },
+};
+
+const SOUNDS = AMBIENT_SOUNDS.map(sound => ({ ...sound, ...SOUND_STYLES[sound.id] }));
 
 export function AmbientPlayer({ isZen = false }: { isZen?: boolean }) {
-    const [isPlaying, setIsPlaying] = useState(false);
-    const [currentSound, setCurrentSound] = useState(SOUNDS[0]);
-    const [secondarySound, setSecondarySound] = useState<typeof SOUNDS[0] | null>(null);
-    const [primaryVolume, setPrimaryVolume] = useState(0.5);
-    const [secondaryVolume, setSecondaryVolume] = useState(0.3);
+    const { user } = useAuth();
+    const { mix, isPlaying, followSessions } = useSyncExternalStore(
+        ambientStore.subscribe,
+        ambientStore.getSnapshot,
+        ambientStore.getServerSnapshot
+    );
     const [showMixer, setShowMixer] = useState(false);
-
-    const audioRef = useRef<HTMLAudioElement | null>(null);
-    const secondaryAudioRef = useRef<HTMLAudioElement | null>(null);
+    const [customPresets, setCustomPresets] = useState<AmbientMixPreset[]>([]);
+    const [presetName, setPresetName] = useState<string | null>(null); // null: not saving
 
     useEffect(() => {
-        if (audioRef.current) {
-            audioRef.current.volume = primaryVolume;
-        }
-    }, [primaryVolume]);
+        if (!user) return;
+        return subscribeToAmbientPresets(user.uid, setCustomPresets);
+    }, [user]);
 
-    useEffect(() => {
-        if (secondaryAudioRef.current) {
-            secondaryAudioRef.current.volume = secondaryVolume;
-        }
-    }, [secondaryVolume]);
+    const currentSound = SOUNDS.find(sound => sound.id === mix.primary.sound) || SOUNDS[0];
+    const secondarySound = mix.secondary ? SOUNDS.find(sound => sound.id === mix.secondary?.sound) || null : null;
 
     const togglePlay = () => {
-        if (!audioRef.current) return;
-
         if (isPlaying) {
-            audioRef.current.pause();
-            secondaryAudioRef.current?.pause();
+            stopAmbient();
         } else {
-            audioRef.current.play().catch(e => console.error("Audio play failed:", e));
-            if (secondarySound) {
-                secondaryAudioRef.current?.play().catch(e => console.error("Secondary audio play failed:", e));
-            }
+            playAmbient();
         }
-        setIsPlaying(!isPlaying);
     };
 
-    const changeSound = (sound: typeof SOUNDS[0], isSecondary = false) => {
+    const changeSound = (soundId: AmbientSoundId, isSecondary = false) => {
         if (isSecondary) {
             // Toggle secondary sound
-            if (secondarySound?.id === sound.id) {
-                setSecondarySound(null);
-                secondaryAudioRef.current?.pause();
-            } else {
-                setSecondarySound(sound);
-                if (isPlaying) {
-                    setTimeout(() => {
-                        secondaryAudioRef.current?.play();
-                    }, 100);
-                }
-            }
+            setAmbientMix({
+                ...mix,
+                secondary: mix.secondary?.sound === soundId ? null : { sound: soundId, volume: mix.secondary?.volume ?? 0.3 },
+            });
         } else {
-            const wasPlaying = isPlaying;
-            setCurrentSound(sound);
-            setIsPlaying(false);
-
-            setTimeout(() => {
-                if (wasPlaying && audioRef.current) {
-                    audioRef.current.play();
-                    setIsPlaying(true);
-                }
-            }, 0);
+            setAmbientMix({
+                primary: { ...mix.primary, sound: soundId },
+                secondary: mix.secondary?.sound === soundId ? null : mix.secondary,
+            });
+        }
+    };
+
+    const handleSavePreset = async () => {
+        if (!user || presetName === null) return;
+        if (customPresets.length >= AMBIENT_PRESET_LIMITS.maxPresets) {
+            toast.error(`You can save up to ${AMBIENT_PRESET_LIMITS.maxPresets} mixes`);
+            return;
+        }
+
+        try {
+            const saved = await saveAmbientPreset(user.uid, presetName, mix);
+            toast.success(`Saved ${saved.name}`);
+            setPresetName(null);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Couldn't save mix");
+        }
+    };
+
+    const handleDeletePreset = async (preset: AmbientMixPreset) => {
+        if (!user) return;
+        try {
+            await deleteAmbientPreset(user.uid, preset.id);
+        } catch {
+            // The error toast comes from the Firestore helpers
         }
     };
 
@@ -89,7 +104,7 @@ export function AmbientPlayer({ isZen = false }: { isZen?: boolean }) {
                 ? "bg-white/[0.02] border-white/5 shadow-2xl shadow-black/50"
                 : "bg-white/[0.03] border-white/10"
         )}>
-            {/* Header - Hidden in simple zen view if needed, but we'll keep it polished */}
+            {/* Header */}
             <div className="flex items-center justify-between mb-4">
                 <h3 className="text-[10px] font-bold text-muted-foreground uppercase tracking-[0.2em] flex items-center gap-2 opacity-60">
                     <Music className="w-3.5 h-3.5 text-purple-400" />
@@ -144,8 +159,31 @@ export function AmbientPlayer({ isZen = false }: { isZen?: boolean }) {
                 </div>
             )}
 
+            {/* Presets */}
+            <div className="flex flex-wrap gap-1.5 mb-4">
+                {[...BUILT_IN_AMBIENT_PRESETS, ...customPresets].map(preset => (
+                    <span key={preset.id} className="group relative">
+                        <button
+                            onClick={() => setAmbientMix(preset.mix)}
+                            className="px-2.5 py-1 rounded-lg text-[10px] font-bold bg-white/5 border border-white/10 text-muted-foreground hover:text-foreground transition-colors"
+                        >
+                            {preset.name}
+                        </button>
+                        {preset.isCustom && (
+                            <button
+                                onClick={() => handleDeletePreset(preset)}
+                                className="absolute -top-1.5 -right-1.5 hidden group-hover:flex h-4 w-4 rounded-full bg-muted items-center justify-center text-muted-foreground hover:text-red-400"
+                                title={`Delete ${preset.name}`}
+                            >
+                                <X className="w-2.5 h-2.5" />
+                            </button>
+                        )}
+                    </span>
+                ))}
+            </div>
+
             {/* Sound Grid */}
-            <div className="grid grid-cols-4 gap-2 mb-4">
+            <div className="grid grid-cols-3 gap-2 mb-4">
                 {SOUNDS.map((sound) => {
                     const Icon = sound.icon;
                     const isPrimary = currentSound.id === sound.id;
@@ -154,7 +192,8 @@ export function AmbientPlayer({ isZen = false }: { isZen?: boolean }) {
                     return (
                         <button
                             key={sound.id}
-                            onClick={() => changeSound(sound, showMixer && currentSound.id !== sound.id)}
+                            onClick={() => changeSound(sound.id, showMixer && currentSound.id !== sound.id)}
+                            title={sound.description}
                             className={cn(
                                 "flex flex-col items-center justify-center gap-1.5 py-3 rounded-xl transition-all border relative",
                                 isPrimary
@@ -178,12 +217,57 @@ export function AmbientPlayer({ isZen = false }: { isZen?: boolean }) {
                 })}
             </div>
 
-            {/* Mixer Mode Indicator */}
+            {/* Mixer Mode */}
             {showMixer && (
-                <div className="mb-4 p-2 rounded-lg bg-purple-500/10 border border-purple-500/20 text-center">
-                    <p className="text-xs text-purple-400">
-                        🎚️ Mixer Mode: Click to add a second sound
-                    </p>
+                <div className="mb-4 space-y-3">
+                    <div className="p-2 rounded-lg bg-purple-500/10 border border-purple-500/20 text-center">
+                        <p className="text-xs text-purple-400">
+                            🎚️ Mixer Mode: Click to add a second sound
+                        </p>
+                    </div>
+
+                    <label className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+                        Fade in and out with focus sessions
+                        <input
+                            type="checkbox"
+                            checked={followSessions}
+                            onChange={(e) => setAmbientFollowSessions(e.target.checked)}
+                            className="accent-purple-500"
+                        />
+                    </label>
+
+                    {user && (
+                        presetName === null ? (
+                            <button
+                                onClick={() => setPresetName("")}
+                                className="flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                            >
+                                <Save className="w-3.5 h-3.5" /> Save this mix
+                            </button>
+                        ) : (
+                            <div className="flex gap-2">
+                                <input
+                                    autoFocus
+                                    value={presetName}
+                                    onChange={(e) => setPresetName(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter") handleSavePreset();
+                                        if (e.key === "Escape") setPresetName(null);
+                                    }}
+                                    placeholder="Mix name"
+                                    maxLength={AMBIENT_PRESET_LIMITS.maxNameLength}
+                                    className="flex-1 min-w-0 rounded-lg bg-black/20 border border-white/10 px-3 py-1.5 text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                                />
+                                <button
+                                    onClick={handleSavePreset}
+                                    disabled={!presetName.trim()}
+                                    className="px-3 rounded-lg text-xs font-bold bg-purple-500/20 text-purple-400 disabled:opacity-50"
+                                >
+                                    Save
+                                </button>
+                            </div>
+                        )
+                    )}
                 </div>
             )}
 
@@ -197,15 +281,15 @@ export function AmbientPlayer({ isZen = false }: { isZen?: boolean }) {
                         min="0"
                         max="1"
                         step="0.01"
-                        value={primaryVolume}
-                        onChange={(e) => setPrimaryVolume(parseFloat(e.target.value))}
+                        value={mix.primary.volume}
+                        onChange={(e) => setAmbientMix({ ...mix, primary: { ...mix.primary, volume: parseFloat(e.target.value) } })}
                         className="w-full h-1.5 bg-white/10 rounded-full appearance-none cursor-pointer accent-purple-500"
                     />
-                    <span className="text-xs text-muted-foreground w-8">{Math.round(primaryVolume * 100)}%</span>
+                    <span className="text-xs text-muted-foreground w-8">{Math.round(mix.primary.volume * 100)}%</span>
                 </div>
 
                 {/* Secondary Volume (if active) */}
-                {secondarySound && (
+                {secondarySound && mix.secondary && (
                     <div className="flex items-center gap-3 bg-pink-500/10 rounded-xl p-2 px-3">
                         <secondarySound.icon className="w-4 h-4 text-pink-400 shrink-0" />
                         <input
@@ -213,30 +297,17 @@ export function AmbientPlayer({ isZen = false }: { isZen?: boolean }) {
                             min="0"
                             max="1"
                             step="0.01"
-                            value={secondaryVolume}
-                            onChange={(e) => setSecondaryVolume(parseFloat(e.target.value))}
+                            value={mix.secondary.volume}
+                            onChange={(e) => setAmbientMix({
+                                ...mix,
+                                secondary: { sound: secondarySound.id, volume: parseFloat(e.target.value) },
+                            })}
                             className="w-full h-1.5 bg-white/10 rounded-full appearance-none cursor-pointer accent-pink-500"
                         />
-                        <span className="text-xs text-muted-foreground w-8">{Math.round(secondaryVolume * 100)}%</span>
+                        <span className="text-xs text-muted-foreground w-8">{Math.round(mix.secondary.volume * 100)}%</span>
                     </div>
                 )}
             </div>
-
-            {/* Audio Elements */}
-            <audio
-                ref={audioRef}
-                src={currentSound.src}
-                loop
-                className="hidden"
-            />
-            {secondarySound && (
-                <audio
-                    ref={secondaryAudioRef}
-                    src={secondarySound.src}
-                    loop
-                    className="hidden"
-                />
-            )}
         </div>
     );
 }
@@ -1,7 +1,8 @@
 "use client";
 
 import React, { useState } from "react";
-import { AlertCircle, X, MessageSquare, Coffee, Bell, Users, Battery, Brain, Check } from "lucide-react";
+import { AlertCircle, X, MessageSquare, Coffee, Bell, Users, Battery, Brain, Check, ShieldAlert } from "lucide-react";
+import { BLOCKED_ATTEMPT_REASON } from "@/lib/strictFocusUtils";
 import { motion, AnimatePresence } from "framer-motion";
 
 interface DistractionLoggerProps {
@@ -17,6 +18,7 @@ const DISTRACTION_REASONS = [
   { id: "distracted", label: "Lost Focus", icon: Brain, color: "from-purple-500 to-pink-500" },
   { id: "chat", label: "Someone Came In", icon: Users, color: "from-blue-500 to-cyan-500" },
   { id: "thought", label: "Random Thought", icon: MessageSquare, color: "from-indigo-500 to-purple-500" },
+  { id: "blocked", label: BLOCKED_ATTEMPT_REASON, icon: ShieldAlert, color: "from-rose-500 to-red-500" },
 ];
 
 export const DistractionLogger: React.FC<DistractionLoggerProps> = ({
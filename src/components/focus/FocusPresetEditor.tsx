@@ -0,0 +1,298 @@
+"use client";
+
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import { X, Plus, Trash2, ArrowUp, ArrowDown, ListOrdered } from "lucide-react";
+import { toast } from "sonner";
+import { Button, cn } from "@/components/ui/Button";
+import { useConfirm } from "@/components/ui/ConfirmDialog";
+import {
+  FocusPreset,
+  FocusProgramStep,
+  FocusSessionType,
+  FOCUS_PRESET_LIMITS,
+  FOCUS_PROGRAM_TEMPLATES,
+  isFocusProgram,
+} from "@/lib/focusSessionUtils";
+
+interface FocusPresetEditorProps {
+  preset: FocusPreset | null; // null creates a new preset
+  onClose: () => void;
+  onSave: (preset: FocusPreset) => Promise<unknown>;
+  onDelete: (presetId: string) => Promise<void>;
+}
+
+const STEP_TYPES: Array<{ value: FocusSessionType; label: string }> = [
+  { value: "focus", label: "Focus" },
+  { value: "shortBreak", label: "Short break" },
+  { value: "longBreak", label: "Long break" },
+];
+
+const inputClass =
+  "w-full rounded-xl bg-muted border border-border px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50";
+
+export const FocusPresetEditor: React.FC<FocusPresetEditorProps> = ({ preset, onClose, onSave, onDelete }) => {
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const [name, setName] = useState(preset?.name || "");
+  const [description, setDescription] = useState(preset?.description || "");
+  const [isProgram, setIsProgram] = useState(preset ? isFocusProgram(preset) : false);
+  const [focusMinutes, setFocusMinutes] = useState(preset?.focusMinutes || 25);
+  const [shortBreakMinutes, setShortBreakMinutes] = useState(preset?.shortBreakMinutes || 5);
+  const [longBreakMinutes, setLongBreakMinutes] = useState(preset?.longBreakMinutes || 15);
+  const [steps, setSteps] = useState<FocusProgramStep[]>(
+    preset?.steps || [{ type: "focus", minutes: 25 }, { type: "shortBreak", minutes: 5 }]
+  );
+  const [rounds, setRounds] = useState(preset?.rounds || 1);
+  const [saving, setSaving] = useState(false);
+
+  const totalMinutes = steps.reduce((sum, step) => sum + (step.minutes || 0), 0) * rounds;
+
+  const applyTemplate = (template: (typeof FOCUS_PROGRAM_TEMPLATES)[number]) => {
+    setName(template.name);
+    setDescription(template.description);
+    setSteps(template.steps || []);
+    setRounds(template.rounds || 1);
+    setIsProgram(true);
+  };
+
+  const updateStep = (index: number, changes: Partial<FocusProgramStep>) => {
+    setSteps(prev => prev.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, delta: number) => {
+    setSteps(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({
+        id: preset?.id || "",
+        name,
+        description,
+        focusMinutes,
+        shortBreakMinutes,
+        longBreakMinutes,
+        isCustom: true,
+        ...(isProgram ? { steps, rounds } : {}),
+      });
+      toast.success(`Saved ${name.trim()}`);
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Couldn't save preset");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!preset) return;
+
+    const confirmed = await confirm({
+      title: `Delete ${preset.name}?`,
+      description: "Past sessions keep their history; the preset is removed from all your devices.",
+      confirmText: "Delete",
+      type: "danger",
+    });
+    if (!confirmed) return;
+
+    try {
+      await onDelete(preset.id);
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Couldn't delete preset");
+    }
+  };
+
+  const minutesInput = (value: number, onChange: (minutes: number) => void) => (
+    <input
+      type="number"
+      min={1}
+      max={FOCUS_PRESET_LIMITS.maxStepMinutes}
+      value={value || ""}
+      onChange={(e) => onChange(parseInt(e.target.value, 10) || 0)}
+      className={inputClass}
+    />
+  );
+
+  return (
+    <>
+      {ConfirmDialogComponent}
+
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100]"
+      />
+
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[101] w-[calc(100%-2rem)] max-w-lg max-h-[90vh] overflow-y-auto"
+      >
+        <div className="rounded-3xl bg-card border border-border p-6 shadow-2xl space-y-5">
+          <div className="flex items-center justify-between">
+            <h3 className="font-bold text-foreground">{preset ? "Edit preset" : "New preset"}</h3>
+            <button
+              onClick={onClose}
+              className="h-8 w-8 rounded-lg bg-muted hover:bg-muted/80 flex items-center justify-center transition-colors"
+            >
+              <X className="h-4 w-4 text-muted-foreground" />
+            </button>
+          </div>
+
+          {!preset && (
+            <div className="flex flex-wrap gap-2">
+              {FOCUS_PROGRAM_TEMPLATES.map(template => (
+                <button
+                  key={template.name}
+                  onClick={() => applyTemplate(template)}
+                  className="px-3 py-1.5 rounded-lg text-xs font-bold bg-white/5 border border-white/10 text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  {template.name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              maxLength={FOCUS_PRESET_LIMITS.maxNameLength}
+              className={inputClass}
+            />
+            <input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              maxLength={FOCUS_PRESET_LIMITS.maxDescriptionLength}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="flex gap-1 p-1 rounded-xl bg-white/5 border border-white/10">
+            {[false, true].map(program => (
+              <button
+                key={String(program)}
+                onClick={() => setIsProgram(program)}
+                className={cn(
+                  "flex-1 px-4 py-2 rounded-lg font-bold text-xs transition-all",
+                  isProgram === program ? "bg-purple-500/20 text-purple-400" : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {program ? "Program" : "Simple"}
+              </button>
+            ))}
+          </div>
+
+          {isProgram ? (
+            <div className="space-y-3">
+              {steps.map((step, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    value={step.type}
+                    onChange={(e) => updateStep(index, { type: e.target.value as FocusSessionType })}
+                    className={cn(inputClass, "w-36 shrink-0")}
+                  >
+                    {STEP_TYPES.map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    value={step.label || ""}
+                    onChange={(e) => updateStep(index, { label: e.target.value })}
+                    placeholder="Label"
+                    maxLength={30}
+                    className={inputClass}
+                  />
+                  <div className="w-20 shrink-0">
+                    {minutesInput(step.minutes, (minutes) => updateStep(index, { minutes }))}
+                  </div>
+                  <div className="flex shrink-0">
+                    <button onClick={() => moveStep(index, -1)} className="p-1 text-muted-foreground hover:text-foreground" title="Move up">
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => moveStep(index, 1)} className="p-1 text-muted-foreground hover:text-foreground" title="Move down">
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))}
+                      disabled={steps.length === 1}
+                      className="p-1 text-muted-foreground hover:text-red-400 disabled:opacity-30"
+                      title="Remove step"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex items-center justify-between gap-3">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSteps(prev => [...prev, { type: "focus", minutes: 25 }])}
+                  disabled={steps.length >= FOCUS_PRESET_LIMITS.maxSteps}
+                  className="gap-2"
+                >
+                  <Plus className="h-4 w-4" /> Add step
+                </Button>
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                  Rounds
+                  <input
+                    type="number"
+                    min={1}
+                    max={FOCUS_PRESET_LIMITS.maxRounds}
+                    value={rounds || ""}
+                    onChange={(e) => setRounds(parseInt(e.target.value, 10) || 0)}
+                    className={cn(inputClass, "w-16")}
+                  />
+                </label>
+              </div>
+
+              <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                <ListOrdered className="h-4 w-4" />
+                {steps.length * rounds} steps, {totalMinutes} minutes in total
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-3 gap-3">
+              <label className="space-y-1 text-xs text-muted-foreground">
+                Focus
+                {minutesInput(focusMinutes, setFocusMinutes)}
+              </label>
+              <label className="space-y-1 text-xs text-muted-foreground">
+                Short break
+                {minutesInput(shortBreakMinutes, setShortBreakMinutes)}
+              </label>
+              <label className="space-y-1 text-xs text-muted-foreground">
+                Long break
+                {minutesInput(longBreakMinutes, setLongBreakMinutes)}
+              </label>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-3 pt-2">
+            {preset ? (
+              <Button variant="ghost" onClick={handleDelete} className="gap-2 text-muted-foreground hover:text-red-400">
+                <Trash2 className="h-4 w-4" /> Delete
+              </Button>
+            ) : <span />}
+            <Button onClick={handleSave} disabled={saving || !name.trim()}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    </>
+  );
+};
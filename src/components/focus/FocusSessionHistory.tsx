@@ -0,0 +1,370 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Download, Loader2, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button, cn } from "@/components/ui/Button";
+import { useConfirm } from "@/components/ui/ConfirmDialog";
+import { useAuth } from "@/context/AuthContext";
+import { useTask } from "@/context/TaskContext";
+import { ExportService } from "@/lib/ExportService";
+import {
+  deleteFocusSession,
+  editFocusSession,
+  FocusPreset,
+  FocusSession,
+  FocusSessionFilters,
+  FocusSessionPage,
+  FocusSessionStatus,
+  FOCUS_PRESETS,
+  FOCUS_SESSION_LIMITS,
+  getAllFocusSessions,
+  getFocusSessionHistory,
+  subscribeToFocusPresets,
+} from "@/lib/focusSessionUtils";
+
+interface FilterForm {
+  from: string; // yyyy-MM-dd
+  to: string;
+  presetId: string;
+  linkedTaskId: string;
+  status: FocusSessionStatus | "";
+}
+
+const EMPTY_FILTERS: FilterForm = { from: "", to: "", presetId: "", linkedTaskId: "", status: "" };
+
+const STATUS_STYLES: Record<FocusSessionStatus, string> = {
+  completed: "bg-emerald-500/15 text-emerald-400",
+  abandoned: "bg-red-500/15 text-red-400",
+  incomplete: "bg-amber-500/15 text-amber-400",
+};
+
+const SESSION_LABELS = {
+  focus: "Focus",
+  shortBreak: "Short break",
+  longBreak: "Long break",
+};
+
+const getStatus = (session: FocusSession): FocusSessionStatus =>
+  session.completed ? "completed" : session.abandoned ? "abandoned" : "incomplete";
+
+const toQueryFilters = (form: FilterForm): FocusSessionFilters => ({
+  from: form.from ? new Date(`${form.from}T00:00:00`) : undefined,
+  to: form.to ? new Date(`${form.to}T23:59:59.999`) : undefined,
+  presetId: form.presetId || undefined,
+  linkedTaskId: form.linkedTaskId || undefined,
+  status: form.status || undefined,
+});
+
+const selectClass =
+  "h-10 w-full rounded-xl bg-white/5 border border-white/10 px-3 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50";
+
+/**
+ * Browse, correct and export recorded focus sessions
+ */
+export const FocusSessionHistory: React.FC = () => {
+  const { user } = useAuth();
+  const { tasks } = useTask();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [customPresets, setCustomPresets] = useState<FocusPreset[]>([]);
+  // Results are tagged with the filters they were loaded for, so a change of
+  // filters shows the loading state until its first page arrives
+  const [results, setResults] = useState<(FocusSessionPage & { key: string }) | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; duration: string; notes: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const filterKey = JSON.stringify(form);
+  const filters = useMemo(() => toQueryFilters(form), [form]);
+  const loading = results?.key !== filterKey;
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToFocusPresets(user.uid, setCustomPresets);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    getFocusSessionHistory(user.uid, filters)
+      .then((page) => {
+        if (!cancelled) setResults({ ...page, key: filterKey });
+      })
+      .catch(() => {
+        // The error toast comes from the Firestore helpers
+        if (!cancelled) setResults({ sessions: [], cursor: null, hasMore: false, key: filterKey });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, filters, filterKey]);
+
+  const updateForm = (changes: Partial<FilterForm>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const loadMore = async () => {
+    if (!user || !results?.hasMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await getFocusSessionHistory(user.uid, filters, results.cursor);
+      setResults((prev) => prev && prev.key === filterKey
+        ? { ...page, sessions: [...prev.sessions, ...page.sessions], key: filterKey }
+        : prev
+      );
+    } catch {
+      // The error toast comes from the Firestore helpers
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!user) return;
+    setExporting(true);
+    try {
+      const sessions = await getAllFocusSessions(user.uid, filters);
+      if (sessions.length === 0) {
+        toast.info("No sessions match these filters");
+        return;
+      }
+      ExportService.downloadFocusSessionsCSV(sessions);
+    } catch {
+      // The error toast comes from the Firestore helpers
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleSave = async (session: FocusSession) => {
+    if (!user || !editing) return;
+    const duration = Number(editing.duration);
+
+    setSaving(true);
+    try {
+      await editFocusSession(user.uid, session, { duration, notes: editing.notes });
+      setResults((prev) => prev && {
+        ...prev,
+        sessions: prev.sessions.map((s) =>
+          s.id === session.id ? { ...s, duration, notes: editing.notes.trim() || undefined } : s
+        ),
+      });
+      setEditing(null);
+      toast.success("Session updated");
+    } catch (error) {
+      // Validation errors aren't toasted by the Firestore helpers
+      if (error instanceof Error && !("code" in error)) toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (session: FocusSession) => {
+    if (!user) return;
+    const confirmed = await confirm({
+      title: "Delete this session?",
+      description: `${session.duration} minutes from ${format(session.createdAt.toDate(), "MMM d, h:mm a")} will no longer count towards your stats and streak.`,
+      confirmText: "Delete",
+      type: "danger",
+    });
+    if (!confirmed) return;
+
+    try {
+      await deleteFocusSession(user.uid, session.id);
+      setResults((prev) => prev && { ...prev, sessions: prev.sessions.filter((s) => s.id !== session.id) });
+      toast.success("Session deleted");
+    } catch (error) {
+      if (error instanceof Error && !("code" in error)) toast.error(error.message);
+    }
+  };
+
+  const presetOptions = [...FOCUS_PRESETS, ...customPresets];
+  const sessions = loading ? [] : results?.sessions ?? [];
+  const hasFilters = filterKey !== JSON.stringify(EMPTY_FILTERS);
+
+  return (
+    <>
+      {ConfirmDialogComponent}
+
+      <div className="rounded-3xl bg-card border border-border p-6 space-y-6">
+        {/* Filters */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <label className="space-y-1 text-xs font-medium text-muted-foreground">
+            From
+            <input
+              type="date"
+              value={form.from}
+              max={form.to || undefined}
+              onChange={(e) => updateForm({ from: e.target.value })}
+              className={selectClass}
+            />
+          </label>
+          <label className="space-y-1 text-xs font-medium text-muted-foreground">
+            To
+            <input
+              type="date"
+              value={form.to}
+              min={form.from || undefined}
+              onChange={(e) => updateForm({ to: e.target.value })}
+              className={selectClass}
+            />
+          </label>
+          <label className="space-y-1 text-xs font-medium text-muted-foreground">
+            Preset
+            <select value={form.presetId} onChange={(e) => updateForm({ presetId: e.target.value })} className={selectClass}>
+              <option value="" className="bg-zinc-900">All presets</option>
+              {presetOptions.map((preset) => (
+                <option key={preset.id} value={preset.id} className="bg-zinc-900">{preset.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-xs font-medium text-muted-foreground">
+            Task
+            <select value={form.linkedTaskId} onChange={(e) => updateForm({ linkedTaskId: e.target.value })} className={selectClass}>
+              <option value="" className="bg-zinc-900">All tasks</option>
+              {tasks.map((task) => (
+                <option key={task.id} value={task.id} className="bg-zinc-900">{task.title}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-xs font-medium text-muted-foreground">
+            Status
+            <select
+              value={form.status}
+              onChange={(e) => updateForm({ status: e.target.value as FilterForm["status"] })}
+              className={selectClass}
+            >
+              <option value="" className="bg-zinc-900">Any status</option>
+              <option value="completed" className="bg-zinc-900">Completed</option>
+              <option value="abandoned" className="bg-zinc-900">Abandoned</option>
+              <option value="incomplete" className="bg-zinc-900">Incomplete</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          {hasFilters ? (
+            <button onClick={() => setForm(EMPTY_FILTERS)} className="text-xs font-medium text-muted-foreground hover:text-foreground">
+              Clear filters
+            </button>
+          ) : <span />}
+          <Button variant="secondary" size="sm" onClick={handleExport} disabled={exporting || loading} className="gap-2">
+            {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Export CSV
+          </Button>
+        </div>
+
+        {/* Sessions */}
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">
+            {hasFilters ? "No sessions match these filters." : "No focus sessions yet."}
+          </p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {sessions.map((session) => {
+              const status = getStatus(session);
+              const isEditing = editing?.id === session.id;
+
+              return (
+                <li key={session.id} className="py-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-sm font-bold text-foreground">
+                        {format((session.startTime ?? session.createdAt).toDate(), "EEE, MMM d · h:mm a")}
+                        <span className="ml-2 font-medium text-muted-foreground">{session.duration} min</span>
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {SESSION_LABELS[session.sessionType]} · {session.presetName || session.preset}
+                        {session.programStep && ` · Step ${session.programStep.index + 1} of ${session.programStep.total}`}
+                        {session.linkedTaskTitle && ` · ${session.linkedTaskTitle}`}
+                      </p>
+                      {session.notes && !isEditing && (
+                        <p className="text-xs text-foreground/80 line-clamp-2">{session.notes}</p>
+                      )}
+                    </div>
+
+                    <div className="flex items-center gap-1 shrink-0">
+                      <span className={cn("px-2 py-0.5 rounded-full text-[10px] font-bold uppercase", STATUS_STYLES[status])}>
+                        {status}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditing(isEditing ? null : {
+                          id: session.id,
+                          duration: String(session.duration),
+                          notes: session.notes || "",
+                        })}
+                        title="Edit session"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(session)}
+                        className="hover:text-red-400"
+                        title="Delete session"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {isEditing && editing && (
+                    <div className="space-y-3 rounded-2xl bg-white/5 border border-white/10 p-4">
+                      <label className="flex items-center gap-3 text-xs font-medium text-muted-foreground">
+                        Duration (minutes)
+                        <input
+                          type="number"
+                          min={1}
+                          max={FOCUS_SESSION_LIMITS.maxDurationMinutes}
+                          value={editing.duration}
+                          onChange={(e) => setEditing({ ...editing, duration: e.target.value })}
+                          className="h-9 w-24 rounded-lg bg-black/20 border border-white/10 px-3 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                        />
+                      </label>
+                      <textarea
+                        value={editing.notes}
+                        onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+                        maxLength={FOCUS_SESSION_LIMITS.maxNotesLength}
+                        rows={3}
+                        placeholder="Notes"
+                        className="w-full rounded-lg bg-black/20 border border-white/10 px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50 resize-none"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setEditing(null)} disabled={saving}>
+                          Cancel
+                        </Button>
+                        <Button size="sm" onClick={() => handleSave(session)} disabled={saving}>
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {!loading && results?.hasMore && (
+          <div className="flex justify-center">
+            <Button variant="outline" size="sm" onClick={loadMore} disabled={loadingMore} className="gap-2">
+              {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+              Load more
+            </Button>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,132 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Laptop, Pause, Play, SkipForward, Smartphone, Square } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useConfirm } from "@/components/ui/ConfirmDialog";
+import { LiveFocusSession, LiveFocusSessionAction } from "@/lib/focusSessionUtils";
+
+interface LiveSessionCardProps {
+  session: LiveFocusSession;
+  onControl: (action: LiveFocusSessionAction) => Promise<void>;
+}
+
+const SESSION_LABELS = {
+  focus: "Focus session",
+  shortBreak: "Short break",
+  longBreak: "Long break",
+};
+
+const formatClock = (totalSeconds: number) => {
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${String(mins).padStart(2, "0")}:${String(secs).padStart(2, "0")}`;
+};
+
+/**
+ * A timer running on another of the user's devices, followed live
+ */
+export const LiveSessionCard: React.FC<LiveSessionCardProps> = ({ session, onControl }) => {
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const [now, setNow] = useState(() => Date.now());
+  const [pending, setPending] = useState<LiveFocusSessionAction | null>(null);
+
+  useEffect(() => {
+    if (session.isPaused) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [session.isPaused]);
+
+  let clock: string;
+  if (session.timerMode === "stopwatch") {
+    clock = formatClock(Math.max(0, Math.floor((now - session.timerStartTime) / 1000)));
+  } else if (session.isOvertime || now >= session.targetEndTime) {
+    clock = `+${formatClock(Math.max(0, Math.floor((now - session.targetEndTime) / 1000)))}`;
+  } else if (session.isPaused && session.remainingSeconds !== null) {
+    clock = formatClock(session.remainingSeconds);
+  } else {
+    clock = formatClock(Math.ceil((session.targetEndTime - now) / 1000));
+  }
+
+  const DeviceIcon = session.deviceLabel === "computer" ? Laptop : Smartphone;
+
+  const run = async (action: LiveFocusSessionAction) => {
+    if (action === "stop") {
+      const confirmed = await confirm({
+        title: "Stop this session?",
+        description: `The ${SESSION_LABELS[session.sessionType].toLowerCase()} on your ${session.deviceLabel} ends without being counted.`,
+        confirmText: "Stop",
+        type: "danger",
+      });
+      if (!confirmed) return;
+    }
+
+    setPending(action);
+    try {
+      await onControl(action);
+    } catch {
+      // The error toast comes from the Firestore helpers
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <>
+      {ConfirmDialogComponent}
+
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="rounded-3xl bg-card border border-border p-6"
+      >
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="h-10 w-10 shrink-0 rounded-2xl bg-purple-500/20 flex items-center justify-center">
+              <DeviceIcon className="h-5 w-5 text-purple-400" />
+            </div>
+            <div className="min-w-0">
+              <p className="text-sm font-bold text-foreground">Running on your {session.deviceLabel}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {SESSION_LABELS[session.sessionType]} · {session.presetName}
+                {session.programStep && ` · Step ${session.programStep.index + 1} of ${session.programStep.total}`}
+                {session.linkedTaskTitle && ` · ${session.linkedTaskTitle}`}
+              </p>
+            </div>
+          </div>
+          <p className="text-3xl font-black tabular-nums text-foreground">{clock}</p>
+        </div>
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          {!session.isOvertime && (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => run(session.isPaused ? "resume" : "pause")}
+              disabled={pending !== null}
+              className="gap-2"
+            >
+              {session.isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+              {session.isPaused ? "Resume" : "Pause"}
+            </Button>
+          )}
+          {session.timerMode === "timer" && (
+            <Button variant="ghost" size="sm" onClick={() => run("skip")} disabled={pending !== null} className="gap-2">
+              <SkipForward className="h-4 w-4" /> Skip
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => run("stop")}
+            disabled={pending !== null}
+            className="gap-2 text-muted-foreground hover:text-red-400"
+          >
+            <Square className="h-4 w-4" /> Stop
+          </Button>
+        </div>
+      </motion.div>
+    </>
+  );
+};
@@ -1,76 +1,60 @@
 "use client";
 
 import React from "react";
-import { Timer, Zap, Flame, Settings } from "lucide-react";
+import { Timer, Zap, Flame, Settings, ListOrdered, Plus, Pencil } from "lucide-react";
 import { motion } from "framer-motion";
-
-export type FocusPresetId = "classic" | "deepWork" | "sprint" | "custom";
-
-export interface FocusPresetConfig {
-    id: FocusPresetId;
-    name: string;
-    icon: React.ReactNode;
-    focusMinutes: number;
-    shortBreakMinutes: number;
-    longBreakMinutes: number;
-    description: string;
-    color: string;
-}
+import { FocusPreset, isFocusProgram } from "@/lib/focusSessionUtils";
 
 interface PresetSelectorProps {
-    currentPreset: FocusPresetId;
-    onSelectPreset: (preset: FocusPresetId, config: FocusPresetConfig) => void;
+    presets: FocusPreset[];
+    currentPreset: string;
+    onSelectPreset: (preset: FocusPreset) => void;
+    onCreatePreset?: () => void;
+    onEditPreset?: (preset: FocusPreset) => void;
     disabled?: boolean;
 }
 
-const PRESET_CONFIGS: FocusPresetConfig[] = [
-    {
-        id: "classic",
-        name: "Classic",
+// Look of the built-in presets; custom ones share one style
+const PRESET_STYLES: Record<string, { icon: React.ReactNode; color: string; info: string }> = {
+    classic: {
         icon: <Timer className="h-4 w-4" />,
-        focusMinutes: 25,
-        shortBreakMinutes: 5,
-        longBreakMinutes: 15,
-        description: "Traditional 25/5/15 Pomodoro",
         color: "from-purple-500 to-pink-500",
+        info: "🍅 Traditional Pomodoro technique",
     },
-    {
-        id: "deepWork",
-        name: "Deep Work",
+    deepWork: {
         icon: <Flame className="h-4 w-4" />,
-        focusMinutes: 50,
-        shortBreakMinutes: 10,
-        longBreakMinutes: 30,
-        description: "Extended focus for complex tasks",
         color: "from-orange-500 to-red-500",
+        info: "🔥 Maximize concentration periods",
     },
-    {
-        id: "sprint",
-        name: "Sprint",
+    sprint: {
         icon: <Zap className="h-4 w-4" />,
-        focusMinutes: 15,
-        shortBreakMinutes: 3,
-        longBreakMinutes: 10,
-        description: "Quick bursts for rapid progress",
         color: "from-yellow-500 to-orange-500",
+        info: "⚡ Perfect for quick tasks",
     },
-    {
-        id: "custom",
-        name: "Custom",
-        icon: <Settings className="h-4 w-4" />,
-        focusMinutes: 25,
-        shortBreakMinutes: 5,
-        longBreakMinutes: 15,
-        description: "Your personalized rhythm",
-        color: "from-cyan-500 to-blue-500",
-    },
-];
+};
+
+const CUSTOM_COLOR = "from-cyan-500 to-blue-500";
+
+function getDurations(preset: FocusPreset): string[] {
+    if (!isFocusProgram(preset)) {
+        return [`${preset.focusMinutes}m`, `${preset.shortBreakMinutes}m`];
+    }
+
+    const durations = preset.steps!.map(step => `${step.minutes}m`);
+    if ((preset.rounds || 1) > 1) durations.push(`×${preset.rounds}`);
+    return durations;
+}
 
 export const PresetSelector: React.FC<PresetSelectorProps> = ({
+    presets,
     currentPreset,
     onSelectPreset,
+    onCreatePreset,
+    onEditPreset,
     disabled = false,
 }) => {
+    const selected = presets.find(preset => preset.id === currentPreset);
+
     return (
         <div className="space-y-3">
             <label className="text-xs font-bold text-muted-foreground uppercase tracking-widest">
@@ -78,91 +62,113 @@ export const PresetSelector: React.FC<PresetSelectorProps> = ({
             </label>
 
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                {PRESET_CONFIGS.map((preset) => {
+                {presets.map((preset) => {
                     const isSelected = currentPreset === preset.id;
+                    const style = PRESET_STYLES[preset.id];
+                    const color = style?.color || CUSTOM_COLOR;
+                    const icon = style?.icon || (isFocusProgram(preset)
+                        ? <ListOrdered className="h-4 w-4" />
+                        : <Settings className="h-4 w-4" />);
 
                     return (
-                        <motion.button
-                            key={preset.id}
-                            onClick={() => onSelectPreset(preset.id, preset)}
-                            disabled={disabled}
-                            whileHover={!disabled ? { scale: 1.02 } : {}}
-                            whileTap={!disabled ? { scale: 0.98 } : {}}
-                            className={`
-                relative p-4 rounded-2xl border-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed
+                        <div key={preset.id} className="relative">
+                            <motion.button
+                                onClick={() => onSelectPreset(preset)}
+                                disabled={disabled}
+                                whileHover={!disabled ? { scale: 1.02 } : {}}
+                                whileTap={!disabled ? { scale: 0.98 } : {}}
+                                className={`
+                w-full h-full relative p-4 rounded-2xl border-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed
                 ${isSelected
-                                    ? `border-transparent bg-gradient-to-br ${preset.color} text-white shadow-lg`
-                                    : "border-border bg-card hover:bg-muted/50 text-foreground"
-                                }
+                                        ? `border-transparent bg-gradient-to-br ${color} text-white shadow-lg`
+                                        : "border-border bg-card hover:bg-muted/50 text-foreground"
+                                    }
               `}
-                        >
-                            {/* Selection Indicator */}
-                            {isSelected && (
-                                <motion.div
-                                    layoutId="preset-selector"
-                                    className="absolute inset-0 rounded-2xl ring-2 ring-offset-2 ring-offset-background ring-white/50"
-                                    transition={{ type: "spring", damping: 25, stiffness: 300 }}
-                                />
-                            )}
+                            >
+                                {/* Selection Indicator */}
+                                {isSelected && (
+                                    <motion.div
+                                        layoutId="preset-selector"
+                                        className="absolute inset-0 rounded-2xl ring-2 ring-offset-2 ring-offset-background ring-white/50"
+                                        transition={{ type: "spring", damping: 25, stiffness: 300 }}
+                                    />
+                                )}
 
-                            <div className="relative flex items-start gap-3">
-                                <div
-                                    className={`
+                                <div className="relative flex items-start gap-3">
+                                    <div
+                                        className={`
                   h-9 w-9 rounded-xl flex items-center justify-center shrink-0
                   ${isSelected
-                                            ? "bg-white/20"
-                                            : `bg-gradient-to-br ${preset.color}/10`
-                                        }
+                                                ? "bg-white/20"
+                                                : `bg-gradient-to-br ${color}/10`
+                                            }
                 `}
-                                >
-                                    <div
-                                        className={isSelected ? "text-white" : "text-purple-500"}
                                     >
-                                        {preset.icon}
+                                        <div
+                                            className={isSelected ? "text-white" : "text-purple-500"}
+                                        >
+                                            {icon}
+                                        </div>
                                     </div>
-                                </div>
-
-                                <div className="flex-1 text-left">
-                                    <p className="font-bold text-sm mb-0.5">{preset.name}</p>
-                                    <p
-                                        className={`text-[10px] leading-snug ${isSelected ? "text-white/80" : "text-muted-foreground"
-                                            }`}
-                                    >
-                                        {preset.description}
-                                    </p>
 
-                                    {/* Duration Display */}
-                                    <div className="mt-2 flex items-center gap-1 text-[10px] font-mono">
-                                        <span
-                                            className={`px-2 py-0.5 rounded ${isSelected ? "bg-white/20" : "bg-muted"
-                                                }`}
-                                        >
-                                            {preset.focusMinutes}m
-                                        </span>
-                                        <span className="opacity-50">/</span>
-                                        <span
-                                            className={`px-2 py-0.5 rounded ${isSelected ? "bg-white/20" : "bg-muted"
+                                    <div className="flex-1 min-w-0 text-left">
+                                        <p className="font-bold text-sm mb-0.5 truncate pr-6">{preset.name}</p>
+                                        <p
+                                            className={`text-[10px] leading-snug ${isSelected ? "text-white/80" : "text-muted-foreground"
                                                 }`}
                                         >
-                                            {preset.shortBreakMinutes}m
-                                        </span>
+                                            {preset.description}
+                                        </p>
+
+                                        {/* Duration Display */}
+                                        <div className="mt-2 flex flex-wrap items-center gap-1 text-[10px] font-mono">
+                                            {getDurations(preset).map((duration, index) => (
+                                                <React.Fragment key={index}>
+                                                    {index > 0 && <span className="opacity-50">/</span>}
+                                                    <span
+                                                        className={`px-2 py-0.5 rounded ${isSelected ? "bg-white/20" : "bg-muted"
+                                                            }`}
+                                                    >
+                                                        {duration}
+                                                    </span>
+                                                </React.Fragment>
+                                            ))}
+                                        </div>
                                     </div>
                                 </div>
-                            </div>
-                        </motion.button>
+                            </motion.button>
+
+                            {preset.isCustom && onEditPreset && (
+                                <button
+                                    onClick={() => onEditPreset(preset)}
+                                    disabled={disabled}
+                                    className={`absolute top-3 right-3 h-7 w-7 rounded-lg flex items-center justify-center transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${isSelected ? "text-white/80 hover:bg-white/20" : "text-muted-foreground hover:bg-muted"}`}
+                                    title="Edit preset"
+                                >
+                                    <Pencil className="h-3.5 w-3.5" />
+                                </button>
+                            )}
+                        </div>
                     );
                 })}
+
+                {onCreatePreset && (
+                    <button
+                        onClick={onCreatePreset}
+                        disabled={disabled}
+                        className="p-4 rounded-2xl border-2 border-dashed border-border text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-all flex items-center justify-center gap-2 text-sm font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Plus className="h-4 w-4" />
+                        New preset or program
+                    </button>
+                )}
             </div>
 
             {/* Info */}
             <p className="text-[10px] text-muted-foreground text-center">
-                {currentPreset === "classic" && "🍅 Traditional Pomodoro technique"}
-                {currentPreset === "deepWork" && "🔥 Maximize concentration periods"}
-                {currentPreset === "sprint" && "⚡ Perfect for quick tasks"}
-                {currentPreset === "custom" && "⚙️ Customize in settings"}
+                {selected && (PRESET_STYLES[selected.id]?.info
+                    || (isFocusProgram(selected) ? "🔁 Steps run one after another" : "⚙️ Your own rhythm"))}
             </p>
         </div>
     );
 };
-
-export { PRESET_CONFIGS };
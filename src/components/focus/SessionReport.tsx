@@ -17,6 +17,7 @@ interface SessionReportProps {
         isPerfectFocus: boolean;
         distractionCount: number;
         totalDistractTime: number;
+        blockedAttempts?: number;
         overtimeMinutes?: number;
         mode?: "timer" | "stopwatch";
     };
@@ -37,6 +38,7 @@ export const SessionReport: React.FC<SessionReportProps> = ({
         isPerfectFocus,
         distractionCount,
         totalDistractTime,
+        blockedAttempts = 0,
         overtimeMinutes = 0,
         mode = "timer",
     } = sessionData;
@@ -209,6 +211,12 @@ export const SessionReport: React.FC<SessionReportProps> = ({
                             </p>
                         </div>
                     </div>
+
+                    {blockedAttempts > 0 && (
+                        <p className="text-xs text-muted-foreground text-center">
+                            Strict focus blocked {blockedAttempts} attempt{blockedAttempts === 1 ? "" : "s"} to leave
+                        </p>
+                    )}
                 </div>
 
                 {/* Motivational Message */}
@@ -0,0 +1,108 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useFocusTimer } from "@/hooks/useFocusTimer";
+import { getBlockedRoute } from "@/lib/strictFocusUtils";
+
+/**
+ * Enforces strict focus app-wide: intercepts clicks on blocked links and
+ * covers blocked routes reached any other way (shortcuts, back button).
+ */
+export const StrictFocusGuard: React.FC = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const {
+    isStrictFocusActive,
+    strictFocus,
+    blockedNavigation,
+    guardNavigation,
+    recordBlockedAttempt,
+    dismissBlockedNavigation,
+    resetTimer,
+    minutes,
+    seconds,
+    timerMode,
+  } = useFocusTimer();
+
+  // Capture phase, so Next's <Link> never sees a blocked click
+  useEffect(() => {
+    if (!isStrictFocusActive) return;
+
+    const handleClick = (event: MouseEvent) => {
+      const anchor = (event.target as Element | null)?.closest?.("a[href]");
+      if (!(anchor instanceof HTMLAnchorElement)) return;
+
+      if (!guardNavigation(anchor.href)) {
+        event.preventDefault();
+        event.stopPropagation();
+      }
+    };
+
+    document.addEventListener("click", handleClick, true);
+    return () => document.removeEventListener("click", handleClick, true);
+  }, [isStrictFocusActive, guardNavigation]);
+
+  useEffect(() => {
+    if (!isStrictFocusActive || !pathname) return;
+
+    const blocked = getBlockedRoute(pathname, strictFocus);
+    if (blocked) recordBlockedAttempt(blocked, pathname);
+  }, [isStrictFocusActive, pathname, strictFocus, recordBlockedAttempt]);
+
+  if (!blockedNavigation || !isStrictFocusActive) return null;
+
+  const onBlockedRoute = pathname === blockedNavigation.href;
+  const timeLabel = `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+
+  const handleStay = () => {
+    dismissBlockedNavigation();
+    if (onBlockedRoute) router.push("/focus");
+  };
+
+  const handleEndSession = async () => {
+    const { kind, href } = blockedNavigation;
+    await resetTimer();
+
+    if (kind === "site") {
+      window.open(href, "_blank", "noopener,noreferrer");
+    } else if (!onBlockedRoute) {
+      router.push(href);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/80 backdrop-blur-md p-4">
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        className="w-full max-w-md rounded-3xl bg-card border border-border p-8 shadow-2xl text-center"
+      >
+        <div className="mx-auto mb-4 h-14 w-14 rounded-2xl bg-gradient-to-br from-rose-500 to-red-500 flex items-center justify-center">
+          <ShieldAlert className="h-7 w-7 text-white" />
+        </div>
+        <h2 className="text-2xl font-black text-foreground">Stay in the zone</h2>
+        <p className="mt-2 text-sm text-muted-foreground">
+          <span className="font-semibold text-foreground">{blockedNavigation.label}</span> is blocked during strict focus.
+        </p>
+
+        <div className="my-6">
+          <p className="text-5xl font-black tabular-nums text-foreground">{timeLabel}</p>
+          <p className="mt-1 text-xs font-bold uppercase tracking-wider text-muted-foreground">
+            {timerMode === "stopwatch" ? "focused so far" : "left in this session"}
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Button onClick={handleStay}>Back to focus</Button>
+          <Button variant="ghost" onClick={handleEndSession} className="text-muted-foreground hover:text-red-400">
+            End session and continue
+          </Button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
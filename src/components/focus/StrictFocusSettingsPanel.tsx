@@ -0,0 +1,148 @@
+"use client";
+
+import React, { useState } from "react";
+import { ShieldCheck, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button, cn } from "@/components/ui/Button";
+import {
+  BLOCKABLE_ROUTES,
+  normalizeSite,
+  STRICT_FOCUS_LIMITS,
+  StrictFocusSettings,
+} from "@/lib/strictFocusUtils";
+
+interface StrictFocusSettingsPanelProps {
+  settings: StrictFocusSettings;
+  onChange: (settings: StrictFocusSettings) => void;
+  disabled?: boolean;
+}
+
+export const StrictFocusSettingsPanel: React.FC<StrictFocusSettingsPanelProps> = ({
+  settings,
+  onChange,
+  disabled = false,
+}) => {
+  const [site, setSite] = useState("");
+
+  const toggleRoute = (path: string) => {
+    const blockedRoutes = settings.blockedRoutes.includes(path)
+      ? settings.blockedRoutes.filter(route => route !== path)
+      : [...settings.blockedRoutes, path];
+    onChange({ ...settings, blockedRoutes });
+  };
+
+  const addSite = () => {
+    const hostname = normalizeSite(site);
+    if (!hostname) {
+      toast.error("Enter a site like youtube.com");
+      return;
+    }
+    if (settings.blockedSites.length >= STRICT_FOCUS_LIMITS.maxSites) {
+      toast.error(`You can block up to ${STRICT_FOCUS_LIMITS.maxSites} sites`);
+      return;
+    }
+
+    if (!settings.blockedSites.includes(hostname)) {
+      onChange({ ...settings, blockedSites: [...settings.blockedSites, hostname] });
+    }
+    setSite("");
+  };
+
+  const removeSite = (hostname: string) => {
+    onChange({ ...settings, blockedSites: settings.blockedSites.filter(s => s !== hostname) });
+  };
+
+  return (
+    <div className={cn("space-y-4", disabled && "opacity-50")}>
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <ShieldCheck className="h-5 w-5 text-purple-400" />
+          <div>
+            <p className="text-sm font-bold text-foreground">Strict focus</p>
+            <p className="text-xs text-muted-foreground">Block pages and sites during focus sessions</p>
+          </div>
+        </div>
+        <button
+          role="switch"
+          aria-checked={settings.enabled}
+          onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+          disabled={disabled}
+          className={cn(
+            "relative h-6 w-11 rounded-full transition-colors disabled:cursor-not-allowed",
+            settings.enabled ? "bg-purple-500" : "bg-white/10"
+          )}
+        >
+          <span
+            className={cn(
+              "absolute top-0.5 left-0.5 h-5 w-5 rounded-full bg-white transition-transform",
+              settings.enabled && "translate-x-5"
+            )}
+          />
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {BLOCKABLE_ROUTES.map(route => (
+              <button
+                key={route.path}
+                onClick={() => toggleRoute(route.path)}
+                disabled={disabled}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-xs font-bold border transition-all disabled:cursor-not-allowed",
+                  settings.blockedRoutes.includes(route.path)
+                    ? "bg-purple-500/20 border-purple-500/30 text-purple-400"
+                    : "bg-white/5 border-white/10 text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {route.label}
+              </button>
+            ))}
+          </div>
+
+          {settings.blockedSites.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {settings.blockedSites.map(hostname => (
+                <span
+                  key={hostname}
+                  className="flex items-center gap-1 rounded-lg bg-white/5 border border-white/10 pl-3 pr-1 py-1 text-xs font-mono text-foreground"
+                >
+                  {hostname}
+                  <button
+                    onClick={() => removeSite(hostname)}
+                    disabled={disabled}
+                    className="h-5 w-5 rounded flex items-center justify-center text-muted-foreground hover:text-red-400 disabled:cursor-not-allowed"
+                    title={`Unblock ${hostname}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              value={site}
+              onChange={(e) => setSite(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && site.trim()) addSite();
+              }}
+              placeholder="Block a site, e.g. youtube.com"
+              disabled={disabled}
+              className="flex-1 min-w-0 rounded-xl bg-muted border border-border px-4 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+            />
+            <Button variant="secondary" onClick={addSite} disabled={disabled || !site.trim()} className="gap-2">
+              <Plus className="h-4 w-4" /> Block
+            </Button>
+          </div>
+
+          {disabled && (
+            <p className="text-xs text-muted-foreground">The blocklist is locked until this session ends.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
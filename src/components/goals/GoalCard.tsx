@@ -2,29 +2,15 @@
 
 import React from "react";
 import { Button, cn } from "@/components/ui/Button";
-import { Target, Calendar, Trash2, Edit2, CheckCircle, Trophy } from "lucide-react";
-import { format, differenceInDays, isPast } from "date-fns";
-
-export interface Goal {
-    id: string;
-    title: string;
-    description: string;
-    icon: string;
-    targetDate: string; // ISO date string
-    createdAt: string;
-    milestones: Milestone[];
-    linkedTaskIds: string[];
-    isCompleted: boolean;
-}
-
-export interface Milestone {
-    id: string;
-    title: string;
-    isCompleted: boolean;
-}
+import { Calendar, Trash2, Edit2, CheckCircle, Trophy, Repeat } from "lucide-react";
+import { format, differenceInDays, isPast, parseISO } from "date-fns";
+import type { Goal } from "@/context/GoalContext";
+import type { Task } from "@/context/TaskContext";
+import { calculateGoalProgress, countLinkedCompletions, getMilestoneCounts, getSortedMilestones } from "@/lib/goalUtils";
 
 interface GoalCardProps {
     goal: Goal;
+    linkedTasks?: Task[];
     onEdit: (goal: Goal) => void;
     onDelete: (id: string) => void;
     onToggleComplete: (id: string) => void;
@@ -33,6 +19,7 @@ interface GoalCardProps {
 
 export const GoalCard: React.FC<GoalCardProps> = ({
     goal,
+    linkedTasks = [],
     onEdit,
     onDelete,
     onToggleComplete,
@@ -42,15 +29,16 @@ export const GoalCard: React.FC<GoalCardProps> = ({
     const daysRemaining = differenceInDays(targetDate, new Date());
     const isOverdue = isPast(targetDate) && !goal.isCompleted;
 
-    // Safety check for milestones
-    const rawMilestones = goal.milestones;
-    const milestones = Array.isArray(rawMilestones) ? rawMilestones : [];
+    const milestones = getSortedMilestones(goal);
+    const { completed: completedMilestones, total: totalMilestones } = getMilestoneCounts(goal);
+    const progress = calculateGoalProgress(goal, linkedTasks);
+    const completionRule = goal.progressRule?.type === "taskCompletions" ? goal.progressRule : null;
 
-    const completedMilestones = milestones.filter(m => m.isCompleted).length;
-    const totalMilestones = milestones.length;
-    const progress = totalMilestones > 0
-        ? Math.round((completedMilestones / totalMilestones) * 100)
-        : goal.isCompleted ? 100 : 0;
+    // Show the next open milestones first, then the most recently finished ones
+    const visibleMilestones = [
+        ...milestones.filter(m => !m.isCompleted),
+        ...milestones.filter(m => m.isCompleted),
+    ].slice(0, 3);
 
     return (
         <div
@@ -76,7 +64,7 @@ export const GoalCard: React.FC<GoalCardProps> = ({
                                 ? "neu-concave text-green-500/50"
                                 : "neu-convex bg-gradient-to-br from-purple-500/10 to-pink-500/10 text-foreground group-hover:scale-110"
                         )}>
-                            <span className="filter drop-shadow-md">{goal.icon}</span>
+                            <span className="filter drop-shadow-md">{goal.icon || "🎯"}</span>
                         </div>
                         <div>
                             <h3 className={cn(
@@ -168,6 +156,33 @@ export const GoalCard: React.FC<GoalCardProps> = ({
                     </div>
                 </div>
 
+                {/* Linked Routines */}
+                {(completionRule || linkedTasks.length > 0) && (
+                    <div className="space-y-3 mb-5">
+                        <span className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest pl-1 flex items-center gap-1.5">
+                            <Repeat className="h-3 w-3" />
+                            Fed by routines
+                            {completionRule && ` (${countLinkedCompletions(goal, linkedTasks)}/${completionRule.targetCount})`}
+                        </span>
+                        {linkedTasks.length > 0 ? (
+                            <div className="flex flex-wrap gap-2">
+                                {linkedTasks.map((task) => (
+                                    <span
+                                        key={task.id}
+                                        className="px-3 py-1.5 rounded-lg neu-flat text-xs font-bold text-foreground/80"
+                                    >
+                                        {task.icon} {task.title}
+                                    </span>
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="text-xs font-medium text-muted-foreground/60 pl-1">
+                                Link a routine to this goal from the task editor
+                            </p>
+                        )}
+                    </div>
+                )}
+
                 {/* Milestones */}
                 {milestones.length > 0 && (
                     <div className="space-y-3">
@@ -175,7 +190,7 @@ export const GoalCard: React.FC<GoalCardProps> = ({
                             Milestones ({completedMilestones}/{totalMilestones})
                         </span>
                         <div className="space-y-2">
-                            {milestones.slice(0, 3).map((milestone) => (
+                            {visibleMilestones.map((milestone) => (
                                 <button
                                     key={milestone.id}
                                     onClick={() => onToggleMilestone(goal.id, milestone.id)}
@@ -202,6 +217,11 @@ export const GoalCard: React.FC<GoalCardProps> = ({
                                     )}>
                                         {milestone.title}
                                     </span>
+                                    {milestone.targetDate && (
+                                        <span className="ml-auto text-[10px] font-bold text-muted-foreground shrink-0">
+                                            {format(parseISO(milestone.targetDate), "MMM d")}
+                                        </span>
+                                    )}
                                 </button>
                             ))}
                             {milestones.length > 3 && (
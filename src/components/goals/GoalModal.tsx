@@ -4,14 +4,15 @@ import React, { useState, useEffect } from "react";
 import { Modal } from "@/components/ui/Modal";
 import { Button, cn } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
-import { Target, Plus, X, Calendar } from "lucide-react";
+import { Target, Plus, X, Calendar, ChevronUp, ChevronDown, CheckCircle, Repeat } from "lucide-react";
 import { v4 as uuidv4 } from "uuid";
-import { Goal, Milestone } from "./GoalCard";
+import type { Goal, GoalProgressRule, Milestone, NewGoal } from "@/context/GoalContext";
+import { getSortedMilestones, normalizeMilestoneOrder } from "@/lib/goalUtils";
 
 interface GoalModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSave: (goal: Omit<Goal, "id" | "createdAt" | "isCompleted"> | Goal) => void;
+    onSave: (goal: NewGoal | Goal) => void;
     goalToEdit?: Goal;
 }
 
@@ -27,6 +28,9 @@ export const GoalModal: React.FC<GoalModalProps> = ({
     const [targetDate, setTargetDate] = useState("");
     const [milestones, setMilestones] = useState<Milestone[]>([]);
     const [newMilestone, setNewMilestone] = useState("");
+    const [newMilestoneDate, setNewMilestoneDate] = useState("");
+    const [progressMode, setProgressMode] = useState<GoalProgressRule["type"]>("milestones");
+    const [targetCount, setTargetCount] = useState(30);
 
     useEffect(() => {
         if (goalToEdit) {
@@ -34,7 +38,10 @@ export const GoalModal: React.FC<GoalModalProps> = ({
             setDescription(goalToEdit.description || "");
             setIcon(goalToEdit.icon || "🎯");
             setTargetDate(goalToEdit.targetDate ? goalToEdit.targetDate.split("T")[0] : "");
-            setMilestones(goalToEdit.milestones || []);
+            setMilestones(getSortedMilestones(goalToEdit));
+            const rule = goalToEdit.progressRule;
+            setProgressMode(rule?.type ?? "milestones");
+            setTargetCount(rule?.type === "taskCompletions" ? rule.targetCount : 30);
         } else {
             resetForm();
         }
@@ -47,32 +54,73 @@ export const GoalModal: React.FC<GoalModalProps> = ({
         setTargetDate("");
         setMilestones([]);
         setNewMilestone("");
+        setNewMilestoneDate("");
+        setProgressMode("milestones");
+        setTargetCount(30);
+    };
+
+    const buildProgressRule = (): GoalProgressRule => {
+        if (progressMode === "milestones") return { type: "milestones" };
+
+        // Keep the original counting window when editing an existing rule
+        const existing = goalToEdit?.progressRule;
+        return {
+            type: "taskCompletions",
+            targetCount: Math.max(1, Math.round(targetCount) || 1),
+            ...(existing?.type === "taskCompletions" && existing.startDate ? { startDate: existing.startDate } : {}),
+        };
     };
 
     const handleAddMilestone = () => {
         if (newMilestone.trim()) {
-            setMilestones([
-                ...milestones,
-                { id: uuidv4(), title: newMilestone.trim(), isCompleted: false },
-            ]);
+            const milestone: Milestone = {
+                id: uuidv4(),
+                title: newMilestone.trim(),
+                isCompleted: false,
+                order: milestones.length,
+            };
+            if (newMilestoneDate) milestone.targetDate = newMilestoneDate;
+
+            setMilestones([...milestones, milestone]);
             setNewMilestone("");
+            setNewMilestoneDate("");
         }
     };
 
     const handleRemoveMilestone = (id: string) => {
-        setMilestones(milestones.filter((m) => m.id !== id));
+        setMilestones(normalizeMilestoneOrder(milestones.filter((m) => m.id !== id)));
+    };
+
+    const handleToggleMilestone = (id: string) => {
+        setMilestones(milestones.map((m) => {
+            if (m.id !== id) return m;
+            if (!m.isCompleted) return { ...m, isCompleted: true, completedAt: new Date().toISOString() };
+
+            const { completedAt: _completedAt, ...rest } = m;
+            return { ...rest, isCompleted: false };
+        }));
+    };
+
+    const handleMoveMilestone = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= milestones.length) return;
+
+        const reordered = [...milestones];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        setMilestones(normalizeMilestoneOrder(reordered));
     };
 
     const handleSave = () => {
         if (!title.trim() || !targetDate) return;
 
-        const goalData = {
+        const goalData: NewGoal = {
             title: title.trim(),
             description: description.trim(),
             icon,
+            category: goalToEdit?.category || "Personal",
             targetDate: new Date(targetDate).toISOString(),
-            milestones,
-            linkedTaskIds: goalToEdit?.linkedTaskIds || [],
+            milestones: normalizeMilestoneOrder(milestones),
+            progressRule: buildProgressRule(),
         };
 
         if (goalToEdit) {
@@ -147,6 +195,49 @@ export const GoalModal: React.FC<GoalModalProps> = ({
                     />
                 </div>
 
+                {/* Progress Rule */}
+                <div className="p-4 rounded-2xl bg-white/[0.03] border border-white/5">
+                    <div className="flex items-center gap-2 mb-3 text-purple-400">
+                        <Repeat className="h-4 w-4" />
+                        <span className="text-[10px] font-bold uppercase tracking-widest">
+                            Progress From
+                        </span>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        {([
+                            { value: "milestones", label: "Milestones" },
+                            { value: "taskCompletions", label: "Linked Routines" },
+                        ] as const).map((option) => (
+                            <button
+                                key={option.value}
+                                type="button"
+                                onClick={() => setProgressMode(option.value)}
+                                className={cn(
+                                    "py-2.5 rounded-xl text-xs font-bold transition-all border",
+                                    progressMode === option.value
+                                        ? "bg-purple-500/20 border-purple-500/40 text-purple-300"
+                                        : "bg-white/5 border-white/5 text-muted-foreground hover:text-white"
+                                )}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    {progressMode === "taskCompletions" && (
+                        <div className="mt-4 flex items-center gap-3">
+                            <span className="text-sm text-muted-foreground">Complete linked routines</span>
+                            <Input
+                                type="number"
+                                min={1}
+                                value={targetCount}
+                                onChange={(e) => setTargetCount(Number(e.target.value))}
+                                className="bg-black/20 border-white/5 w-24"
+                            />
+                            <span className="text-sm text-muted-foreground">times by the target date</span>
+                        </div>
+                    )}
+                </div>
+
                 {/* Milestones */}
                 <div className="p-4 rounded-2xl bg-white/[0.03] border border-white/5">
                     <div className="flex items-center gap-2 mb-3 text-purple-400">
@@ -165,6 +256,14 @@ export const GoalModal: React.FC<GoalModalProps> = ({
                             onKeyDown={(e) => e.key === "Enter" && handleAddMilestone()}
                             className="bg-black/20 border-white/5"
                         />
+                        <Input
+                            type="date"
+                            value={newMilestoneDate}
+                            onChange={(e) => setNewMilestoneDate(e.target.value)}
+                            max={targetDate || undefined}
+                            title="Milestone date (optional)"
+                            className="bg-black/20 border-white/5 w-40 shrink-0"
+                        />
                         <Button
                             onClick={handleAddMilestone}
                             disabled={!newMilestone.trim()}
@@ -182,22 +281,62 @@ export const GoalModal: React.FC<GoalModalProps> = ({
                                     key={milestone.id}
                                     className="flex items-center justify-between gap-3 p-3 rounded-xl bg-white/[0.03] border border-white/5"
                                 >
-                                    <div className="flex items-center gap-3">
+                                    <div className="flex items-center gap-3 min-w-0">
+                                        <button
+                                            onClick={() => handleToggleMilestone(milestone.id)}
+                                            className={cn(
+                                                "h-5 w-5 shrink-0 rounded-full border-2 flex items-center justify-center transition-all",
+                                                milestone.isCompleted
+                                                    ? "border-green-500 bg-green-500 text-white"
+                                                    : "border-muted-foreground/30 text-transparent hover:border-purple-500"
+                                            )}
+                                            title={milestone.isCompleted ? "Mark incomplete" : "Mark complete"}
+                                        >
+                                            <CheckCircle className="h-3.5 w-3.5" />
+                                        </button>
                                         <span className="text-xs font-bold text-muted-foreground w-6">
                                             {index + 1}.
                                         </span>
-                                        <span className="text-sm font-medium text-white">
+                                        <span className={cn(
+                                            "text-sm font-medium truncate",
+                                            milestone.isCompleted ? "text-muted-foreground line-through" : "text-white"
+                                        )}>
                                             {milestone.title}
                                         </span>
+                                        {milestone.targetDate && (
+                                            <span className="text-[10px] font-bold text-muted-foreground shrink-0">
+                                                {milestone.targetDate}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <div className="flex items-center gap-1 shrink-0">
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => handleMoveMilestone(index, -1)}
+                                            disabled={index === 0}
+                                            className="h-8 w-8 rounded-lg text-muted-foreground hover:text-foreground"
+                                        >
+                                            <ChevronUp className="h-4 w-4" />
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => handleMoveMilestone(index, 1)}
+                                            disabled={index === milestones.length - 1}
+                                            className="h-8 w-8 rounded-lg text-muted-foreground hover:text-foreground"
+                                        >
+                                            <ChevronDown className="h-4 w-4" />
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => handleRemoveMilestone(milestone.id)}
+                                            className="h-8 w-8 rounded-lg hover:bg-red-500/20 text-muted-foreground hover:text-red-400"
+                                        >
+                                            <X className="h-4 w-4" />
+                                        </Button>
                                     </div>
-                                    <Button
-                                        variant="ghost"
-                                        size="icon"
-                                        onClick={() => handleRemoveMilestone(milestone.id)}
-                                        className="h-8 w-8 rounded-lg hover:bg-red-500/20 text-muted-foreground hover:text-red-400"
-                                    >
-                                        <X className="h-4 w-4" />
-                                    </Button>
                                 </div>
                             ))}
                         </div>
@@ -2,8 +2,9 @@
 
 import React, { useMemo } from "react";
 import { Goal } from "@/context/GoalContext";
-import { format, differenceInDays, isPast, addDays } from "date-fns";
-import { Target, Flag, CheckCircle, CalendarDays, Milestone } from "lucide-react";
+import { format, differenceInDays, isPast, addDays, parseISO } from "date-fns";
+import { Target, Flag, CheckCircle, CalendarDays, Milestone, Circle } from "lucide-react";
+import { calculateGoalProgress, getSortedMilestones } from "@/lib/goalUtils";
 
 interface GoalTimelineProps {
     goals: Goal[];
@@ -101,6 +102,8 @@ export const GoalTimeline: React.FC<GoalTimelineProps> = ({ goals, onGoalClick }
                     {sortedGoals.map((goal) => {
                         const status = getGoalStatus(goal);
                         const daysLeft = differenceInDays(new Date(goal.targetDate), new Date());
+                        const progress = calculateGoalProgress(goal);
+                        const milestones = getSortedMilestones(goal);
 
                         return (
                             <div
@@ -128,7 +131,7 @@ export const GoalTimeline: React.FC<GoalTimelineProps> = ({ goals, onGoalClick }
                                         <div className="flex-1 min-w-0">
                                             {/* Goal Title */}
                                             <div className="flex items-center gap-2 mb-1">
-                                                <span className="text-xl">🎯</span>
+                                                <span className="text-xl">{goal.icon || "🎯"}</span>
                                                 <h4 className={`font-bold truncate ${status === "completed" ? "text-emerald-400 line-through" : "text-foreground"
                                                     }`}>
                                                     {goal.title}
@@ -143,20 +146,43 @@ export const GoalTimeline: React.FC<GoalTimelineProps> = ({ goals, onGoalClick }
                                             )}
 
                                             {/* Progress Bar */}
-                                            {goal.progress > 0 && (
+                                            {progress > 0 && (
                                                 <div className="flex items-center gap-2">
                                                     <Milestone className="h-3 w-3 text-muted-foreground" />
                                                     <div className="flex-1 h-1.5 rounded-full bg-white/10 overflow-hidden">
                                                         <div
                                                             className={`h-full rounded-full bg-gradient-to-r ${statusColors[status]}`}
-                                                            style={{ width: `${goal.progress}%` }}
+                                                            style={{ width: `${progress}%` }}
                                                         />
                                                     </div>
                                                     <span className="text-xs text-muted-foreground">
-                                                        {goal.progress}%
+                                                        {progress}%
                                                     </span>
                                                 </div>
                                             )}
+
+                                            {/* Milestones */}
+                                            {milestones.length > 0 && (
+                                                <ol className="mt-3 space-y-1.5 border-l border-white/10 pl-3">
+                                                    {milestones.map((milestone) => (
+                                                        <li key={milestone.id} className="flex items-center gap-2 text-xs">
+                                                            {milestone.isCompleted ? (
+                                                                <CheckCircle className="h-3 w-3 text-emerald-400 shrink-0" />
+                                                            ) : (
+                                                                <Circle className="h-3 w-3 text-muted-foreground shrink-0" />
+                                                            )}
+                                                            <span className={`truncate ${milestone.isCompleted ? "text-muted-foreground line-through" : "text-foreground/80"}`}>
+                                                                {milestone.title}
+                                                            </span>
+                                                            {milestone.targetDate && (
+                                                                <span className={`ml-auto shrink-0 text-[10px] ${!milestone.isCompleted && isPast(parseISO(milestone.targetDate)) ? "text-red-400" : "text-muted-foreground"}`}>
+                                                                    {format(parseISO(milestone.targetDate), "MMM d")}
+                                                                </span>
+                                                            )}
+                                                        </li>
+                                                    ))}
+                                                </ol>
+                                            )}
                                         </div>
 
                                         {/* Date & Status */}
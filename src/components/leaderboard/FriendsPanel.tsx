@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { UserPlus, UserMinus, Copy, Heart } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/Button";
+import { addFriend, fetchFriends, removeFriend } from "@/lib/apiClient";
+import type { FriendProfile } from "@/lib/socialService";
+
+interface FriendsPanelProps {
+    onFriendsChange: () => void;
+}
+
+export const FriendsPanel: React.FC<FriendsPanelProps> = ({ onFriendsChange }) => {
+    const [friendCode, setFriendCode] = useState<string | null>(null);
+    const [friends, setFriends] = useState<FriendProfile[]>([]);
+    const [code, setCode] = useState("");
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const result = await fetchFriends();
+                setFriendCode(result.friendCode);
+                setFriends(result.friends);
+            } catch (error) {
+                console.warn("Failed to load friends:", error);
+            }
+        };
+
+        load();
+    }, []);
+
+    const handleAdd = async () => {
+        setBusy(true);
+        try {
+            const friend = await addFriend(code);
+            setFriends(prev => prev.some(f => f.id === friend.id)
+                ? prev
+                : [...prev, friend].sort((a, b) => a.name.localeCompare(b.name)));
+            setCode("");
+            toast.success(`${friend.name} is now your friend`);
+            onFriendsChange();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Couldn't add friend");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRemove = async (friend: FriendProfile) => {
+        setBusy(true);
+        try {
+            await removeFriend(friend.id);
+            setFriends(prev => prev.filter(f => f.id !== friend.id));
+            onFriendsChange();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Couldn't remove friend");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const copyCode = async () => {
+        if (!friendCode) return;
+        await navigator.clipboard.writeText(friendCode);
+        toast.success("Friend code copied");
+    };
+
+    return (
+        <div className="rounded-3xl bg-card border border-border p-6">
+            <div className="flex items-center gap-3 mb-6">
+                <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-pink-500 to-orange-500 flex items-center justify-center">
+                    <Heart className="h-6 w-6 text-white" />
+                </div>
+                <div className="flex-1">
+                    <h3 className="text-lg font-bold text-foreground">Friends</h3>
+                    <p className="text-sm text-muted-foreground">Share your code, or enter a friend&apos;s</p>
+                </div>
+                {friendCode && (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={copyCode}
+                        className="gap-2 font-mono text-purple-400"
+                        title="Copy your friend code"
+                    >
+                        <Copy className="h-4 w-4" /> {friendCode}
+                    </Button>
+                )}
+            </div>
+
+            {friends.length > 0 && (
+                <div className="space-y-2 mb-6">
+                    {friends.map(friend => (
+                        <div key={friend.id} className="flex items-center gap-3 rounded-2xl bg-white/5 px-4 py-3">
+                            <div className="flex-1 min-w-0">
+                                <div className="font-semibold text-foreground truncate">{friend.name}</div>
+                                <div className="text-xs text-muted-foreground">@{friend.username}</div>
+                            </div>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleRemove(friend)}
+                                disabled={busy}
+                                className="text-muted-foreground hover:text-red-400"
+                                title="Remove friend"
+                            >
+                                <UserMinus className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex gap-2">
+                <input
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="Friend code"
+                    maxLength={12}
+                    className="flex-1 min-w-0 rounded-xl bg-muted border border-border px-4 py-2.5 text-sm font-mono uppercase text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                />
+                <Button onClick={handleAdd} disabled={busy || !code.trim()} className="gap-2">
+                    <UserPlus className="h-4 w-4" /> Add
+                </Button>
+            </div>
+        </div>
+    );
+};
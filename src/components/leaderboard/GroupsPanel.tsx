@@ -0,0 +1,151 @@
+"use client";
+
+import React, { useState } from "react";
+import { Users, Plus, LogIn, LogOut, Copy } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/Button";
+import { useConfirm } from "@/components/ui/ConfirmDialog";
+import { createGroup, joinGroup, leaveGroup } from "@/lib/apiClient";
+import type { Group } from "@/lib/socialService";
+
+interface GroupsPanelProps {
+    groups: Group[];
+    onGroupsChange: (groups: Group[]) => void;
+    onOpenGroup: (groupId: string) => void;
+}
+
+export const GroupsPanel: React.FC<GroupsPanelProps> = ({ groups, onGroupsChange, onOpenGroup }) => {
+    const { confirm, ConfirmDialogComponent } = useConfirm();
+    const [name, setName] = useState("");
+    const [code, setCode] = useState("");
+    const [busy, setBusy] = useState(false);
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        try {
+            await action();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Something went wrong");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleCreate = () => run(async () => {
+        const group = await createGroup(name.trim());
+        onGroupsChange([...groups, group].sort((a, b) => a.name.localeCompare(b.name)));
+        setName("");
+        toast.success(`Created ${group.name}. Share code ${group.inviteCode} to invite people.`);
+        onOpenGroup(group.id);
+    });
+
+    const handleJoin = () => run(async () => {
+        const group = await joinGroup(code);
+        if (!groups.some(g => g.id === group.id)) {
+            onGroupsChange([...groups, group].sort((a, b) => a.name.localeCompare(b.name)));
+        }
+        setCode("");
+        toast.success(`Joined ${group.name}`);
+        onOpenGroup(group.id);
+    });
+
+    const handleLeave = async (group: Group) => {
+        const confirmed = await confirm({
+            title: `Leave ${group.name}?`,
+            description: "You'll drop off this group's leaderboard. You can rejoin with the invite code.",
+            confirmText: "Leave",
+            type: "danger",
+        });
+        if (!confirmed) return;
+
+        await run(async () => {
+            await leaveGroup(group.id);
+            onGroupsChange(groups.filter(g => g.id !== group.id));
+        });
+    };
+
+    const copyCode = async (inviteCode: string) => {
+        await navigator.clipboard.writeText(inviteCode);
+        toast.success("Invite code copied");
+    };
+
+    return (
+        <div className="rounded-3xl bg-card border border-border p-6">
+            {ConfirmDialogComponent}
+
+            <div className="flex items-center gap-3 mb-6">
+                <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
+                    <Users className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                    <h3 className="text-lg font-bold text-foreground">Groups</h3>
+                    <p className="text-sm text-muted-foreground">Study groups, squads at work: rank against just them</p>
+                </div>
+            </div>
+
+            {groups.length > 0 && (
+                <div className="space-y-2 mb-6">
+                    {groups.map(group => (
+                        <div key={group.id} className="flex items-center gap-3 rounded-2xl bg-white/5 px-4 py-3">
+                            <button
+                                onClick={() => onOpenGroup(group.id)}
+                                className="flex-1 min-w-0 text-left"
+                            >
+                                <div className="font-semibold text-foreground truncate">{group.name}</div>
+                                <div className="text-xs text-muted-foreground">
+                                    {group.memberIds.length} member{group.memberIds.length === 1 ? "" : "s"}
+                                </div>
+                            </button>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => copyCode(group.inviteCode)}
+                                className="gap-2 font-mono text-purple-400"
+                                title="Copy invite code"
+                            >
+                                <Copy className="h-4 w-4" /> {group.inviteCode}
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleLeave(group)}
+                                disabled={busy}
+                                className="text-muted-foreground hover:text-red-400"
+                                title="Leave group"
+                            >
+                                <LogOut className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="grid gap-3 sm:grid-cols-2">
+                <div className="flex gap-2">
+                    <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="New group name"
+                        maxLength={50}
+                        className="flex-1 min-w-0 rounded-xl bg-muted border border-border px-4 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                    />
+                    <Button onClick={handleCreate} disabled={busy || !name.trim()} className="gap-2">
+                        <Plus className="h-4 w-4" /> Create
+                    </Button>
+                </div>
+                <div className="flex gap-2">
+                    <input
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        placeholder="Invite code"
+                        maxLength={12}
+                        className="flex-1 min-w-0 rounded-xl bg-muted border border-border px-4 py-2.5 text-sm font-mono uppercase text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                    />
+                    <Button variant="secondary" onClick={handleJoin} disabled={busy || !code.trim()} className="gap-2">
+                        <LogIn className="h-4 w-4" /> Join
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -13,17 +13,19 @@ export interface LeaderboardUser {
     streak: number;
     totalCompleted: number;
     isCurrentUser?: boolean;
-    score?: number; // Added for sorting
+    score?: number; // Score for the board's period (all time, week or month)
 }
 
 interface LeaderboardListProps {
     users: LeaderboardUser[];
     currentUserRank?: number;
+    emptyMessage?: string;
 }
 
 export const LeaderboardList: React.FC<LeaderboardListProps> = ({
     users,
     currentUserRank,
+    emptyMessage = "No one is ranked here yet",
 }) => {
     const getRankIcon = (rank: number) => {
         switch (rank) {
@@ -54,6 +56,14 @@ export const LeaderboardList: React.FC<LeaderboardListProps> = ({
         }
     };
 
+    if (users.length === 0) {
+        return (
+            <div className="rounded-2xl border border-white/5 bg-white/[0.03] p-8 text-center text-sm text-muted-foreground">
+                {emptyMessage}
+            </div>
+        );
+    }
+
     return (
         <div className="space-y-3">
             {users.map((user) => (
@@ -124,6 +134,12 @@ export const LeaderboardList: React.FC<LeaderboardListProps> = ({
 
                     {/* Stats */}
                     <div className="flex items-center gap-6 shrink-0">
+                        {user.score !== undefined && (
+                            <div className="text-right">
+                                <div className="text-xs text-muted-foreground uppercase tracking-wider">Points</div>
+                                <div className="text-lg font-bold text-purple-400">{user.score}</div>
+                            </div>
+                        )}
                         <div className="hidden sm:block text-right">
                             <div className="text-xs text-muted-foreground uppercase tracking-wider">Tasks</div>
                             <div className="text-lg font-bold text-white">{user.totalCompleted}</div>
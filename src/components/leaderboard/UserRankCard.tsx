@@ -9,9 +9,10 @@ import { toast } from "sonner";
 interface UserRankCardProps {
     rank: number;
     totalUsers: number;
+    boardLabel?: string; // e.g. "Friends · This Week"
 }
 
-export const UserRankCard: React.FC<UserRankCardProps> = ({ rank, totalUsers }) => {
+export const UserRankCard: React.FC<UserRankCardProps> = ({ rank, totalUsers, boardLabel }) => {
     const { tasks, getCompletionRate, calculateStreak } = useTask();
 
     const completionRate = getCompletionRate(7);
@@ -23,7 +24,7 @@ export const UserRankCard: React.FC<UserRankCardProps> = ({ rank, totalUsers })
     const handleShare = async () => {
         const shareData = {
             title: 'My RT Ranking',
-            text: `I'm ranked #${rank} on Routine Tracker with a ${maxStreak}-day streak! 🚀`,
+            text: `I'm ranked #${rank}${boardLabel ? ` (${boardLabel})` : ""} on Routine Tracker with a ${maxStreak}-day streak! 🚀`,
             url: window.location.origin
         };
 
@@ -49,7 +50,7 @@ export const UserRankCard: React.FC<UserRankCardProps> = ({ rank, totalUsers })
                 <div className="flex items-center justify-between mb-6">
                     <div>
                         <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest mb-1">
-                            Your Ranking
+                            Your Ranking{boardLabel && ` · ${boardLabel}`}
                         </h3>
                         <div className="flex items-baseline gap-2">
                             <span className="text-5xl font-bold text-white">#{rank}</span>
@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { useTask, Task } from "@/context/TaskContext";
+import { ImportService, IcsImportResult } from "@/lib/ImportService";
+import { describeRecurrence } from "@/lib/recurrenceUtils";
+import { useConfirm } from "@/components/ui/ConfirmDialog";
+import { Button } from "@/components/ui/Button";
+import { CalendarPlus, Upload, AlertTriangle, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+
+/**
+ * Describe when an imported task repeats, for the preview list
+ */
+function describeSchedule(task: Task): string {
+    if (task.specificDate) return format(parseISO(task.specificDate), "MMM d, yyyy");
+    if (task.recurrence) return describeRecurrence(task.recurrence);
+    return task.days.length === 7 ? "Every day" : task.days.join(", ");
+}
+
+export const CalendarImport: React.FC = () => {
+    const { tasks, addTask, replaceAllTasks } = useTask();
+    const { confirm, ConfirmDialogComponent } = useConfirm();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [fileName, setFileName] = useState("");
+    const [preview, setPreview] = useState<IcsImportResult | null>(null);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [isImporting, setIsImporting] = useState(false);
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = "";
+        if (!file) return;
+
+        try {
+            const result = ImportService.importICS(await file.text());
+            if (result.tasks.length === 0 && result.skipped.length === 0) {
+                toast.error("No events found in this file");
+                return;
+            }
+
+            setFileName(file.name);
+            setPreview(result);
+            setSelectedIds(new Set(result.tasks.map(t => t.id)));
+        } catch (error) {
+            console.error("Calendar import failed:", error);
+            toast.error("Couldn't read this calendar file");
+        }
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const clearPreview = () => {
+        setPreview(null);
+        setSelectedIds(new Set());
+        setFileName("");
+    };
+
+    const selectedTasks = preview?.tasks.filter(t => selectedIds.has(t.id)) ?? [];
+
+    const handleAdd = async () => {
+        setIsImporting(true);
+        try {
+            for (const { id: _id, isCompleted: _isCompleted, completionHistory: _history, ...taskData } of selectedTasks) {
+                await addTask(taskData);
+            }
+            toast.success(`Imported ${selectedTasks.length} routines from ${fileName}`);
+            clearPreview();
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleReplace = async () => {
+        const confirmed = await confirm({
+            title: "Replace all routines?",
+            description: `Your ${tasks.length} current routines and their history will be deleted and replaced by ${selectedTasks.length} imported ones.`,
+            confirmText: "Replace",
+            cancelText: "Cancel",
+            type: "danger"
+        });
+        if (!confirmed) return;
+
+        setIsImporting(true);
+        try {
+            await replaceAllTasks(selectedTasks);
+            toast.success(`Replaced your routines with ${selectedTasks.length} from ${fileName}`);
+            clearPreview();
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleFile}
+                className="hidden"
+            />
+
+            {!preview ? (
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-full flex items-center gap-4 p-4 rounded-2xl border bg-white/[0.02] border-white/10 hover:bg-white/5 hover:border-purple-500/30 transition-all"
+                >
+                    <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-amber-500 to-orange-500 flex items-center justify-center shrink-0">
+                        <CalendarPlus className="h-5 w-5 text-white" />
+                    </div>
+                    <div className="flex-1 text-left">
+                        <h4 className="font-bold text-foreground">Import Calendar</h4>
+                        <p className="text-xs text-muted-foreground">Turn events from an .ics file into routines</p>
+                    </div>
+                    <Upload className="h-4 w-4 text-muted-foreground" />
+                </button>
+            ) : (
+                <div className="rounded-2xl border border-white/10 bg-white/[0.02] p-4 space-y-3">
+                    <div className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                            <h4 className="font-bold text-foreground truncate">{fileName}</h4>
+                            <p className="text-xs text-muted-foreground">
+                                {selectedTasks.length} of {preview.tasks.length} events selected
+                            </p>
+                        </div>
+                        <Button variant="ghost" size="icon" onClick={clearPreview} className="h-8 w-8 shrink-0">
+                            <X className="h-4 w-4" />
+                        </Button>
+                    </div>
+
+                    <div className="max-h-56 overflow-y-auto space-y-2 pr-1">
+                        {preview.tasks.map(task => (
+                            <label
+                                key={task.id}
+                                className="flex items-center gap-3 p-2.5 rounded-xl bg-white/[0.03] border border-white/5 cursor-pointer"
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={selectedIds.has(task.id)}
+                                    onChange={() => toggleSelected(task.id)}
+                                    className="accent-purple-500"
+                                />
+                                <span className="text-lg">{task.icon}</span>
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-sm font-medium text-foreground truncate">{task.title}</p>
+                                    <p className="text-[11px] text-muted-foreground truncate">
+                                        {task.startTime}–{task.endTime} · {describeSchedule(task)}
+                                        {task.reminder && ` · 🔔 ${task.reminder}`}
+                                    </p>
+                                </div>
+                            </label>
+                        ))}
+
+                        {preview.skipped.map((item, index) => (
+                            <div
+                                key={`skipped-${index}`}
+                                className="flex items-center gap-3 p-2.5 rounded-xl bg-amber-500/5 border border-amber-500/10"
+                            >
+                                <AlertTriangle className="h-4 w-4 text-amber-400 shrink-0" />
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-muted-foreground truncate">{item.title}</p>
+                                    <p className="text-[11px] text-amber-400/80">{item.reason}</p>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex gap-2">
+                        <Button
+                            onClick={handleAdd}
+                            disabled={selectedTasks.length === 0 || isImporting}
+                            className="flex-1 bg-purple-500 hover:bg-purple-600 text-white border-0"
+                        >
+                            Add {selectedTasks.length}
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            onClick={handleReplace}
+                            disabled={selectedTasks.length === 0 || isImporting}
+                            className="flex-1 text-red-400 hover:bg-red-500/10"
+                        >
+                            Replace all
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {ConfirmDialogComponent}
+        </div>
+    );
+};
@@ -3,9 +3,9 @@
 import React, { useState } from "react";
 import { useTask } from "@/context/TaskContext";
 import { useAuth } from "@/context/AuthContext";
-import { Palmtree, Calendar, Play, Pause, AlertTriangle, Sun, Moon } from "lucide-react";
+import { Palmtree, Play, Pause, AlertTriangle, Sun, Moon } from "lucide-react";
 import { Button } from "@/components/ui/Button";
-import { format, addDays, isBefore, isAfter, parseISO } from "date-fns";
+import { format, addDays, parseISO } from "date-fns";
 import { toast } from "sonner";
 
 interface VacationModeProps {
@@ -14,21 +14,19 @@ interface VacationModeProps {
 
 export const VacationMode: React.FC<VacationModeProps> = ({ onClose }) => {
     const { user } = useAuth();
+    const { activeVacation, startVacation, endVacation } = useTask();
     const [startDate, setStartDate] = useState(format(new Date(), "yyyy-MM-dd"));
     const [endDate, setEndDate] = useState(format(addDays(new Date(), 7), "yyyy-MM-dd"));
-    const [isActive, setIsActive] = useState(false);
     const [preserveStreak, setPreserveStreak] = useState(true);
 
+    const isActive = !!activeVacation;
+    const hasStarted = !!activeVacation && activeVacation.startDate <= format(new Date(), "yyyy-MM-dd");
+
     const handleActivate = async () => {
-        // In a full implementation, this would:
-        // 1. Store vacation dates in user profile
-        // 2. Pause all recurring tasks
-        // 3. Optionally preserve streak by excluding vacation days
+        if (!user) return;
 
         try {
-            await new Promise(resolve => setTimeout(resolve, 500)); // Simulate async operation
-
-            setIsActive(true);
+            await startVacation(startDate, endDate, preserveStreak);
 
             // Show confirmation
             toast.success("🏝️ Vacation Mode activated!", {
@@ -46,9 +44,7 @@ export const VacationMode: React.FC<VacationModeProps> = ({ onClose }) => {
 
     const handleDeactivate = async () => {
         try {
-            await new Promise(resolve => setTimeout(resolve, 300)); // Simulate async operation
-
-            setIsActive(false);
+            await endVacation();
 
             toast.success("✅ Vacation Mode deactivated", {
                 description: "All tasks have been resumed!",
@@ -58,7 +54,8 @@ export const VacationMode: React.FC<VacationModeProps> = ({ onClose }) => {
         }
     };
 
-    const daysDiff = Math.ceil((new Date(endDate).getTime() - new Date(startDate).getTime()) / (1000 * 60 * 60 * 24));
+    // Both ends are inclusive
+    const daysDiff = Math.ceil((new Date(endDate).getTime() - new Date(startDate).getTime()) / (1000 * 60 * 60 * 24)) + 1;
 
     return (
         <div className="rounded-3xl bg-card border border-border p-6">
@@ -73,14 +70,21 @@ export const VacationMode: React.FC<VacationModeProps> = ({ onClose }) => {
                 </div>
             </div>
 
-            {isActive ? (
+            {isActive && activeVacation ? (
                 /* Active State */
                 <div className="space-y-4">
                     <div className="p-4 rounded-2xl bg-cyan-500/10 border border-cyan-500/30 text-center">
                         <Palmtree className="h-8 w-8 text-cyan-400 mx-auto mb-2 animate-bounce" />
-                        <h4 className="font-bold text-cyan-400 mb-1">🏝️ You're on Vacation!</h4>
+                        <h4 className="font-bold text-cyan-400 mb-1">
+                            {hasStarted ? "🏝️ You're on Vacation!" : "🧳 Vacation Scheduled"}
+                        </h4>
                         <p className="text-sm text-muted-foreground">
-                            Tasks are paused. Enjoy your break!
+                            {format(parseISO(activeVacation.startDate), "MMM d")} – {format(parseISO(activeVacation.endDate), "MMM d, yyyy")}
+                        </p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                            {activeVacation.preserveStreak
+                                ? "Recurring tasks are paused and your streak is frozen."
+                                : "Recurring tasks are paused."}
                         </p>
                     </div>
 
@@ -89,7 +93,7 @@ export const VacationMode: React.FC<VacationModeProps> = ({ onClose }) => {
                         className="w-full bg-gradient-to-r from-emerald-500 to-green-500 text-white border-0"
                     >
                         <Play className="h-4 w-4 mr-2" />
-                        Resume All Tasks
+                        {hasStarted ? "Resume All Tasks" : "Cancel Vacation"}
                     </Button>
                 </div>
             ) : (
@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useState } from "react";
+import { format, parseISO, subDays } from "date-fns";
+import { Check, Copy, Flame, LogOut, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button, cn } from "@/components/ui/Button";
+import { useConfirm } from "@/components/ui/ConfirmDialog";
+import { checkInSharedRoutine, leaveSharedRoutine } from "@/lib/apiClient";
+import { isTaskScheduledOn } from "@/lib/recurrenceUtils";
+import { getZonedDate } from "@/lib/timezoneUtils";
+import { calculateGroupStreak, getCheckInDates } from "@/lib/sharedRoutineUtils";
+import type { SharedRoutineWithMembers } from "@/hooks/useSharedRoutines";
+
+interface SharedRoutineCardProps {
+    routine: SharedRoutineWithMembers;
+    currentUserId: string;
+}
+
+// Days of check-ins shown per member
+const HISTORY_DAYS = 7;
+
+export const SharedRoutineCard: React.FC<SharedRoutineCardProps> = ({ routine, currentUserId }) => {
+    const { confirm, ConfirmDialogComponent } = useConfirm();
+    const [busy, setBusy] = useState(false);
+
+    const today = getZonedDate(routine.timezone);
+    const [todayStr, yesterdayStr] = getCheckInDates(today);
+    const dates = Array.from({ length: HISTORY_DAYS }, (_, i) => format(subDays(today, HISTORY_DAYS - 1 - i), "yyyy-MM-dd"));
+    const { streak, longestStreak } = calculateGroupStreak(routine.days, routine.members, today);
+
+    const self = routine.members.find(m => m.userId === currentUserId);
+    const doneToday = self?.completionHistory.includes(todayStr) ?? false;
+    const missedYesterday = !!self
+        && isTaskScheduledOn({ days: routine.days }, yesterdayStr)
+        && self.joinedDate <= yesterdayStr
+        && !self.completionHistory.includes(yesterdayStr);
+
+    const checkIn = async (completed: boolean, date: string) => {
+        setBusy(true);
+        try {
+            await checkInSharedRoutine(routine.id, completed, date);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Check-in failed");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleLeave = async () => {
+        const confirmed = await confirm({
+            title: `Leave ${routine.title}?`,
+            description: "Your check-ins for this routine will be removed. You can rejoin with the invite code.",
+            confirmText: "Leave",
+            type: "danger",
+        });
+        if (!confirmed) return;
+
+        try {
+            await leaveSharedRoutine(routine.id);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Couldn't leave the routine");
+        }
+    };
+
+    const copyCode = async () => {
+        await navigator.clipboard.writeText(routine.inviteCode);
+        toast.success("Invite code copied");
+    };
+
+    return (
+        <div className="rounded-3xl bg-card border border-border p-6">
+            {ConfirmDialogComponent}
+
+            {/* Header */}
+            <div className="flex items-start gap-3 mb-5">
+                <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-white/5 text-2xl shrink-0">
+                    {routine.icon}
+                </div>
+                <div className="flex-1 min-w-0">
+                    <h3 className="text-lg font-bold text-foreground truncate">{routine.title}</h3>
+                    <p className="text-xs text-muted-foreground">
+                        {routine.days.join(" · ")} · {routine.timeBlock}
+                    </p>
+                </div>
+                <div className="text-right shrink-0">
+                    <div className="flex items-center gap-1 text-lg font-bold text-orange-400">
+                        <Flame className="h-5 w-5" /> {streak}
+                    </div>
+                    <div className="text-[10px] text-muted-foreground uppercase tracking-wider">
+                        Best {Math.max(longestStreak, routine.longestGroupStreak)}
+                    </div>
+                </div>
+            </div>
+
+            {/* Check-ins */}
+            <div className="overflow-x-auto mb-5">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr>
+                            <th />
+                            {dates.map(date => (
+                                <th key={date} className="pb-2 text-[10px] font-bold uppercase text-muted-foreground">
+                                    {format(parseISO(date), "EEEEE")}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {routine.members.map(member => (
+                            <tr key={member.userId}>
+                                <td className="pr-3 py-1 max-w-[8rem] truncate text-foreground">
+                                    {member.userId === currentUserId ? "You" : member.name}
+                                </td>
+                                {dates.map(date => {
+                                    const scheduled = isTaskScheduledOn({ days: routine.days }, date) && member.joinedDate <= date;
+                                    const done = member.completionHistory.includes(date);
+                                    const missed = scheduled && !done && date < todayStr;
+
+                                    return (
+                                        <td key={date} className="py-1 text-center">
+                                            <span
+                                                className={cn(
+                                                    "inline-flex h-7 w-7 items-center justify-center rounded-lg",
+                                                    done ? "bg-green-500/20 text-green-400"
+                                                        : missed ? "bg-red-500/10 text-red-400"
+                                                            : scheduled ? "bg-white/5 text-muted-foreground"
+                                                                : "text-muted-foreground/30"
+                                                )}
+                                                title={`${member.name}: ${done ? "checked in" : missed ? "missed" : scheduled ? "due" : "rest day"}`}
+                                            >
+                                                {done ? <Check className="h-4 w-4" /> : missed ? <X className="h-4 w-4" /> : "·"}
+                                            </span>
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Actions */}
+            <div className="flex flex-wrap items-center gap-2">
+                <Button
+                    onClick={() => checkIn(!doneToday, todayStr)}
+                    disabled={busy}
+                    variant={doneToday ? "secondary" : "primary"}
+                    className="gap-2"
+                >
+                    <Check className="h-4 w-4" /> {doneToday ? "Checked in today" : "Check in"}
+                </Button>
+                {missedYesterday && (
+                    <Button variant="ghost" size="sm" onClick={() => checkIn(true, yesterdayStr)} disabled={busy}>
+                        I did it yesterday
+                    </Button>
+                )}
+                <div className="flex-1" />
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={copyCode}
+                    className="gap-2 font-mono text-purple-400"
+                    title="Copy invite code"
+                >
+                    <Copy className="h-4 w-4" /> {routine.inviteCode}
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleLeave}
+                    className="text-muted-foreground hover:text-red-400"
+                    title="Leave routine"
+                >
+                    <LogOut className="h-4 w-4" />
+                </Button>
+            </div>
+        </div>
+    );
+};
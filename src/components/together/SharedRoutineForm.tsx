@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useState } from "react";
+import { Plus, LogIn } from "lucide-react";
+import { toast } from "sonner";
+import { Button, cn } from "@/components/ui/Button";
+import { createSharedRoutine, joinSharedRoutine } from "@/lib/apiClient";
+
+const DAYS = ["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"];
+const TIME_BLOCKS = ["Dawn", "Morning", "Noon", "Afternoon", "Evening", "Night"];
+
+export const SharedRoutineForm: React.FC = () => {
+    const [title, setTitle] = useState("");
+    const [icon, setIcon] = useState("🤝");
+    const [timeBlock, setTimeBlock] = useState("Morning");
+    const [days, setDays] = useState<string[]>(["MON", "WED", "FRI"]);
+    const [code, setCode] = useState("");
+    const [busy, setBusy] = useState(false);
+
+    const toggleDay = (day: string) => {
+        setDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+    };
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        try {
+            await action();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Something went wrong");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleCreate = () => run(async () => {
+        const routine = await createSharedRoutine({ title: title.trim(), icon, timeBlock, days });
+        setTitle("");
+        toast.success(`Created ${routine.title}. Share code ${routine.inviteCode} with your partner.`);
+    });
+
+    const handleJoin = () => run(async () => {
+        const routine = await joinSharedRoutine(code);
+        setCode("");
+        toast.success(`You joined ${routine.title}`);
+    });
+
+    return (
+        <div className="rounded-3xl bg-card border border-border p-6 space-y-6">
+            {/* Create */}
+            <div className="space-y-3">
+                <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest">Start a shared routine</h3>
+                <div className="flex gap-2">
+                    <input
+                        value={icon}
+                        onChange={(e) => setIcon(e.target.value)}
+                        maxLength={4}
+                        aria-label="Icon"
+                        className="w-14 rounded-xl bg-muted border border-border px-2 py-2.5 text-center text-lg focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                    />
+                    <input
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                        placeholder="e.g. Gym together"
+                        maxLength={100}
+                        className="flex-1 min-w-0 rounded-xl bg-muted border border-border px-4 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                    />
+                    <select
+                        value={timeBlock}
+                        onChange={(e) => setTimeBlock(e.target.value)}
+                        className="rounded-xl bg-muted border border-border px-3 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                    >
+                        {TIME_BLOCKS.map(block => <option key={block} value={block}>{block}</option>)}
+                    </select>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {DAYS.map(day => (
+                        <button
+                            key={day}
+                            type="button"
+                            onClick={() => toggleDay(day)}
+                            className={cn(
+                                "flex-1 h-10 rounded-xl text-xs font-bold transition-all min-w-[44px]",
+                                days.includes(day)
+                                    ? "bg-gradient-to-br from-purple-500 to-pink-500 text-white"
+                                    : "bg-white/5 text-muted-foreground hover:text-foreground"
+                            )}
+                        >
+                            {day}
+                        </button>
+                    ))}
+                </div>
+                <Button onClick={handleCreate} disabled={busy || !title.trim() || days.length === 0} className="w-full gap-2">
+                    <Plus className="h-4 w-4" /> Create
+                </Button>
+            </div>
+
+            {/* Join */}
+            <div className="space-y-3 border-t border-border pt-6">
+                <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest">Join a partner</h3>
+                <div className="flex gap-2">
+                    <input
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        placeholder="Invite code"
+                        maxLength={12}
+                        className="flex-1 min-w-0 rounded-xl bg-muted border border-border px-4 py-2.5 text-sm font-mono uppercase text-foreground focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                    />
+                    <Button variant="secondary" onClick={handleJoin} disabled={busy || !code.trim()} className="gap-2">
+                        <LogIn className="h-4 w-4" /> Join
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
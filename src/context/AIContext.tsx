@@ -10,6 +10,10 @@ import { useNotification } from "./NotificationContext";
 import { useAnalytics } from "./AnalyticsContext";
 import { useTheme } from "next-themes";
 import { useRouter } from "next/navigation";
+import { useConfirm } from "@/components/ui/ConfirmDialog";
+import { getToolDefinition } from "@/lib/agent/tools";
+import { MAX_TOOL_ROUNDS } from "@/lib/agent/toolCalling";
+import { ToolCall, ToolCallResult, ToolTurn } from "@/lib/agent/types";
 
 // ============================================================================
 // AI CONTEXT
@@ -23,7 +27,7 @@ interface AIMessage {
     role: "user" | "assistant";
     content: string;
     timestamp: Date;
-    action?: any;
+    toolResults?: ToolCallResult[]; // Tools the assistant ran while answering
 }
 
 interface AIContextType {
@@ -52,12 +56,13 @@ export const AIProvider: React.FC<{ children: React.ReactNode }> = ({ children }
     const { tasks, addTask, toggleTaskCompletion, deleteTask, updateTask } = useTask();
     const { goals, addGoal, deleteGoal, updateGoal } = useGoal();
     const { user, logout } = useAuth();
-    const { toggleTimer, linkTask, isActive: timerIsActive, resetTimer } = useFocusTimer();
+    const { toggleTimer, linkTask, isActive: timerIsActive, resetTimer, adjustTime, minutes: timerMinutes, guardNavigation } = useFocusTimer();
     const { toggleSidebar, setSettingsOpen, setTaskModalOpen, isSidebarOpen, isSettingsOpen, isTaskModalOpen } = useUI();
     const { markAllAsRead, clearAll: clearNotifications, addActionableNotification } = useNotification();
     const { productivityScore, currentStreak, getInsights, totalTasksCompleted } = useAnalytics();
     const { setTheme, theme } = useTheme();
     const router = useRouter();
+    const { confirm, ConfirmDialogComponent } = useConfirm();
 
     // Load settings from localStorage on mount
     useEffect(() => {
@@ -94,6 +99,173 @@ export const AIProvider: React.FC<{ children: React.ReactNode }> = ({ children }
     const getChatEndpoint = () => aiPlatform === "groq" ? "/api/ai/groq-chat" : "/api/ai/chat";
     const getMotivationEndpoint = () => aiPlatform === "groq" ? "/api/ai/groq-motivation" : "/api/ai/motivation";
 
+    // Run one tool call from the model against the app and report what happened
+    const executeToolCall = useCallback(async (call: ToolCall): Promise<ToolCallResult> => {
+        const done = (data?: unknown): ToolCallResult => ({ id: call.id, name: call.name, success: true, data });
+        const fail = (error: string): ToolCallResult => ({ id: call.id, name: call.name, success: false, error });
+
+        if (call.error) return fail(call.error);
+
+        const tool = getToolDefinition(call.name);
+        if (!tool) return fail(`Unknown tool "${call.name}"`);
+
+        const args = call.arguments as Record<string, any>;
+
+        if (tool.requiresConfirmation) {
+            const confirmed = await confirm({
+                title: `${tool.name}?`,
+                description: "The AI assistant wants to do this for you.",
+                confirmText: tool.name,
+                cancelText: "Cancel",
+                type: call.name.startsWith("delete") || call.name === "sign_out" ? "danger" : "info",
+            });
+            if (!confirmed) return fail("The user declined this action");
+        }
+
+        switch (call.name) {
+            case "create_task": {
+                const startTime = args.time || "09:00";
+                const [hours, minutes] = startTime.split(":");
+                await addTask({
+                    title: args.name,
+                    icon: args.icon || "✅",
+                    startTime,
+                    endTime: args.endTime || `${String(Math.min(23, Number(hours) + 1)).padStart(2, "0")}:${minutes}`,
+                    timeBlock: args.timeBlock || "Morning",
+                    days: args.days || (args.date ? [] : ["MON", "TUE", "WED", "THU", "FRI"]),
+                    specificDate: args.date, // Support calendar-specific dates
+                });
+                return done({ title: args.name, startTime, date: args.date, days: args.days });
+            }
+
+            case "complete_task": {
+                const task = tasks.find(t => t.id === args.taskId);
+                if (!task) return fail(`No task with ID ${args.taskId}`);
+                if (!task.isCompleted) await toggleTaskCompletion(task.id);
+                return done({ title: task.title, completed: true });
+            }
+
+            case "update_task": {
+                const task = tasks.find(t => t.id === args.taskId);
+                if (!task) return fail(`No task with ID ${args.taskId}`);
+                const updated = {
+                    ...task,
+                    ...(args.name && { title: args.name }),
+                    ...(args.time && { startTime: args.time }),
+                    ...(args.endTime && { endTime: args.endTime }),
+                    ...(args.icon && { icon: args.icon }),
+                    // A date makes it one-time, days make it recurring
+                    ...(args.date && { specificDate: args.date, days: [] }),
+                    ...(args.days && { days: args.days, specificDate: undefined }),
+                };
+                await updateTask(updated);
+                return done({ title: updated.title, startTime: updated.startTime, endTime: updated.endTime, date: updated.specificDate, days: updated.days });
+            }
+
+            case "delete_task": {
+                const task = tasks.find(t => t.id === args.taskId);
+                if (!task) return fail(`No task with ID ${args.taskId}`);
+                await deleteTask(task.id);
+                return done({ title: task.title });
+            }
+
+            case "create_goal": {
+                await addGoal({
+                    title: args.title,
+                    description: args.description || "Goal created by AI Assistant",
+                    category: args.category,
+                    targetDate: args.targetDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // Default 30 days
+                });
+                return done({ title: args.title });
+            }
+
+            case "update_goal": {
+                const goal = goals.find(g => g.id === args.goalId);
+                if (!goal) return fail(`No goal with ID ${args.goalId}`);
+                const { goalId, ...updates } = args;
+                await updateGoal({ ...goal, ...updates });
+                return done({ title: updates.title || goal.title });
+            }
+
+            case "delete_goal": {
+                const goal = goals.find(g => g.id === args.goalId);
+                if (!goal) return fail(`No goal with ID ${args.goalId}`);
+                await deleteGoal(goal.id);
+                return done({ title: goal.title });
+            }
+
+            case "get_insights":
+                return done({
+                    productivityScore,
+                    currentStreak,
+                    totalTasksCompleted,
+                    insights: getInsights().map(i => i.message),
+                });
+
+            case "start_focus": {
+                if (timerIsActive) return fail("A focus session is already running");
+
+                const task = args.taskId ? tasks.find(t => t.id === args.taskId) : undefined;
+                if (task) linkTask(task.id, task.title);
+
+                // Set the length before starting, relative to what the timer shows now
+                adjustTime(args.duration - timerMinutes);
+                toggleTimer();
+                return done({ duration: args.duration, task: task?.title });
+            }
+
+            case "stop_focus":
+                if (!timerIsActive) return fail("No focus session is running");
+                toggleTimer();
+                return done();
+
+            case "reset_focus":
+                resetTimer();
+                return done();
+
+            case "navigate":
+                if (!guardNavigation(args.path)) return fail("That page is blocked during strict focus");
+                router.push(args.path);
+                return done({ path: args.path });
+
+            case "control_ui": {
+                const { target, value } = args;
+
+                // Sidebar Control
+                if (target === "sidebar") {
+                    if (value === "toggle") toggleSidebar();
+                    else if (value === "open" && !isSidebarOpen) toggleSidebar();
+                    else if (value === "close" && isSidebarOpen) toggleSidebar();
+                }
+
+                // Settings Modal
+                if (target === "settings") setSettingsOpen(value === "toggle" ? !isSettingsOpen : value === "open");
+
+                // Task Modal
+                if (target === "task_modal") setTaskModalOpen(value === "toggle" ? !isTaskModalOpen : value === "open");
+
+                return done();
+            }
+
+            case "update_settings":
+                if (args.theme) setTheme(args.theme);
+                return done({ theme: args.theme || theme });
+
+            case "manage_notifications":
+                if (args.command === "clear_all") clearNotifications();
+                if (args.command === "mark_all_read") markAllAsRead();
+                return done();
+
+            case "sign_out":
+                await logout();
+                router.push("/auth/login"); // Ensure redirect
+                return done();
+
+            default:
+                return fail(`The app can't run "${call.name}" yet`);
+        }
+    }, [tasks, goals, addTask, addGoal, toggleTaskCompletion, deleteTask, updateTask, deleteGoal, updateGoal, confirm, productivityScore, currentStreak, totalTasksCompleted, getInsights, timerIsActive, timerMinutes, linkTask, adjustTime, toggleTimer, resetTimer, guardNavigation, router, toggleSidebar, isSidebarOpen, setSettingsOpen, isSettingsOpen, setTaskModalOpen, isTaskModalOpen, setTheme, theme, clearNotifications, markAllAsRead, logout]);
+
     // Send a message to the AI
     const sendMessage = useCallback(async (message: string) => {
         if (!message.trim()) return;
@@ -133,199 +305,74 @@ export const AIProvider: React.FC<{ children: React.ReactNode }> = ({ children }
                 day: "numeric"
             });
 
-            const response = await fetch(getChatEndpoint(), {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    message,
-                    currentDate, // Send real-time date from browser
-                    context: {
-                        tasks: tasks.slice(0, 20), // Send more tasks for better context
-                        goals: goals.slice(0, 10),
-                        analytics: {
-                            productivityScore,
-                            currentStreak,
-                            totalTasksCompleted,
-                            insights: getInsights().map(i => i.message)
-                        }
-                    },
-                    conversationHistory,
-                }),
-            });
+            const requestChat = async (toolTurns: ToolTurn[]): Promise<{ message: string; toolCalls?: ToolCall[] }> => {
+                const response = await fetch(getChatEndpoint(), {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({
+                        message,
+                        currentDate, // Send real-time date from browser
+                        context: {
+                            tasks: tasks.slice(0, 20), // Send more tasks for better context
+                            goals: goals.slice(0, 10),
+                            analytics: {
+                                productivityScore,
+                                currentStreak,
+                                totalTasksCompleted,
+                                insights: getInsights().map(i => i.message)
+                            }
+                        },
+                        conversationHistory,
+                        toolTurns,
+                    }),
+                });
+
+                const text = await response.text();
+                let data;
+
+                try {
+                    data = JSON.parse(text);
+                } catch (e) {
+                    // If parsing fails, it's likely a 500 HTML error or empty response
+                    console.error("Failed to parse AI response:", text.substring(0, 200));
+                    throw new Error(`Server Error (${response.status}): The AI service is currently unavailable. Please check server logs.`);
+                }
 
-            const text = await response.text();
-            let data;
+                if (!response.ok) {
+                    throw new Error(data.error || `Request failed with status ${response.status}`);
+                }
+                return data;
+            };
 
-            try {
-                data = JSON.parse(text);
-            } catch (e) {
-                // If parsing fails, it's likely a 500 HTML error or empty response
-                console.error("Failed to parse AI response:", text.substring(0, 200));
-                throw new Error(`Server Error (${response.status}): The AI service is currently unavailable. Please check server logs.`);
-            }
+            // Run the tools the model asks for and send it the results until it answers in text
+            const toolTurns: ToolTurn[] = [];
+            let data = await requestChat(toolTurns);
+
+            while (data.toolCalls?.length && toolTurns.length < MAX_TOOL_ROUNDS) {
+                const results: ToolCallResult[] = [];
+                for (const call of data.toolCalls) {
+                    try {
+                        results.push(await executeToolCall(call));
+                    } catch (error) {
+                        results.push({ id: call.id, name: call.name, success: false, error: error instanceof Error ? error.message : "Tool failed" });
+                    }
+                }
 
-            if (!response.ok) {
-                throw new Error(data.error || `Request failed with status ${response.status}`);
+                toolTurns.push({ calls: data.toolCalls, results });
+                data = await requestChat(toolTurns);
             }
 
+            const toolResults = toolTurns.flatMap(turn => turn.results);
+
             // Add AI response
             const aiMessage: AIMessage = {
                 id: (Date.now() + 1).toString(),
                 role: "assistant",
-                content: data.message,
+                content: data.message || (toolResults.some(r => r.success) ? "Done! ✨" : "Sorry, I couldn't do that."),
                 timestamp: new Date(),
-                action: data.action,
+                toolResults: toolResults.length > 0 ? toolResults : undefined,
             };
             setMessages((prev) => [...prev, aiMessage]);
-
-            // Handle actions
-            if (data.action) {
-                if (data.action.action === "CREATE_TASK" && data.action.task) {
-                    const task = data.action.task;
-                    await addTask({
-                        title: task.title,
-                        icon: task.icon || "✅",
-                        startTime: task.startTime || "09:00",
-                        endTime: task.endTime || "10:00",
-                        timeBlock: task.timeBlock || "Morning",
-                        days: task.days || (task.specificDate ? [] : ["MON", "TUE", "WED", "THU", "FRI"]),
-                        specificDate: task.specificDate, // Support calendar-specific dates
-                    });
-                }
-
-                // Handle Goal Creation
-                if (data.action.action === "CREATE_GOAL" && data.action.goal) {
-                    const goal = data.action.goal;
-                    await addGoal({
-                        title: goal.title,
-                        description: goal.description || "Goal created by AI Assistant",
-                        category: goal.category || "Personal",
-                        targetDate: goal.targetDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // Default 30 days
-                    });
-                }
-
-                // Handle Task Completion
-                if (data.action.action === "COMPLETE_TASK" && data.action.taskId) {
-                    await toggleTaskCompletion(data.action.taskId);
-                }
-
-                // Handle Task Deletion
-                if (data.action.action === "DELETE_TASK" && data.action.taskId) {
-                    await deleteTask(data.action.taskId);
-                }
-
-                // Handle Task Editing
-                if (data.action.action === "EDIT_TASK" && data.action.taskId && data.action.updates) {
-                    const existingTask = tasks.find((t: any) => t.id === data.action.taskId);
-                    if (existingTask) {
-                        await updateTask({
-                            ...existingTask,
-                            ...data.action.updates
-                        });
-                    }
-                }
-                if (data.action.action === "DELETE_GOAL" && data.action.goalId) {
-                    await deleteGoal(data.action.goalId);
-                }
-                if (data.action.action === "EDIT_GOAL" && data.action.goalId && data.action.updates) {
-                    const goalToEdit = goals.find(g => g.id === data.action.goalId);
-                    if (goalToEdit) {
-                        await updateGoal({ ...goalToEdit, ...data.action.updates });
-                    }
-                }
-                if (data.action.action === "START_TIMER") {
-                    if (!timerIsActive) {
-                        // Optional: Link task if provided
-                        if (data.action.taskTitle) {
-                            // We need to implement linkTaskTitle or similar if supported, 
-                            // or just start the timer. 
-                            // Assuming linkTask takes an ID, we might need to find the task first.
-                            const task = tasks.find(t => t.title.toLowerCase() === data.action.taskTitle.toLowerCase());
-                            if (task) {
-                                linkTask(task.id, task.title);
-                            }
-                        }
-
-                        // Set duration if provided (e.g. 25)
-                        if (data.action.focusMinutes) {
-                            // This requires mapping minutes to a preset or setting custom time
-                            // For simplicity, just toggle for now or use 'classic' (25m)
-                            // changePreset might handle this if we passed ID.
-                        }
-
-                        toggleTimer();
-                    }
-                }
-                if (data.action.action === "STOP_TIMER") {
-                    if (timerIsActive) {
-                        toggleTimer();
-                    }
-                }
-                if (data.action.action === "RESET_TIMER") {
-                    resetTimer();
-                }
-
-                // UI CONTROL HANDLERS
-                if (data.action.action === "UI_CONTROL") {
-                    const { target, value } = data.action;
-
-                    // Sidebar Control
-                    if (target === "sidebar") {
-                        if (value === "toggle") toggleSidebar();
-                        else if (value === "open" && !isSidebarOpen) toggleSidebar();
-                        else if (value === "close" && isSidebarOpen) toggleSidebar();
-                    }
-
-                    // Settings Modal
-                    if (target === "settings") {
-                        if (value === "open") setSettingsOpen(true);
-                        else if (value === "close") setSettingsOpen(false);
-                    }
-
-                    // Task Modal
-                    if (target === "task_modal") {
-                        if (value === "open") setTaskModalOpen(true);
-                        else if (value === "close") setTaskModalOpen(false);
-                    }
-
-                    // Theme Control
-                    if (target === "theme") {
-                        setTheme(value); // 'light', 'dark', 'system'
-                    }
-                }
-
-                // NOTIFICATION HANDLERS
-                if (data.action.action === "MANAGE_NOTIFICATIONS") {
-                    if (data.action.command === "clear_all") clearNotifications();
-                    if (data.action.command === "mark_all_read") markAllAsRead();
-                }
-
-                // AUTH HANDLERS
-                if (data.action.action === "AUTH_CONTROL") {
-                    if (data.action.command === "logout") {
-                        await logout();
-                        router.push("/auth/login"); // Ensure redirect
-                    }
-                }
-
-                if (data.action.action === "UPDATE_SETTINGS" && data.action.settings) {
-                    if (data.action.settings.theme) {
-                        setTheme(data.action.settings.theme);
-                    }
-                    // Add other settings handlers here as needed
-                }
-
-                if (data.action.action === "GET_ANALYTICS") {
-                    // The AI already has analytics in context, but this action 
-                    // allows it to explicitly "show" or "fetch" fresh data if we add a UI for it.
-                    // For now, we can just acknowledge or navigate to analytics.
-                    router.push("/analytics");
-                }
-
-                if (data.action.action === "NAVIGATE" && data.action.path) {
-                    router.push(data.action.path);
-                }
-            }
         } catch (error: any) {
             const errorMessage: AIMessage = {
                 id: (Date.now() + 1).toString(),
@@ -337,7 +384,7 @@ export const AIProvider: React.FC<{ children: React.ReactNode }> = ({ children }
         } finally {
             setIsLoading(false);
         }
-    }, [tasks, goals, messages, addTask, addGoal, toggleTaskCompletion, deleteTask, updateTask, aiEnabled, aiPlatform, timerIsActive, toggleTimer, resetTimer, toggleSidebar, setSettingsOpen, setTaskModalOpen, setTheme, logout, markAllAsRead, clearNotifications, isSidebarOpen]);
+    }, [tasks, goals, messages, aiEnabled, aiPlatform, productivityScore, currentStreak, totalTasksCompleted, getInsights, executeToolCall]);
 
     // Get daily motivation
     const getMotivation = useCallback(async (): Promise<string> => {
@@ -388,6 +435,7 @@ export const AIProvider: React.FC<{ children: React.ReactNode }> = ({ children }
             }}
         >
             {children}
+            {ConfirmDialogComponent}
         </AIContext.Provider>
     );
 };
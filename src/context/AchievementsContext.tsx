@@ -7,6 +7,7 @@ import { useGoal } from "./GoalContext";
 import { db } from "@/lib/firebase";
 import { doc, getDoc, setDoc, updateDoc } from "firebase/firestore";
 import { format, subDays, differenceInDays } from "date-fns";
+import { reportWebhookEvent } from "@/lib/apiClient";
 
 // ============================================================================
 // ACHIEVEMENTS CONTEXT
@@ -529,6 +530,14 @@ export const AchievementsProvider: React.FC<{ children: React.ReactNode }> = ({
 
             // Show most recent unlock
             setRecentUnlock(newUnlocks[0]);
+
+            newUnlocks.filter(a => a.category === "streak").forEach(a => {
+                reportWebhookEvent("streak.milestone", {
+                    streak: userStats.currentStreak,
+                    achievementId: a.id,
+                    achievementName: a.name,
+                });
+            });
         }
     }, [lockedAchievements, userStats, progress, saveProgress]);
 
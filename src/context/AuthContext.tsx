@@ -15,11 +15,23 @@ import {
   GoogleAuthProvider,
   signInWithPopup,
   sendEmailVerification as firebaseSendEmailVerification,
+  sendPasswordResetEmail,
+  verifyBeforeUpdateEmail,
+  reauthenticateWithCredential,
+  EmailAuthProvider,
+  linkWithPopup,
+  linkWithCredential,
+  signInWithCredential,
+  AuthError,
   setPersistence,
   browserLocalPersistence
 } from "firebase/auth";
 import { doc, setDoc, getDoc } from "firebase/firestore";
-import { auth, db } from "@/lib/firebase";
+import { auth, db, getSecondaryAuth } from "@/lib/firebase";
+import { getSystemTimezone, isValidTimezone } from "@/lib/timezoneUtils";
+import { DEMO_USER, IS_DEMO_MODE } from "@/lib/demoMode";
+import { FAKE_DOMAIN, isUsernameEmail } from "@/lib/usernameAccounts";
+import { mergeAccount, requestAccountRecovery } from "@/lib/apiClient";
 
 // ============================================================================
 // SSR-SAFE UTILS
@@ -29,24 +41,6 @@ function isClient(): boolean {
   return typeof window !== "undefined";
 }
 
-function getStorageItem(key: string): string | null {
-  if (!isClient()) return null;
-  try {
-    return localStorage.getItem(key);
-  } catch {
-    return null;
-  }
-}
-
-function setStorageItem(key: string, value: string): void {
-  if (!isClient()) return;
-  try {
-    localStorage.setItem(key, value);
-  } catch {
-    console.warn(`Failed to set localStorage item: ${key}`);
-  }
-}
-
 function removeStorageItem(key: string): void {
   if (!isClient()) return;
   try {
@@ -60,12 +54,17 @@ function removeStorageItem(key: string): void {
 // TYPES
 // ============================================================================
 
+export type GoogleLinkResult = "linked" | "merged" | "cancelled";
+
 interface AuthContextType {
   user: User | null;
   login: (username: string, pass: string) => Promise<void>;
   register: (username: string, pass: string) => Promise<void>;
   loginWithGoogle: () => Promise<void>;
   sendEmailVerification: () => Promise<void>;
+  linkEmail: (email: string, currentPassword: string) => Promise<void>;
+  linkGoogle: (confirmMerge: () => Promise<boolean>) => Promise<GoogleLinkResult>;
+  sendPasswordReset: (usernameOrEmail: string) => Promise<void>;
   logout: () => Promise<void>;
   isLoading: boolean;
   isEmailVerified: boolean;
@@ -100,30 +99,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       // proceed to listener setup but don't reset flag
     }
 
-    // Check for dev mode
-    const isDevMode = getStorageItem("rt_dev_mode") === "true";
-    if (isDevMode) {
-      // ... same dev user creation ...
-      const devUser = {
-        uid: "dev-crytonix",
-        email: "crytonix@webdev.local",
-        displayName: "Crytonix WebDev",
-        photoURL: null,
-        emailVerified: true,
-        isAnonymous: false,
-        accessToken: "dev-token",
-        metadata: {
-          creationTime: new Date().toISOString(),
-          lastSignInTime: new Date().toISOString(),
-        }
-      } as unknown as User;
-
-      setUser(devUser);
+    // Demo builds have no Firebase project behind them
+    if (IS_DEMO_MODE) {
+      setUser(DEMO_USER);
       setIsLoading(false);
       setIsInitialized(true);
-      return () => { }; // No cleanup needed for dev mode
+      return () => { };
     }
 
+    // Left behind by the developer login that demo mode replaced
+    removeStorageItem("rt_dev_mode");
+
     // Set persistence with error handling
     try {
       await setPersistence(auth, browserLocalPersistence);
@@ -191,15 +177,23 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           score: 0,
           createdAt: new Date().toISOString(),
           lastActive: new Date().toISOString(),
-          isPublic: true
+          isPublic: true,
+          settings: { timezone: getSystemTimezone() }
         });
-      } else if (!userDoc.data().username) {
-        // Legacy support - add username
-        const baseName = (currentUser.displayName || "User").replace(/\s+/g, '');
-        const randomSuffix = Math.floor(1000 + Math.random() * 9000);
-        const username = `@${baseName}${randomSuffix}`;
+      } else {
+        if (!userDoc.data().username) {
+          // Legacy support - add username
+          const baseName = (currentUser.displayName || "User").replace(/\s+/g, '');
+          const randomSuffix = Math.floor(1000 + Math.random() * 9000);
+          const username = `@${baseName}${randomSuffix}`;
+
+          await setDoc(userDocRef, { username }, { merge: true });
+        }
 
-        await setDoc(userDocRef, { username }, { merge: true });
+        if (!isValidTimezone(userDoc.data().settings?.timezone)) {
+          // Legacy support - cron jobs schedule this user in the timezone they sign in from
+          await setDoc(userDocRef, { settings: { timezone: getSystemTimezone() } }, { merge: true });
+        }
       }
     } catch (error) {
       console.error("Error ensuring user document:", error);
@@ -211,36 +205,32 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   // AUTH ACTIONS
   // ============================================================================
 
-  const FAKE_DOMAIN = "@routinetracker.local";
-
   const login = async (username: string, pass: string): Promise<void> => {
-    // Developer bypass
-    if (username.toLowerCase() === "crytonix") {
-      const devUser = {
-        uid: "dev-crytonix",
-        email: "crytonix@webdev.local",
-        displayName: "Crytonix WebDev",
-        photoURL: null,
-        emailVerified: true,
-        isAnonymous: false,
-        accessToken: "dev-token",
-        metadata: {
-          creationTime: new Date().toISOString(),
-          lastSignInTime: new Date().toISOString(),
-        }
-      } as unknown as User;
-
-      setUser(devUser);
-      setIsLoading(false);
-      setStorageItem("rt_dev_mode", "true");
+    if (IS_DEMO_MODE) {
+      setUser(DEMO_USER);
       return;
     }
 
     const email = username.includes("@") ? username : `${username}${FAKE_DOMAIN}`;
-    await signInWithEmailAndPassword(auth, email, pass);
+    try {
+      await signInWithEmailAndPassword(auth, email, pass);
+    } catch (error) {
+      // Attaching a real email retires the username as a sign-in name. Whether
+      // that happened isn't revealed, so the hint goes with every failed attempt.
+      const code = (error as AuthError).code;
+      if (!username.includes("@") && (code === "auth/invalid-credential" || code === "auth/user-not-found")) {
+        throw new Error("Invalid username or password. If you've attached an email to this account, sign in with that email instead.");
+      }
+      throw error;
+    }
   };
 
   const register = async (username: string, pass: string): Promise<void> => {
+    if (IS_DEMO_MODE) {
+      setUser(DEMO_USER);
+      return;
+    }
+
     const email = `${username}${FAKE_DOMAIN}`;
     const result = await createUserWithEmailAndPassword(auth, email, pass);
 
@@ -256,7 +246,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           score: 0,
           createdAt: new Date().toISOString(),
           lastActive: new Date().toISOString(),
-          isPublic: true
+          isPublic: true,
+          settings: { timezone: getSystemTimezone() }
         });
       } catch (e) {
         console.error("Error creating profile on register:", e);
@@ -265,18 +256,100 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const loginWithGoogle = async (): Promise<void> => {
+    if (IS_DEMO_MODE) {
+      setUser(DEMO_USER);
+      return;
+    }
+
     await signInWithPopup(auth, googleProvider);
   };
 
   const sendEmailVerification = async (): Promise<void> => {
+    if (user && isUsernameEmail(user.email)) {
+      throw new Error("Attach an email to your account first");
+    }
     if (user && !user.emailVerified) {
       await firebaseSendEmailVerification(user);
     }
   };
 
+  // ============================================================================
+  // ACCOUNT RECOVERY
+  // ============================================================================
+
+  /**
+   * Attach a real email to a username account. Firebase mails a link to the
+   * new address, and the account's sign-in email changes once it's opened.
+   */
+  const linkEmail = async (email: string, currentPassword: string): Promise<void> => {
+    const currentUser = auth.currentUser;
+    if (IS_DEMO_MODE || !currentUser?.email) {
+      throw new Error("Sign in with your username and password first");
+    }
+
+    // Changing the sign-in email counts as sensitive, so confirm the password
+    await reauthenticateWithCredential(currentUser, EmailAuthProvider.credential(currentUser.email, currentPassword));
+    await verifyBeforeUpdateEmail(currentUser, email.trim());
+  };
+
+  /**
+   * Let the signed-in account also sign in with Google. If that Google account
+   * already has an account of its own, `confirmMerge` decides whether its data
+   * moves into this one (and it's deleted) so the two can be linked.
+   */
+  const linkGoogle = async (confirmMerge: () => Promise<boolean>): Promise<GoogleLinkResult> => {
+    const currentUser = auth.currentUser;
+    if (IS_DEMO_MODE || !currentUser) {
+      throw new Error("You need to be signed in");
+    }
+
+    try {
+      await linkWithPopup(currentUser, googleProvider);
+      return "linked";
+    } catch (error) {
+      if ((error as AuthError).code !== "auth/credential-already-in-use") throw error;
+
+      const credential = GoogleAuthProvider.credentialFromError(error as AuthError);
+      if (!credential) throw error;
+      if (!(await confirmMerge())) return "cancelled";
+
+      // Sign into the Google account on the side to prove it's ours, without
+      // signing out of this one
+      const secondaryAuth = getSecondaryAuth();
+      const { user: source } = await signInWithCredential(secondaryAuth, credential);
+      try {
+        await mergeAccount(await source.getIdToken());
+      } finally {
+        await firebaseSignOut(secondaryAuth);
+      }
+
+      await linkWithCredential(currentUser, credential);
+      return "merged";
+    }
+  };
+
+  /**
+   * Email a password reset link. Username accounts can only be reset once a
+   * real email is attached; the server sends the link to that address without
+   * saying whether there is one.
+   */
+  const sendPasswordReset = async (usernameOrEmail: string): Promise<void> => {
+    if (IS_DEMO_MODE) {
+      throw new Error("Passwords can't be reset in demo mode");
+    }
+
+    const identifier = usernameOrEmail.trim();
+    if (identifier.includes("@") && !isUsernameEmail(identifier)) {
+      await sendPasswordResetEmail(auth, identifier);
+      return;
+    }
+
+    await requestAccountRecovery(identifier.replace(FAKE_DOMAIN, ""));
+  };
+
   const logout = async (): Promise<void> => {
-    removeStorageItem("rt_dev_mode");
     setUser(null);
+    if (IS_DEMO_MODE) return;
     await firebaseSignOut(auth);
   };
 
@@ -293,6 +366,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       register,
       loginWithGoogle,
       sendEmailVerification,
+      linkEmail,
+      linkGoogle,
+      sendPasswordReset,
       logout,
       isLoading,
       isEmailVerified
@@ -1,12 +1,16 @@
 "use client";
 
-import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from "react";
+import React, { createContext, useContext, useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { v4 as uuidv4 } from "uuid";
 import { db } from "@/lib/firebase";
 import { collection, onSnapshot } from "firebase/firestore";
 import { useAuth } from "./AuthContext";
 import { useSync } from "@/context/SyncContext";
+import { useTask } from "@/context/TaskContext";
 import { showSuccess, showUndoableToast, showCelebrationToast } from "@/lib/firestoreUtils";
+import { calculateGoalProgress, getSortedMilestones, normalizeMilestoneOrder } from "@/lib/goalUtils";
+import { demoStore, IS_DEMO_MODE } from "@/lib/demoMode";
+import { reportWebhookEvent } from "@/lib/apiClient";
 
 // SSR-safe utils
 function isClient(): boolean {
@@ -31,6 +35,27 @@ function setStorageItem(key: string, value: string): void {
   }
 }
 
+export type GoalPriority = "low" | "medium" | "high";
+
+export interface Milestone {
+    id: string;
+    title: string;
+    targetDate?: string; // yyyy-MM-dd
+    isCompleted: boolean;
+    completedAt?: string;
+    order: number;
+}
+
+/**
+ * How a goal's progress is measured.
+ * "milestones": share of completed milestones (the default).
+ * "taskCompletions": completions of linked routine tasks between startDate
+ * (defaults to when the goal was created) and the target date, out of targetCount.
+ */
+export type GoalProgressRule =
+    | { type: "milestones" }
+    | { type: "taskCompletions"; targetCount: number; startDate?: string };
+
 export interface Goal {
     id: string;
     title: string;
@@ -38,23 +63,62 @@ export interface Goal {
     targetDate: string;
     isCompleted: boolean;
     category: string;
-    progress: number; // 0-100
+    progress: number; // 0-100, derived from milestones when the goal has any
+    icon?: string;
+    priority?: GoalPriority;
+    milestones: Milestone[];
+    progressRule?: GoalProgressRule;
+    createdAt?: string;
 }
 
+export type NewGoal = Omit<Goal, "id" | "isCompleted" | "progress" | "milestones" | "createdAt"> & {
+    milestones?: Milestone[];
+};
+
 interface GoalContextType {
     goals: Goal[];
-    addGoal: (goal: Omit<Goal, "id" | "isCompleted" | "progress">) => Promise<void>;
+    addGoal: (goal: NewGoal) => Promise<void>;
     updateGoal: (goal: Goal) => Promise<void>;
     deleteGoal: (id: string) => Promise<void>;
     toggleGoalCompletion: (id: string) => Promise<void>;
+    addMilestone: (goalId: string, title: string, targetDate?: string) => Promise<void>;
+    toggleMilestone: (goalId: string, milestoneId: string) => Promise<void>;
+    deleteMilestone: (goalId: string, milestoneId: string) => Promise<void>;
+    reorderMilestones: (goalId: string, orderedIds: string[]) => Promise<void>;
     loading: boolean;
 }
 
+/**
+ * Fill in fields that older goal documents may be missing
+ */
+function normalizeGoal(goal: Goal): Goal {
+    // Goals created before the sync engine kept createdAt hold a server Timestamp
+    const createdAt = goal.createdAt as unknown as { toDate?: () => Date } | string | undefined;
+
+    return {
+        ...goal,
+        createdAt: typeof createdAt === "object" && createdAt?.toDate ? createdAt.toDate().toISOString() : goal.createdAt,
+        milestones: getSortedMilestones(goal),
+    };
+}
+
+/**
+ * Firestore rejects undefined values, so drop them before syncing
+ */
+function toFirestoreData(goal: Partial<Goal>): Record<string, unknown> {
+    const data = { ...goal } as Record<string, unknown>;
+    Object.keys(data).forEach(key => {
+        if (data[key] === undefined) delete data[key];
+    });
+    return data;
+}
+
 const GoalContext = createContext<GoalContextType | undefined>(undefined);
 
 export const GoalProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const { user } = useAuth();
     const { addOperation } = useSync();
+    const { tasks, loading: tasksLoading } = useTask();
 
     const [goals, setGoals] = useState<Goal[]>([]);
     const [loading, setLoading] = useState(true);
@@ -73,6 +137,18 @@ export const GoalProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         mountedRef.current = true;
 
+        // Demo builds read the in-memory demo store instead of Firestore
+        if (IS_DEMO_MODE) {
+            const unsubscribe = demoStore.subscribe("goals", (docs) => {
+                setGoals(docs.map((d) => normalizeGoal(d as unknown as Goal)));
+                setLoading(false);
+            });
+            return () => {
+                mountedRef.current = false;
+                unsubscribe();
+            };
+        }
+
         // Load cache
         try {
             const cached = getStorageItem(`rt_goals_${user.uid}`);
@@ -88,7 +164,7 @@ export const GoalProvider: React.FC<{ children: React.ReactNode }> = ({ children
         const unsubscribe = onSnapshot(goalsRef, (snapshot) => {
             if (!mountedRef.current) return;
 
-            const fetchedGoals = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as Goal));
+            const fetchedGoals = snapshot.docs.map((doc) => normalizeGoal({ id: doc.id, ...doc.data() } as Goal));
 
             if (fetchedGoals.length > 0 || navigator.onLine) {
                 setGoals(fetchedGoals);
@@ -110,33 +186,44 @@ export const GoalProvider: React.FC<{ children: React.ReactNode }> = ({ children
         };
     }, [user]);
 
-    const addGoal = useCallback(async (goalData: Omit<Goal, "id" | "isCompleted" | "progress">) => {
+    const addGoal = useCallback(async (goalData: NewGoal) => {
         if (!user) return;
 
-        const newGoal: Goal = {
+        const milestones = normalizeMilestoneOrder(goalData.milestones || []);
+        const draft: Goal = {
             ...goalData,
             id: uuidv4(),
             isCompleted: false,
+            milestones,
             progress: 0,
+            createdAt: new Date().toISOString(),
         };
+        const newGoal: Goal = { ...draft, progress: calculateGoalProgress(draft, tasks) };
 
         // Optimistic
         setGoals(prev => [...prev, newGoal]);
         showSuccess("Goal set!", "Go get it!");
 
         // Sync
-        addOperation("CREATE", "goals", newGoal.id, newGoal as unknown as Record<string, unknown>);
-    }, [user, addOperation]);
+        addOperation("CREATE", "goals", newGoal.id, toFirestoreData(newGoal));
+    }, [user, addOperation, tasks]);
 
-    const updateGoal = useCallback(async (updatedGoal: Goal) => {
+    const updateGoal = useCallback(async (goal: Goal) => {
         if (!user) return;
 
+        const milestones = normalizeMilestoneOrder(getSortedMilestones(goal));
+        const updatedGoal: Goal = {
+            ...goal,
+            milestones,
+            progress: calculateGoalProgress({ ...goal, milestones }, tasks),
+        };
+
         // Optimistic
         setGoals(prev => prev.map(g => g.id === updatedGoal.id ? updatedGoal : g));
 
         // Sync
-        addOperation("UPDATE", "goals", updatedGoal.id, updatedGoal as unknown as Record<string, unknown>);
-    }, [user, addOperation]);
+        addOperation("UPDATE", "goals", updatedGoal.id, toFirestoreData(updatedGoal));
+    }, [user, addOperation, tasks]);
 
     const deleteGoal = useCallback(async (id: string) => {
         if (!user) return;
@@ -167,7 +254,7 @@ export const GoalProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         const updates = {
             isCompleted: !goal.isCompleted,
-            progress: !goal.isCompleted ? 100 : 0,
+            progress: calculateGoalProgress({ ...goal, isCompleted: !goal.isCompleted, progress: 0 }, tasks),
         };
 
         // Optimistic
@@ -175,19 +262,139 @@ export const GoalProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         if (!goal.isCompleted) {
             showCelebrationToast(goal.title);
-             // Update user score
-             addOperation("UPDATE", "user", user.uid, {
-                score: { __type: "increment", value: 50 }, // Big points for goals
+            reportWebhookEvent("goal.completed", { goalId: goal.id, title: goal.title });
+            // The leaderboard score only counts task completions, and only the server writes it
+            addOperation("UPDATE", "user", user.uid, {
                 lastActive: new Date().toISOString()
-             });
+            });
         }
 
         // Sync
         addOperation("UPDATE", "goals", id, updates);
-    }, [user, goals, addOperation]);
+    }, [user, goals, addOperation, tasks]);
+
+    // ========================================================================
+    // LINKED TASK PROGRESS
+    // ========================================================================
+
+    // Goals measured by linked completions follow the tasks' completionHistory.
+    // The derived value is shown right away; the stored one catches up below.
+    // Until TaskContext has loaded, `tasks` is empty and every derived value
+    // would be 0, so the stored progress is kept.
+    const goalsWithProgress = useMemo(() => goals.map(g =>
+        g.progressRule?.type === "taskCompletions" && !tasksLoading
+            ? { ...g, progress: calculateGoalProgress(g, tasks) }
+            : g
+    ), [goals, tasks, tasksLoading]);
+
+    // Last progress queued per goal, so each change is written only once
+    const queuedProgressRef = useRef<Map<string, number>>(new Map());
+
+    useEffect(() => {
+        if (!user || loading || tasksLoading) return;
+
+        goalsWithProgress.forEach((goal, index) => {
+            const stored = goals[index]?.progress;
+            if (goal.progress === stored || queuedProgressRef.current.get(goal.id) === goal.progress) return;
+
+            queuedProgressRef.current.set(goal.id, goal.progress);
+            addOperation("UPDATE", "goals", goal.id, { progress: goal.progress });
+        });
+    }, [user, loading, tasksLoading, goals, goalsWithProgress, addOperation]);
+
+    // ========================================================================
+    // MILESTONES
+    // ========================================================================
+
+    const saveMilestones = useCallback((goal: Goal, milestones: Milestone[]) => {
+        const ordered = normalizeMilestoneOrder(milestones);
+        const updates = {
+            milestones: ordered,
+            progress: calculateGoalProgress({ ...goal, milestones: ordered }, tasks),
+        };
+
+        // Optimistic
+        setGoals(prev => prev.map(g => g.id === goal.id ? { ...g, ...updates } : g));
+
+        // Sync
+        addOperation("UPDATE", "goals", goal.id, toFirestoreData(updates));
+    }, [addOperation, tasks]);
+
+    const addMilestone = useCallback(async (goalId: string, title: string, targetDate?: string) => {
+        if (!user) return;
+        const goal = goals.find(g => g.id === goalId);
+        if (!goal || !title.trim()) return;
+
+        const milestone: Milestone = {
+            id: uuidv4(),
+            title: title.trim(),
+            isCompleted: false,
+            order: goal.milestones.length,
+        };
+        if (targetDate) milestone.targetDate = targetDate;
+
+        saveMilestones(goal, [...goal.milestones, milestone]);
+    }, [user, goals, saveMilestones]);
+
+    const toggleMilestone = useCallback(async (goalId: string, milestoneId: string) => {
+        if (!user) return;
+        const goal = goals.find(g => g.id === goalId);
+        const milestone = goal?.milestones.find(m => m.id === milestoneId);
+        if (!goal || !milestone) return;
+
+        const completing = !milestone.isCompleted;
+        const milestones = goal.milestones.map(m => {
+            if (m.id !== milestoneId) return m;
+            if (completing) return { ...m, isCompleted: true, completedAt: new Date().toISOString() };
+
+            // Firestore rejects undefined, so drop completedAt instead of clearing it
+            const { completedAt: _completedAt, ...rest } = m;
+            return { ...rest, isCompleted: false };
+        });
+
+        if (completing) {
+            showSuccess("Milestone reached! 📍", milestone.title);
+        }
+
+        saveMilestones(goal, milestones);
+    }, [user, goals, saveMilestones]);
+
+    const deleteMilestone = useCallback(async (goalId: string, milestoneId: string) => {
+        if (!user) return;
+        const goal = goals.find(g => g.id === goalId);
+        if (!goal) return;
+
+        saveMilestones(goal, goal.milestones.filter(m => m.id !== milestoneId));
+    }, [user, goals, saveMilestones]);
+
+    const reorderMilestones = useCallback(async (goalId: string, orderedIds: string[]) => {
+        if (!user) return;
+        const goal = goals.find(g => g.id === goalId);
+        if (!goal) return;
+
+        // Milestones missing from orderedIds keep their relative order at the end
+        const byId = new Map(goal.milestones.map(m => [m.id, m]));
+        const reordered = orderedIds
+            .map(id => byId.get(id))
+            .filter((m): m is Milestone => m !== undefined);
+        const rest = goal.milestones.filter(m => !orderedIds.includes(m.id));
+
+        saveMilestones(goal, [...reordered, ...rest]);
+    }, [user, goals, saveMilestones]);
 
     return (
-        <GoalContext.Provider value={{ goals, addGoal, updateGoal, deleteGoal, toggleGoalCompletion, loading }}>
+        <GoalContext.Provider value={{
+            goals: goalsWithProgress,
+            addGoal,
+            updateGoal,
+            deleteGoal,
+            toggleGoalCompletion,
+            addMilestone,
+            toggleMilestone,
+            deleteMilestone,
+            reorderMilestones,
+            loading
+        }}>
             {children}
         </GoalContext.Provider>
     );
@@ -132,6 +132,8 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
     const { user } = useAuth();
     const { isActive, isPaused, minutes } = useFocusTimer();
     const suppressRef = useRef<NodeJS.Timeout | null>(null);
+    // Latest showToast, for the Firestore listener (which shouldn't resubscribe when it changes)
+    const showToastRef = useRef<(notification: AppNotification) => void>(() => { });
 
     const isFocusModeActive = isActive && !isPaused;
 
@@ -178,6 +180,8 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
         const notificationsRef = collection(db, "users", user.uid, "notifications");
         const q = query(notificationsRef, orderBy("createdAt", "desc"));
 
+        let initialSnapshot = true;
+
         const unsubscribe = onSnapshot(q, (snapshot) => {
             const serverNotifications: AppNotification[] = [];
 
@@ -190,6 +194,7 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
                     timestamp: new Date(data.createdAt?.seconds * 1000 || Date.now()).getTime(),
                     read: data.read || false,
                     type: data.type || "info",
+                    link: data.link,
                     source: "server",
                     priority: data.priority || "normal",
                     category: data.category,
@@ -197,6 +202,17 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
                 });
             });
 
+            // Partner check-ins and misses (shared routines) arrive while the app is open; surface them
+            if (!initialSnapshot) {
+                snapshot.docChanges()
+                    .filter(change => change.type === "added" && change.doc.data().category === "social")
+                    .forEach(change => {
+                        const added = serverNotifications.find(n => n.id === change.doc.id);
+                        if (added && !added.read) showToastRef.current(added);
+                    });
+            }
+            initialSnapshot = false;
+
             setNotifications((prev) => {
                 const localNotifications = prev.filter((n) => n.source === "local");
                 const merged = [...serverNotifications, ...localNotifications];
@@ -314,6 +330,10 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
         });
     }, [shouldShowToast]);
 
+    useEffect(() => {
+        showToastRef.current = showToast;
+    }, [showToast]);
+
     // ============================================
     // Core Notification Methods
     // ============================================
@@ -17,10 +17,13 @@ import {
   writeBatch,
   serverTimestamp,
   increment,
+  deleteField,
+  Timestamp,
   FirestoreError
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useAuth } from "@/context/AuthContext";
+import { applyDemoOperation, IS_DEMO_MODE } from "@/lib/demoMode";
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -32,7 +35,7 @@ export type OperationType = "CREATE" | "UPDATE" | "DELETE" | "TOGGLE";
 export interface SyncOperation {
   id: string;
   type: OperationType;
-  collection: "tasks" | "goals" | "templates" | "user";
+  collection: "tasks" | "goals" | "templates" | "moods" | "focusSessions" | "gamification" | "user";
   documentId: string;
   data?: Record<string, unknown>;
   timestamp: number;
@@ -227,6 +230,12 @@ export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const id = generateId();
     const now = getTimestamp();
 
+    // Demo builds have nothing to sync with; the change is applied right away
+    if (IS_DEMO_MODE) {
+      applyDemoOperation(type, collection, documentId, data);
+      return id;
+    }
+
     setQueue(prev => {
       // Deduplication: Check for recent operations on the same document
       const recentOp = prev.find(op =>
@@ -400,6 +409,10 @@ export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children
           processed[key] = increment(anyValue.value);
         } else if (anyValue.__type === 'serverTimestamp') {
           processed[key] = serverTimestamp();
+        } else if (anyValue.__type === 'deleteField') {
+          processed[key] = deleteField();
+        } else if (anyValue.__type === 'timestamp') {
+          processed[key] = Timestamp.fromDate(new Date(anyValue.value));
         }
       }
     });
@@ -426,9 +439,10 @@ export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     switch (type) {
       case "CREATE":
+        // Keep a createdAt the caller already has (restores, undo), otherwise stamp it
         await setDoc(docRef, {
-          ...processedData,
           createdAt: serverTimestamp(),
+          ...processedData,
           updatedAt: serverTimestamp(),
         } as Record<string, unknown>);
         break;
@@ -25,6 +25,22 @@ import {
 } from "firebase/firestore";
 import { useAuth } from "./AuthContext";
 import { useSync } from "@/context/SyncContext";
+import {
+  VacationRange,
+  getCurrentOrUpcomingVacation,
+  isStreakFrozenDay,
+  isTaskPausedOn,
+  isVacationDay,
+  parseVacations
+} from "@/lib/vacationUtils";
+import { TaskRecurrence, isTaskScheduledOn } from "@/lib/recurrenceUtils";
+import { getSystemTimezone, getZonedDate, isValidTimezone, resolveUserTimezone } from "@/lib/timezoneUtils";
+import { refreshLeaderboardScore, reportWebhookEvent } from "@/lib/apiClient";
+import { SCORE_PER_COMPLETION } from "@/lib/statsUtils";
+import { demoStore, IS_DEMO_MODE } from "@/lib/demoMode";
+
+// Wait for a burst of completions to settle before asking for a new score
+const SCORE_REFRESH_DELAY_MS = 3000;
 
 // ============================================================================
 // SSR-SAFE UTILS
@@ -70,7 +86,9 @@ export interface Task {
   lastCompletedDate?: string;
   completionHistory: string[];
   specificDate?: string;
+  recurrence?: TaskRecurrence; // Overrides `days` when set
   reminder?: string;
+  goalId?: string; // Goal this routine contributes to
   createdAt?: string;
   updatedAt?: string;
 }
@@ -95,6 +113,12 @@ interface TaskContextType {
   replaceAllTasks: (newTasks: Task[]) => Promise<void>;
   calculateStreak: (task: Task) => number;
   getCompletionRate: (days?: number) => number;
+  vacations: VacationRange[];
+  activeVacation: VacationRange | undefined;
+  startVacation: (startDate: string, endDate: string, preserveStreak: boolean) => Promise<void>;
+  endVacation: () => Promise<void>;
+  timezone: string; // IANA timezone that decides the user's "today"
+  setTimezone: (timezone: string) => Promise<void>;
   isOnline: boolean;
   loading: boolean;
 }
@@ -111,7 +135,7 @@ const TaskContext = createContext<TaskContextType | undefined>(undefined);
 
 export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useAuth();
-  const { addOperation } = useSync();
+  const { addOperation, pendingCount, isOnline: isSyncOnline } = useSync();
 
   // Local State - Initialize with empty arrays for SSR safety
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -119,18 +143,22 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [selectedDay, setSelectedDay] = useState<string>("");
   const [todayDate, setTodayDate] = useState<Date>(new Date());
   const [templates, setTemplates] = useState<Record<string, Task[]>>({});
+  const [vacations, setVacations] = useState<VacationRange[]>([]);
+  const [timezone, setTimezoneState] = useState<string>(() => getSystemTimezone());
 
-  // Initialize dates on client side to ensure consistency
+  // Initialize dates on client side to ensure consistency (and again if the timezone changes)
   useEffect(() => {
-    setSelectedDay(format(new Date(), "EEE").toUpperCase());
-    setTodayDate(new Date());
-  }, []);
+    const now = getZonedDate(timezone);
+    setSelectedDay(format(now, "EEE").toUpperCase());
+    setTodayDate(now);
+  }, [timezone]);
   const [loading, setLoading] = useState(true);
   const [isOnline, setIsOnline] = useState(true);
 
   // Refs
   const mountedRef = useRef(false);
   const unsubscribeRef = useRef<(() => void) | null>(null);
+  const scoreStaleRef = useRef(false);
 
   // ============================================================================
   // SSR-SAFE ONLINE STATUS
@@ -169,6 +197,7 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (!user) {
         setTasks([]);
         setTemplates({});
+        setVacations([]);
         setLoading(false);
       }
       return;
@@ -177,10 +206,34 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     // Mark as mounted
     mountedRef.current = true;
 
+    // Demo builds read the in-memory demo store instead of Firestore
+    if (IS_DEMO_MODE) {
+      const unsubscribers = [
+        demoStore.subscribe("tasks", (docs) => {
+          setTasks(docs as unknown as Task[]);
+          setLoading(false);
+        }),
+        demoStore.subscribe("templates", (docs) => {
+          setTemplates(Object.fromEntries(docs.map(d => [d.id, d.tasks as Task[]])));
+        }),
+        demoStore.subscribe("user", (docs) => {
+          const profile = docs.find(d => d.id === user.uid);
+          setVacations(parseVacations(profile?.vacations));
+          setTimezoneState(resolveUserTimezone(profile, getSystemTimezone()));
+        }),
+      ];
+
+      return () => {
+        mountedRef.current = false;
+        unsubscribers.forEach(unsubscribe => unsubscribe());
+      };
+    }
+
     // Load from cache first (offline support)
     try {
       const cachedTasks = getStorageItem(`rt_tasks_${user.uid}`);
       const cachedTemplates = getStorageItem(`rt_templates_${user.uid}`);
+      const cachedVacations = getStorageItem(`rt_vacations_${user.uid}`);
 
       if (cachedTasks) {
         const parsed = JSON.parse(cachedTasks);
@@ -190,6 +243,9 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
         const parsed = JSON.parse(cachedTemplates);
         setTemplates(parsed);
       }
+      if (cachedVacations) {
+        setVacations(parseVacations(JSON.parse(cachedVacations)));
+      }
 
       // Critical: If we have cached data and we're offline, stop loading
       if ((cachedTasks || cachedTemplates) && !navigator.onLine) {
@@ -257,10 +313,28 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.error("Firestore Templates Error:", error);
     });
 
+    // Profile listener (vacation ranges and the timezone live on the user document)
+    const unsubscribeProfile = onSnapshot(doc(db, "users", user.uid), (snapshot) => {
+      if (!mountedRef.current) return;
+
+      const fetchedVacations = parseVacations(snapshot.data()?.vacations);
+      setVacations(fetchedVacations);
+      setTimezoneState(resolveUserTimezone(snapshot.data(), getSystemTimezone()));
+
+      try {
+        setStorageItem(`rt_vacations_${user.uid}`, JSON.stringify(fetchedVacations));
+      } catch (e) {
+        console.warn("Failed to cache vacations:", e);
+      }
+    }, (error) => {
+      console.error("Firestore Profile Error:", error);
+    });
+
     // Cleanup on unmount or user change
     unsubscribeRef.current = () => {
       unsubscribeTasks();
       unsubscribeTemplates();
+      unsubscribeProfile();
     };
 
     return () => {
@@ -274,7 +348,7 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
   // ============================================================================
 
   const getDateForDayOfWeek = useCallback((dayName: string): string => {
-    const today = new Date();
+    const today = getZonedDate(timezone);
     const todayDayIndex = today.getDay();
     const dayNameToIndex: Record<string, number> = {
       "SUN": 0, "MON": 1, "TUE": 2, "WED": 3, "THU": 4, "FRI": 5, "SAT": 6
@@ -284,7 +358,7 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const targetDate = new Date(today);
     targetDate.setDate(today.getDate() + diff);
     return format(targetDate, "yyyy-MM-dd");
-  }, []);
+  }, [timezone]);
 
   const addTask = useCallback(async (taskData: Omit<Task, "id" | "isCompleted" | "completionHistory">) => {
     if (!user) return;
@@ -315,20 +389,31 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const updateTask = useCallback(async (updatedTask: Task) => {
     if (!user) return;
 
+    const previousTask = tasks.find(t => t.id === updatedTask.id);
+
     // OPTIMISTIC: Update local state immediately
     setTasks(prev => prev.map(t => t.id === updatedTask.id ? updatedTask : t));
 
     // Sanitize data
-    const dataToSave = { ...updatedTask };
+    const dataToSave: Record<string, unknown> = { ...updatedTask };
     Object.keys(dataToSave).forEach(key => {
-      if (dataToSave[key as keyof Task] === undefined) {
-        delete dataToSave[key as keyof Task];
+      if (dataToSave[key] === undefined) {
+        delete dataToSave[key];
       }
     });
 
+    // Optional fields that were cleared (e.g. reminder, goalId) must be removed from the doc
+    if (previousTask) {
+      (Object.keys(previousTask) as (keyof Task)[]).forEach(key => {
+        if (previousTask[key] !== undefined && updatedTask[key] === undefined) {
+          dataToSave[key] = { __type: "deleteField" };
+        }
+      });
+    }
+
     // Queue for background sync
     addOperation("UPDATE", "tasks", updatedTask.id, dataToSave);
-  }, [user, addOperation]);
+  }, [user, tasks, addOperation]);
 
   const deleteTask = useCallback(async (id: string) => {
     if (!user) return;
@@ -385,27 +470,34 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     ));
 
     if (!isCurrentlyCompleted) {
-      showCelebrationToast(task.title, 10);
-
-      // Also update user stats optimistically/background
-      const scoreChange = 10;
-      // We can queue user update too
-      addOperation("UPDATE", "user", user.uid, {
-        score: { __type: "increment", value: scoreChange },
-        lastActive: new Date().toISOString()
-      });
-    } else {
-      const scoreChange = -10;
-      addOperation("UPDATE", "user", user.uid, {
-        score: { __type: "increment", value: scoreChange },
-        lastActive: new Date().toISOString()
-      });
+      showCelebrationToast(task.title, SCORE_PER_COMPLETION);
+      reportWebhookEvent("task.completed", { taskId: task.id, title: task.title, date: completionDateStr });
     }
 
+    // Score and streak are recalculated on the server once this has synced
+    addOperation("UPDATE", "user", user.uid, {
+      lastActive: new Date().toISOString()
+    });
+
     // Queue for background sync
     addOperation("TOGGLE", "tasks", id, updates);
+    scoreStaleRef.current = true;
   }, [user, tasks, addOperation, selectedDay, getDateForDayOfWeek]);
 
+  // Refresh the leaderboard score after completions have reached Firestore
+  useEffect(() => {
+    if (!user || !scoreStaleRef.current || pendingCount > 0 || !isSyncOnline) return;
+
+    const timer = setTimeout(() => {
+      scoreStaleRef.current = false;
+      refreshLeaderboardScore().catch(error => {
+        console.warn("Leaderboard score refresh failed:", error);
+      });
+    }, SCORE_REFRESH_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [user, pendingCount, isSyncOnline, tasks]);
+
   // ============================================================================
   // HELPER FUNCTIONS
   // ============================================================================
@@ -413,38 +505,41 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const getTasksByTimeBlock = useCallback((block: TimeBlock, day: string = selectedDay) => {
     const dateStrForDay = getDateForDayOfWeek(day);
     return tasks
-      .filter((t) => {
-        if (t.specificDate) {
-          return t.timeBlock === block && t.specificDate === dateStrForDay;
-        }
-        return t.timeBlock === block && t.days.includes(day);
-      })
+      .filter((t) =>
+        t.timeBlock === block &&
+        isTaskScheduledOn(t, dateStrForDay) &&
+        !isTaskPausedOn(t, dateStrForDay, vacations)
+      )
       .map((t) => ({
         ...t,
         isCompleted: t.completionHistory.includes(dateStrForDay)
       }))
       .sort((a, b) => a.startTime.localeCompare(b.startTime));
-  }, [tasks, selectedDay, getDateForDayOfWeek]);
+  }, [tasks, selectedDay, getDateForDayOfWeek, vacations]);
 
   const resetDay = useCallback(async () => {
     if (!user) return;
-    const todayStr = format(new Date(), "yyyy-MM-dd");
+    const todayStr = format(getZonedDate(timezone), "yyyy-MM-dd");
     const batch = writeBatch(db);
 
     tasks.forEach(t => {
       const newHistory = t.completionHistory.filter(d => d !== todayStr);
       if (newHistory.length !== t.completionHistory.length || t.isCompleted) {
-        const ref = doc(db, "users", user.uid, "tasks", t.id);
-        batch.update(ref, {
+        const updates = {
           isCompleted: false,
           lastCompletedDate: null,
           completionHistory: newHistory
-        });
+        };
+        if (IS_DEMO_MODE) {
+          demoStore.update("tasks", t.id, updates);
+        } else {
+          batch.update(doc(db, "users", user.uid, "tasks", t.id), updates);
+        }
       }
     });
 
-    await batch.commit();
-  }, [user, tasks]);
+    if (!IS_DEMO_MODE) await batch.commit();
+  }, [user, tasks, timezone]);
 
   // ============================================================================
   // TEMPLATES
@@ -463,10 +558,14 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (!user) return;
     try {
       const sanitizedTasks = sanitizeTasks(tasks);
-      await withRetry(
-        () => setDoc(doc(db, "users", user.uid, "templates", name), { tasks: sanitizedTasks }),
-        { operationName: "Save template" }
-      );
+      if (IS_DEMO_MODE) {
+        demoStore.set("templates", name, { tasks: sanitizedTasks });
+      } else {
+        await withRetry(
+          () => setDoc(doc(db, "users", user.uid, "templates", name), { tasks: sanitizedTasks }),
+          { operationName: "Save template" }
+        );
+      }
       showSuccess("Template saved!", `"${name}" is ready to use`);
     } catch (error: any) {
       handleFirestoreError(error, "Save template");
@@ -475,6 +574,13 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const replaceAllTasks = useCallback(async (newTasks: Task[]) => {
     if (!user) return;
+
+    if (IS_DEMO_MODE) {
+      tasks.forEach(t => demoStore.delete("tasks", t.id));
+      sanitizeTasks(newTasks).forEach(({ id, ...t }) => demoStore.set("tasks", id, t));
+      return;
+    }
+
     const batch = writeBatch(db);
 
     tasks.forEach(t => {
@@ -515,14 +621,13 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const calculateStreak = useCallback((task: Task): number => {
     let streak = 0;
-    const today = new Date();
+    const today = getZonedDate(timezone);
 
     for (let i = 0; i < 365; i++) {
-      const dateToCheck = subDays(today, i);
-      const dateStr = format(dateToCheck, "yyyy-MM-dd");
-      const dayName = format(dateToCheck, "EEE").toUpperCase();
+      const dateStr = format(subDays(today, i), "yyyy-MM-dd");
 
-      if (!task.days.includes(dayName)) continue;
+      if (!isTaskScheduledOn(task, dateStr)) continue;
+      if (isStreakFrozenDay(dateStr, vacations)) continue;
 
       if (task.completionHistory.includes(dateStr)) {
         streak++;
@@ -532,21 +637,20 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
     }
     return streak;
-  }, []);
+  }, [vacations, timezone]);
 
   const getCompletionRate = useCallback((days: number = 7): number => {
     if (tasks.length === 0) return 0;
     let totalScheduled = 0;
     let totalCompleted = 0;
-    const today = new Date();
+    const today = getZonedDate(timezone);
 
     for (let i = 0; i < days; i++) {
-      const dateToCheck = subDays(today, i);
-      const dateStr = format(dateToCheck, "yyyy-MM-dd");
-      const dayName = format(dateToCheck, "EEE").toUpperCase();
+      const dateStr = format(subDays(today, i), "yyyy-MM-dd");
+      if (isVacationDay(dateStr, vacations)) continue;
 
       tasks.forEach(task => {
-        if (task.days.includes(dayName)) {
+        if (isTaskScheduledOn(task, dateStr)) {
           totalScheduled++;
           if (task.completionHistory.includes(dateStr)) {
             totalCompleted++;
@@ -556,7 +660,65 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
 
     return totalScheduled === 0 ? 0 : Math.round((totalCompleted / totalScheduled) * 100);
-  }, [tasks]);
+  }, [tasks, vacations, timezone]);
+
+  // ============================================================================
+  // VACATION MODE
+  // ============================================================================
+
+  const saveVacations = useCallback((nextVacations: VacationRange[]) => {
+    if (!user) return;
+
+    // OPTIMISTIC: Update local state immediately
+    setVacations(nextVacations);
+    addOperation("UPDATE", "user", user.uid, { vacations: nextVacations });
+  }, [user, addOperation]);
+
+  const startVacation = useCallback(async (startDate: string, endDate: string, preserveStreak: boolean) => {
+    if (!user) return;
+
+    const newVacation: VacationRange = {
+      id: uuidv4(),
+      startDate,
+      endDate,
+      preserveStreak,
+      createdAt: new Date().toISOString()
+    };
+
+    // Overlapping ranges are replaced by the new one
+    const remaining = vacations.filter(v => v.endDate < startDate || v.startDate > endDate);
+    saveVacations([...remaining, newVacation]);
+  }, [user, vacations, saveVacations]);
+
+  const endVacation = useCallback(async () => {
+    if (!user) return;
+    const today = getZonedDate(timezone);
+    const todayStr = format(today, "yyyy-MM-dd");
+    const current = getCurrentOrUpcomingVacation(todayStr, vacations);
+    if (!current) return;
+
+    // Vacations that haven't started are dropped; running ones end yesterday
+    // so that past vacation days keep protecting the streak.
+    const nextVacations = current.startDate >= todayStr
+      ? vacations.filter(v => v.id !== current.id)
+      : vacations.map(v => v.id === current.id
+        ? { ...v, endDate: format(subDays(today, 1), "yyyy-MM-dd"), endedAt: new Date().toISOString() }
+        : v);
+
+    saveVacations(nextVacations);
+  }, [user, vacations, saveVacations, timezone]);
+
+  // ============================================================================
+  // TIMEZONE
+  // ============================================================================
+
+  const setTimezone = useCallback(async (nextTimezone: string) => {
+    if (!user || !isValidTimezone(nextTimezone)) return;
+
+    // OPTIMISTIC: Update local state immediately
+    setTimezoneState(nextTimezone);
+    addOperation("UPDATE", "user", user.uid, { "settings.timezone": nextTimezone });
+  }, [user, addOperation]);
 
   // ============================================================================
   // COMPUTED VALUES
@@ -564,7 +726,7 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const dateStrForSelectedDay = getDateForDayOfWeek(selectedDay);
   const todaysTasks = tasks
-    .filter((t) => t.days.includes(selectedDay))
+    .filter((t) => isTaskScheduledOn(t, dateStrForSelectedDay) && !isTaskPausedOn(t, dateStrForSelectedDay, vacations))
     .map((t) => ({
       ...t,
       isCompleted: t.completionHistory.includes(dateStrForSelectedDay)
@@ -576,6 +738,8 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     ? Math.round((completedTasksToday / totalTasksToday) * 100)
     : 0;
 
+  const activeVacation = getCurrentOrUpcomingVacation(format(todayDate, "yyyy-MM-dd"), vacations);
+
   // ============================================================================
   // RENDER
   // ============================================================================
@@ -601,6 +765,12 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
       replaceAllTasks,
       calculateStreak,
       getCompletionRate,
+      vacations,
+      activeVacation,
+      startVacation,
+      endVacation,
+      timezone,
+      setTimezone,
       isOnline,
       loading
     }}>
@@ -7,15 +7,21 @@
 // - +/- 5 minute dynamic adjustment
 // - Zen Mode for immersive focus
 // - Firestore persistence for cross-device sync
-// - Multiple presets (Classic, Deep Work, Sprint, Custom)
+// - One live session per user, followed and controlled from other devices
+// - Multiple presets (Classic, Deep Work, Sprint) plus synced custom presets
+// - Interval programs run step by step (52/17, ultradian cycles, ...)
 // - Distraction tracking (window blur/focus events)
+// - Strict focus (blocked routes/sites intercepted during focus sessions)
 // - Session abandonment detection and resume
 // - Real-time stats integration
 // - Background mode (document.title updates)
+// - Ambient sound that fades in and out with sessions (lib/ambientSound)
+// - Worker-driven clock, shared by every open tab (lib/focusTimerClock)
 // - Quick notes capture
 // - Task linkage with auto-completion
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { toast } from "sonner";
 import { useAuth } from "@/context/AuthContext";
 import {
   createFocusSession,
@@ -27,14 +33,93 @@ import {
   saveFocusAchievement,
   getUserAchievements,
   FocusAchievement,
+  BuiltInPresetId,
+  FocusPreset,
+  FocusProgramRunStep,
+  FocusSessionType,
+  FOCUS_PRESETS,
+  FOCUS_PRESET_LIMITS,
+  getProgramRunSteps,
+  subscribeToFocusPresets,
+  saveFocusPreset,
+  deleteFocusPreset,
+  ActiveFocusSessionError,
+  LiveFocusSession,
+  LiveFocusSessionAction,
+  isLiveSessionRunning,
+  startLiveFocusSession,
+  updateLiveFocusSession,
+  endLiveFocusSession,
+  controlLiveFocusSession,
+  subscribeToLiveFocusSession,
 } from "@/lib/focusSessionUtils";
-import type { FocusPresetId, FocusPresetConfig } from "@/components/focus/PresetSelector";
-import { PRESET_CONFIGS } from "@/components/focus/PresetSelector";
 import { Timestamp } from "firebase/firestore";
+import {
+  BLOCKED_ATTEMPT_REASON,
+  BlockedTarget,
+  DEFAULT_STRICT_FOCUS_SETTINGS,
+  getBlockedTarget,
+  parseStrictFocusSettings,
+  STRICT_FOCUS_STORAGE_KEY,
+  StrictFocusSettings,
+} from "@/lib/strictFocusUtils";
+import {
+  claimTimerCompletion,
+  FocusTimerClock,
+  FOCUS_TIMER_STATE_KEY,
+  getFocusDeviceId,
+  getFocusDeviceLabel,
+  showTimerNotification,
+} from "@/lib/focusTimerClock";
+import { syncAmbientWithSession } from "@/lib/ambientSound";
+
+// The last selected preset, so a reload keeps it
+const FOCUS_PRESET_STORAGE_KEY = "rt_focus_preset";
 
 // Timer theme types
 export type TimerTheme = "default" | "light" | "amber" | "mono";
 
+// A link strict focus stopped, shown on the interstitial
+export interface BlockedNavigation extends BlockedTarget {
+  href: string;
+}
+
+// The running timer as saved in localStorage and shared between tabs
+interface StoredTimerState {
+  isActive: boolean;
+  isPaused: boolean;
+  sessionType: FocusSessionType;
+  remainingSeconds: number | null; // only while a countdown is paused
+  totalSeconds: number;
+  targetEndTime: number;
+  timerStartTime: number;
+  sessionStartTime: number;
+  currentSessionId: string | null;
+  linkedTaskId: string | null;
+  linkedTaskTitle: string | null;
+  sessionNotes: string;
+  totalBlurTime: number;
+  blurCount: number;
+  savedAt: number;
+  timerMode: "timer" | "stopwatch";
+  zenMode: boolean;
+  timerTheme: TimerTheme;
+  isOvertime: boolean;
+  sessionIntention: string;
+  distractionReasons: { type: string; timestamp: number }[];
+  blockedAttempts: string[];
+  presetConfig: FocusPreset;
+  programStepIndex: number | null;
+}
+
+// Compare saved states without the time they were saved at
+const serializeTimerState = (state: StoredTimerState) => JSON.stringify({ ...state, savedAt: 0 });
+
+const readStoredTimerState = (): StoredTimerState | null => {
+  const saved = localStorage.getItem(FOCUS_TIMER_STATE_KEY);
+  return saved ? JSON.parse(saved) : null;
+};
+
 export const useFocusTimerLogic = () => {
   const { user } = useAuth();
 
@@ -49,10 +134,11 @@ export const useFocusTimerLogic = () => {
   const [sessionType, setSessionType] = useState<
     "focus" | "shortBreak" | "longBreak"
   >("focus");
-  const [currentPreset, setCurrentPreset] = useState<FocusPresetId>("classic");
-  const [presetConfig, setPresetConfig] = useState<FocusPresetConfig>(
-    PRESET_CONFIGS[0]
-  );
+  const [presetConfig, setPresetConfig] = useState<FocusPreset>(FOCUS_PRESETS[0]);
+  const [customPresets, setCustomPresets] = useState<FocusPreset[]>([]);
+
+  // Program State (null when the preset isn't a program or the timer is in stopwatch mode)
+  const [programStepIndex, setProgramStepIndex] = useState<number | null>(null);
 
   const [minutes, setMinutes] = useState(25);
   const [seconds, setSeconds] = useState(0);
@@ -89,10 +175,18 @@ export const useFocusTimerLogic = () => {
   const [blurCount, setBlurCount] = useState(0);
   const [previousAverageFocus, setPreviousAverageFocus] = useState(100);
 
+  // Strict Focus
+  const [strictFocus, setStrictFocus] = useState<StrictFocusSettings>(DEFAULT_STRICT_FOCUS_SETTINGS);
+  const [blockedAttempts, setBlockedAttempts] = useState<string[]>([]); // one target per attempt
+  const [blockedNavigation, setBlockedNavigation] = useState<BlockedNavigation | null>(null);
+
   // Session Report
   const [showSessionReport, setShowSessionReport] = useState(false);
   const [lastSessionData, setLastSessionData] = useState<any>(null);
 
+  // The running timer of another device (null when it's this one's, or none)
+  const [remoteSession, setRemoteSession] = useState<LiveFocusSession | null>(null);
+
   // Resume Session Dialog
   const [showResumeDialog, setShowResumeDialog] = useState(false);
   const [incompleteSession, setIncompleteSession] = useState<FocusSession | null>(null);
@@ -102,98 +196,142 @@ export const useFocusTimerLogic = () => {
   const [newAchievement, setNewAchievement] = useState<FocusAchievement | null>(null);
 
   // References
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const clockRef = useRef<FocusTimerClock | null>(null);
   const sessionStartTime = useRef<number>(Date.now());
   const timerStartTime = useRef<number>(Date.now());
   const targetEndTime = useRef<number>(Date.now());
   const hasLoadedFromStorage = useRef(false);
+  // Always the latest handleTimerComplete, so the clock never runs a stale one
+  const timerCompleteRef = useRef<() => Promise<void>>(async () => { });
+  const completedEndTimeRef = useRef<number | null>(null); // countdown end already handled
+  // The focus_timer_state this tab last wrote or adopted (see serializeTimerState)
+  const lastSavedTimerState = useRef<string | null>(null);
+  const remoteTimerChangeRef = useRef<(saved: string | null) => void>(() => { });
+  // Live session: this device's id, and the timerStartTime of the live session it owns
+  const deviceId = useRef("");
+  const ownedLiveStart = useRef<number | null>(null);
+  const lastLiveSnapshot = useRef<string | null>(null);
+  const handledSkipRef = useRef<number | null>(null);
+  const liveChangeRef = useRef<(live: LiveFocusSession | null) => void>(() => { });
+
+  // Program steps with rounds expanded; empty for plain presets
+  const currentPreset = presetConfig.id;
+  const programSteps = useMemo(() => getProgramRunSteps(presetConfig), [presetConfig]);
+  const currentProgramStep: FocusProgramRunStep | null =
+    programStepIndex !== null ? programSteps[programStepIndex] ?? null : null;
 
   // ============================================================================
   // LOCALSTORAGE PERSISTENCE
   // ============================================================================
 
+  // Put a timer saved by this or another tab on the clock. Returns false when
+  // the saved timer has run out or is too old (max 24 hours) to resume.
+  const applyStoredTimerState = (state: StoredTimerState): boolean => {
+    const now = Date.now();
+    if (!state.isActive || !state.targetEndTime) return false;
+    if (now - state.savedAt >= 24 * 60 * 60 * 1000) return false;
+
+    const isStopwatch = state.timerMode === "stopwatch";
+    const remaining = Math.max(0, state.targetEndTime - now);
+    if (remaining <= 0 && !state.isOvertime && !state.isPaused && !isStopwatch) return false;
+
+    // Overtime counts up from the end time; a paused countdown keeps what it had left
+    const displaySeconds = isStopwatch
+      ? Math.floor((now - state.timerStartTime) / 1000)
+      : typeof state.remainingSeconds === "number"
+        ? state.remainingSeconds
+        : Math.ceil(remaining / 1000);
+
+    setIsOvertime(state.isOvertime);
+    setOvertimeSeconds(state.isOvertime ? Math.max(0, Math.floor((now - state.targetEndTime) / 1000)) : 0);
+    setMinutes(Math.floor(displaySeconds / 60));
+    setSeconds(displaySeconds % 60);
+    setIsActive(true);
+    setIsPaused(state.isPaused || false);
+    setSessionType(state.sessionType || 'focus');
+    setTotalSeconds(state.totalSeconds || displaySeconds);
+    setTimerMode(state.timerMode || 'timer');
+    setZenMode(state.zenMode || false);
+    setTimerTheme(state.timerTheme || 'default');
+
+    // Restore refs
+    targetEndTime.current = state.targetEndTime;
+    timerStartTime.current = state.timerStartTime || now;
+    sessionStartTime.current = state.sessionStartTime || now;
+
+    // Restore session data
+    setCurrentSessionId(state.currentSessionId || null);
+    setLinkedTaskId(state.linkedTaskId || null);
+    setLinkedTaskTitle(state.linkedTaskTitle || null);
+    setSessionNotes(state.sessionNotes || "");
+    setTotalBlurTime(state.totalBlurTime || 0);
+    setBlurCount(state.blurCount || 0);
+    setSessionIntention(state.sessionIntention || "");
+    setDistractionReasons(state.distractionReasons || []);
+    setBlockedAttempts(state.blockedAttempts || []);
+    if (state.presetConfig) setPresetConfig(state.presetConfig);
+    setProgramStepIndex(typeof state.programStepIndex === 'number' ? state.programStepIndex : null);
+    return true;
+  };
+
   // Load timer state from localStorage on mount
   useEffect(() => {
     if (hasLoadedFromStorage.current) return;
     hasLoadedFromStorage.current = true;
+    deviceId.current = getFocusDeviceId();
 
     try {
-      const savedState = localStorage.getItem('focus_timer_state');
-      if (savedState) {
-        const state = JSON.parse(savedState);
-
-        // Only restore if timer was active and not too old (max 24 hours)
-        if (state.isActive && state.targetEndTime) {
-          const now = Date.now();
-          const timeSinceSaved = now - state.savedAt;
-
-          if (timeSinceSaved < 24 * 60 * 60 * 1000) { // 24 hours
-            const remaining = Math.max(0, state.targetEndTime - now);
-
-            if (remaining > 0 || state.isOvertime) {
-              // Timer still has time left - restore it
-              if (state.isOvertime) {
-                // Restore overtime state
-                const overtimeElapsed = Math.floor((now - state.targetEndTime) / 1000);
-                setIsOvertime(true);
-                setOvertimeSeconds(Math.max(0, overtimeElapsed));
-              }
-
-              const remainingSeconds = Math.max(0, Math.ceil(remaining / 1000));
-              const newMinutes = Math.floor(remainingSeconds / 60);
-              const newSeconds = remainingSeconds % 60;
-
-              setMinutes(newMinutes);
-              setSeconds(newSeconds);
-              setIsActive(true);
-              setIsPaused(state.isPaused || false);
-              setSessionType(state.sessionType || 'focus');
-              setTotalSeconds(state.totalSeconds || remainingSeconds);
-              setTimerMode(state.timerMode || 'timer');
-              setZenMode(state.zenMode || false);
-              setTimerTheme(state.timerTheme || 'default');
-
-              // Restore refs
-              targetEndTime.current = state.targetEndTime;
-              timerStartTime.current = state.timerStartTime || now;
-              sessionStartTime.current = state.sessionStartTime || now;
-
-              // Restore session data
-              if (state.currentSessionId) setCurrentSessionId(state.currentSessionId);
-              if (state.linkedTaskId) setLinkedTaskId(state.linkedTaskId);
-              if (state.linkedTaskTitle) setLinkedTaskTitle(state.linkedTaskTitle);
-              if (state.sessionNotes) setSessionNotes(state.sessionNotes);
-              if (state.totalBlurTime) setTotalBlurTime(state.totalBlurTime);
-              if (state.blurCount) setBlurCount(state.blurCount);
-              if (state.sessionIntention) setSessionIntention(state.sessionIntention);
-              if (state.distractionReasons) setDistractionReasons(state.distractionReasons);
-            } else {
-              // Timer expired while page was closed - clear storage
-              localStorage.removeItem('focus_timer_state');
-            }
-          } else {
-            // State too old - clear it
-            localStorage.removeItem('focus_timer_state');
-          }
-        }
+      const savedPreset = localStorage.getItem(FOCUS_PRESET_STORAGE_KEY);
+      if (savedPreset) {
+        // A restored timer below overrides this with its own preset and step
+        const preset: FocusPreset = JSON.parse(savedPreset);
+        const firstStep = getProgramRunSteps(preset)[0];
+        const mins = firstStep?.minutes ?? preset.focusMinutes;
+
+        setPresetConfig(preset);
+        setProgramStepIndex(firstStep ? 0 : null);
+        setSessionType(firstStep?.type ?? 'focus');
+        setMinutes(mins);
+        setSeconds(0);
+        setTotalSeconds(mins * 60);
+      }
+    } catch (error) {
+      console.error('Failed to restore focus preset:', error);
+    }
+
+    try {
+      const savedSettings = localStorage.getItem(STRICT_FOCUS_STORAGE_KEY);
+      if (savedSettings) setStrictFocus(parseStrictFocusSettings(JSON.parse(savedSettings)));
+    } catch (error) {
+      console.error('Failed to restore strict focus settings:', error);
+    }
+
+    try {
+      const state = readStoredTimerState();
+      if (state && applyStoredTimerState(state)) {
+        lastSavedTimerState.current = serializeTimerState(state);
+      } else if (state) {
+        // Timer expired while page was closed, or state too old - clear it
+        localStorage.removeItem(FOCUS_TIMER_STATE_KEY);
       }
     } catch (error) {
       console.error('Failed to restore timer state:', error);
-      localStorage.removeItem('focus_timer_state');
+      localStorage.removeItem(FOCUS_TIMER_STATE_KEY);
     }
   }, []);
 
-  // Save timer state to localStorage whenever it changes
+  // Save timer state to localStorage whenever it changes. Other tabs follow
+  // along through the storage event, so only real changes are written: a
+  // running countdown is described by its end time, not the ticking display.
   useEffect(() => {
     if (!hasLoadedFromStorage.current) return; // Don't save until we've loaded
 
     if (isActive) {
-      const state = {
+      const state: StoredTimerState = {
         isActive,
         isPaused,
         sessionType,
-        minutes,
-        seconds,
+        remainingSeconds: isPaused && timerMode === "timer" && !isOvertime ? minutes * 60 + seconds : null,
         totalSeconds,
         targetEndTime: targetEndTime.current,
         timerStartTime: timerStartTime.current,
@@ -204,25 +342,43 @@ export const useFocusTimerLogic = () => {
         sessionNotes,
         totalBlurTime,
         blurCount,
-        savedAt: Date.now(),
+        savedAt: 0,
         timerMode,
         zenMode,
         timerTheme,
         isOvertime,
         sessionIntention,
         distractionReasons,
+        blockedAttempts,
+        presetConfig,
+        programStepIndex,
       };
 
+      const snapshot = serializeTimerState(state);
+      if (snapshot === lastSavedTimerState.current) return;
+      lastSavedTimerState.current = snapshot;
+
       try {
-        localStorage.setItem('focus_timer_state', JSON.stringify(state));
+        localStorage.setItem(FOCUS_TIMER_STATE_KEY, JSON.stringify({ ...state, savedAt: Date.now() }));
       } catch (error) {
         console.error('Failed to save timer state:', error);
       }
-    } else {
-      // Timer not active - clear storage
-      localStorage.removeItem('focus_timer_state');
+    } else if (lastSavedTimerState.current !== null) {
+      // Timer not active - clear storage (only ours; an idle tab mustn't end another tab's timer)
+      lastSavedTimerState.current = null;
+      localStorage.removeItem(FOCUS_TIMER_STATE_KEY);
     }
-  }, [isActive, isPaused, minutes, seconds, sessionType, totalSeconds, currentSessionId, linkedTaskId, linkedTaskTitle, sessionNotes, totalBlurTime, blurCount, timerMode, zenMode, timerTheme, isOvertime, sessionIntention, distractionReasons]);
+  }, [isActive, isPaused, minutes, seconds, sessionType, totalSeconds, currentSessionId, linkedTaskId, linkedTaskTitle, sessionNotes, totalBlurTime, blurCount, timerMode, zenMode, timerTheme, isOvertime, sessionIntention, distractionReasons, blockedAttempts, presetConfig, programStepIndex]);
+
+  // Follow the timer when another tab starts, pauses, changes or ends it
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === FOCUS_TIMER_STATE_KEY) remoteTimerChangeRef.current(event.newValue);
+    };
+
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
 
   // ============================================================================
   // INITIALIZATION
@@ -256,6 +412,62 @@ export const useFocusTimerLogic = () => {
     loadInitialData();
   }, [user]);
 
+  // Keep the user's custom presets in sync across devices
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToFocusPresets(user.uid, setCustomPresets);
+  }, [user]);
+
+  // ============================================================================
+  // LIVE SESSION (CROSS-DEVICE)
+  // ============================================================================
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToLiveFocusSession(user.uid, (live) => liveChangeRef.current(live));
+  }, [user]);
+
+  // Publish this device's timer to the live session, and remove it once the timer stops
+  useEffect(() => {
+    if (!user || ownedLiveStart.current === null) return;
+
+    if (!isActive) {
+      const owner = { deviceId: deviceId.current, timerStartTime: ownedLiveStart.current };
+      ownedLiveStart.current = null;
+      lastLiveSnapshot.current = null;
+      endLiveFocusSession(user.uid, owner).catch((error) => {
+        console.error("Failed to end live session:", error);
+      });
+      return;
+    }
+
+    const fields: Partial<LiveFocusSession> = {
+      sessionId: currentSessionId,
+      sessionType,
+      timerMode,
+      isPaused,
+      isOvertime,
+      targetEndTime: targetEndTime.current,
+      timerStartTime: timerStartTime.current,
+      remainingSeconds: isPaused && timerMode === "timer" && !isOvertime ? minutes * 60 + seconds : null,
+      totalSeconds,
+      presetName: presetConfig.name,
+      linkedTaskTitle,
+    };
+
+    const snapshot = JSON.stringify(fields);
+    if (snapshot === lastLiveSnapshot.current) return;
+    lastLiveSnapshot.current = snapshot;
+
+    updateLiveFocusSession(user.uid, {
+      ...fields,
+      updatedBy: deviceId.current,
+      savedAt: Date.now(),
+    }).catch((error) => {
+      console.error("Failed to update live session:", error);
+    });
+  }, [user, isActive, isPaused, isOvertime, minutes, seconds, sessionType, timerMode, totalSeconds, currentSessionId, presetConfig, linkedTaskTitle]);
+
   // ============================================================================
   // ZEN MODE
   // ============================================================================
@@ -331,62 +543,73 @@ export const useFocusTimerLogic = () => {
   }, [isActive, isPaused, minutes, seconds, isOvertime, overtimeSeconds, timerMode]);
 
   // ============================================================================
-  // TIMER LOGIC (TIMESTAMP-BASED FOR ACCURACY IN BACKGROUND)
+  // AMBIENT SOUND
   // ============================================================================
 
+  // Fade ambient sound in and out with the session, if the user asked for it.
+  // Hidden tabs that only mirror another tab's session stay quiet.
   useEffect(() => {
-    if (isActive && !isPaused) {
-      const updateTimer = () => {
-        const now = Date.now();
+    const running = isActive && !isPaused;
+    if (running && document.visibilityState !== "visible") return;
+    syncAmbientWithSession(running);
+  }, [isActive, isPaused]);
 
-        if (timerMode === "stopwatch") {
-          // Stopwatch mode: count up
-          const elapsed = now - timerStartTime.current;
-          const elapsedSeconds = Math.floor(elapsed / 1000);
-          const newMinutes = Math.floor(elapsedSeconds / 60);
-          const newSeconds = elapsedSeconds % 60;
-
-          setMinutes(newMinutes);
-          setSeconds(newSeconds);
-        } else if (isOvertime) {
-          // Overtime mode: count up from 00:00
-          const overtimeElapsed = now - targetEndTime.current;
-          const newOvertimeSeconds = Math.floor(overtimeElapsed / 1000);
-          setOvertimeSeconds(newOvertimeSeconds);
-        } else {
-          // Normal countdown mode
-          const elapsed = now - timerStartTime.current;
-          const remaining = Math.max(0, targetEndTime.current - now);
-          const remainingSeconds = Math.ceil(remaining / 1000);
-          const newMinutes = Math.floor(remainingSeconds / 60);
-          const newSeconds = remainingSeconds % 60;
+  // ============================================================================
+  // TIMER LOGIC (TIMESTAMP-BASED FOR ACCURACY IN BACKGROUND)
+  // ============================================================================
 
-          setMinutes(newMinutes);
-          setSeconds(newSeconds);
+  // Ticks come from a worker, which hidden tabs don't throttle
+  useEffect(() => {
+    const clock = new FocusTimerClock();
+    clockRef.current = clock;
+    return () => {
+      clock.dispose();
+      clockRef.current = null;
+    };
+  }, []);
 
-          // Check if timer finished - transition to overtime
-          if (remaining <= 0) {
-            handleTimerComplete();
-          }
-        }
-      };
+  useEffect(() => {
+    const clock = clockRef.current;
+    if (!clock || !isActive || isPaused) return;
 
-      // Update every 100ms for smooth display
-      intervalRef.current = setInterval(updateTimer, 100);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    }
+    const updateTimer = () => {
+      const now = Date.now();
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
+      if (timerMode === "stopwatch") {
+        // Stopwatch mode: count up
+        const elapsed = now - timerStartTime.current;
+        const elapsedSeconds = Math.floor(elapsed / 1000);
+        const newMinutes = Math.floor(elapsedSeconds / 60);
+        const newSeconds = elapsedSeconds % 60;
+
+        setMinutes(newMinutes);
+        setSeconds(newSeconds);
+      } else if (isOvertime) {
+        // Overtime mode: count up from 00:00
+        const overtimeElapsed = now - targetEndTime.current;
+        const newOvertimeSeconds = Math.floor(overtimeElapsed / 1000);
+        setOvertimeSeconds(newOvertimeSeconds);
+      } else {
+        // Normal countdown mode
+        const remaining = Math.max(0, targetEndTime.current - now);
+        const remainingSeconds = Math.ceil(remaining / 1000);
+        const newMinutes = Math.floor(remainingSeconds / 60);
+        const newSeconds = remainingSeconds % 60;
+
+        setMinutes(newMinutes);
+        setSeconds(newSeconds);
+
+        // Check if timer finished - transition to overtime (or the next program step), once per countdown
+        if (remaining <= 0 && completedEndTimeRef.current !== targetEndTime.current) {
+          completedEndTimeRef.current = targetEndTime.current;
+          timerCompleteRef.current();
+        }
       }
     };
-  }, [isActive, isPaused, timerMode, isOvertime]);
+
+    clock.start(updateTimer, timerMode === "timer" && !isOvertime ? targetEndTime.current : null);
+    return () => clock.stop();
+  }, [isActive, isPaused, timerMode, isOvertime, programStepIndex]);
 
   // Handle visibility change to sync timer when returning to tab
   useEffect(() => {
@@ -420,36 +643,18 @@ export const useFocusTimerLogic = () => {
   // SESSION MANAGEMENT
   // ============================================================================
 
-  const handleTimerComplete = async () => {
-    // Don't end session - transition to overtime (Flow State Mode)
-    if (timerMode === "timer" && sessionType === "focus") {
-      setIsOvertime(true);
-      setIsPaused(false);
-
-      // Browser notification
-      if ("Notification" in window && Notification.permission === "granted") {
-        new Notification("RT - Focus Timer", {
-          body: "Timer complete! You're in Flow State Mode. Keep going! 🌟",
-        });
-      }
-      return;
-    }
-
-    // For breaks or stopwatch mode, complete normally
-    await handleSessionComplete();
-  };
-
   const handleSessionComplete = async () => {
-    clearInterval(intervalRef.current as NodeJS.Timeout);
+    clockRef.current?.stop();
     setIsActive(false);
 
     if (!user) return;
 
     try {
       // Calculate focus metrics
+      const plannedMinutes = currentProgramStep?.minutes ?? presetConfig.focusMinutes;
       const sessionDuration = timerMode === "stopwatch"
         ? (Date.now() - sessionStartTime.current) / 1000
-        : (presetConfig.focusMinutes * 60);
+        : (plannedMinutes * 60);
 
       const focusPercentage = timerMode === "stopwatch"
         ? 100 // Stopwatch mode always 100% for now
@@ -458,15 +663,22 @@ export const useFocusTimerLogic = () => {
           Math.min(100, ((sessionDuration - totalBlurTime) / sessionDuration) * 100)
         );
 
-      const isPerfectFocus = timerMode !== "stopwatch" && focusPercentage === 100;
+      const isPerfectFocus = timerMode !== "stopwatch" && focusPercentage === 100 && blockedAttempts.length === 0;
 
       const distractionData = {
         totalBlurTime: Math.round(totalBlurTime),
         blurCount,
         focusPercentage: Math.round(focusPercentage),
         isPerfectFocus,
+        blockedAttempts: blockedAttempts.length,
+        blockedTargets: Array.from(new Set(blockedAttempts)),
       };
 
+      // Notify before the Firestore writes, so a slow network doesn't delay it
+      showTimerNotification(
+        `${timerMode === "stopwatch" ? "Stopwatch session" : sessionType === "focus" ? "Focus session" : "Break"} complete! ${isPerfectFocus ? "🌟 Perfect Focus!" : ""}`
+      );
+
       // Complete session in Firestore
       if (currentSessionId) {
         await completeFocusSession(user.uid, currentSessionId, {
@@ -486,13 +698,14 @@ export const useFocusTimerLogic = () => {
 
       // Show session report
       setLastSessionData({
-        duration: timerMode === "stopwatch" ? Math.floor((Date.now() - sessionStartTime.current) / 60000) : presetConfig.focusMinutes,
+        duration: timerMode === "stopwatch" ? Math.floor((Date.now() - sessionStartTime.current) / 60000) : plannedMinutes,
         taskTitle: linkedTaskTitle,
         focusPercentage: Math.round(focusPercentage),
         previousAverage: previousAverageFocus,
         isPerfectFocus,
         distractionCount: blurCount,
         totalDistractTime: Math.round(totalBlurTime),
+        blockedAttempts: blockedAttempts.length,
         overtimeMinutes: isOvertime ? Math.floor(overtimeSeconds / 60) : 0,
         mode: timerMode,
       });
@@ -503,16 +716,10 @@ export const useFocusTimerLogic = () => {
       setBlurCount(0);
       setSessionNotes("");
       setDistractionReasons([]);
+      setBlockedAttempts([]);
       setSessionIntention("");
       setIsOvertime(false);
       setOvertimeSeconds(0);
-
-      // Browser notification
-      if ("Notification" in window && Notification.permission === "granted") {
-        new Notification("RT - Focus Timer", {
-          body: `${timerMode === "stopwatch" ? "Stopwatch session" : sessionType === "focus" ? "Focus session" : "Break"} complete! ${isPerfectFocus ? "🌟 Perfect Focus!" : ""}`,
-        });
-      }
     } catch (error) {
       console.error("Failed to complete session:", error);
     }
@@ -653,43 +860,153 @@ export const useFocusTimerLogic = () => {
   // CONTROL FUNCTIONS
   // ============================================================================
 
-  const toggleTimer = async () => {
-    if (!isActive) {
-      // Starting a new session
-      setIsActive(true);
-      setIsPaused(false);
+  const getDurationForSessionType = (type: "focus" | "shortBreak" | "longBreak", preset: FocusPreset = presetConfig): number => {
+    switch (type) {
+      case "focus":
+        return preset.focusMinutes;
+      case "shortBreak":
+        return preset.shortBreakMinutes;
+      case "longBreak":
+        return preset.longBreakMinutes;
+    }
+  };
 
-      // Set timestamp references for accurate timing
-      const now = Date.now();
-      sessionStartTime.current = now;
-      timerStartTime.current = now;
+  // Put a program step on the clock without starting it
+  const showProgramStep = (step: FocusProgramRunStep) => {
+    setProgramStepIndex(step.index);
+    setSessionType(step.type);
+    setMinutes(step.minutes);
+    setSeconds(0);
+    setTotalSeconds(step.minutes * 60);
+  };
 
-      if (timerMode === "stopwatch") {
-        targetEndTime.current = now; // No end time in stopwatch mode
+  // Stop the clock in this tab and put the session type (or the program's start) back on it
+  const clearTimerState = () => {
+    setIsActive(false);
+    setIsPaused(false);
+    setIsOvertime(false);
+    setOvertimeSeconds(0);
+    setCurrentSessionId(null);
+
+    if (timerMode === "stopwatch") {
+      setMinutes(0);
+      setSeconds(0);
+      setTotalSeconds(0);
+    } else if (programSteps.length > 0) {
+      // Resetting a program starts it over
+      showProgramStep(programSteps[0]);
+    } else {
+      const mins = getDurationForSessionType(sessionType);
+      setMinutes(mins);
+      setSeconds(0);
+      setTotalSeconds(mins * 60);
+    }
+
+    // Reset distraction tracking
+    setTotalBlurTime(0);
+    setBlurCount(0);
+    setBlurStartTime(null);
+    setDistractionReasons([]);
+    setBlockedAttempts([]);
+    setBlockedNavigation(null);
+  };
+
+  // Start a countdown (or the stopwatch); programs pass the step being started
+  const startSession = async (type: FocusSessionType, durationSeconds: number, stepIndex: number | null) => {
+    // One running timer per user: follow the other device's instead
+    if (remoteSession && isLiveSessionRunning(remoteSession)) {
+      toast.error(new ActiveFocusSessionError(remoteSession).message);
+      return;
+    }
+
+    setSessionType(type);
+    setProgramStepIndex(stepIndex);
+    setIsActive(true);
+    setIsPaused(false);
+
+    // Set timestamp references for accurate timing
+    const now = Date.now();
+    sessionStartTime.current = now;
+    timerStartTime.current = now;
+
+    if (timerMode === "stopwatch") {
+      targetEndTime.current = now; // No end time in stopwatch mode
+    } else {
+      targetEndTime.current = now + durationSeconds * 1000;
+    }
+
+    const step = stepIndex !== null ? programSteps[stepIndex] : null;
+    if (step) {
+      setMinutes(Math.floor(durationSeconds / 60));
+      setSeconds(durationSeconds % 60);
+      setTotalSeconds(durationSeconds);
+    }
+
+    // Request notification permission
+    if ("Notification" in window && Notification.permission === "default") {
+      Notification.requestPermission();
+    }
+
+    if (!user) return;
+
+    // Claim the live session other devices follow; focus sessions also get
+    // their Firestore session in the same transaction
+    const programStep = step
+      ? { index: step.index, total: programSteps.length, round: step.round, label: step.label }
+      : null;
+    const live: LiveFocusSession = {
+      sessionId: null,
+      deviceId: deviceId.current,
+      deviceLabel: getFocusDeviceLabel(),
+      sessionType: type,
+      timerMode,
+      isPaused: false,
+      isOvertime: false,
+      targetEndTime: targetEndTime.current,
+      timerStartTime: now,
+      remainingSeconds: null,
+      totalSeconds: step ? durationSeconds : totalSeconds,
+      presetName: presetConfig.name,
+      programStep,
+      linkedTaskTitle,
+      skipRequestedAt: null,
+      updatedBy: deviceId.current,
+      savedAt: now,
+    };
+
+    try {
+      if (type === "focus" && timerMode !== "stopwatch") {
+        const sessionId = await createFocusSession(user.uid, {
+          sessionType: type,
+          duration: step ? step.minutes : presetConfig.focusMinutes,
+          preset: presetConfig.isCustom ? "custom" : (presetConfig.id as BuiltInPresetId),
+          customPresetId: presetConfig.isCustom ? presetConfig.id : undefined,
+          presetName: presetConfig.name,
+          programStep: programStep || undefined,
+          linkedTaskId: linkedTaskId || undefined,
+          linkedTaskTitle: linkedTaskTitle || undefined,
+        }, live);
+        setCurrentSessionId(sessionId);
       } else {
-        targetEndTime.current = now + (minutes * 60 + seconds) * 1000;
+        await startLiveFocusSession(user.uid, live);
       }
-
-      // Request notification permission
-      if ("Notification" in window && Notification.permission === "default") {
-        Notification.requestPermission();
+      ownedLiveStart.current = now;
+    } catch (error) {
+      if (error instanceof ActiveFocusSessionError) {
+        // Another device started first
+        clearTimerState();
+        setRemoteSession(error.active);
+        toast.error(error.message);
+        return;
       }
+      console.error("Failed to create session:", error);
+    }
+  };
 
-      // Create session in Firestore (only for focus sessions)
-      if (user && sessionType === "focus" && timerMode !== "stopwatch") {
-        try {
-          const sessionId = await createFocusSession(user.uid, {
-            sessionType,
-            duration: presetConfig.focusMinutes,
-            preset: currentPreset,
-            linkedTaskId: linkedTaskId || undefined,
-            linkedTaskTitle: linkedTaskTitle || undefined,
-          });
-          setCurrentSessionId(sessionId);
-        } catch (error) {
-          console.error("Failed to create session:", error);
-        }
-      }
+  const toggleTimer = async () => {
+    if (!isActive) {
+      // Starting a new session
+      await startSession(sessionType, minutes * 60 + seconds, timerMode === "timer" ? programStepIndex : null);
     } else {
       // Pause/Resume
       if (!isPaused && !isOvertime) {
@@ -736,30 +1053,30 @@ export const useFocusTimerLogic = () => {
       }
     }
 
-    setIsActive(false);
-    setIsPaused(false);
-    setIsOvertime(false);
-    setOvertimeSeconds(0);
-    setCurrentSessionId(null);
+    clearTimerState();
+  };
 
-    if (timerMode === "stopwatch") {
-      setMinutes(0);
-      setSeconds(0);
-      setTotalSeconds(0);
-    } else {
-      const mins = getDurationForSessionType(sessionType);
-      setMinutes(mins);
-      setSeconds(0);
-      setTotalSeconds(mins * 60);
+  // Another tab saved or cleared the shared timer (see the storage listener)
+  const handleRemoteTimerChange = (saved: string | null) => {
+    if (!saved) {
+      lastSavedTimerState.current = null;
+      if (isActive) clearTimerState();
+      return;
     }
 
-    // Reset distraction tracking
-    setTotalBlurTime(0);
-    setBlurCount(0);
-    setBlurStartTime(null);
-    setDistractionReasons([]);
+    try {
+      const state: StoredTimerState = JSON.parse(saved);
+      lastSavedTimerState.current = serializeTimerState(state);
+      if (!applyStoredTimerState(state) && isActive) clearTimerState();
+    } catch (error) {
+      console.error('Failed to sync timer from another tab:', error);
+    }
   };
 
+  useEffect(() => {
+    remoteTimerChangeRef.current = handleRemoteTimerChange;
+  });
+
   // Dynamic time adjustment (+/- 5 minutes)
   const adjustTime = useCallback((deltaMinutes: number) => {
     // START FIX: Allow adjustment while paused
@@ -782,23 +1099,144 @@ export const useFocusTimerLogic = () => {
     }
   }, [isActive, isPaused, isOvertime, minutes, seconds]);
 
-  const getDurationForSessionType = (type: "focus" | "shortBreak" | "longBreak"): number => {
-    switch (type) {
-      case "focus":
-        return presetConfig.focusMinutes;
-      case "shortBreak":
-        return presetConfig.shortBreakMinutes;
-      case "longBreak":
-        return presetConfig.longBreakMinutes;
+  // Finish the current program step, then start the next one or end the program
+  const advanceProgram = async (finished: FocusProgramRunStep) => {
+    clockRef.current?.stop();
+
+    const next = programSteps[finished.index + 1];
+    if (finished.type === "focus") {
+      await handleSessionComplete();
+    } else {
+      setIsActive(false);
+      showTimerNotification(next ? `Break over! Up next: ${next.label}` : "Break over!");
+    }
+
+    if (next) {
+      await startSession(next.type, next.minutes * 60, next.index);
+      return;
+    }
+
+    showProgramStep(programSteps[0]);
+    showTimerNotification(`${presetConfig.name} complete! 🎉`);
+  };
+
+  const handleTimerComplete = async () => {
+    // Every tab sharing this timer gets here; the others follow the one that claims it
+    if (!(await claimTimerCompletion(targetEndTime.current))) return;
+
+    // Programs move straight on to their next step instead of entering overtime
+    if (currentProgramStep && timerMode === "timer") {
+      await advanceProgram(currentProgramStep);
+      return;
+    }
+
+    // Don't end session - transition to overtime (Flow State Mode)
+    if (timerMode === "timer" && sessionType === "focus") {
+      setIsOvertime(true);
+      setIsPaused(false);
+
+      // Browser notification
+      showTimerNotification("Timer complete! You're in Flow State Mode. Keep going! 🌟");
+      return;
+    }
+
+    // For breaks or stopwatch mode, complete normally
+    await handleSessionComplete();
+  };
+
+  useEffect(() => {
+    timerCompleteRef.current = handleTimerComplete;
+  });
+
+  // End the current step early: programs move on to their next step, anything else completes
+  const skipSession = async () => {
+    if (!isActive) return;
+    if (!(await claimTimerCompletion(targetEndTime.current))) return;
+
+    if (currentProgramStep && timerMode === "timer") {
+      await advanceProgram(currentProgramStep);
+    } else {
+      await handleSessionComplete();
+    }
+  };
+
+  // The live session changed on this or another device (see the live session subscription)
+  const handleLiveSessionChange = (live: LiveFocusSession | null) => {
+    if (live && live.deviceId !== deviceId.current) {
+      const running = isLiveSessionRunning(live);
+      setRemoteSession(running ? live : null);
+
+      if (running && ownedLiveStart.current !== null) {
+        // Our timer looked abandoned and another device replaced it
+        ownedLiveStart.current = null;
+        lastLiveSnapshot.current = null;
+        if (isActive) clearTimerState();
+        toast.info(`Your timer was replaced by one started on your ${live.deviceLabel}`);
+      }
+      return;
+    }
+
+    setRemoteSession(null);
+
+    if (!live) {
+      if (ownedLiveStart.current !== null && isActive) {
+        ownedLiveStart.current = null;
+        lastLiveSnapshot.current = null;
+        clearTimerState();
+        toast.info("Session stopped from another device");
+      }
+      return;
+    }
+
+    // Ours, possibly written by another tab of this browser
+    ownedLiveStart.current = live.timerStartTime;
+    if (live.updatedBy === deviceId.current || !isActive) return;
+
+    // Another device paused, resumed or skipped it
+    if (live.skipRequestedAt && live.skipRequestedAt !== handledSkipRef.current) {
+      handledSkipRef.current = live.skipRequestedAt;
+      skipSession();
+      return;
+    }
+
+    if (live.isPaused !== isPaused) {
+      setIsPaused(live.isPaused);
+      if (live.isPaused && live.remainingSeconds !== null) {
+        setMinutes(Math.floor(live.remainingSeconds / 60));
+        setSeconds(live.remainingSeconds % 60);
+      } else if (!live.isPaused) {
+        targetEndTime.current = live.targetEndTime;
+      }
     }
   };
 
+  useEffect(() => {
+    liveChangeRef.current = handleLiveSessionChange;
+  });
+
+  // Pause, resume, skip or stop the timer running on another device
+  const controlRemoteSession = async (action: LiveFocusSessionAction) => {
+    if (!user || !remoteSession) return;
+    await controlLiveFocusSession(user.uid, deviceId.current, action);
+  };
+
   const setSession = (type: "focus" | "shortBreak" | "longBreak") => {
+    // In a program, jump to the next step of that type (wrapping around)
+    const programStep = timerMode === "timer" && programSteps.length > 0
+      ? programSteps.find(step => step.type === type && step.index > (programStepIndex ?? -1))
+        ?? programSteps.find(step => step.type === type)
+      : null;
+    if (programSteps.length > 0 && timerMode === "timer" && !programStep) return;
+
     setSessionType(type);
     setIsActive(false);
     setIsPaused(false);
     setIsOvertime(false);
     setOvertimeSeconds(0);
+    if (programStep) {
+      showProgramStep(programStep);
+      return;
+    }
     const mins = getDurationForSessionType(type);
     setMinutes(mins);
     setSeconds(0);
@@ -815,21 +1253,101 @@ export const useFocusTimerLogic = () => {
     setDistractionReasons(prev => [...prev, { type: reason, timestamp: Date.now() }]);
   };
 
+  // ============================================================================
+  // STRICT FOCUS
+  // ============================================================================
+
+  // Breaks and Flow State overtime are free time, so only the focus countdown is strict
+  const isStrictFocusActive = strictFocus.enabled && isActive && sessionType === "focus" && !isOvertime;
+
+  const updateStrictFocus = (settings: StrictFocusSettings) => {
+    if (isActive) return; // The blocklist can't be loosened mid-session
+
+    setStrictFocus(settings);
+    try {
+      localStorage.setItem(STRICT_FOCUS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Failed to save strict focus settings:', error);
+    }
+  };
+
+  // Count an attempt to reach a blocked route or site and show the interstitial
+  const recordBlockedAttempt = useCallback((blocked: BlockedTarget, href: string) => {
+    setBlockedAttempts(prev => [...prev, blocked.target]);
+    setDistractionReasons(prev => [...prev, { type: BLOCKED_ATTEMPT_REASON, timestamp: Date.now() }]);
+    setBlockedNavigation({ ...blocked, href });
+  }, []);
+
+  // Returns false (and records the attempt) when strict focus blocks a link
+  const guardNavigation = useCallback((href: string): boolean => {
+    if (!isStrictFocusActive) return true;
+
+    const blocked = getBlockedTarget(href, strictFocus, window.location.origin);
+    if (!blocked) return true;
+
+    recordBlockedAttempt(blocked, href);
+    return false;
+  }, [isStrictFocusActive, strictFocus, recordBlockedAttempt]);
+
+  const dismissBlockedNavigation = () => {
+    setBlockedNavigation(null);
+  };
+
   // ============================================================================
   // PRESET MANAGEMENT
   // ============================================================================
 
-  const changePreset = (presetId: FocusPresetId, config: FocusPresetConfig) => {
+  // Select a preset and put its first step (or the current session type) on the clock
+  const applyPreset = (preset: FocusPreset) => {
+    setPresetConfig(preset);
+
+    const steps = getProgramRunSteps(preset);
+    if (steps.length > 0 && timerMode === "timer") {
+      showProgramStep(steps[0]);
+      return;
+    }
+
+    setProgramStepIndex(null);
+    if (timerMode === "timer") {
+      const mins = getDurationForSessionType(sessionType, preset);
+      setMinutes(mins);
+      setSeconds(0);
+      setTotalSeconds(mins * 60);
+    }
+  };
+
+  const changePreset = (preset: FocusPreset) => {
     if (isActive) return; // Don't allow changing presets during active session
 
-    setCurrentPreset(presetId);
-    setPresetConfig(config);
+    applyPreset(preset);
+    try {
+      localStorage.setItem(FOCUS_PRESET_STORAGE_KEY, JSON.stringify(preset));
+    } catch (error) {
+      console.error('Failed to save focus preset:', error);
+    }
+  };
 
-    // Update timer with new duration
-    const mins = getDurationForSessionType(sessionType);
-    setMinutes(mins);
-    setSeconds(0);
-    setTotalSeconds(mins * 60);
+  // Create or update a custom preset; an edited active preset takes effect next session
+  const saveCustomPreset = async (preset: FocusPreset): Promise<FocusPreset> => {
+    if (!user) throw new Error("Sign in to save presets");
+    if (!preset.id && customPresets.length >= FOCUS_PRESET_LIMITS.maxPresets) {
+      throw new Error(`You can save up to ${FOCUS_PRESET_LIMITS.maxPresets} presets`);
+    }
+
+    const saved = await saveFocusPreset(user.uid, preset);
+    if (!isActive && (!preset.id || saved.id === presetConfig.id)) {
+      changePreset(saved);
+    }
+    return saved;
+  };
+
+  const deleteCustomPreset = async (presetId: string) => {
+    if (!user) return;
+
+    await deleteFocusPreset(user.uid, presetId);
+    if (!isActive && presetId === presetConfig.id) {
+      changePreset(FOCUS_PRESETS[0]);
+    }
   };
 
   // ============================================================================
@@ -842,6 +1360,13 @@ export const useFocusTimerLogic = () => {
     setMinutes(0);
     setSeconds(0);
     setTotalSeconds(0);
+
+    // Programs only run as countdowns
+    if (timerMode === "timer") {
+      setProgramStepIndex(null);
+    } else if (programSteps.length > 0) {
+      showProgramStep(programSteps[0]);
+    }
   };
 
   // ============================================================================
@@ -949,13 +1474,30 @@ export const useFocusTimerLogic = () => {
     distractionReasons,
     logDistraction,
 
+    // Strict Focus
+    strictFocus,
+    updateStrictFocus,
+    isStrictFocusActive,
+    blockedAttempts: blockedAttempts.length,
+    blockedNavigation,
+    guardNavigation,
+    recordBlockedAttempt,
+    dismissBlockedNavigation,
+
     // Stats
     todayStats,
 
     // Preset Management
     currentPreset,
     presetConfig,
+    presets: [...FOCUS_PRESETS, ...customPresets],
     changePreset,
+    saveCustomPreset,
+    deleteCustomPreset,
+
+    // Programs
+    programSteps,
+    currentProgramStep,
 
     // Task Linkage
     linkedTaskId,
@@ -983,6 +1525,11 @@ export const useFocusTimerLogic = () => {
     setShowSessionReport,
     lastSessionData,
 
+    // Live Session (another device's timer)
+    remoteSession,
+    controlRemoteSession,
+    skipSession,
+
     // Resume Dialog
     showResumeDialog,
     setShowResumeDialog,
@@ -0,0 +1,68 @@
+// ============================================================================
+// USE SHARED ROUTINES HOOK
+// ============================================================================
+// Live view of the shared routines the user belongs to, with every member's
+// check-ins. Reads come straight from Firestore (members may read each
+// other's check-ins); changes go through the shared-routines API so partners
+// are notified.
+
+import { useEffect, useMemo, useState } from "react";
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/context/AuthContext";
+import { SharedRoutine, SharedRoutineMember, parseMember, parseSharedRoutine } from "@/lib/sharedRoutineUtils";
+
+export interface SharedRoutineWithMembers extends SharedRoutine {
+    members: SharedRoutineMember[];
+}
+
+export const useSharedRoutines = () => {
+    const { user } = useAuth();
+    const [routines, setRoutines] = useState<SharedRoutine[]>([]);
+    const [membersByRoutine, setMembersByRoutine] = useState<Record<string, SharedRoutineMember[]>>({});
+    const [loading, setLoading] = useState(true);
+
+    // Routines the user is a member of
+    useEffect(() => {
+        if (!user) return;
+
+        const q = query(collection(db, "sharedRoutines"), where("memberIds", "array-contains", user.uid));
+        const unsubscribe = onSnapshot(q, (snapshot) => {
+            setRoutines(snapshot.docs.map(d => parseSharedRoutine(d.id, d.data())));
+            setLoading(false);
+        }, (error) => {
+            console.error("Failed to load shared routines:", error);
+            setLoading(false);
+        });
+
+        return () => unsubscribe();
+    }, [user]);
+
+    // Each routine's members and their check-ins
+    const routineIds = routines.map(r => r.id).join(",");
+    useEffect(() => {
+        if (!routineIds) return;
+
+        const unsubscribers = routineIds.split(",").map(routineId =>
+            onSnapshot(collection(db, "sharedRoutines", routineId, "members"), (snapshot) => {
+                setMembersByRoutine(prev => ({
+                    ...prev,
+                    [routineId]: snapshot.docs.map(d => parseMember(d.id, d.data())),
+                }));
+            }, (error) => {
+                console.error("Failed to load shared routine members:", error);
+            })
+        );
+
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }, [routineIds]);
+
+    const routinesWithMembers = useMemo<SharedRoutineWithMembers[]>(() =>
+        routines
+            .map(routine => ({ ...routine, members: membersByRoutine[routine.id] || [] }))
+            .sort((a, b) => a.title.localeCompare(b.title)),
+        [routines, membersByRoutine]
+    );
+
+    return { routines: routinesWithMembers, loading };
+};
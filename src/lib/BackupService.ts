@@ -0,0 +1,449 @@
+"use client";
+
+import { collection, doc, getDoc, getDocs, Timestamp } from "firebase/firestore";
+import { format } from "date-fns";
+import { db } from "@/lib/firebase";
+import { Task } from "@/context/TaskContext";
+import { Goal } from "@/context/GoalContext";
+import type { OperationType, SyncOperation } from "@/context/SyncContext";
+import { ExportService } from "@/lib/ExportService";
+import { validateGoalBatch, validateTaskBatch } from "@/lib/validationSchemas";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export const BACKUP_FORMAT = "routine-tracker-backup";
+export const BACKUP_VERSION = 2;
+
+/**
+ * A Firestore document with its id. Timestamp fields are stored as
+ * `{ __type: "timestamp", value: <ISO string> }`, which SyncContext turns
+ * back into Timestamps on restore.
+ */
+export type BackupDocument = { id: string } & Record<string, unknown>;
+
+export interface BackupData {
+    tasks: Task[];
+    templates: BackupDocument[]; // id is the template name, `tasks` holds its tasks
+    goals: Goal[];
+    moods: BackupDocument[];
+    focusSessions: BackupDocument[];
+    achievements: Record<string, unknown> | null; // gamification/progress: level, XP, unlocked achievements
+    settings: {
+        profile: Record<string, unknown>;
+        local: Record<string, string>;
+    };
+}
+
+export interface AccountBackup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    data: BackupData;
+}
+
+export type RestoreMode = "merge" | "replace";
+export type RestoreCollection = "tasks" | "templates" | "goals" | "moods" | "focusSessions";
+
+export interface RestoreIssue {
+    collection: RestoreCollection;
+    id: string;
+    label: string;
+    detail: string;
+}
+
+export interface RestoreCounts {
+    added: number;
+    updated: number;
+    removed: number;
+    unchanged: number;
+}
+
+export interface RestoreReport {
+    counts: Record<RestoreCollection, RestoreCounts>;
+    conflicts: RestoreIssue[]; // same id on both sides with different content
+    restoresAchievements: boolean;
+    restoresSettings: boolean;
+}
+
+export interface RestoreOperation {
+    type: OperationType;
+    collection: SyncOperation["collection"];
+    documentId: string;
+    data?: Record<string, unknown>;
+}
+
+export interface RestorePlan {
+    mode: RestoreMode;
+    operations: RestoreOperation[];
+    localSettings: Record<string, string>;
+    report: RestoreReport;
+}
+
+// Fields on users/{uid} that the user chose, as opposed to derived stats like score or streak
+const PROFILE_SETTING_FIELDS = ["displayName", "isPublic", "vacations", "settings"];
+
+// Preferences that only live on the device
+const LOCAL_SETTING_KEYS = [
+    "theme",
+    "ai_enabled",
+    "ai_platform",
+    "rt_notifications_enabled",
+    "rt_notification_settings",
+    "rt_push_settings",
+];
+
+const RESTORE_COLLECTIONS: RestoreCollection[] = ["tasks", "templates", "goals", "moods", "focusSessions"];
+
+// ============================================================================
+// SERIALIZATION HELPERS
+// ============================================================================
+
+function encodeDocument(id: string, data: Record<string, unknown>): BackupDocument {
+    const encoded: BackupDocument = { id };
+    Object.entries(data).forEach(([key, value]) => {
+        encoded[key] = value instanceof Timestamp
+            ? { __type: "timestamp", value: value.toDate().toISOString() }
+            : value;
+    });
+    return encoded;
+}
+
+/**
+ * JSON with sorted keys, so documents compare by content rather than key order
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+    if (value && typeof value === "object") {
+        return `{${Object.keys(value as Record<string, unknown>)
+            .sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+            .join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function isSameDocument(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+    const { updatedAt: _a, ...restA } = a;
+    const { updatedAt: _b, ...restB } = b;
+    return stableStringify(restA) === stableStringify(restB);
+}
+
+/**
+ * Firestore rejects undefined values, and the document id is not a field
+ */
+function toDocumentData(item: { id: string }): Record<string, unknown> {
+    const { id: _id, updatedAt: _updatedAt, ...data } = item as BackupDocument;
+    Object.keys(data).forEach(key => {
+        if (data[key] === undefined) delete data[key];
+    });
+    return data;
+}
+
+function getLabel(item: Record<string, unknown>): string {
+    const label = item.title ?? item.date ?? item.linkedTaskTitle ?? item.id;
+    return String(label);
+}
+
+function emptyCounts(): Record<RestoreCollection, RestoreCounts> {
+    return Object.fromEntries(
+        RESTORE_COLLECTIONS.map(name => [name, { added: 0, updated: 0, removed: 0, unchanged: 0 }])
+    ) as Record<RestoreCollection, RestoreCounts>;
+}
+
+function emptyData(): BackupData {
+    return {
+        tasks: [],
+        templates: [],
+        goals: [],
+        moods: [],
+        focusSessions: [],
+        achievements: null,
+        settings: { profile: {}, local: {} },
+    };
+}
+
+// ============================================================================
+// BACKUP SERVICE
+// ============================================================================
+
+export class BackupService {
+
+    /**
+     * Read everything a user owns into a versioned backup
+     */
+    static async createBackup(userId: string): Promise<AccountBackup> {
+        const readCollection = async (name: string) => {
+            const snapshot = await getDocs(collection(db, "users", userId, name));
+            return snapshot.docs.map(d => encodeDocument(d.id, d.data()));
+        };
+
+        const [tasks, templates, goals, moods, focusSessions, progressSnap, userSnap] = await Promise.all([
+            readCollection("tasks"),
+            readCollection("templates"),
+            readCollection("goals"),
+            readCollection("moods"),
+            readCollection("focusSessions"),
+            getDoc(doc(db, "users", userId, "gamification", "progress")),
+            getDoc(doc(db, "users", userId)),
+        ]);
+
+        const userData = userSnap.exists() ? userSnap.data() : {};
+        const profile: Record<string, unknown> = {};
+        PROFILE_SETTING_FIELDS.forEach(field => {
+            if (userData[field] !== undefined) profile[field] = userData[field];
+        });
+
+        return {
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            exportedAt: new Date().toISOString(),
+            data: {
+                tasks: tasks as unknown as Task[],
+                templates,
+                goals: goals as unknown as Goal[],
+                moods,
+                focusSessions,
+                achievements: progressSnap.exists() ? encodeDocument(progressSnap.id, progressSnap.data()) : null,
+                settings: { profile, local: this.readLocalSettings() },
+            },
+        };
+    }
+
+    /**
+     * Download a full backup as JSON
+     */
+    static async downloadBackup(userId: string) {
+        const backup = await this.createBackup(userId);
+        const json = JSON.stringify(backup, null, 2);
+        const filename = `routine-tracker-backup-${format(new Date(), "yyyy-MM-dd")}.json`;
+        ExportService.downloadFile(json, filename, "application/json");
+    }
+
+    /**
+     * Parse a backup file and drop anything that fails validation.
+     * Also accepts the older exports: `{ version: "1.0", tasks, goals }` from
+     * the export dialog and `{ version: 1, tasks, templates }` from settings.
+     */
+    static parseBackup(content: string): { backup: AccountBackup; invalid: RestoreIssue[] } {
+        let raw: Record<string, unknown>;
+        try {
+            raw = JSON.parse(content);
+        } catch {
+            throw new Error("This file isn't valid JSON");
+        }
+        if (!raw || typeof raw !== "object") throw new Error("This file isn't a backup");
+
+        let data: BackupData;
+        if (raw.format === BACKUP_FORMAT) {
+            if (typeof raw.version !== "number" || raw.version > BACKUP_VERSION) {
+                throw new Error("This backup was made by a newer version of the app");
+            }
+            data = { ...emptyData(), ...(raw.data as Partial<BackupData>) };
+        } else if (Array.isArray(raw.tasks)) {
+            const templates = raw.templates && typeof raw.templates === "object" && !Array.isArray(raw.templates)
+                ? Object.entries(raw.templates as Record<string, unknown>).map(([name, tasks]) => ({ id: name, tasks }))
+                : [];
+            data = {
+                ...emptyData(),
+                tasks: raw.tasks as Task[],
+                templates,
+                goals: Array.isArray(raw.goals) ? raw.goals as Goal[] : [],
+            };
+        } else {
+            throw new Error("This file isn't a backup");
+        }
+
+        const invalid: RestoreIssue[] = [];
+        const keepValid = <T extends { id: string }>(
+            name: RestoreCollection,
+            items: T[],
+            validate: (items: T[]) => { results: { valid: boolean; errors: string[] }[] }
+        ): T[] => {
+            const list = Array.isArray(items) ? items : [];
+            const { results } = validate(list);
+            return list.filter((item, index) => {
+                if (results[index].valid) return true;
+                invalid.push({
+                    collection: name,
+                    id: String(item?.id ?? index),
+                    label: getLabel((item ?? {}) as Record<string, unknown>),
+                    detail: results[index].errors.join("; "),
+                });
+                return false;
+            });
+        };
+        const checkEach = (isValid: (item: BackupDocument) => string | null) => (items: BackupDocument[]) => ({
+            results: items.map(item => {
+                const error = item && typeof item.id === "string" ? isValid(item) : "Missing document id";
+                return { valid: error === null, errors: error ? [error] : [] };
+            }),
+        });
+
+        data.tasks = keepValid("tasks", data.tasks, validateTaskBatch);
+        data.goals = keepValid("goals", data.goals, validateGoalBatch);
+        data.templates = keepValid("templates", data.templates, checkEach(template => {
+            if (!Array.isArray(template.tasks)) return "Template has no tasks";
+            const { results } = validateTaskBatch(template.tasks);
+            const failed = results.findIndex(r => !r.valid);
+            return failed === -1 ? null : `Task ${failed + 1}: ${results[failed].errors.join("; ")}`;
+        }));
+        data.moods = keepValid("moods", data.moods, checkEach(mood =>
+            typeof mood.mood === "number" ? null : "Mood must be a number"
+        ));
+        data.focusSessions = keepValid("focusSessions", data.focusSessions, checkEach(session =>
+            typeof session.duration === "number" && session.duration >= 0 ? null : "Duration must be a number"
+        ));
+
+        return {
+            backup: {
+                format: BACKUP_FORMAT,
+                version: BACKUP_VERSION,
+                exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : String(raw.exportDate ?? ""),
+                data,
+            },
+            invalid,
+        };
+    }
+
+    /**
+     * Work out the sync operations for a restore and report what they will do.
+     * "replace" makes the account match the backup exactly. "merge" only adds
+     * what is missing: on a conflict the current version is kept, except that
+     * task completion history from both sides is combined so no check-ins are lost.
+     */
+    static planRestore(backup: AccountBackup, current: BackupData, mode: RestoreMode): RestorePlan {
+        const operations: RestoreOperation[] = [];
+        const counts = emptyCounts();
+        const conflicts: RestoreIssue[] = [];
+        const incoming = backup.data;
+
+        const planCollection = <T extends { id: string }>(
+            name: RestoreCollection,
+            backupItems: T[],
+            currentItems: T[],
+            mergeItem?: (existing: T, fromBackup: T) => T
+        ) => {
+            const currentById = new Map(currentItems.map(item => [item.id, item]));
+            const backupIds = new Set(backupItems.map(item => item.id));
+
+            backupItems.forEach(item => {
+                const existing = currentById.get(item.id);
+                if (!existing) {
+                    operations.push({ type: "CREATE", collection: name, documentId: item.id, data: toDocumentData(item) });
+                    counts[name].added++;
+                    return;
+                }
+
+                const existingData = existing as unknown as Record<string, unknown>;
+                if (isSameDocument(existingData, item as unknown as Record<string, unknown>)) {
+                    counts[name].unchanged++;
+                    return;
+                }
+
+                const conflict = { collection: name, id: item.id, label: getLabel(existingData) };
+                if (mode === "replace") {
+                    operations.push({ type: "CREATE", collection: name, documentId: item.id, data: toDocumentData(item) });
+                    counts[name].updated++;
+                    conflicts.push({ ...conflict, detail: "Replaced with the backup version" });
+                    return;
+                }
+
+                const merged = mergeItem ? mergeItem(existing, item) : existing;
+                if (isSameDocument(existingData, merged as unknown as Record<string, unknown>)) {
+                    counts[name].unchanged++;
+                    conflicts.push({ ...conflict, detail: "Kept the current version" });
+                } else {
+                    operations.push({ type: "CREATE", collection: name, documentId: item.id, data: toDocumentData(merged) });
+                    counts[name].updated++;
+                    conflicts.push({ ...conflict, detail: "Kept the current version and added history from the backup" });
+                }
+            });
+
+            if (mode === "replace") {
+                currentItems.filter(item => !backupIds.has(item.id)).forEach(item => {
+                    operations.push({ type: "DELETE", collection: name, documentId: item.id });
+                    counts[name].removed++;
+                });
+            }
+        };
+
+        planCollection("tasks", incoming.tasks, current.tasks, (existing, fromBackup) => {
+            const history = new Set([...(existing.completionHistory || []), ...(fromBackup.completionHistory || [])]);
+            return { ...existing, completionHistory: [...history].sort() };
+        });
+        planCollection("templates", incoming.templates, current.templates);
+        planCollection("goals", incoming.goals, current.goals);
+        planCollection("moods", incoming.moods, current.moods);
+        planCollection("focusSessions", incoming.focusSessions, current.focusSessions);
+
+        // Achievements progress is a single document
+        const restoresAchievements = !!incoming.achievements &&
+            (mode === "replace" || !current.achievements) &&
+            !(current.achievements && isSameDocument(current.achievements, incoming.achievements));
+        if (restoresAchievements && incoming.achievements) {
+            operations.push({
+                type: "CREATE",
+                collection: "gamification",
+                documentId: "progress",
+                data: toDocumentData(incoming.achievements as BackupDocument),
+            });
+        }
+
+        // Settings: replace takes the backup's values, merge only fills in what is unset
+        const profile: Record<string, unknown> = {};
+        Object.entries(incoming.settings.profile).forEach(([field, value]) => {
+            if (!PROFILE_SETTING_FIELDS.includes(field)) return;
+            if (mode === "merge" && current.settings.profile[field] !== undefined) return;
+            profile[field] = value;
+        });
+        if (Object.keys(profile).length > 0) {
+            operations.push({ type: "UPDATE", collection: "user", documentId: "profile", data: profile });
+        }
+
+        const localSettings: Record<string, string> = {};
+        Object.entries(incoming.settings.local).forEach(([key, value]) => {
+            if (!LOCAL_SETTING_KEYS.includes(key) || typeof value !== "string") return;
+            if (mode === "merge" && current.settings.local[key] !== undefined) return;
+            localSettings[key] = value;
+        });
+
+        return {
+            mode,
+            operations,
+            localSettings,
+            report: {
+                counts,
+                conflicts,
+                restoresAchievements,
+                restoresSettings: Object.keys(profile).length > 0 || Object.keys(localSettings).length > 0,
+            },
+        };
+    }
+
+    /**
+     * Write restored device preferences back to localStorage
+     */
+    static applyLocalSettings(settings: Record<string, string>) {
+        Object.entries(settings).forEach(([key, value]) => {
+            try {
+                localStorage.setItem(key, value);
+            } catch (error) {
+                console.warn(`Failed to restore setting ${key}:`, error);
+            }
+        });
+    }
+
+    private static readLocalSettings(): Record<string, string> {
+        const settings: Record<string, string> = {};
+        if (typeof window === "undefined") return settings;
+
+        LOCAL_SETTING_KEYS.forEach(key => {
+            const value = localStorage.getItem(key);
+            if (value !== null) settings[key] = value;
+        });
+        return settings;
+    }
+}
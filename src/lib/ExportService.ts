@@ -2,7 +2,10 @@
 
 import { Task } from "@/context/TaskContext";
 import { Goal } from "@/context/GoalContext";
-import { format, subDays, startOfWeek, endOfWeek, eachDayOfInterval } from "date-fns";
+import { format, subDays, addDays, parseISO, startOfWeek, endOfWeek, eachDayOfInterval } from "date-fns";
+import { getMilestoneCounts } from "@/lib/goalUtils";
+import { TaskRecurrence, WEEKDAY_CODES, getFirstOccurrence, getOccurrencesInRange } from "@/lib/recurrenceUtils";
+import type { FocusSession } from "@/lib/focusSessionUtils";
 
 export interface ExportData {
     exportDate: string;
@@ -36,6 +39,18 @@ export interface ExportData {
     }[];
 }
 
+// iCalendar weekday codes, indexed like Date#getDay
+export const ICS_DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const ICS_FREQUENCIES: Record<TaskRecurrence["frequency"], string> = {
+    daily: "DAILY",
+    weekly: "WEEKLY",
+    monthly: "MONTHLY",
+    yearly: "YEARLY"
+};
+
+const REMINDER_MINUTES: Record<string, number> = { "5m": 5, "10m": 10, "15m": 15, "30m": 30, "1h": 60 };
+
 export class ExportService {
 
     /**
@@ -93,14 +108,17 @@ export class ExportService {
             streak: 0 // Would need calculateStreak function
         }));
 
-        // Goal summaries - using progress field from Goal type
-        const goalSummaries = goals.map(g => ({
-            title: g.title,
-            targetDate: format(new Date(g.targetDate), "MMM d, yyyy"),
-            isCompleted: g.isCompleted,
-            milestonesCompleted: g.progress,
-            totalMilestones: 100
-        }));
+        // Goal summaries
+        const goalSummaries = goals.map(g => {
+            const { completed, total } = getMilestoneCounts(g);
+            return {
+                title: g.title,
+                targetDate: format(new Date(g.targetDate), "MMM d, yyyy"),
+                isCompleted: g.isCompleted,
+                milestonesCompleted: completed,
+                totalMilestones: total
+            };
+        });
 
         return {
             exportDate: format(today, "MMMM d, yyyy 'at' h:mm a"),
@@ -164,6 +182,42 @@ export class ExportService {
         return lines.join("\n");
     }
 
+    /**
+     * Export focus sessions as CSV, one row per session
+     */
+    static exportFocusSessionsAsCSV(sessions: FocusSession[]): string {
+        const lines: string[] = [
+            "Start,End,Duration (min),Type,Preset,Program Step,Linked Task,Status,Focus %,Distractions,Notes"
+        ];
+
+        sessions.forEach(s => {
+            const start = s.startTime ?? s.createdAt;
+            const status = s.completed ? "Completed" : s.abandoned ? "Abandoned" : "Incomplete";
+            lines.push([
+                start ? format(start.toDate(), "yyyy-MM-dd HH:mm") : "",
+                s.endTime ? format(s.endTime.toDate(), "yyyy-MM-dd HH:mm") : "",
+                s.duration,
+                s.sessionType,
+                this.escapeCSV(s.presetName || s.preset),
+                this.escapeCSV(s.programStep ? `${s.programStep.index + 1}/${s.programStep.total} ${s.programStep.label}` : ""),
+                this.escapeCSV(s.linkedTaskTitle || ""),
+                status,
+                s.distractions ? s.distractions.focusPercentage : "",
+                s.distractions ? s.distractions.blurCount : "",
+                this.escapeCSV(s.notes || "")
+            ].join(","));
+        });
+
+        return lines.join("\n");
+    }
+
+    /**
+     * Quote a CSV field when it contains a delimiter, quote or line break
+     */
+    private static escapeCSV(value: string): string {
+        return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+
     /**
      * Export data as formatted text (for PDF)
      */
@@ -220,6 +274,159 @@ export class ExportService {
         return lines.join("\n");
     }
 
+    /**
+     * Export tasks as an iCalendar (RFC 5545) feed: one VEVENT per task.
+     * Times are written as floating local times, so events stay at the same
+     * wall-clock time in whatever timezone the calendar app uses.
+     */
+    static exportAsICS(tasks: Task[]): string {
+        const stamp = format(new Date(), "yyyyMMdd'T'HHmmss");
+        const lines: string[] = [
+            "BEGIN:VCALENDAR",
+            "VERSION:2.0",
+            "PRODID:-//Routine Tracker//Routines//EN",
+            "CALSCALE:GREGORIAN",
+            "METHOD:PUBLISH",
+            "X-WR-CALNAME:Routine Tracker"
+        ];
+
+        tasks.forEach(task => {
+            const startDate = this.getFirstOccurrence(task);
+            if (!startDate) return;
+
+            const dtStart = this.toICSDateTime(startDate, task.startTime);
+            // Tasks that end before they start run past midnight
+            const endDate = task.endTime <= task.startTime
+                ? format(addDays(parseISO(startDate), 1), "yyyy-MM-dd")
+                : startDate;
+
+            lines.push("BEGIN:VEVENT");
+            lines.push(`UID:${task.id}@routine-tracker`);
+            lines.push(`DTSTAMP:${stamp}`);
+            lines.push(`DTSTART:${dtStart}`);
+            lines.push(`DTEND:${this.toICSDateTime(endDate, task.endTime)}`);
+            lines.push(`SUMMARY:${this.escapeICSText(`${task.icon ? `${task.icon} ` : ""}${task.title}`)}`);
+
+            const rrule = this.buildRRule(task);
+            if (rrule) lines.push(`RRULE:${rrule}`);
+
+            const minutes = task.reminder ? REMINDER_MINUTES[task.reminder] : undefined;
+            if (minutes) {
+                lines.push("BEGIN:VALARM");
+                lines.push("ACTION:DISPLAY");
+                lines.push(`DESCRIPTION:${this.escapeICSText(task.title)}`);
+                lines.push(`TRIGGER:-PT${minutes}M`);
+                lines.push("END:VALARM");
+            }
+
+            lines.push("END:VEVENT");
+        });
+
+        lines.push("END:VCALENDAR");
+
+        return lines.map(line => this.foldICSLine(line)).join("\r\n") + "\r\n";
+    }
+
+    /**
+     * Build the RRULE value for a task (none for one-time tasks)
+     */
+    private static buildRRule(task: Task): string | null {
+        if (task.specificDate) return null;
+
+        const rule = task.recurrence;
+        if (!rule) {
+            const byDay = WEEKDAY_CODES
+                .map((code, i) => task.days.includes(code) ? ICS_DAY_CODES[i] : null)
+                .filter(Boolean);
+            return byDay.length > 0 ? `FREQ=WEEKLY;BYDAY=${byDay.join(",")}` : null;
+        }
+
+        const parts = [`FREQ=${ICS_FREQUENCIES[rule.frequency]}`];
+        if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+        if (rule.frequency === "weekly" && rule.byDay?.length) {
+            parts.push(`BYDAY=${rule.byDay.map(d => ICS_DAY_CODES[WEEKDAY_CODES.indexOf(d)]).join(",")}`);
+        }
+        // BYMONTHDAY on its own would repeat a yearly rule every month
+        if (rule.frequency === "yearly") parts.push(`BYMONTH=${parseISO(rule.startDate).getMonth() + 1}`);
+        if (rule.weekdayOfMonth) {
+            parts.push(`BYDAY=${rule.weekdayOfMonth.week}${ICS_DAY_CODES[WEEKDAY_CODES.indexOf(rule.weekdayOfMonth.day)]}`);
+        } else if (rule.dayOfMonth !== undefined) {
+            parts.push(`BYMONTHDAY=${rule.dayOfMonth}`);
+        }
+
+        const limit = this.getRRuleLimit(rule);
+        if (limit) parts.push(limit);
+
+        return parts.join(";");
+    }
+
+    /**
+     * RFC 5545 allows UNTIL or COUNT but not both, so a rule with both
+     * keeps whichever ends it first
+     */
+    private static getRRuleLimit(rule: TaskRecurrence): string | null {
+        const until = rule.until ? `UNTIL=${this.toICSDateTime(rule.until, "23:59")}` : null;
+        if (!rule.count) return until;
+        if (!rule.until) return `COUNT=${rule.count}`;
+
+        const uncounted = { recurrence: { ...rule, count: undefined } };
+        const beforeUntil = getOccurrencesInRange(uncounted, rule.startDate, rule.until).length;
+        return beforeUntil <= rule.count ? until : `COUNT=${rule.count}`;
+    }
+
+    /**
+     * Pick DTSTART: the task's own date, or its first occurrence (from today
+     * on for weekday tasks). Calendars always show DTSTART as an occurrence,
+     * so it has to be one the rule itself produces.
+     */
+    private static getFirstOccurrence(task: Task): string | null {
+        if (task.specificDate) return task.specificDate;
+        if (task.recurrence) return getFirstOccurrence(task.recurrence);
+
+        const today = format(new Date(), "yyyy-MM-dd");
+        const nextWeek = format(addDays(new Date(), 6), "yyyy-MM-dd");
+        return getOccurrencesInRange(task, today, nextWeek)[0] ?? null;
+    }
+
+    private static toICSDateTime(dateStr: string, time: string): string {
+        return `${dateStr.replace(/-/g, "")}T${(time || "00:00").replace(":", "")}00`;
+    }
+
+    private static escapeICSText(text: string): string {
+        return text
+            .replace(/\\/g, "\\\\")
+            .replace(/;/g, "\\;")
+            .replace(/,/g, "\\,")
+            .replace(/\r?\n/g, "\\n");
+    }
+
+    /**
+     * Fold long lines at 75 octets as RFC 5545 requires, never splitting a
+     * multi-byte character. Continuation lines start with a space, which
+     * counts towards their 75.
+     */
+    private static foldICSLine(line: string): string {
+        const encoder = new TextEncoder();
+        if (encoder.encode(line).length <= 75) return line;
+
+        const chunks: string[] = [];
+        let chunk = "";
+        let octets = 0;
+        for (const char of line) {
+            const size = encoder.encode(char).length;
+            const limit = chunks.length === 0 ? 75 : 74;
+            if (octets + size > limit) {
+                chunks.push(chunk);
+                chunk = "";
+                octets = 0;
+            }
+            chunk += char;
+            octets += size;
+        }
+        chunks.push(chunk);
+        return chunks.join("\r\n ");
+    }
+
     /**
      * Download a file
      */
@@ -256,17 +463,20 @@ export class ExportService {
     }
 
     /**
-     * Export as JSON backup
+     * Export focus session history as a CSV file
      */
-    static downloadJSON(tasks: Task[], goals: Goal[]) {
-        const data = {
-            exportDate: new Date().toISOString(),
-            version: "1.0",
-            tasks,
-            goals
-        };
-        const json = JSON.stringify(data, null, 2);
-        const filename = `routine-tracker-backup-${format(new Date(), "yyyy-MM-dd")}.json`;
-        this.downloadFile(json, filename, "application/json");
+    static downloadFocusSessionsCSV(sessions: FocusSession[]) {
+        const csv = this.exportFocusSessionsAsCSV(sessions);
+        const filename = `routine-tracker-focus-sessions-${format(new Date(), "yyyy-MM-dd")}.csv`;
+        this.downloadFile(csv, filename, "text/csv");
+    }
+
+    /**
+     * Export routines as an iCalendar file
+     */
+    static downloadICS(tasks: Task[]) {
+        const ics = this.exportAsICS(tasks);
+        const filename = `routine-tracker-${format(new Date(), "yyyy-MM-dd")}.ics`;
+        this.downloadFile(ics, filename, "text/calendar");
     }
 }
@@ -0,0 +1,280 @@
+"use client";
+
+import { v4 as uuidv4 } from "uuid";
+import { format } from "date-fns";
+import { Task, TimeBlock } from "@/context/TaskContext";
+import { ICS_DAY_CODES } from "@/lib/ExportService";
+import { TaskRecurrence, WeekdayCode, WEEKDAY_CODES, getRecurrenceWeekdays } from "@/lib/recurrenceUtils";
+
+export interface IcsEvent {
+    uid?: string;
+    summary: string;
+    start: string; // raw DTSTART value
+    end?: string; // raw DTEND value
+    allDay: boolean;
+    rrule?: string;
+    alarmTrigger?: string;
+}
+
+export interface IcsImportResult {
+    tasks: Task[];
+    skipped: { title: string; reason: string }[];
+}
+
+const SUPPORTED_REMINDERS: { value: string; minutes: number }[] = [
+    { value: "5m", minutes: 5 },
+    { value: "10m", minutes: 10 },
+    { value: "15m", minutes: 15 },
+    { value: "30m", minutes: 30 },
+    { value: "1h", minutes: 60 }
+];
+
+const ICS_FREQUENCIES: Record<string, TaskRecurrence["frequency"]> = {
+    DAILY: "daily",
+    WEEKLY: "weekly",
+    MONTHLY: "monthly",
+    YEARLY: "yearly"
+};
+
+export class ImportService {
+
+    /**
+     * Parse the VEVENTs out of an iCalendar file
+     */
+    static parseICS(content: string): IcsEvent[] {
+        // Unfold continuation lines (RFC 5545 §3.1)
+        const lines = content.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+
+        const events: IcsEvent[] = [];
+        let current: Partial<IcsEvent> | null = null;
+        let inAlarm = false;
+
+        for (const line of lines) {
+            if (line === "BEGIN:VEVENT") {
+                current = { allDay: false };
+                continue;
+            }
+            if (line === "END:VEVENT") {
+                if (current?.summary !== undefined && current.start) {
+                    events.push(current as IcsEvent);
+                }
+                current = null;
+                continue;
+            }
+            if (!current) continue;
+
+            if (line === "BEGIN:VALARM") { inAlarm = true; continue; }
+            if (line === "END:VALARM") { inAlarm = false; continue; }
+
+            const separator = line.indexOf(":");
+            if (separator === -1) continue;
+
+            const [name, ...params] = line.slice(0, separator).split(";");
+            const value = line.slice(separator + 1);
+
+            if (inAlarm) {
+                if (name === "TRIGGER" && !current.alarmTrigger) current.alarmTrigger = value;
+                continue;
+            }
+
+            switch (name) {
+                case "UID":
+                    current.uid = value;
+                    break;
+                case "SUMMARY":
+                    current.summary = this.unescapeICSText(value);
+                    break;
+                case "DTSTART":
+                    current.start = value;
+                    current.allDay = params.includes("VALUE=DATE") || /^\d{8}$/.test(value);
+                    break;
+                case "DTEND":
+                    current.end = value;
+                    break;
+                case "RRULE":
+                    current.rrule = value;
+                    break;
+            }
+        }
+
+        return events;
+    }
+
+    /**
+     * Map parsed events onto new tasks. Events we can't represent are
+     * reported in `skipped` so the preview can explain what was left out.
+     */
+    static mapEventsToTasks(events: IcsEvent[]): IcsImportResult {
+        const tasks: Task[] = [];
+        const skipped: IcsImportResult["skipped"] = [];
+
+        events.forEach(event => {
+            // Our own exports prefix the summary with the task's icon
+            const iconMatch = event.summary.trim().match(/^(\p{Extended_Pictographic}\uFE0F?)\s+(.+)$/u);
+            const icon = iconMatch ? iconMatch[1] : "📅";
+            const title = (iconMatch ? iconMatch[2] : event.summary.trim()).slice(0, 100) || "Untitled event";
+
+            if (event.allDay) {
+                skipped.push({ title, reason: "All-day events have no start time" });
+                return;
+            }
+
+            const start = this.parseICSDateTime(event.start);
+            if (!start) {
+                skipped.push({ title, reason: "Unreadable start time" });
+                return;
+            }
+
+            const end = event.end ? this.parseICSDateTime(event.end) : null;
+            const startTime = format(start, "HH:mm");
+            const endTime = end ? format(end, "HH:mm") : format(new Date(start.getTime() + 3600000), "HH:mm");
+            const startDate = format(start, "yyyy-MM-dd");
+
+            const schedule = event.rrule
+                ? this.parseRRule(event.rrule, startDate)
+                : { specificDate: startDate, days: [WEEKDAY_CODES[start.getDay()]] };
+
+            if ("error" in schedule) {
+                skipped.push({ title, reason: schedule.error });
+                return;
+            }
+
+            tasks.push({
+                id: uuidv4(),
+                title,
+                icon,
+                startTime,
+                endTime,
+                timeBlock: this.getTimeBlock(start.getHours()),
+                isCompleted: false,
+                completionHistory: [],
+                reminder: this.parseReminder(event.alarmTrigger),
+                ...schedule
+            });
+        });
+
+        return { tasks, skipped };
+    }
+
+    /**
+     * Parse and map an uploaded .ics file in one step
+     */
+    static importICS(content: string): IcsImportResult {
+        return this.mapEventsToTasks(this.parseICS(content));
+    }
+
+    /**
+     * Translate an RRULE into either a plain weekday list or a task recurrence
+     */
+    private static parseRRule(
+        rrule: string,
+        startDate: string
+    ): { days: string[]; recurrence?: TaskRecurrence } | { error: string } {
+        const parts = Object.fromEntries(
+            rrule.split(";").map(part => part.split("=") as [string, string])
+        );
+
+        const frequency = ICS_FREQUENCIES[parts.FREQ];
+        if (!frequency) return { error: `Unsupported repeat frequency (${parts.FREQ || "none"})` };
+        if (parts.BYSETPOS || parts.BYWEEKNO || parts.BYYEARDAY || parts.BYHOUR) {
+            return { error: "Repeat rule is too complex to import" };
+        }
+
+        const rule: TaskRecurrence = {
+            frequency,
+            interval: Math.max(1, parseInt(parts.INTERVAL || "1", 10) || 1),
+            startDate
+        };
+
+        if (parts.BYDAY) {
+            const byDay = parts.BYDAY.split(",").map(code => {
+                const match = code.match(/^([+-]?\d+)?([A-Z]{2})$/);
+                const index = match ? ICS_DAY_CODES.indexOf(match[2]) : -1;
+                return index === -1 ? null : { week: match?.[1] ? parseInt(match[1], 10) : null, day: WEEKDAY_CODES[index] };
+            });
+            if (byDay.some(d => d === null)) return { error: "Unreadable repeat days" };
+
+            const positioned = byDay.filter(d => d!.week !== null);
+            if (frequency === "monthly" && positioned.length === 1 && byDay.length === 1) {
+                rule.weekdayOfMonth = { day: positioned[0]!.day, week: positioned[0]!.week! };
+            } else if (frequency === "weekly" && positioned.length === 0) {
+                rule.byDay = byDay.map(d => d!.day) as WeekdayCode[];
+            } else if (frequency === "daily" && rule.interval === 1 && positioned.length === 0) {
+                // "Daily on weekdays" is just a weekly rule
+                rule.frequency = "weekly";
+                rule.byDay = byDay.map(d => d!.day) as WeekdayCode[];
+            } else {
+                return { error: "Repeat days are too complex to import" };
+            }
+        }
+
+        if (parts.BYMONTHDAY) {
+            if (parts.BYMONTHDAY.includes(",")) return { error: "Multiple days of the month aren't supported" };
+            rule.dayOfMonth = parseInt(parts.BYMONTHDAY, 10);
+        }
+        if (parts.UNTIL) {
+            const until = this.parseICSDateTime(parts.UNTIL.length === 8 ? `${parts.UNTIL}T000000` : parts.UNTIL);
+            if (until) rule.until = format(until, "yyyy-MM-dd");
+        }
+        if (parts.COUNT) rule.count = Math.max(1, parseInt(parts.COUNT, 10) || 1);
+
+        // Plain "every week on these days" maps onto the classic weekday list
+        const isPlainWeekly = rule.frequency === "weekly" && rule.interval === 1 && !rule.until && !rule.count;
+        if (isPlainWeekly) {
+            return { days: getRecurrenceWeekdays(rule) };
+        }
+        if (rule.frequency === "daily" && rule.interval === 1 && !rule.until && !rule.count) {
+            return { days: [...WEEKDAY_CODES] };
+        }
+
+        return { days: getRecurrenceWeekdays(rule), recurrence: rule };
+    }
+
+    /**
+     * Parse DATE-TIME values. UTC ("Z") times are converted to local time;
+     * TZID-qualified and floating times are taken as local wall-clock times.
+     */
+    private static parseICSDateTime(value: string): Date | null {
+        const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z)?$/);
+        if (!match) return null;
+
+        const [, y, mo, d, h, mi, s, utc] = match;
+        const date = utc
+            ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+            : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+
+        return isNaN(date.getTime()) ? null : date;
+    }
+
+    /**
+     * Map a VALARM trigger like "-PT15M" onto the closest supported reminder
+     */
+    private static parseReminder(trigger?: string): string | undefined {
+        const match = trigger?.match(/^-P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?/);
+        if (!match) return undefined;
+
+        const minutes = (parseInt(match[1] || "0", 10) * 1440) +
+            (parseInt(match[2] || "0", 10) * 60) +
+            parseInt(match[3] || "0", 10);
+        if (minutes <= 0) return undefined;
+
+        return SUPPORTED_REMINDERS.reduce((best, option) =>
+            Math.abs(option.minutes - minutes) < Math.abs(best.minutes - minutes) ? option : best
+        ).value;
+    }
+
+    private static getTimeBlock(hours: number): TimeBlock {
+        if (hours >= 4 && hours < 6) return "Dawn";
+        if (hours >= 6 && hours < 12) return "Morning";
+        if (hours >= 12 && hours < 14) return "Noon";
+        if (hours >= 14 && hours < 17) return "Afternoon";
+        if (hours >= 17 && hours < 20) return "Evening";
+        return "Night";
+    }
+
+    private static unescapeICSText(text: string): string {
+        return text
+            .replace(/\\n/gi, "\n")
+            .replace(/\\([,;\\])/g, "$1");
+    }
+}
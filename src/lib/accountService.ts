@@ -0,0 +1,514 @@
+// ============================================================================
+// ACCOUNTS (SERVER-ONLY)
+// ============================================================================
+// Account recovery and merging for username accounts (see usernameAccounts),
+// account deletion and the full data export.
+//
+//   accountDeletions/{uid}   requestedAt, deleteAfter (admin SDK only)
+//
+// A merge happens when someone links a Google account to their username
+// account, but that Google account has already been used to sign in and so
+// owns a Routine Tracker account of its own. The client proves it can sign in
+// as both; everything under users/{sourceUid} is then copied into
+// users/{targetUid}, the source's friends and groups move over, and the source
+// account is deleted so its Google identity is free to link.
+//
+// Deleting an account is scheduled ACCOUNT_DELETION_GRACE_DAYS ahead and can
+// be undone until then; the account-deletions cron carries it out. In the
+// meantime the profile carries `deletionScheduledFor`, which keeps the user
+// off the global leaderboard.
+
+import {
+    FieldValue,
+    Timestamp,
+    type BulkWriter,
+    type DocumentData,
+    type DocumentReference,
+    type Firestore,
+    type QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { getAdminAuth, getAdminDb } from "@/lib/firebaseAdmin";
+import { logger } from "@/lib/logger";
+import { AuthenticationError, NotFoundError, ValidationError } from "@/lib/apiHelpers";
+import { leaveGroup, listFriendIds } from "@/lib/socialService";
+import { leaveSharedRoutine } from "@/lib/sharedRoutineService";
+import { getAccountOrigin, recalculateUserScore } from "@/lib/scoringService";
+import { deleteUserApiTokens, listApiTokens } from "@/lib/apiTokenService";
+import { deleteUserWebhooks, listWebhooks } from "@/lib/webhookService";
+import type { ApiTokenInfo, WebhookInfo } from "@/lib/integrations";
+import { toJson } from "@/lib/apiV1";
+import { isUsernameEmail } from "@/lib/usernameAccounts";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface AccountMergeResult {
+    copiedDocuments: number;
+    skippedDocuments: number;
+    friends: number;
+    groups: number;
+}
+
+export interface AccountDeletion {
+    requestedAt: string;
+    deleteAfter: string;
+}
+
+/**
+ * A document in an export: its data, id and any subcollections under it
+ */
+export interface ExportedDocument {
+    id: string;
+    data: Record<string, unknown>;
+    subcollections?: Record<string, ExportedDocument[]>;
+}
+
+export interface AccountExport {
+    format: typeof ACCOUNT_EXPORT_FORMAT;
+    exportedAt: string;
+    account: {
+        uid: string;
+        email: string | null;
+        displayName: string | null;
+        providers: string[];
+        createdAt: string | null;
+        lastSignInAt: string | null;
+    };
+    profile: Record<string, unknown> | null;
+    collections: Record<string, ExportedDocument[]>;
+    groups: ExportedDocument[];
+    sharedRoutines: ExportedDocument[];
+    inviteCodes: ExportedDocument[];
+    scoreReview: Record<string, unknown> | null;
+    apiTokens: ApiTokenInfo[];
+    webhooks: WebhookInfo[];
+    deletion: AccountDeletion | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// The source account must have been signed into just now, not with a token
+// lifted from an old session
+const MAX_SOURCE_SIGN_IN_AGE_SECONDS = 5 * 60;
+
+// Friends are re-pointed on both sides; everything else is copied as-is
+const SOCIAL_SUBCOLLECTIONS = new Set(["friends"]);
+
+export const ACCOUNT_DELETION_GRACE_DAYS = 14;
+
+export const ACCOUNT_EXPORT_FORMAT = "routine-tracker-account-export";
+
+// ============================================================================
+// RECOVERY
+// ============================================================================
+
+/**
+ * Have Firebase Auth send its password reset email, as the client SDK's
+ * sendPasswordResetEmail does
+ */
+async function sendPasswordResetEmail(email: string): Promise<void> {
+    const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+    if (!apiKey) throw new Error("NEXT_PUBLIC_FIREBASE_API_KEY is not set");
+
+    const response = await fetch(`https://identitytoolkit.googleapis.com/v1/accounts:sendOobCode?key=${apiKey}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ requestType: "PASSWORD_RESET", email }),
+    });
+    if (!response.ok) {
+        throw new Error(`sendOobCode failed (${response.status})`);
+    }
+}
+
+/**
+ * Email a password reset link to the real address a username account signs
+ * in with. Nothing is sent if the account has no real email (or doesn't
+ * exist), and callers can't tell which happened: the address never leaves
+ * the server.
+ */
+export async function sendRecoveryEmail(rawUsername: unknown): Promise<void> {
+    const username = typeof rawUsername === "string" ? rawUsername.trim().replace(/^@/, "") : "";
+    if (!username || username.includes("@")) {
+        throw new ValidationError("Enter a username");
+    }
+
+    try {
+        const snapshot = await getAdminDb()
+            .collection("users")
+            .where("username", "==", `@${username.replace(/\s+/g, "")}`)
+            .limit(1)
+            .get();
+        if (snapshot.empty) return;
+
+        const { email } = await getAdminAuth().getUser(snapshot.docs[0].id);
+        if (email && !isUsernameEmail(email)) {
+            await sendPasswordResetEmail(email);
+        }
+    } catch (error) {
+        logger.warn("Account recovery email not sent", error, { action: "sendRecoveryEmail" });
+    }
+}
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+/**
+ * Copy a document's subcollections into another document, recursively.
+ * Documents that already exist on the target side are left alone.
+ */
+async function copySubcollections(
+    source: DocumentReference,
+    target: DocumentReference,
+    writer: BulkWriter,
+    result: AccountMergeResult,
+    skip: Set<string> = new Set()
+): Promise<void> {
+    for (const collection of await source.listCollections()) {
+        if (skip.has(collection.id)) continue;
+
+        const targetCollection = target.collection(collection.id);
+        const [snapshot, existing] = await Promise.all([collection.get(), targetCollection.listDocuments()]);
+        const existingIds = new Set(existing.map(ref => ref.id));
+
+        for (const sourceDoc of snapshot.docs) {
+            const targetDoc = targetCollection.doc(sourceDoc.id);
+            if (existingIds.has(sourceDoc.id)) {
+                result.skippedDocuments++;
+            } else {
+                writer.set(targetDoc, sourceDoc.data());
+                result.copiedDocuments++;
+            }
+            await copySubcollections(sourceDoc.ref, targetDoc, writer, result);
+        }
+    }
+}
+
+/**
+ * Give the target the source's friends, on both sides
+ */
+async function moveFriends(db: Firestore, sourceUid: string, targetUid: string): Promise<number> {
+    const [sourceFriends, targetFriends] = await Promise.all([listFriendIds(sourceUid), listFriendIds(targetUid)]);
+    const since = new Date().toISOString();
+    let moved = 0;
+
+    const batch = db.batch();
+    sourceFriends.forEach(friendId => {
+        batch.delete(db.collection("users").doc(friendId).collection("friends").doc(sourceUid));
+        if (friendId === targetUid || targetFriends.includes(friendId)) return;
+
+        batch.set(db.collection("users").doc(targetUid).collection("friends").doc(friendId), { since });
+        batch.set(db.collection("users").doc(friendId).collection("friends").doc(targetUid), { since });
+        moved++;
+    });
+    await batch.commit();
+
+    return moved;
+}
+
+/**
+ * Swap the source for the target in every group it belongs to
+ */
+async function moveGroups(db: Firestore, sourceUid: string, targetUid: string): Promise<number> {
+    const snapshot = await db.collection("groups").where("memberIds", "array-contains", sourceUid).get();
+
+    await Promise.all(snapshot.docs.map(groupDoc => db.runTransaction(async transaction => {
+        const current = await transaction.get(groupDoc.ref);
+        const data = current.data();
+        if (!data) return;
+
+        const memberIds: string[] = data.memberIds || [];
+        transaction.update(groupDoc.ref, {
+            memberIds: Array.from(new Set(memberIds.map(id => (id === sourceUid ? targetUid : id)))),
+            ...(data.ownerId === sourceUid && { ownerId: targetUid }),
+        });
+    })));
+
+    return snapshot.size;
+}
+
+/**
+ * Merge the account behind `sourceIdToken` into the caller's account and
+ * delete it. `sourceIdToken` must come from a sign-in made moments ago.
+ */
+export async function mergeAccountInto(targetUid: string, sourceIdToken: unknown): Promise<AccountMergeResult> {
+    if (typeof sourceIdToken !== "string" || !sourceIdToken) {
+        throw new ValidationError("sourceIdToken is required");
+    }
+
+    let sourceUid: string;
+    try {
+        const decoded = await getAdminAuth().verifyIdToken(sourceIdToken, true);
+        if (Date.now() / 1000 - decoded.auth_time > MAX_SOURCE_SIGN_IN_AGE_SECONDS) {
+            throw new Error("Sign-in is too old");
+        }
+        sourceUid = decoded.uid;
+    } catch (error) {
+        logger.warn("Account merge token rejected", error, { action: "mergeAccountInto", metadata: { targetUid } });
+        throw new AuthenticationError("Sign in to the other account again to merge it");
+    }
+
+    if (sourceUid === targetUid) {
+        throw new ValidationError("Can't merge an account into itself");
+    }
+
+    const db = getAdminDb();
+    const sourceRef = db.collection("users").doc(sourceUid);
+    const targetRef = db.collection("users").doc(targetUid);
+    const [sourceProfile, targetProfile] = await Promise.all([sourceRef.get(), targetRef.get()]);
+    if (!targetProfile.exists) throw new NotFoundError("User");
+
+    const result: AccountMergeResult = { copiedDocuments: 0, skippedDocuments: 0, friends: 0, groups: 0 };
+
+    // The target keeps its own profile; only the data underneath moves
+    const writer = db.bulkWriter();
+    await copySubcollections(sourceRef, targetRef, writer, result, SOCIAL_SUBCOLLECTIONS);
+    await writer.close();
+
+    result.friends = await moveFriends(db, sourceUid, targetUid);
+    result.groups = await moveGroups(db, sourceUid, targetUid);
+
+    // Completions only count from the account's creation, and the source's history may go back further
+    const [sourceOrigin, targetOrigin] = await Promise.all([
+        getAccountOrigin(sourceUid, sourceProfile.data() ?? {}),
+        getAccountOrigin(targetUid, targetProfile.data() ?? {}),
+    ]);
+    if (sourceOrigin && targetOrigin && sourceOrigin.createdAt < targetOrigin.createdAt) {
+        await targetRef.set({ accountCreatedAt: sourceOrigin.createdAt }, { merge: true });
+    }
+
+    // Shared routine streaks belong to each member, so the source just leaves
+    // those, and goes with the rest of its account
+    await deleteAccountData(sourceUid);
+    await recalculateUserScore(targetUid);
+
+    logger.info("Accounts merged", {
+        action: "mergeAccountInto",
+        metadata: { targetUid, sourceUid, ...result },
+    });
+
+    return result;
+}
+
+// ============================================================================
+// DELETION
+// ============================================================================
+
+function deletionRef(db: Firestore, userId: string): DocumentReference {
+    return db.collection("accountDeletions").doc(userId);
+}
+
+function toAccountDeletion(data: DocumentData | undefined): AccountDeletion | null {
+    if (!data) return null;
+    return {
+        requestedAt: data.requestedAt,
+        deleteAfter: (data.deleteAfter as Timestamp).toDate().toISOString(),
+    };
+}
+
+/**
+ * The user's pending deletion, if they've asked for one
+ */
+export async function getAccountDeletion(userId: string): Promise<AccountDeletion | null> {
+    return toAccountDeletion((await deletionRef(getAdminDb(), userId).get()).data());
+}
+
+/**
+ * Schedule the account for deletion after the grace period. Asking again
+ * keeps the original date.
+ */
+export async function scheduleAccountDeletion(userId: string, now: Date = new Date()): Promise<AccountDeletion> {
+    const db = getAdminDb();
+    const existing = await getAccountDeletion(userId);
+    if (existing) return existing;
+
+    const deleteAfter = new Date(now.getTime() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+    const batch = db.batch();
+    batch.set(deletionRef(db, userId), {
+        requestedAt: now.toISOString(),
+        deleteAfter: Timestamp.fromDate(deleteAfter),
+    });
+    batch.set(db.collection("users").doc(userId), { deletionScheduledFor: deleteAfter.toISOString() }, { merge: true });
+    await batch.commit();
+
+    logger.info("Account deletion scheduled", {
+        action: "scheduleAccountDeletion",
+        metadata: { userId, deleteAfter: deleteAfter.toISOString() },
+    });
+
+    return { requestedAt: now.toISOString(), deleteAfter: deleteAfter.toISOString() };
+}
+
+/**
+ * Undo a scheduled deletion
+ */
+export async function cancelAccountDeletion(userId: string): Promise<void> {
+    const db = getAdminDb();
+    if (!(await getAccountDeletion(userId))) {
+        throw new NotFoundError("Scheduled deletion");
+    }
+
+    const batch = db.batch();
+    batch.delete(deletionRef(db, userId));
+    batch.set(db.collection("users").doc(userId), { deletionScheduledFor: FieldValue.delete() }, { merge: true });
+    await batch.commit();
+
+    logger.info("Account deletion cancelled", { action: "cancelAccountDeletion", metadata: { userId } });
+}
+
+/**
+ * Remove everything stored about a user: their groups and shared routines
+ * (which pass to the other members), both sides of their friendships, their
+ * invite codes, API tokens and webhooks, everything under users/{uid} and
+ * the Auth user itself
+ */
+export async function deleteAccountData(userId: string): Promise<void> {
+    const db = getAdminDb();
+
+    const [groups, routines, friendIds, inviteCodes] = await Promise.all([
+        db.collection("groups").where("memberIds", "array-contains", userId).get(),
+        db.collection("sharedRoutines").where("memberIds", "array-contains", userId).get(),
+        listFriendIds(userId),
+        db.collection("inviteCodes").where("targetId", "==", userId).get(),
+    ]);
+
+    for (const group of groups.docs) {
+        await leaveGroup(userId, group.id);
+    }
+    for (const routine of routines.docs) {
+        await leaveSharedRoutine(userId, routine.id);
+    }
+
+    const batch = db.batch();
+    friendIds.forEach(friendId => {
+        batch.delete(db.collection("users").doc(friendId).collection("friends").doc(userId));
+    });
+    inviteCodes.docs.forEach(code => batch.delete(code.ref));
+    batch.delete(db.collection("scoreReviews").doc(userId));
+    await batch.commit();
+
+    await deleteUserApiTokens(userId);
+    await deleteUserWebhooks(userId);
+
+    await db.recursiveDelete(db.collection("users").doc(userId));
+
+    try {
+        await getAdminAuth().deleteUser(userId);
+    } catch (error) {
+        if ((error as { code?: string }).code !== "auth/user-not-found") throw error;
+    }
+
+    // Last, so a failed run is picked up again by the next cron
+    await deletionRef(db, userId).delete();
+
+    logger.info("Account deleted", { action: "deleteAccountData", metadata: { userId } });
+}
+
+/**
+ * Delete every account whose grace period has run out. Returns how many
+ * were deleted and how many failed (those are retried on the next run).
+ */
+export async function processDueAccountDeletions(now: Date = new Date()): Promise<{ deleted: number; errors: number }> {
+    const due = await getAdminDb()
+        .collection("accountDeletions")
+        .where("deleteAfter", "<=", Timestamp.fromDate(now))
+        .get();
+
+    let deleted = 0;
+    let errors = 0;
+    for (const entry of due.docs) {
+        try {
+            await deleteAccountData(entry.id);
+            deleted++;
+        } catch (error) {
+            errors++;
+            logger.warn("Scheduled account deletion failed", error, {
+                action: "processDueAccountDeletions",
+                metadata: { userId: entry.id },
+            });
+        }
+    }
+
+    return { deleted, errors };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+async function exportCollections(ref: DocumentReference): Promise<Record<string, ExportedDocument[]>> {
+    const collections: Record<string, ExportedDocument[]> = {};
+
+    for (const collection of await ref.listCollections()) {
+        const snapshot = await collection.get();
+        collections[collection.id] = await Promise.all(snapshot.docs.map(async d => {
+            const subcollections = await exportCollections(d.ref);
+            return {
+                id: d.id,
+                data: toJson(d.data()) as Record<string, unknown>,
+                ...(Object.keys(subcollections).length > 0 && { subcollections }),
+            };
+        }));
+    }
+
+    return collections;
+}
+
+/**
+ * Everything stored about a user, for them to download
+ */
+export async function exportAccountData(userId: string): Promise<AccountExport> {
+    const db = getAdminDb();
+    const userRef = db.collection("users").doc(userId);
+
+    const [authUser, profile, collections, groups, routines, inviteCodes, scoreReview, apiTokens, webhooks, deletion] = await Promise.all([
+        getAdminAuth().getUser(userId),
+        userRef.get(),
+        exportCollections(userRef),
+        db.collection("groups").where("memberIds", "array-contains", userId).get(),
+        db.collection("sharedRoutines").where("memberIds", "array-contains", userId).get(),
+        db.collection("inviteCodes").where("targetId", "==", userId).get(),
+        db.collection("scoreReviews").doc(userId).get(),
+        listApiTokens(userId),
+        listWebhooks(userId),
+        getAccountDeletion(userId),
+    ]);
+
+    // Shared routines with just this user's own check-ins
+    const sharedRoutines = await Promise.all(routines.docs.map(async routine => {
+        const member = await routine.ref.collection("members").doc(userId).get();
+        return {
+            id: routine.id,
+            data: toJson(routine.data()) as Record<string, unknown>,
+            ...(member.exists && { subcollections: { members: [{ id: member.id, data: toJson(member.data()) as Record<string, unknown> }] } }),
+        };
+    }));
+
+    const toExported = (d: QueryDocumentSnapshot) => ({ id: d.id, data: toJson(d.data()) as Record<string, unknown> });
+
+    return {
+        format: ACCOUNT_EXPORT_FORMAT,
+        exportedAt: new Date().toISOString(),
+        account: {
+            uid: authUser.uid,
+            email: authUser.email ?? null,
+            displayName: authUser.displayName ?? null,
+            providers: authUser.providerData.map(p => p.providerId),
+            createdAt: authUser.metadata.creationTime ? new Date(authUser.metadata.creationTime).toISOString() : null,
+            lastSignInAt: authUser.metadata.lastSignInTime ? new Date(authUser.metadata.lastSignInTime).toISOString() : null,
+        },
+        profile: profile.exists ? toJson(profile.data()) as Record<string, unknown> : null,
+        collections,
+        groups: groups.docs.map(toExported),
+        sharedRoutines,
+        inviteCodes: inviteCodes.docs.map(toExported),
+        scoreReview: scoreReview.exists ? toJson(scoreReview.data()) as Record<string, unknown> : null,
+        // Without the tokens and signing secrets themselves
+        apiTokens,
+        webhooks,
+        deletion,
+    };
+}
@@ -25,6 +25,7 @@ import {
     StoredFact,
     HabitPattern,
 } from "./types";
+import { TOOL_REGISTRY } from "./tools";
 
 // ============================================================================
 // LOCAL INTELLIGENCE (Inline implementation for dependency resolution)
@@ -318,62 +319,6 @@ class NLPProcessor {
     }
 }
 
-// ============================================================================
-// TOOL REGISTRY
-// ============================================================================
-
-const TOOL_REGISTRY: ToolDefinition[] = [
-    {
-        id: "create_task",
-        name: "Create Task",
-        description: "Create a new task with optional scheduling and priority",
-        parameters: [
-            { name: "name", type: "string", required: true, description: "Task name" },
-            { name: "date", type: "string", required: false, description: "Due date (YYYY-MM-DD)" },
-            { name: "time", type: "string", required: false, description: "Due time (HH:MM)" },
-            { name: "priority", type: "number", required: false, description: "Priority 1-4", defaultValue: 2 },
-            { name: "category", type: "string", required: false, description: "Task category" },
-        ],
-        returns: { type: "object", description: "Created task object" },
-        requiresConfirmation: false,
-        category: "task_management",
-    },
-    {
-        id: "complete_task",
-        name: "Complete Task",
-        description: "Mark a task as completed",
-        parameters: [
-            { name: "taskId", type: "string", required: true, description: "Task ID" },
-        ],
-        returns: { type: "boolean", description: "Success status" },
-        requiresConfirmation: false,
-        category: "task_management",
-    },
-    {
-        id: "get_insights",
-        name: "Get Insights",
-        description: "Generate productivity insights and analytics",
-        parameters: [
-            { name: "timeRange", type: "string", required: false, description: "Time range (week, month, all)" },
-        ],
-        returns: { type: "object", description: "Insights object" },
-        requiresConfirmation: false,
-        category: "insight_generation",
-    },
-    {
-        id: "start_focus",
-        name: "Start Focus Session",
-        description: "Start a focus timer session",
-        parameters: [
-            { name: "duration", type: "number", required: false, description: "Duration in minutes", defaultValue: 25 },
-            { name: "taskId", type: "string", required: false, description: "Associated task ID" },
-        ],
-        returns: { type: "object", description: "Session object" },
-        requiresConfirmation: true,
-        category: "focus_control",
-    },
-];
-
 // ============================================================================
 // AGENT SERVICE CLASS
 // ============================================================================
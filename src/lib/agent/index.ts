@@ -10,6 +10,8 @@ export * from "./types";
 // Core Services
 export { agentService } from "./AgentService";
 export type { LocalIntelligenceEngine, NLPProcessor } from "./AgentService";
+export { TOOL_REGISTRY, getToolDefinition } from "./tools";
+export { getToolSchema, validateToolCall, formatToolResult, MAX_TOOL_ROUNDS } from "./toolCalling";
 
 // Local Intelligence
 export { localIntelligence } from "./LocalIntelligence";
@@ -0,0 +1,211 @@
+// ============================================================================
+// AI TOOL-CALLING PROTOCOL
+// ============================================================================
+// The AI chat routes offer the TOOL_REGISTRY to the model as native function
+// declarations (Gemini) or tools (Groq). A chat request runs as a loop:
+//
+//   1. The route asks the model; any tool calls it makes are validated here
+//      and returned to the browser as `toolCalls`.
+//   2. AIContext executes the valid calls against the app (tasks, goals,
+//      timer, UI) and posts the message again with the calls and their
+//      results appended to `toolTurns`.
+//   3. The route replays those turns to the model, which either calls more
+//      tools or answers in plain text.
+//
+// The server keeps no conversation state; everything the model needs is in
+// `toolTurns`. Calls with invalid arguments come back with `error` set, are
+// never executed, and the error is reported to the model as their result.
+
+import { TOOL_REGISTRY, getToolDefinition } from "./tools";
+import { ToolCall, ToolCallResult, ToolDefinition, ToolParameter, ToolTurn } from "./types";
+
+// Tool rounds per user message before the model must answer in text
+export const MAX_TOOL_ROUNDS = 5;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+function getParameterSchema(param: ToolParameter): Record<string, unknown> {
+    if (param.type === "array") {
+        return {
+            type: "array",
+            description: param.description,
+            items: { type: param.items || "string", ...(param.enum && { enum: param.enum }) },
+        };
+    }
+
+    return {
+        type: param.type,
+        description: param.description,
+        ...(param.enum && { enum: param.enum }),
+        ...(param.pattern && { pattern: param.pattern }),
+        ...(param.minimum !== undefined && { minimum: param.minimum }),
+        ...(param.maximum !== undefined && { maximum: param.maximum }),
+        ...(param.defaultValue !== undefined && { default: param.defaultValue }),
+    };
+}
+
+/**
+ * JSON Schema for a tool's arguments, accepted by both Gemini and Groq
+ */
+export function getToolSchema(tool: ToolDefinition): Record<string, unknown> {
+    return {
+        type: "object",
+        properties: Object.fromEntries(tool.parameters.map(param => [param.name, getParameterSchema(param)])),
+        required: tool.parameters.filter(param => param.required).map(param => param.name),
+    };
+}
+
+/**
+ * The tools offered to the assistant
+ */
+export function getAssistantTools(): ToolDefinition[] {
+    return TOOL_REGISTRY;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function validateParameter(param: ToolParameter, value: unknown): string | null {
+    switch (param.type) {
+        case "string":
+            if (typeof value !== "string") return `${param.name} must be a string`;
+            if (param.enum && !param.enum.includes(value)) return `${param.name} must be one of: ${param.enum.join(", ")}`;
+            if (param.pattern && !new RegExp(param.pattern).test(value)) return `${param.name} has an invalid format (${param.description})`;
+            return null;
+
+        case "number":
+            if (typeof value !== "number" || !Number.isFinite(value)) return `${param.name} must be a number`;
+            if (param.minimum !== undefined && value < param.minimum) return `${param.name} must be at least ${param.minimum}`;
+            if (param.maximum !== undefined && value > param.maximum) return `${param.name} must be at most ${param.maximum}`;
+            return null;
+
+        case "boolean":
+            return typeof value === "boolean" ? null : `${param.name} must be true or false`;
+
+        case "array": {
+            if (!Array.isArray(value)) return `${param.name} must be an array`;
+            const itemType = param.items || "string";
+            if (value.some(item => typeof item !== itemType)) return `${param.name} must only contain ${itemType}s`;
+            if (param.enum && value.some(item => !param.enum!.includes(item as string))) {
+                return `${param.name} may only contain: ${param.enum.join(", ")}`;
+            }
+            return null;
+        }
+
+        case "object":
+            return isRecord(value) ? null : `${param.name} must be an object`;
+    }
+}
+
+/**
+ * Check a call the model made against the registry.
+ * Returns the call with defaults applied and unknown arguments dropped,
+ * or with `error` set if it can't be executed.
+ */
+export function validateToolCall(
+    id: string,
+    name: string,
+    rawArgs: unknown,
+    signature?: string
+): ToolCall {
+    const tool = getToolDefinition(name);
+    if (!tool) {
+        return { id, name, arguments: {}, error: `Unknown tool "${name}"`, signature };
+    }
+
+    const args = isRecord(rawArgs) ? rawArgs : {};
+    const validated: Record<string, unknown> = {};
+    const errors: string[] = [];
+
+    for (const param of tool.parameters) {
+        const value = args[param.name];
+
+        if (value === undefined || value === null) {
+            if (param.required) errors.push(`${param.name} is required`);
+            else if (param.defaultValue !== undefined) validated[param.name] = param.defaultValue;
+            continue;
+        }
+
+        const error = validateParameter(param, value);
+        if (error) errors.push(error);
+        else validated[param.name] = value;
+    }
+
+    // Failed calls keep the model's original arguments so the replayed turn matches what it sent
+    return errors.length > 0
+        ? { id, name, arguments: args, error: errors.join("; "), signature }
+        : { id, name, arguments: validated, signature };
+}
+
+/**
+ * Parse the JSON argument string some providers send (Groq/OpenAI format)
+ */
+export function parseToolArguments(raw: string | undefined): unknown {
+    if (!raw) return {};
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return null;
+    }
+}
+
+// ============================================================================
+// REQUEST / RESPONSE HELPERS
+// ============================================================================
+
+/**
+ * Read `toolTurns` from a chat request body. Turns come from the browser, so
+ * calls are re-validated and anything malformed is dropped.
+ */
+export function parseToolTurns(raw: unknown): ToolTurn[] {
+    if (!Array.isArray(raw)) return [];
+
+    return raw.slice(0, MAX_TOOL_ROUNDS).flatMap((turn: unknown): ToolTurn[] => {
+        if (!isRecord(turn) || !Array.isArray(turn.calls) || !Array.isArray(turn.results)) return [];
+        const rawResults = turn.results.filter(isRecord);
+
+        const calls = turn.calls
+            .filter(isRecord)
+            .filter(call => typeof call.id === "string" && typeof call.name === "string")
+            .map(call => validateToolCall(
+                call.id as string,
+                call.name as string,
+                call.arguments,
+                typeof call.signature === "string" ? call.signature : undefined
+            ));
+        if (calls.length === 0) return [];
+
+        // Every call needs a result to send back to the model
+        const results = calls.map((call): ToolCallResult => {
+            const result = rawResults.find(r => r.id === call.id);
+            if (call.error) return { id: call.id, name: call.name, success: false, error: call.error };
+            if (!result) return { id: call.id, name: call.name, success: false, error: "The app did not run this tool" };
+
+            return {
+                id: call.id,
+                name: call.name,
+                success: result.success === true,
+                data: result.data,
+                error: typeof result.error === "string" ? result.error : undefined,
+            };
+        });
+
+        return [{ calls, results }];
+    });
+}
+
+/**
+ * The object sent back to the model as a tool's output
+ */
+export function formatToolResult(result: ToolCallResult): Record<string, unknown> {
+    return result.success
+        ? { success: true, ...(result.data !== undefined && { result: result.data }) }
+        : { success: false, error: result.error || "Tool failed" };
+}
@@ -0,0 +1,222 @@
+// ============================================================================
+// AGENT TOOL REGISTRY
+// ============================================================================
+// Every action the agent (and the AI assistant) can take, described once.
+// AgentService registers these for local execution, and the AI chat routes
+// turn them into the model's function declarations, so adding a tool here
+// makes it available to both.
+//
+// Kept free of React and browser code so the API routes can import it.
+
+import { ToolDefinition } from "./types";
+
+const DAY_CODES = ["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"];
+const TIME_BLOCKS = ["Dawn", "Morning", "Noon", "Afternoon", "Evening", "Night"];
+const GOAL_CATEGORIES = ["Fitness", "Health", "Career", "Personal", "Education"];
+const APP_PATHS = ["/", "/calendar", "/focus", "/goals", "/analytics", "/achievements", "/together", "/leaderboard", "/marketplace", "/settings"];
+
+const DATE_PATTERN = "^\\d{4}-\\d{2}-\\d{2}$";
+const TIME_PATTERN = "^([01]\\d|2[0-3]):[0-5]\\d$";
+
+export const TOOL_REGISTRY: ToolDefinition[] = [
+    {
+        id: "create_task",
+        name: "Create Task",
+        description: "Create a new task with optional scheduling and priority. Give `days` for a recurring routine, or `date` (and no days) for a one-time task.",
+        parameters: [
+            { name: "name", type: "string", required: true, description: "Task name" },
+            { name: "date", type: "string", required: false, description: "Due date (YYYY-MM-DD)", pattern: DATE_PATTERN },
+            { name: "time", type: "string", required: false, description: "Due time (HH:MM)", pattern: TIME_PATTERN },
+            { name: "endTime", type: "string", required: false, description: "End time (HH:MM), defaults to an hour after the start", pattern: TIME_PATTERN },
+            { name: "days", type: "array", required: false, description: "Days the routine repeats on", items: "string", enum: DAY_CODES },
+            { name: "timeBlock", type: "string", required: false, description: "Part of the day the task belongs to", enum: TIME_BLOCKS },
+            { name: "icon", type: "string", required: false, description: "A single emoji for the task" },
+            { name: "priority", type: "number", required: false, description: "Priority 1-4", defaultValue: 2, minimum: 1, maximum: 4 },
+            { name: "category", type: "string", required: false, description: "Task category" },
+        ],
+        returns: { type: "object", description: "Created task object" },
+        requiresConfirmation: false,
+        category: "task_management",
+    },
+    {
+        id: "complete_task",
+        name: "Complete Task",
+        description: "Mark a task as completed",
+        parameters: [
+            { name: "taskId", type: "string", required: true, description: "Task ID" },
+        ],
+        returns: { type: "boolean", description: "Success status" },
+        requiresConfirmation: false,
+        category: "task_management",
+    },
+    {
+        id: "update_task",
+        name: "Update Task",
+        description: "Change a task's name, time, days or date. Only the given fields change; setting `date` turns it into a one-time task, setting `days` into a recurring one.",
+        parameters: [
+            { name: "taskId", type: "string", required: true, description: "Task ID" },
+            { name: "name", type: "string", required: false, description: "New task name" },
+            { name: "date", type: "string", required: false, description: "New date (YYYY-MM-DD)", pattern: DATE_PATTERN },
+            { name: "time", type: "string", required: false, description: "New start time (HH:MM)", pattern: TIME_PATTERN },
+            { name: "endTime", type: "string", required: false, description: "New end time (HH:MM)", pattern: TIME_PATTERN },
+            { name: "days", type: "array", required: false, description: "New repeat days", items: "string", enum: DAY_CODES },
+            { name: "icon", type: "string", required: false, description: "New emoji" },
+        ],
+        returns: { type: "object", description: "Updated task object" },
+        requiresConfirmation: false,
+        category: "task_management",
+    },
+    {
+        id: "delete_task",
+        name: "Delete Task",
+        description: "Permanently delete a task",
+        parameters: [
+            { name: "taskId", type: "string", required: true, description: "Task ID" },
+        ],
+        returns: { type: "boolean", description: "Success status" },
+        requiresConfirmation: true,
+        category: "task_management",
+    },
+    {
+        id: "create_goal",
+        name: "Create Goal",
+        description: "Create a new goal",
+        parameters: [
+            { name: "title", type: "string", required: true, description: "Goal title" },
+            { name: "description", type: "string", required: false, description: "What the goal is about" },
+            { name: "targetDate", type: "string", required: false, description: "Target date (YYYY-MM-DD), defaults to 30 days from today", pattern: DATE_PATTERN },
+            { name: "category", type: "string", required: false, description: "Goal category", enum: GOAL_CATEGORIES, defaultValue: "Personal" },
+        ],
+        returns: { type: "object", description: "Created goal object" },
+        requiresConfirmation: false,
+        category: "goal_management",
+    },
+    {
+        id: "update_goal",
+        name: "Update Goal",
+        description: "Change a goal's title, description, target date or progress",
+        parameters: [
+            { name: "goalId", type: "string", required: true, description: "Goal ID" },
+            { name: "title", type: "string", required: false, description: "New title" },
+            { name: "description", type: "string", required: false, description: "New description" },
+            { name: "targetDate", type: "string", required: false, description: "New target date (YYYY-MM-DD)", pattern: DATE_PATTERN },
+            { name: "progress", type: "number", required: false, description: "Progress percentage", minimum: 0, maximum: 100 },
+        ],
+        returns: { type: "object", description: "Updated goal object" },
+        requiresConfirmation: false,
+        category: "goal_management",
+    },
+    {
+        id: "delete_goal",
+        name: "Delete Goal",
+        description: "Permanently delete a goal. Only use when the user explicitly asks.",
+        parameters: [
+            { name: "goalId", type: "string", required: true, description: "Goal ID" },
+        ],
+        returns: { type: "boolean", description: "Success status" },
+        requiresConfirmation: true,
+        category: "goal_management",
+    },
+    {
+        id: "get_insights",
+        name: "Get Insights",
+        description: "Generate productivity insights and analytics",
+        parameters: [
+            { name: "timeRange", type: "string", required: false, description: "Time range (week, month, all)", enum: ["week", "month", "all"] },
+        ],
+        returns: { type: "object", description: "Insights object" },
+        requiresConfirmation: false,
+        category: "insight_generation",
+    },
+    {
+        id: "start_focus",
+        name: "Start Focus Session",
+        description: "Start a focus timer session",
+        parameters: [
+            { name: "duration", type: "number", required: false, description: "Duration in minutes", defaultValue: 25, minimum: 1, maximum: 180 },
+            { name: "taskId", type: "string", required: false, description: "Associated task ID" },
+        ],
+        returns: { type: "object", description: "Session object" },
+        requiresConfirmation: true,
+        category: "focus_control",
+    },
+    {
+        id: "stop_focus",
+        name: "Pause Focus Session",
+        description: "Pause the running focus timer",
+        parameters: [],
+        returns: { type: "boolean", description: "Success status" },
+        requiresConfirmation: false,
+        category: "focus_control",
+    },
+    {
+        id: "reset_focus",
+        name: "Reset Focus Timer",
+        description: "Reset the focus timer to the start of the current session",
+        parameters: [],
+        returns: { type: "boolean", description: "Success status" },
+        requiresConfirmation: false,
+        category: "focus_control",
+    },
+    {
+        id: "navigate",
+        name: "Navigate",
+        description: "Open a page of the app",
+        parameters: [
+            { name: "path", type: "string", required: true, description: "Page to open", enum: APP_PATHS },
+        ],
+        returns: { type: "void", description: "Nothing" },
+        requiresConfirmation: false,
+        category: "app_control",
+    },
+    {
+        id: "control_ui",
+        name: "Control UI",
+        description: "Open, close or toggle the sidebar, settings or the new-task dialog",
+        parameters: [
+            { name: "target", type: "string", required: true, description: "UI element", enum: ["sidebar", "settings", "task_modal"] },
+            { name: "value", type: "string", required: true, description: "What to do with it", enum: ["open", "close", "toggle"] },
+        ],
+        returns: { type: "void", description: "Nothing" },
+        requiresConfirmation: false,
+        category: "app_control",
+    },
+    {
+        id: "update_settings",
+        name: "Update Settings",
+        description: "Change app settings such as the colour theme",
+        parameters: [
+            { name: "theme", type: "string", required: false, description: "Colour theme", enum: ["light", "dark", "system"] },
+        ],
+        returns: { type: "object", description: "Applied settings" },
+        requiresConfirmation: false,
+        category: "app_control",
+    },
+    {
+        id: "manage_notifications",
+        name: "Manage Notifications",
+        description: "Mark all notifications as read, or clear them",
+        parameters: [
+            { name: "command", type: "string", required: true, description: "What to do", enum: ["mark_all_read", "clear_all"] },
+        ],
+        returns: { type: "boolean", description: "Success status" },
+        requiresConfirmation: false,
+        category: "app_control",
+    },
+    {
+        id: "sign_out",
+        name: "Sign Out",
+        description: "Sign the user out. Only use when the user explicitly asks.",
+        parameters: [],
+        returns: { type: "void", description: "Nothing" },
+        requiresConfirmation: true,
+        category: "app_control",
+    },
+];
+
+/**
+ * Look up a tool by id
+ */
+export function getToolDefinition(id: string): ToolDefinition | undefined {
+    return TOOL_REGISTRY.find(tool => tool.id === id);
+}
@@ -214,10 +214,12 @@ export interface ToolDefinition {
 
 export type ToolCategory = 
     | "task_management"
+    | "goal_management"
     | "focus_control"
     | "schedule_control"
     | "insight_generation"
     | "memory_management"
+    | "app_control"
     | "communication";
 
 export interface ToolParameter {
@@ -226,6 +228,38 @@ export interface ToolParameter {
     required: boolean;
     description: string;
     defaultValue?: any;
+    enum?: string[]; // Allowed values (for strings, or array items)
+    pattern?: string; // Regex a string value must match
+    items?: "string" | "number"; // Element type for arrays
+    minimum?: number;
+    maximum?: number;
+}
+
+// ============================================================================
+// TOOL CALLING PROTOCOL (AI assistant <-> model)
+// ============================================================================
+
+/** A tool call requested by the model, with arguments already validated against the registry */
+export interface ToolCall {
+    id: string;
+    name: string;
+    arguments: Record<string, unknown>;
+    error?: string; // Set when the arguments failed validation; the call must not be executed
+    signature?: string; // Opaque provider state that must be sent back with the call (Gemini thought signatures)
+}
+
+export interface ToolCallResult {
+    id: string;
+    name: string;
+    success: boolean;
+    data?: unknown;
+    error?: string;
+}
+
+/** One model round: the calls it made and what executing them returned */
+export interface ToolTurn {
+    calls: ToolCall[];
+    results: ToolCallResult[];
 }
 
 export interface ToolReturn {
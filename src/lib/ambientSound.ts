@@ -0,0 +1,481 @@
+// ============================================================================
+// AMBIENT SOUND ENGINE
+// ============================================================================
+// Generates the focus page's ambient soundscapes with the Web Audio API, so
+// they work offline and loop without seams. Nothing is downloaded:
+// - Noise colors (white/pink/brown) and rain are rendered into buffers once,
+//   with the end crossfaded into the start so the loop point is inaudible
+// - The metronome is a one-beat buffer, which loops exactly
+// - Binaural beats are two oscillators, one per ear
+//
+// Two layers play at once, each with its own volume, behind a master gain
+// that fades in and out. The player state lives in a small store shared by
+// every AmbientPlayer (the normal and zen views) and by the focus timer,
+// which fades the sound with its sessions when "follow sessions" is on.
+// The last mix is kept per device in localStorage (rt_ambient); named mixes
+// are saved per user through focusSessionUtils.
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type AmbientSoundId = "white" | "pink" | "brown" | "rain" | "binaural" | "metronome";
+
+export interface AmbientLayer {
+  sound: AmbientSoundId;
+  volume: number; // 0-1
+}
+
+export interface AmbientMix {
+  primary: AmbientLayer;
+  secondary: AmbientLayer | null;
+}
+
+export interface AmbientState {
+  mix: AmbientMix;
+  isPlaying: boolean;
+  followSessions: boolean; // fade in when a session starts, out when it ends
+}
+
+export interface AmbientMixPreset {
+  id: string;
+  name: string;
+  mix: AmbientMix;
+  isCustom?: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const AMBIENT_STORAGE_KEY = "rt_ambient";
+
+export const AMBIENT_SOUNDS: Array<{ id: AmbientSoundId; label: string; description: string }> = [
+  { id: "white", label: "White", description: "Even hiss across all frequencies" },
+  { id: "pink", label: "Pink", description: "Softer, balanced noise" },
+  { id: "brown", label: "Brown", description: "Deep rumble, like a distant waterfall" },
+  { id: "rain", label: "Rain", description: "Steady rain with falling drops" },
+  { id: "binaural", label: "Binaural", description: "14 Hz beat for focus (use headphones)" },
+  { id: "metronome", label: "Metronome", description: "A soft click at 60 BPM" },
+];
+
+export const AMBIENT_FADE_MS = {
+  manual: 600,
+  session: 4000,
+};
+
+export const AMBIENT_PRESET_LIMITS = {
+  maxPresets: 12,
+  maxNameLength: 40,
+};
+
+export const BUILT_IN_AMBIENT_PRESETS: AmbientMixPreset[] = [
+  {
+    id: "deep-focus",
+    name: "Deep Focus",
+    mix: { primary: { sound: "brown", volume: 0.6 }, secondary: { sound: "binaural", volume: 0.25 } },
+  },
+  {
+    id: "rainy-day",
+    name: "Rainy Day",
+    mix: { primary: { sound: "rain", volume: 0.6 }, secondary: { sound: "pink", volume: 0.2 } },
+  },
+  {
+    id: "steady-pace",
+    name: "Steady Pace",
+    mix: { primary: { sound: "pink", volume: 0.4 }, secondary: { sound: "metronome", volume: 0.3 } },
+  },
+];
+
+const DEFAULT_STATE: AmbientState = {
+  mix: { primary: { sound: "rain", volume: 0.5 }, secondary: null },
+  isPlaying: false,
+  followSessions: false,
+};
+
+// Gain at full volume, so every sound has a similar loudness
+const SOUND_LEVELS: Record<AmbientSoundId, number> = {
+  white: 0.2,
+  pink: 0.45,
+  brown: 0.7,
+  rain: 0.6,
+  binaural: 0.12,
+  metronome: 0.5,
+};
+
+const NOISE_SECONDS = 8;
+const LOOP_CROSSFADE_SECONDS = 0.5;
+const LAYER_FADE_SECONDS = 0.4;
+const METRONOME_BPM = 60;
+const BINAURAL_CARRIER_HZ = 220;
+const BINAURAL_BEAT_HZ = 14;
+
+// ============================================================================
+// SOUND GENERATION
+// ============================================================================
+
+type SampleFill = (data: Float32Array, sampleRate: number) => void;
+
+const fillWhite: SampleFill = (data) => {
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+};
+
+// Paul Kellet's pink noise filter
+const fillPink: SampleFill = (data) => {
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  for (let i = 0; i < data.length; i++) {
+    const white = Math.random() * 2 - 1;
+    b0 = 0.99886 * b0 + white * 0.0555179;
+    b1 = 0.99332 * b1 + white * 0.0750759;
+    b2 = 0.969 * b2 + white * 0.153852;
+    b3 = 0.8665 * b3 + white * 0.3104856;
+    b4 = 0.55 * b4 + white * 0.5329522;
+    b5 = -0.7616 * b5 - white * 0.016898;
+    data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+    b6 = white * 0.115926;
+  }
+};
+
+const fillBrown: SampleFill = (data) => {
+  let last = 0;
+  for (let i = 0; i < data.length; i++) {
+    last = (last + 0.02 * (Math.random() * 2 - 1)) / 1.02;
+    data[i] = last * 3.5;
+  }
+};
+
+// A thinned pink hiss with short decaying bursts for individual drops
+const fillRain: SampleFill = (data, sampleRate) => {
+  fillPink(data, sampleRate);
+
+  // One-pole high-pass around 500 Hz takes the rumble out of the hiss
+  const alpha = 1 / (1 + 2 * Math.PI * 500 / sampleRate);
+  let previousIn = 0;
+  let previousOut = 0;
+  for (let i = 0; i < data.length; i++) {
+    const input = data[i];
+    previousOut = alpha * (previousOut + input - previousIn);
+    previousIn = input;
+    data[i] = previousOut * 0.8;
+  }
+
+  const drops = Math.floor((data.length / sampleRate) * 30);
+  for (let d = 0; d < drops; d++) {
+    const start = Math.floor(Math.random() * data.length);
+    const amplitude = 0.1 + Math.random() * 0.35;
+    const decay = (0.002 + Math.random() * 0.01) * sampleRate;
+    const length = Math.min(data.length - start, Math.floor(decay * 6));
+    for (let i = 0; i < length; i++) {
+      data[start + i] += (Math.random() * 2 - 1) * amplitude * Math.exp(-i / decay);
+    }
+  }
+};
+
+const NOISE_FILLS: Partial<Record<AmbientSoundId, SampleFill>> = {
+  white: fillWhite,
+  pink: fillPink,
+  brown: fillBrown,
+  rain: fillRain,
+};
+
+/**
+ * Render `fill` into a stereo buffer that loops seamlessly: a little extra is
+ * generated past the end and blended into the start, so the sample after the
+ * last one is the continuation of the signal rather than a jump.
+ */
+function createLoopBuffer(context: BaseAudioContext, fill: SampleFill): AudioBuffer {
+  const rate = context.sampleRate;
+  const length = Math.floor(NOISE_SECONDS * rate);
+  const fade = Math.floor(LOOP_CROSSFADE_SECONDS * rate);
+  const buffer = context.createBuffer(2, length, rate);
+
+  for (let channel = 0; channel < 2; channel++) {
+    const raw = new Float32Array(length + fade);
+    fill(raw, rate);
+
+    const output = buffer.getChannelData(channel);
+    output.set(raw.subarray(0, length));
+    for (let i = 0; i < fade; i++) {
+      const t = i / fade;
+      output[i] = raw[i] * Math.sqrt(t) + raw[length + i] * Math.sqrt(1 - t); // equal power
+    }
+  }
+  return buffer;
+}
+
+function createMetronomeBuffer(context: BaseAudioContext): AudioBuffer {
+  const rate = context.sampleRate;
+  const buffer = context.createBuffer(1, Math.floor((60 / METRONOME_BPM) * rate), rate);
+  const data = buffer.getChannelData(0);
+
+  const clickLength = Math.floor(0.03 * rate);
+  for (let i = 0; i < clickLength; i++) {
+    data[i] = Math.sin((2 * Math.PI * 1000 * i) / rate) * Math.exp(-i / (0.006 * rate));
+  }
+  return buffer;
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+interface ActiveLayer {
+  sound: AmbientSoundId;
+  gain: GainNode;
+  sources: AudioScheduledSourceNode[];
+}
+
+class AmbientEngine {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private layers: Array<ActiveLayer | null> = [null, null];
+  private buffers = new Map<AmbientSoundId, AudioBuffer>();
+  private stopTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  async start(mix: AmbientMix, fadeMs: number): Promise<void> {
+    const context = this.getContext();
+    if (!context || !this.master) return;
+
+    if (this.stopTimeout) {
+      clearTimeout(this.stopTimeout);
+      this.stopTimeout = null;
+    }
+
+    await context.resume();
+    this.applyMix(mix);
+    this.rampMaster(1, fadeMs);
+  }
+
+  stop(fadeMs: number): void {
+    if (!this.context || !this.master) return;
+
+    this.rampMaster(0, fadeMs);
+    if (this.stopTimeout) clearTimeout(this.stopTimeout);
+    this.stopTimeout = setTimeout(() => {
+      this.stopTimeout = null;
+      this.layers.forEach((layer, index) => this.removeLayer(index, 0));
+      this.context?.suspend();
+    }, fadeMs + 50);
+  }
+
+  /** Bring the playing layers in line with `mix`, crossfading changed sounds */
+  applyMix(mix: AmbientMix): void {
+    const context = this.context;
+    if (!context || !this.master || context.state !== "running") return;
+
+    [mix.primary, mix.secondary].forEach((target, index) => {
+      const current = this.layers[index];
+
+      if (!target) {
+        this.removeLayer(index, LAYER_FADE_SECONDS);
+        return;
+      }
+
+      const level = SOUND_LEVELS[target.sound] * target.volume;
+      if (current?.sound === target.sound) {
+        current.gain.gain.setTargetAtTime(level, context.currentTime, 0.05);
+        return;
+      }
+
+      this.removeLayer(index, LAYER_FADE_SECONDS);
+      this.layers[index] = this.createLayer(target.sound, level);
+    });
+  }
+
+  private getContext(): AudioContext | null {
+    if (this.context) return this.context;
+    if (typeof window === "undefined" || typeof AudioContext === "undefined") return null;
+
+    this.context = new AudioContext();
+    this.master = this.context.createGain();
+    this.master.gain.value = 0;
+    this.master.connect(this.context.destination);
+    return this.context;
+  }
+
+  private rampMaster(value: number, fadeMs: number): void {
+    if (!this.context || !this.master) return;
+
+    const now = this.context.currentTime;
+    const gain = this.master.gain;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(value, now + fadeMs / 1000);
+  }
+
+  private createLayer(sound: AmbientSoundId, level: number): ActiveLayer {
+    const context = this.context as AudioContext;
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, context.currentTime);
+    gain.gain.linearRampToValueAtTime(level, context.currentTime + LAYER_FADE_SECONDS);
+    gain.connect(this.master as GainNode);
+
+    const sources: AudioScheduledSourceNode[] = [];
+    if (sound === "binaural") {
+      const merger = context.createChannelMerger(2);
+      [BINAURAL_CARRIER_HZ, BINAURAL_CARRIER_HZ + BINAURAL_BEAT_HZ].forEach((frequency, ear) => {
+        const oscillator = context.createOscillator();
+        oscillator.frequency.value = frequency;
+        oscillator.connect(merger, 0, ear);
+        sources.push(oscillator);
+      });
+      merger.connect(gain);
+    } else {
+      const source = context.createBufferSource();
+      source.buffer = this.getBuffer(sound);
+      source.loop = true;
+      source.connect(gain);
+      sources.push(source);
+    }
+
+    sources.forEach(source => source.start());
+    return { sound, gain, sources };
+  }
+
+  private getBuffer(sound: AmbientSoundId): AudioBuffer {
+    const cached = this.buffers.get(sound);
+    if (cached) return cached;
+
+    const context = this.context as AudioContext;
+    const fill = NOISE_FILLS[sound];
+    const buffer = fill ? createLoopBuffer(context, fill) : createMetronomeBuffer(context);
+    this.buffers.set(sound, buffer);
+    return buffer;
+  }
+
+  private removeLayer(index: number, fadeSeconds: number): void {
+    const layer = this.layers[index];
+    if (!layer || !this.context) return;
+    this.layers[index] = null;
+
+    const end = this.context.currentTime + fadeSeconds;
+    layer.gain.gain.cancelScheduledValues(this.context.currentTime);
+    layer.gain.gain.setValueAtTime(layer.gain.gain.value, this.context.currentTime);
+    layer.gain.gain.linearRampToValueAtTime(0, end);
+    layer.sources.forEach(source => {
+      source.stop(end);
+      source.onended = () => source.disconnect();
+    });
+    setTimeout(() => layer.gain.disconnect(), fadeSeconds * 1000 + 100);
+  }
+}
+
+// ============================================================================
+// SHARED STATE
+// ============================================================================
+
+const engine = new AmbientEngine();
+const listeners = new Set<() => void>();
+let state: AmbientState = loadState();
+
+// Whether the current playback was started by a session (and may be stopped by one)
+let startedBySession = false;
+
+function loadState(): AmbientState {
+  if (typeof window === "undefined") return DEFAULT_STATE;
+
+  try {
+    const saved = localStorage.getItem(AMBIENT_STORAGE_KEY);
+    if (!saved) return DEFAULT_STATE;
+
+    const parsed = JSON.parse(saved);
+    const mix = parseAmbientMix(parsed.mix);
+    return {
+      mix: mix || DEFAULT_STATE.mix,
+      isPlaying: false,
+      followSessions: parsed.followSessions === true,
+    };
+  } catch {
+    return DEFAULT_STATE;
+  }
+}
+
+function setState(changes: Partial<AmbientState>): void {
+  state = { ...state, ...changes };
+
+  try {
+    localStorage.setItem(AMBIENT_STORAGE_KEY, JSON.stringify({ mix: state.mix, followSessions: state.followSessions }));
+  } catch (error) {
+    console.error("Failed to save ambient mix:", error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Check stored or synced data is a usable mix (unknown sounds are dropped)
+ */
+export function parseAmbientMix(raw: unknown): AmbientMix | null {
+  if (!raw || typeof raw !== "object") return null;
+  const data = raw as Record<string, unknown>;
+
+  const parseLayer = (value: unknown): AmbientLayer | null => {
+    if (!value || typeof value !== "object") return null;
+    const layer = value as Record<string, unknown>;
+    if (!AMBIENT_SOUNDS.some(sound => sound.id === layer.sound)) return null;
+    const volume = typeof layer.volume === "number" ? Math.min(1, Math.max(0, layer.volume)) : 0.5;
+    return { sound: layer.sound as AmbientSoundId, volume };
+  };
+
+  const primary = parseLayer(data.primary);
+  if (!primary) return null;
+  return { primary, secondary: parseLayer(data.secondary) };
+}
+
+export const ambientStore = {
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+  getSnapshot(): AmbientState {
+    return state;
+  },
+  getServerSnapshot(): AmbientState {
+    return DEFAULT_STATE;
+  },
+};
+
+// ============================================================================
+// CONTROLS
+// ============================================================================
+
+export async function playAmbient(fadeMs: number = AMBIENT_FADE_MS.manual): Promise<void> {
+  startedBySession = false;
+  setState({ isPlaying: true });
+  try {
+    await engine.start(state.mix, fadeMs);
+  } catch (error) {
+    console.error("Ambient sound failed to start:", error);
+    setState({ isPlaying: false });
+  }
+}
+
+export function stopAmbient(fadeMs: number = AMBIENT_FADE_MS.manual): void {
+  startedBySession = false;
+  engine.stop(fadeMs);
+  setState({ isPlaying: false });
+}
+
+export function setAmbientMix(mix: AmbientMix): void {
+  setState({ mix });
+  engine.applyMix(mix);
+}
+
+export function setAmbientFollowSessions(followSessions: boolean): void {
+  setState({ followSessions });
+}
+
+/**
+ * Called by the focus timer whenever a session starts, pauses, resumes or
+ * ends. Only playback a session started is faded out again, so sound the
+ * user turned on by hand keeps playing.
+ */
+export async function syncAmbientWithSession(running: boolean): Promise<void> {
+  if (!state.followSessions) return;
+
+  if (running && !state.isPlaying) {
+    await playAmbient(AMBIENT_FADE_MS.session);
+    startedBySession = true;
+  } else if (!running && state.isPlaying && startedBySession) {
+    stopAmbient(AMBIENT_FADE_MS.session);
+  }
+}
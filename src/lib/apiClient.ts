@@ -0,0 +1,283 @@
+// ============================================================================
+// API CLIENT
+// ============================================================================
+// Calls the app's own API routes as the signed-in user. Routes wrapped in
+// withAuth expect the Firebase ID token as a bearer token.
+
+import { auth } from "@/lib/firebase";
+import type { ScorePeriod } from "@/lib/statsUtils";
+import type { LeaderboardScope, RankedUser } from "@/lib/leaderboardService";
+import type { FriendProfile, Group } from "@/lib/socialService";
+import type { SharedRoutine } from "@/lib/sharedRoutineUtils";
+import type { AccountDeletion } from "@/lib/accountService";
+import type { ApiScope, ApiTokenInfo, WebhookDeliveryInfo, WebhookEvent, WebhookInfo } from "@/lib/integrations";
+import { IS_DEMO_MODE } from "@/lib/demoMode";
+
+export interface RankingsPage {
+    rankings: RankedUser[];
+    pagination: { page: number; limit: number; total: number; totalPages: number; hasMore: boolean };
+    currentUser: RankedUser | null;
+}
+
+/**
+ * fetch() with the current user's ID token attached
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+    const token = await auth.currentUser?.getIdToken();
+    if (!token) {
+        throw new Error("You need to be signed in");
+    }
+
+    const headers = new Headers(init.headers);
+    headers.set("Authorization", `Bearer ${token}`);
+
+    return fetch(input, { ...init, headers });
+}
+
+/**
+ * Ask the server to recalculate the signed-in user's leaderboard score
+ */
+export async function refreshLeaderboardScore(): Promise<void> {
+    const response = await authFetch("/api/leaderboard/score", { method: "POST" });
+    if (!response.ok) {
+        throw new Error(`Score refresh failed (${response.status})`);
+    }
+}
+
+/**
+ * authFetch() a JSON route, throwing the route's error message if it fails
+ */
+async function authJson<T>(input: string, init: RequestInit = {}): Promise<T> {
+    const headers = new Headers(init.headers);
+    if (init.body) headers.set("Content-Type", "application/json");
+
+    const response = await authFetch(input, { ...init, headers });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(body.error || `Request failed (${response.status})`);
+    }
+    return body as T;
+}
+
+// ============================================================================
+// LEADERBOARDS, GROUPS & FRIENDS
+// ============================================================================
+
+export function fetchRankings(options: {
+    scope: LeaderboardScope;
+    period: ScorePeriod;
+    groupId?: string;
+    page?: number;
+    limit?: number;
+}): Promise<RankingsPage> {
+    const params = new URLSearchParams({
+        scope: options.scope,
+        period: options.period,
+        page: String(options.page ?? 1),
+        limit: String(options.limit ?? 20),
+    });
+    if (options.groupId) params.set("groupId", options.groupId);
+
+    return authJson<RankingsPage>(`/api/leaderboard/rankings?${params}`);
+}
+
+export async function fetchGroups(): Promise<Group[]> {
+    return (await authJson<{ groups: Group[] }>("/api/groups")).groups;
+}
+
+export async function createGroup(name: string): Promise<Group> {
+    return (await authJson<{ group: Group }>("/api/groups", { method: "POST", body: JSON.stringify({ name }) })).group;
+}
+
+export async function joinGroup(code: string): Promise<Group> {
+    return (await authJson<{ group: Group }>("/api/groups/join", { method: "POST", body: JSON.stringify({ code }) })).group;
+}
+
+export async function leaveGroup(groupId: string): Promise<void> {
+    await authJson("/api/groups/leave", { method: "POST", body: JSON.stringify({ groupId }) });
+}
+
+export function fetchFriends(): Promise<{ friendCode: string; friends: FriendProfile[] }> {
+    return authJson("/api/friends");
+}
+
+export async function addFriend(code: string): Promise<FriendProfile> {
+    return (await authJson<{ friend: FriendProfile }>("/api/friends", { method: "POST", body: JSON.stringify({ code }) })).friend;
+}
+
+export async function removeFriend(friendId: string): Promise<void> {
+    await authJson(`/api/friends?friendId=${encodeURIComponent(friendId)}`, { method: "DELETE" });
+}
+
+// ============================================================================
+// SHARED ROUTINES
+// ============================================================================
+
+export async function createSharedRoutine(routine: { title: string; days: string[]; icon?: string; timeBlock?: string }): Promise<SharedRoutine> {
+    return (await authJson<{ routine: SharedRoutine }>("/api/shared-routines", { method: "POST", body: JSON.stringify(routine) })).routine;
+}
+
+export async function joinSharedRoutine(code: string): Promise<SharedRoutine> {
+    return (await authJson<{ routine: SharedRoutine }>("/api/shared-routines/join", { method: "POST", body: JSON.stringify({ code }) })).routine;
+}
+
+export async function leaveSharedRoutine(routineId: string): Promise<void> {
+    await authJson("/api/shared-routines/leave", { method: "POST", body: JSON.stringify({ routineId }) });
+}
+
+export async function checkInSharedRoutine(routineId: string, completed: boolean, date?: string): Promise<number> {
+    const result = await authJson<{ groupStreak: number }>("/api/shared-routines/check-in", {
+        method: "POST",
+        body: JSON.stringify({ routineId, completed, date }),
+    });
+    return result.groupStreak;
+}
+
+// ============================================================================
+// ACCOUNT
+// ============================================================================
+
+/**
+ * Merge the account behind `sourceIdToken` (just signed into) into the
+ * signed-in user's account. The other account is deleted.
+ */
+export async function mergeAccount(sourceIdToken: string): Promise<void> {
+    await authJson("/api/account/merge", { method: "POST", body: JSON.stringify({ sourceIdToken }) });
+}
+
+/**
+ * Send a password reset link to the email a username account signs in with,
+ * if one is attached. Works signed out, and succeeds either way.
+ */
+export async function requestAccountRecovery(username: string): Promise<void> {
+    const response = await fetch("/api/account/recovery", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username }),
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || `Request failed (${response.status})`);
+    }
+}
+
+/**
+ * The signed-in user's scheduled deletion (null if none) and how long the
+ * grace period lasts
+ */
+export function fetchAccountDeletion(): Promise<{ deletion: AccountDeletion | null; graceDays: number }> {
+    return authJson("/api/account/deletion");
+}
+
+/**
+ * Schedule the signed-in user's account for deletion after the grace period
+ */
+export async function scheduleAccountDeletion(): Promise<AccountDeletion> {
+    return (await authJson<{ deletion: AccountDeletion }>("/api/account/deletion", { method: "POST" })).deletion;
+}
+
+export async function cancelAccountDeletion(): Promise<void> {
+    await authJson("/api/account/deletion", { method: "DELETE" });
+}
+
+/**
+ * Everything the server stores about the signed-in user, as the JSON file
+ * to save
+ */
+export async function fetchAccountExport(): Promise<{ json: string; filename: string }> {
+    const response = await authFetch("/api/account/export");
+    if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || `Export failed (${response.status})`);
+    }
+
+    const filename = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1]
+        ?? "routine-tracker-data.json";
+    return { json: await response.text(), filename };
+}
+
+// ============================================================================
+// INTEGRATIONS
+// ============================================================================
+
+// The events the signed-in user's active webhooks subscribe to, loaded once a
+// session so reportWebhookEvent only calls the server when someone's listening.
+// Webhooks changed on another device are picked up after a reload.
+let webhookEventsCache: { uid: string; events: Promise<Set<WebhookEvent>> } | null = null;
+
+function subscribedWebhookEvents(uid: string): Promise<Set<WebhookEvent>> {
+    if (webhookEventsCache?.uid !== uid) {
+        const events = fetchWebhooks()
+            .then(webhooks => new Set(webhooks.filter(w => w.active).flatMap(w => w.events)))
+            .catch(error => {
+                webhookEventsCache = null;
+                throw error;
+            });
+        webhookEventsCache = { uid, events };
+    }
+    return webhookEventsCache.events;
+}
+
+export async function fetchApiTokens(): Promise<ApiTokenInfo[]> {
+    return (await authJson<{ tokens: ApiTokenInfo[] }>("/api/integrations/tokens")).tokens;
+}
+
+/**
+ * Create a personal access token. The token is returned this once.
+ */
+export function createApiToken(input: { name: string; scopes: ApiScope[]; expiresInDays: number | null }): Promise<{ token: string; info: ApiTokenInfo }> {
+    return authJson("/api/integrations/tokens", { method: "POST", body: JSON.stringify(input) });
+}
+
+export async function revokeApiToken(tokenId: string): Promise<void> {
+    await authJson(`/api/integrations/tokens?id=${encodeURIComponent(tokenId)}`, { method: "DELETE" });
+}
+
+export async function fetchWebhooks(): Promise<WebhookInfo[]> {
+    return (await authJson<{ webhooks: WebhookInfo[] }>("/api/integrations/webhooks")).webhooks;
+}
+
+/**
+ * Register a webhook. Its signing secret is returned this once.
+ */
+export function createWebhook(input: { url: string; events: WebhookEvent[] }): Promise<{ webhook: WebhookInfo; secret: string }> {
+    webhookEventsCache = null;
+    return authJson("/api/integrations/webhooks", { method: "POST", body: JSON.stringify(input) });
+}
+
+export async function updateWebhook(
+    webhookId: string,
+    changes: { url?: string; events?: WebhookEvent[]; active?: boolean }
+): Promise<WebhookInfo> {
+    webhookEventsCache = null;
+    const result = await authJson<{ webhook: WebhookInfo }>("/api/integrations/webhooks", {
+        method: "PATCH",
+        body: JSON.stringify({ ...changes, id: webhookId }),
+    });
+    return result.webhook;
+}
+
+export async function deleteWebhook(webhookId: string): Promise<void> {
+    webhookEventsCache = null;
+    await authJson(`/api/integrations/webhooks?id=${encodeURIComponent(webhookId)}`, { method: "DELETE" });
+}
+
+export async function fetchWebhookDeliveries(webhookId: string): Promise<WebhookDeliveryInfo[]> {
+    const params = new URLSearchParams({ webhookId });
+    return (await authJson<{ deliveries: WebhookDeliveryInfo[] }>(`/api/integrations/webhooks/deliveries?${params}`)).deliveries;
+}
+
+/**
+ * Tell the server an event happened, for the user's webhooks. Fire and
+ * forget: a failure here must never get in the way of what the user did.
+ */
+export function reportWebhookEvent(event: WebhookEvent, data: Record<string, unknown>): void {
+    const user = auth.currentUser;
+    if (IS_DEMO_MODE || !user) return;
+
+    subscribedWebhookEvents(user.uid)
+        .then(events => events.has(event)
+            ? authJson("/api/integrations/events", { method: "POST", body: JSON.stringify({ event, data }) })
+            : null)
+        .catch(error => console.warn(`Failed to report ${event}:`, error));
+}
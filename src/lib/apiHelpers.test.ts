@@ -0,0 +1,122 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { hashApiToken, setTokenVerifier, type TokenVerifier } from "@/lib/apiHelpers";
+import { API_TOKEN_PREFIX, type ApiScope } from "@/lib/integrations";
+import type { FakeFirestore } from "@/test/fakeFirestore";
+import { DELETE as deleteTask } from "@/app/api/tasks/delete/route";
+import { GET as getTask } from "@/app/api/v1/tasks/[id]/route";
+
+vi.mock("@/lib/firebaseAdmin", () => import("@/test/fakeFirestore").then(m => m.fakeFirebaseAdmin()));
+
+// The legacy task routes write with the client SDK
+const { deleteDoc } = vi.hoisted(() => ({ deleteDoc: vi.fn(async (_path: string) => undefined) }));
+vi.mock("@/lib/firebase", () => ({ db: {} }));
+vi.mock("firebase/firestore", () => ({
+    doc: (_db: unknown, ...segments: string[]) => segments.join("/"),
+    deleteDoc,
+}));
+
+const db = getAdminDb() as unknown as FakeFirestore;
+
+const TASK_ID = "2b7e4c1a-9f3d-4e8b-a6c5-0d1f2e3a4b5c";
+
+// ID tokens in these tests read "id-token:<uid>"; anything else is rejected
+const verifier: TokenVerifier = {
+    async verifyIdToken(idToken) {
+        const uid = idToken.match(/^id-token:(.+)$/)?.[1];
+        if (!uid) throw new Error("Invalid ID token");
+        return { uid };
+    },
+};
+
+function personalToken(userId: string, scopes: ApiScope[]): string {
+    const token = `${API_TOKEN_PREFIX}${userId}-${scopes.join("-")}`;
+    db.setData(`apiTokens/${hashApiToken(token)}`, { userId, scopes, expiresAt: null, lastUsedAt: new Date().toISOString() });
+    return token;
+}
+
+function deleteRequest(body: Record<string, unknown>, token?: string): NextRequest {
+    return new NextRequest("http://localhost/api/tasks/delete", {
+        method: "DELETE",
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        body: JSON.stringify(body),
+    });
+}
+
+function getTaskRequest(token: string) {
+    const request = new NextRequest(`http://localhost/api/v1/tasks/${TASK_ID}`, {
+        headers: { Authorization: `Bearer ${token}` },
+    });
+    return getTask(request, { params: Promise.resolve({ id: TASK_ID }) });
+}
+
+beforeAll(() => setTokenVerifier(verifier));
+afterAll(() => setTokenVerifier(null));
+
+beforeEach(() => {
+    db.clear();
+    deleteDoc.mockClear();
+    db.setData(`users/alice/tasks/${TASK_ID}`, { title: "Alice's run" });
+    db.setData(`users/bob/tasks/${TASK_ID}`, { title: "Bob's run" });
+});
+
+describe("route authentication", () => {
+    it("rejects a request without a token with 401", async () => {
+        const response = await deleteTask(deleteRequest({ taskId: TASK_ID }));
+
+        expect(response.status).toBe(401);
+        expect((await response.json()).code).toBe("UNAUTHORIZED");
+        expect(deleteDoc).not.toHaveBeenCalled();
+    });
+
+    it("rejects a token the verifier refuses with 401", async () => {
+        const response = await deleteTask(deleteRequest({ taskId: TASK_ID }, "forged"));
+
+        expect(response.status).toBe(401);
+        expect(deleteDoc).not.toHaveBeenCalled();
+    });
+
+    it("rejects a token for another user with 403", async () => {
+        const response = await deleteTask(deleteRequest({ userId: "bob", taskId: TASK_ID }, "id-token:alice"));
+
+        expect(response.status).toBe(403);
+        expect((await response.json()).code).toBe("FORBIDDEN");
+        expect(deleteDoc).not.toHaveBeenCalled();
+    });
+
+    it("rejects a personal token without the route's scope", async () => {
+        const response = await getTaskRequest(personalToken("alice", ["stats:read"]));
+
+        expect(response.status).toBe(403);
+        expect((await response.json()).error).toMatch(/tasks:read/);
+    });
+
+    it("rejects personal tokens on routes that don't name a scope", async () => {
+        const response = await deleteTask(deleteRequest({ taskId: TASK_ID }, personalToken("alice", ["tasks:write"])));
+
+        expect(response.status).toBe(403);
+        expect(deleteDoc).not.toHaveBeenCalled();
+    });
+
+    it("runs the handler as the verified user for a valid ID token", async () => {
+        const response = await deleteTask(deleteRequest({ userId: "alice", taskId: TASK_ID }, "id-token:alice"));
+
+        expect(response.status).toBe(200);
+        expect(deleteDoc).toHaveBeenCalledWith(`users/alice/tasks/${TASK_ID}`);
+    });
+
+    it("reads the verified user's data for a valid ID token", async () => {
+        const response = await getTaskRequest("id-token:bob");
+
+        expect(response.status).toBe(200);
+        expect((await response.json()).data).toMatchObject({ id: TASK_ID, title: "Bob's run" });
+    });
+
+    it("runs the handler as the token's owner for a personal token with the scope", async () => {
+        const response = await getTaskRequest(personalToken("alice", ["tasks:read"]));
+
+        expect(response.status).toBe(200);
+        expect((await response.json()).data).toMatchObject({ id: TASK_ID, title: "Alice's run" });
+    });
+});
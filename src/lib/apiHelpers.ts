@@ -4,9 +4,19 @@
 // Provides higher-order functions for standardizing API route behavior
 // with proper error handling, validation, and response formatting.
 
+import { createHash } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
-import { checkRateLimit, RATE_LIMIT_PRESETS } from './rateLimit';
+import { Timestamp } from 'firebase-admin/firestore';
+import {
+  consumeRateLimit,
+  getClientIp,
+  RATE_LIMIT_PRESETS,
+  RateLimitAlgorithm,
+  RateLimitConfig,
+} from './rateLimit';
 import { logger } from './logger';
+import { getAdminAuth, getAdminDb } from './firebaseAdmin';
+import { API_TOKEN_PREFIX, ApiScope } from './integrations';
 
 // ============================================================================
 // ERROR TYPES
@@ -49,6 +59,12 @@ export class NotFoundError extends ApiError {
   }
 }
 
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super(message, 409, 'CONFLICT');
+  }
+}
+
 export class RateLimitError extends ApiError {
   constructor(message: string, retryAfter?: number) {
     super(message, 429, 'RATE_LIMIT_EXCEEDED', { retryAfter }, retryAfter);
@@ -127,49 +143,256 @@ export function handleApiError(error: unknown, context?: string): NextResponse {
 
 type RouteHandler = (request: NextRequest) => Promise<NextResponse>;
 
-interface RateLimitConfig {
+interface RateLimitOptions {
   maxRequests: number;
   windowMs: number;
   identifier?: string;
   message?: string;
+  algorithm?: RateLimitAlgorithm;
 }
 
 type RateLimitPreset = keyof typeof RATE_LIMIT_PRESETS;
 
+function resolveRateLimitConfig(config: RateLimitPreset | Partial<RateLimitOptions>): RateLimitConfig {
+  if (typeof config === 'string') {
+    return RATE_LIMIT_PRESETS[config];
+  }
+
+  return {
+    windowMs: config.windowMs || 60000,
+    maxRequests: config.maxRequests || 100,
+    message: config.message,
+    keyPrefix: config.identifier ? `rl_${config.identifier}_` : 'rl_',
+    algorithm: config.algorithm,
+  };
+}
+
+/**
+ * Signed-in callers are limited per user, so they don't share an allowance
+ * with everyone behind the same NAT; anonymous callers are limited per IP.
+ * An invalid token also falls back to the IP (withAuth rejects it afterwards).
+ * authenticateRequest remembers its result per request, so withAuth reuses
+ * this verification: one verifyIdToken call (or apiTokens lookup) per request.
+ */
+async function getRateLimitKey(request: NextRequest): Promise<string> {
+  if (getBearerToken(request)) {
+    try {
+      const auth = await authenticateRequest(request);
+      return `user:${auth.uid}`;
+    } catch {
+      // Fall through to the IP
+    }
+  }
+  return `ip:${getClientIp(request)}`;
+}
+
+/**
+ * Count a request against a limit. Returns the 429 response to send when the
+ * limit is exceeded, or null to carry on.
+ */
+export async function rateLimitRequest(
+  request: NextRequest,
+  config: RateLimitPreset | Partial<RateLimitOptions> = 'default'
+): Promise<NextResponse | null> {
+  const rateLimitConfig = resolveRateLimitConfig(config);
+  const rateLimitResult = await consumeRateLimit(await getRateLimitKey(request), rateLimitConfig);
+
+  if (rateLimitResult.allowed) {
+    return null;
+  }
+
+  const retryAfter = Math.max(1, Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000));
+  return NextResponse.json(
+    {
+      success: false,
+      error: rateLimitConfig.message || 'Rate limit exceeded',
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfter,
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(retryAfter),
+        'X-RateLimit-Limit': String(rateLimitResult.limit),
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': String(Math.ceil(rateLimitResult.resetTime / 1000)),
+      },
+    }
+  );
+}
+
 export function withRateLimit(
   handler: RouteHandler,
-  config: RateLimitPreset | Partial<RateLimitConfig> = 'default'
+  config: RateLimitPreset | Partial<RateLimitOptions> = 'default'
 ): RouteHandler {
-  const rateLimitConfig = typeof config === 'string' 
-    ? RATE_LIMIT_PRESETS[config]
-    : { 
-        windowMs: config.windowMs || 60000, 
-        maxRequests: config.maxRequests || 100, 
-        message: config.message,
-        keyPrefix: config.identifier ? `rl_${config.identifier}_` : 'rl_'
-      };
+  return async (request: NextRequest): Promise<NextResponse> => {
+    const rateLimitResponse = await rateLimitRequest(request, config);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+
+    return handler(request);
+  };
+}
+
+// ============================================================================
+// AUTHENTICATION WRAPPER
+// ============================================================================
+
+export interface VerifiedToken {
+  uid: string;
+  email?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Anything that can turn a Firebase ID token into its decoded claims.
+ * firebase-admin's Auth service satisfies this; tests can swap in a stand-in.
+ */
+export interface TokenVerifier {
+  verifyIdToken(idToken: string): Promise<VerifiedToken>;
+}
+
+export interface AuthContext {
+  uid: string;
+  token: VerifiedToken;
+  /** Set when the caller used a personal access token instead of an ID token */
+  personalToken?: { id: string; scopes: ApiScope[] };
+}
+
+type AuthenticatedRouteHandler = (request: NextRequest, auth: AuthContext) => Promise<NextResponse>;
+
+interface AuthOptions {
+  /** Accept personal access tokens carrying this scope (ID tokens are always accepted) */
+  scope?: ApiScope;
+}
+
+// lastUsedAt is refreshed at most this often, not on every request
+const API_TOKEN_LAST_USED_INTERVAL_MS = 60 * 60 * 1000;
 
+let tokenVerifierOverride: TokenVerifier | null = null;
+
+/**
+ * Replace the token verifier (pass null to restore firebase-admin)
+ */
+export function setTokenVerifier(verifier: TokenVerifier | null): void {
+  tokenVerifierOverride = verifier;
+}
+
+function getTokenVerifier(): TokenVerifier {
+  return tokenVerifierOverride ?? getAdminAuth();
+}
+
+/**
+ * Extract the bearer token from the Authorization header
+ */
+export function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  if (!header) return null;
+
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+// Verifications already done for a request, so withRateLimit's per-user key
+// and withAuth share one verifyIdToken call
+const verifiedRequests = new WeakMap<NextRequest, Promise<AuthContext>>();
+
+/**
+ * Verify the request's ID token and return the caller's identity
+ */
+export function authenticateRequest(request: NextRequest): Promise<AuthContext> {
+  let verification = verifiedRequests.get(request);
+  if (!verification) {
+    verification = verifyRequestToken(request);
+    verifiedRequests.set(request, verification);
+  }
+  return verification;
+}
+
+/**
+ * Personal access tokens are stored under the SHA-256 of the token
+ */
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+async function verifyPersonalToken(rawToken: string): Promise<AuthContext> {
+  const ref = getAdminDb().collection('apiTokens').doc(hashApiToken(rawToken));
+  const snapshot = await ref.get();
+  const stored = snapshot.data();
+  const expiresAt = stored?.expiresAt as Timestamp | null | undefined;
+
+  if (!stored || (expiresAt && expiresAt.toMillis() <= Date.now())) {
+    throw new AuthenticationError('Invalid or expired token');
+  }
+
+  const lastUsedAt = stored.lastUsedAt ? Date.parse(stored.lastUsedAt) : 0;
+  if (Date.now() - lastUsedAt > API_TOKEN_LAST_USED_INTERVAL_MS) {
+    ref.update({ lastUsedAt: new Date().toISOString() }).catch(error => {
+      logger.warn('Failed to record token use', error, { action: 'verifyPersonalToken' });
+    });
+  }
+
+  return {
+    uid: stored.userId,
+    token: { uid: stored.userId },
+    personalToken: { id: snapshot.id, scopes: stored.scopes ?? [] },
+  };
+}
+
+async function verifyRequestToken(request: NextRequest): Promise<AuthContext> {
+  const idToken = getBearerToken(request);
+  if (!idToken) {
+    throw new AuthenticationError('Missing bearer token');
+  }
+
+  if (idToken.startsWith(API_TOKEN_PREFIX)) {
+    return verifyPersonalToken(idToken);
+  }
+
+  let token: VerifiedToken;
+  try {
+    token = await getTokenVerifier().verifyIdToken(idToken);
+  } catch (error) {
+    logger.warn('ID token verification failed', error, { action: 'authenticateRequest' });
+    throw new AuthenticationError('Invalid or expired token');
+  }
+
+  if (!token?.uid) {
+    throw new AuthenticationError('Invalid or expired token');
+  }
+
+  return { uid: token.uid, token };
+}
+
+/**
+ * Ensure a client-supplied user ID (if any) matches the verified caller
+ */
+export function assertSameUser(auth: AuthContext, requestedUserId?: string | null): void {
+  if (requestedUserId && requestedUserId !== auth.uid) {
+    throw new AuthorizationError('You can only access your own data');
+  }
+}
+
+/**
+ * Only let through signed-in callers. Personal access tokens are refused
+ * unless the route names a scope and the token carries it.
+ */
+export function withAuth(handler: AuthenticatedRouteHandler, options: AuthOptions = {}): RouteHandler {
   return async (request: NextRequest): Promise<NextResponse> => {
-    const rateLimitResult = checkRateLimit(request, rateLimitConfig);
+    const auth = await authenticateRequest(request);
 
-    if (!rateLimitResult.allowed) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: rateLimitConfig.message || 'Rate limit exceeded',
-          code: 'RATE_LIMIT_EXCEEDED',
-          retryAfter: Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000),
-        },
-        {
-          status: 429,
-          headers: {
-            'Retry-After': String(Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)),
-          },
-        }
-      );
+    if (auth.personalToken) {
+      if (!options.scope) {
+        throw new AuthorizationError('Personal access tokens can\'t be used here');
+      }
+      if (!auth.personalToken.scopes.includes(options.scope)) {
+        throw new AuthorizationError(`This token doesn't have the ${options.scope} scope`);
+      }
     }
 
-    return handler(request);
+    return handler(request, auth);
   };
 }
 
@@ -0,0 +1,143 @@
+// ============================================================================
+// PERSONAL ACCESS TOKENS (SERVER-ONLY)
+// ============================================================================
+// Creating, listing and revoking the tokens users hand to other tools (see
+// integrations). apiHelpers checks them on each request.
+//
+//   apiTokens/{sha256(token)}   userId, name, scopes, hint, createdAt,
+//                               lastUsedAt, expiresAt (admin SDK only)
+//
+// Only the hash is stored, so a token can't be shown again after it's
+// created; a lost token is revoked and replaced.
+
+import { randomBytes } from "crypto";
+import { Timestamp, type DocumentData } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { NotFoundError, ValidationError, hashApiToken } from "@/lib/apiHelpers";
+import { logger } from "@/lib/logger";
+import {
+    API_TOKEN_EXPIRY_DAYS,
+    API_TOKEN_PREFIX,
+    ApiScope,
+    ApiTokenInfo,
+    isApiScope,
+} from "@/lib/integrations";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_TOKENS_PER_USER = 10;
+const MAX_NAME_LENGTH = 50;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function tokensCollection() {
+    return getAdminDb().collection("apiTokens");
+}
+
+function toTokenInfo(id: string, data: DocumentData): ApiTokenInfo {
+    return {
+        id,
+        name: data.name,
+        scopes: data.scopes ?? [],
+        hint: data.hint,
+        createdAt: data.createdAt,
+        lastUsedAt: data.lastUsedAt ?? null,
+        expiresAt: data.expiresAt ? (data.expiresAt as Timestamp).toDate().toISOString() : null,
+    };
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+/**
+ * The user's tokens, newest first
+ */
+export async function listApiTokens(userId: string): Promise<ApiTokenInfo[]> {
+    const snapshot = await tokensCollection().where("userId", "==", userId).get();
+    return snapshot.docs
+        .map(d => toTokenInfo(d.id, d.data()))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Create a token. Returns it with its details; this is the only time the
+ * token itself is available.
+ */
+export async function createApiToken(
+    userId: string,
+    input: { name?: unknown; scopes?: unknown; expiresInDays?: unknown },
+    now: Date = new Date()
+): Promise<{ token: string; info: ApiTokenInfo }> {
+    const name = typeof input.name === "string" ? input.name.trim() : "";
+    if (!name || name.length > MAX_NAME_LENGTH) {
+        throw new ValidationError(`Give the token a name of up to ${MAX_NAME_LENGTH} characters`);
+    }
+
+    const scopes = Array.isArray(input.scopes) ? Array.from(new Set(input.scopes)) : [];
+    if (scopes.length === 0 || !scopes.every(isApiScope)) {
+        throw new ValidationError("Choose at least one valid scope");
+    }
+
+    const expiresInDays = input.expiresInDays ?? null;
+    if (expiresInDays !== null && !(API_TOKEN_EXPIRY_DAYS as readonly unknown[]).includes(expiresInDays)) {
+        throw new ValidationError(`Tokens expire after ${API_TOKEN_EXPIRY_DAYS.join(", ")} days, or never`);
+    }
+
+    const existing = await tokensCollection().where("userId", "==", userId).count().get();
+    if (existing.data().count >= MAX_TOKENS_PER_USER) {
+        throw new ValidationError(`You can have up to ${MAX_TOKENS_PER_USER} tokens. Revoke one first.`);
+    }
+
+    const token = API_TOKEN_PREFIX + randomBytes(32).toString("base64url");
+    const data = {
+        userId,
+        name,
+        scopes: scopes as ApiScope[],
+        hint: token.slice(0, API_TOKEN_PREFIX.length + 4),
+        createdAt: now.toISOString(),
+        lastUsedAt: null,
+        expiresAt: expiresInDays === null
+            ? null
+            : Timestamp.fromMillis(now.getTime() + (expiresInDays as number) * 24 * 60 * 60 * 1000),
+    };
+
+    const id = hashApiToken(token);
+    await tokensCollection().doc(id).create(data);
+
+    logger.info("API token created", { action: "createApiToken", metadata: { userId, scopes: data.scopes } });
+
+    return { token, info: toTokenInfo(id, data) };
+}
+
+/**
+ * Revoke one of the user's tokens; it stops working immediately
+ */
+export async function revokeApiToken(userId: string, tokenId: unknown): Promise<void> {
+    if (typeof tokenId !== "string" || !tokenId) {
+        throw new ValidationError("Token ID is required");
+    }
+
+    const ref = tokensCollection().doc(tokenId);
+    const snapshot = await ref.get();
+    if (!snapshot.exists || snapshot.get("userId") !== userId) {
+        throw new NotFoundError("Token");
+    }
+
+    await ref.delete();
+    logger.info("API token revoked", { action: "revokeApiToken", metadata: { userId } });
+}
+
+/**
+ * Delete all of a user's tokens (account deletion)
+ */
+export async function deleteUserApiTokens(userId: string): Promise<void> {
+    const snapshot = await tokensCollection().where("userId", "==", userId).get();
+    const batch = getAdminDb().batch();
+    snapshot.docs.forEach(d => batch.delete(d.ref));
+    await batch.commit();
+}
@@ -0,0 +1,137 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { setTokenVerifier } from "@/lib/apiHelpers";
+import type { FakeFirestore } from "@/test/fakeFirestore";
+import { POST as createTask } from "@/app/api/v1/tasks/route";
+
+vi.mock("@/lib/firebaseAdmin", () => import("@/test/fakeFirestore").then(m => m.fakeFirebaseAdmin()));
+
+const db = getAdminDb() as unknown as FakeFirestore;
+
+const USER_ID = "alice";
+const TASKS_PATH = `users/${USER_ID}/tasks`;
+const LEASE_MS = 2 * 60 * 1000;
+
+const stretch = {
+    title: "Stretch",
+    icon: "🧘",
+    startTime: "07:00",
+    endTime: "07:15",
+    timeBlock: "Morning",
+    days: ["MON", "WED", "FRI"],
+};
+
+function post(body: Record<string, unknown>, idempotencyKey?: string) {
+    const request = new NextRequest("http://localhost/api/v1/tasks", {
+        method: "POST",
+        headers: {
+            Authorization: `Bearer id-token:${USER_ID}`,
+            "Content-Type": "application/json",
+            ...(idempotencyKey && { "Idempotency-Key": idempotencyKey }),
+        },
+        body: JSON.stringify(body),
+    });
+    return createTask(request, { params: Promise.resolve({}) });
+}
+
+/**
+ * Start a keyed request and hold it after it has claimed the key, before it
+ * writes the task. Returns its response promise and a function that lets it finish.
+ */
+async function startHeldRequest(body: Record<string, unknown>, idempotencyKey: string) {
+    const release = db.holdNextWrite(TASKS_PATH);
+    const response = post(body, idempotencyKey);
+    await vi.waitFor(() => expect(db.listCollection("idempotencyKeys")).toHaveLength(1));
+    return { response, release };
+}
+
+beforeAll(() => setTokenVerifier({ verifyIdToken: async idToken => ({ uid: idToken.replace("id-token:", "") }) }));
+afterAll(() => setTokenVerifier(null));
+
+beforeEach(() => db.clear());
+afterEach(() => vi.useRealTimers());
+
+describe("Idempotency-Key", () => {
+    it("replays the stored response for a finished key", async () => {
+        const first = await post(stretch, "key-1");
+        expect(first.status).toBe(201);
+        expect(first.headers.get("Idempotent-Replayed")).toBeNull();
+        const created = await first.json();
+
+        const repeat = await post(stretch, "key-1");
+
+        expect(repeat.status).toBe(201);
+        expect(repeat.headers.get("Idempotent-Replayed")).toBe("true");
+        expect(await repeat.json()).toEqual(created);
+        expect(db.listCollection(TASKS_PATH)).toHaveLength(1);
+    });
+
+    it("runs requests with different keys separately", async () => {
+        await post(stretch, "key-1");
+        const other = await post(stretch, "key-2");
+
+        expect(other.status).toBe(201);
+        expect(other.headers.get("Idempotent-Replayed")).toBeNull();
+        expect(db.listCollection(TASKS_PATH)).toHaveLength(2);
+    });
+
+    it("rejects a key reused with a different body with 422", async () => {
+        await post(stretch, "key-1");
+
+        const reused = await post({ ...stretch, title: "Read" }, "key-1");
+
+        expect(reused.status).toBe(422);
+        expect((await reused.json()).code).toBe("IDEMPOTENCY_KEY_REUSED");
+        expect(db.listCollection(TASKS_PATH)).toHaveLength(1);
+    });
+
+    it("rejects a request while another holds the key's lease with 409", async () => {
+        const { response, release } = await startHeldRequest(stretch, "key-1");
+
+        const concurrent = await post(stretch, "key-1");
+        expect(concurrent.status).toBe(409);
+        expect((await concurrent.json()).code).toBe("CONFLICT");
+
+        release();
+        expect((await response).status).toBe(201);
+        expect(db.listCollection(TASKS_PATH)).toHaveLength(1);
+    });
+
+    it("lets a retry take over a key whose lease has run out", async () => {
+        vi.useFakeTimers({ toFake: ["Date"] });
+        const { response: abandoned, release } = await startHeldRequest(stretch, "key-1");
+
+        vi.setSystemTime(Date.now() + LEASE_MS - 1000);
+        expect((await post(stretch, "key-1")).status).toBe(409);
+
+        vi.setSystemTime(Date.now() + 2000);
+        const retry = await post(stretch, "key-1");
+
+        expect(retry.status).toBe(201);
+        expect(retry.headers.get("Idempotent-Replayed")).toBeNull();
+        const [stored] = db.listCollection("idempotencyKeys");
+        expect(stored[1]).toMatchObject({ status: "done", statusCode: 201 });
+
+        // Later requests replay the retry's response
+        const replayed = await post(stretch, "key-1");
+        expect(replayed.headers.get("Idempotent-Replayed")).toBe("true");
+        expect((await replayed.json()).data.id).toBe((await retry.json()).data.id);
+
+        release();
+        await abandoned;
+    });
+
+    it("doesn't take over an expired lease for a different body", async () => {
+        vi.useFakeTimers({ toFake: ["Date"] });
+        const { response: abandoned, release } = await startHeldRequest(stretch, "key-1");
+
+        vi.setSystemTime(Date.now() + LEASE_MS + 1000);
+        const reused = await post({ ...stretch, title: "Read" }, "key-1");
+
+        expect(reused.status).toBe(422);
+
+        release();
+        await abandoned;
+    });
+});
@@ -0,0 +1,320 @@
+// ============================================================================
+// API V1 (SERVER-ONLY)
+// ============================================================================
+// Plumbing shared by the /api/v1 resource routes: the route wrapper, JSON
+// bodies, cursor pagination and idempotency keys. Routes that name a scope
+// also accept personal access tokens with it (see integrations).
+//
+//   idempotencyKeys/{hash}   the stored response to a keyed request (admin SDK only)
+//
+// Errors are the ApiError classes from apiHelpers, so every failure comes back
+// as { success: false, error, code, details? } with a stable `code`.
+//
+// Lists are paged with an opaque `cursor`: pass the previous page's
+// `nextCursor` to get the next one.
+//
+// A POST, PATCH or DELETE sent with an `Idempotency-Key` header runs once.
+// Repeating it within IDEMPOTENCY_TTL_MS replays the first response (marked
+// with `Idempotent-Replayed: true`) instead of running again, which makes
+// retries after a dropped connection safe. Only successful responses are
+// kept, so a failed request can be retried with the same key. A key stays
+// claimed for IDEMPOTENCY_LEASE_MS while its request runs; if that request
+// never records an outcome (the function was killed, or the write failed), a
+// retry takes the key over once the lease is up.
+
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+    DocumentReference,
+    FieldPath,
+    Timestamp,
+    type CollectionReference,
+    type DocumentData,
+    type QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { logger } from "@/lib/logger";
+import {
+    ApiError,
+    ConflictError,
+    ValidationError,
+    withAuth,
+    withErrorHandling,
+    withRateLimit,
+    type AuthContext,
+} from "@/lib/apiHelpers";
+import type { ApiScope } from "@/lib/integrations";
+import type { ValidationResult } from "@/lib/validationSchemas";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface RouteContext<P> {
+    params: Promise<P>;
+}
+
+type V1Handler<P> = (request: NextRequest, auth: AuthContext, params: P) => Promise<NextResponse>;
+
+export interface V1RouteOptions {
+    endpoint: string;
+    method: "GET" | "POST" | "PATCH" | "DELETE";
+    identifier: string;
+    maxRequests: number;
+    /** The scope that lets a personal access token call this route */
+    scope?: ApiScope;
+}
+
+export interface ListParams {
+    cursor: string | null;
+    limit: number;
+}
+
+export interface Page<T> {
+    data: T[];
+    nextCursor: string | null;
+    hasMore: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const V1_PAGE_SIZE = { default: 20, max: 100 };
+
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+// Longer than any v1 request takes
+const IDEMPOTENCY_LEASE_MS = 2 * 60 * 1000;
+const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * A /api/v1 route handler: error handling, rate limiting and authentication
+ * as in the other routes, plus the route's params and idempotency keys for
+ * writes
+ */
+export function v1Route<P = Record<string, never>>(handler: V1Handler<P>, options: V1RouteOptions) {
+    return (request: NextRequest, context: RouteContext<P>): Promise<NextResponse> => {
+        const authenticated = withAuth(async (req, auth) => {
+            const params = await context.params;
+            const run = () => handler(req, auth, params);
+            return options.method === "GET" ? run() : withIdempotency(req, auth, run);
+        }, { scope: options.scope });
+
+        return withErrorHandling(
+            withRateLimit(authenticated, { maxRequests: options.maxRequests, windowMs: 60000, identifier: options.identifier }),
+            { endpoint: options.endpoint, method: options.method }
+        )(request);
+    };
+}
+
+/**
+ * The request's JSON object body; with `optional`, an empty body reads as {}
+ */
+export async function readBody(request: NextRequest, options?: { optional?: boolean }): Promise<Record<string, unknown>> {
+    const text = await request.text();
+    if (!text && options?.optional) return {};
+
+    let body: unknown = null;
+    try {
+        body = JSON.parse(text);
+    } catch {
+        // Reported below
+    }
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+        throw new ValidationError("The request body must be a JSON object");
+    }
+    return body as Record<string, unknown>;
+}
+
+/**
+ * Throw a ValidationError listing what a validator from validationSchemas found
+ */
+export function assertValid(result: ValidationResult, resource: string): void {
+    if (!result.valid) {
+        throw new ValidationError(`Invalid ${resource}: ${result.errors.join("; ")}`, { body: result.errors });
+    }
+}
+
+/**
+ * Firestore values as plain JSON: Timestamps become ISO strings, references
+ * their paths
+ */
+export function toJson(value: unknown): unknown {
+    if (value instanceof Timestamp) return value.toDate().toISOString();
+    if (value instanceof DocumentReference) return value.path;
+    if (Array.isArray(value)) return value.map(toJson);
+    if (value && typeof value === "object") {
+        return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, toJson(inner)]));
+    }
+    return value;
+}
+
+// ============================================================================
+// PAGINATION
+// ============================================================================
+
+/**
+ * ?cursor= and ?limit= from a list request
+ */
+export function parseListParams(request: NextRequest): ListParams {
+    const searchParams = request.nextUrl.searchParams;
+    const rawLimit = searchParams.get("limit");
+    const limit = rawLimit === null ? V1_PAGE_SIZE.default : Number(rawLimit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > V1_PAGE_SIZE.max) {
+        throw new ValidationError(`limit must be an integer between 1 and ${V1_PAGE_SIZE.max}`);
+    }
+
+    return { cursor: searchParams.get("cursor"), limit };
+}
+
+interface Cursor {
+    id: string;
+    at?: number; // millis of the order field, when ordering by a Timestamp
+}
+
+function encodeCursor(cursor: Cursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string): Cursor {
+    try {
+        const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+        if (typeof cursor?.id === "string" && (cursor.at === undefined || typeof cursor.at === "number")) {
+            return cursor;
+        }
+    } catch {
+        // Reported below
+    }
+    throw new ValidationError("That cursor isn't valid");
+}
+
+/**
+ * One page of a collection, in descending order of a Timestamp field when
+ * `orderBy` is given, otherwise of document ID
+ */
+export async function listPage(
+    collection: CollectionReference,
+    params: ListParams,
+    orderBy?: string
+): Promise<Page<QueryDocumentSnapshot<DocumentData>>> {
+    let query = orderBy
+        ? collection.orderBy(orderBy, "desc").orderBy(FieldPath.documentId(), "desc")
+        : collection.orderBy(FieldPath.documentId(), "desc");
+
+    if (params.cursor) {
+        const cursor = decodeCursor(params.cursor);
+        query = orderBy
+            ? query.startAfter(Timestamp.fromMillis(cursor.at ?? 0), cursor.id)
+            : query.startAfter(cursor.id);
+    }
+
+    // One extra tells us whether there's another page
+    const snapshot = await query.limit(params.limit + 1).get();
+    const docs = snapshot.docs.slice(0, params.limit);
+    const hasMore = snapshot.docs.length > params.limit;
+    const last = docs[docs.length - 1];
+
+    let nextCursor: string | null = null;
+    if (hasMore && last) {
+        const at = orderBy ? (last.get(orderBy) as Timestamp | undefined)?.toMillis() : undefined;
+        nextCursor = encodeCursor({ id: last.id, ...(at !== undefined && { at }) });
+    }
+
+    return { data: docs, nextCursor, hasMore };
+}
+
+// ============================================================================
+// IDEMPOTENCY
+// ============================================================================
+
+interface StoredResponse {
+    userId: string;
+    fingerprint: string;
+    status: "pending" | "done";
+    statusCode?: number;
+    body?: unknown;
+    expiresAt: Timestamp;
+    /** While pending: when another request may take the key over */
+    leaseExpiresAt?: Timestamp;
+}
+
+function sha256(value: string): string {
+    return createHash("sha256").update(value).digest("hex");
+}
+
+function replay(stored: StoredResponse): NextResponse {
+    const headers = { "Idempotent-Replayed": "true" };
+    return stored.body === null || stored.body === undefined
+        ? new NextResponse(null, { status: stored.statusCode, headers })
+        : NextResponse.json(stored.body, { status: stored.statusCode, headers });
+}
+
+/**
+ * Run a write once per Idempotency-Key (see the header comment)
+ */
+async function withIdempotency(request: NextRequest, auth: AuthContext, run: () => Promise<NextResponse>): Promise<NextResponse> {
+    const key = request.headers.get("idempotency-key");
+    if (key === null) return run();
+    if (!key || key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+        throw new ValidationError(`Idempotency-Key must be 1-${IDEMPOTENCY_KEY_MAX_LENGTH} characters`);
+    }
+
+    const db = getAdminDb();
+    const ref = db.collection("idempotencyKeys").doc(sha256(`${auth.uid}:${key}`));
+    const fingerprint = sha256(`${request.method} ${request.nextUrl.pathname} ${await request.clone().text()}`);
+
+    // Claim the key, unless an unexpired request already has (and still holds its lease)
+    const existing = await db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(ref);
+        const stored = snapshot.data() as StoredResponse | undefined;
+        const now = Date.now();
+        if (stored && stored.expiresAt.toMillis() > now) {
+            const abandoned = stored.status === "pending"
+                && stored.fingerprint === fingerprint
+                && (stored.leaseExpiresAt?.toMillis() ?? 0) <= now;
+            if (!abandoned) return stored;
+        }
+
+        transaction.set(ref, {
+            userId: auth.uid,
+            fingerprint,
+            status: "pending",
+            expiresAt: Timestamp.fromMillis(now + IDEMPOTENCY_TTL_MS),
+            leaseExpiresAt: Timestamp.fromMillis(now + IDEMPOTENCY_LEASE_MS),
+        } satisfies StoredResponse);
+        return null;
+    });
+
+    if (existing) {
+        if (existing.fingerprint !== fingerprint) {
+            throw new ApiError("This Idempotency-Key was already used for a different request", 422, "IDEMPOTENCY_KEY_REUSED");
+        }
+        if (existing.status === "pending") {
+            throw new ConflictError("A request with this Idempotency-Key is still in progress");
+        }
+        return replay(existing);
+    }
+
+    let response: NextResponse | undefined;
+    try {
+        response = await run();
+        return response;
+    } finally {
+        // Keep a success to replay, or free the key for a retry. If this
+        // fails, the lease running out frees the key instead.
+        try {
+            if (response?.ok) {
+                const body = response.status === 204 ? null : await response.clone().json().catch(() => null);
+                await ref.update({ status: "done", statusCode: response.status, body });
+            } else {
+                await ref.delete();
+            }
+        } catch (error) {
+            logger.warn("Failed to record Idempotency-Key outcome", error, { userId: auth.uid, action: "withIdempotency" });
+        }
+    }
+}
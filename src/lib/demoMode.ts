@@ -0,0 +1,330 @@
+// ============================================================================
+// OFFLINE DEMO MODE
+// ============================================================================
+// Builds made with NEXT_PUBLIC_DEMO_MODE=true run without Firebase. Signing in
+// always succeeds as DEMO_USER, and TaskContext, GoalContext and the focus
+// timer (through focusSessionUtils) read and write an in-memory store seeded
+// with sample routines from MARKETPLACE_TEMPLATES instead of Firestore.
+// Changes last until the page is reloaded.
+//
+// The flag is inlined at build time, so a production build can't be switched
+// into demo mode from the browser.
+
+import type { User } from "firebase/auth";
+import { Timestamp } from "firebase/firestore";
+import { format, subDays } from "date-fns";
+import type { Task } from "@/context/TaskContext";
+import type { Goal } from "@/context/GoalContext";
+import { MARKETPLACE_TEMPLATES } from "@/data/marketplaceTemplates";
+import { WEEKDAY_CODES } from "@/lib/recurrenceUtils";
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+export const IS_DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+const DEMO_UID = "demo-user";
+
+export const DEMO_USER = {
+  uid: DEMO_UID,
+  email: "demo@routinetracker.local",
+  displayName: "Demo User",
+  photoURL: null,
+  emailVerified: true,
+  isAnonymous: false,
+  providerData: [],
+  metadata: {
+    creationTime: new Date().toISOString(),
+    lastSignInTime: new Date().toISOString(),
+  },
+  getIdToken: async () => {
+    throw new Error("The API isn't available in demo mode");
+  },
+} as unknown as User;
+
+// Routines the demo starts with; another few are offered as saved templates
+const SEED_ROUTINES = ["morning-routine", "work-from-home"];
+const SEED_TEMPLATES = ["student-schedule", "weekend-wellness"];
+const SEED_HISTORY_DAYS = 21;
+const MORNING_GOAL_ID = "demo-goal-mornings";
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export type DemoDocument = Record<string, unknown> & { id: string };
+
+type Listener = (docs: DemoDocument[]) => void;
+
+const collections = new Map<string, Map<string, Record<string, unknown>>>();
+const listeners = new Map<string, Set<Listener>>();
+let seeded = false;
+
+function getCollection(name: string): Map<string, Record<string, unknown>> {
+  if (!seeded) {
+    seeded = true;
+    seedDemoData();
+  }
+
+  let docs = collections.get(name);
+  if (!docs) {
+    docs = new Map();
+    collections.set(name, docs);
+  }
+  return docs;
+}
+
+function snapshot(name: string): DemoDocument[] {
+  return Array.from(getCollection(name), ([id, data]) => ({ ...data, id }));
+}
+
+function notify(name: string): void {
+  const docs = snapshot(name);
+  listeners.get(name)?.forEach((listener) => listener(docs));
+}
+
+/**
+ * Apply a write the way Firestore would: dotted keys update nested fields,
+ * and the SyncContext placeholders (increment, deleteField, serverTimestamp,
+ * timestamp) are resolved. Undefined values are skipped.
+ */
+function applyFields(target: Record<string, unknown>, data: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...target };
+
+  Object.entries(data).forEach(([path, value]) => {
+    if (value === undefined) return;
+
+    // Copy each object on the way down, so earlier snapshots stay unchanged
+    const keys = path.split(".");
+    const field = keys.pop()!;
+    let parent = result;
+    keys.forEach((key) => {
+      const child = parent[key];
+      parent[key] = typeof child === "object" && child !== null ? { ...child } : {};
+      parent = parent[key] as Record<string, unknown>;
+    });
+
+    const marker = value as { __type?: string; value?: unknown } | null;
+    switch (typeof marker === "object" && marker !== null ? marker.__type : undefined) {
+      case "deleteField":
+        delete parent[field];
+        break;
+      case "increment":
+        parent[field] = (Number(parent[field]) || 0) + Number(marker?.value);
+        break;
+      case "serverTimestamp":
+        parent[field] = Timestamp.now();
+        break;
+      case "timestamp":
+        parent[field] = Timestamp.fromDate(new Date(String(marker?.value)));
+        break;
+      default:
+        parent[field] = value;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * A tiny document store shaped after the Firestore calls the contexts make.
+ * Collections are named after the user's subcollections ("tasks", "goals",
+ * "focusSessions", ...); "user" holds the profile document.
+ */
+export const demoStore = {
+  list(name: string): DemoDocument[] {
+    return snapshot(name);
+  },
+
+  get(name: string, id: string): DemoDocument | null {
+    const data = getCollection(name).get(id);
+    return data ? { ...data, id } : null;
+  },
+
+  /** Like onSnapshot: called with the whole collection now and after every change */
+  subscribe(name: string, listener: Listener): () => void {
+    let set = listeners.get(name);
+    if (!set) {
+      set = new Set();
+      listeners.set(name, set);
+    }
+    set.add(listener);
+    queueMicrotask(() => {
+      if (listeners.get(name)?.has(listener)) listener(snapshot(name));
+    });
+
+    return () => {
+      listeners.get(name)?.delete(listener);
+    };
+  },
+
+  set(name: string, id: string, data: Record<string, unknown>): void {
+    getCollection(name).set(id, applyFields({}, data));
+    notify(name);
+  },
+
+  /** Merges into the document, creating it if needed */
+  update(name: string, id: string, data: Record<string, unknown>): void {
+    const docs = getCollection(name);
+    docs.set(id, applyFields(docs.get(id) ?? {}, data));
+    notify(name);
+  },
+
+  delete(name: string, id: string): void {
+    if (getCollection(name).delete(id)) notify(name);
+  },
+};
+
+/**
+ * Apply a SyncContext operation to the demo store, where it takes effect
+ * immediately
+ */
+export function applyDemoOperation(
+  type: "CREATE" | "UPDATE" | "DELETE" | "TOGGLE",
+  collection: string,
+  documentId: string,
+  data: Record<string, unknown> = {}
+): void {
+  const now = new Date().toISOString();
+
+  switch (type) {
+    case "CREATE":
+      demoStore.set(collection, documentId, { createdAt: now, ...data, updatedAt: now });
+      break;
+    case "UPDATE":
+    case "TOGGLE":
+      demoStore.update(collection, documentId, { ...data, updatedAt: now });
+      break;
+    case "DELETE":
+      demoStore.delete(collection, documentId);
+      break;
+  }
+}
+
+// ============================================================================
+// SAMPLE DATA
+// ============================================================================
+
+function templateTasks(templateId: string, goalId?: string): Task[] {
+  const template = MARKETPLACE_TEMPLATES.find((t) => t.id === templateId);
+  return (template?.tasks ?? []).map((task, index) => ({
+    ...task,
+    id: `demo-${templateId}-${index}`,
+    isCompleted: false,
+    completionHistory: [],
+    ...(goalId ? { goalId } : {}),
+  }));
+}
+
+function seedDemoData(): void {
+  const today = new Date();
+  const put = (name: string, id: string, data: Record<string, unknown>) => {
+    let docs = collections.get(name);
+    if (!docs) {
+      docs = new Map();
+      collections.set(name, docs);
+    }
+    docs.set(id, data);
+  };
+
+  // Routines with a few weeks of mostly-kept history
+  const tasks = [
+    ...templateTasks(SEED_ROUTINES[0], MORNING_GOAL_ID),
+    ...SEED_ROUTINES.slice(1).flatMap((id) => templateTasks(id)),
+  ];
+  tasks.forEach((task, taskIndex) => {
+    for (let i = SEED_HISTORY_DAYS; i >= 1; i--) {
+      const date = subDays(today, i);
+      const scheduled = task.days.includes(WEEKDAY_CODES[date.getDay()]);
+      if (scheduled && (i + taskIndex) % 5 !== 0) {
+        task.completionHistory.push(format(date, "yyyy-MM-dd"));
+      }
+    }
+    task.createdAt = subDays(today, SEED_HISTORY_DAYS).toISOString();
+    const { id, ...data } = task;
+    put("tasks", id, data);
+  });
+
+  SEED_TEMPLATES.forEach((templateId) => {
+    const template = MARKETPLACE_TEMPLATES.find((t) => t.id === templateId);
+    if (template) put("templates", template.name, { tasks: templateTasks(templateId) });
+  });
+
+  const goals: Goal[] = [
+    {
+      id: MORNING_GOAL_ID,
+      title: "Make mornings automatic",
+      description: "Keep the morning routine going until it runs on autopilot",
+      targetDate: format(subDays(today, -45), "yyyy-MM-dd"),
+      isCompleted: false,
+      category: "Health",
+      progress: 0,
+      icon: "🌅",
+      priority: "high",
+      milestones: [],
+      progressRule: { type: "taskCompletions", targetCount: 150, startDate: format(subDays(today, SEED_HISTORY_DAYS), "yyyy-MM-dd") },
+      createdAt: subDays(today, SEED_HISTORY_DAYS).toISOString(),
+    },
+    {
+      id: "demo-goal-10k",
+      title: "Run a 10K",
+      description: "Build up from 5K to a full 10K race",
+      targetDate: format(subDays(today, -60), "yyyy-MM-dd"),
+      isCompleted: false,
+      category: "Fitness",
+      progress: 33,
+      icon: "🏃",
+      priority: "medium",
+      milestones: [
+        { id: "demo-ms-1", title: "Run 5K without stopping", isCompleted: true, completedAt: subDays(today, 10).toISOString(), order: 0 },
+        { id: "demo-ms-2", title: "Run 7.5K", isCompleted: false, order: 1 },
+        { id: "demo-ms-3", title: "Sign up for a race", isCompleted: false, order: 2 },
+      ],
+      createdAt: subDays(today, 14).toISOString(),
+    },
+  ];
+  goals.forEach(({ id, ...data }) => put("goals", id, data));
+
+  // A week of focus sessions, linked to the deep work blocks
+  const deepWork = tasks.find((task) => task.title.startsWith("Deep Work"));
+  for (let i = 6; i >= 1; i--) {
+    const day = subDays(today, i);
+    [9, 14].slice(0, i % 3 === 0 ? 1 : 2).forEach((hour, index) => {
+      const start = new Date(day);
+      start.setHours(hour, 30, 0, 0);
+      const duration = index === 0 ? 50 : 25;
+      const focusPercentage = 100 - ((i * 7 + index * 11) % 20);
+      put("focusSessions", `demo-session-${i}-${index}`, {
+        userId: DEMO_UID,
+        startTime: Timestamp.fromDate(start),
+        endTime: Timestamp.fromMillis(start.getTime() + duration * 60 * 1000),
+        duration,
+        sessionType: "focus",
+        preset: index === 0 ? "deepWork" : "classic",
+        presetName: index === 0 ? "Deep Work" : "Classic Pomodoro",
+        linkedTaskId: deepWork?.id ?? null,
+        linkedTaskTitle: deepWork?.title ?? null,
+        completed: true,
+        abandoned: false,
+        notes: null,
+        distractions: {
+          totalBlurTime: (100 - focusPercentage) * 6,
+          blurCount: Math.ceil((100 - focusPercentage) / 5),
+          focusPercentage,
+          isPerfectFocus: focusPercentage === 100,
+        },
+        createdAt: Timestamp.fromDate(start),
+        updatedAt: Timestamp.fromDate(start),
+      });
+    });
+  }
+
+  put("user", DEMO_UID, {
+    email: DEMO_USER.email,
+    displayName: DEMO_USER.displayName,
+    username: "@demo",
+    score: 0,
+    vacations: [],
+  });
+}
@@ -8,7 +8,7 @@
 // 1. IMPORT FIREBASE SDKs
 // ----------------------------------------------------------------------------
 import { initializeApp, getApps, FirebaseApp } from "firebase/app";
-import { getAuth } from "firebase/auth";
+import { getAuth, initializeAuth, inMemoryPersistence, Auth } from "firebase/auth";
 import { initializeFirestore, persistentLocalCache, persistentMultipleTabManager } from "firebase/firestore";
 import { getMessaging, isSupported } from "firebase/messaging";
 
@@ -35,6 +35,16 @@ const app = getApps().length === 0 ? initializeApp(firebaseConfig) : getApps()[0
 
 export const auth = getAuth(app);
 
+// A second, in-memory auth instance for signing into another account (to prove
+// the user owns it before an account merge) without signing out of this one
+let secondaryAuth: Auth | null = null;
+export const getSecondaryAuth = (): Auth => {
+  if (!secondaryAuth) {
+    secondaryAuth = initializeAuth(initializeApp(firebaseConfig, "secondary"), { persistence: inMemoryPersistence });
+  }
+  return secondaryAuth;
+};
+
 // Initialize Firestore with offline persistence enabled
 export const db = initializeFirestore(app, {
   localCache: persistentLocalCache({
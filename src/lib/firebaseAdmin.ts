@@ -0,0 +1,59 @@
+// ============================================================================
+// FIREBASE ADMIN (SERVER-ONLY)
+// ============================================================================
+// Lazily initializes the firebase-admin SDK for API routes that need to verify
+// ID tokens or act with elevated privileges. Never import this from client code.
+//
+// Credentials are read from FIREBASE_SERVICE_ACCOUNT (the service account JSON)
+// and fall back to Application Default Credentials. When FIREBASE_AUTH_EMULATOR_HOST
+// is set, firebase-admin talks to the local Auth emulator automatically.
+
+import { getApps, initializeApp, cert, applicationDefault, type App } from "firebase-admin/app";
+import { getAuth, type Auth } from "firebase-admin/auth";
+import { getFirestore, type Firestore } from "firebase-admin/firestore";
+
+const ADMIN_APP_NAME = "rt-admin";
+
+function getServiceAccount(): Record<string, string> | null {
+    const raw = process.env.FIREBASE_SERVICE_ACCOUNT;
+    if (!raw) return null;
+
+    try {
+        return JSON.parse(raw);
+    } catch {
+        throw new Error("FIREBASE_SERVICE_ACCOUNT is not valid JSON");
+    }
+}
+
+/**
+ * Get (or create) the shared firebase-admin app instance
+ */
+export function getAdminApp(): App {
+    const existing = getApps().find(app => app.name === ADMIN_APP_NAME);
+    if (existing) return existing;
+
+    const serviceAccount = getServiceAccount();
+    const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+
+    return initializeApp(
+        {
+            credential: serviceAccount ? cert(serviceAccount) : applicationDefault(),
+            projectId,
+        },
+        ADMIN_APP_NAME
+    );
+}
+
+/**
+ * Get the firebase-admin Auth service
+ */
+export function getAdminAuth(): Auth {
+    return getAuth(getAdminApp());
+}
+
+/**
+ * Get the firebase-admin Firestore service (bypasses security rules)
+ */
+export function getAdminDb(): Firestore {
+    return getFirestore(getAdminApp());
+}
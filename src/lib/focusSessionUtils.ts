@@ -2,7 +2,15 @@
 // FOCUS SESSION FIRESTORE UTILITIES
 // ============================================================================
 // Handles all Firestore operations for focus sessions including CRUD,
-// analytics, and real-time stats calculations.
+// analytics, and real-time stats calculations, plus the user's own presets
+// (users/{uid}/focusPresets), which may be multi-step interval programs, and
+// the live session document (users/{uid}/focusState/live) that keeps the one
+// running timer in sync across devices. Saved ambient sound mixes
+// (users/{uid}/ambientPresets) live here too.
+//
+// Demo builds (lib/demoMode) keep sessions, presets and achievements in the
+// in-memory demo store instead; each function below that touches Firestore
+// branches on IS_DEMO_MODE.
 
 import {
     collection,
@@ -16,12 +24,22 @@ import {
     getDocs,
     getDoc,
     setDoc,
+    onSnapshot,
+    runTransaction,
+    Transaction,
     Timestamp,
     serverTimestamp,
     limit,
+    startAfter,
+    QueryConstraint,
+    QueryDocumentSnapshot,
+    DocumentData,
 } from "firebase/firestore";
 import { db } from "./firebase";
 import { withRetry, handleFirestoreError, showSuccess } from "./firestoreUtils";
+import { AmbientMix, AmbientMixPreset, AMBIENT_PRESET_LIMITS, parseAmbientMix } from "./ambientSound";
+import { demoStore, IS_DEMO_MODE } from "./demoMode";
+import { reportWebhookEvent } from "./apiClient";
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -34,7 +52,10 @@ export interface FocusSession {
     endTime?: Timestamp;
     duration: number; // minutes
     sessionType: "focus" | "shortBreak" | "longBreak";
-    preset: "classic" | "deepWork" | "sprint" | "custom";
+    preset: BuiltInPresetId;
+    customPresetId?: string; // set when preset is "custom"
+    presetName?: string;
+    programStep?: FocusProgramStepRecord;
     linkedTaskId?: string;
     linkedTaskTitle?: string;
     completed: boolean;
@@ -51,15 +72,99 @@ export interface DistractionData {
     blurCount: number;
     focusPercentage: number;
     isPerfectFocus: boolean;
+    blockedAttempts?: number; // strict focus interceptions
+    blockedTargets?: string[]; // routes/sites the user tried to open
+}
+
+export type BuiltInPresetId = "classic" | "deepWork" | "sprint" | "custom";
+
+export type FocusSessionType = "focus" | "shortBreak" | "longBreak";
+
+export interface FocusProgramStep {
+    type: FocusSessionType;
+    minutes: number;
+    label?: string;
 }
 
 export interface FocusPreset {
-    id: "classic" | "deepWork" | "sprint" | "custom";
+    id: string; // a built-in id, or the focusPresets document id for custom presets
     name: string;
     focusMinutes: number;
     shortBreakMinutes: number;
     longBreakMinutes: number;
     description: string;
+    isCustom?: boolean;
+    steps?: FocusProgramStep[]; // set for programs, which run these in order
+    rounds?: number; // how many times a program's steps repeat
+}
+
+/** One step of a program after rounds are expanded */
+export interface FocusProgramRunStep extends FocusProgramStep {
+    label: string;
+    index: number;
+    round: number;
+}
+
+/** Which program step a focus session belonged to */
+export interface FocusProgramStepRecord {
+    index: number; // 0-based position in the expanded program
+    total: number;
+    round: number;
+    label: string;
+}
+
+/**
+ * The user's running timer as every device sees it. The device that started
+ * it owns it and keeps it current; other devices may pause, resume, skip or
+ * stop it through controlLiveFocusSession.
+ */
+export interface LiveFocusSession {
+    sessionId: string | null; // focusSessions doc; null for breaks and the stopwatch
+    deviceId: string; // the owning device
+    deviceLabel: string;
+    sessionType: FocusSessionType;
+    timerMode: "timer" | "stopwatch";
+    isPaused: boolean;
+    isOvertime: boolean;
+    targetEndTime: number; // epoch ms
+    timerStartTime: number; // epoch ms
+    remainingSeconds: number | null; // only while a countdown is paused
+    totalSeconds: number;
+    presetName: string;
+    programStep: FocusProgramStepRecord | null;
+    linkedTaskTitle: string | null;
+    skipRequestedAt: number | null; // set by another device; the owner moves on
+    updatedBy: string; // device that wrote last
+    savedAt: number; // epoch ms
+}
+
+export type LiveFocusSessionAction = "pause" | "resume" | "skip" | "stop";
+
+/**
+ * Thrown when starting a timer while another device already runs one
+ */
+export class ActiveFocusSessionError extends Error {
+    constructor(public active: LiveFocusSession) {
+        super(`A ${active.sessionType === "focus" ? "focus session" : "break"} is already running on your ${active.deviceLabel}`);
+        this.name = "ActiveFocusSessionError";
+    }
+}
+
+export type FocusSessionStatus = "completed" | "abandoned" | "incomplete";
+
+/** Filters for browsing session history; every field is optional */
+export interface FocusSessionFilters {
+    from?: Date; // inclusive
+    to?: Date; // inclusive
+    presetId?: string; // a built-in preset id or a custom preset's document id
+    linkedTaskId?: string;
+    status?: FocusSessionStatus;
+}
+
+export interface FocusSessionPage {
+    sessions: FocusSession[];
+    cursor: QueryDocumentSnapshot | null; // pass back to load the next page
+    hasMore: boolean;
 }
 
 export interface DailyFocusStats {
@@ -113,6 +218,15 @@ export interface FocusStreak {
 // FOCUS PRESETS
 // ============================================================================
 
+export const FOCUS_PRESET_LIMITS = {
+    maxPresets: 20,
+    maxNameLength: 40,
+    maxDescriptionLength: 120,
+    maxSteps: 12,
+    maxRounds: 10,
+    maxStepMinutes: 240,
+};
+
 export const FOCUS_PRESETS: FocusPreset[] = [
     {
         id: "classic",
@@ -138,32 +252,162 @@ export const FOCUS_PRESETS: FocusPreset[] = [
         longBreakMinutes: 10,
         description: "Rapid iteration for quick wins",
     },
+];
+
+// Starting points offered when creating a program
+export const FOCUS_PROGRAM_TEMPLATES: Array<Omit<FocusPreset, "id" | "focusMinutes" | "shortBreakMinutes" | "longBreakMinutes">> = [
     {
-        id: "custom",
-        name: "Custom",
-        focusMinutes: 25,
-        shortBreakMinutes: 5,
-        longBreakMinutes: 15,
-        description: "Define your own rhythm",
+        name: "52/17",
+        description: "52 minutes on, 17 off",
+        steps: [
+            { type: "focus", minutes: 52 },
+            { type: "shortBreak", minutes: 17 },
+        ],
+        rounds: 3,
+    },
+    {
+        name: "Ultradian",
+        description: "90-minute cycles with a proper rest",
+        steps: [
+            { type: "focus", minutes: 90 },
+            { type: "longBreak", minutes: 20 },
+        ],
+        rounds: 2,
+    },
+    {
+        name: "Warm-up + Deep Work",
+        description: "A short sprint to get going, then a long block",
+        steps: [
+            { type: "focus", minutes: 15, label: "Warm-up" },
+            { type: "shortBreak", minutes: 3 },
+            { type: "focus", minutes: 50, label: "Deep work" },
+            { type: "longBreak", minutes: 15 },
+        ],
+        rounds: 1,
     },
 ];
 
+const STEP_LABELS: Record<FocusSessionType, string> = {
+    focus: "Focus",
+    shortBreak: "Short break",
+    longBreak: "Long break",
+};
+
+/**
+ * Whether a preset runs as a multi-step program
+ */
+export function isFocusProgram(preset: FocusPreset): boolean {
+    return Array.isArray(preset.steps) && preset.steps.length > 0;
+}
+
+/**
+ * Expand a program's steps across its rounds. Empty for plain presets.
+ */
+export function getProgramRunSteps(preset: FocusPreset): FocusProgramRunStep[] {
+    if (!isFocusProgram(preset)) return [];
+
+    const rounds = Math.max(1, preset.rounds || 1);
+    const runSteps: FocusProgramRunStep[] = [];
+    for (let round = 1; round <= rounds; round++) {
+        for (const step of preset.steps!) {
+            runSteps.push({
+                ...step,
+                label: step.label || STEP_LABELS[step.type],
+                index: runSteps.length,
+                round,
+            });
+        }
+    }
+    return runSteps;
+}
+
+/**
+ * Check a preset before saving. Returns the cleaned-up preset or an error message.
+ */
+export function validateFocusPreset(input: FocusPreset): { preset: FocusPreset } | { error: string } {
+    const name = input.name.trim();
+    if (!name) return { error: "Give the preset a name" };
+    if (name.length > FOCUS_PRESET_LIMITS.maxNameLength) {
+        return { error: `Names can be up to ${FOCUS_PRESET_LIMITS.maxNameLength} characters` };
+    }
+
+    const isValidMinutes = (minutes: number) =>
+        Number.isInteger(minutes) && minutes >= 1 && minutes <= FOCUS_PRESET_LIMITS.maxStepMinutes;
+
+    const preset: FocusPreset = {
+        id: input.id,
+        name,
+        description: input.description.trim().slice(0, FOCUS_PRESET_LIMITS.maxDescriptionLength),
+        focusMinutes: input.focusMinutes,
+        shortBreakMinutes: input.shortBreakMinutes,
+        longBreakMinutes: input.longBreakMinutes,
+        isCustom: true,
+    };
+
+    if (isFocusProgram(input)) {
+        const steps = input.steps!;
+        if (steps.length > FOCUS_PRESET_LIMITS.maxSteps) {
+            return { error: `Programs can have up to ${FOCUS_PRESET_LIMITS.maxSteps} steps` };
+        }
+        if (!steps.some(step => step.type === "focus")) {
+            return { error: "A program needs at least one focus step" };
+        }
+        if (!steps.every(step => isValidMinutes(step.minutes))) {
+            return { error: `Each step must be 1-${FOCUS_PRESET_LIMITS.maxStepMinutes} whole minutes` };
+        }
+
+        const rounds = input.rounds || 1;
+        if (!Number.isInteger(rounds) || rounds < 1 || rounds > FOCUS_PRESET_LIMITS.maxRounds) {
+            return { error: `Rounds must be between 1 and ${FOCUS_PRESET_LIMITS.maxRounds}` };
+        }
+
+        preset.steps = steps.map(step => {
+            const label = step.label?.trim();
+            return label ? { type: step.type, minutes: step.minutes, label } : { type: step.type, minutes: step.minutes };
+        });
+        preset.rounds = rounds;
+
+        // Keep the flat durations meaningful for anything that only reads those
+        const firstOf = (type: FocusSessionType) => preset.steps!.find(step => step.type === type)?.minutes;
+        preset.focusMinutes = firstOf("focus")!;
+        preset.shortBreakMinutes = firstOf("shortBreak") ?? 5;
+        preset.longBreakMinutes = firstOf("longBreak") ?? 15;
+    } else if (![preset.focusMinutes, preset.shortBreakMinutes, preset.longBreakMinutes].every(isValidMinutes)) {
+        return { error: `Durations must be 1-${FOCUS_PRESET_LIMITS.maxStepMinutes} whole minutes` };
+    }
+
+    return { preset };
+}
+
 // ============================================================================
 // SESSION CRUD OPERATIONS
 // ============================================================================
 
+/**
+ * The demo store's sessions that match, newest first
+ */
+function getDemoSessions(matches: (session: FocusSession) => boolean): FocusSession[] {
+    return (demoStore.list("focusSessions") as unknown as FocusSession[])
+        .filter(matches)
+        .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+}
+
 /**
  * Creates a new focus session in Firestore
  */
 export async function createFocusSession(
     userId: string,
     data: {
-        sessionType: "focus" | "shortBreak" | "longBreak";
+        sessionType: FocusSessionType;
         duration: number;
-        preset: "classic" | "deepWork" | "sprint" | "custom";
+        preset: BuiltInPresetId;
+        customPresetId?: string;
+        presetName?: string;
+        programStep?: FocusProgramStepRecord;
         linkedTaskId?: string;
         linkedTaskTitle?: string;
-    }
+    },
+    live?: LiveFocusSession
 ): Promise<string> {
     try {
         const sessionData = {
@@ -172,6 +416,9 @@ export async function createFocusSession(
             duration: data.duration,
             sessionType: data.sessionType,
             preset: data.preset,
+            customPresetId: data.customPresetId || null,
+            presetName: data.presetName || null,
+            programStep: data.programStep || null,
             linkedTaskId: data.linkedTaskId || null,
             linkedTaskTitle: data.linkedTaskTitle || null,
             completed: false,
@@ -183,13 +430,35 @@ export async function createFocusSession(
             updatedAt: serverTimestamp(),
         };
 
-        const docRef = await withRetry(
-            () => addDoc(collection(db, `users/${userId}/focusSessions`), sessionData),
+        if (IS_DEMO_MODE) {
+            const id = crypto.randomUUID();
+            const now = Timestamp.now();
+            demoStore.set("focusSessions", id, { ...sessionData, startTime: now, createdAt: now, updatedAt: now });
+            return id;
+        }
+
+        if (!live) {
+            const docRef = await withRetry(
+                () => addDoc(collection(db, `users/${userId}/focusSessions`), sessionData),
+                { operationName: "Create focus session", silent: true }
+            );
+            return docRef.id;
+        }
+
+        // Claim the live session and create the session together, so two
+        // devices starting at once can't both succeed
+        const sessionRef = doc(collection(db, `users/${userId}/focusSessions`));
+        await withRetry(
+            () => runTransaction(db, async (transaction) => {
+                await claimLiveSession(transaction, userId, { ...live, sessionId: sessionRef.id });
+                transaction.set(sessionRef, sessionData);
+            }),
             { operationName: "Create focus session", silent: true }
         );
 
-        return docRef.id;
+        return sessionRef.id;
     } catch (error) {
+        if (error instanceof ActiveFocusSessionError) throw error;
         handleFirestoreError(error, "Failed to start focus session");
         throw error;
     }
@@ -211,6 +480,11 @@ export async function updateFocusSession(
     }>
 ): Promise<void> {
     try {
+        if (IS_DEMO_MODE) {
+            demoStore.update("focusSessions", sessionId, { ...updates, updatedAt: Timestamp.now() });
+            return;
+        }
+
         const sessionRef = doc(db, `users/${userId}/focusSessions`, sessionId);
 
         await withRetry(
@@ -250,6 +524,7 @@ export async function completeFocusSession(
 
         if (data.completed) {
             showSuccess("Focus session complete! 🎉");
+            reportWebhookEvent("focus.session_completed", { sessionId });
         }
     } catch (error) {
         handleFirestoreError(error, "Failed to complete session");
@@ -264,6 +539,10 @@ export async function getIncompleteSession(
     userId: string
 ): Promise<FocusSession | null> {
     try {
+        if (IS_DEMO_MODE) {
+            return getDemoSessions((s) => !s.completed && !s.abandoned)[0] ?? null;
+        }
+
         const sessionsRef = collection(db, `users/${userId}/focusSessions`);
         const q = query(
             sessionsRef,
@@ -273,13 +552,23 @@ export async function getIncompleteSession(
             limit(1)
         );
 
-        const snapshot = await getDocs(q);
+        const [snapshot, liveSnapshot] = await Promise.all([
+            getDocs(q),
+            getDoc(liveSessionRef(userId)),
+        ]);
 
         if (snapshot.empty) {
             return null;
         }
 
+        // A session that's still running (here or on another device) isn't
+        // abandoned; it's followed through the live session instead
         const doc = snapshot.docs[0];
+        const live = liveSnapshot.exists() ? (liveSnapshot.data() as LiveFocusSession) : null;
+        if (isLiveSessionRunning(live) && live?.sessionId === doc.id) {
+            return null;
+        }
+
         return {
             id: doc.id,
             ...doc.data(),
@@ -290,6 +579,539 @@ export async function getIncompleteSession(
     }
 }
 
+// ============================================================================
+// LIVE SESSION
+// ============================================================================
+
+// Demo builds only ever run on one device, so they have no live session to
+// share and these functions do nothing there.
+
+// After this long past its end without an update, a live session was left by
+// a closed tab or a device that went offline, and a new start may replace it
+const LIVE_SESSION_GRACE_MS = 5 * 60 * 1000;
+const LIVE_SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+function liveSessionRef(userId: string) {
+    return doc(db, `users/${userId}/focusState`, "live");
+}
+
+/**
+ * Whether a live session is still running, rather than left over
+ */
+export function isLiveSessionRunning(live: LiveFocusSession | null, now: number = Date.now()): boolean {
+    if (!live) return false;
+    if (now - live.savedAt > LIVE_SESSION_MAX_AGE_MS) return false;
+    if (live.isPaused || live.isOvertime || live.timerMode === "stopwatch") return true;
+    return live.targetEndTime + LIVE_SESSION_GRACE_MS > now;
+}
+
+async function claimLiveSession(transaction: Transaction, userId: string, live: LiveFocusSession): Promise<void> {
+    const ref = liveSessionRef(userId);
+    const snapshot = await transaction.get(ref);
+    const existing = snapshot.exists() ? (snapshot.data() as LiveFocusSession) : null;
+
+    if (existing && existing.deviceId !== live.deviceId && isLiveSessionRunning(existing)) {
+        throw new ActiveFocusSessionError(existing);
+    }
+    transaction.set(ref, live);
+}
+
+/**
+ * Claim the live session for a timer that has no focus session document
+ * (breaks and the stopwatch). Focus sessions claim it in createFocusSession.
+ */
+export async function startLiveFocusSession(userId: string, live: LiveFocusSession): Promise<void> {
+    if (IS_DEMO_MODE) return;
+    await withRetry(
+        () => runTransaction(db, (transaction) => claimLiveSession(transaction, userId, live)),
+        { operationName: "Start live session", silent: true }
+    );
+}
+
+/**
+ * Publish the owning device's latest timer state
+ */
+export async function updateLiveFocusSession(
+    userId: string,
+    updates: Partial<LiveFocusSession>
+): Promise<void> {
+    if (IS_DEMO_MODE) return;
+    await withRetry(
+        () => setDoc(liveSessionRef(userId), updates, { merge: true }),
+        { operationName: "Update live session", silent: true }
+    );
+}
+
+/**
+ * Remove the live session once its timer stops. Only the run identified by
+ * `owner` is removed, so a late cleanup (e.g. from a second tab) can't end
+ * the next step of a program that has already started.
+ */
+export async function endLiveFocusSession(
+    userId: string,
+    owner: { deviceId: string; timerStartTime: number }
+): Promise<void> {
+    if (IS_DEMO_MODE) return;
+    const ref = liveSessionRef(userId);
+    await withRetry(
+        () => runTransaction(db, async (transaction) => {
+            const snapshot = await transaction.get(ref);
+            if (!snapshot.exists()) return;
+
+            const live = snapshot.data() as LiveFocusSession;
+            if (live.deviceId !== owner.deviceId || live.timerStartTime !== owner.timerStartTime) return;
+            transaction.delete(ref);
+        }),
+        { operationName: "End live session", silent: true }
+    );
+}
+
+/**
+ * Pause, resume, skip or stop the live session from any device. Pausing and
+ * resuming rewrite the timer directly; skips are carried out by the owning
+ * device, and a stop abandons the session and removes the live document.
+ */
+export async function controlLiveFocusSession(
+    userId: string,
+    deviceId: string,
+    action: LiveFocusSessionAction
+): Promise<void> {
+    if (IS_DEMO_MODE) return;
+    const ref = liveSessionRef(userId);
+
+    try {
+        await withRetry(
+            () => runTransaction(db, async (transaction) => {
+                const snapshot = await transaction.get(ref);
+                if (!snapshot.exists()) return;
+
+                const live = snapshot.data() as LiveFocusSession;
+                const now = Date.now();
+
+                if (action === "stop") {
+                    if (live.sessionId && !live.isOvertime) {
+                        transaction.update(doc(db, `users/${userId}/focusSessions`, live.sessionId), {
+                            abandoned: true,
+                            completed: false,
+                            updatedAt: serverTimestamp(),
+                        });
+                    }
+                    transaction.delete(ref);
+                    return;
+                }
+
+                let changes: Partial<LiveFocusSession> = {};
+                if (action === "skip") {
+                    changes = { skipRequestedAt: now };
+                } else if (action === "pause" && !live.isPaused && !live.isOvertime) {
+                    changes = {
+                        isPaused: true,
+                        remainingSeconds: live.timerMode === "timer"
+                            ? Math.max(0, Math.ceil((live.targetEndTime - now) / 1000))
+                            : null,
+                    };
+                } else if (action === "resume" && live.isPaused) {
+                    changes = {
+                        isPaused: false,
+                        remainingSeconds: null,
+                        ...(live.remainingSeconds !== null ? { targetEndTime: now + live.remainingSeconds * 1000 } : {}),
+                    };
+                } else {
+                    return;
+                }
+
+                transaction.update(ref, { ...changes, updatedBy: deviceId, savedAt: now });
+            }),
+            { operationName: "Control live session", silent: true }
+        );
+    } catch (error) {
+        handleFirestoreError(error, "Couldn't reach the running session");
+        throw error;
+    }
+}
+
+/**
+ * Subscribe to the user's live session (null when no timer is running)
+ */
+export function subscribeToLiveFocusSession(
+    userId: string,
+    onChange: (live: LiveFocusSession | null) => void
+): () => void {
+    if (IS_DEMO_MODE) return () => { };
+    return onSnapshot(
+        liveSessionRef(userId),
+        (snapshot) => onChange(snapshot.exists() ? (snapshot.data() as LiveFocusSession) : null),
+        (error) => console.error("Failed to subscribe to live focus session:", error)
+    );
+}
+
+// ============================================================================
+// CUSTOM PRESETS
+// ============================================================================
+
+/**
+ * Listen to the user's own presets, sorted by name
+ */
+export function subscribeToFocusPresets(
+    userId: string,
+    onChange: (presets: FocusPreset[]) => void
+): () => void {
+    const toPreset = (id: string, data: DocumentData): FocusPreset => ({
+        id,
+        name: data.name,
+        description: data.description || "",
+        focusMinutes: data.focusMinutes,
+        shortBreakMinutes: data.shortBreakMinutes,
+        longBreakMinutes: data.longBreakMinutes,
+        steps: data.steps || undefined,
+        rounds: data.rounds || undefined,
+        isCustom: true,
+    });
+
+    if (IS_DEMO_MODE) {
+        return demoStore.subscribe("focusPresets", (docs) => {
+            onChange(docs.map((d) => toPreset(d.id, d)).sort((a, b) => a.name.localeCompare(b.name)));
+        });
+    }
+
+    return onSnapshot(
+        collection(db, `users/${userId}/focusPresets`),
+        (snapshot) => {
+            const presets = snapshot.docs.map((presetDoc) => toPreset(presetDoc.id, presetDoc.data()));
+            onChange(presets.sort((a, b) => a.name.localeCompare(b.name)));
+        },
+        (error) => console.error("Failed to load focus presets:", error)
+    );
+}
+
+/**
+ * Create (empty id) or update one of the user's presets. Returns the saved preset.
+ */
+export async function saveFocusPreset(userId: string, input: FocusPreset): Promise<FocusPreset> {
+    const result = validateFocusPreset(input);
+    if ("error" in result) {
+        throw new Error(result.error);
+    }
+
+    const { id, name, description, focusMinutes, shortBreakMinutes, longBreakMinutes, steps, rounds } = result.preset;
+    const data = {
+        name,
+        description,
+        focusMinutes,
+        shortBreakMinutes,
+        longBreakMinutes,
+        steps: steps || null,
+        rounds: rounds || null,
+        updatedAt: serverTimestamp(),
+    };
+
+    try {
+        if (IS_DEMO_MODE) {
+            const presetId = id || crypto.randomUUID();
+            demoStore.update("focusPresets", presetId, { ...data, updatedAt: Timestamp.now() });
+            return { ...result.preset, id: presetId };
+        }
+
+        if (id) {
+            await withRetry(
+                () => setDoc(doc(db, `users/${userId}/focusPresets`, id), data, { merge: true }),
+                { operationName: "Update focus preset", silent: true }
+            );
+            return result.preset;
+        }
+
+        const docRef = await withRetry(
+            () => addDoc(collection(db, `users/${userId}/focusPresets`), { ...data, createdAt: serverTimestamp() }),
+            { operationName: "Create focus preset", silent: true }
+        );
+        return { ...result.preset, id: docRef.id };
+    } catch (error) {
+        handleFirestoreError(error, "Failed to save preset");
+        throw error;
+    }
+}
+
+export async function deleteFocusPreset(userId: string, presetId: string): Promise<void> {
+    try {
+        if (IS_DEMO_MODE) {
+            demoStore.delete("focusPresets", presetId);
+            return;
+        }
+
+        await withRetry(
+            () => deleteDoc(doc(db, `users/${userId}/focusPresets`, presetId)),
+            { operationName: "Delete focus preset", silent: true }
+        );
+    } catch (error) {
+        handleFirestoreError(error, "Failed to delete preset");
+        throw error;
+    }
+}
+
+// ============================================================================
+// AMBIENT PRESETS
+// ============================================================================
+
+/**
+ * Subscribe to the user's saved ambient mixes (users/{uid}/ambientPresets)
+ */
+export function subscribeToAmbientPresets(
+    userId: string,
+    onChange: (presets: AmbientMixPreset[]) => void
+): () => void {
+    const toPresets = (docs: Array<{ id: string; data: DocumentData }>): AmbientMixPreset[] =>
+        docs.flatMap(({ id, data }) => {
+            const mix = parseAmbientMix(data.mix);
+            return mix ? [{ id, name: data.name, mix, isCustom: true }] : [];
+        }).sort((a, b) => a.name.localeCompare(b.name));
+
+    if (IS_DEMO_MODE) {
+        return demoStore.subscribe("ambientPresets", (docs) => {
+            onChange(toPresets(docs.map((d) => ({ id: d.id, data: d }))));
+        });
+    }
+
+    return onSnapshot(
+        collection(db, `users/${userId}/ambientPresets`),
+        (snapshot) => {
+            onChange(toPresets(snapshot.docs.map((presetDoc) => ({ id: presetDoc.id, data: presetDoc.data() }))));
+        },
+        (error) => console.error("Failed to load ambient presets:", error)
+    );
+}
+
+export async function saveAmbientPreset(userId: string, name: string, mix: AmbientMix): Promise<AmbientMixPreset> {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error("Give the mix a name");
+    if (trimmed.length > AMBIENT_PRESET_LIMITS.maxNameLength) {
+        throw new Error(`Names can be up to ${AMBIENT_PRESET_LIMITS.maxNameLength} characters`);
+    }
+
+    try {
+        if (IS_DEMO_MODE) {
+            const id = crypto.randomUUID();
+            demoStore.set("ambientPresets", id, { name: trimmed, mix, createdAt: Timestamp.now() });
+            return { id, name: trimmed, mix, isCustom: true };
+        }
+
+        const docRef = await withRetry(
+            () => addDoc(collection(db, `users/${userId}/ambientPresets`), {
+                name: trimmed,
+                mix,
+                createdAt: serverTimestamp(),
+            }),
+            { operationName: "Save ambient preset", silent: true }
+        );
+        return { id: docRef.id, name: trimmed, mix, isCustom: true };
+    } catch (error) {
+        handleFirestoreError(error, "Failed to save mix");
+        throw error;
+    }
+}
+
+export async function deleteAmbientPreset(userId: string, presetId: string): Promise<void> {
+    try {
+        if (IS_DEMO_MODE) {
+            demoStore.delete("ambientPresets", presetId);
+            return;
+        }
+
+        await withRetry(
+            () => deleteDoc(doc(db, `users/${userId}/ambientPresets`, presetId)),
+            { operationName: "Delete ambient preset", silent: true }
+        );
+    } catch (error) {
+        handleFirestoreError(error, "Failed to delete mix");
+        throw error;
+    }
+}
+
+// ============================================================================
+// SESSION HISTORY
+// ============================================================================
+
+export const FOCUS_HISTORY_PAGE_SIZE = 20;
+
+export const FOCUS_SESSION_LIMITS = {
+    maxDurationMinutes: 1440, // matches isValidFocusSession in firestore.rules
+    maxNotesLength: 2000,
+};
+
+const STATUS_FILTERS: Record<FocusSessionStatus, { completed: boolean; abandoned: boolean }> = {
+    completed: { completed: true, abandoned: false },
+    abandoned: { completed: false, abandoned: true },
+    incomplete: { completed: false, abandoned: false },
+};
+
+function historyConstraints(filters: FocusSessionFilters): QueryConstraint[] {
+    const constraints: QueryConstraint[] = [];
+
+    if (filters.presetId) {
+        const isBuiltIn = FOCUS_PRESETS.some((preset) => preset.id === filters.presetId);
+        constraints.push(where(isBuiltIn ? "preset" : "customPresetId", "==", filters.presetId));
+    }
+    if (filters.linkedTaskId) {
+        constraints.push(where("linkedTaskId", "==", filters.linkedTaskId));
+    }
+    if (filters.status) {
+        const { completed, abandoned } = STATUS_FILTERS[filters.status];
+        constraints.push(where("completed", "==", completed), where("abandoned", "==", abandoned));
+    }
+    if (filters.from) {
+        constraints.push(where("createdAt", ">=", Timestamp.fromDate(filters.from)));
+    }
+    if (filters.to) {
+        constraints.push(where("createdAt", "<=", Timestamp.fromDate(filters.to)));
+    }
+
+    return constraints;
+}
+
+function matchesHistoryFilters(session: FocusSession, filters: FocusSessionFilters): boolean {
+    const createdAt = session.createdAt.toMillis();
+    if (filters.presetId && session.preset !== filters.presetId && session.customPresetId !== filters.presetId) return false;
+    if (filters.linkedTaskId && session.linkedTaskId !== filters.linkedTaskId) return false;
+    if (filters.status && getSessionStatus(session) !== filters.status) return false;
+    if (filters.from && createdAt < filters.from.getTime()) return false;
+    return !filters.to || createdAt <= filters.to.getTime();
+}
+
+function getSessionStatus(session: FocusSession): FocusSessionStatus {
+    return session.completed ? "completed" : session.abandoned ? "abandoned" : "incomplete";
+}
+
+/**
+ * One page of the user's sessions, newest first. Pass the returned cursor
+ * back in to load the next page.
+ */
+export async function getFocusSessionHistory(
+    userId: string,
+    filters: FocusSessionFilters = {},
+    cursor: QueryDocumentSnapshot | null = null,
+    pageSize: number = FOCUS_HISTORY_PAGE_SIZE
+): Promise<FocusSessionPage> {
+    if (IS_DEMO_MODE) {
+        // The demo has few enough sessions to return in one page
+        return { sessions: getDemoSessions((s) => matchesHistoryFilters(s, filters)), cursor: null, hasMore: false };
+    }
+
+    try {
+        const constraints = [
+            ...historyConstraints(filters),
+            orderBy("createdAt", "desc"),
+            ...(cursor ? [startAfter(cursor)] : []),
+            limit(pageSize + 1), // One extra to tell whether there's another page
+        ];
+
+        const snapshot = await withRetry(
+            () => getDocs(query(collection(db, `users/${userId}/focusSessions`), ...constraints)),
+            { operationName: "Load focus history", silent: true }
+        );
+
+        const docs = snapshot.docs.slice(0, pageSize);
+        return {
+            sessions: docs.map((sessionDoc) => ({ id: sessionDoc.id, ...sessionDoc.data() } as FocusSession)),
+            cursor: docs.length > 0 ? docs[docs.length - 1] : cursor,
+            hasMore: snapshot.docs.length > pageSize,
+        };
+    } catch (error) {
+        handleFirestoreError(error, "Failed to load focus history");
+        throw error;
+    }
+}
+
+/**
+ * Every session matching the filters (for export)
+ */
+export async function getAllFocusSessions(
+    userId: string,
+    filters: FocusSessionFilters = {}
+): Promise<FocusSession[]> {
+    const sessions: FocusSession[] = [];
+    let cursor: QueryDocumentSnapshot | null = null;
+    let hasMore = true;
+
+    while (hasMore) {
+        const page: FocusSessionPage = await getFocusSessionHistory(userId, filters, cursor, 500);
+        sessions.push(...page.sessions);
+        cursor = page.cursor;
+        hasMore = page.hasMore;
+    }
+
+    return sessions;
+}
+
+/**
+ * Correct a recorded session's duration (e.g. a stopwatch left running) and
+ * notes. A finished session's end time moves with its duration.
+ */
+export async function editFocusSession(
+    userId: string,
+    session: FocusSession,
+    changes: { duration: number; notes: string }
+): Promise<void> {
+    const { maxDurationMinutes, maxNotesLength } = FOCUS_SESSION_LIMITS;
+    if (!Number.isInteger(changes.duration) || changes.duration < 1 || changes.duration > maxDurationMinutes) {
+        throw new Error(`Duration must be between 1 and ${maxDurationMinutes} minutes`);
+    }
+    if (changes.notes.length > maxNotesLength) {
+        throw new Error(`Notes can be up to ${maxNotesLength} characters`);
+    }
+
+    try {
+        const updates: Record<string, unknown> = {
+            duration: changes.duration,
+            notes: changes.notes.trim() || null,
+            updatedAt: serverTimestamp(),
+        };
+        if (session.endTime && session.startTime) {
+            updates.endTime = Timestamp.fromMillis(session.startTime.toMillis() + changes.duration * 60 * 1000);
+        }
+
+        if (IS_DEMO_MODE) {
+            demoStore.update("focusSessions", session.id, { ...updates, updatedAt: Timestamp.now() });
+            return;
+        }
+
+        await withRetry(
+            () => updateDoc(doc(db, `users/${userId}/focusSessions`, session.id), updates),
+            { operationName: "Edit focus session", silent: true }
+        );
+    } catch (error) {
+        handleFirestoreError(error, "Failed to update session");
+        throw error;
+    }
+}
+
+/**
+ * Delete a recorded session and rebuild the focus streak without it. The
+ * session that's running right now can't be deleted.
+ */
+export async function deleteFocusSession(userId: string, sessionId: string): Promise<void> {
+    if (IS_DEMO_MODE) {
+        demoStore.delete("focusSessions", sessionId);
+        return;
+    }
+
+    const liveSnapshot = await getDoc(liveSessionRef(userId));
+    const live = liveSnapshot.exists() ? (liveSnapshot.data() as LiveFocusSession) : null;
+    if (isLiveSessionRunning(live) && live?.sessionId === sessionId) {
+        throw new Error("This session is still running");
+    }
+
+    try {
+        await withRetry(
+            () => deleteDoc(doc(db, `users/${userId}/focusSessions`, sessionId)),
+            { operationName: "Delete focus session", silent: true }
+        );
+    } catch (error) {
+        handleFirestoreError(error, "Failed to delete session");
+        throw error;
+    }
+
+    await recalculateFocusStreak(userId);
+}
+
 // ============================================================================
 // ANALYTICS & STATS
 // ============================================================================
@@ -315,9 +1137,10 @@ export async function getTodayFocusStats(
             where("createdAt", "<", Timestamp.fromDate(tomorrow))
         );
 
-        const snapshot = await getDocs(q);
-
-        const sessions = snapshot.docs.map((doc) => doc.data() as FocusSession);
+        const sessions = IS_DEMO_MODE
+            ? getDemoSessions((s) => s.sessionType === "focus" && s.completed
+                && s.createdAt.toMillis() >= today.getTime() && s.createdAt.toMillis() < tomorrow.getTime())
+            : (await getDocs(q)).docs.map((doc) => doc.data() as FocusSession);
         const totalMinutes = sessions.reduce((sum, s) => sum + s.duration, 0);
 
         return {
@@ -352,8 +1175,10 @@ export async function getWeeklyFocusStats(
             where("createdAt", "<=", Timestamp.fromDate(endDate))
         );
 
-        const snapshot = await getDocs(q);
-        const sessions = snapshot.docs.map((doc) => doc.data() as FocusSession);
+        const sessions = IS_DEMO_MODE
+            ? getDemoSessions((s) => s.sessionType === "focus"
+                && s.createdAt.toMillis() >= startDate.getTime() && s.createdAt.toMillis() <= endDate.getTime())
+            : (await getDocs(q)).docs.map((doc) => doc.data() as FocusSession);
 
         // Group by day
         const dailyStatsMap = new Map<string, DailyFocusStats>();
@@ -474,8 +1299,9 @@ export async function getEnergyPatterns(
             where("createdAt", ">=", Timestamp.fromDate(startDate))
         );
 
-        const snapshot = await getDocs(q);
-        const sessions = snapshot.docs.map((doc) => doc.data() as FocusSession);
+        const sessions = IS_DEMO_MODE
+            ? getDemoSessions((s) => s.sessionType === "focus" && s.completed && s.createdAt.toMillis() >= startDate.getTime())
+            : (await getDocs(q)).docs.map((doc) => doc.data() as FocusSession);
 
         // Group by hour
         const hourlyData = new Map<number, {
@@ -537,8 +1363,9 @@ export async function getTotalFocusMinutes(userId: string): Promise<number> {
             where("completed", "==", true)
         );
 
-        const snapshot = await getDocs(q);
-        const sessions = snapshot.docs.map((doc) => doc.data() as FocusSession);
+        const sessions = IS_DEMO_MODE
+            ? getDemoSessions((s) => s.sessionType === "focus" && s.completed)
+            : (await getDocs(q)).docs.map((doc) => doc.data() as FocusSession);
 
         return sessions.reduce((sum, s) => sum + s.duration, 0);
     } catch (error) {
@@ -559,6 +1386,11 @@ export async function saveFocusAchievement(
     achievement: Omit<FocusAchievement, "earnedAt">
 ): Promise<void> {
     try {
+        if (IS_DEMO_MODE) {
+            demoStore.set("achievements", achievement.id, { ...achievement, earnedAt: Timestamp.now() });
+            return;
+        }
+
         const achievementData = {
             ...achievement,
             earnedAt: serverTimestamp(),
@@ -579,6 +1411,11 @@ export async function saveFocusAchievement(
  */
 export async function getUserAchievements(userId: string): Promise<FocusAchievement[]> {
     try {
+        if (IS_DEMO_MODE) {
+            return (demoStore.list("achievements") as unknown as FocusAchievement[])
+                .sort((a, b) => b.earnedAt.toMillis() - a.earnedAt.toMillis());
+        }
+
         const achievementsRef = collection(db, `users/${userId}/achievements`);
         const q = query(achievementsRef, orderBy("earnedAt", "desc"));
 
@@ -598,6 +1435,8 @@ export async function hasAchievement(
     achievementId: string
 ): Promise<boolean> {
     try {
+        if (IS_DEMO_MODE) return demoStore.get("achievements", achievementId) !== null;
+
         const achievementsRef = collection(db, `users/${userId}/achievements`);
         const q = query(achievementsRef, where("id", "==", achievementId), limit(1));
 
@@ -714,25 +1553,54 @@ export async function updateFocusStreak(userId: string): Promise<void> {
 }
 
 /**
- * Calculates streak data from sessions (fallback)
+ * Rebuilds the stored focus streak from the user's whole session history,
+ * after a session was deleted
+ */
+export async function recalculateFocusStreak(userId: string): Promise<void> {
+    if (IS_DEMO_MODE) return; // The demo doesn't store a streak
+    try {
+        const stats = await calculateStreakFromSessions(userId, null);
+        await withRetry(
+            () => setDoc(doc(db, `users/${userId}/streaks`, "focusStreak"), {
+                userId,
+                currentStreak: stats.currentStreak,
+                longestStreak: stats.longestStreak,
+                totalFocusDays: stats.totalDays,
+                lastFocusDate: stats.lastDate,
+                updatedAt: serverTimestamp(),
+            }),
+            { operationName: "Recalculate streak", silent: true }
+        );
+    } catch (error) {
+        console.error("Failed to recalculate streak:", error);
+    }
+}
+
+/**
+ * Calculates streak data from sessions (fallback). Looks back 90 days, or
+ * over every session when `lookbackDays` is null.
  */
-async function calculateStreakFromSessions(userId: string): Promise<{
+async function calculateStreakFromSessions(userId: string, lookbackDays: number | null = 90): Promise<{
     currentStreak: number;
     longestStreak: number;
     totalDays: number;
     lastDate: string | null;
 }> {
     try {
-        const endDate = new Date();
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - 90); // Last 90 days
+        const constraints: QueryConstraint[] = [
+            where("sessionType", "==", "focus"),
+            where("completed", "==", true),
+        ];
+        if (lookbackDays !== null) {
+            const startDate = new Date();
+            startDate.setDate(startDate.getDate() - lookbackDays);
+            constraints.push(where("createdAt", ">=", Timestamp.fromDate(startDate)));
+        }
 
         const sessionsRef = collection(db, `users/${userId}/focusSessions`);
         const q = query(
             sessionsRef,
-            where("sessionType", "==", "focus"),
-            where("completed", "==", true),
-            where("createdAt", ">=", Timestamp.fromDate(startDate)),
+            ...constraints,
             orderBy("createdAt", "desc")
         );
 
@@ -0,0 +1,195 @@
+// ============================================================================
+// FOCUS TIMER CLOCK
+// ============================================================================
+// Browser helpers that keep the focus timer accurate in background tabs and
+// consistent when the app is open in several tabs:
+// - A clock that ticks from a dedicated worker (workers/focusTimer.worker),
+//   falling back to a main-thread interval where workers aren't available
+// - A cross-tab claim, so only one tab completes a session when every open
+//   tab's timer reaches zero at the same moment
+// - Timer notifications shown through the service worker, tagged so that
+//   tabs replace each other's notification instead of stacking duplicates
+//
+// The running timer itself is shared between tabs through localStorage
+// (FOCUS_TIMER_STATE_KEY); useFocusTimerLogic writes it and adopts changes
+// other tabs make via the storage event. Between devices it goes through the
+// live session document, which identifies this browser by its device id.
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type FocusTimerWorkerCommand =
+  | { type: "start"; intervalMs: number; wakeAt: number | null }
+  | { type: "stop" };
+
+export type FocusTimerWorkerEvent = { type: "tick"; now: number };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const FOCUS_TIMER_STATE_KEY = "focus_timer_state";
+
+const TICK_INTERVAL_MS = 250;
+const COMPLETION_LOCK = "rt_focus_timer_completion";
+const COMPLETION_CLAIM_KEY = "rt_focus_timer_completed";
+const NOTIFICATION_TAG = "rt-focus-timer";
+const DEVICE_ID_KEY = "rt_device_id";
+
+// ============================================================================
+// CLOCK
+// ============================================================================
+
+/**
+ * Calls `onTick` every quarter second while started, plus once at `wakeAt`
+ * (the countdown's end) so completion is on time. One clock per hook; call
+ * `dispose` when the hook unmounts.
+ */
+export class FocusTimerClock {
+  private worker: Worker | null = null;
+  private fallbackInterval: ReturnType<typeof setInterval> | null = null;
+  private fallbackTimeout: ReturnType<typeof setTimeout> | null = null;
+  private onTick: (() => void) | null = null;
+  private wakeAt: number | null = null;
+
+  constructor() {
+    if (typeof window === "undefined" || typeof Worker === "undefined") return;
+
+    try {
+      this.worker = new Worker(new URL("../workers/focusTimer.worker.ts", import.meta.url));
+      this.worker.onmessage = () => this.onTick?.();
+      this.worker.onerror = () => {
+        // e.g. blocked by a CSP; keep going on the main thread
+        const onTick = this.onTick;
+        this.worker?.terminate();
+        this.worker = null;
+        if (onTick) this.start(onTick, this.wakeAt);
+      };
+    } catch (error) {
+      console.warn("Focus timer worker unavailable, using main thread timer:", error);
+      this.worker = null;
+    }
+  }
+
+  start(onTick: () => void, wakeAt: number | null): void {
+    this.stop();
+    this.onTick = onTick;
+    this.wakeAt = wakeAt;
+
+    if (this.worker) {
+      this.post({ type: "start", intervalMs: TICK_INTERVAL_MS, wakeAt });
+      return;
+    }
+
+    this.fallbackInterval = setInterval(onTick, TICK_INTERVAL_MS);
+    if (wakeAt !== null) {
+      this.fallbackTimeout = setTimeout(onTick, Math.max(0, wakeAt - Date.now()));
+    }
+  }
+
+  stop(): void {
+    this.onTick = null;
+    this.post({ type: "stop" });
+    if (this.fallbackInterval) clearInterval(this.fallbackInterval);
+    if (this.fallbackTimeout) clearTimeout(this.fallbackTimeout);
+    this.fallbackInterval = null;
+    this.fallbackTimeout = null;
+  }
+
+  dispose(): void {
+    this.stop();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private post(command: FocusTimerWorkerCommand): void {
+    this.worker?.postMessage(command);
+  }
+}
+
+// ============================================================================
+// CROSS-TAB COORDINATION
+// ============================================================================
+
+/**
+ * Every open tab reaches the end of a shared countdown at the same moment.
+ * Returns true for exactly one caller per end time; the other tabs pick up
+ * the result through the storage event. Browsers without the Web Locks API
+ * fall back to an unlocked check, which can only race within milliseconds.
+ */
+export async function claimTimerCompletion(targetEndTime: number): Promise<boolean> {
+  const claim = String(targetEndTime);
+  const tryClaim = () => {
+    try {
+      if (localStorage.getItem(COMPLETION_CLAIM_KEY) === claim) return false;
+      localStorage.setItem(COMPLETION_CLAIM_KEY, claim);
+    } catch {
+      // Storage unavailable: no other tab can share this timer either
+    }
+    return true;
+  };
+
+  if (typeof navigator === "undefined" || !navigator.locks) return tryClaim();
+  return navigator.locks.request(COMPLETION_LOCK, async () => tryClaim());
+}
+
+/**
+ * A stable id for this browser, shared by its tabs
+ */
+export function getFocusDeviceId(): string {
+  try {
+    const existing = localStorage.getItem(DEVICE_ID_KEY);
+    if (existing) return existing;
+
+    const id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+    return id;
+  } catch {
+    return "unknown-device";
+  }
+}
+
+/**
+ * What other devices call this one ("Running on your phone")
+ */
+export function getFocusDeviceLabel(): string {
+  if (typeof navigator === "undefined") return "other device";
+  if (/iPad|Tablet/i.test(navigator.userAgent)) return "tablet";
+  if (/Mobi|Android|iPhone/i.test(navigator.userAgent)) return "phone";
+  return "computer";
+}
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+/**
+ * Show a focus timer notification. Goes through the service worker when one
+ * is registered, which also works while the tab is hidden on mobile browsers.
+ */
+export async function showTimerNotification(body: string): Promise<void> {
+  if (typeof window === "undefined" || !("Notification" in window)) return;
+  if (Notification.permission !== "granted") return;
+
+  const options: NotificationOptions = {
+    body,
+    icon: "/icon-192.png",
+    tag: NOTIFICATION_TAG,
+    data: { url: "/focus" },
+  };
+
+  try {
+    const registration = "serviceWorker" in navigator
+      ? await navigator.serviceWorker.getRegistration()
+      : undefined;
+    if (registration) {
+      await registration.showNotification("RT - Focus Timer", options);
+      return;
+    }
+  } catch (error) {
+    console.warn("Service worker notification failed:", error);
+  }
+
+  new Notification("RT - Focus Timer", options);
+}
@@ -0,0 +1,116 @@
+// ============================================================================
+// GOAL UTILITIES
+// ============================================================================
+// Pure helpers for goals and their milestones. Progress is never edited by
+// hand: it is derived here (from milestones or from linked routine
+// completions, depending on the goal's progress rule) and written back.
+
+import { format } from "date-fns";
+import type { Goal, Milestone } from "@/context/GoalContext";
+import type { Task } from "@/context/TaskContext";
+
+// ============================================================================
+// MILESTONES
+// ============================================================================
+
+/**
+ * Get a goal's milestones in display order (tolerates legacy docs without `order`)
+ */
+export function getSortedMilestones(goal: Pick<Goal, "milestones">): Milestone[] {
+    const milestones = Array.isArray(goal.milestones) ? goal.milestones : [];
+
+    return milestones
+        .map((m, index) => ({ ...m, order: m.order ?? index }))
+        .sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Re-number milestones so `order` matches their array position
+ */
+export function normalizeMilestoneOrder(milestones: Milestone[]): Milestone[] {
+    return milestones.map((m, index) => ({ ...m, order: index }));
+}
+
+/**
+ * Count completed and total milestones
+ */
+export function getMilestoneCounts(goal: Pick<Goal, "milestones">): { completed: number; total: number } {
+    const milestones = Array.isArray(goal.milestones) ? goal.milestones : [];
+
+    return {
+        completed: milestones.filter(m => m.isCompleted).length,
+        total: milestones.length,
+    };
+}
+
+// ============================================================================
+// LINKED TASKS
+// ============================================================================
+
+/**
+ * Get the routine tasks that feed a goal
+ */
+export function getLinkedTasks(goalId: string, tasks: Task[]): Task[] {
+    return tasks.filter(t => t.goalId === goalId);
+}
+
+/**
+ * Get the yyyy-MM-dd window in which linked completions count towards a goal.
+ * Starts at the rule's startDate (or when the goal was created) and ends on the target date.
+ */
+export function getCompletionWindow(goal: Pick<Goal, "progressRule" | "createdAt" | "targetDate">): { start?: string; end: string } {
+    const end = format(new Date(goal.targetDate), "yyyy-MM-dd");
+    const start = goal.progressRule?.type === "taskCompletions" && goal.progressRule.startDate
+        ? goal.progressRule.startDate
+        : goal.createdAt ? format(new Date(goal.createdAt), "yyyy-MM-dd") : undefined;
+
+    return { start, end };
+}
+
+/**
+ * Count completions of a goal's linked tasks inside its completion window
+ */
+export function countLinkedCompletions(
+    goal: Pick<Goal, "id" | "progressRule" | "createdAt" | "targetDate">,
+    tasks: Task[]
+): number {
+    const { start, end } = getCompletionWindow(goal);
+
+    return getLinkedTasks(goal.id, tasks).reduce((sum, task) =>
+        sum + (task.completionHistory || []).filter(date =>
+            (!start || date >= start) && date <= end
+        ).length,
+    0);
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+type ProgressInput = Pick<Goal, "milestones" | "isCompleted" | "progress"> &
+    Partial<Pick<Goal, "id" | "progressRule" | "createdAt" | "targetDate">>;
+
+/**
+ * Derive goal progress (0-100).
+ * Completed goals are always 100. Goals with a "taskCompletions" rule count
+ * linked completions; otherwise milestones decide, and goals
+ * without milestones keep whatever progress they already had.
+ */
+export function calculateGoalProgress(goal: ProgressInput, tasks?: Task[]): number {
+    if (goal.isCompleted) return 100;
+
+    const rule = goal.progressRule;
+    if (rule?.type === "taskCompletions") {
+        // Without tasks at hand, trust the last synced value
+        if (!tasks || !goal.id || !goal.targetDate) return goal.progress ?? 0;
+        if (rule.targetCount <= 0) return 0;
+
+        const count = countLinkedCompletions({ ...goal, id: goal.id, targetDate: goal.targetDate }, tasks);
+        return Math.min(100, Math.round((count / rule.targetCount) * 100));
+    }
+
+    const { completed, total } = getMilestoneCounts(goal);
+    if (total === 0) return goal.progress ?? 0;
+
+    return Math.round((completed / total) * 100);
+}
@@ -0,0 +1,93 @@
+// ============================================================================
+// INTEGRATIONS
+// ============================================================================
+// Personal access tokens and webhooks, for automating the app from other
+// tools. Shared by the settings UI, apiHelpers and the integration services
+// (apiTokenService, webhookService).
+//
+// A personal access token stands in for a Firebase ID token on the /api/v1
+// routes its scopes cover, and nowhere else. Webhooks POST a signed JSON
+// payload to the owner's URL when one of WEBHOOK_EVENTS happens.
+
+// ============================================================================
+// PERSONAL ACCESS TOKENS
+// ============================================================================
+
+// Tokens look like "rt_pat_" followed by 43 base64url characters
+export const API_TOKEN_PREFIX = "rt_pat_";
+
+export const API_TOKEN_SCOPES = {
+    "tasks:read": "Read your routine tasks",
+    "tasks:write": "Create, edit, delete and check off routine tasks",
+    "stats:read": "Read your score, streaks and completion rates",
+} as const;
+
+export type ApiScope = keyof typeof API_TOKEN_SCOPES;
+
+export const API_TOKEN_EXPIRY_DAYS = [30, 90, 365] as const;
+
+/**
+ * What the owner sees of a token; the token itself is only shown once
+ */
+export interface ApiTokenInfo {
+    id: string;
+    name: string;
+    scopes: ApiScope[];
+    /** The first characters of the token, to tell tokens apart */
+    hint: string;
+    createdAt: string;
+    lastUsedAt: string | null;
+    expiresAt: string | null;
+}
+
+export function isApiScope(value: unknown): value is ApiScope {
+    return typeof value === "string" && Object.prototype.hasOwnProperty.call(API_TOKEN_SCOPES, value);
+}
+
+// ============================================================================
+// WEBHOOKS
+// ============================================================================
+
+export const WEBHOOK_EVENTS = {
+    "task.completed": "A routine task is checked off",
+    "streak.milestone": "Your streak reaches 3, 7, 14, 30 or 100 days",
+    "goal.completed": "A goal is completed",
+    "focus.session_completed": "A focus session is finished",
+} as const;
+
+export type WebhookEvent = keyof typeof WEBHOOK_EVENTS;
+
+// Sent with every delivery. The signature header reads "t=<unix seconds>,v1=<hex>",
+// where v1 is the HMAC-SHA256 of "<t>.<raw body>" keyed with the webhook's secret.
+export const WEBHOOK_HEADERS = {
+    event: "X-RT-Event",
+    delivery: "X-RT-Delivery",
+    signature: "X-RT-Signature",
+} as const;
+
+export interface WebhookInfo {
+    id: string;
+    url: string;
+    events: WebhookEvent[];
+    active: boolean;
+    createdAt: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface WebhookDeliveryInfo {
+    id: string;
+    event: WebhookEvent;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    /** The receiver's HTTP status on the last attempt */
+    responseStatus: number | null;
+    error: string | null;
+    createdAt: string;
+    lastAttemptAt: string | null;
+    nextAttemptAt: string | null;
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+    return typeof value === "string" && Object.prototype.hasOwnProperty.call(WEBHOOK_EVENTS, value);
+}
@@ -0,0 +1,123 @@
+// ============================================================================
+// LEADERBOARD RANKINGS (SERVER-ONLY)
+// ============================================================================
+// Builds the ranked list for one board: everyone (global), the viewer and
+// their friends, or the members of a group, over all time or the current
+// week or month.
+//
+// Weekly and monthly scores are written by scoringService together with the
+// period they belong to. A score whose period is over (in that user's own
+// timezone) counts as 0, so boards reset at each user's Monday or 1st even if
+// the nightly recalculation hasn't reached them yet.
+
+import type { DocumentData, DocumentSnapshot } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { getZonedDate, resolveUserTimezone } from "@/lib/timezoneUtils";
+import { ScorePeriod, ScorePeriods, getScorePeriods } from "@/lib/statsUtils";
+import { getGroupForMember, listFriendIds, toFriendProfile } from "@/lib/socialService";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type LeaderboardScope = "global" | "friends" | "group";
+
+export interface RankedUser {
+    id: string;
+    rank: number;
+    name: string;
+    username: string;
+    avatar?: string;
+    score: number;
+    streak: number;
+    completionRate: number;
+    totalCompleted: number;
+    isCurrentUser: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const LEADERBOARD_SCOPES: LeaderboardScope[] = ["global", "friends", "group"];
+export const SCORE_PERIODS: ScorePeriod[] = ["all", "week", "month"];
+
+// The global board ranks this many of the top scorers
+const GLOBAL_CANDIDATES = 500;
+
+const SCORE_FIELDS: Record<ScorePeriod, string> = {
+    all: "score",
+    week: "weeklyScore",
+    month: "monthlyScore",
+};
+
+// ============================================================================
+// SCORES
+// ============================================================================
+
+/**
+ * A user's score for a period, or 0 if the stored one is from an earlier period
+ */
+export function getPeriodScore(profile: DocumentData, period: ScorePeriod, now: Date = new Date()): number {
+    const value = profile[SCORE_FIELDS[period]];
+    const score = typeof value === "number" ? value : 0;
+    if (period === "all") return score;
+
+    const stored = profile.scorePeriods as Partial<ScorePeriods> | undefined;
+    const current = getScorePeriods(getZonedDate(resolveUserTimezone(profile), now));
+    return stored?.[period] === current[period] ? score : 0;
+}
+
+function rank(snapshots: DocumentSnapshot[], period: ScorePeriod, viewerId: string, now: Date): RankedUser[] {
+    return snapshots
+        .filter(s => s.exists)
+        .map(s => {
+            const data = s.data()!;
+            return {
+                ...toFriendProfile(s.id, data),
+                rank: 0,
+                score: getPeriodScore(data, period, now),
+                streak: data.streak || 0,
+                completionRate: data.completionRate || 0,
+                totalCompleted: data.totalCompleted || 0,
+                isCurrentUser: s.id === viewerId,
+            };
+        })
+        .sort((a, b) => b.score - a.score || b.streak - a.streak || a.name.localeCompare(b.name))
+        .map((user, index) => ({ ...user, rank: index + 1 }));
+}
+
+// ============================================================================
+// RANKINGS
+// ============================================================================
+
+/**
+ * The full ranked list for a board, best first. Paginate with paginateResponse.
+ */
+export async function getRankings(options: {
+    scope: LeaderboardScope;
+    period: ScorePeriod;
+    viewerId: string;
+    groupId?: string;
+    now?: Date;
+}): Promise<RankedUser[]> {
+    const { scope, period, viewerId } = options;
+    const now = options.now ?? new Date();
+    const db = getAdminDb();
+    const users = db.collection("users");
+
+    if (scope === "global") {
+        const snapshot = await users.orderBy(SCORE_FIELDS[period], "desc").limit(GLOBAL_CANDIDATES).get();
+        // Private profiles and accounts about to be deleted stay off the global
+        // board (friends and groups still see them)
+        const visible = snapshot.docs.filter(d => d.data().isPublic !== false && !d.data().deletionScheduledFor);
+        return rank(visible, period, viewerId, now);
+    }
+
+    const memberIds = scope === "friends"
+        ? [viewerId, ...await listFriendIds(viewerId)]
+        : (await getGroupForMember(viewerId, options.groupId || "")).memberIds;
+
+    const snapshots = await db.getAll(...memberIds.map(id => users.doc(id)));
+    return rank(snapshots, period, viewerId, now);
+}
@@ -95,6 +95,10 @@ const RECURRENCE_PATTERNS = [
     /\b(every weekday|mon-fri|workdays?)\b/gi,
     /\b(every weekend|weekends?)\b/gi,
     /\b(every monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/gi,
+    /\b(every year|yearly|annually)\b/gi,
+    /\bevery\s+(\d+|other)\s+(day|week|month|year)s?\b/gi,
+    /\b(first|1st|second|2nd|third|3rd|fourth|4th|last)\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)\s+of\b/gi,
+    /\b(\d{1,2}(st|nd|rd|th)|last day)\s+of\s+(the|every|each)\s+month\b/gi,
 ];
 
 const DURATION_PATTERNS = [
@@ -496,30 +500,75 @@ export function suggestPriorityChange(
 }
 
 export function parseRecurrence(input: string): {
-    frequency: "daily" | "weekly" | "monthly" | null;
+    frequency: "daily" | "weekly" | "monthly" | "yearly" | null;
     daysOfWeek?: number[];
+    dayOfMonth?: number;
+    weekdayOfMonth?: { day: number; week: number };
+    count?: number;
     interval: number;
 } | null {
     const lowerInput = input.toLowerCase();
 
+    const dayMap: Record<string, number> = {
+        sunday: 0, monday: 1, tuesday: 2, wednesday: 3,
+        thursday: 4, friday: 5, saturday: 6,
+    };
+    const dayPattern = Object.keys(dayMap).join("|");
+
+    // "for 10 times" / "10 times" limits any rule
+    const countMatch = lowerInput.match(/\b(\d+)\s+times\b/);
+    const withCount = <T extends object>(rule: T) =>
+        countMatch ? { ...rule, count: parseInt(countMatch[1], 10) } : rule;
+
+    // "last friday of the month", "2nd monday of every month"
+    const nthWeekday = lowerInput.match(new RegExp(`\\b(first|1st|second|2nd|third|3rd|fourth|4th|last)\\s+(${dayPattern})\\b`));
+    if (nthWeekday) {
+        const weekMap: Record<string, number> = {
+            first: 1, "1st": 1, second: 2, "2nd": 2, third: 3, "3rd": 3, fourth: 4, "4th": 4, last: -1,
+        };
+        return withCount({
+            frequency: "monthly" as const,
+            interval: 1,
+            weekdayOfMonth: { day: dayMap[nthWeekday[2]], week: weekMap[nthWeekday[1]] },
+        });
+    }
+
+    // "the 1st of the month", "on the 15th of every month", "last day of the month"
+    if (/\blast day of (the|every) month\b/.test(lowerInput)) {
+        return withCount({ frequency: "monthly" as const, interval: 1, dayOfMonth: -1 });
+    }
+    const monthDay = lowerInput.match(/\b(\d{1,2})(st|nd|rd|th)\s+of\s+(the|every|each)\s+month\b/);
+    if (monthDay) {
+        return withCount({ frequency: "monthly" as const, interval: 1, dayOfMonth: parseInt(monthDay[1], 10) });
+    }
+
+    // "every 2 weeks", "every other day", "every 3 months"
+    const intervalMatch = lowerInput.match(/\bevery\s+(\d+|other)\s+(day|week|month|year)s?\b/);
+    if (intervalMatch) {
+        const unitMap = { day: "daily", week: "weekly", month: "monthly", year: "yearly" } as const;
+        return withCount({
+            frequency: unitMap[intervalMatch[2] as keyof typeof unitMap],
+            interval: intervalMatch[1] === "other" ? 2 : Math.max(1, parseInt(intervalMatch[1], 10)),
+        });
+    }
+
     if (/\b(every day|daily|everyday)\b/.test(lowerInput)) {
-        return { frequency: "daily", interval: 1 };
+        return withCount({ frequency: "daily" as const, interval: 1 });
     }
 
     if (/\b(every week|weekly)\b/.test(lowerInput)) {
-        return { frequency: "weekly", interval: 1 };
+        return withCount({ frequency: "weekly" as const, interval: 1 });
     }
 
     if (/\b(every month|monthly)\b/.test(lowerInput)) {
-        return { frequency: "monthly", interval: 1 };
+        return withCount({ frequency: "monthly" as const, interval: 1 });
     }
 
-    // Check for specific days
-    const dayMap: Record<string, number> = {
-        sunday: 0, monday: 1, tuesday: 2, wednesday: 3,
-        thursday: 4, friday: 5, saturday: 6,
-    };
+    if (/\b(every year|yearly|annually)\b/.test(lowerInput)) {
+        return withCount({ frequency: "yearly" as const, interval: 1 });
+    }
 
+    // Check for specific days
     const days: number[] = [];
     for (const [day, num] of Object.entries(dayMap)) {
         if (new RegExp(`\\bevery\\s+${day}\\b`).test(lowerInput)) {
@@ -528,7 +577,7 @@ export function parseRecurrence(input: string): {
     }
 
     if (days.length > 0) {
-        return { frequency: "weekly", interval: 1, daysOfWeek: days };
+        return withCount({ frequency: "weekly" as const, interval: 1, daysOfWeek: days });
     }
 
     return null;
@@ -0,0 +1,277 @@
+// ============================================================================
+// OPENAPI DOCUMENT
+// ============================================================================
+// The machine-readable description of /api/v1, served at
+// /api/v1/openapi.json. Request and response bodies come from the JSON
+// schemas in validationSchemas, so the document can't drift from what the
+// routes accept.
+//
+// Operations a personal access token can call carry the scope it needs as
+// `x-token-scope`; the others need a Firebase ID token.
+
+import { jsonSchemas, type JsonSchema } from "@/lib/validationSchemas";
+import { V1_PAGE_SIZE } from "@/lib/apiV1";
+import { TASKS } from "@/lib/v1Resources";
+import { API_TOKEN_PREFIX, type ApiScope } from "@/lib/integrations";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+interface ResourcePaths {
+    /** URL segment, e.g. "focus-sessions" */
+    path: string;
+    /** Schema name in jsonSchemas */
+    schema: string;
+    /** Plural for summaries, e.g. "focus sessions" */
+    plural: string;
+    tag: string;
+    /** What identifies one item in the URL */
+    idDescription: string;
+    scopes?: { read: ApiScope; write: ApiScope };
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const API_V1_VERSION = "1.0.0";
+
+const ERROR_CODES = [
+    "VALIDATION_ERROR",
+    "UNAUTHORIZED",
+    "FORBIDDEN",
+    "NOT_FOUND",
+    "CONFLICT",
+    "IDEMPOTENCY_KEY_REUSED",
+    "RATE_LIMIT_EXCEEDED",
+    "INTERNAL_ERROR",
+];
+
+const RESOURCES: ResourcePaths[] = [
+    { path: "tasks", schema: "Task", plural: "routine tasks", tag: "Tasks", idDescription: "Task ID (UUID)", scopes: TASKS.scopes },
+    { path: "goals", schema: "Goal", plural: "goals", tag: "Goals", idDescription: "Goal ID (UUID)" },
+    { path: "focus-sessions", schema: "FocusSession", plural: "focus sessions", tag: "Focus sessions", idDescription: "Session ID" },
+    { path: "moods", schema: "Mood", plural: "mood entries", tag: "Moods", idDescription: "The entry's date (YYYY-MM-DD)" },
+];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const ref = (kind: "schemas" | "parameters" | "responses", name: string) => ({ $ref: `#/components/${kind}/${name}` });
+
+const json = (schema: JsonSchema | { $ref: string }) => ({ "application/json": { schema } });
+
+/**
+ * A body schema for PATCH: every field optional
+ */
+function partial(schema: JsonSchema): JsonSchema {
+    const rest = { ...schema };
+    delete rest.required;
+    return { ...rest, description: "Only the fields to change. A field set to null is removed." };
+}
+
+const errorResponses = (...statuses: number[]) => Object.fromEntries(statuses.map(status => [status, ref("responses", `Error${status}`)]));
+
+/**
+ * Who can call an operation
+ */
+const access = (scope?: ApiScope) => scope
+    ? { description: `Personal access tokens need the \`${scope}\` scope.`, "x-token-scope": scope }
+    : { description: "Needs a Firebase ID token; personal access tokens aren't accepted." };
+
+function resourcePaths(resource: ResourcePaths): Record<string, Record<string, unknown>> {
+    const schema = ref("schemas", resource.schema);
+    const idParameter = { name: "id", in: "path", required: true, description: resource.idDescription, schema: { type: "string" } };
+    const writeParameters = [ref("parameters", "IdempotencyKey")];
+
+    return {
+        [`/${resource.path}`]: {
+            get: {
+                tags: [resource.tag],
+                summary: `List ${resource.plural}`,
+                ...access(resource.scopes?.read),
+                parameters: [ref("parameters", "Cursor"), ref("parameters", "Limit")],
+                responses: {
+                    200: {
+                        description: "One page",
+                        content: json({
+                            type: "object",
+                            required: ["success", "data", "nextCursor", "hasMore"],
+                            properties: {
+                                success: { type: "boolean" },
+                                data: { type: "array", items: schema },
+                                nextCursor: { type: ["string", "null"] },
+                                hasMore: { type: "boolean" },
+                            },
+                        }),
+                    },
+                    ...errorResponses(400, 401, 403, 429),
+                },
+            },
+            post: {
+                tags: [resource.tag],
+                summary: `Create one of the ${resource.plural}`,
+                ...access(resource.scopes?.write),
+                parameters: writeParameters,
+                requestBody: { required: true, content: json(schema) },
+                responses: {
+                    201: { description: "Created", content: json(ref("schemas", `${resource.schema}Response`)) },
+                    ...errorResponses(400, 401, 403, 409, 422, 429),
+                },
+            },
+        },
+        [`/${resource.path}/{id}`]: {
+            parameters: [idParameter],
+            get: {
+                tags: [resource.tag],
+                summary: `Get one of the ${resource.plural}`,
+                ...access(resource.scopes?.read),
+                responses: {
+                    200: { description: "Found", content: json(ref("schemas", `${resource.schema}Response`)) },
+                    ...errorResponses(401, 403, 404, 429),
+                },
+            },
+            patch: {
+                tags: [resource.tag],
+                summary: `Update one of the ${resource.plural}`,
+                ...access(resource.scopes?.write),
+                parameters: writeParameters,
+                requestBody: { required: true, content: json(partial(jsonSchemas[resource.schema])) },
+                responses: {
+                    200: { description: "Updated", content: json(ref("schemas", `${resource.schema}Response`)) },
+                    ...errorResponses(400, 401, 403, 404, 409, 422, 429),
+                },
+            },
+            delete: {
+                tags: [resource.tag],
+                summary: `Delete one of the ${resource.plural}`,
+                ...access(resource.scopes?.write),
+                parameters: writeParameters,
+                responses: {
+                    204: { description: "Deleted" },
+                    ...errorResponses(401, 403, 404, 409, 422, 429),
+                },
+            },
+        },
+    };
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+/**
+ * The OpenAPI 3.1 document for /api/v1
+ */
+export function buildOpenApiDocument(): Record<string, unknown> {
+    const errorDescriptions: Record<number, string> = {
+        400: "The request is invalid",
+        401: "Missing or invalid token",
+        403: "A personal access token without the scope this needs",
+        404: "Not found",
+        409: "Already exists, or a request with the same Idempotency-Key is still running",
+        422: "The Idempotency-Key was already used for a different request",
+        429: "Too many requests; retry after the Retry-After header",
+    };
+
+    return {
+        openapi: "3.1.0",
+        info: {
+            title: "Routine Tracker API",
+            version: API_V1_VERSION,
+            description: "Read and write your routines, goals, focus sessions and moods. "
+                + "Every error has the same shape, with a stable `code` to branch on.",
+        },
+        servers: [{ url: "/api/v1" }],
+        security: [{ bearerAuth: [] }],
+        tags: [...RESOURCES.map(resource => ({ name: resource.tag })), { name: "Stats" }],
+        paths: {
+            ...Object.assign({}, ...RESOURCES.map(resourcePaths)),
+            "/tasks/{id}/complete": {
+                parameters: [{ name: "id", in: "path", required: true, description: "Task ID (UUID)", schema: { type: "string" } }],
+                post: {
+                    tags: ["Tasks"],
+                    summary: "Mark a task done or not done on a date",
+                    ...access("tasks:write"),
+                    parameters: [ref("parameters", "IdempotencyKey")],
+                    requestBody: {
+                        content: json({
+                            type: "object",
+                            properties: {
+                                date: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$", description: "Defaults to today in your timezone" },
+                                completed: { type: "boolean", description: "Defaults to true" },
+                            },
+                        }),
+                    },
+                    responses: {
+                        200: { description: "The task", content: json(ref("schemas", "TaskResponse")) },
+                        ...errorResponses(400, 401, 403, 404, 409, 422, 429),
+                    },
+                },
+            },
+            "/stats": {
+                get: {
+                    tags: ["Stats"],
+                    summary: "Your score, streaks and completion rates",
+                    ...access("stats:read"),
+                    responses: {
+                        200: { description: "Calculated now", content: json(ref("schemas", "UserStatsResponse")) },
+                        ...errorResponses(401, 403, 429),
+                    },
+                },
+            },
+        },
+        components: {
+            securitySchemes: {
+                bearerAuth: {
+                    type: "http",
+                    scheme: "bearer",
+                    description: `A Firebase ID token, or a personal access token (${API_TOKEN_PREFIX}...) created in Settings`,
+                },
+            },
+            parameters: {
+                Cursor: {
+                    name: "cursor",
+                    in: "query",
+                    description: "The previous page's nextCursor",
+                    schema: { type: "string" },
+                },
+                Limit: {
+                    name: "limit",
+                    in: "query",
+                    schema: { type: "integer", minimum: 1, maximum: V1_PAGE_SIZE.max, default: V1_PAGE_SIZE.default },
+                },
+                IdempotencyKey: {
+                    name: "Idempotency-Key",
+                    in: "header",
+                    description: "Repeating a request with the same key within 24 hours replays the first response instead of running it again",
+                    schema: { type: "string", minLength: 1, maxLength: 255 },
+                },
+            },
+            schemas: {
+                ...jsonSchemas,
+                ...Object.fromEntries([...RESOURCES.map(resource => resource.schema), "UserStats"].map(name => [`${name}Response`, {
+                    type: "object",
+                    required: ["success", "data"],
+                    properties: { success: { type: "boolean" }, data: ref("schemas", name) },
+                }])),
+                Error: {
+                    type: "object",
+                    required: ["success", "error", "code"],
+                    properties: {
+                        success: { type: "boolean", const: false },
+                        error: { type: "string", description: "Human-readable; don't parse it" },
+                        code: { type: "string", enum: ERROR_CODES },
+                        details: { type: "object", description: "For VALIDATION_ERROR, `fieldErrors` lists the problems" },
+                    },
+                },
+            },
+            responses: Object.fromEntries(Object.entries(errorDescriptions).map(([status, description]) => [
+                `Error${status}`,
+                { description, content: json(ref("schemas", "Error")) },
+            ])),
+        },
+    };
+}
@@ -0,0 +1,148 @@
+// ============================================================================
+// OUTBOUND REQUESTS TO USER-SUPPLIED URLS (SERVER-ONLY)
+// ============================================================================
+// Webhook URLs and Web Push endpoints come from users, so requests to them
+// must not reach anything inside our network. postToPublicUrl only connects
+// to addresses that were checked as the host resolved (publicLookup), so a
+// DNS record can't point it inside after the URL was saved, and it never
+// follows redirects.
+
+import { lookup as dnsLookup } from "dns";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Addresses a request never connects to: unspecified, loopback, private,
+// shared (CGNAT), link-local, documentation, multicast and reserved ranges,
+// and IPv6 ranges that embed an IPv4 address. BlockList also matches
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 ranges.
+const BLOCKED_SUBNETS: Array<[string, number, "ipv4" | "ipv6"]> = [
+    ["0.0.0.0", 8, "ipv4"],
+    ["10.0.0.0", 8, "ipv4"],
+    ["100.64.0.0", 10, "ipv4"],
+    ["127.0.0.0", 8, "ipv4"],
+    ["169.254.0.0", 16, "ipv4"],
+    ["172.16.0.0", 12, "ipv4"],
+    ["192.0.0.0", 24, "ipv4"],
+    ["192.0.2.0", 24, "ipv4"],
+    ["192.88.99.0", 24, "ipv4"],
+    ["192.168.0.0", 16, "ipv4"],
+    ["198.18.0.0", 15, "ipv4"],
+    ["198.51.100.0", 24, "ipv4"],
+    ["203.0.113.0", 24, "ipv4"],
+    ["224.0.0.0", 4, "ipv4"],
+    ["240.0.0.0", 4, "ipv4"],
+    ["::", 96, "ipv6"],
+    ["64:ff9b::", 96, "ipv6"],
+    ["64:ff9b:1::", 48, "ipv6"],
+    ["100::", 64, "ipv6"],
+    ["2001::", 32, "ipv6"],
+    ["2001:db8::", 32, "ipv6"],
+    ["2002::", 16, "ipv6"],
+    ["fc00::", 7, "ipv6"],
+    ["fe80::", 10, "ipv6"],
+    ["fec0::", 10, "ipv6"],
+    ["ff00::", 8, "ipv6"],
+];
+
+const blockedAddresses = new BlockList();
+BLOCKED_SUBNETS.forEach(([network, prefix, type]) => blockedAddresses.addSubnet(network, prefix, type));
+
+// ============================================================================
+// ADDRESS CHECKS
+// ============================================================================
+
+export class BlockedAddressError extends Error {
+    constructor() {
+        super("The receiver's address isn't public");
+        this.name = "BlockedAddressError";
+    }
+}
+
+/**
+ * Whether an IP address is one a request may connect to
+ */
+export function isPublicAddress(address: string): boolean {
+    const version = isIP(address);
+    if (version === 0) return false;
+    return !blockedAddresses.check(address, version === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * A URL's hostname, without the brackets around an IPv6 address
+ */
+export function hostnameOf(url: URL): string {
+    return url.hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+/**
+ * dns.lookup that fails if the host resolves to any non-public address.
+ * The socket connects to the addresses returned here, so what was checked
+ * is what's used.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, "");
+        if (addresses.length === 0 || !addresses.every(entry => isPublicAddress(entry.address))) {
+            return callback(new BlockedAddressError(), "");
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+export interface OutboundPostOptions {
+    headers: Record<string, string>;
+    body?: string | Uint8Array;
+    timeoutMs: number;
+    // Skip the HTTPS and public address checks, for local stand-ins in
+    // development and tests. Callers decide when that's allowed.
+    allowPrivate?: boolean;
+}
+
+/**
+ * POST to a user-supplied HTTPS URL and resolve with the response
+ * status. Rejects with BlockedAddressError if the host isn't public, and
+ * with an AbortError after timeoutMs.
+ */
+export function postToPublicUrl(rawUrl: string, options: OutboundPostOptions): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const url = new URL(rawUrl);
+        const { allowPrivate = false } = options;
+
+        if (!allowPrivate) {
+            if (url.protocol !== "https:") {
+                reject(new BlockedAddressError());
+                return;
+            }
+            // IP literals skip the lookup, so they're checked here
+            const hostname = hostnameOf(url);
+            if (isIP(hostname) && !isPublicAddress(hostname)) {
+                reject(new BlockedAddressError());
+                return;
+            }
+        }
+
+        const body = options.body ?? "";
+        const send = url.protocol === "http:" ? httpRequest : httpsRequest;
+        const request = send(url, {
+            method: "POST",
+            headers: { ...options.headers, "Content-Length": Buffer.byteLength(body) },
+            lookup: allowPrivate ? undefined : publicLookup,
+            signal: AbortSignal.timeout(options.timeoutMs),
+        }, response => {
+            response.resume(); // The body isn't used
+            resolve(response.statusCode ?? 0);
+        });
+        request.on("error", reject);
+        request.end(body);
+    });
+}
@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createECDH, createPublicKey, randomBytes, verify } from "crypto";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import webpush from "web-push";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { sendPushNotification } from "@/lib/pushNotificationService";
+import type { FakeFirestore } from "@/test/fakeFirestore";
+import { startPushEndpointStub } from "../../scripts/push-endpoint-stub.mjs";
+
+vi.mock("@/lib/firebaseAdmin", () => import("@/test/fakeFirestore").then(m => m.fakeFirebaseAdmin()));
+
+interface ReceivedRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string | undefined>;
+    body: Buffer;
+    status: number;
+}
+
+const db = getAdminDb() as unknown as FakeFirestore;
+const vapidKeys = webpush.generateVAPIDKeys();
+const received: ReceivedRequest[] = [];
+
+let server: Server;
+let stubOrigin: string;
+let nextUser = 0;
+
+/**
+ * Save a subscription with real browser-style keys, so web-push can encrypt for it
+ */
+function subscribe(userId: string, id: string, endpoint: string): void {
+    const browserKey = createECDH("prime256v1");
+    browserKey.generateKeys();
+
+    db.setData(`users/${userId}/pushSubscriptions/${id}`, {
+        endpoint,
+        keys: {
+            p256dh: browserKey.getPublicKey().toString("base64url"),
+            auth: randomBytes(16).toString("base64url"),
+        },
+        active: true,
+    });
+}
+
+/**
+ * Check an `Authorization: vapid t=<JWT>, k=<public key>` header against our VAPID keys
+ */
+function expectVapidSigned(authorization: string | undefined): void {
+    const match = authorization?.match(/^vapid t=([^,]+), k=(.+)$/);
+    expect(match, "Authorization is a VAPID header").toBeTruthy();
+    const [, jwt, publicKey] = match as RegExpMatchArray;
+    expect(publicKey).toBe(vapidKeys.publicKey);
+
+    const [header, claims, signature] = jwt.split(".");
+    const point = Buffer.from(publicKey, "base64url");
+    const key = createPublicKey({
+        key: {
+            kty: "EC",
+            crv: "P-256",
+            x: point.subarray(1, 33).toString("base64url"),
+            y: point.subarray(33, 65).toString("base64url"),
+        },
+        format: "jwk",
+    });
+    const signed = verify(
+        "sha256",
+        Buffer.from(`${header}.${claims}`),
+        { key, dsaEncoding: "ieee-p1363" },
+        Buffer.from(signature, "base64url")
+    );
+    expect(signed, "JWT signature verifies with the VAPID public key").toBe(true);
+
+    const payload = JSON.parse(Buffer.from(claims, "base64url").toString("utf8"));
+    expect(payload.aud).toBe(stubOrigin);
+    expect(payload.exp * 1000).toBeGreaterThan(Date.now());
+}
+
+beforeAll(async () => {
+    server = await startPushEndpointStub(0, { onRequest: (request: ReceivedRequest) => received.push(request) });
+    stubOrigin = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    vi.stubEnv("NEXT_PUBLIC_FIREBASE_VAPID_KEY", vapidKeys.publicKey);
+    vi.stubEnv("WEB_PUSH_VAPID_PRIVATE_KEY", vapidKeys.privateKey);
+    vi.stubEnv("WEB_PUSH_ALLOW_LOCAL_ENDPOINTS", "true");
+});
+
+afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+    db.clear();
+    received.length = 0;
+});
+
+// Each test gets its own user, so the per-user push cap never runs out
+function newUser(): string {
+    return `user-${++nextUser}`;
+}
+
+describe("sendPushNotification", () => {
+    it("delivers a VAPID-signed, encrypted request to the endpoint", async () => {
+        const userId = newUser();
+        subscribe(userId, "phone", `${stubOrigin}/push/phone`);
+
+        const result = await sendPushNotification(userId, { title: "Stretch", body: "Time for your routine" }, { ttl: 120 });
+
+        expect(result).toMatchObject({ success: true, delivered: 1, pruned: 0 });
+        expect(received).toHaveLength(1);
+
+        const [request] = received;
+        expect(request.method).toBe("POST");
+        expect(request.url).toBe("/push/phone");
+        expect(request.headers["content-encoding"]).toBe("aes128gcm");
+        expect(request.headers.ttl).toBe("120");
+        expect(request.body.length).toBeGreaterThan(0);
+        expect(request.body.toString("utf8")).not.toContain("Stretch");
+        expectVapidSigned(request.headers.authorization);
+
+        expect(db.getData(`users/${userId}/pushSubscriptions/phone`)).toBeDefined();
+    });
+
+    it.each([
+        ["410 Gone", "gone"],
+        ["404 Not Found", "missing"],
+    ])("deletes a subscription the push service answers %s for", async (_status, path) => {
+        const userId = newUser();
+        subscribe(userId, "phone", `${stubOrigin}/push/phone`);
+        subscribe(userId, "old-laptop", `${stubOrigin}/${path}/old-laptop`);
+
+        const result = await sendPushNotification(userId, { title: "Stretch", body: "Time for your routine" });
+
+        expect(result).toMatchObject({ success: true, delivered: 1, pruned: 1 });
+        expect(received.map(r => r.url).sort()).toEqual([`/${path}/old-laptop`, "/push/phone"]);
+        expect(db.getData(`users/${userId}/pushSubscriptions/old-laptop`)).toBeUndefined();
+        expect(db.getData(`users/${userId}/pushSubscriptions/phone`)).toBeDefined();
+    });
+
+    it("never contacts a local endpoint unless local endpoints are allowed", async () => {
+        vi.stubEnv("WEB_PUSH_ALLOW_LOCAL_ENDPOINTS", "");
+        try {
+            const userId = newUser();
+            subscribe(userId, "phone", `${stubOrigin}/push/phone`);
+
+            const result = await sendPushNotification(userId, { title: "Stretch", body: "Time for your routine" });
+
+            expect(result).toMatchObject({ success: false, delivered: 0, pruned: 1 });
+            expect(received).toHaveLength(0);
+            expect(db.getData(`users/${userId}/pushSubscriptions/phone`)).toBeUndefined();
+        } finally {
+            vi.stubEnv("WEB_PUSH_ALLOW_LOCAL_ENDPOINTS", "true");
+        }
+    });
+});
@@ -1,81 +1,247 @@
 // ============================================================================
-// PUSH NOTIFICATION API ROUTE
+// WEB PUSH DELIVERY (SERVER-ONLY)
 // ============================================================================
-// This API route is used to send push notifications to subscribed users.
-// It's called by the server or by other API routes when notifications need to be sent.
+// Sends standard Web Push (VAPID) messages to the subscriptions that
+// usePushNotification saves under users/{uid}/pushSubscriptions. Only their
+// owner can read those in the rules, so they're read with the admin SDK.
+//
+// - Subscriptions the push service reports as gone (404/410) are deleted.
+// - Each user receives at most PUSH_RATE_LIMIT.maxPerWindow pushes per window.
+// - Requests are encrypted and signed by web-push but sent by outboundRequest:
+//   endpoints are written by clients, so they must be HTTPS URLs on public
+//   addresses. Subscriptions whose endpoint isn't are deleted.
+// - The local stand-in (scripts/push-endpoint-stub.mjs) listens on plain
+//   http://localhost, so it's only reachable with WEB_PUSH_ALLOW_LOCAL_ENDPOINTS
+//   set to "true" outside production.
+//
+// Configuration: NEXT_PUBLIC_FIREBASE_VAPID_KEY (the public key clients
+// subscribe with), WEB_PUSH_VAPID_PRIVATE_KEY and optionally WEB_PUSH_SUBJECT.
 
-// import { getApps } from "firebase-admin/app";
-// import { getMessaging } from "firebase-admin/messaging";
-// import { initializeApp, cert } from "firebase-admin/app";
+import webpush from "web-push";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { logger } from "@/lib/logger";
+import { BlockedAddressError, postToPublicUrl } from "@/lib/outboundRequest";
+import { consumeRateLimit } from "@/lib/rateLimit";
 
-// Note: For server-side FCM, you need to use firebase-admin
-// This is a template that shows how to send push notifications
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
 
-export async function sendPushNotification(
-    userId: string,
-    notification: {
+export interface PushNotificationPayload {
+    title: string;
+    body: string;
+    tag?: string;
+    data?: Record<string, string>;
+    actions?: Array<{
+        action: string;
         title: string;
-        body: string;
-        data?: Record<string, string>;
-        actions?: Array<{
-            action: string;
-            title: string;
-            icon?: string;
-        }>;
+        icon?: string;
+    }>;
+}
+
+export interface WebPushSubscription {
+    endpoint: string;
+    keys: { p256dh: string; auth: string };
+}
+
+export interface PushDeliveryResult {
+    success: boolean;
+    delivered: number;
+    pruned: number;
+    rateLimited?: boolean;
+    error?: string;
+}
+
+export interface PushSendOptions {
+    ttl?: number; // seconds the push service may hold the message
+    urgency?: "very-low" | "low" | "normal" | "high";
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const PUSH_RATE_LIMIT = {
+    windowMs: 60 * 60 * 1000, // 1 hour
+    maxPerWindow: 10,
+};
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const REQUEST_TIMEOUT_MS = 10000;
+const DEFAULT_SUBJECT = "mailto:support@routinetracker.app";
+
+// Marks payloads from this server so the service worker can tell them apart from FCM messages
+const PAYLOAD_SOURCE = "routine-tracker";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getVapidDetails(): { subject: string; publicKey: string; privateKey: string } | null {
+    const publicKey = process.env.NEXT_PUBLIC_FIREBASE_VAPID_KEY;
+    const privateKey = process.env.WEB_PUSH_VAPID_PRIVATE_KEY;
+    if (!publicKey || !privateKey) return null;
+
+    return {
+        subject: process.env.WEB_PUSH_SUBJECT || DEFAULT_SUBJECT,
+        publicKey,
+        privateKey,
+    };
+}
+
+/**
+ * Whether pushes may go to private and plain-HTTP endpoints, for the local stand-in
+ */
+function allowsLocalEndpoints(): boolean {
+    return process.env.WEB_PUSH_ALLOW_LOCAL_ENDPOINTS === "true" && process.env.NODE_ENV !== "production";
+}
+
+/**
+ * Check whether the VAPID keys needed for delivery are configured
+ */
+export function isWebPushConfigured(): boolean {
+    return getVapidDetails() !== null;
+}
+
+/**
+ * Reserve a send for a user under the sliding-window cap
+ */
+async function takeRateLimitSlot(userId: string): Promise<boolean> {
+    const result = await consumeRateLimit(userId, {
+        windowMs: PUSH_RATE_LIMIT.windowMs,
+        maxRequests: PUSH_RATE_LIMIT.maxPerWindow,
+        keyPrefix: "push_",
+        algorithm: "sliding-window",
+    });
+    return result.allowed;
+}
+
+function subscriptionsCollection(userId: string) {
+    return getAdminDb().collection("users").doc(userId).collection("pushSubscriptions");
+}
+
+async function getSubscriptions(userId: string): Promise<Array<WebPushSubscription & { id: string }>> {
+    const snapshot = await subscriptionsCollection(userId).get();
+
+    return snapshot.docs
+        .map(d => ({ id: d.id, ...d.data() }) as WebPushSubscription & { id: string; active?: boolean })
+        .filter(sub => sub.active !== false && !!sub.endpoint && !!sub.keys?.p256dh && !!sub.keys?.auth);
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * Encrypt and send one message to one subscription.
+ * `gone` is set when the push service says the subscription no longer exists.
+ * Rejects with BlockedAddressError if the endpoint isn't a public HTTPS URL.
+ */
+export async function sendToSubscription(
+    subscription: WebPushSubscription,
+    payload: string,
+    options: PushSendOptions = {}
+): Promise<{ ok: boolean; gone: boolean; status: number }> {
+    const vapidDetails = getVapidDetails();
+    if (!vapidDetails) {
+        throw new Error("Web Push is not configured");
+    }
+
+    const request = webpush.generateRequestDetails(subscription, payload, {
+        vapidDetails,
+        TTL: options.ttl ?? DEFAULT_TTL_SECONDS,
+        urgency: options.urgency ?? "normal",
+    });
+
+    // postToPublicUrl sets Content-Length itself
+    const { "Content-Length": _contentLength, ...headers } = request.headers as Record<string, string>;
+
+    const status = await postToPublicUrl(request.endpoint, {
+        headers,
+        body: request.body ? new Uint8Array(request.body) : undefined,
+        timeoutMs: REQUEST_TIMEOUT_MS,
+        allowPrivate: allowsLocalEndpoints(),
+    });
+
+    return {
+        ok: status >= 200 && status < 300,
+        gone: status === 404 || status === 410,
+        status,
+    };
+}
+
+/**
+ * Send a message to every subscription a user has, pruning dead ones
+ */
+async function deliverToUser(
+    userId: string,
+    message: Record<string, unknown>,
+    options: PushSendOptions
+): Promise<PushDeliveryResult> {
+    if (!isWebPushConfigured()) {
+        return { success: false, delivered: 0, pruned: 0, error: "Web Push is not configured" };
+    }
+
+    const subscriptions = await getSubscriptions(userId);
+    if (subscriptions.length === 0) {
+        return { success: false, delivered: 0, pruned: 0, error: "No push subscriptions" };
+    }
+
+    if (!(await takeRateLimitSlot(userId))) {
+        logger.warn("Push rate cap reached", undefined, { userId, action: "push/send" });
+        return { success: false, delivered: 0, pruned: 0, rateLimited: true, error: "Push rate cap reached" };
     }
-): Promise<{ success: boolean; error?: string }> {
-    // This would be implemented with firebase-admin on the server
-    // For now, this is a placeholder that shows the expected interface
-    
+
+    const payload = JSON.stringify({ source: PAYLOAD_SOURCE, ...message });
+    let delivered = 0;
+    let pruned = 0;
+
+    for (const subscription of subscriptions) {
+        try {
+            const result = await sendToSubscription(subscription, payload, options);
+
+            if (result.ok) {
+                delivered++;
+            } else if (result.gone) {
+                await subscriptionsCollection(userId).doc(subscription.id).delete();
+                pruned++;
+            } else {
+                logger.warn(`Push service rejected message (${result.status})`, undefined, { userId, action: "push/send" });
+            }
+        } catch (error) {
+            if (error instanceof BlockedAddressError) {
+                // Browsers only hand out HTTPS endpoints, so this one was written by hand
+                logger.warn("Deleted push subscription with a non-public endpoint", undefined, { userId, action: "push/send" });
+                await subscriptionsCollection(userId).doc(subscription.id).delete();
+                pruned++;
+            } else {
+                logger.warn("Failed to send push message", error, { userId, action: "push/send" });
+            }
+        }
+    }
+
+    if (pruned > 0) {
+        logger.info(`Pruned ${pruned} expired push subscriptions`, { userId, action: "push/prune" });
+    }
+
+    return {
+        success: delivered > 0,
+        delivered,
+        pruned,
+        error: delivered > 0 ? undefined : "No subscription accepted the message",
+    };
+}
+
+export async function sendPushNotification(
+    userId: string,
+    notification: PushNotificationPayload,
+    options: PushSendOptions = {}
+): Promise<PushDeliveryResult> {
     try {
-        // In a real implementation:
-        // 1. Get user's FCM token from Firestore
-        // 2. Use firebase-admin to send the notification
-        // 3. Handle errors and cleanup invalid tokens
-        
-        console.log(`[API] Sending push notification to user ${userId}:`, notification);
-        
-        // Example firebase-admin implementation:
-        /*
-        const admin = getApps().length === 0 
-            ? initializeApp({
-                credential: cert({
-                    projectId: process.env.FIREBASE_PROJECT_ID,
-                    clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
-                    privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n')
-                })
-            }, 'admin')
-            : getApps()[0];
-        
-        const messaging = getMessaging(admin);
-        
-        const message = {
-            notification: {
-                title: notification.title,
-                body: notification.body
-            },
-            data: notification.data || {},
-            webpush: {
-                notification: {
-                    icon: "/logo.jpg",
-                    badge: "/icon-192.png",
-                    vibrate: [200, 100, 200],
-                    requireInteraction: notification.data?.priority === "urgent"
-                },
-                fcmOptions: {
-                    link: notification.data?.url || "/"
-                }
-            },
-            token: userFcmToken // Retrieved from Firestore
-        };
-        
-        await messaging.send(message);
-        */
-       
-        return { success: true };
+        return await deliverToUser(userId, { type: "notification", ...notification }, options);
     } catch (error: any) {
-        console.error("[API] Failed to send push notification:", error);
-        return { success: false, error: error.message };
+        logger.error("Failed to send push notification", error, { userId, action: "push/send" });
+        return { success: false, delivered: 0, pruned: 0, error: error.message };
     }
 }
 
@@ -83,36 +249,28 @@ export async function sendSilentPush(
     userId: string,
     syncType: "task-sync" | "stats-sync" | "achievement-sync",
     data: Record<string, any>
-): Promise<{ success: boolean; error?: string }> {
+): Promise<PushDeliveryResult> {
     try {
-        console.log(`[API] Sending silent push to user ${userId}:`, syncType);
-        
-        // Silent pushes don't show notifications but trigger background sync
-        // Implementation would be similar to above but with silent: true
-        
-        return { success: true };
+        // Silent pushes trigger background sync in the service worker instead of a visible notification
+        return await deliverToUser(userId, { type: "silent", syncType, data }, { urgency: "low" });
     } catch (error: any) {
-        console.error("[API] Failed to send silent push:", error);
-        return { success: false, error: error.message };
+        logger.error("Failed to send silent push", error, { userId, action: "push/send" });
+        return { success: false, delivered: 0, pruned: 0, error: error.message };
     }
 }
 
 export async function broadcastNotification(
     userIds: string[],
-    notification: {
-        title: string;
-        body: string;
-        data?: Record<string, string>;
-    }
+    notification: PushNotificationPayload
 ): Promise<{ success: boolean; failed: string[] }> {
     const failed: string[] = [];
-    
+
     for (const userId of userIds) {
         const result = await sendPushNotification(userId, notification);
         if (!result.success) {
             failed.push(userId);
         }
     }
-    
+
     return { success: failed.length === 0, failed };
 }
@@ -1,36 +1,85 @@
 // ============================================================================
-// RATE LIMITING UTILITIES - ENHANCED VERSION
+// RATE LIMITING
 // ============================================================================
-// Provides rate limiting for API routes to prevent abuse and ensure fair usage.
-// Supports multiple rate limit configurations for different endpoint types.
+// The one rate limiter for the app. API routes reach it via withRateLimit /
+// rateLimitRequest in apiHelpers; server services (e.g. the push cap) call
+// consumeRateLimit with their own keys.
+//
+// Counters live in a RateLimitStore. The in-memory store only counts within
+// one instance, which on serverless means every cold start gets a fresh
+// allowance, so production should set RATE_LIMIT_STORE=firestore to share
+// counters between instances. Firestore documents carry an `expiresAt`
+// field; enable a TTL policy on rateLimits.expiresAt to have them cleaned up.
+//
+// Two algorithms are available per config:
+// - "sliding-window": a weighted two-window counter, smooth across window edges
+// - "token-bucket": refills maxRequests tokens per windowMs, allowing bursts
 
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "./firebaseAdmin";
+import { logger } from "./logger";
 
-// In-memory store for rate limiting (for serverless, consider using Upstash Redis)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
 
-interface RateLimitConfig {
+export interface RateLimitConfig {
   windowMs: number; // Time window in milliseconds
   maxRequests: number; // Maximum requests per window
   message?: string; // Custom error message
   keyPrefix?: string; // Custom key prefix
+  algorithm?: RateLimitAlgorithm; // Defaults to "sliding-window"
 }
 
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  resetTime: number;
+  limit: number;
+}
+
+/** Per-key algorithm state; plain numbers so every store can persist it */
+export type RateLimitState = Record<string, number>;
+
+/**
+ * Where counters are kept. `update` must read the key's state, apply the
+ * function and save the new state atomically: concurrent requests for the
+ * same key may not both see the old state. `apply` may run more than once
+ * (e.g. on a retried transaction), so it has to be pure.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  update<R>(
+    key: string,
+    ttlMs: number,
+    apply: (state: RateLimitState | null) => { state: RateLimitState; result: R }
+  ): Promise<R>;
+}
+
+// ============================================================================
+// PRESETS
+// ============================================================================
+
 // Preset configurations for different endpoint types
-const RATE_LIMIT_PRESETS = {
+export const RATE_LIMIT_PRESETS = {
   // Stricter limits for authentication endpoints
   auth: {
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 5, // 5 attempts per minute
     message: "Too many authentication attempts. Please try again in a minute.",
     keyPrefix: "rl_auth_",
+    algorithm: "sliding-window",
   },
-  // AI endpoints - expensive operations
+  // AI endpoints - expensive operations, but conversations come in bursts
   ai: {
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 20, // 20 requests per minute
     message: "AI request limit reached. Please try again in a minute.",
     keyPrefix: "rl_ai_",
+    algorithm: "token-bucket",
   },
   // General API endpoints
   default: {
@@ -38,6 +87,7 @@ const RATE_LIMIT_PRESETS = {
     maxRequests: 100, // 100 requests per minute
     message: "Too many requests. Please try again later.",
     keyPrefix: "rl_",
+    algorithm: "sliding-window",
   },
   // Leaderboard - read-heavy, cache longer
   leaderboard: {
@@ -45,164 +95,228 @@ const RATE_LIMIT_PRESETS = {
     maxRequests: 30, // 30 requests per minute
     message: "Leaderboard request limit reached. Please try again later.",
     keyPrefix: "rl_leaderboard_",
+    algorithm: "sliding-window",
   },
-};
+} satisfies Record<string, RateLimitConfig>;
 
 const DEFAULT_CONFIG: RateLimitConfig = {
   windowMs: 60 * 1000, // 1 minute
   maxRequests: 60, // 60 requests per minute
   message: "Too many requests. Please try again later.",
   keyPrefix: "rl_",
+  algorithm: "sliding-window",
 };
 
+// ============================================================================
+// STORES
+// ============================================================================
+
 /**
- * Get client identifier from request
+ * Counters in this process's memory. Fine for local development and
+ * single-instance deployments.
  */
-function getClientId(request: NextRequest): string {
-  // Try to get IP from various headers (Vercel, Cloudflare, etc.)
-  const forwarded = request.headers.get("x-forwarded-for");
-  const realIp = request.headers.get("x-real-ip");
-  const cfConnectingIp = request.headers.get("cf-connecting-ip");
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = "memory";
+  private entries = new Map<string, { state: RateLimitState; expiresAt: number }>();
 
-  // Fallback to a default identifier
-  return forwarded?.split(",")[0] || realIp || cfConnectingIp || "anonymous";
+  async update<R>(
+    key: string,
+    ttlMs: number,
+    apply: (state: RateLimitState | null) => { state: RateLimitState; result: R }
+  ): Promise<R> {
+    const now = Date.now();
+
+    // Cleanup old entries periodically (1% chance per request)
+    if (Math.random() < 0.01) {
+      this.cleanupExpiredEntries(now);
+    }
+
+    const existing = this.entries.get(key);
+    const { state, result } = apply(existing && existing.expiresAt > now ? existing.state : null);
+    this.entries.set(key, { state, expiresAt: now + ttlMs });
+    return result;
+  }
+
+  private cleanupExpiredEntries(now: number): void {
+    for (const [key, value] of this.entries.entries()) {
+      if (now > value.expiresAt) {
+        this.entries.delete(key);
+      }
+    }
+  }
 }
 
 /**
- * Clean up expired entries (called periodically)
+ * Counters in Firestore (rateLimits/{key}), shared by every instance.
+ * Each check is one transaction on the key's document.
  */
-function cleanupExpiredEntries(): void {
-  const now = Date.now();
-  for (const [key, value] of rateLimitStore.entries()) {
-    if (now > value.resetTime) {
-      rateLimitStore.delete(key);
-    }
+export class FirestoreRateLimitStore implements RateLimitStore {
+  readonly name = "firestore";
+
+  constructor(private collectionName = "rateLimits") {}
+
+  async update<R>(
+    key: string,
+    ttlMs: number,
+    apply: (state: RateLimitState | null) => { state: RateLimitState; result: R }
+  ): Promise<R> {
+    const db = getAdminDb();
+    const ref = db.collection(this.collectionName).doc(encodeURIComponent(key));
+
+    return db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const data = snapshot.data();
+      const expired = !data || (data.expiresAt instanceof Timestamp && data.expiresAt.toMillis() <= Date.now());
+
+      const { state, result } = apply(expired ? null : (data.state as RateLimitState));
+      transaction.set(ref, {
+        state,
+        expiresAt: Timestamp.fromMillis(Date.now() + ttlMs),
+      });
+      return result;
+    });
   }
 }
 
+let storeOverride: RateLimitStore | null = null;
+let defaultStore: RateLimitStore | null = null;
+
 /**
- * Check if request should be rate limited
+ * Replace the rate limit store (pass null to restore the RATE_LIMIT_STORE default)
  */
-export function checkRateLimit(
-  request: NextRequest,
-  config: Partial<RateLimitConfig> = {}
-): { allowed: boolean; remaining: number; resetTime: number; limit: number } {
-  const { windowMs, maxRequests, keyPrefix } = { ...DEFAULT_CONFIG, ...config };
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  storeOverride = store;
+}
 
-  const clientId = getClientId(request);
-  const prefix = keyPrefix || DEFAULT_CONFIG.keyPrefix;
-  const key = `${prefix}${clientId}`;
-  const now = Date.now();
+export function getRateLimitStore(): RateLimitStore {
+  if (storeOverride) return storeOverride;
 
-  // Cleanup old entries periodically (1% chance per request)
-  if (Math.random() < 0.01) {
-    cleanupExpiredEntries();
+  if (!defaultStore) {
+    defaultStore = process.env.RATE_LIMIT_STORE === "firestore"
+      ? new FirestoreRateLimitStore()
+      : new MemoryRateLimitStore();
   }
+  return defaultStore;
+}
+
+// ============================================================================
+// ALGORITHMS
+// ============================================================================
 
-  const existing = rateLimitStore.get(key);
+/**
+ * Sliding window counter: the previous window's count is weighted by how much
+ * of it still overlaps the last windowMs, so a client can't double up by
+ * bursting at the end of one window and the start of the next.
+ */
+function slidingWindow(state: RateLimitState | null, config: RateLimitConfig, now: number) {
+  const { windowMs, maxRequests } = config;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const windowEnd = windowStart + windowMs;
 
-  if (!existing || now > existing.resetTime) {
-    // New window
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + windowMs,
-    });
-    return {
-      allowed: true,
-      remaining: maxRequests - 1,
-      resetTime: now + windowMs,
-      limit: maxRequests,
-    };
+  let count = 0;
+  let previous = 0;
+  if (state?.windowStart === windowStart) {
+    count = state.count;
+    previous = state.previous;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previous = state.count;
   }
 
-  if (existing.count >= maxRequests) {
-    // Rate limited
-    return {
-      allowed: false,
-      remaining: 0,
-      resetTime: existing.resetTime,
-      limit: maxRequests,
-    };
+  const weight = 1 - (now - windowStart) / windowMs;
+  const allowed = previous * weight + count + 1 <= maxRequests;
+  if (allowed) count++;
+
+  let resetTime = windowEnd;
+  if (!allowed && count + 1 <= maxRequests && previous > 0) {
+    // When the previous window's weight has decayed enough for one more request
+    const fraction = 1 - (maxRequests - count - 1) / previous;
+    resetTime = windowStart + Math.ceil(fraction * windowMs);
   }
 
-  // Increment counter
-  existing.count++;
   return {
-    allowed: true,
-    remaining: maxRequests - existing.count,
-    resetTime: existing.resetTime,
-    limit: maxRequests,
+    state: { windowStart, count, previous },
+    result: {
+      allowed,
+      remaining: Math.max(0, Math.floor(maxRequests - previous * weight - count)),
+      resetTime,
+      limit: maxRequests,
+    },
   };
 }
 
 /**
- * Rate limiting middleware for API routes
+ * Token bucket: holds up to maxRequests tokens and refills at
+ * maxRequests per windowMs; each request takes one token.
  */
-export function withRateLimit(
-  request: NextRequest,
-  config: Partial<RateLimitConfig> = {}
-): NextResponse | null {
-  const result = checkRateLimit(request, config);
-  const { message } = { ...DEFAULT_CONFIG, ...config };
-
-  if (!result.allowed) {
-    const retryAfter = Math.ceil((result.resetTime - Date.now()) / 1000);
-    return NextResponse.json(
-      {
-        error: "Too Many Requests",
-        message: message,
-        retryAfter: retryAfter,
-      },
-      {
-        status: 429,
-        headers: {
-          "Retry-After": retryAfter.toString(),
-          "X-RateLimit-Limit": String(result.limit),
-          "X-RateLimit-Remaining": "0",
-          "X-RateLimit-Reset": String(Math.ceil(result.resetTime / 1000)),
-        },
-      }
-    );
-  }
+function tokenBucket(state: RateLimitState | null, config: RateLimitConfig, now: number) {
+  const { windowMs, maxRequests } = config;
+  const refillPerMs = maxRequests / windowMs;
 
-  // Return null if allowed (handler continues)
-  // Note: We skip setting success headers here to avoid NextResponse.next() usage in route handlers
-  return null;
-}
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  let tokens = state ? Math.min(maxRequests, state.tokens + elapsed * refillPerMs) : maxRequests;
 
-/**
- * Use a preset configuration by name
- */
-export function withPreset(
-  request: NextRequest,
-  presetName: keyof typeof RATE_LIMIT_PRESETS
-): NextResponse | null {
-  return withRateLimit(request, RATE_LIMIT_PRESETS[presetName]);
+  const allowed = tokens >= 1;
+  if (allowed) tokens -= 1;
+
+  const resetTime = allowed
+    ? now + Math.ceil((maxRequests - tokens) / refillPerMs)
+    : now + Math.ceil((1 - tokens) / refillPerMs);
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      remaining: Math.floor(tokens),
+      resetTime,
+      limit: maxRequests,
+    },
+  };
 }
 
+// ============================================================================
+// CHECKS
+// ============================================================================
+
 /**
- * Higher-order function to wrap API handlers with rate limiting
+ * Count one request against `key` and report whether it's allowed.
+ * If the store is unreachable the request is allowed, so a storage outage
+ * doesn't take every API route down with it.
  */
-export function rateLimited<T extends (request: NextRequest) => Promise<NextResponse>>(
-  handler: T,
+export async function consumeRateLimit(
+  key: string,
   config: Partial<RateLimitConfig> = {}
-): T {
-  return (async (request: NextRequest) => {
-    const rateLimitResponse = withRateLimit(request, config);
-    if (rateLimitResponse) {
-      return rateLimitResponse;
-    }
-    return handler(request);
-  }) as T;
+): Promise<RateLimitResult> {
+  const merged = { ...DEFAULT_CONFIG, ...config };
+  const fullKey = `${merged.keyPrefix || DEFAULT_CONFIG.keyPrefix}${key}`;
+  const algorithm = merged.algorithm === "token-bucket" ? tokenBucket : slidingWindow;
+  const now = Date.now();
+
+  const store = getRateLimitStore();
+  try {
+    return await store.update(fullKey, merged.windowMs * 2, (state) => algorithm(state, merged, now));
+  } catch (error) {
+    logger.warn("Rate limit store unavailable, allowing request", error, {
+      action: "consumeRateLimit",
+      metadata: { store: store.name },
+    });
+    return {
+      allowed: true,
+      remaining: merged.maxRequests,
+      resetTime: now + merged.windowMs,
+      limit: merged.maxRequests,
+    };
+  }
 }
 
 /**
- * Create a rate limit middleware function with a specific preset
+ * Get the client's IP address from the proxy headers
  */
-export function createRateLimiter(presetName: keyof typeof RATE_LIMIT_PRESETS) {
-  return (request: NextRequest) => withPreset(request, presetName);
-}
+export function getClientIp(request: NextRequest): string {
+  // Try to get IP from various headers (Vercel, Cloudflare, etc.)
+  const forwarded = request.headers.get("x-forwarded-for");
+  const realIp = request.headers.get("x-real-ip");
+  const cfConnectingIp = request.headers.get("cf-connecting-ip");
 
-// Export presets for external use
-export { RATE_LIMIT_PRESETS };
-export type { RateLimitConfig };
+  // Fallback to a default identifier
+  return forwarded?.split(",")[0].trim() || realIp || cfConnectingIp || "anonymous";
+}
@@ -0,0 +1,275 @@
+// ============================================================================
+// RECURRENCE UTILITIES
+// ============================================================================
+// RRULE-style recurrence for tasks. A task without `recurrence` keeps the
+// original behaviour (a weekday list in `days`, or a single `specificDate`);
+// a task with `recurrence` repeats by day, week, month or year with an
+// interval, optional month-day / nth-weekday rules and an until/count limit.
+//
+// Shared by the client contexts, calendar views and the cron jobs, so this
+// module must stay free of browser and Firebase dependencies.
+
+import {
+    addDays,
+    differenceInCalendarDays,
+    differenceInCalendarMonths,
+    differenceInCalendarWeeks,
+    format,
+    getDaysInMonth,
+    parseISO,
+} from "date-fns";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export type WeekdayCode = "SUN" | "MON" | "TUE" | "WED" | "THU" | "FRI" | "SAT";
+
+export interface TaskRecurrence {
+    frequency: RecurrenceFrequency;
+    interval: number; // every N days/weeks/months/years
+    startDate: string; // yyyy-MM-dd, first possible occurrence and interval anchor
+    byDay?: WeekdayCode[]; // weekly: which weekdays
+    dayOfMonth?: number; // monthly/yearly: 1-31, or -1 for the last day
+    weekdayOfMonth?: { day: WeekdayCode; week: number }; // monthly: week 1-5, or -1 for the last one
+    until?: string; // yyyy-MM-dd, inclusive
+    count?: number; // stop after this many occurrences
+}
+
+/**
+ * Anything that can be scheduled: stored tasks, API payloads and cron snapshots
+ */
+export interface SchedulableTask {
+    days?: string[];
+    specificDate?: string;
+    recurrence?: TaskRecurrence;
+}
+
+export const WEEKDAY_CODES: WeekdayCode[] = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+// Counted rules are expanded day by day, so cap how far we look
+const MAX_EXPANSION_DAYS = 366 * 10;
+
+// ============================================================================
+// RULE MATCHING
+// ============================================================================
+
+function toDate(dateStr: string): Date {
+    return parseISO(dateStr);
+}
+
+function getWeekdayCode(date: Date): WeekdayCode {
+    return WEEKDAY_CODES[date.getDay()];
+}
+
+function matchesDayOfMonth(date: Date, dayOfMonth: number): boolean {
+    if (dayOfMonth === -1) return date.getDate() === getDaysInMonth(date);
+    // Like RRULE, months without that day are skipped rather than clamped
+    return date.getDate() === dayOfMonth;
+}
+
+function matchesWeekdayOfMonth(date: Date, rule: { day: WeekdayCode; week: number }): boolean {
+    if (getWeekdayCode(date) !== rule.day) return false;
+
+    if (rule.week === -1) return date.getDate() + 7 > getDaysInMonth(date);
+    return Math.ceil(date.getDate() / 7) === rule.week;
+}
+
+/**
+ * Check whether a date matches the rule's pattern, ignoring until/count limits
+ */
+function matchesPattern(rule: TaskRecurrence, date: Date): boolean {
+    const start = toDate(rule.startDate);
+    const interval = Math.max(1, rule.interval || 1);
+
+    switch (rule.frequency) {
+        case "daily":
+            return differenceInCalendarDays(date, start) % interval === 0;
+
+        case "weekly": {
+            const byDay = rule.byDay && rule.byDay.length > 0 ? rule.byDay : [getWeekdayCode(start)];
+            if (!byDay.includes(getWeekdayCode(date))) return false;
+            return differenceInCalendarWeeks(date, start, { weekStartsOn: 1 }) % interval === 0;
+        }
+
+        case "monthly": {
+            if (differenceInCalendarMonths(date, start) % interval !== 0) return false;
+            if (rule.weekdayOfMonth) return matchesWeekdayOfMonth(date, rule.weekdayOfMonth);
+            return matchesDayOfMonth(date, rule.dayOfMonth ?? start.getDate());
+        }
+
+        case "yearly": {
+            if (date.getMonth() !== start.getMonth()) return false;
+            if ((date.getFullYear() - start.getFullYear()) % interval !== 0) return false;
+            return matchesDayOfMonth(date, rule.dayOfMonth ?? start.getDate());
+        }
+
+        default:
+            return false;
+    }
+}
+
+/**
+ * Check whether a recurrence rule produces an occurrence on a yyyy-MM-dd date
+ */
+export function occursOn(rule: TaskRecurrence, dateStr: string): boolean {
+    if (dateStr < rule.startDate) return false;
+    if (rule.until && dateStr > rule.until) return false;
+
+    const date = toDate(dateStr);
+    if (!matchesPattern(rule, date)) return false;
+    if (!rule.count) return true;
+
+    // Counted rules: the date must be one of the first `count` occurrences
+    let seen = 0;
+    const start = toDate(rule.startDate);
+    const span = Math.min(differenceInCalendarDays(date, start), MAX_EXPANSION_DAYS);
+    for (let i = 0; i < span; i++) {
+        if (matchesPattern(rule, addDays(start, i))) {
+            seen++;
+            if (seen >= rule.count) return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Check whether a task is due on a yyyy-MM-dd date.
+ * Vacation pauses are applied separately (see vacationUtils).
+ */
+export function isTaskScheduledOn(task: SchedulableTask, dateStr: string): boolean {
+    if (task.specificDate) return task.specificDate === dateStr;
+    if (task.recurrence) return occursOn(task.recurrence, dateStr);
+
+    return task.days?.includes(getWeekdayCode(toDate(dateStr))) ?? false;
+}
+
+/**
+ * List the yyyy-MM-dd dates in [startStr, endStr] on which a task is due
+ */
+export function getOccurrencesInRange(task: SchedulableTask, startStr: string, endStr: string): string[] {
+    const dates: string[] = [];
+    const start = toDate(startStr);
+    const span = Math.min(differenceInCalendarDays(toDate(endStr), start), MAX_EXPANSION_DAYS);
+
+    for (let i = 0; i <= span; i++) {
+        const dateStr = format(addDays(start, i), "yyyy-MM-dd");
+        if (isTaskScheduledOn(task, dateStr)) dates.push(dateStr);
+    }
+    return dates;
+}
+
+/**
+ * Find the first yyyy-MM-dd date a rule actually lands on. Its startDate is
+ * only an anchor, so it needn't match (a Mon/Thu rule starting on a Tuesday).
+ */
+export function getFirstOccurrence(rule: TaskRecurrence): string | null {
+    const start = toDate(rule.startDate);
+
+    for (let i = 0; i <= MAX_EXPANSION_DAYS; i++) {
+        const dateStr = format(addDays(start, i), "yyyy-MM-dd");
+        if (rule.until && dateStr > rule.until) return null;
+        // The first match is always within any count, so the pattern is enough
+        if (matchesPattern(rule, toDate(dateStr))) return dateStr;
+    }
+    return null;
+}
+
+/**
+ * Get the weekdays a rule can land on. Stored in `days` so that older
+ * clients and weekday-based screens still place the task sensibly.
+ */
+export function getRecurrenceWeekdays(rule: TaskRecurrence): WeekdayCode[] {
+    if (rule.frequency === "weekly") {
+        return rule.byDay && rule.byDay.length > 0 ? rule.byDay : [getWeekdayCode(toDate(rule.startDate))];
+    }
+    if (rule.frequency === "monthly" && rule.weekdayOfMonth) {
+        return [rule.weekdayOfMonth.day];
+    }
+    return [...WEEKDAY_CODES];
+}
+
+// ============================================================================
+// DISPLAY
+// ============================================================================
+
+const ORDINALS: Record<number, string> = { 1: "1st", 2: "2nd", 3: "3rd", 4: "4th", 5: "5th", [-1]: "last" };
+
+function ordinal(n: number): string {
+    if (ORDINALS[n]) return ORDINALS[n];
+    const suffix = n % 10 === 1 && n !== 11 ? "st" : n % 10 === 2 && n !== 12 ? "nd" : n % 10 === 3 && n !== 13 ? "rd" : "th";
+    return `${n}${suffix}`;
+}
+
+function titleCaseDay(day: WeekdayCode): string {
+    return day.charAt(0) + day.slice(1).toLowerCase();
+}
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Thu" or "Monthly on the last Fri"
+ */
+export function describeRecurrence(rule: TaskRecurrence): string {
+    const interval = Math.max(1, rule.interval || 1);
+    const unit = { daily: "day", weekly: "week", monthly: "month", yearly: "year" }[rule.frequency];
+    const base = interval === 1
+        ? { daily: "Daily", weekly: "Weekly", monthly: "Monthly", yearly: "Yearly" }[rule.frequency]
+        : `Every ${interval} ${unit}s`;
+
+    let detail = "";
+    if (rule.frequency === "weekly") {
+        detail = ` on ${getRecurrenceWeekdays(rule).map(titleCaseDay).join(", ")}`;
+    } else if (rule.frequency === "monthly") {
+        detail = rule.weekdayOfMonth
+            ? ` on the ${ordinal(rule.weekdayOfMonth.week)} ${titleCaseDay(rule.weekdayOfMonth.day)}`
+            : ` on the ${rule.dayOfMonth === -1 ? "last day" : ordinal(rule.dayOfMonth ?? toDate(rule.startDate).getDate())}`;
+    } else if (rule.frequency === "yearly") {
+        detail = ` on ${format(toDate(rule.startDate), "MMM d")}`;
+    }
+
+    const limit = rule.until
+        ? ` until ${format(toDate(rule.until), "MMM d, yyyy")}`
+        : rule.count ? `, ${rule.count} times` : "";
+
+    return `${base}${detail}${limit}`;
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Build a task recurrence from nlpUtils' parseRecurrence result
+ * (weekday numbers are 0 = Sunday, matching Date#getDay)
+ */
+export function fromParsedRecurrence(
+    parsed: {
+        frequency: RecurrenceFrequency | null;
+        interval: number;
+        daysOfWeek?: number[];
+        dayOfMonth?: number;
+        weekdayOfMonth?: { day: number; week: number };
+        count?: number;
+    },
+    startDate: string
+): TaskRecurrence | undefined {
+    if (!parsed.frequency) return undefined;
+
+    const rule: TaskRecurrence = {
+        frequency: parsed.frequency,
+        interval: Math.max(1, parsed.interval || 1),
+        startDate,
+    };
+
+    if (parsed.daysOfWeek && parsed.daysOfWeek.length > 0) {
+        rule.byDay = parsed.daysOfWeek.map(d => WEEKDAY_CODES[d]).filter(Boolean);
+    }
+    if (parsed.dayOfMonth !== undefined) rule.dayOfMonth = parsed.dayOfMonth;
+    if (parsed.weekdayOfMonth) {
+        rule.weekdayOfMonth = { day: WEEKDAY_CODES[parsed.weekdayOfMonth.day], week: parsed.weekdayOfMonth.week };
+    }
+    if (parsed.count) rule.count = parsed.count;
+
+    return rule;
+}
@@ -0,0 +1,170 @@
+// ============================================================================
+// LEADERBOARD SCORING (SERVER-ONLY)
+// ============================================================================
+// Recalculates a user's score, streak and completion totals from their tasks
+// and writes them to users/{uid} with firebase-admin. Security rules stop
+// clients from writing these fields, so this is the only way they change.
+//
+// Each accepted run stores a snapshot (`scoring`) that the next run is
+// compared against. A jump that looks wrong (see detectScoreAnomaly) isn't
+// applied: the previous numbers stay on the leaderboard, the user is marked
+// `scoreFlagged` and the details go to scoreReviews/{uid}. Setting that
+// review's status to "approved" lets the next run apply the new numbers.
+//
+// Weekly and monthly scores are written with the period they belong to
+// (`scorePeriods`); leaderboardService ignores them once that period is over.
+//
+// Completions are only counted from the day the account was created, as the
+// auth record has it (see getAccountOrigin), and a first run is checked
+// against an empty account from that day, so a new account can't arrive with
+// a forged history.
+
+import { format } from "date-fns";
+import type { DocumentData } from "firebase-admin/firestore";
+import { getAdminAuth, getAdminDb } from "@/lib/firebaseAdmin";
+import { logger } from "@/lib/logger";
+import { parseVacations } from "@/lib/vacationUtils";
+import { getLocalDateString, getZonedDate, resolveUserTimezone } from "@/lib/timezoneUtils";
+import {
+    AccountOrigin,
+    CalculatedStats,
+    ScoreSnapshot,
+    StatsTask,
+    calculateUserStats,
+    detectScoreAnomaly,
+} from "@/lib/statsUtils";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ScoreUpdateResult {
+    status: "updated" | "flagged";
+    stats: CalculatedStats;
+    reason?: string;
+}
+
+type ReviewStatus = "open" | "approved" | "applied" | "cleared";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function parseSnapshot(raw: unknown): ScoreSnapshot | null {
+    const snapshot = raw as Partial<ScoreSnapshot> | undefined;
+    if (!snapshot || typeof snapshot.totalCompleted !== "number"
+        || typeof snapshot.scoredAt !== "string" || typeof snapshot.scoredDate !== "string") {
+        return null;
+    }
+    return snapshot as ScoreSnapshot;
+}
+
+/**
+ * When a user's account was created. Accounts merged into it can be older,
+ * so the earliest of those is kept in the server-owned `accountCreatedAt`.
+ * Returns null if there's no auth record for the user.
+ */
+export async function getAccountOrigin(userId: string, profile: DocumentData): Promise<AccountOrigin | null> {
+    let createdAt: Date;
+    try {
+        createdAt = new Date((await getAdminAuth().getUser(userId)).metadata.creationTime);
+    } catch (error) {
+        if ((error as { code?: string }).code === "auth/user-not-found") return null;
+        throw error;
+    }
+
+    const merged = typeof profile.accountCreatedAt === "string" ? new Date(profile.accountCreatedAt) : null;
+    if (merged && !isNaN(merged.getTime()) && merged < createdAt) createdAt = merged;
+
+    return {
+        createdAt: createdAt.toISOString(),
+        createdDate: getLocalDateString(resolveUserTimezone(profile), createdAt),
+    };
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Recalculate and store a user's leaderboard stats.
+ * Pass `profile` when the users/{uid} document has already been read.
+ * Returns null if the user doesn't exist.
+ */
+export async function recalculateUserScore(
+    userId: string,
+    options: { profile?: DocumentData; now?: Date } = {}
+): Promise<ScoreUpdateResult | null> {
+    const db = getAdminDb();
+    const now = options.now ?? new Date();
+    const userRef = db.collection("users").doc(userId);
+
+    const profile = options.profile ?? (await userRef.get()).data();
+    if (!profile) return null;
+
+    const origin = await getAccountOrigin(userId, profile);
+    if (!origin) return null;
+
+    const tasksSnapshot = await userRef.collection("tasks").get();
+    const tasks = tasksSnapshot.docs.map(d => ({ id: d.id, ...d.data() }) as StatsTask);
+
+    const today = getZonedDate(resolveUserTimezone(profile), now);
+    const stats = calculateUserStats(tasks, parseVacations(profile.vacations), today, origin);
+    const previous = parseSnapshot(profile.scoring);
+    const reviewRef = db.collection("scoreReviews").doc(userId);
+
+    let reviewStatus: ReviewStatus | null = null;
+    if (profile.scoreFlagged) {
+        reviewStatus = ((await reviewRef.get()).data()?.status as ReviewStatus | undefined) ?? null;
+    }
+
+    const anomaly = reviewStatus === "approved" ? null : detectScoreAnomaly(previous, tasks, today, now, origin);
+
+    if (anomaly) {
+        await reviewRef.set({
+            userId,
+            status: "open",
+            reason: anomaly,
+            previous: previous ?? null,
+            proposed: stats,
+            flaggedAt: now.toISOString(),
+        }, { merge: true });
+        await userRef.set({ scoreFlagged: true }, { merge: true });
+
+        logger.warn(`Score jump held for review: ${anomaly}`, undefined, {
+            userId,
+            action: "scoring/recalculate",
+            metadata: { previous: previous?.totalCompleted, proposed: stats.totalCompleted },
+        });
+
+        return { status: "flagged", stats, reason: anomaly };
+    }
+
+    await userRef.set({
+        score: stats.score,
+        totalCompleted: stats.totalCompleted,
+        completionRate: stats.completionRate,
+        streak: stats.streak,
+        longestStreak: stats.longestStreak,
+        weeklyScore: stats.weeklyScore,
+        monthlyScore: stats.monthlyScore,
+        scorePeriods: stats.periods,
+        lastStatsUpdate: now.toISOString(),
+        scoring: {
+            totalCompleted: stats.totalCompleted,
+            scoredAt: now.toISOString(),
+            scoredDate: format(today, "yyyy-MM-dd"),
+        } satisfies ScoreSnapshot,
+        scoreFlagged: false,
+    }, { merge: true });
+
+    if (reviewStatus) {
+        // Approved by a reviewer, or the suspicious completions are gone
+        await reviewRef.set({
+            status: reviewStatus === "approved" ? "applied" : "cleared",
+            resolvedAt: now.toISOString(),
+        }, { merge: true });
+    }
+
+    return { status: "updated", stats };
+}
@@ -0,0 +1,346 @@
+// ============================================================================
+// SHARED ROUTINES (SERVER-ONLY)
+// ============================================================================
+// Accountability routines shared between users.
+//
+//   sharedRoutines/{routineId}                   title, days, timezone, memberIds, group streak
+//   sharedRoutines/{routineId}/members/{userId}  that member's completionHistory
+//
+// Members read both directly (see firestore.rules); every write goes through
+// here so partners can be told about it: a check-in notifies the other
+// members, and the shared-routines cron reports who missed a scheduled day.
+// Notifications are written to users/{uid}/notifications, which
+// NotificationContext syncs, and also sent as Web Push.
+//
+// Days follow the routine's timezone (its creator's when it was made), so
+// "today" is the same day for every member.
+
+import { FieldValue, type DocumentData, type DocumentReference } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { logger } from "@/lib/logger";
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from "@/lib/apiHelpers";
+import { createInviteCode, resolveInviteCode, toFriendProfile } from "@/lib/socialService";
+import { sendPushNotification } from "@/lib/pushNotificationService";
+import { WEEKDAY_CODES } from "@/lib/recurrenceUtils";
+import { getLocalDateString, getZonedDate, resolveUserTimezone } from "@/lib/timezoneUtils";
+import {
+    SHARED_ROUTINE_LIMITS,
+    SharedRoutine,
+    SharedRoutineMember,
+    calculateGroupStreak,
+    getCheckInDates,
+    getMissedMembers,
+    isGroupDayComplete,
+    parseMember,
+    parseSharedRoutine,
+} from "@/lib/sharedRoutineUtils";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface NewSharedRoutine {
+    title?: unknown;
+    icon?: unknown;
+    timeBlock?: unknown;
+    days?: unknown;
+}
+
+const TIME_BLOCKS = ["Dawn", "Morning", "Noon", "Afternoon", "Evening", "Night"];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function routineRef(routineId: string): DocumentReference {
+    return getAdminDb().collection("sharedRoutines").doc(routineId);
+}
+
+async function getRoutineForMember(userId: string, routineId: string): Promise<SharedRoutine> {
+    const snapshot = await routineRef(routineId).get();
+    if (!snapshot.exists) throw new NotFoundError("Shared routine");
+
+    const routine = parseSharedRoutine(snapshot.id, snapshot.data()!);
+    if (!routine.memberIds.includes(userId)) {
+        throw new AuthorizationError("You are not a member of this routine");
+    }
+    return routine;
+}
+
+async function loadMembers(routineId: string): Promise<SharedRoutineMember[]> {
+    const snapshot = await routineRef(routineId).collection("members").get();
+    return snapshot.docs.map(d => parseMember(d.id, d.data()));
+}
+
+async function countRoutines(userId: string): Promise<number> {
+    const snapshot = await getAdminDb().collection("sharedRoutines").where("memberIds", "array-contains", userId).get();
+    return snapshot.size;
+}
+
+async function createMember(routineId: string, userId: string, timezone: string): Promise<void> {
+    const profile = (await getAdminDb().collection("users").doc(userId).get()).data();
+    await routineRef(routineId).collection("members").doc(userId).set({
+        name: toFriendProfile(userId, profile).name,
+        joinedDate: getLocalDateString(timezone),
+        completionHistory: [],
+    });
+}
+
+/**
+ * Store the group streak, returning it
+ */
+async function refreshGroupStreak(routine: SharedRoutine, members: SharedRoutineMember[], now: Date) {
+    const result = calculateGroupStreak(routine.days, members, getZonedDate(routine.timezone, now));
+    const longestGroupStreak = Math.max(result.longestStreak, routine.longestGroupStreak);
+
+    if (result.streak !== routine.groupStreak || longestGroupStreak !== routine.longestGroupStreak) {
+        await routineRef(routine.id).update({ groupStreak: result.streak, longestGroupStreak });
+    }
+    return { streak: result.streak, longestStreak: longestGroupStreak };
+}
+
+/**
+ * Notify one member, at most once per notification id
+ */
+async function notifyMember(
+    userId: string,
+    notificationId: string,
+    notification: { title: string; message: string; type: "info" | "success" | "warning" }
+): Promise<void> {
+    const ref = getAdminDb().collection("users").doc(userId).collection("notifications").doc(notificationId);
+
+    try {
+        // create() fails if this member was already told (e.g. a partner re-checking in)
+        await ref.create({
+            ...notification,
+            category: "social",
+            link: "/together",
+            read: false,
+            createdAt: FieldValue.serverTimestamp(),
+        });
+    } catch (error) {
+        if ((error as { code?: number }).code === 6) return; // 6 = ALREADY_EXISTS
+        throw error;
+    }
+
+    await sendPushNotification(
+        userId,
+        {
+            title: notification.title,
+            body: notification.message,
+            tag: `shared-${notificationId}`,
+            data: { type: "shared-routine", url: "/together" },
+        },
+        { ttl: 12 * 60 * 60, urgency: "low" }
+    );
+}
+
+// ============================================================================
+// ROUTINES & MEMBERSHIP
+// ============================================================================
+
+/**
+ * Create a shared routine with the user as its first member
+ */
+export async function createSharedRoutine(userId: string, input: NewSharedRoutine): Promise<SharedRoutine> {
+    const title = typeof input.title === "string" ? input.title.trim() : "";
+    if (!title || title.length > SHARED_ROUTINE_LIMITS.maxTitleLength) {
+        throw new ValidationError(`Titles must be 1-${SHARED_ROUTINE_LIMITS.maxTitleLength} characters`);
+    }
+
+    const days = Array.isArray(input.days) ? Array.from(new Set(input.days)) : [];
+    if (days.length === 0 || days.some(day => !WEEKDAY_CODES.includes(day))) {
+        throw new ValidationError(`days must list one or more of: ${WEEKDAY_CODES.join(", ")}`);
+    }
+
+    const timeBlock = typeof input.timeBlock === "string" && TIME_BLOCKS.includes(input.timeBlock) ? input.timeBlock : "Morning";
+    const icon = typeof input.icon === "string" && input.icon.length <= 20 ? input.icon : "🤝";
+
+    if (await countRoutines(userId) >= SHARED_ROUTINE_LIMITS.maxRoutinesPerUser) {
+        throw new ConflictError(`You can be in at most ${SHARED_ROUTINE_LIMITS.maxRoutinesPerUser} shared routines`);
+    }
+
+    const db = getAdminDb();
+    const profile = (await db.collection("users").doc(userId).get()).data();
+    const ref = db.collection("sharedRoutines").doc();
+    const inviteCode = await createInviteCode(db, "routine", ref.id);
+
+    const data = {
+        title,
+        icon,
+        timeBlock,
+        days: days as string[],
+        ownerId: userId,
+        memberIds: [userId],
+        inviteCode,
+        timezone: resolveUserTimezone(profile),
+        createdAt: new Date().toISOString(),
+        groupStreak: 0,
+        longestGroupStreak: 0,
+    };
+    await ref.set(data);
+    await createMember(ref.id, userId, data.timezone);
+
+    return { id: ref.id, ...data };
+}
+
+/**
+ * Join the shared routine an invite code belongs to
+ */
+export async function joinSharedRoutine(userId: string, rawCode: unknown): Promise<SharedRoutine> {
+    const db = getAdminDb();
+    const routineId = await resolveInviteCode(db, rawCode, "routine");
+    const ref = routineRef(routineId);
+
+    const current = await ref.get();
+    if (!current.exists) throw new NotFoundError("Shared routine");
+    if ((current.data()!.memberIds || []).includes(userId)) {
+        return parseSharedRoutine(current.id, current.data()!);
+    }
+
+    if (await countRoutines(userId) >= SHARED_ROUTINE_LIMITS.maxRoutinesPerUser) {
+        throw new ConflictError(`You can be in at most ${SHARED_ROUTINE_LIMITS.maxRoutinesPerUser} shared routines`);
+    }
+
+    const routine = await db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(ref);
+        if (!snapshot.exists) throw new NotFoundError("Shared routine");
+
+        const found = parseSharedRoutine(snapshot.id, snapshot.data()!);
+        if (found.memberIds.length >= SHARED_ROUTINE_LIMITS.maxMembers) {
+            throw new ConflictError(`This routine is full (${SHARED_ROUTINE_LIMITS.maxMembers} members)`);
+        }
+
+        transaction.update(ref, { memberIds: FieldValue.arrayUnion(userId) });
+        return { ...found, memberIds: [...found.memberIds, userId] };
+    });
+
+    await createMember(routineId, userId, routine.timezone);
+    return routine;
+}
+
+/**
+ * Leave a shared routine. Ownership passes to the next member; the last
+ * member leaving deletes the routine.
+ */
+export async function leaveSharedRoutine(userId: string, routineId: string): Promise<void> {
+    const db = getAdminDb();
+    const ref = routineRef(routineId);
+
+    const deleted = await db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(ref);
+        if (!snapshot.exists) throw new NotFoundError("Shared routine");
+
+        const routine = parseSharedRoutine(snapshot.id, snapshot.data()!);
+        if (!routine.memberIds.includes(userId)) return false;
+
+        const remaining = routine.memberIds.filter(id => id !== userId);
+        transaction.delete(ref.collection("members").doc(userId));
+
+        if (remaining.length === 0) {
+            transaction.delete(ref);
+            transaction.delete(db.collection("inviteCodes").doc(routine.inviteCode));
+            return true;
+        }
+
+        transaction.update(ref, {
+            memberIds: FieldValue.arrayRemove(userId),
+            ...(routine.ownerId === userId && { ownerId: remaining[0] }),
+        });
+        return false;
+    });
+
+    if (!deleted) {
+        // Someone who never checked in may have been holding the streak back
+        const routine = parseSharedRoutine(routineId, (await ref.get()).data()!);
+        await refreshGroupStreak(routine, await loadMembers(routineId), new Date());
+    }
+}
+
+// ============================================================================
+// CHECK-INS
+// ============================================================================
+
+/**
+ * Record (or undo) the user's check-in for today or yesterday, and tell the
+ * other members
+ */
+export async function checkInSharedRoutine(
+    userId: string,
+    routineId: string,
+    options: { completed: boolean; date?: unknown; now?: Date }
+): Promise<{ groupStreak: number }> {
+    const now = options.now ?? new Date();
+    const routine = await getRoutineForMember(userId, routineId);
+    const allowed = getCheckInDates(getZonedDate(routine.timezone, now));
+
+    const date = options.date === undefined ? allowed[0] : options.date;
+    if (typeof date !== "string" || !allowed.includes(date)) {
+        throw new ValidationError("You can only check in for today or yesterday");
+    }
+
+    await routineRef(routineId).collection("members").doc(userId).update({
+        completionHistory: options.completed ? FieldValue.arrayUnion(date) : FieldValue.arrayRemove(date),
+    });
+
+    const members = await loadMembers(routineId);
+    const { streak } = await refreshGroupStreak(routine, members, now);
+
+    if (options.completed) {
+        const self = members.find(m => m.userId === userId);
+        const everyone = isGroupDayComplete(members, date);
+        const message = everyone
+            ? `Everyone's done. Group streak: ${streak} day${streak === 1 ? "" : "s"} 🔥`
+            : `${self?.name || "Your partner"} checked in. Your turn!`;
+
+        await Promise.all(members
+            .filter(m => m.userId !== userId)
+            .map(m => notifyMember(m.userId, `shared_${routineId}_${userId}_${date}`, {
+                title: `${routine.icon} ${routine.title}`,
+                message,
+                type: "success",
+            }).catch(error => {
+                logger.warn("Failed to notify shared routine member", error, {
+                    userId: m.userId,
+                    action: "sharedRoutines/checkIn",
+                });
+            })));
+    }
+
+    return { groupStreak: streak };
+}
+
+/**
+ * Tell every member who missed yesterday (in the routine's timezone), and
+ * update the group streak. Safe to run more than once a day.
+ * Returns how many members missed.
+ */
+export async function processMissedCheckIns(routineId: string, data: DocumentData, now: Date = new Date()): Promise<number> {
+    const routine = parseSharedRoutine(routineId, data);
+    const members = await loadMembers(routineId);
+    const yesterday = getCheckInDates(getZonedDate(routine.timezone, now))[1];
+
+    const previousStreak = routine.groupStreak;
+    const { streak } = await refreshGroupStreak(routine, members, now);
+
+    const missed = getMissedMembers(routine.days, members, yesterday);
+    if (missed.length === 0) return 0;
+
+    const names = missed.map(m => m.name).join(", ");
+    const streakNote = previousStreak > 0 && streak === 0 ? ` The ${previousStreak}-day group streak was reset.` : "";
+
+    await Promise.all(members.map(member => {
+        const missedSelf = missed.some(m => m.userId === member.userId);
+        const others = missed.filter(m => m.userId !== member.userId).map(m => m.name).join(", ");
+
+        return notifyMember(member.userId, `shared_missed_${routineId}_${yesterday}`, {
+            title: `${routine.icon} ${routine.title}`,
+            message: missedSelf
+                ? `You${others ? ` and ${others}` : ""} missed yesterday.${streakNote}`
+                : `${names} missed yesterday.${streakNote}`,
+            type: "warning",
+        });
+    }));
+
+    return missed.length;
+}
@@ -0,0 +1,175 @@
+// ============================================================================
+// SHARED ROUTINE UTILITIES
+// ============================================================================
+// A shared routine is one task ("gym together MON/WED/FRI") with several
+// members, each keeping their own completionHistory. A day counts for the
+// group when every member expected that day checked in; the group streak is
+// the run of such days, skipping days the routine isn't scheduled.
+//
+// Members are only expected from the day they joined, so someone joining
+// mid-streak doesn't break it. Days are "yyyy-MM-dd" in the routine's own
+// timezone, so all members share the same day boundary.
+//
+// Used by sharedRoutineService, the shared-routines cron and the Together
+// page, so this module must stay free of browser and Firebase dependencies.
+
+import { format, subDays } from "date-fns";
+import { isTaskScheduledOn } from "@/lib/recurrenceUtils";
+import { DEFAULT_TIMEZONE, isValidTimezone } from "@/lib/timezoneUtils";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface SharedRoutine {
+    id: string;
+    title: string;
+    icon: string;
+    timeBlock: string;
+    days: string[];
+    ownerId: string;
+    memberIds: string[];
+    inviteCode: string;
+    timezone: string;
+    createdAt: string;
+    groupStreak: number;
+    longestGroupStreak: number;
+}
+
+export interface SharedRoutineMember {
+    userId: string;
+    name: string;
+    joinedDate: string;
+    completionHistory: string[];
+}
+
+export interface GroupStreak {
+    streak: number;
+    longestStreak: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SHARED_ROUTINE_LIMITS = {
+    maxMembers: 10,
+    maxRoutinesPerUser: 20,
+    maxTitleLength: 100,
+};
+
+// How many days of history are scanned for the group streak
+const STREAK_WINDOW_DAYS = 365;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Read a sharedRoutines/{routineId} document
+ */
+export function parseSharedRoutine(id: string, data: Record<string, unknown>): SharedRoutine {
+    return {
+        id,
+        title: String(data.title || ""),
+        icon: typeof data.icon === "string" && data.icon ? data.icon : "🤝",
+        timeBlock: typeof data.timeBlock === "string" ? data.timeBlock : "Morning",
+        days: Array.isArray(data.days) ? data.days : [],
+        ownerId: String(data.ownerId || ""),
+        memberIds: Array.isArray(data.memberIds) ? data.memberIds : [],
+        inviteCode: String(data.inviteCode || ""),
+        timezone: isValidTimezone(data.timezone) ? data.timezone : DEFAULT_TIMEZONE,
+        createdAt: String(data.createdAt || ""),
+        groupStreak: typeof data.groupStreak === "number" ? data.groupStreak : 0,
+        longestGroupStreak: typeof data.longestGroupStreak === "number" ? data.longestGroupStreak : 0,
+    };
+}
+
+/**
+ * Read a sharedRoutines/{routineId}/members/{userId} document
+ */
+export function parseMember(userId: string, data: Record<string, unknown>): SharedRoutineMember {
+    return {
+        userId,
+        name: typeof data.name === "string" && data.name ? data.name : "Partner",
+        joinedDate: typeof data.joinedDate === "string" ? data.joinedDate : "",
+        completionHistory: Array.isArray(data.completionHistory) ? data.completionHistory : [],
+    };
+}
+
+// ============================================================================
+// CHECK-INS
+// ============================================================================
+
+/**
+ * Members who are expected to check in on a date
+ */
+export function getExpectedMembers(members: SharedRoutineMember[], dateStr: string): SharedRoutineMember[] {
+    return members.filter(member => member.joinedDate <= dateStr);
+}
+
+/**
+ * Expected members who didn't check in on a scheduled date
+ */
+export function getMissedMembers(days: string[], members: SharedRoutineMember[], dateStr: string): SharedRoutineMember[] {
+    if (!isTaskScheduledOn({ days }, dateStr)) return [];
+    return getExpectedMembers(members, dateStr).filter(member => !member.completionHistory.includes(dateStr));
+}
+
+/**
+ * Whether every expected member checked in on a date
+ */
+export function isGroupDayComplete(members: SharedRoutineMember[], dateStr: string): boolean {
+    const expected = getExpectedMembers(members, dateStr);
+    return expected.length > 0 && expected.every(member => member.completionHistory.includes(dateStr));
+}
+
+/**
+ * The dates a member may check in for: today and (late) yesterday
+ */
+export function getCheckInDates(today: Date): string[] {
+    return [format(today, "yyyy-MM-dd"), format(subDays(today, 1), "yyyy-MM-dd")];
+}
+
+// ============================================================================
+// GROUP STREAK
+// ============================================================================
+
+/**
+ * Calculate the group's current and longest streak.
+ * `today` is the wall-clock date in the routine's timezone; today doesn't
+ * break the streak while members still have time to check in.
+ */
+export function calculateGroupStreak(days: string[], members: SharedRoutineMember[], today: Date): GroupStreak {
+    const scheduledDates: string[] = [];
+    for (let i = STREAK_WINDOW_DAYS - 1; i >= 0; i--) {
+        const dateStr = format(subDays(today, i), "yyyy-MM-dd");
+        if (isTaskScheduledOn({ days }, dateStr) && getExpectedMembers(members, dateStr).length > 0) {
+            scheduledDates.push(dateStr);
+        }
+    }
+
+    const todayStr = format(today, "yyyy-MM-dd");
+
+    let streak = 0;
+    for (let i = scheduledDates.length - 1; i >= 0; i--) {
+        if (isGroupDayComplete(members, scheduledDates[i])) {
+            streak++;
+        } else if (scheduledDates[i] !== todayStr) {
+            break;
+        }
+    }
+
+    let longestStreak = streak;
+    let run = 0;
+    for (const dateStr of scheduledDates) {
+        if (isGroupDayComplete(members, dateStr)) {
+            run++;
+            longestStreak = Math.max(longestStreak, run);
+        } else if (dateStr !== todayStr) {
+            run = 0;
+        }
+    }
+
+    return { streak, longestStreak };
+}
@@ -0,0 +1,375 @@
+// ============================================================================
+// FRIENDS & GROUPS (SERVER-ONLY)
+// ============================================================================
+// Who a user competes with on the friends and group leaderboards.
+//
+//   groups/{groupId}               name, ownerId, inviteCode, memberIds
+//   users/{uid}/friends/{friendId} one doc per friend, on both sides
+//   inviteCodes/{code}             which group, user or shared routine a code belongs to
+//
+// Joining works by invite code: a group's code lets anyone join that group,
+// a user's friend code lets anyone add them as a friend (shared routines use
+// the same codes, see sharedRoutineService). Sharing the code is
+// the consent, so there are no pending requests, and a friend code is only
+// ever kept in inviteCodes, which no client can read. Security rules only let
+// clients read their own groups and friends; every write goes through here
+// with firebase-admin.
+
+import { randomInt } from "crypto";
+import { FieldValue, type DocumentData, type Firestore } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from "@/lib/apiHelpers";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface Group {
+    id: string;
+    name: string;
+    ownerId: string;
+    inviteCode: string;
+    memberIds: string[];
+    createdAt: string;
+}
+
+export interface FriendProfile {
+    id: string;
+    name: string;
+    username: string;
+    avatar?: string;
+}
+
+interface InviteCode {
+    type: "group" | "friend" | "routine";
+    targetId: string;
+    createdAt: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SOCIAL_LIMITS = {
+    maxGroupMembers: 50,
+    maxGroupsPerUser: 20,
+    maxFriends: 200,
+    maxGroupNameLength: 50,
+};
+
+// No 0/O or 1/I/L, so codes survive being read out loud
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+export const INVITE_CODE_PATTERN = new RegExp(`^[${CODE_ALPHABET}]{${CODE_LENGTH}}$`);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Normalise a code the user typed ("abcd-efgh" → "ABCDEFGH")
+ */
+function normaliseCode(raw: unknown): string {
+    const code = typeof raw === "string" ? raw.toUpperCase().replace(/[\s-]/g, "") : "";
+    if (!INVITE_CODE_PATTERN.test(code)) {
+        throw new ValidationError("That invite code isn't valid");
+    }
+    return code;
+}
+
+function generateCode(): string {
+    let code = "";
+    for (let i = 0; i < CODE_LENGTH; i++) {
+        code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+}
+
+/**
+ * Reserve a fresh invite code for a group, user or shared routine
+ */
+export async function createInviteCode(db: Firestore, type: InviteCode["type"], targetId: string): Promise<string> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const code = generateCode();
+        try {
+            // create() fails if the code is already taken
+            await db.collection("inviteCodes").doc(code).create({
+                type,
+                targetId,
+                createdAt: new Date().toISOString(),
+            } satisfies InviteCode);
+            return code;
+        } catch (error) {
+            if ((error as { code?: number }).code !== 6) throw error; // 6 = ALREADY_EXISTS
+        }
+    }
+    throw new Error("Could not generate a unique invite code");
+}
+
+const INVITE_TARGETS: Record<InviteCode["type"], string> = {
+    group: "Group",
+    friend: "User with that friend code",
+    routine: "Shared routine",
+};
+
+/**
+ * The group, user or shared routine an invite code the user typed belongs to
+ */
+export async function resolveInviteCode(db: Firestore, raw: unknown, type: InviteCode["type"]): Promise<string> {
+    const code = normaliseCode(raw);
+    const invite = (await db.collection("inviteCodes").doc(code).get()).data() as InviteCode | undefined;
+    if (!invite || invite.type !== type) {
+        throw new NotFoundError(INVITE_TARGETS[type]);
+    }
+    return invite.targetId;
+}
+
+function toGroup(id: string, data: DocumentData): Group {
+    return {
+        id,
+        name: data.name,
+        ownerId: data.ownerId,
+        inviteCode: data.inviteCode,
+        memberIds: data.memberIds || [],
+        createdAt: data.createdAt,
+    };
+}
+
+/**
+ * The public parts of a users/{uid} document
+ */
+export function toFriendProfile(id: string, data: DocumentData | undefined): FriendProfile {
+    return {
+        id,
+        name: data?.displayName || "Anonymous",
+        username: String(data?.username || "user").replace(/^@/, ""),
+        avatar: data?.photoURL || undefined,
+    };
+}
+
+// ============================================================================
+// GROUPS
+// ============================================================================
+
+/**
+ * Groups the user is a member of
+ */
+export async function listGroups(userId: string): Promise<Group[]> {
+    const snapshot = await getAdminDb().collection("groups").where("memberIds", "array-contains", userId).get();
+    return snapshot.docs
+        .map(d => toGroup(d.id, d.data()))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * A group the user belongs to
+ */
+export async function getGroupForMember(userId: string, groupId: string): Promise<Group> {
+    const snapshot = await getAdminDb().collection("groups").doc(groupId).get();
+    if (!snapshot.exists) throw new NotFoundError("Group");
+
+    const group = toGroup(snapshot.id, snapshot.data()!);
+    if (!group.memberIds.includes(userId)) {
+        throw new AuthorizationError("You are not a member of this group");
+    }
+    return group;
+}
+
+/**
+ * Create a group with the user as owner and only member
+ */
+export async function createGroup(userId: string, rawName: unknown): Promise<Group> {
+    const name = typeof rawName === "string" ? rawName.trim() : "";
+    if (!name || name.length > SOCIAL_LIMITS.maxGroupNameLength) {
+        throw new ValidationError(`Group names must be 1-${SOCIAL_LIMITS.maxGroupNameLength} characters`);
+    }
+
+    const existing = await listGroups(userId);
+    if (existing.length >= SOCIAL_LIMITS.maxGroupsPerUser) {
+        throw new ConflictError(`You can be in at most ${SOCIAL_LIMITS.maxGroupsPerUser} groups`);
+    }
+
+    const db = getAdminDb();
+    const groupRef = db.collection("groups").doc();
+    const inviteCode = await createInviteCode(db, "group", groupRef.id);
+
+    const data = {
+        name,
+        ownerId: userId,
+        inviteCode,
+        memberIds: [userId],
+        createdAt: new Date().toISOString(),
+    };
+    await groupRef.set(data);
+
+    return { id: groupRef.id, ...data };
+}
+
+/**
+ * Join the group an invite code belongs to
+ */
+export async function joinGroup(userId: string, rawCode: unknown): Promise<Group> {
+    const db = getAdminDb();
+    const groupId = await resolveInviteCode(db, rawCode, "group");
+
+    const existing = await listGroups(userId);
+    const already = existing.find(g => g.id === groupId);
+    if (already) return already;
+    if (existing.length >= SOCIAL_LIMITS.maxGroupsPerUser) {
+        throw new ConflictError(`You can be in at most ${SOCIAL_LIMITS.maxGroupsPerUser} groups`);
+    }
+
+    const groupRef = db.collection("groups").doc(groupId);
+    return db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(groupRef);
+        if (!snapshot.exists) throw new NotFoundError("Group");
+
+        const group = toGroup(snapshot.id, snapshot.data()!);
+        if (group.memberIds.length >= SOCIAL_LIMITS.maxGroupMembers) {
+            throw new ConflictError(`This group is full (${SOCIAL_LIMITS.maxGroupMembers} members)`);
+        }
+
+        transaction.update(groupRef, { memberIds: FieldValue.arrayUnion(userId) });
+        return { ...group, memberIds: [...group.memberIds, userId] };
+    });
+}
+
+/**
+ * Leave a group. Ownership passes to the longest-standing member; the last
+ * member leaving deletes the group and its invite code.
+ */
+export async function leaveGroup(userId: string, groupId: string): Promise<void> {
+    const db = getAdminDb();
+    const groupRef = db.collection("groups").doc(groupId);
+
+    await db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(groupRef);
+        if (!snapshot.exists) throw new NotFoundError("Group");
+
+        const group = toGroup(snapshot.id, snapshot.data()!);
+        if (!group.memberIds.includes(userId)) return;
+
+        const remaining = group.memberIds.filter(id => id !== userId);
+        if (remaining.length === 0) {
+            transaction.delete(groupRef);
+            transaction.delete(db.collection("inviteCodes").doc(group.inviteCode));
+            return;
+        }
+
+        transaction.update(groupRef, {
+            memberIds: FieldValue.arrayRemove(userId),
+            ...(group.ownerId === userId && { ownerId: remaining[0] }),
+        });
+    });
+}
+
+// ============================================================================
+// FRIENDS
+// ============================================================================
+
+/**
+ * Friend codes used to be kept on the profile, which any signed-in user can
+ * read. A code stored there was never private, so it's retired rather than
+ * moved: its invite is deleted along with the field.
+ */
+async function retireProfileFriendCode(db: Firestore, userId: string, profile: DocumentData | undefined): Promise<boolean> {
+    const code = profile?.friendCode;
+    if (code === undefined) return false;
+
+    const batch = db.batch();
+    if (typeof code === "string" && INVITE_CODE_PATTERN.test(code)) {
+        batch.delete(db.collection("inviteCodes").doc(code));
+    }
+    batch.update(db.collection("users").doc(userId), { friendCode: FieldValue.delete() });
+    await batch.commit();
+    return true;
+}
+
+/**
+ * The user's friend code, created the first time it's asked for
+ */
+export async function getFriendCode(userId: string): Promise<string> {
+    const db = getAdminDb();
+    await retireProfileFriendCode(db, userId, (await db.collection("users").doc(userId).get()).data());
+
+    const existing = await db.collection("inviteCodes")
+        .where("targetId", "==", userId)
+        .where("type", "==", "friend")
+        .limit(1)
+        .get();
+    if (!existing.empty) return existing.docs[0].id;
+
+    return createInviteCode(db, "friend", userId);
+}
+
+/**
+ * IDs of the user's friends
+ */
+export async function listFriendIds(userId: string): Promise<string[]> {
+    const snapshot = await getAdminDb().collection("users").doc(userId).collection("friends").get();
+    return snapshot.docs.map(d => d.id);
+}
+
+/**
+ * The user's friends with their public profile
+ */
+export async function listFriends(userId: string): Promise<FriendProfile[]> {
+    const db = getAdminDb();
+    const friendIds = await listFriendIds(userId);
+    if (friendIds.length === 0) return [];
+
+    const snapshots = await db.getAll(...friendIds.map(id => db.collection("users").doc(id)));
+    return snapshots
+        .filter(s => s.exists)
+        .map(s => toFriendProfile(s.id, s.data()))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Add the owner of a friend code as a friend (on both sides)
+ */
+export async function addFriend(userId: string, rawCode: unknown): Promise<FriendProfile> {
+    const db = getAdminDb();
+    const friendId = await resolveInviteCode(db, rawCode, "friend");
+    if (friendId === userId) {
+        throw new ValidationError("That's your own friend code");
+    }
+
+    const [friendSnapshot, ownFriends, theirFriends] = await Promise.all([
+        db.collection("users").doc(friendId).get(),
+        listFriendIds(userId),
+        listFriendIds(friendId),
+    ]);
+    if (!friendSnapshot.exists) throw new NotFoundError("User with that friend code");
+
+    // Anyone could have read a code from the profile, so it doesn't count as shared
+    if (await retireProfileFriendCode(db, friendId, friendSnapshot.data())) {
+        throw new NotFoundError("User with that friend code");
+    }
+
+    if (!ownFriends.includes(friendId)) {
+        if (ownFriends.length >= SOCIAL_LIMITS.maxFriends || theirFriends.length >= SOCIAL_LIMITS.maxFriends) {
+            throw new ConflictError(`Friend lists are limited to ${SOCIAL_LIMITS.maxFriends} people`);
+        }
+
+        const since = new Date().toISOString();
+        const batch = db.batch();
+        batch.set(db.collection("users").doc(userId).collection("friends").doc(friendId), { since });
+        batch.set(db.collection("users").doc(friendId).collection("friends").doc(userId), { since });
+        await batch.commit();
+    }
+
+    return toFriendProfile(friendId, friendSnapshot.data());
+}
+
+/**
+ * Remove a friend (on both sides)
+ */
+export async function removeFriend(userId: string, friendId: string): Promise<void> {
+    const db = getAdminDb();
+    const batch = db.batch();
+    batch.delete(db.collection("users").doc(userId).collection("friends").doc(friendId));
+    batch.delete(db.collection("users").doc(friendId).collection("friends").doc(userId));
+    await batch.commit();
+}
@@ -0,0 +1,296 @@
+// ============================================================================
+// STATS & SCORING UTILITIES
+// ============================================================================
+// The one place user stats and leaderboard scores are calculated. Used by
+// /api/stats/calculate, the streak-recalculation cron and the server-side
+// scoring service, so a streak or score means the same thing everywhere.
+//
+// Completion dates come from task completionHistory, which the owner can
+// write directly, so only verified completions are counted: well-formed
+// dates, not in the user's future, not before the task existed, and each
+// task at most once per day. The task's createdAt is client-written too, so
+// the server also passes the account's creation date from the auth record
+// (AccountOrigin); nothing dated before it counts. Score is derived from
+// those, never stored as a running total the client could bump.
+//
+// Weekly and monthly scores count the verified completions inside the
+// current ISO week / calendar month, tagged with that period's key so a score
+// from last week never shows on this week's board.
+//
+// Pure functions only (no Firebase), dates are "yyyy-MM-dd" in the user's
+// timezone (see timezoneUtils).
+
+import { format, getISOWeek, getISOWeekYear, startOfISOWeek, startOfMonth, subDays } from "date-fns";
+import { VacationRange, isStreakFrozenDay, isTaskPausedOn } from "@/lib/vacationUtils";
+import { TaskRecurrence, isTaskScheduledOn } from "@/lib/recurrenceUtils";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface StatsTask {
+    id: string;
+    completionHistory?: string[];
+    days: string[];
+    specificDate?: string;
+    recurrence?: TaskRecurrence;
+    createdAt?: unknown; // Firestore Timestamp, ISO string or epoch millis
+}
+
+export interface CalculatedStats {
+    score: number;
+    totalCompleted: number;
+    totalTasks: number;
+    totalTasksToday: number;
+    completedTasksToday: number;
+    dailyProgress: number;
+    completionRate: number; // Last 7 days
+    streak: number;
+    longestStreak: number;
+    weeklyScore: number;
+    monthlyScore: number;
+    periods: ScorePeriods;
+}
+
+export type ScorePeriod = "all" | "week" | "month";
+
+/** Keys of the windows weekly/monthly scores belong to, e.g. "2026-W42" and "2026-10" */
+export interface ScorePeriods {
+    week: string;
+    month: string;
+}
+
+/** When the account was created, from the auth record rather than anything the client writes */
+export interface AccountOrigin {
+    createdAt: string; // ISO timestamp
+    createdDate: string; // The user's local date at createdAt
+}
+
+/** What the last accepted scoring run saw, kept on the user document */
+export interface ScoreSnapshot {
+    totalCompleted: number;
+    scoredAt: string; // ISO timestamp
+    scoredDate: string; // The user's local date at scoredAt
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SCORE_PER_COMPLETION = 10;
+
+// How many days of history are scanned for streaks
+const STREAK_WINDOW_DAYS = 365;
+
+export const SCORE_ANOMALY_LIMITS = {
+    // More new completions than this per elapsed day since the last run
+    maxCompletionsPerDay: 60,
+    // More completions than this appearing for days that were already scored
+    maxBackdatedCompletions: 30,
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+function getCreatedDate(createdAt: unknown): string | null {
+    let date: Date | null = null;
+
+    if (typeof createdAt === "string" || typeof createdAt === "number") {
+        date = new Date(createdAt);
+    } else if (createdAt && typeof (createdAt as { toDate?: unknown }).toDate === "function") {
+        date = (createdAt as { toDate: () => Date }).toDate();
+    }
+
+    return date && !isNaN(date.getTime()) ? format(date, "yyyy-MM-dd") : null;
+}
+
+/**
+ * The completion dates of a task that count towards stats and score
+ */
+export function getVerifiedCompletions(task: StatsTask, todayStr: string, origin?: AccountOrigin): string[] {
+    // A day of slack, since createdAt is stored in UTC and dates are local
+    const createdDate = getCreatedDate(task.createdAt);
+    const taskEarliest = createdDate ? format(subDays(new Date(`${createdDate}T00:00:00`), 1), "yyyy-MM-dd") : null;
+    const earliest = [taskEarliest, origin?.createdDate].filter(Boolean).sort().pop();
+
+    const dates = (task.completionHistory || []).filter(date =>
+        typeof date === "string"
+        && DATE_PATTERN.test(date)
+        && date <= todayStr
+        && (!earliest || date >= earliest)
+    );
+
+    return Array.from(new Set(dates));
+}
+
+/**
+ * Replace each task's history with its verified completions
+ */
+export function withVerifiedCompletions<T extends StatsTask>(tasks: T[], todayStr: string, origin?: AccountOrigin): T[] {
+    return tasks.map(task => ({ ...task, completionHistory: getVerifiedCompletions(task, todayStr, origin) }));
+}
+
+// ============================================================================
+// SCORE PERIODS
+// ============================================================================
+
+/**
+ * The week and month `today` falls in. Weeks are ISO weeks (Monday start).
+ */
+export function getScorePeriods(today: Date): ScorePeriods {
+    return {
+        week: `${getISOWeekYear(today)}-W${String(getISOWeek(today)).padStart(2, "0")}`,
+        month: format(today, "yyyy-MM"),
+    };
+}
+
+/**
+ * Score earned from `startStr` up to and including `todayStr`
+ */
+function getScoreSince(verified: StatsTask[], startStr: string, todayStr: string): number {
+    const count = verified.reduce(
+        (acc, t) => acc + t.completionHistory!.filter(date => date >= startStr && date <= todayStr).length,
+        0
+    );
+    return count * SCORE_PER_COMPLETION;
+}
+
+// ============================================================================
+// STATS
+// ============================================================================
+
+/**
+ * Calculate a user's stats and score.
+ * `today` is the user's wall-clock date (getZonedDate), so days roll over at their midnight.
+ */
+export function calculateUserStats(
+    tasks: StatsTask[],
+    vacations: VacationRange[],
+    today: Date,
+    origin?: AccountOrigin
+): CalculatedStats {
+    const todayStr = format(today, "yyyy-MM-dd");
+    const verified = withVerifiedCompletions(tasks, todayStr, origin);
+    const isDone = (task: StatsTask, dateStr: string) => task.completionHistory!.includes(dateStr);
+
+    // Total completed (all time)
+    const totalCompleted = verified.reduce((acc, t) => acc + t.completionHistory!.length, 0);
+
+    // Tasks for today
+    const tasksToday = verified.filter(t => isTaskScheduledOn(t, todayStr) && !isTaskPausedOn(t, todayStr, vacations));
+    const completedTasksToday = tasksToday.filter(t => isDone(t, todayStr)).length;
+    const dailyProgress = tasksToday.length > 0 ? Math.round((completedTasksToday / tasksToday.length) * 100) : 0;
+
+    // Completion rate (last 7 days); recurring tasks are paused during vacations
+    let scheduled = 0;
+    let completed = 0;
+
+    for (let i = 0; i < 7; i++) {
+        const dateStr = format(subDays(today, i), "yyyy-MM-dd");
+
+        verified.forEach(t => {
+            if (isTaskScheduledOn(t, dateStr) && !isTaskPausedOn(t, dateStr, vacations)) {
+                scheduled++;
+                if (isDone(t, dateStr)) completed++;
+            }
+        });
+    }
+    const completionRate = scheduled === 0 ? 0 : Math.round((completed / scheduled) * 100);
+
+    // Streaks: consecutive days with at least 1 completed task. Frozen vacation
+    // days are skipped, and today doesn't break a streak if nothing is done yet.
+    const anyDoneOn = (dateStr: string) => verified.some(t => isDone(t, dateStr));
+
+    let streak = 0;
+    for (let i = 0; i < STREAK_WINDOW_DAYS; i++) {
+        const dateStr = format(subDays(today, i), "yyyy-MM-dd");
+
+        if (anyDoneOn(dateStr)) {
+            streak++;
+        } else {
+            if (i === 0) continue;
+            if (isStreakFrozenDay(dateStr, vacations)) continue;
+            break;
+        }
+    }
+
+    let longestStreak = streak;
+    let run = 0;
+    for (let i = STREAK_WINDOW_DAYS - 1; i >= 0; i--) {
+        const dateStr = format(subDays(today, i), "yyyy-MM-dd");
+
+        if (anyDoneOn(dateStr)) {
+            run++;
+            longestStreak = Math.max(longestStreak, run);
+        } else if (i > 0 && !isStreakFrozenDay(dateStr, vacations)) {
+            run = 0;
+        }
+    }
+
+    const weeklyScore = getScoreSince(verified, format(startOfISOWeek(today), "yyyy-MM-dd"), todayStr);
+    const monthlyScore = getScoreSince(verified, format(startOfMonth(today), "yyyy-MM-dd"), todayStr);
+
+    return {
+        score: totalCompleted * SCORE_PER_COMPLETION,
+        totalCompleted,
+        totalTasks: tasks.length,
+        totalTasksToday: tasksToday.length,
+        completedTasksToday,
+        dailyProgress,
+        completionRate,
+        streak,
+        longestStreak,
+        weeklyScore,
+        monthlyScore,
+        periods: getScorePeriods(today),
+    };
+}
+
+// ============================================================================
+// ANOMALY DETECTION
+// ============================================================================
+
+/**
+ * Compare a new scoring run with the last accepted one. A first run is
+ * compared with an empty account on the day it was created.
+ * Returns why the jump looks wrong, or null if it's plausible.
+ */
+export function detectScoreAnomaly(
+    previous: ScoreSnapshot | null,
+    tasks: StatsTask[],
+    today: Date,
+    now: Date = new Date(),
+    origin?: AccountOrigin
+): string | null {
+    const baseline = previous
+        ?? (origin ? { totalCompleted: 0, scoredAt: origin.createdAt, scoredDate: origin.createdDate } : null);
+    if (!baseline) return null;
+
+    const todayStr = format(today, "yyyy-MM-dd");
+    const verified = withVerifiedCompletions(tasks, todayStr, origin);
+    const totalCompleted = verified.reduce((acc, t) => acc + t.completionHistory!.length, 0);
+
+    const elapsedDays = Math.max(1, Math.ceil((now.getTime() - new Date(baseline.scoredAt).getTime()) / (24 * 60 * 60 * 1000)));
+    const gained = totalCompleted - baseline.totalCompleted;
+    const allowed = SCORE_ANOMALY_LIMITS.maxCompletionsPerDay * elapsedDays;
+
+    if (gained > allowed) {
+        return `${gained} new completions in ${elapsedDays} day(s), more than the ${allowed} allowed`;
+    }
+
+    // Completions for days the last run already covered that it didn't see
+    const alreadyScored = verified.reduce(
+        (acc, t) => acc + t.completionHistory!.filter(date => date < baseline.scoredDate).length,
+        0
+    );
+    const backdated = alreadyScored - baseline.totalCompleted;
+
+    if (backdated > SCORE_ANOMALY_LIMITS.maxBackdatedCompletions) {
+        return `${backdated} completions added for days before ${baseline.scoredDate}`;
+    }
+
+    return null;
+}
@@ -0,0 +1,138 @@
+// ============================================================================
+// STRICT FOCUS UTILITIES
+// ============================================================================
+// Strict focus is an opt-in mode for focus sessions: while one is running,
+// links to blocked in-app routes or external sites are intercepted and the
+// attempt is counted as a distraction instead of navigating.
+//
+// A web app can't stop the user from opening another tab, so "sites" only
+// covers links followed from inside the app; leaving the tab is still
+// measured by the existing blur tracking.
+//
+// Settings are kept per device in localStorage (rt_strict_focus). This
+// module has no browser dependencies apart from that storage key.
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface StrictFocusSettings {
+    enabled: boolean;
+    blockedRoutes: string[];
+    blockedSites: string[];
+}
+
+export interface BlockedTarget {
+    kind: "route" | "site";
+    target: string; // route path or site hostname
+    label: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const STRICT_FOCUS_STORAGE_KEY = "rt_strict_focus";
+
+// In-app routes the user can choose to block
+export const BLOCKABLE_ROUTES = [
+    { path: "/leaderboard", label: "Leaderboard" },
+    { path: "/marketplace", label: "Marketplace" },
+    { path: "/together", label: "Together" },
+    { path: "/achievements", label: "Achievements" },
+    { path: "/analytics", label: "Analytics" },
+];
+
+export const DEFAULT_STRICT_FOCUS_SETTINGS: StrictFocusSettings = {
+    enabled: false,
+    blockedRoutes: ["/leaderboard", "/marketplace"],
+    blockedSites: [],
+};
+
+export const STRICT_FOCUS_LIMITS = {
+    maxSites: 50,
+};
+
+// The DistractionLogger reason recorded for each blocked attempt
+export const BLOCKED_ATTEMPT_REASON = "Blocked Site";
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * Read stored settings, falling back to the defaults for anything missing
+ */
+export function parseStrictFocusSettings(raw: unknown): StrictFocusSettings {
+    if (!raw || typeof raw !== "object") return DEFAULT_STRICT_FOCUS_SETTINGS;
+    const data = raw as Record<string, unknown>;
+
+    const routes = BLOCKABLE_ROUTES.map(route => route.path);
+    return {
+        enabled: data.enabled === true,
+        blockedRoutes: Array.isArray(data.blockedRoutes)
+            ? data.blockedRoutes.filter((path): path is string => routes.includes(path))
+            : DEFAULT_STRICT_FOCUS_SETTINGS.blockedRoutes,
+        blockedSites: Array.isArray(data.blockedSites)
+            ? data.blockedSites
+                .map(site => normalizeSite(String(site)))
+                .filter((site): site is string => site !== null)
+                .slice(0, STRICT_FOCUS_LIMITS.maxSites)
+            : [],
+    };
+}
+
+/**
+ * Turn "https://www.youtube.com/watch?v=..." or "youtube.com" into a
+ * hostname without "www.". Returns null for input that isn't a site.
+ */
+export function normalizeSite(input: string): string | null {
+    const trimmed = input.trim().toLowerCase();
+    if (!trimmed) return null;
+
+    try {
+        const url = new URL(trimmed.includes("://") ? trimmed : `https://${trimmed}`);
+        const hostname = url.hostname.replace(/^www\./, "");
+        return hostname.includes(".") ? hostname : null;
+    } catch {
+        return null;
+    }
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Whether an in-app path is one of the blocked routes (or below one)
+ */
+export function getBlockedRoute(pathname: string, settings: StrictFocusSettings): BlockedTarget | null {
+    const path = settings.blockedRoutes.find(route => pathname === route || pathname.startsWith(`${route}/`));
+    if (!path) return null;
+
+    const label = BLOCKABLE_ROUTES.find(route => route.path === path)?.label || path;
+    return { kind: "route", target: path, label };
+}
+
+/**
+ * Check where a link goes against the blocklist. Relative links are resolved
+ * against `origin`; same-origin links are matched as routes, others as sites.
+ */
+export function getBlockedTarget(href: string, settings: StrictFocusSettings, origin: string): BlockedTarget | null {
+    let url: URL;
+    try {
+        url = new URL(href, origin);
+    } catch {
+        return null;
+    }
+
+    if (url.origin === origin) {
+        return getBlockedRoute(url.pathname, settings);
+    }
+
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+    const hostname = url.hostname.replace(/^www\./, "");
+    const site = settings.blockedSites.find(blocked => hostname === blocked || hostname.endsWith(`.${blocked}`));
+    return site ? { kind: "site", target: site, label: site } : null;
+}
@@ -0,0 +1,144 @@
+// ============================================================================
+// TIMEZONE UTILITIES
+// ============================================================================
+// Each user's IANA timezone is stored in `settings.timezone` on users/{uid}.
+// "Today", "now" and day boundaries for that user are computed in their
+// timezone, so a routine done at 1 AM in Dhaka counts for the Dhaka date no
+// matter where the server or cron job runs.
+//
+// The helpers return "wall-clock" Dates: Date objects whose local fields
+// (getFullYear, getHours, ...) match the clock in the target timezone, so
+// date-fns arithmetic and `format` keep working unchanged on them.
+//
+// Shared by TaskContext and the cron jobs, so this module must stay free of
+// browser and Firebase dependencies.
+
+import { format } from "date-fns";
+
+// Used when a user has no (or an unknown) timezone saved
+export const DEFAULT_TIMEZONE = "UTC";
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = formatterCache.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone: timezone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "2-digit",
+            day: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+            second: "2-digit",
+        });
+        formatterCache.set(timezone, formatter);
+    }
+    return formatter;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check whether a value is an IANA timezone this runtime knows, e.g. "Asia/Dhaka"
+ */
+export function isValidTimezone(timezone: unknown): timezone is string {
+    if (typeof timezone !== "string" || timezone.length === 0 || timezone.length > 50) return false;
+
+    try {
+        getFormatter(timezone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get the timezone of the machine running this code (the browser on the client)
+ */
+export function getSystemTimezone(): string {
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Read the timezone from a raw users/{uid} document
+ */
+export function resolveUserTimezone(profile: unknown, fallback: string = DEFAULT_TIMEZONE): string {
+    const settings = (profile as { settings?: { timezone?: unknown } } | undefined)?.settings;
+    return isValidTimezone(settings?.timezone) ? settings.timezone : fallback;
+}
+
+// ============================================================================
+// WALL-CLOCK TIME
+// ============================================================================
+
+/**
+ * Get the wall-clock time in a timezone at a given instant
+ */
+export function getZonedDate(timezone: string, instant: Date = new Date()): Date {
+    const parts: Record<string, number> = {};
+    getFormatter(timezone).formatToParts(instant).forEach(part => {
+        if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+    });
+
+    return new Date(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+}
+
+/**
+ * Get the instant at which a timezone's clock shows a yyyy-MM-dd date and
+ * HH:mm time. Times skipped by a DST jump land just after it.
+ */
+export function getInstantForLocalTime(timezone: string, dateStr: string, time: string): Date {
+    const [year, month, day] = dateStr.split("-").map(Number);
+    const [hours, minutes] = time.split(":").map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+    const offsetAt = (instant: number) => {
+        const zoned = getZonedDate(timezone, new Date(instant));
+        return Date.UTC(
+            zoned.getFullYear(), zoned.getMonth(), zoned.getDate(),
+            zoned.getHours(), zoned.getMinutes(), zoned.getSeconds()
+        ) - instant;
+    };
+
+    // Guess with the offset at the wall-clock time, then correct it with the offset at the guess
+    const guess = wallClock - offsetAt(wallClock);
+    const corrected = wallClock - offsetAt(guess);
+    if (corrected + offsetAt(corrected) === wallClock) return new Date(corrected);
+
+    // The time doesn't exist (clocks sprang forward over it): one of the two is past the gap
+    return new Date(Math.max(guess, corrected));
+}
+
+/**
+ * Get today's yyyy-MM-dd date in a timezone
+ */
+export function getLocalDateString(timezone: string, instant: Date = new Date()): string {
+    return format(getZonedDate(timezone, instant), "yyyy-MM-dd");
+}
+
+/**
+ * Get the current HH:mm time in a timezone
+ */
+export function getLocalTimeString(timezone: string, instant: Date = new Date()): string {
+    return format(getZonedDate(timezone, instant), "HH:mm");
+}
+
+/**
+ * Check whether it is currently a given local hour (and optionally weekday, 0 = Sunday)
+ * in a timezone. Lets hourly cron runs pick out the users whose local
+ * morning or midnight it is.
+ */
+export function isLocalRunTime(
+    timezone: string,
+    target: { hour: number; weekday?: number },
+    instant: Date = new Date()
+): boolean {
+    const local = getZonedDate(timezone, instant);
+    if (local.getHours() !== target.hour) return false;
+    return target.weekday === undefined || local.getDay() === target.weekday;
+}
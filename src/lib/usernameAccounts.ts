@@ -0,0 +1,17 @@
+// ============================================================================
+// USERNAME ACCOUNTS
+// ============================================================================
+// Accounts registered with a username sign in to Firebase Auth as
+// `${username}${FAKE_DOMAIN}`, an address nobody can receive mail at. Once the
+// owner attaches and verifies a real email, that address replaces it and the
+// username stops working as a sign-in name. Shared by AuthContext and the
+// account API routes.
+
+export const FAKE_DOMAIN = "@routinetracker.local";
+
+/**
+ * Whether an auth email is a username placeholder rather than a real inbox
+ */
+export function isUsernameEmail(email: string | null | undefined): boolean {
+    return !email || email.toLowerCase().endsWith(FAKE_DOMAIN);
+}
@@ -0,0 +1,379 @@
+// ============================================================================
+// API V1 RESOURCES (SERVER-ONLY)
+// ============================================================================
+// The resources /api/v1 exposes, all stored under users/{uid}:
+//
+//   tasks/{taskId}              Task          (validateTask)
+//   goals/{goalId}              Goal          (validateGoal)
+//   focusSessions/{sessionId}   FocusSession  (validateFocusSession)
+//   moods/{date}                Mood          (validateMood)
+//
+// Each one is described by a ResourceDefinition, and the generic list / get /
+// create / update / delete below (and the route handlers built from them) do
+// the rest. Bodies are validated with the
+// same validators the app and backup restore use, against the whole document
+// as it would be after the write. Read-only fields (ids, timestamps,
+// completion history) are set by the server and ignored in bodies.
+
+import { v4 as uuidv4 } from "uuid";
+import { NextResponse } from "next/server";
+import { Timestamp, type DocumentData } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { ConflictError, NotFoundError, ValidationError } from "@/lib/apiHelpers";
+import { logger } from "@/lib/logger";
+import type { ApiScope } from "@/lib/integrations";
+import {
+    assertValid,
+    listPage,
+    parseListParams,
+    readBody,
+    toJson,
+    v1Route,
+    type ListParams,
+    type Page,
+} from "@/lib/apiV1";
+import { getAccountOrigin, recalculateUserScore } from "@/lib/scoringService";
+import { emitWebhookEvent } from "@/lib/webhookService";
+import { CalculatedStats, StatsTask, calculateUserStats } from "@/lib/statsUtils";
+import { parseVacations } from "@/lib/vacationUtils";
+import { getLocalDateString, getZonedDate, resolveUserTimezone } from "@/lib/timezoneUtils";
+import {
+    ValidationResult,
+    validateFocusSession,
+    validateGoal,
+    validateMood,
+    validateTask,
+} from "@/lib/validationSchemas";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ApiDocument = Record<string, unknown> & { id: string };
+
+export interface ResourceDefinition {
+    /** Name used in messages and the OpenAPI document, e.g. "Task" */
+    name: string;
+    collection: string;
+    /** Timestamp field lists are ordered by (newest first); document ID if unset */
+    orderBy?: string;
+    validate: (data: unknown) => ValidationResult;
+    /** Set by the server; dropped from request bodies */
+    readOnlyFields: string[];
+    /** Can be given on create but not changed afterwards */
+    immutableFields?: string[];
+    /** The ID a new document gets, and the fields it starts with */
+    create: (body: Record<string, unknown>, userId: string, now: Date) => { id: string; defaults: Record<string, unknown> };
+    /** Server-set fields written with every create and update */
+    stamp: (now: Date) => Record<string, unknown>;
+    /** Scopes that let personal access tokens read and write it; ID tokens only if unset */
+    scopes?: { read: ApiScope; write: ApiScope };
+    /** API shape (ISO strings) → what's stored, when they differ */
+    toStored?: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+// ============================================================================
+// DEFINITIONS
+// ============================================================================
+
+const isoStamp = (now: Date) => ({ updatedAt: now.toISOString() });
+
+export const TASKS: ResourceDefinition = {
+    name: "Task",
+    collection: "tasks",
+    validate: validateTask,
+    scopes: { read: "tasks:read", write: "tasks:write" },
+    readOnlyFields: ["id", "isCompleted", "completionHistory", "lastCompletedDate", "createdAt", "updatedAt"],
+    create: (_body, _userId, now) => ({
+        id: uuidv4(),
+        defaults: { isCompleted: false, completionHistory: [], createdAt: now.toISOString() },
+    }),
+    stamp: isoStamp,
+};
+
+export const GOALS: ResourceDefinition = {
+    name: "Goal",
+    collection: "goals",
+    validate: validateGoal,
+    readOnlyFields: ["id", "createdAt", "updatedAt"],
+    create: (_body, _userId, now) => ({
+        id: uuidv4(),
+        defaults: { isCompleted: false, milestones: [], progress: 0, category: "", createdAt: now.toISOString() },
+    }),
+    stamp: isoStamp,
+};
+
+export const FOCUS_SESSIONS: ResourceDefinition = {
+    name: "FocusSession",
+    collection: "focusSessions",
+    orderBy: "createdAt",
+    validate: validateFocusSession,
+    readOnlyFields: ["id", "userId", "endTime", "createdAt", "updatedAt"],
+    create: (_body, userId, now) => ({
+        id: getAdminDb().collection("users").doc().id,
+        defaults: { userId, preset: "custom", abandoned: false, notes: null, createdAt: now.toISOString() },
+    }),
+    stamp: isoStamp,
+    // Stored with Timestamps like the sessions the focus timer writes
+    toStored: data => {
+        const startTime = new Date(String(data.startTime));
+        const endTime = new Date(startTime.getTime() + Number(data.duration) * 60 * 1000);
+        return {
+            ...data,
+            startTime: Timestamp.fromDate(startTime),
+            endTime: Timestamp.fromDate(endTime),
+            createdAt: Timestamp.fromDate(new Date(String(data.createdAt))),
+            updatedAt: Timestamp.fromDate(new Date(String(data.updatedAt))),
+        };
+    },
+};
+
+export const MOODS: ResourceDefinition = {
+    name: "Mood",
+    collection: "moods",
+    validate: validateMood,
+    readOnlyFields: ["id", "timestamp"],
+    immutableFields: ["date"],
+    // One entry per day, keyed by its date as MoodTracker does
+    create: body => ({ id: String(body.date), defaults: {} }),
+    stamp: now => ({ timestamp: now.toISOString() }),
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function collectionFor(resource: ResourceDefinition, userId: string) {
+    return getAdminDb().collection("users").doc(userId).collection(resource.collection);
+}
+
+function toApiDocument(id: string, data: DocumentData | undefined): ApiDocument {
+    return { ...(toJson(data ?? {}) as Record<string, unknown>), id };
+}
+
+function withoutFields(body: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(body).filter(([key]) => !fields.includes(key)));
+}
+
+/**
+ * The validated document as it's stored
+ */
+function toStored(resource: ResourceDefinition, document: ApiDocument): Record<string, unknown> {
+    assertValid(resource.validate(document), resource.name);
+
+    const data: Record<string, unknown> = { ...document };
+    delete data.id;
+    return resource.toStored ? resource.toStored(data) : data;
+}
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+export async function listResources(resource: ResourceDefinition, userId: string, params: ListParams): Promise<Page<ApiDocument>> {
+    const page = await listPage(collectionFor(resource, userId), params, resource.orderBy);
+    return { ...page, data: page.data.map(d => toApiDocument(d.id, d.data())) };
+}
+
+export async function getResource(resource: ResourceDefinition, userId: string, id: string): Promise<ApiDocument> {
+    const snapshot = await collectionFor(resource, userId).doc(id).get();
+    if (!snapshot.exists) throw new NotFoundError(resource.name);
+    return toApiDocument(snapshot.id, snapshot.data());
+}
+
+export async function createResource(
+    resource: ResourceDefinition,
+    userId: string,
+    body: Record<string, unknown>,
+    now: Date = new Date()
+): Promise<ApiDocument> {
+    const input = withoutFields(body, resource.readOnlyFields);
+    const { id, defaults } = resource.create(input, userId, now);
+    const document: ApiDocument = { ...defaults, ...input, ...resource.stamp(now), id };
+    const data = toStored(resource, document);
+
+    try {
+        await collectionFor(resource, userId).doc(id).create(data);
+    } catch (error) {
+        // gRPC ALREADY_EXISTS
+        if ((error as { code?: number }).code === 6) {
+            throw new ConflictError(`${resource.name} ${id} already exists`);
+        }
+        throw error;
+    }
+    return toApiDocument(id, data);
+}
+
+/**
+ * Apply a partial update (JSON merge patch: fields set to null are removed)
+ */
+export async function updateResource(
+    resource: ResourceDefinition,
+    userId: string,
+    id: string,
+    patch: Record<string, unknown>,
+    now: Date = new Date()
+): Promise<ApiDocument> {
+    const current = await getResource(resource, userId, id);
+
+    const immutable = (resource.immutableFields ?? []).filter(field => field in patch && patch[field] !== current[field]);
+    if (immutable.length > 0) {
+        throw new ValidationError(`${immutable.join(", ")} can't be changed`);
+    }
+
+    const merged: Record<string, unknown> = { ...current };
+    Object.entries(withoutFields(patch, resource.readOnlyFields)).forEach(([key, value]) => {
+        if (value === null) delete merged[key];
+        else merged[key] = value;
+    });
+
+    const data = toStored(resource, { ...merged, ...resource.stamp(now), id });
+    await collectionFor(resource, userId).doc(id).set(data);
+    return toApiDocument(id, data);
+}
+
+export async function deleteResource(resource: ResourceDefinition, userId: string, id: string): Promise<void> {
+    const ref = collectionFor(resource, userId).doc(id);
+    if (!(await ref.get()).exists) throw new NotFoundError(resource.name);
+    await ref.delete();
+}
+
+// ============================================================================
+// TASK COMPLETION & STATS
+// ============================================================================
+
+/**
+ * Mark a task done (or not done) on a date, the user's local today by
+ * default, and send task.completed webhooks. Setting the state it's
+ * already in changes nothing.
+ */
+export async function setTaskCompletion(
+    userId: string,
+    taskId: string,
+    options: { completed?: unknown; date?: unknown }
+): Promise<ApiDocument> {
+    const completed = options.completed ?? true;
+    if (typeof completed !== "boolean") {
+        throw new ValidationError("completed must be a boolean");
+    }
+    if (options.date !== undefined && (typeof options.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(options.date))) {
+        throw new ValidationError("Invalid date format (YYYY-MM-DD)");
+    }
+
+    const db = getAdminDb();
+    const userRef = db.collection("users").doc(userId);
+    const taskRef = userRef.collection("tasks").doc(taskId);
+    const [profile, taskSnapshot] = await Promise.all([userRef.get(), taskRef.get()]);
+    if (!taskSnapshot.exists) throw new NotFoundError("Task");
+
+    const today = getLocalDateString(resolveUserTimezone(profile.data()));
+    const date = (options.date as string | undefined) ?? today;
+    const history: string[] = taskSnapshot.get("completionHistory") || [];
+    if (history.includes(date) === completed) {
+        return toApiDocument(taskSnapshot.id, taskSnapshot.data());
+    }
+
+    const completionHistory = completed ? [...history, date].sort() : history.filter(d => d !== date);
+    const updates: Record<string, unknown> = {
+        completionHistory,
+        updatedAt: new Date().toISOString(),
+        ...(date === today && {
+            isCompleted: completed,
+            lastCompletedDate: completed ? new Date().toISOString() : null,
+        }),
+    };
+    await taskRef.update(updates);
+
+    // Score, streak and totals are recalculated from the tasks, never incremented
+    await recalculateUserScore(userId);
+
+    if (completed) {
+        await emitWebhookEvent(userId, "task.completed", { taskId, title: taskSnapshot.get("title"), date });
+    }
+
+    return toApiDocument(taskSnapshot.id, { ...taskSnapshot.data(), ...updates });
+}
+
+/**
+ * The user's stats, calculated the way the leaderboard score is
+ */
+export async function getUserStats(userId: string): Promise<CalculatedStats & { calculatedAt: string }> {
+    const userRef = getAdminDb().collection("users").doc(userId);
+    const [profile, tasks] = await Promise.all([userRef.get(), userRef.collection("tasks").get()]);
+    const origin = await getAccountOrigin(userId, profile.data() ?? {});
+
+    const stats = calculateUserStats(
+        tasks.docs.map(d => ({ id: d.id, ...d.data() }) as StatsTask),
+        parseVacations(profile.data()?.vacations),
+        getZonedDate(resolveUserTimezone(profile.data())),
+        origin ?? undefined
+    );
+    return { ...stats, calculatedAt: new Date().toISOString() };
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+type ItemParams = { id: string };
+
+/**
+ * GET (list) and POST (create) for /api/v1/{resource}
+ */
+export function collectionRoutes(resource: ResourceDefinition, endpoint: string) {
+    const identifier = `v1_${resource.collection}`;
+
+    return {
+        GET: v1Route(async (request, auth) => {
+            const page = await listResources(resource, auth.uid, parseListParams(request));
+            return NextResponse.json({ success: true, ...page });
+        }, { endpoint, method: "GET", identifier, maxRequests: 60, scope: resource.scopes?.read }),
+
+        POST: v1Route(async (request, auth) => {
+            const created = await createResource(resource, auth.uid, await readBody(request));
+
+            logger.info(`${resource.name} created via API`, {
+                action: `POST ${endpoint}`,
+                metadata: { userId: auth.uid, id: created.id }
+            });
+
+            return NextResponse.json({ success: true, data: created }, { status: 201 });
+        }, { endpoint, method: "POST", identifier: `${identifier}_write`, maxRequests: 30, scope: resource.scopes?.write }),
+    };
+}
+
+/**
+ * GET, PATCH and DELETE for /api/v1/{resource}/{id}
+ */
+export function itemRoutes(resource: ResourceDefinition, endpoint: string) {
+    const identifier = `v1_${resource.collection}`;
+
+    return {
+        GET: v1Route<ItemParams>(async (_request, auth, { id }) => {
+            const data = await getResource(resource, auth.uid, id);
+            return NextResponse.json({ success: true, data });
+        }, { endpoint, method: "GET", identifier, maxRequests: 60, scope: resource.scopes?.read }),
+
+        PATCH: v1Route<ItemParams>(async (request, auth, { id }) => {
+            const data = await updateResource(resource, auth.uid, id, await readBody(request));
+
+            logger.info(`${resource.name} updated via API`, {
+                action: `PATCH ${endpoint}`,
+                metadata: { userId: auth.uid, id }
+            });
+
+            return NextResponse.json({ success: true, data });
+        }, { endpoint, method: "PATCH", identifier: `${identifier}_write`, maxRequests: 30, scope: resource.scopes?.write }),
+
+        DELETE: v1Route<ItemParams>(async (_request, auth, { id }) => {
+            await deleteResource(resource, auth.uid, id);
+
+            logger.info(`${resource.name} deleted via API`, {
+                action: `DELETE ${endpoint}`,
+                metadata: { userId: auth.uid, id }
+            });
+
+            return new NextResponse(null, { status: 204 });
+        }, { endpoint, method: "DELETE", identifier: `${identifier}_write`, maxRequests: 30, scope: resource.scopes?.write }),
+    };
+}
@@ -0,0 +1,95 @@
+// ============================================================================
+// VACATION MODE UTILITIES
+// ============================================================================
+// Shared helpers for vacation ranges stored on the user profile (users/{uid}).
+// Used by TaskContext on the client and by the cron jobs on the server, so
+// everything here must stay free of browser and Firebase dependencies.
+//
+// While a vacation is active, recurring (day-of-week) tasks are paused:
+// they are not shown, not reminded and not counted in completion rates.
+// One-time tasks keep their original dates. If `preserveStreak` is set,
+// vacation days are skipped by streak math instead of breaking the streak.
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface VacationRange {
+    id: string;
+    startDate: string; // yyyy-MM-dd, inclusive
+    endDate: string; // yyyy-MM-dd, inclusive
+    preserveStreak: boolean;
+    createdAt: string;
+    endedAt?: string; // set when the user ends the vacation early
+}
+
+// ============================================================================
+// RANGE HELPERS
+// ============================================================================
+
+/**
+ * Get the vacation range (if any) that covers a yyyy-MM-dd date
+ */
+export function getVacationForDate(
+    dateStr: string,
+    vacations: VacationRange[] | undefined
+): VacationRange | undefined {
+    if (!vacations || vacations.length === 0) return undefined;
+
+    // ISO date strings compare correctly as plain strings
+    return vacations.find(v => dateStr >= v.startDate && dateStr <= v.endDate);
+}
+
+/**
+ * Check whether a date falls within any vacation range
+ */
+export function isVacationDay(dateStr: string, vacations: VacationRange[] | undefined): boolean {
+    return getVacationForDate(dateStr, vacations) !== undefined;
+}
+
+/**
+ * Check whether a date should be skipped (neither counted nor broken) by streak math
+ */
+export function isStreakFrozenDay(dateStr: string, vacations: VacationRange[] | undefined): boolean {
+    return getVacationForDate(dateStr, vacations)?.preserveStreak ?? false;
+}
+
+/**
+ * Check whether a task is paused on a date.
+ * Only recurring tasks are paused; one-time tasks stay due on their date.
+ */
+export function isTaskPausedOn(
+    task: { specificDate?: string },
+    dateStr: string,
+    vacations: VacationRange[] | undefined
+): boolean {
+    return !task.specificDate && isVacationDay(dateStr, vacations);
+}
+
+/**
+ * Get the vacation that is active today or starts in the future, if any
+ */
+export function getCurrentOrUpcomingVacation(
+    todayStr: string,
+    vacations: VacationRange[] | undefined
+): VacationRange | undefined {
+    if (!vacations) return undefined;
+
+    return vacations
+        .filter(v => v.endDate >= todayStr)
+        .sort((a, b) => a.startDate.localeCompare(b.startDate))[0];
+}
+
+/**
+ * Normalize the raw `vacations` field read from a user document
+ */
+export function parseVacations(raw: unknown): VacationRange[] {
+    if (!Array.isArray(raw)) return [];
+
+    return raw.filter((v): v is VacationRange =>
+        !!v &&
+        typeof v === "object" &&
+        typeof (v as VacationRange).startDate === "string" &&
+        typeof (v as VacationRange).endDate === "string"
+    ).map(v => ({ ...v, preserveStreak: v.preserveStreak ?? true }));
+}
@@ -5,6 +5,8 @@
 // Uses native TypeScript with runtime validation without heavy dependencies.
 // Supports both client-side and server-side validation with detailed error reporting.
 
+import { isValidTimezone } from "@/lib/timezoneUtils";
+
 // ----------------------------------------------------------------------------
 // TYPE DEFINITIONS
 // ----------------------------------------------------------------------------
@@ -18,8 +20,8 @@ export type DayAbbreviation = "SUN" | "MON" | "TUE" | "WED" | "THU" | "FRI" | "S
 const DAY_ABBREVIATIONS: DayAbbreviation[] = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
 
 // Reminder options
-export type ReminderOption = "5m" | "15m" | "30m" | "1h" | "1d";
-const REMINDER_OPTIONS: ReminderOption[] = ["5m", "15m", "30m", "1h", "1d"];
+export type ReminderOption = "5m" | "10m" | "15m" | "30m" | "1h" | "1d";
+const REMINDER_OPTIONS: ReminderOption[] = ["5m", "10m", "15m", "30m", "1h", "1d"];
 
 // Goal priority levels
 export type PriorityLevel = "low" | "medium" | "high";
@@ -28,6 +30,8 @@ const PRIORITY_LEVELS: PriorityLevel[] = ["low", "medium", "high"];
 // Pattern matchers
 const TIME_PATTERN = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
 const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// Goals store target dates as full ISO strings; plain dates are accepted too
+const DATE_OR_ISO_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
 const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 const EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
 const URL_PATTERN = /^https?:\/\/[^\s]+$/;
@@ -130,6 +134,92 @@ export interface Task {
   reminder?: ReminderOption;
   color?: string;
   notes?: string;
+  goalId?: string;
+  recurrence?: TaskRecurrence;
+}
+
+export interface TaskRecurrence {
+  frequency: "daily" | "weekly" | "monthly" | "yearly";
+  interval: number;
+  startDate: string;
+  byDay?: DayAbbreviation[];
+  dayOfMonth?: number;
+  weekdayOfMonth?: { day: DayAbbreviation; week: number };
+  until?: string;
+  count?: number;
+}
+
+const RECURRENCE_FREQUENCIES = ["daily", "weekly", "monthly", "yearly"];
+
+/**
+ * Validate a task recurrence rule
+ */
+export function validateRecurrence(data: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== "object") {
+    return { valid: false, errors: ["Recurrence must be an object"] };
+  }
+
+  const rule = data as Record<string, unknown>;
+
+  if (!RECURRENCE_FREQUENCIES.includes(rule.frequency as string)) {
+    errors.push(`Invalid recurrence frequency. Must be one of: ${RECURRENCE_FREQUENCIES.join(", ")}`);
+  }
+
+  if (typeof rule.interval !== "number" || !Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 365) {
+    errors.push("Recurrence interval must be an integer between 1 and 365");
+  }
+
+  if (typeof rule.startDate !== "string" || !DATE_PATTERN.test(rule.startDate)) {
+    errors.push("Invalid recurrence startDate format (YYYY-MM-DD)");
+  }
+
+  if (rule.byDay !== undefined) {
+    if (!Array.isArray(rule.byDay) || !rule.byDay.every((d: unknown) => DAY_ABBREVIATIONS.includes(d as DayAbbreviation))) {
+      errors.push("Recurrence byDay must be a list of day abbreviations");
+    }
+  }
+
+  if (rule.dayOfMonth !== undefined) {
+    const day = rule.dayOfMonth;
+    if (typeof day !== "number" || !Number.isInteger(day) || (day !== -1 && (day < 1 || day > 31))) {
+      errors.push("Recurrence dayOfMonth must be 1-31 or -1 for the last day");
+    }
+  }
+
+  if (rule.weekdayOfMonth !== undefined) {
+    const nth = rule.weekdayOfMonth as Record<string, unknown> | null;
+    const week = nth?.week;
+    if (
+      !nth ||
+      !DAY_ABBREVIATIONS.includes(nth.day as DayAbbreviation) ||
+      typeof week !== "number" ||
+      (week !== -1 && (week < 1 || week > 5))
+    ) {
+      errors.push("Recurrence weekdayOfMonth needs a day and a week of 1-5 or -1");
+    }
+  }
+
+  if (rule.until !== undefined) {
+    if (typeof rule.until !== "string" || !DATE_PATTERN.test(rule.until)) {
+      errors.push("Invalid recurrence until format (YYYY-MM-DD)");
+    } else if (typeof rule.startDate === "string" && rule.until < rule.startDate) {
+      errors.push("Recurrence until must not be before startDate");
+    }
+  }
+
+  if (rule.count !== undefined) {
+    if (typeof rule.count !== "number" || !Number.isInteger(rule.count) || rule.count < 1 || rule.count > 1000) {
+      errors.push("Recurrence count must be an integer between 1 and 1000");
+    }
+  }
+
+  if (rule.until !== undefined && rule.count !== undefined) {
+    errors.push("Recurrence can end on a date or after a count, not both");
+  }
+
+  return { valid: errors.length === 0, errors };
 }
 
 /**
@@ -176,10 +266,10 @@ export function validateTask(data: unknown, options?: { strict?: boolean }): Val
     errors.push("Invalid end time format (HH:mm)");
   }
 
-  // Time validation
+  // Time validation (an end before the start is an overnight task, e.g. 23:00-00:30)
   if (TIME_PATTERN.test(task.startTime as string) && TIME_PATTERN.test(task.endTime as string)) {
-    if ((task.startTime as string) >= (task.endTime as string)) {
-      errors.push("End time must be after start time");
+    if (task.startTime === task.endTime) {
+      errors.push("End time must differ from start time");
     }
   }
 
@@ -232,6 +322,21 @@ export function validateTask(data: unknown, options?: { strict?: boolean }): Val
     }
   }
 
+  // Optional recurrence rule
+  if (task.recurrence !== undefined && task.recurrence !== null) {
+    const result = validateRecurrence(task.recurrence);
+    if (!result.valid) {
+      errors.push(...result.errors);
+    }
+  }
+
+  // Optional goal link
+  if (task.goalId !== undefined && task.goalId !== null) {
+    if (typeof task.goalId !== "string" || task.goalId.length === 0 || task.goalId.length > 128) {
+      errors.push("goalId must be a non-empty string");
+    }
+  }
+
   return { 
     valid: errors.length === 0, 
     errors, 
@@ -302,18 +407,23 @@ export interface Goal {
   emoji?: string;
   icon?: string;
   category: string;
-  priority: PriorityLevel;
+  priority?: PriorityLevel;
   targetDate: string;
   milestones: Milestone[];
   createdAt: string;
   isCompleted: boolean;
   progress?: number;
+  progressRule?: GoalProgressRule;
 }
 
+export type GoalProgressRule =
+  | { type: "milestones" }
+  | { type: "taskCompletions"; targetCount: number; startDate?: string };
+
 export interface Milestone {
   id: string;
   title: string;
-  targetDate: string;
+  targetDate?: string;
   isCompleted: boolean;
   completedAt?: string;
   order?: number;
@@ -341,7 +451,7 @@ export function validateMilestone(data: unknown): ValidationResult {
     errors.push("Milestone title must be 100 characters or less");
   }
 
-  if (typeof milestone.targetDate !== "string" || !DATE_PATTERN.test(milestone.targetDate)) {
+  if (milestone.targetDate !== undefined && (typeof milestone.targetDate !== "string" || !DATE_PATTERN.test(milestone.targetDate))) {
     errors.push("Invalid milestone target date format (YYYY-MM-DD)");
   }
 
@@ -379,7 +489,7 @@ export function validateGoal(data: unknown, options?: { strict?: boolean }): Val
   }
 
   // Date validation
-  if (typeof goal.targetDate !== "string" || !DATE_PATTERN.test(goal.targetDate)) {
+  if (typeof goal.targetDate !== "string" || !DATE_OR_ISO_PATTERN.test(goal.targetDate)) {
     errors.push("Invalid target date format (YYYY-MM-DD)");
   }
 
@@ -387,8 +497,8 @@ export function validateGoal(data: unknown, options?: { strict?: boolean }): Val
     errors.push("isCompleted must be a boolean");
   }
 
-  // Priority validation
-  if (typeof goal.priority !== "string" || !PRIORITY_LEVELS.includes(goal.priority as PriorityLevel)) {
+  // Priority validation (optional)
+  if (goal.priority !== undefined && !PRIORITY_LEVELS.includes(goal.priority as PriorityLevel)) {
     errors.push("Priority must be low, medium, or high");
   }
 
@@ -433,6 +543,21 @@ export function validateGoal(data: unknown, options?: { strict?: boolean }): Val
     }
   }
 
+  // Progress rule validation (optional)
+  if (goal.progressRule !== undefined && goal.progressRule !== null) {
+    const rule = goal.progressRule as Record<string, unknown>;
+    if (typeof rule !== "object" || (rule.type !== "milestones" && rule.type !== "taskCompletions")) {
+      errors.push("progressRule type must be milestones or taskCompletions");
+    } else if (rule.type === "taskCompletions") {
+      if (typeof rule.targetCount !== "number" || !Number.isInteger(rule.targetCount) || rule.targetCount < 1) {
+        errors.push("progressRule targetCount must be a positive integer");
+      }
+      if (rule.startDate !== undefined && (typeof rule.startDate !== "string" || !DATE_PATTERN.test(rule.startDate))) {
+        errors.push("Invalid progressRule startDate format (YYYY-MM-DD)");
+      }
+    }
+  }
+
   return { 
     valid: errors.length === 0, 
     errors, 
@@ -583,12 +708,12 @@ export function validateUserSettings(data: unknown): ValidationResult {
     }
   }
 
-  // Timezone validation (basic check)
+  // Timezone validation (IANA name, e.g. "Asia/Dhaka")
   if (settings.timezone !== undefined) {
     if (typeof settings.timezone !== "string") {
       errors.push("Timezone must be a string");
-    } else if (settings.timezone.length > 50) {
-      errors.push("Timezone must be 50 characters or less");
+    } else if (!isValidTimezone(settings.timezone)) {
+      errors.push("Timezone must be a valid IANA timezone (e.g. Asia/Dhaka)");
     }
   }
 
@@ -648,6 +773,117 @@ export function validateUserProfile(data: unknown): ValidationResult {
   return { valid: errors.length === 0, errors };
 }
 
+// ----------------------------------------------------------------------------
+// MOOD VALIDATION
+// ----------------------------------------------------------------------------
+
+// One entry per day, stored under the date it's for
+export interface MoodEntry {
+  date: string;
+  mood: number;
+  note?: string;
+  timestamp: string;
+}
+
+// 1 (awful) to 5 (great), as offered by MoodTracker
+const MOOD_RANGE = { min: 1, max: 5 };
+
+/**
+ * Validate a mood entry
+ */
+export function validateMood(data: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== "object") {
+    return { valid: false, errors: ["Mood entry must be an object"] };
+  }
+
+  const entry = data as Record<string, unknown>;
+
+  if (typeof entry.date !== "string" || !DATE_PATTERN.test(entry.date)) {
+    errors.push("Invalid mood date format (YYYY-MM-DD)");
+  }
+
+  if (typeof entry.mood !== "number" || !Number.isInteger(entry.mood) || entry.mood < MOOD_RANGE.min || entry.mood > MOOD_RANGE.max) {
+    errors.push(`Mood must be an integer between ${MOOD_RANGE.min} and ${MOOD_RANGE.max}`);
+  }
+
+  if (entry.note !== undefined && entry.note !== null) {
+    if (typeof entry.note !== "string") {
+      errors.push("Note must be a string");
+    } else if (entry.note.length > 500) {
+      errors.push("Note must be 500 characters or less");
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+// ----------------------------------------------------------------------------
+// FOCUS SESSION VALIDATION
+// ----------------------------------------------------------------------------
+
+const FOCUS_SESSION_TYPES = ["focus", "shortBreak", "longBreak"];
+const FOCUS_PRESETS = ["classic", "deepWork", "sprint", "custom"];
+
+// Same bounds the session history editor enforces
+const FOCUS_SESSION_MAX_MINUTES = 1440;
+const FOCUS_SESSION_MAX_NOTES = 2000;
+
+/**
+ * Validate a finished focus session as clients report it (times as ISO strings)
+ */
+export function validateFocusSession(data: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== "object") {
+    return { valid: false, errors: ["Focus session must be an object"] };
+  }
+
+  const session = data as Record<string, unknown>;
+
+  if (typeof session.startTime !== "string" || !DATE_OR_ISO_PATTERN.test(session.startTime) || isNaN(Date.parse(session.startTime))) {
+    errors.push("Invalid startTime (ISO date-time)");
+  }
+
+  if (typeof session.duration !== "number" || session.duration < 0 || session.duration > FOCUS_SESSION_MAX_MINUTES) {
+    errors.push(`Duration must be between 0 and ${FOCUS_SESSION_MAX_MINUTES} minutes`);
+  }
+
+  if (!FOCUS_SESSION_TYPES.includes(session.sessionType as string)) {
+    errors.push(`Invalid session type. Must be one of: ${FOCUS_SESSION_TYPES.join(", ")}`);
+  }
+
+  if (session.preset !== undefined && !FOCUS_PRESETS.includes(session.preset as string)) {
+    errors.push(`Invalid preset. Must be one of: ${FOCUS_PRESETS.join(", ")}`);
+  }
+
+  if (typeof session.completed !== "boolean") {
+    errors.push("completed must be a boolean");
+  }
+
+  if (session.abandoned !== undefined && typeof session.abandoned !== "boolean") {
+    errors.push("abandoned must be a boolean");
+  }
+
+  if (session.notes !== undefined && session.notes !== null) {
+    if (typeof session.notes !== "string") {
+      errors.push("Notes must be a string");
+    } else if (session.notes.length > FOCUS_SESSION_MAX_NOTES) {
+      errors.push(`Notes must be ${FOCUS_SESSION_MAX_NOTES} characters or less`);
+    }
+  }
+
+  for (const field of ["linkedTaskId", "linkedTaskTitle", "presetName"]) {
+    const value = session[field];
+    if (value !== undefined && value !== null && (typeof value !== "string" || value.length > 200)) {
+      errors.push(`${field} must be a string of 200 characters or less`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
 // ----------------------------------------------------------------------------
 // FIRESTORE DOCUMENT VALIDATION
 // ----------------------------------------------------------------------------
@@ -744,6 +980,195 @@ export function safeValidate<T>(
   }
 }
 
+// ----------------------------------------------------------------------------
+// JSON SCHEMAS
+// ----------------------------------------------------------------------------
+// The same rules as the validators above, described as JSON Schema for the
+// /api/v1 OpenAPI document (see lib/openApi). Fields marked readOnly are set
+// by the server and ignored in request bodies.
+
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean" | "null" | Array<"string" | "number" | "integer" | "object" | "null">;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: readonly (string | number)[];
+  const?: string;
+  pattern?: string;
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  readOnly?: boolean;
+  oneOf?: JsonSchema[];
+  $ref?: string;
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const datePattern: JsonSchema = { type: "string", pattern: DATE_PATTERN.source, description: "YYYY-MM-DD" };
+const dateTime = (readOnly = false): JsonSchema => ({ type: "string", format: "date-time", ...(readOnly && { readOnly }) });
+
+const recurrenceSchema: JsonSchema = {
+  type: "object",
+  required: ["frequency", "interval", "startDate"],
+  properties: {
+    frequency: { type: "string", enum: RECURRENCE_FREQUENCIES },
+    interval: { type: "integer", minimum: 1, maximum: 365 },
+    startDate: datePattern,
+    byDay: { type: "array", items: { type: "string", enum: DAY_ABBREVIATIONS } },
+    dayOfMonth: { type: "integer", minimum: -1, maximum: 31, description: "1-31, or -1 for the last day" },
+    weekdayOfMonth: {
+      type: "object",
+      required: ["day", "week"],
+      properties: {
+        day: { type: "string", enum: DAY_ABBREVIATIONS },
+        week: { type: "integer", minimum: -1, maximum: 5, description: "1-5, or -1 for the last week" },
+      },
+    },
+    until: datePattern,
+    count: { type: "integer", minimum: 1, maximum: 1000 },
+  },
+};
+
+const taskSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "title", "icon", "startTime", "endTime", "timeBlock", "days", "isCompleted", "completionHistory"],
+  properties: {
+    id: { type: "string", format: "uuid", readOnly: true },
+    title: { type: "string", minLength: 1, maxLength: 100 },
+    icon: { type: "string", maxLength: 10 },
+    startTime: { type: "string", pattern: TIME_PATTERN.source, description: "HH:mm" },
+    endTime: { type: "string", pattern: TIME_PATTERN.source, description: "HH:mm, before startTime for overnight tasks" },
+    timeBlock: { type: "string", enum: TIME_BLOCKS },
+    days: { type: "array", minItems: 1, items: { type: "string", enum: DAY_ABBREVIATIONS } },
+    isCompleted: { type: "boolean", readOnly: true },
+    completionHistory: { type: "array", items: datePattern, readOnly: true },
+    lastCompletedDate: { type: ["string", "null"], readOnly: true },
+    specificDate: datePattern,
+    reminder: { type: "string", enum: REMINDER_OPTIONS },
+    color: { type: "string", pattern: COLOR_PATTERN.source },
+    notes: { type: "string", maxLength: 1000 },
+    goalId: { type: "string", minLength: 1, maxLength: 128 },
+    recurrence: ref("TaskRecurrence"),
+    createdAt: dateTime(true),
+    updatedAt: dateTime(true),
+  },
+};
+
+const milestoneSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "title", "isCompleted"],
+  properties: {
+    id: { type: "string", format: "uuid" },
+    title: { type: "string", minLength: 1, maxLength: 100 },
+    targetDate: datePattern,
+    isCompleted: { type: "boolean" },
+    completedAt: dateTime(),
+    order: { type: "integer" },
+  },
+};
+
+const goalSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "title", "targetDate", "isCompleted"],
+  properties: {
+    id: { type: "string", format: "uuid", readOnly: true },
+    title: { type: "string", minLength: 1, maxLength: 100 },
+    description: { type: "string", maxLength: 500 },
+    icon: { type: "string" },
+    category: { type: "string", maxLength: 50 },
+    priority: { type: "string", enum: PRIORITY_LEVELS },
+    targetDate: { type: "string", pattern: DATE_OR_ISO_PATTERN.source, description: "YYYY-MM-DD or an ISO date-time" },
+    milestones: { type: "array", items: ref("Milestone") },
+    isCompleted: { type: "boolean" },
+    progress: { type: "number", minimum: 0, maximum: 100 },
+    progressRule: {
+      oneOf: [
+        { type: "object", required: ["type"], properties: { type: { const: "milestones" } } },
+        {
+          type: "object",
+          required: ["type", "targetCount"],
+          properties: {
+            type: { const: "taskCompletions" },
+            targetCount: { type: "integer", minimum: 1 },
+            startDate: datePattern,
+          },
+        },
+      ],
+    },
+    createdAt: dateTime(true),
+    updatedAt: dateTime(true),
+  },
+};
+
+const moodSchema: JsonSchema = {
+  type: "object",
+  required: ["date", "mood"],
+  properties: {
+    id: { type: "string", readOnly: true, description: "The entry's date" },
+    date: datePattern,
+    mood: { type: "integer", minimum: MOOD_RANGE.min, maximum: MOOD_RANGE.max },
+    note: { type: "string", maxLength: 500 },
+    timestamp: dateTime(true),
+  },
+};
+
+const focusSessionSchema: JsonSchema = {
+  type: "object",
+  required: ["startTime", "duration", "sessionType", "completed"],
+  properties: {
+    id: { type: "string", readOnly: true },
+    startTime: dateTime(),
+    endTime: { ...dateTime(true), description: "startTime plus duration" },
+    duration: { type: "number", minimum: 0, maximum: FOCUS_SESSION_MAX_MINUTES, description: "Minutes" },
+    sessionType: { type: "string", enum: FOCUS_SESSION_TYPES },
+    preset: { type: "string", enum: FOCUS_PRESETS },
+    presetName: { type: ["string", "null"], maxLength: 200 },
+    linkedTaskId: { type: ["string", "null"], maxLength: 200 },
+    linkedTaskTitle: { type: ["string", "null"], maxLength: 200 },
+    completed: { type: "boolean" },
+    abandoned: { type: "boolean" },
+    notes: { type: ["string", "null"], maxLength: FOCUS_SESSION_MAX_NOTES },
+    createdAt: dateTime(true),
+    updatedAt: dateTime(true),
+  },
+};
+
+const userStatsSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    score: { type: "number", minimum: 0 },
+    totalCompleted: { type: "integer", minimum: 0 },
+    totalTasks: { type: "integer", minimum: 0 },
+    totalTasksToday: { type: "integer", minimum: 0 },
+    completedTasksToday: { type: "integer", minimum: 0 },
+    dailyProgress: { type: "number", minimum: 0, maximum: 100 },
+    completionRate: { type: "number", minimum: 0, maximum: 100, description: "Last 7 days" },
+    streak: { type: "integer", minimum: 0 },
+    longestStreak: { type: "integer", minimum: 0 },
+    weeklyScore: { type: "number", minimum: 0 },
+    monthlyScore: { type: "number", minimum: 0 },
+    calculatedAt: dateTime(true),
+  },
+};
+
+/**
+ * Every schema, by the name the OpenAPI document gives it
+ */
+export const jsonSchemas: Record<string, JsonSchema> = {
+  Task: taskSchema,
+  TaskRecurrence: recurrenceSchema,
+  Goal: goalSchema,
+  Milestone: milestoneSchema,
+  Mood: moodSchema,
+  FocusSession: focusSessionSchema,
+  UserStats: userStatsSchema,
+};
+
 // ----------------------------------------------------------------------------
 // EXPORT ALL VALIDATORS
 // ----------------------------------------------------------------------------
@@ -758,6 +1183,8 @@ export const validators = {
   userStats: validateUserStats,
   userProfile: validateUserProfile,
   userSettings: validateUserSettings,
+  mood: validateMood,
+  focusSession: validateFocusSession,
   sanitizeForFirestore,
   parseAndValidateJson,
   safeValidate,
@@ -0,0 +1,522 @@
+// ============================================================================
+// WEBHOOKS (SERVER-ONLY)
+// ============================================================================
+// Outgoing webhooks: the owner registers an HTTPS URL and the events they
+// want (see integrations), and each event is POSTed there as JSON.
+//
+//   webhooks/{webhookId}            userId, url, events, secret, active, createdAt
+//   webhookDeliveries/{deliveryId}  userId, webhookId, event, body, status,
+//                                   attempts, nextAttemptAt, ... (both admin SDK only)
+//
+// Every event becomes one delivery per subscribed webhook, attempted right
+// away. A delivery that doesn't get a 2xx back within DELIVERY_TIMEOUT_MS is
+// retried after each of RETRY_DELAYS_MINUTES by the webhook-deliveries cron,
+// then marked failed. The body is stored as sent, so retries carry the same
+// bytes, delivery ID and event; receivers should use the delivery ID to
+// ignore repeats. Deliveries are kept for DELIVERY_RETENTION_DAYS (expiresAt
+// is a TTL field) as the delivery log.
+//
+// Payloads look like { id, event, createdAt, data } and are signed with the
+// webhook's secret: see WEBHOOK_HEADERS.
+//
+// URLs are the user's, so they must not reach anything inside our network.
+// A host is checked when the webhook is saved, and again on every delivery
+// (see outboundRequest), so a DNS record changed after registration can't
+// point it inside either. The delivery log only says what kind of failure
+// happened.
+
+import { createHmac, randomBytes } from "crypto";
+import type { LookupAddress } from "dns";
+import { lookup as resolveHost } from "dns/promises";
+import { isIP } from "net";
+import { v4 as uuidv4 } from "uuid";
+import { Timestamp, type DocumentData, type DocumentReference, type Query } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { NotFoundError, ValidationError } from "@/lib/apiHelpers";
+import { logger } from "@/lib/logger";
+import { BlockedAddressError, hostnameOf, isPublicAddress, postToPublicUrl } from "@/lib/outboundRequest";
+import {
+    WEBHOOK_HEADERS,
+    WebhookDeliveryInfo,
+    WebhookDeliveryStatus,
+    WebhookEvent,
+    WebhookInfo,
+    isWebhookEvent,
+} from "@/lib/integrations";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+interface StoredWebhook {
+    userId: string;
+    url: string;
+    events: WebhookEvent[];
+    secret: string;
+    active: boolean;
+    createdAt: string;
+}
+
+interface StoredDelivery {
+    userId: string;
+    webhookId: string;
+    event: WebhookEvent;
+    body: string;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    responseStatus: number | null;
+    error: string | null;
+    createdAt: string;
+    lastAttemptAt: string | null;
+    nextAttemptAt: Timestamp | null;
+    expiresAt: Timestamp;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_WEBHOOKS_PER_USER = 5;
+const MAX_URL_LENGTH = 2048;
+
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+const DELIVERY_TIMEOUT_MS = 10000;
+const DELIVERY_RETENTION_DAYS = 30;
+const DELIVERY_LOG_SIZE = 20;
+const MAX_DUE_DELIVERIES_PER_RUN = 200;
+
+// Hostnames that only resolve inside a network, never to a public receiver
+const PRIVATE_HOSTNAME_PATTERNS = [/^localhost$/i, /\.(local|internal|localhost|home\.arpa)$/i];
+
+// Strings in client-reported event data are cut to this length
+const MAX_EVENT_STRING_LENGTH = 200;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function webhooksCollection() {
+    return getAdminDb().collection("webhooks");
+}
+
+function deliveriesCollection() {
+    return getAdminDb().collection("webhookDeliveries");
+}
+
+function toWebhookInfo(id: string, data: DocumentData): WebhookInfo {
+    return { id, url: data.url, events: data.events ?? [], active: data.active !== false, createdAt: data.createdAt };
+}
+
+function toDeliveryInfo(id: string, data: DocumentData): WebhookDeliveryInfo {
+    return {
+        id,
+        event: data.event,
+        status: data.status,
+        attempts: data.attempts ?? 0,
+        responseStatus: data.responseStatus ?? null,
+        error: data.error ?? null,
+        createdAt: data.createdAt,
+        lastAttemptAt: data.lastAttemptAt ?? null,
+        nextAttemptAt: data.nextAttemptAt ? (data.nextAttemptAt as Timestamp).toDate().toISOString() : null,
+    };
+}
+
+function parseUrl(raw: unknown): string {
+    if (typeof raw !== "string" || raw.length > MAX_URL_LENGTH) {
+        throw new ValidationError("Enter the URL to send events to");
+    }
+
+    let url: URL;
+    try {
+        url = new URL(raw.trim());
+    } catch {
+        throw new ValidationError("That isn't a valid URL");
+    }
+    if (url.protocol !== "https:") {
+        throw new ValidationError("Webhook URLs must use https://");
+    }
+    if (url.username || url.password) {
+        throw new ValidationError("Webhook URLs can't contain credentials");
+    }
+    const hostname = hostnameOf(url);
+    const isPrivate = isIP(hostname)
+        ? !isPublicAddress(hostname)
+        : PRIVATE_HOSTNAME_PATTERNS.some(pattern => pattern.test(hostname));
+    if (isPrivate) {
+        throw new ValidationError("Webhook URLs must be reachable from the internet");
+    }
+    return url.toString();
+}
+
+/**
+ * Check that a URL's host resolves, and only to public addresses. Deliveries
+ * check again as they connect, since DNS can change.
+ */
+async function assertPublicHost(url: string): Promise<void> {
+    const hostname = hostnameOf(new URL(url));
+    if (isIP(hostname)) return; // Checked by parseUrl
+
+    let addresses: LookupAddress[];
+    try {
+        addresses = await resolveHost(hostname, { all: true });
+    } catch {
+        throw new ValidationError("That URL's host couldn't be found");
+    }
+    if (addresses.length === 0 || !addresses.every(entry => isPublicAddress(entry.address))) {
+        throw new ValidationError("Webhook URLs must be reachable from the internet");
+    }
+}
+
+function parseEvents(raw: unknown): WebhookEvent[] {
+    const events = Array.isArray(raw) ? Array.from(new Set(raw)) : [];
+    if (events.length === 0 || !events.every(isWebhookEvent)) {
+        throw new ValidationError("Choose at least one valid event");
+    }
+    return events as WebhookEvent[];
+}
+
+async function getOwnWebhook(userId: string, webhookId: unknown): Promise<{ ref: DocumentReference; webhook: StoredWebhook }> {
+    if (typeof webhookId !== "string" || !webhookId) {
+        throw new ValidationError("Webhook ID is required");
+    }
+
+    const ref = webhooksCollection().doc(webhookId);
+    const snapshot = await ref.get();
+    if (!snapshot.exists || snapshot.get("userId") !== userId) {
+        throw new NotFoundError("Webhook");
+    }
+    return { ref, webhook: snapshot.data() as StoredWebhook };
+}
+
+async function deleteMatching(query: Query): Promise<void> {
+    const writer = getAdminDb().bulkWriter();
+    const snapshot = await query.get();
+    snapshot.docs.forEach(d => writer.delete(d.ref));
+    await writer.close();
+}
+
+// ============================================================================
+// WEBHOOKS
+// ============================================================================
+
+export async function listWebhooks(userId: string): Promise<WebhookInfo[]> {
+    const snapshot = await webhooksCollection().where("userId", "==", userId).get();
+    return snapshot.docs
+        .map(d => toWebhookInfo(d.id, d.data()))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Register a webhook. Returns it with its signing secret, which is only shown
+ * this once.
+ */
+export async function createWebhook(
+    userId: string,
+    input: { url?: unknown; events?: unknown }
+): Promise<{ webhook: WebhookInfo; secret: string }> {
+    const url = parseUrl(input.url);
+    const events = parseEvents(input.events);
+    await assertPublicHost(url);
+
+    const existing = await webhooksCollection().where("userId", "==", userId).count().get();
+    if (existing.data().count >= MAX_WEBHOOKS_PER_USER) {
+        throw new ValidationError(`You can have up to ${MAX_WEBHOOKS_PER_USER} webhooks. Delete one first.`);
+    }
+
+    const data: StoredWebhook = {
+        userId,
+        url,
+        events,
+        secret: `whsec_${randomBytes(24).toString("base64url")}`,
+        active: true,
+        createdAt: new Date().toISOString(),
+    };
+    const ref = await webhooksCollection().add(data);
+
+    logger.info("Webhook created", { action: "createWebhook", metadata: { userId, webhookId: ref.id, events } });
+
+    return { webhook: toWebhookInfo(ref.id, data), secret: data.secret };
+}
+
+/**
+ * Change a webhook's URL or events, or pause and resume it
+ */
+export async function updateWebhook(
+    userId: string,
+    webhookId: unknown,
+    input: { url?: unknown; events?: unknown; active?: unknown }
+): Promise<WebhookInfo> {
+    const { ref, webhook } = await getOwnWebhook(userId, webhookId);
+
+    const updates: Partial<StoredWebhook> = {};
+    if (input.url !== undefined) {
+        updates.url = parseUrl(input.url);
+        await assertPublicHost(updates.url);
+    }
+    if (input.events !== undefined) updates.events = parseEvents(input.events);
+    if (input.active !== undefined) {
+        if (typeof input.active !== "boolean") throw new ValidationError("active must be a boolean");
+        updates.active = input.active;
+    }
+
+    await ref.update(updates);
+    return toWebhookInfo(ref.id, { ...webhook, ...updates });
+}
+
+/**
+ * Delete a webhook and its delivery log
+ */
+export async function deleteWebhook(userId: string, webhookId: unknown): Promise<void> {
+    const { ref } = await getOwnWebhook(userId, webhookId);
+
+    await deleteMatching(deliveriesCollection().where("webhookId", "==", ref.id));
+    await ref.delete();
+
+    logger.info("Webhook deleted", { action: "deleteWebhook", metadata: { userId, webhookId: ref.id } });
+}
+
+/**
+ * The most recent deliveries to one of the user's webhooks
+ */
+export async function listWebhookDeliveries(userId: string, webhookId: unknown): Promise<WebhookDeliveryInfo[]> {
+    const { ref } = await getOwnWebhook(userId, webhookId);
+
+    const snapshot = await deliveriesCollection()
+        .where("webhookId", "==", ref.id)
+        .orderBy("createdAt", "desc")
+        .limit(DELIVERY_LOG_SIZE)
+        .get();
+    return snapshot.docs.map(d => toDeliveryInfo(d.id, d.data()));
+}
+
+/**
+ * Delete all of a user's webhooks and deliveries (account deletion)
+ */
+export async function deleteUserWebhooks(userId: string): Promise<void> {
+    await deleteMatching(deliveriesCollection().where("userId", "==", userId));
+    await deleteMatching(webhooksCollection().where("userId", "==", userId));
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+function sign(secret: string, timestamp: number, body: string): string {
+    const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+    return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * What the delivery log says about a failed request. Connection details
+ * (addresses, ports, system errors) only go to the server log, so the log
+ * can't be used to map out hosts the receiver URL points at.
+ */
+function describeDeliveryError(error: unknown): string {
+    if (error instanceof BlockedAddressError) return error.message;
+    if ((error as Error).name === "AbortError") return `No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds`;
+    return "Couldn't connect to the receiver";
+}
+
+/**
+ * POST a delivery once and record the outcome, scheduling the next retry if
+ * it failed and has attempts left
+ */
+async function attemptDelivery(ref: DocumentReference, delivery: StoredDelivery, webhook: StoredWebhook | undefined): Promise<WebhookDeliveryStatus> {
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    if (!webhook || !webhook.active) {
+        error = webhook ? "The webhook is paused" : "The webhook was deleted";
+    } else {
+        try {
+            responseStatus = await postToPublicUrl(webhook.url, {
+                headers: {
+                    "Content-Type": "application/json",
+                    "User-Agent": "RoutineTracker-Webhooks/1.0",
+                    [WEBHOOK_HEADERS.event]: delivery.event,
+                    [WEBHOOK_HEADERS.delivery]: ref.id,
+                    [WEBHOOK_HEADERS.signature]: sign(webhook.secret, Math.floor(Date.now() / 1000), delivery.body),
+                },
+                body: delivery.body,
+                timeoutMs: DELIVERY_TIMEOUT_MS,
+            });
+            if (responseStatus < 200 || responseStatus >= 300) error = `The receiver responded ${responseStatus}`;
+        } catch (err) {
+            error = describeDeliveryError(err);
+            logger.warn("Webhook delivery failed", err, {
+                userId: delivery.userId,
+                action: "attemptDelivery",
+                metadata: { deliveryId: ref.id },
+            });
+        }
+    }
+
+    const retry = error !== null && webhook?.active === true && attempts < MAX_ATTEMPTS;
+    const status: WebhookDeliveryStatus = error === null ? "delivered" : retry ? "pending" : "failed";
+
+    await ref.update({
+        status,
+        attempts,
+        responseStatus,
+        error,
+        lastAttemptAt: new Date().toISOString(),
+        nextAttemptAt: retry ? Timestamp.fromMillis(Date.now() + RETRY_DELAYS_MINUTES[attempts - 1] * 60 * 1000) : null,
+    });
+    return status;
+}
+
+/**
+ * Send an event to each of the user's webhooks that subscribe to it. Never
+ * throws: a failed delivery is retried later, and whatever triggered the
+ * event has already happened. Returns how many deliveries were made.
+ */
+export async function emitWebhookEvent(userId: string, event: WebhookEvent, data: Record<string, unknown>): Promise<number> {
+    try {
+        const snapshot = await webhooksCollection().where("userId", "==", userId).get();
+        const webhooks = snapshot.docs.filter(d => {
+            const webhook = d.data() as StoredWebhook;
+            return webhook.active && webhook.events.includes(event);
+        });
+        if (webhooks.length === 0) return 0;
+
+        const now = new Date();
+        await Promise.all(webhooks.map(async webhook => {
+            const id = uuidv4();
+            const delivery: StoredDelivery = {
+                userId,
+                webhookId: webhook.id,
+                event,
+                body: JSON.stringify({ id, event, createdAt: now.toISOString(), data }),
+                status: "pending",
+                attempts: 0,
+                responseStatus: null,
+                error: null,
+                createdAt: now.toISOString(),
+                lastAttemptAt: null,
+                nextAttemptAt: Timestamp.fromDate(now),
+                expiresAt: Timestamp.fromMillis(now.getTime() + DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+            };
+
+            const ref = deliveriesCollection().doc(id);
+            await ref.set(delivery);
+            await attemptDelivery(ref, delivery, webhook.data() as StoredWebhook);
+        }));
+
+        return webhooks.length;
+    } catch (error) {
+        logger.warn("Failed to emit webhook event", error, { action: "emitWebhookEvent", metadata: { userId, event } });
+        return 0;
+    }
+}
+
+/**
+ * Retry every delivery that's due (the webhook-deliveries cron)
+ */
+export async function processDueWebhookDeliveries(now: Date = new Date()): Promise<Record<WebhookDeliveryStatus, number>> {
+    const due = await deliveriesCollection()
+        .where("status", "==", "pending")
+        .where("nextAttemptAt", "<=", Timestamp.fromDate(now))
+        .orderBy("nextAttemptAt")
+        .limit(MAX_DUE_DELIVERIES_PER_RUN)
+        .get();
+
+    const counts: Record<WebhookDeliveryStatus, number> = { pending: 0, delivered: 0, failed: 0 };
+    const webhooks = new Map<string, StoredWebhook | undefined>();
+
+    for (const entry of due.docs) {
+        const delivery = entry.data() as StoredDelivery;
+        if (!webhooks.has(delivery.webhookId)) {
+            const webhook = await webhooksCollection().doc(delivery.webhookId).get();
+            webhooks.set(delivery.webhookId, webhook.data() as StoredWebhook | undefined);
+        }
+
+        try {
+            counts[await attemptDelivery(entry.ref, delivery, webhooks.get(delivery.webhookId))]++;
+        } catch (error) {
+            logger.warn("Webhook retry failed", error, {
+                action: "processDueWebhookDeliveries",
+                metadata: { deliveryId: entry.id },
+            });
+        }
+    }
+
+    return counts;
+}
+
+// ============================================================================
+// EVENTS REPORTED BY THE APP
+// ============================================================================
+// Task, goal and streak changes reach Firestore through the app's sync queue,
+// possibly some time after the user made them, so the app reports those
+// events itself and the data is taken as given (it's the user's own data,
+// going to the user's own webhooks). Focus sessions are written directly,
+// so their payload is read back from Firestore.
+
+function eventString(value: unknown, field: string, required = true): string | null {
+    if (value === undefined || value === null || value === "") {
+        if (required) throw new ValidationError(`${field} is required`);
+        return null;
+    }
+    if (typeof value !== "string") throw new ValidationError(`${field} must be a string`);
+    return value.slice(0, MAX_EVENT_STRING_LENGTH);
+}
+
+/**
+ * Validate an event the app reports and build the data its webhooks receive
+ */
+export async function buildReportedEventData(userId: string, event: unknown, raw: unknown): Promise<{ event: WebhookEvent; data: Record<string, unknown> }> {
+    if (!isWebhookEvent(event)) {
+        throw new ValidationError("Unknown event");
+    }
+    const input = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+
+    switch (event) {
+        case "task.completed": {
+            const date = eventString(input.date, "date");
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(date as string)) throw new ValidationError("Invalid date format (YYYY-MM-DD)");
+            return {
+                event,
+                data: { taskId: eventString(input.taskId, "taskId"), title: eventString(input.title, "title"), date },
+            };
+        }
+        case "goal.completed":
+            return { event, data: { goalId: eventString(input.goalId, "goalId"), title: eventString(input.title, "title") } };
+        case "streak.milestone": {
+            if (typeof input.streak !== "number" || !Number.isInteger(input.streak) || input.streak < 1) {
+                throw new ValidationError("streak must be a positive integer");
+            }
+            return {
+                event,
+                data: {
+                    streak: input.streak,
+                    achievementId: eventString(input.achievementId, "achievementId"),
+                    achievementName: eventString(input.achievementName, "achievementName", false),
+                },
+            };
+        }
+        case "focus.session_completed": {
+            const sessionId = eventString(input.sessionId, "sessionId") as string;
+            const session = await getAdminDb().collection("users").doc(userId).collection("focusSessions").doc(sessionId).get();
+            if (!session.exists || session.get("completed") !== true) {
+                throw new NotFoundError("Completed focus session");
+            }
+            const startTime = session.get("startTime") as Timestamp | undefined;
+            const endTime = session.get("endTime") as Timestamp | undefined;
+            return {
+                event,
+                data: {
+                    sessionId,
+                    sessionType: session.get("sessionType"),
+                    duration: session.get("duration"),
+                    startTime: startTime?.toDate().toISOString() ?? null,
+                    endTime: endTime?.toDate().toISOString() ?? null,
+                    linkedTaskId: session.get("linkedTaskId") ?? null,
+                    linkedTaskTitle: session.get("linkedTaskTitle") ?? null,
+                    focusPercentage: session.get("distractions.focusPercentage") ?? null,
+                },
+            };
+        }
+    }
+}
@@ -0,0 +1,272 @@
+// ============================================================================
+// IN-MEMORY FIRESTORE (TESTS ONLY)
+// ============================================================================
+// A stand-in for the firebase-admin Firestore that server code gets from
+// getAdminDb(), covering what the tested paths use: documents, collections,
+// equality queries, limits and transactions. Transactions run one at a time,
+// which is what Firestore's retries amount to for the code under test, and
+// their writes apply as they're made (and aren't held by holdNextWrite).
+//
+// Tests swap it in for the admin SDK and read or seed documents by path:
+//
+//   vi.mock("@/lib/firebaseAdmin", () => import("@/test/fakeFirestore").then(m => m.fakeFirebaseAdmin()));
+//   const db = getAdminDb() as unknown as FakeFirestore;
+
+import { randomUUID } from "crypto";
+import type { Firestore } from "firebase-admin/firestore";
+
+type Data = Record<string, unknown>;
+
+// gRPC status codes, as on the errors firebase-admin throws
+const ALREADY_EXISTS = 6;
+const NOT_FOUND = 5;
+
+function firestoreError(code: number, message: string): Error {
+    return Object.assign(new Error(message), { code });
+}
+
+// ============================================================================
+// SNAPSHOTS
+// ============================================================================
+
+class FakeDocumentSnapshot {
+    constructor(readonly ref: FakeDocumentReference, private readonly stored: Data | undefined) {}
+
+    get id(): string {
+        return this.ref.id;
+    }
+
+    get exists(): boolean {
+        return this.stored !== undefined;
+    }
+
+    data(): Data | undefined {
+        return this.stored && { ...this.stored };
+    }
+
+    get(field: string): unknown {
+        return this.stored?.[field];
+    }
+}
+
+class FakeQuerySnapshot {
+    constructor(readonly docs: FakeDocumentSnapshot[]) {}
+
+    get empty(): boolean {
+        return this.docs.length === 0;
+    }
+
+    get size(): number {
+        return this.docs.length;
+    }
+
+    forEach(callback: (snapshot: FakeDocumentSnapshot) => void): void {
+        this.docs.forEach(callback);
+    }
+}
+
+// ============================================================================
+// REFERENCES AND QUERIES
+// ============================================================================
+
+class FakeDocumentReference {
+    constructor(private readonly db: FakeFirestore, readonly path: string) {}
+
+    get id(): string {
+        return this.path.split("/").pop() as string;
+    }
+
+    collection(name: string): FakeCollectionReference {
+        return new FakeCollectionReference(this.db, `${this.path}/${name}`);
+    }
+
+    async get(): Promise<FakeDocumentSnapshot> {
+        return new FakeDocumentSnapshot(this, this.db.getData(this.path));
+    }
+
+    async set(data: Data, options?: { merge?: boolean }): Promise<void> {
+        await this.db.heldWrite(this.path);
+        const current = options?.merge ? this.db.getData(this.path) : undefined;
+        this.db.setData(this.path, { ...current, ...data });
+    }
+
+    async create(data: Data): Promise<void> {
+        await this.db.heldWrite(this.path);
+        if (this.db.getData(this.path)) throw firestoreError(ALREADY_EXISTS, `${this.path} already exists`);
+        this.db.setData(this.path, data);
+    }
+
+    async update(data: Data): Promise<void> {
+        await this.db.heldWrite(this.path);
+        const current = this.db.getData(this.path);
+        if (!current) throw firestoreError(NOT_FOUND, `No document to update: ${this.path}`);
+        this.db.setData(this.path, { ...current, ...data });
+    }
+
+    async delete(): Promise<void> {
+        await this.db.heldWrite(this.path);
+        this.db.deleteData(this.path);
+    }
+}
+
+class FakeQuery {
+    constructor(
+        protected readonly db: FakeFirestore,
+        readonly path: string,
+        private readonly filters: Array<[string, unknown]> = [],
+        private readonly max: number | null = null
+    ) {}
+
+    where(field: string, op: string, value: unknown): FakeQuery {
+        if (op !== "==") throw new Error(`The fake Firestore only supports == filters, not ${op}`);
+        return new FakeQuery(this.db, this.path, [...this.filters, [field, value]], this.max);
+    }
+
+    limit(max: number): FakeQuery {
+        return new FakeQuery(this.db, this.path, this.filters, max);
+    }
+
+    async get(): Promise<FakeQuerySnapshot> {
+        const docs = this.db.listCollection(this.path)
+            .filter(([, data]) => this.filters.every(([field, value]) => data[field] === value))
+            .slice(0, this.max ?? undefined)
+            .map(([id, data]) => new FakeDocumentSnapshot(new FakeDocumentReference(this.db, `${this.path}/${id}`), data));
+        return new FakeQuerySnapshot(docs);
+    }
+}
+
+class FakeCollectionReference extends FakeQuery {
+    get id(): string {
+        return this.path.split("/").pop() as string;
+    }
+
+    doc(id: string = randomUUID().replace(/-/g, "")): FakeDocumentReference {
+        return new FakeDocumentReference(this.db, `${this.path}/${id}`);
+    }
+}
+
+// ============================================================================
+// TRANSACTIONS
+// ============================================================================
+
+class FakeTransaction {
+    constructor(private readonly db: FakeFirestore) {}
+
+    get(ref: FakeDocumentReference): Promise<FakeDocumentSnapshot> {
+        return ref.get();
+    }
+
+    set(ref: FakeDocumentReference, data: Data, options?: { merge?: boolean }): this {
+        const current = options?.merge ? this.db.getData(ref.path) : undefined;
+        this.db.setData(ref.path, { ...current, ...data });
+        return this;
+    }
+
+    update(ref: FakeDocumentReference, data: Data): this {
+        const current = this.db.getData(ref.path);
+        if (!current) throw firestoreError(NOT_FOUND, `No document to update: ${ref.path}`);
+        this.db.setData(ref.path, { ...current, ...data });
+        return this;
+    }
+
+    delete(ref: FakeDocumentReference): this {
+        this.db.deleteData(ref.path);
+        return this;
+    }
+}
+
+// ============================================================================
+// DATABASE
+// ============================================================================
+
+export class FakeFirestore {
+    private readonly documents = new Map<string, Data>();
+    private transactionQueue: Promise<unknown> = Promise.resolve();
+    private readonly holds: Array<{ prefix: string; released: Promise<void> }> = [];
+
+    collection(path: string): FakeCollectionReference {
+        return new FakeCollectionReference(this, path);
+    }
+
+    doc(path: string): FakeDocumentReference {
+        return new FakeDocumentReference(this, path);
+    }
+
+    runTransaction<T>(run: (transaction: FakeTransaction) => Promise<T>): Promise<T> {
+        const result = this.transactionQueue.then(() => run(new FakeTransaction(this)));
+        this.transactionQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    /** This object, typed as what getAdminDb() returns */
+    asFirestore(): Firestore {
+        return this as unknown as Firestore;
+    }
+
+    // ------------------------------------------------------------------------
+    // Direct access for tests
+    // ------------------------------------------------------------------------
+
+    getData(path: string): Data | undefined {
+        const data = this.documents.get(path);
+        return data && { ...data };
+    }
+
+    setData(path: string, data: Data): void {
+        this.documents.set(path, { ...data });
+    }
+
+    deleteData(path: string): void {
+        this.documents.delete(path);
+    }
+
+    /** [id, data] of the documents directly in a collection */
+    listCollection(path: string): Array<[string, Data]> {
+        const prefix = `${path}/`;
+        return Array.from(this.documents.entries())
+            .filter(([docPath]) => docPath.startsWith(prefix) && !docPath.slice(prefix.length).includes("/"))
+            .map(([docPath, data]) => [docPath.slice(prefix.length), { ...data }]);
+    }
+
+    clear(): void {
+        this.documents.clear();
+    }
+
+    /**
+     * Make the next write under a path wait until the returned function is
+     * called, to catch a request in the middle of its work
+     */
+    holdNextWrite(prefix: string): () => void {
+        let release!: () => void;
+        const released = new Promise<void>(resolve => {
+            release = resolve;
+        });
+        this.holds.push({ prefix, released });
+        return release;
+    }
+
+    async heldWrite(path: string): Promise<void> {
+        const index = this.holds.findIndex(hold => path.startsWith(hold.prefix));
+        if (index === -1) return;
+
+        const [hold] = this.holds.splice(index, 1);
+        await hold.released;
+    }
+}
+
+/**
+ * A replacement for the @/lib/firebaseAdmin module backed by one FakeFirestore.
+ * Tokens are verified with apiHelpers' setTokenVerifier instead of the Auth service.
+ */
+export function fakeFirebaseAdmin() {
+    const db = new FakeFirestore();
+    return {
+        getAdminDb: () => db.asFirestore(),
+        getAdminAuth: () => {
+            throw new Error("Tests verify tokens with setTokenVerifier");
+        },
+        getAdminApp: () => {
+            throw new Error("Tests don't have a firebase-admin app");
+        },
+    };
+}
@@ -0,0 +1,41 @@
+// ============================================================================
+// FOCUS TIMER WORKER
+// ============================================================================
+// Runs the focus timer's clock off the main thread. Browsers throttle timers
+// in hidden tabs (down to once a minute in Chrome), but not in dedicated
+// workers, so ticks posted from here keep arriving while the tab is in the
+// background. The worker only keeps time; all timer state stays in
+// useFocusTimerLogic, which is driven through lib/focusTimerClock.
+
+import type { FocusTimerWorkerCommand, FocusTimerWorkerEvent } from "@/lib/focusTimerClock";
+
+const worker = self as unknown as Worker;
+
+let tickInterval: ReturnType<typeof setInterval> | null = null;
+let wakeTimeout: ReturnType<typeof setTimeout> | null = null;
+
+const post = (event: FocusTimerWorkerEvent) => worker.postMessage(event);
+
+const stop = () => {
+  if (tickInterval) clearInterval(tickInterval);
+  if (wakeTimeout) clearTimeout(wakeTimeout);
+  tickInterval = null;
+  wakeTimeout = null;
+};
+
+worker.onmessage = (event: MessageEvent<FocusTimerWorkerCommand>) => {
+  const command = event.data;
+  stop();
+
+  if (command.type !== "start") return;
+
+  tickInterval = setInterval(() => post({ type: "tick", now: Date.now() }), command.intervalMs);
+
+  // An extra tick right at the end time, so completion doesn't wait for the next interval
+  if (command.wakeAt !== null) {
+    wakeTimeout = setTimeout(
+      () => post({ type: "tick", now: Date.now() }),
+      Math.max(0, command.wakeAt - Date.now())
+    );
+  }
+};